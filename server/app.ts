@@ -0,0 +1,151 @@
+import express from 'express';
+import cors from 'cors';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { errorHandler } from './middleware/errorHandler.js';
+import { requireAuth, requireAdmin, requirePermission, requireWritePermission, requireFullPermission } from './middleware/auth.js';
+import { selectBox, requireDefaultBox } from './middleware/box.js';
+import { auditTrail } from './middleware/audit.js';
+import { config } from './config.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Routes
+import authRoutes from './routes/auth.js';
+import systemRoutes from './routes/system.js';
+import connectionRoutes from './routes/connection.js';
+import wifiRoutes from './routes/wifi.js';
+import lanRoutes from './routes/lan.js';
+import downloadsRoutes from './routes/downloads.js';
+import vmRoutes from './routes/vm.js';
+import callsRoutes from './routes/calls.js';
+import contactsRoutes from './routes/contacts.js';
+import fsRoutes from './routes/fs.js';
+import tvRoutes from './routes/tv.js';
+import parentalRoutes from './routes/parental.js';
+import settingsRoutes from './routes/settings.js';
+import notificationsRoutes from './routes/notifications.js';
+import speedtestRoutes from './routes/speedtest.js';
+import capabilitiesRoutes from './routes/capabilities.js';
+import statusRoutes from './routes/status.js';
+import dhcpRoutes from './routes/dhcp.js';
+import sessionRoutes from './routes/session.js';
+import usersRoutes from './routes/users.js';
+import rolesRoutes from './routes/roles.js';
+import metricsRoutes from './routes/metrics.js';
+import prometheusRoutes from './routes/prometheus.js';
+import speedtestEndpointRoutes from './routes/speedtestEndpoint.js';
+import alertsRoutes from './routes/alerts.js';
+import webhooksRoutes from './routes/webhooks.js';
+import schedulerRoutes from './routes/scheduler.js';
+import backupRoutes from './routes/backup.js';
+import configHistoryRoutes from './routes/configHistory.js';
+import auditRoutes from './routes/audit.js';
+import mqttRoutes from './routes/mqtt.js';
+import diagnosticsRoutes from './routes/diagnostics.js';
+import boxesRoutes from './routes/boxes.js';
+
+// Express application: middleware and API routes (started by index.ts, booted as is by the tests)
+const app = express();
+
+// Off by default: X-Forwarded-For is only believed from the configured proxies, req.ip is the socket peer otherwise
+app.set('trust proxy', config.trustProxy);
+
+// Middleware
+// In production (Docker), allow all origins since frontend is served from same server
+// In development, restrict to known dev ports
+// The session cookie is the only credential: other origins (another port of the same host
+// included, SameSite ignores ports) only get CORS when listed in CORS_ORIGINS
+app.use(cors({
+  origin: config.allowedOrigins,
+  credentials: true
+}));
+app.use(express.json({ limit: '10mb' }));
+
+// Request logging
+app.use((req, _res, next) => {
+  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+  next();
+});
+
+// Audit log of every POST / PUT / PATCH / DELETE, logins included
+app.use('/api', auditTrail);
+
+// Public routes (no dashboard session required)
+app.use('/api/session', sessionRoutes);
+
+// Health check
+app.get('/api/health', (_req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Prometheus exporter (bearer token, outside of the dashboard session, ?box= for the other Freebox)
+app.use('/metrics', prometheusRoutes);
+
+// Self-hosted speed test target (SPEEDTEST_ENDPOINT), reachable without a dashboard session
+app.use('/speedtest', speedtestEndpointRoutes);
+
+// Every other API route requires a dashboard session
+app.use('/api', requireAuth);
+
+// Freebox profiles, then every Freebox call is scoped to the box picked in the header switcher
+app.use('/api/boxes', boxesRoutes);
+app.use('/api', selectBox);
+
+// API Routes
+// Each router is guarded by the dashboard role of the current user:
+// - requirePermission: GET needs read access, mutations need write access
+// - requireWritePermission: reads are open (alert history of the home page), mutations need write access
+// - requireFullPermission: write access for everything (webhook URLs often embed a token)
+// The home page widgets of users without the settings permission read /api/status
+app.use('/api/users', requireAdmin, usersRoutes);
+app.use('/api/roles', requireAdmin, rolesRoutes);
+app.use('/api/auth', authRoutes);
+// Live values of the home page widgets, for every user
+app.use('/api/status', statusRoutes);
+app.use('/api/system', requirePermission('settings'), systemRoutes);
+app.use('/api/connection', requirePermission('settings'), connectionRoutes);
+app.use('/api/wifi', requirePermission('settings'), wifiRoutes);
+app.use('/api/lan', requirePermission('settings'), lanRoutes);
+app.use('/api/downloads', requirePermission('downloader'), downloadsRoutes);
+app.use('/api/vm', requirePermission('vm'), vmRoutes);
+app.use('/api/calls', requirePermission('calls'), callsRoutes);
+app.use('/api/contacts', requirePermission('contacts'), contactsRoutes);
+app.use('/api/fs', requirePermission('explorer'), fsRoutes);
+app.use('/api/tv', requirePermission('tv'), tvRoutes);
+app.use('/api/parental', requirePermission('parental'), parentalRoutes);
+app.use('/api/settings', requirePermission('settings'), settingsRoutes);
+// Read-only Freebox notifications of the home page history, for every user
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/speedtest', requirePermission('settings'), speedtestRoutes);
+// Model features the whole UI is built from (refresh only detects the model again), for every user
+app.use('/api/capabilities', capabilitiesRoutes);
+app.use('/api/dhcp', requirePermission('settings'), dhcpRoutes);
+// Collected in the background for the default Freebox only
+app.use('/api/metrics', requireDefaultBox, metricsRoutes);
+app.use('/api/alerts', requireWritePermission('settings'), requireDefaultBox, alertsRoutes);
+app.use('/api/webhooks', requireFullPermission('settings'), requireDefaultBox, webhooksRoutes);
+app.use('/api/scheduler', requirePermission('settings'), schedulerRoutes);
+// Archives hold WiFi keys and VPN secrets
+app.use('/api/backup', requireAdmin, backupRoutes);
+app.use('/api/config-history', requirePermission('settings'), configHistoryRoutes);
+app.use('/api/audit', requireAdmin, auditRoutes);
+app.use('/api/mqtt', requirePermission('settings'), requireDefaultBox, mqttRoutes);
+app.use('/api/diagnostics', requirePermission('settings'), diagnosticsRoutes);
+
+// Error handler
+app.use(errorHandler);
+
+// Serve static files from dist folder (production build only)
+if (process.env.NODE_ENV === 'production') {
+  const distPath = path.join(__dirname, '..', 'dist');
+  app.use(express.static(distPath));
+
+  // SPA fallback - serve index.html for all non-API routes
+  app.get('/{*splat}', (_req, res) => {
+    res.sendFile(path.join(distPath, 'index.html'));
+  });
+}
+
+export default app;
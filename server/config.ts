@@ -15,11 +15,186 @@ const getTokenFilePath = (): string => {
   return path.join(__dirname, '..', '.freebox_token');
 };
 
+// Directory for persistent dashboard data (users, schedules...)
+// Lives next to the token file so Docker volumes keep everything together
+const getDataDir = (): string => {
+  const tokenFile = getTokenFilePath();
+  const tokenPath = path.isAbsolute(tokenFile) ? tokenFile : path.join(process.cwd(), tokenFile);
+  return path.dirname(tokenPath);
+};
+
+// TRUST_PROXY=true, a number of hops, or a comma-separated list of addresses / subnets
+const parseTrustProxy = (value: string): boolean | number | string => {
+  if (value === '' || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+};
+
+// Pages of another origin allowed to call the API with the session cookie (CORS_ORIGINS, comma-separated).
+// The frontend is served by the dashboard itself in production, the Vite dev server needs them in development
+const parseAllowedOrigins = (value: string): string[] => {
+  const origins = value.split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+  return process.env.NODE_ENV === 'production'
+    ? origins
+    : [...origins, 'http://localhost:3000', 'http://localhost:5173'];
+};
+
 // Server configuration
 export const config = {
   // Server
   port: parseInt(process.env.PORT || process.env.SERVER_PORT || '3001', 10),
 
+  // Persistent data directory
+  dataDir: getDataDir(),
+
+  // Reverse proxies allowed to set X-Forwarded-For / X-Forwarded-Proto, passed to Express
+  // 'trust proxy' (true, a hop count or addresses / subnets). Off: the client is the socket peer
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY || ''),
+
+  // Origins other than the dashboard's own allowed to use the session cookie (CORS and WebSocket)
+  allowedOrigins: parseAllowedOrigins(process.env.CORS_ORIGINS || ''),
+
+  // Dashboard authentication (local user accounts, independent from the Freebox app token)
+  dashboard: {
+    // Session cookie name and lifetime
+    sessionCookie: 'fbx_dashboard_session',
+    sessionTtl: parseInt(process.env.DASHBOARD_SESSION_TTL || String(7 * 24 * 3600), 10) * 1000,
+
+    // Brute-force protection: lock an IP after N failed logins for a given duration
+    maxLoginAttempts: 5,
+    loginLockout: 5 * 60 * 1000
+  },
+
+  // Server-side metrics collector (time series stored under dataDir/metrics)
+  metrics: {
+    enabled: process.env.METRICS_ENABLED !== 'false',
+    // Sampling interval in seconds
+    sampleInterval: parseInt(process.env.METRICS_INTERVAL || '60', 10),
+    // Retention per resolution, in days
+    rawRetentionDays: parseInt(process.env.METRICS_RAW_RETENTION_DAYS || '2', 10),
+    mediumRetentionDays: parseInt(process.env.METRICS_15M_RETENTION_DAYS || '35', 10),
+    longRetentionDays: parseInt(process.env.METRICS_1H_RETENTION_DAYS || '400', 10)
+  },
+
+  // Alert rules engine (rules, channels and history stored in dataDir/.alerts.json)
+  alerts: {
+    enabled: process.env.ALERTS_ENABLED !== 'false',
+    // Evaluation interval in seconds
+    evaluationInterval: parseInt(process.env.ALERTS_INTERVAL || '60', 10),
+    // Number of events kept in the history
+    historySize: 500
+  },
+
+  // Freebox event detection (webhooks)
+  events: {
+    // Background poll interval in seconds (calls, downloads, LAN hosts, reboots)
+    pollInterval: parseInt(process.env.EVENTS_POLL_INTERVAL || '30', 10)
+  },
+
+  // Outgoing webhooks
+  webhooks: {
+    // Delivery attempts per event, the delay doubles after each failure
+    maxAttempts: 5,
+    retryDelay: 10,
+    requestTimeout: 10000,
+    // Number of deliveries kept in the log
+    logSize: 200
+  },
+
+  // MQTT bridge with Home Assistant discovery (disabled unless a broker URL is configured)
+  mqtt: {
+    url: process.env.MQTT_URL || '',
+    username: process.env.MQTT_USERNAME || undefined,
+    password: process.env.MQTT_PASSWORD || undefined,
+    clientId: process.env.MQTT_CLIENT_ID || 'freebox-dashboard',
+    baseTopic: (process.env.MQTT_BASE_TOPIC || 'freebox').replace(/\/+$/, ''),
+    discoveryPrefix: process.env.MQTT_DISCOVERY_PREFIX || 'homeassistant',
+    // State publication interval in seconds
+    publishInterval: parseInt(process.env.MQTT_PUBLISH_INTERVAL || '30', 10),
+    // Accept reboot / WiFi / WoL / VM commands on <baseTopic>/.../set
+    commands: process.env.MQTT_COMMANDS !== 'false'
+  },
+
+  // Scheduled jobs (reboot, WiFi, VMs, downloads...) stored per box in dataDir/.scheduled_jobs.json
+  scheduler: {
+    // Occurrences missed while the server was down are caught up if not older than this (hours)
+    catchUpWindow: parseInt(process.env.SCHEDULER_CATCH_UP_HOURS || '12', 10),
+    // Run history entries kept per box
+    maxRuns: 200
+  },
+
+  // Audit log of mutating API requests (one file per day under dataDir/audit)
+  audit: {
+    enabled: process.env.AUDIT_ENABLED !== 'false',
+    retentionDays: parseInt(process.env.AUDIT_RETENTION_DAYS || '365', 10)
+  },
+
+  // Configuration drift detection (snapshots and changes stored per box in dataDir/.config_history.json)
+  configHistory: {
+    enabled: process.env.CONFIG_HISTORY_ENABLED !== 'false',
+    // Minutes between two snapshots
+    interval: parseInt(process.env.CONFIG_HISTORY_INTERVAL || '15', 10),
+    // Change events kept per box (with the snapshots they refer to)
+    maxEvents: 300
+  },
+
+  // Throughput speed test engine
+  speedtest: {
+    // Extra targets, JSON array of { id, name, downloadUrl, uploadUrl, latencyUrl? }
+    targets: process.env.SPEEDTEST_TARGETS || '',
+    // Serve /speedtest/download and /speedtest/upload so LAN machines or another dashboard can test against this server
+    serveEndpoint: process.env.SPEEDTEST_ENDPOINT === 'true',
+    // Parallel HTTP streams and measured seconds per direction
+    streams: parseInt(process.env.SPEEDTEST_STREAMS || '4', 10),
+    duration: parseInt(process.env.SPEEDTEST_DURATION || '10', 10),
+    // Seconds ignored at the start of each direction (TCP slow start)
+    warmup: 2,
+    maxStreams: 16,
+    maxDuration: 30,
+    // Finished tests kept in dataDir/.speedtest_history.json
+    historyDays: parseInt(process.env.SPEEDTEST_HISTORY_DAYS || '365', 10),
+    // Monthly report: a test under this percentage of the advertised speed counts as degraded
+    slaThreshold: parseInt(process.env.SPEEDTEST_SLA_THRESHOLD || '50', 10)
+  },
+
+  // Prometheus exporter on /metrics (disabled unless a bearer token is configured)
+  prometheus: {
+    token: process.env.PROMETHEUS_TOKEN || ''
+  },
+
+  // Standalone mock FreeboxOS server (npm run mock:freebox), point FREEBOX_URL at it
+  mockFreebox: {
+    port: parseInt(process.env.MOCK_SERVER_PORT || '3100', 10),
+    // ultra, delta, pop, revolution or mini4k
+    model: process.env.MOCK_SERVER_MODEL || 'ultra',
+    // Milliseconds before a registration is granted, -1 to grant it with POST /__mock/authorize/:trackId
+    grantDelay: parseInt(process.env.MOCK_SERVER_GRANT_DELAY || '3000', 10),
+    // Seconds during which the box does not answer after a reboot
+    rebootDuration: parseInt(process.env.MOCK_SERVER_REBOOT_DURATION || '20', 10)
+  },
+
+  // Recursive file search and duplicate finder (index stored per box in dataDir/.file_index.json)
+  fileIndex: {
+    // Minutes between two full walks of an index already built, 0 to walk only on demand
+    interval: parseInt(process.env.FILE_INDEX_INTERVAL || '360', 10),
+    // Files and folders indexed per box, the walk stops beyond
+    maxEntries: 500000,
+    // Smaller files are left out of the duplicate report
+    duplicateMinSize: 1024 * 1024,
+    // Algorithm of the Freebox hash tasks (md5, sha1, sha256 or sha512)
+    hashType: 'sha256',
+    // Seconds given to the Freebox to hash one file
+    hashTimeout: 600
+  },
+
+  // Browser uploads to the Freebox storage
+  uploads: {
+    // Largest chunk accepted per request (the frontend sends 2 MiB)
+    maxChunkSize: 8 * 1024 * 1024,
+    // Unfinished uploads are cancelled after this many seconds without a chunk
+    idleTimeout: 1800
+  },
+
   // Freebox API
   freebox: {
     // Default URLs - can be overridden by env vars
@@ -109,6 +284,9 @@ export const API_ENDPOINTS = {
   FS_COPY: '/fs/cp/',
   FS_MOVE: '/fs/mv/',
   FS_HASH: '/fs/hash/',
+  FS_ARCHIVE: '/fs/archive/',
+  FS_EXTRACT: '/fs/extract/',
+  FS_TASKS: '/fs/tasks/',
   FS_DOWNLOAD: '/dl/',
 
   // Storage
@@ -1,92 +1,12 @@
 import 'dotenv/config';
-import express from 'express';
-import cors from 'cors';
-import path from 'path';
 import http from 'http';
-import { fileURLToPath } from 'url';
 import { config } from './config.js';
-import { errorHandler } from './middleware/errorHandler.js';
+import app from './app.js';
 import { connectionWebSocket } from './services/connectionWebSocket.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Routes
-import authRoutes from './routes/auth.js';
-import systemRoutes from './routes/system.js';
-import connectionRoutes from './routes/connection.js';
-import wifiRoutes from './routes/wifi.js';
-import lanRoutes from './routes/lan.js';
-import downloadsRoutes from './routes/downloads.js';
-import vmRoutes from './routes/vm.js';
-import callsRoutes from './routes/calls.js';
-import contactsRoutes from './routes/contacts.js';
-import fsRoutes from './routes/fs.js';
-import tvRoutes from './routes/tv.js';
-import parentalRoutes from './routes/parental.js';
-import settingsRoutes from './routes/settings.js';
-import notificationsRoutes from './routes/notifications.js';
-import speedtestRoutes from './routes/speedtest.js';
-import capabilitiesRoutes from './routes/capabilities.js';
-import dhcpRoutes from './routes/dhcp.js';
-
-const app = express();
-
-// Middleware
-// In production (Docker), allow all origins since frontend is served from same server
-// In development, restrict to known dev ports
-const corsOrigin = process.env.NODE_ENV === 'production'
-  ? true  // Allow all origins in production (frontend served from same origin)
-  : ['http://localhost:3000', 'http://localhost:5173'];
-app.use(cors({
-  origin: corsOrigin,
-  credentials: true
-}));
-app.use(express.json({ limit: '10mb' }));
-
-// Request logging
-app.use((req, _res, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
-
-// API Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/system', systemRoutes);
-app.use('/api/connection', connectionRoutes);
-app.use('/api/wifi', wifiRoutes);
-app.use('/api/lan', lanRoutes);
-app.use('/api/downloads', downloadsRoutes);
-app.use('/api/vm', vmRoutes);
-app.use('/api/calls', callsRoutes);
-app.use('/api/contacts', contactsRoutes);
-app.use('/api/fs', fsRoutes);
-app.use('/api/tv', tvRoutes);
-app.use('/api/parental', parentalRoutes);
-app.use('/api/settings', settingsRoutes);
-app.use('/api/notifications', notificationsRoutes);
-app.use('/api/speedtest', speedtestRoutes);
-app.use('/api/capabilities', capabilitiesRoutes);
-app.use('/api/dhcp', dhcpRoutes);
-
-// Health check
-app.get('/api/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-// Error handler
-app.use(errorHandler);
-
-// Serve static files from dist folder (production build only)
-if (process.env.NODE_ENV === 'production') {
-  const distPath = path.join(__dirname, '..', 'dist');
-  app.use(express.static(distPath));
-
-  // SPA fallback - serve index.html for all non-API routes
-  app.get('/{*splat}', (_req, res) => {
-    res.sendFile(path.join(distPath, 'index.html'));
-  });
-}
+import { metricsCollector } from './services/metricsCollector.js';
+import { alertEngine } from './services/alertEngine.js';
+import { webhookService } from './services/webhooks.js';
+import { mqttBridge } from './services/mqttBridge.js';
 
 // Create HTTP server (needed for WebSocket)
 const server = http.createServer(app);
@@ -99,6 +19,18 @@ server.on('upgrade', (request, socket, head) => {
 // Initialize WebSocket server
 connectionWebSocket.init(server);
 
+// Background metrics collection (samples only while a Freebox session is open)
+metricsCollector.start();
+
+// Alert rules evaluation
+alertEngine.start();
+
+// Outgoing webhooks for Freebox events
+webhookService.start();
+
+// MQTT bridge (Home Assistant)
+mqttBridge.start();
+
 // Start server
 const port = config.port;
 const host = '0.0.0.0'; // Bind to all interfaces for Docker compatibility
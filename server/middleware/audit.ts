@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { auditLog, sanitizePayload } from '../services/auditLog.js';
+import { getClientIp } from './auth.js';
+import { getRequestedBoxId } from './box.js';
+
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+// File upload chunks: the upload is audited when it starts and when it is cancelled
+const UPLOAD_CHUNK_ROUTE = /^\/api\/fs\/upload\/[^/]+\/?$/;
+// Anonymous requests whose username is kept
+const LOGIN_ROUTE = /^\/api\/session\/(login|setup)\/?$/;
+
+interface ResponseBody {
+  success?: unknown;
+  error_code?: unknown;
+  msg?: unknown;
+  error?: { code?: unknown; message?: unknown };
+}
+
+const asText = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+/**
+ * Record every mutating API request once its response is sent
+ *
+ * Mounted before the session routes so that logins are audited too; the
+ * user is read when the response finishes, after requireAuth resolved it.
+ * Requests without a session are kept to their route, status and IP (and
+ * the username of a login): anyone can send them.
+ * Freebox responses are forwarded as { success, error_code, msg } and
+ * dashboard errors as { success: false, error: { code, message } }.
+ */
+export const auditTrail = (req: Request, res: Response, next: NextFunction) => {
+  if (!AUDITED_METHODS.includes(req.method)) return next();
+  if (req.method === 'PUT' && UPLOAD_CHUNK_ROUTE.test(req.originalUrl.split('?')[0])) return next();
+
+  const startedAt = Date.now();
+  let body: ResponseBody | null = null;
+  const json = res.json.bind(res);
+  res.json = (value: unknown) => {
+    if (value && typeof value === 'object') body = value as ResponseBody;
+    return json(value);
+  };
+
+  res.on('finish', () => {
+    const route = req.originalUrl.split('?')[0];
+    if (!req.user) {
+      const username = LOGIN_ROUTE.test(route) ? asText(req.body?.username) : null;
+      auditLog.record({
+        id: crypto.randomUUID(),
+        timestamp: startedAt,
+        user: null,
+        ip: getClientIp(req),
+        boxId: null,
+        method: req.method,
+        route,
+        payload: username ? { body: { username: username.slice(0, 64) } } : null,
+        status: res.statusCode,
+        success: res.statusCode < 400,
+        errorCode: null,
+        message: null,
+        duration: Date.now() - startedAt
+      });
+      return;
+    }
+
+    const query = Object.keys(req.query).length > 0 ? { query: req.query } : {};
+    const payload = req.body && typeof req.body === 'object' && Object.keys(req.body).length > 0
+      ? { ...query, body: req.body }
+      : query;
+    const result = body as ResponseBody | null;
+
+    auditLog.record({
+      id: crypto.randomUUID(),
+      timestamp: startedAt,
+      user: req.user?.username ?? null,
+      ip: getClientIp(req),
+      boxId: route.startsWith('/api/session') ? null : getRequestedBoxId(req),
+      method: req.method,
+      route,
+      payload: Object.keys(payload).length > 0 ? sanitizePayload(payload) : null,
+      status: res.statusCode,
+      success: typeof result?.success === 'boolean' ? result.success : res.statusCode < 400,
+      errorCode: asText(result?.error_code) ?? asText(result?.error?.code),
+      message: asText(result?.msg) ?? asText(result?.error?.message),
+      duration: Date.now() - startedAt
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,127 @@
+import type { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config.js';
+import { dashboardAuth, type AuthenticatedUser } from '../services/dashboardAuth.js';
+import { hasAccess, type AccessLevel, type DashboardPermission } from '../types/roles.js';
+import { createError } from './errorHandler.js';
+
+// Make the authenticated dashboard user available on every request
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: AuthenticatedUser;
+  }
+}
+
+// Parse the Cookie header without pulling an extra dependency
+const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+};
+
+// Read the dashboard session id from an HTTP request (Express or raw WebSocket upgrade)
+export const getSessionId = (req: IncomingMessage): string | undefined => {
+  return parseCookies(req.headers.cookie)[config.dashboard.sessionCookie];
+};
+
+// Resolve the dashboard user behind a raw request (used by the WebSocket upgrade)
+export const getRequestUser = (req: IncomingMessage): AuthenticatedUser | null => {
+  return dashboardAuth.getSessionUser(getSessionId(req));
+};
+
+// Browsers send Origin on every WebSocket upgrade and CORS doesn't apply there: only the
+// dashboard's own page, or an origin of CORS_ORIGINS, may open one with the session cookie
+export const isAllowedOrigin = (req: IncomingMessage): boolean => {
+  const origin = req.headers.origin;
+  // Not a browser
+  if (!origin) return true;
+  if (config.allowedOrigins.includes(origin)) return true;
+  let host: string;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    return false;
+  }
+  const forwardedHost = config.trustProxy ? req.headers['x-forwarded-host'] : undefined;
+  return host === req.headers.host || (typeof forwardedHost === 'string' && host === forwardedHost.split(',')[0].trim());
+};
+
+// Client IP, from X-Forwarded-For only when the request came through a trusted proxy (TRUST_PROXY)
+export const getClientIp = (req: Request): string => {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+};
+
+export const setSessionCookie = (req: Request, res: Response, sessionId: string) => {
+  res.cookie(config.dashboard.sessionCookie, sessionId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    maxAge: config.dashboard.sessionTtl,
+    path: '/'
+  });
+};
+
+export const clearSessionCookie = (res: Response) => {
+  res.clearCookie(config.dashboard.sessionCookie, { path: '/' });
+};
+
+// Reject any request without a valid dashboard session
+export const requireAuth = (req: Request, _res: Response, next: NextFunction) => {
+  const user = getRequestUser(req);
+  if (!user) {
+    return next(createError('Authentification requise', 401, 'UNAUTHENTICATED'));
+  }
+  req.user = user;
+  next();
+};
+
+// Only administrators (users, roles, Freebox app registration)
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction) => {
+  if (!req.user?.admin) {
+    return next(createError('Action réservée aux administrateurs', 403, 'FORBIDDEN_ROLE'));
+  }
+  next();
+};
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const checkPermission = (req: Request, permission: DashboardPermission, required: AccessLevel, next: NextFunction) => {
+  if (!hasAccess(req.user?.permissions[permission], required)) {
+    const message = required === 'write'
+      ? `Votre rôle ne permet pas de modifier cette fonction (${permission})`
+      : `Votre rôle ne permet pas d'accéder à cette fonction (${permission})`;
+    return next(createError(message, 403, 'FORBIDDEN_ROLE'));
+  }
+  next();
+};
+
+// Read access for GET requests, write access for everything else
+export const requirePermission = (permission: DashboardPermission) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    checkPermission(req, permission, READ_METHODS.includes(req.method) ? 'read' : 'write', next);
+  };
+
+// Write access even to read, for data holding credentials (webhook URLs and secrets)
+export const requireFullPermission = (permission: DashboardPermission) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    checkPermission(req, permission, 'write', next);
+  };
+
+// Reads stay open to every dashboard user (home page history), only mutations are checked
+export const requireWritePermission = (permission: DashboardPermission) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (READ_METHODS.includes(req.method)) return next();
+    checkPermission(req, permission, 'write', next);
+  };
@@ -0,0 +1,31 @@
+import type { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { boxProfiles } from '../services/boxProfiles.js';
+import { DEFAULT_BOX_ID, currentBoxId, runWithBox } from '../services/boxContext.js';
+import { createError } from './errorHandler.js';
+
+// Box requested by the browser: X-Freebox-Box header, or ?box= for plain links and WebSockets
+export const getRequestedBoxId = (req: IncomingMessage): string => {
+  const header = req.headers['x-freebox-box'];
+  if (typeof header === 'string' && header) return header;
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams.get('box');
+  return query || DEFAULT_BOX_ID;
+};
+
+// Scope the rest of the request (every freeboxApi call) to the selected Freebox
+export const selectBox = (req: Request, _res: Response, next: NextFunction) => {
+  const boxId = getRequestedBoxId(req);
+  if (!boxProfiles.get(boxId)) {
+    return next(createError(`Freebox inconnue : ${boxId}`, 404, 'BOX_NOT_FOUND'));
+  }
+  runWithBox(boxId, () => next());
+};
+
+// Metrics, alerts, webhooks and MQTT run in the background for the default Freebox only:
+// refuse the other boxes instead of answering with data of another Freebox
+export const requireDefaultBox = (_req: Request, _res: Response, next: NextFunction) => {
+  if (currentBoxId() !== DEFAULT_BOX_ID) {
+    return next(createError('Disponible uniquement pour la Freebox principale', 400, 'DEFAULT_BOX_ONLY'));
+  }
+  next();
+};
@@ -0,0 +1,1287 @@
+import http from 'http';
+import crypto from 'crypto';
+import express, { Router, type Request, type Response, type RequestHandler } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { MockAuth, MOCK_PERMISSIONS, type MockPermission } from './auth.js';
+import { getMockProfile, type MockModelProfile } from './profiles.js';
+import { attachUploadSocket } from './upload.js';
+import {
+  MockFreeboxState,
+  encodePath,
+  decodePath,
+  joinPath,
+  parentOf,
+  baseName,
+  mimeOf,
+  type Json,
+  type MockDownload,
+  type MockFsNode
+} from './state.js';
+
+export interface MockFreeboxOptions {
+  // MockModelId, Ultra when unknown
+  model?: string;
+  // Milliseconds before a registration is granted, -1 to wait for POST /__mock/authorize/:trackId
+  grantDelay?: number;
+  sessionTtl?: number;
+  // Milliseconds during which the box answers 503 after a reboot
+  rebootDuration?: number;
+  permissions?: Partial<Record<MockPermission, boolean>>;
+}
+
+export interface MockFreebox {
+  app: express.Express;
+  auth: MockAuth;
+  // Replaced on POST /__mock/reset
+  readonly state: MockFreeboxState;
+  reset(model?: string): void;
+  onReset(hook: (previous: MockFreeboxState, next: MockFreeboxState) => void): void;
+}
+
+// Formats written by /fs/archive/, and read by /fs/extract/
+const ARCHIVE_FORMAT = /\.(zip|tar|tar\.gz|tar\.bz2|tar\.xz|7z)$/i;
+const EXTRACT_FORMAT = /\.(zip|tar|tar\.gz|tgz|tar\.bz2|tar\.xz|7z|rar|iso)$/i;
+
+// Highest API version answered, like a box on the latest firmware
+const API_VERSION = 15;
+
+type Handler = (req: Request, res: Response) => void;
+
+const ok = (res: Response, result?: unknown) => {
+  res.json(result === undefined ? { success: true } : { success: true, result });
+};
+
+const fail = (res: Response, status: number, errorCode: string, msg: string) => {
+  res.status(status).json({ success: false, error_code: errorCode, msg });
+};
+
+const notFound = (res: Response) => fail(res, 404, 'noent', 'Élément introuvable');
+const noDevice = (res: Response) => fail(res, 404, 'nodev', 'Fonction non disponible sur ce modèle de Freebox');
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Settings PUTs only send the fields that change, nested objects included
+const merge = (target: Json, patch: unknown): Json => {
+  if (!isObject(patch)) return target;
+  for (const [key, value] of Object.entries(patch)) {
+    if (isObject(value) && isObject(target[key])) {
+      merge(target[key] as Json, value);
+    } else {
+      target[key] = value;
+    }
+  }
+  return target;
+};
+
+const bodyOf = (req: Request): Json => (isObject(req.body) ? req.body : {});
+
+// Base64 path captured by a `*path` wildcard (base64 may contain "/")
+const wildcardPath = (req: Request): string => {
+  const value = (req.params as Record<string, string | string[] | undefined>).path;
+  return Array.isArray(value) ? value.join('/') : value ?? '';
+};
+
+/**
+ * GET / PUT of a settings object, PUT answers the merged settings
+ */
+const settingsRoute = (router: Router, path: string, get: () => Json, guards: RequestHandler[] = []) => {
+  router.get(path, ...guards, (_req, res) => ok(res, get()));
+  router.put(path, ...guards, (req, res) => ok(res, merge(get(), bodyOf(req))));
+};
+
+/**
+ * List / get / create / update / delete on a collection held in the state
+ */
+const collectionRoutes = (
+  router: Router,
+  path: string,
+  list: () => Json[],
+  options: {
+    guards?: RequestHandler[];
+    key?: string;
+    create?: (body: Json) => Json;
+    view?: (item: Json) => Json;
+  } = {}
+) => {
+  const key = options.key ?? 'id';
+  const view = options.view ?? (item => item);
+  const guards = options.guards ?? [];
+  const find = (id: string) => list().find(item => String(item[key]) === id);
+
+  router.get(path, ...guards, (_req, res) => ok(res, list().map(view)));
+  router.get(`${path}:id`, ...guards, (req, res) => {
+    const item = find(String(req.params.id));
+    if (!item) return notFound(res);
+    ok(res, view(item));
+  });
+  if (options.create) {
+    const create = options.create;
+    router.post(path, ...guards, (req, res) => {
+      const item = create(bodyOf(req));
+      list().push(item);
+      ok(res, view(item));
+    });
+  }
+  router.put(`${path}:id`, ...guards, (req, res) => {
+    const item = find(String(req.params.id));
+    if (!item) return notFound(res);
+    const { [key]: _ignored, ...patch } = bodyOf(req);
+    ok(res, view(merge(item, patch)));
+  });
+  router.delete(`${path}:id`, ...guards, (req, res) => {
+    const items = list();
+    const index = items.findIndex(item => String(item[key]) === String(req.params.id));
+    if (index < 0) return notFound(res);
+    items.splice(index, 1);
+    ok(res);
+  });
+};
+
+/**
+ * Stateful emulation of the FreeboxOS HTTP API
+ *
+ * Serves /api_version and /api/vN/... with the same envelopes, error codes
+ * and authentication flow as a real box, backed by MockFreeboxState. Test
+ * hooks live under /__mock/ (state summary, reset, registration approval,
+ * LAN host presence).
+ */
+export function createMockFreebox(options: MockFreeboxOptions = {}): MockFreebox {
+  const permissions = Object.fromEntries(MOCK_PERMISSIONS.map(p => [p, options.permissions?.[p] ?? true])) as Record<MockPermission, boolean>;
+  const auth = new MockAuth({
+    grantDelay: options.grantDelay ?? 0,
+    sessionTtl: options.sessionTtl ?? 30 * 60 * 1000,
+    permissions
+  });
+  const rebootDuration = options.rebootDuration ?? 5000;
+
+  const mock = {
+    state: new MockFreeboxState(getMockProfile(options.model)),
+    reset(model?: string) {
+      const profile: MockModelProfile = getMockProfile(model ?? mock.state.profile.id);
+      const previous = mock.state;
+      mock.state = new MockFreeboxState(profile);
+      resetHooks.forEach(hook => hook(previous, mock.state));
+      console.log(`[MockFreebox] State reset (${profile.modelName})`);
+    }
+  };
+  const resetHooks: Array<(previous: MockFreeboxState, next: MockFreeboxState) => void> = [];
+  const s = () => mock.state;
+  const right = auth.requirePermission;
+
+  const app = express();
+  app.disable('x-powered-by');
+
+  // No auth, raw JSON (not wrapped in { success, result })
+  app.get('/api_version', (_req, res) => {
+    const profile = s().profile;
+    res.json({
+      uid: crypto.createHash('md5').update(profile.id).digest('hex'),
+      device_name: 'Freebox Server',
+      api_version: `${API_VERSION}.0`,
+      api_base_url: '/api/',
+      device_type: `FreeboxServer${profile.boxModel.match(/gw(\d+)/)?.[1] ?? '1'},1`,
+      api_domain: 'mock.fbxos.fr',
+      https_available: false,
+      https_port: 0,
+      box_model: profile.boxModel,
+      box_model_name: profile.modelName,
+      box_flavor: profile.flavor
+    });
+  });
+
+  // ==================== TEST HOOKS ====================
+
+  const control = Router();
+  control.use(express.json());
+
+  // GET /__mock/state - Model, registrations and sessions
+  control.get('/state', (_req, res) => {
+    ok(res, {
+      model: s().profile.id,
+      modelName: s().profile.modelName,
+      apps: auth.listApps(),
+      sessions: auth.sessionCount(),
+      rebooting: s().isRebooting()
+    });
+  });
+
+  // POST /__mock/reset - Fresh state, optionally for another model ({ model })
+  control.post('/reset', (req, res) => {
+    const model = bodyOf(req).model;
+    mock.reset(typeof model === 'string' ? model : undefined);
+    ok(res, { model: s().profile.id });
+  });
+
+  // POST /__mock/authorize/:trackId - Accept or refuse a registration on the "box" ({ status })
+  control.post('/authorize/:trackId', (req, res) => {
+    const status = bodyOf(req).status === 'denied' ? 'denied' : 'granted';
+    if (!auth.setAuthorization(Number(req.params.trackId), status)) return notFound(res);
+    ok(res, { status });
+  });
+
+  // POST /__mock/hosts/:id - Bring a LAN host (id or MAC) online or offline ({ reachable })
+  control.post('/hosts/:id', (req, res) => {
+    const host = s().findHost(String(req.params.id));
+    if (!host) return notFound(res);
+    s().setHostReachable(host, bodyOf(req).reachable !== false);
+    ok(res, host);
+  });
+
+  // POST /__mock/event - Push a notification to WebSocket subscribers ({ source, event, result })
+  control.post('/event', (req, res) => {
+    const body = bodyOf(req);
+    if (typeof body.source !== 'string' || typeof body.event !== 'string') return fail(res, 400, 'invalid_request', 'source et event requis');
+    s().emit(body.source, body.event, body.result ?? null);
+    ok(res);
+  });
+
+  app.use('/__mock', control);
+
+  // ==================== API ====================
+
+  const api = Router();
+
+  app.use('/api/:version', (req, res, next) => {
+    const version = /^v(\d+)$/.exec(String(req.params.version));
+    if (!version || Number(version[1]) > API_VERSION || Number(version[1]) < 1) {
+      return fail(res, 400, 'invalid_api_version', 'Version d\'API invalide');
+    }
+    // The box does not answer while rebooting
+    if (s().isRebooting()) {
+      res.status(503).type('text/plain').send('Freebox en cours de redémarrage');
+      return;
+    }
+    next();
+  }, express.json({ limit: '5mb' }), express.urlencoded({ extended: false }), api);
+
+  // -------------------- Login --------------------
+
+  // POST /login/authorize/ - Register an application (validated on the box)
+  api.post('/login/authorize/', (req, res) => {
+    const body = bodyOf(req);
+    if (typeof body.app_id !== 'string' || typeof body.app_name !== 'string' || typeof body.device_name !== 'string') {
+      return fail(res, 400, 'invalid_request', 'Requête invalide');
+    }
+    const registered = auth.register(body.app_id, body.app_name, String(body.app_version ?? ''), body.device_name);
+    ok(res, { app_token: registered.appToken, track_id: registered.trackId });
+  });
+
+  api.get('/login/authorize/:trackId', (req, res) => {
+    ok(res, { status: auth.authorizationStatus(Number(req.params.trackId)), challenge: auth.challenge });
+  });
+
+  api.get('/login/', (req, res) => {
+    ok(res, {
+      logged_in: auth.touch(req.header('X-Fbx-App-Auth')) !== undefined,
+      challenge: auth.challenge,
+      password_salt: 'mock',
+      password_set: true
+    });
+  });
+
+  api.post('/login/session/', (req, res) => {
+    const body = bodyOf(req);
+    const session = auth.openSession(String(body.app_id ?? ''), String(body.password ?? ''));
+    if ('error' in session) {
+      res.status(403).json({ success: false, error_code: session.error, msg: session.msg, result: { challenge: auth.challenge } });
+      return;
+    }
+    ok(res, { session_token: session.token, challenge: session.challenge, permissions: auth.permissions });
+  });
+
+  api.post('/login/logout/', (req, res) => {
+    auth.closeSession(req.header('X-Fbx-App-Auth'));
+    ok(res);
+  });
+
+  // Everything below requires a session
+  api.use(auth.requireSession);
+
+  // -------------------- System --------------------
+
+  api.get('/system/', (_req, res) => ok(res, s().systemInfo()));
+
+  api.post('/system/reboot/', right('settings'), (_req, res) => {
+    ok(res);
+    // Answer first, then drop off like the hardware
+    setTimeout(() => {
+      s().reboot(rebootDuration);
+      auth.closeAllSessions();
+      console.log('[MockFreebox] Rebooting');
+    }, 100).unref();
+  });
+
+  // -------------------- Connection --------------------
+
+  api.get('/connection/', (_req, res) => ok(res, s().connectionStatus()));
+  settingsRoute(api, '/connection/config/', () => s().connectionConfig, [right('settings')]);
+  settingsRoute(api, '/connection/ipv6/config/', () => s().ipv6Config, [right('settings')]);
+  api.get('/connection/logs/', (_req, res) => ok(res, s().connectionLogs));
+  api.get('/connection/ftth/', (_req, res) => (s().profile.media === 'ftth' ? ok(res, s().ftthInfo()) : noDevice(res)));
+  api.get('/connection/xdsl/', (_req, res) => (s().profile.media === 'xdsl' ? ok(res, s().xdslInfo()) : noDevice(res)));
+
+  // POST /rrd/ - { db, date_start?, date_end?, fields? }
+  api.post('/rrd/', (req, res) => {
+    const body = bodyOf(req);
+    const db = String(body.db ?? '');
+    if (!['net', 'temp', 'dsl', 'switch'].includes(db)) return fail(res, 400, 'invalid_request', 'Base RRD inconnue');
+    if (db === 'dsl' && s().profile.media !== 'xdsl') return noDevice(res);
+    const fields = Array.isArray(body.fields) ? body.fields.map(String) : undefined;
+    ok(res, s().rrd(db, Number(body.date_start) || undefined, Number(body.date_end) || undefined, fields));
+  });
+
+  // -------------------- WiFi --------------------
+
+  api.use('/wifi', (_req, _res, next) => {
+    s().refreshWifi();
+    next();
+  });
+
+  settingsRoute(api, '/wifi/config/', () => s().wifiConfig, [right('settings')]);
+
+  api.get('/wifi/ap/', (_req, res) => ok(res, s().wifiAps));
+  api.get('/wifi/ap/:id', (req, res) => {
+    const ap = s().wifiAps.find(a => String(a.id) === req.params.id);
+    return ap ? ok(res, ap) : notFound(res);
+  });
+  api.get('/wifi/ap/:id/stations/', (req, res) => ok(res, s().stationsFor(Number(req.params.id))));
+  api.get('/wifi/stations/', (_req, res) => ok(res, s().wifiAps.flatMap(ap => s().stationsFor(Number(ap.id)))));
+
+  api.get('/wifi/bss/', (_req, res) => ok(res, s().wifiBss));
+  api.get('/wifi/bss/:id', (req, res) => {
+    const bss = s().wifiBss.find(b => b.id === req.params.id);
+    return bss ? ok(res, bss) : notFound(res);
+  });
+  api.put('/wifi/bss/:id', right('settings'), (req, res) => {
+    const target = s().wifiBss.find(b => b.id === req.params.id);
+    if (!target) return notFound(res);
+    const patch = bodyOf(req).config;
+    // Shared settings follow the main BSS on every radio
+    const shared = isObject(patch) && target.config.use_default_config === true && patch.use_default_config !== false;
+    const targets = shared ? s().wifiBss.filter(b => b.config.use_default_config === true) : [target];
+    targets.forEach(bss => merge(bss.config, patch));
+    s().refreshWifi();
+    ok(res, target);
+  });
+
+  collectionRoutes(api, '/wifi/mac_filter/', () => s().wifiMacFilter, {
+    guards: [right('settings')],
+    create: body => ({ ...body, id: `${String(body.mac ?? '').toUpperCase()}-${body.type ?? 'blacklist'}` })
+  });
+  settingsRoute(api, '/wifi/planning/', () => s().wifiPlanning, [right('settings')]);
+
+  api.get('/wifi/wps/sessions/', (_req, res) => ok(res, s().wpsSessions));
+  api.post('/wifi/wps/sessions/', right('settings'), (req, res) => {
+    const session = { id: s().nextId('wps'), bss_id: bodyOf(req).bss_id ?? 0, active: true, success: false, result: 'pending', start_date: Math.floor(Date.now() / 1000), end_date: Math.floor(Date.now() / 1000) + 120 };
+    s().wpsSessions.push(session);
+    ok(res, session);
+  });
+  api.delete('/wifi/wps/sessions/', right('settings'), (_req, res) => {
+    s().wpsSessions.splice(0);
+    ok(res);
+  });
+
+  api.get('/wifi/temp_disable/', (_req, res) => {
+    const remaining = Math.max(0, Math.ceil((s().wifiTempDisableUntil - Date.now()) / 1000));
+    ok(res, remaining > 0 ? { state: 'active', remaining, duration: remaining } : { state: 'disabled' });
+  });
+  api.post('/wifi/temp_disable/', right('settings'), (req, res) => {
+    const duration = Number(bodyOf(req).duration);
+    if (!Number.isFinite(duration) || duration <= 0) return fail(res, 400, 'invalid_request', 'Durée invalide');
+    s().wifiTempDisableUntil = Date.now() + duration * 1000;
+    s().wifiConfig.enabled = false;
+    s().refreshWifi();
+    ok(res, { state: 'active', remaining: duration, duration });
+  });
+  api.delete('/wifi/temp_disable/', right('settings'), (_req, res) => {
+    s().wifiTempDisableUntil = Date.now();
+    s().refreshWifi();
+    ok(res);
+  });
+
+  settingsRoute(api, '/wifi/custom_key/config/', () => s().wifiCustomKeyConfig, [right('settings')]);
+  collectionRoutes(api, '/wifi/custom_key/', () => s().wifiCustomKeys, {
+    guards: [right('settings')],
+    create: body => ({
+      id: s().nextId('custom_key'),
+      params: { description: body.description ?? '', key: body.key ?? crypto.randomBytes(6).toString('hex'), max_use_count: body.max_use_count ?? 0, duration: body.duration ?? 86400, access_type: body.access_type ?? 'net_only' },
+      users: [],
+      remaining: Number(body.duration ?? 86400)
+    })
+  });
+
+  api.use('/wifi/mlo/', (_req, res, next) => (s().profile.mlo ? next() : noDevice(res)));
+  settingsRoute(api, '/wifi/mlo/config/', () => s().wifiMloConfig, [right('settings')]);
+
+  // -------------------- LAN / DHCP --------------------
+
+  settingsRoute(api, '/lan/config/', () => s().lanConfig, [right('settings')]);
+
+  api.get('/lan/browser/interfaces/', (_req, res) => {
+    ok(res, [
+      { name: 'pub', host_count: s().hosts.length },
+      { name: 'wifiguest', host_count: 0 }
+    ]);
+  });
+  api.get('/lan/browser/:iface/', (req, res) => {
+    if (!['pub', 'wifiguest'].includes(String(req.params.iface))) return notFound(res);
+    ok(res, s().hosts.filter(host => host.interface === req.params.iface));
+  });
+  api.get('/lan/browser/:iface/:hostId', (req, res) => {
+    const host = s().findHost(String(req.params.hostId));
+    return host ? ok(res, host) : notFound(res);
+  });
+  api.put('/lan/browser/:iface/:hostId', right('settings'), (req, res) => {
+    const host = s().findHost(String(req.params.hostId));
+    if (!host) return notFound(res);
+    const body = bodyOf(req);
+    if (typeof body.primary_name === 'string') {
+      host.primary_name = body.primary_name;
+      host.primary_name_manual = true;
+    }
+    if (typeof body.host_type === 'string') host.host_type = body.host_type;
+    if (typeof body.persistent === 'boolean') host.persistent = body.persistent;
+    ok(res, host);
+  });
+
+  // POST /lan/wol/:iface/ - { mac, password }: the sleeping host comes back
+  api.post('/lan/wol/:iface/', (req, res) => {
+    const mac = bodyOf(req).mac;
+    if (typeof mac !== 'string' || !/^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i.test(mac)) {
+      return fail(res, 400, 'invalid_request', 'Adresse MAC invalide');
+    }
+    const host = s().findHost(mac);
+    if (host && !host.reachable) {
+      setTimeout(() => s().setHostReachable(host, true), 2000).unref();
+    }
+    ok(res);
+  });
+
+  settingsRoute(api, '/dhcp/config/', () => s().dhcpConfig, [right('settings')]);
+  api.get('/dhcp/dynamic_lease/', (_req, res) => ok(res, s().dynamicLeases()));
+
+  api.post('/dhcp/static_lease/', right('settings'), (req, res) => {
+    const body = bodyOf(req);
+    const mac = String(body.mac ?? '').toUpperCase();
+    if (!/^([0-9A-F]{2}:){5}[0-9A-F]{2}$/.test(mac) || typeof body.ip !== 'string') {
+      return fail(res, 400, 'inval', 'Paramètres invalides');
+    }
+    if (s().staticLeases.some(lease => lease.mac === mac)) return fail(res, 409, 'exist', 'Un bail existe déjà pour cette adresse MAC');
+    if (s().staticLeases.some(lease => lease.ip === body.ip)) return fail(res, 409, 'exist', 'Cette adresse IP est déjà attribuée');
+    const lease = { id: mac, mac, ip: body.ip, comment: String(body.comment ?? ''), hostname: s().findHost(mac)?.primary_name ?? '' };
+    s().staticLeases.push(lease);
+    ok(res, s().withHost(lease));
+  });
+  collectionRoutes(api, '/dhcp/static_lease/', () => s().staticLeases, {
+    guards: [right('settings')],
+    view: lease => s().withHost(lease)
+  });
+
+  // -------------------- Downloads --------------------
+
+  const downloader = [right('downloader')];
+  const findTask = (req: Request): MockDownload | undefined => {
+    s().tickDownloads();
+    return s().downloads.find(task => task.id === Number(req.params.id));
+  };
+
+  api.get('/downloads/stats/', ...downloader, (_req, res) => ok(res, s().downloadStats()));
+  settingsRoute(api, '/downloads/config/', () => s().downloadsConfig, downloader);
+
+  // POST /downloads/add/ - form-urlencoded download_url / download_url_list, or multipart download_file
+  api.post('/downloads/add/', ...downloader, express.raw({ type: 'multipart/form-data', limit: '10mb' }), (req, res) => {
+    const seedSize = (name: string) => 50_000_000 + (parseInt(crypto.createHash('md5').update(name).digest('hex').slice(0, 6), 16) % 2_000_000_000);
+
+    if (Buffer.isBuffer(req.body)) {
+      const raw = req.body.toString('latin1');
+      const filename = /filename="([^"]+)"/.exec(raw)?.[1];
+      if (!filename) return fail(res, 400, 'invalid_request', 'Fichier manquant');
+      const dir = /name="download_dir"\r\n\r\n([^\r]*)/.exec(raw)?.[1];
+      const name = Buffer.from(filename, 'latin1').toString('utf-8').replace(/\.(torrent|nzb)$/i, '');
+      const task = s().addDownload(name, /\.nzb$/i.test(filename) ? 'nzb' : 'bt', dir || undefined, seedSize(name));
+      return ok(res, { id: task.id });
+    }
+
+    const body = bodyOf(req);
+    const urls = String(body.download_url ?? body.download_url_list ?? '').split('\n').map(u => u.trim()).filter(Boolean);
+    if (urls.length === 0) return fail(res, 400, 'invalid_request', 'URL de téléchargement manquante');
+
+    const ids = urls.map(url => {
+      const magnetName = /[?&]dn=([^&]+)/.exec(url)?.[1];
+      const name = magnetName
+        ? decodeURIComponent(magnetName.replace(/\+/g, ' '))
+        : decodeURIComponent(url.split('?')[0].split('/').filter(Boolean).pop() ?? 'download');
+      const type: MockDownload['type'] = url.startsWith('magnet:') || url.endsWith('.torrent') ? 'bt' : url.startsWith('ftp:') ? 'ftp' : 'http';
+      return s().addDownload(name, type, typeof body.download_dir === 'string' ? body.download_dir : undefined, seedSize(name)).id;
+    });
+    ok(res, ids.length === 1 ? { id: ids[0] } : { ids });
+  });
+
+  api.get('/downloads/', ...downloader, (_req, res) => {
+    s().tickDownloads();
+    ok(res, s().downloads);
+  });
+  api.get('/downloads/:id', ...downloader, (req, res) => {
+    const task = findTask(req);
+    return task ? ok(res, task) : notFound(res);
+  });
+  api.put('/downloads/:id', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    const body = bodyOf(req);
+    if (body.io_priority === 'low' || body.io_priority === 'normal' || body.io_priority === 'high') task.io_priority = body.io_priority;
+    if (body.status === 'stopped') {
+      task.status = 'stopped';
+      task.rx_rate = 0;
+      task.tx_rate = 0;
+    } else if (body.status === 'downloading' || body.status === 'retry') {
+      const complete = task.rx_bytes >= task.size;
+      task.status = complete ? (task.type === 'bt' ? 'seeding' : 'done') : 'downloading';
+      task.rx_rate = complete ? 0 : 8_000_000;
+      task.tx_rate = task.status === 'seeding' ? 30_000 : 0;
+    }
+    ok(res, task);
+  });
+  const removeTask = (req: Request, res: Response, deleteFiles: boolean) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    s().downloads.splice(s().downloads.indexOf(task), 1);
+    if (deleteFiles) {
+      s().subtree(joinPath(decodePath(task.download_dir), task.name)).forEach(p => s().fs.delete(p));
+    }
+    ok(res);
+  };
+  api.delete('/downloads/:id/erase', ...downloader, (req, res) => removeTask(req, res, true));
+  api.delete('/downloads/:id', ...downloader, (req, res) => removeTask(req, res, req.query.delete_files === 'true'));
+
+  api.get('/downloads/:id/files', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    ok(res, [{
+      id: `${task.id}-0`,
+      task_id: String(task.id),
+      filepath: encodePath(joinPath(decodePath(task.download_dir), task.name)),
+      name: task.name,
+      mimetype: mimeOf(task.name),
+      size: task.size,
+      rx: task.rx_bytes,
+      status: task.rx_bytes >= task.size ? 'done' : 'queued',
+      error: 'none',
+      priority: 'normal'
+    }]);
+  });
+  api.put('/downloads/:id/files/:fileId', ...downloader, (req, res) => {
+    const task = findTask(req);
+    return task ? ok(res, { id: req.params.fileId, priority: bodyOf(req).priority }) : notFound(res);
+  });
+  api.get('/downloads/:id/trackers', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    ok(res, task.type !== 'bt' ? [] : [
+      { announce: 'udp://tracker.opentrackr.org:1337/announce', is_enabled: true, is_backup: false, status: 'announced', interval: 1800, min_interval: 900, reannounce_in: 1200, nseeders: 120, nleechers: 14 }
+    ]);
+  });
+  api.get('/downloads/:id/peers', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    ok(res, task.type !== 'bt' || task.status === 'stopped' ? [] : [
+      { host: '203.0.113.12', port: 51413, client: 'Transmission 4.0.5', rx_rate: Math.round(task.rx_rate / 2), tx_rate: 0, rx_pct: 5000, tx_pct: 0, rx: task.rx_bytes, tx: 0, progress: 10000, state: 'ready', origin: 'tracker', protocol: 'tcp', country_code: 'FR' },
+      { host: '198.51.100.40', port: 6881, client: 'qBittorrent 4.6.2', rx_rate: Math.round(task.rx_rate / 2), tx_rate: task.tx_rate, rx_pct: 5000, tx_pct: 10000, rx: 0, tx: task.tx_bytes, progress: 8200, state: 'ready', origin: 'dht', protocol: 'tcp_obfuscated', country_code: 'DE' }
+    ]);
+  });
+  api.get('/downloads/:id/pieces', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    const count = Math.min(2000, Math.ceil(task.size / task.piece_length));
+    const done = Math.floor(count * task.rx_bytes / Math.max(1, task.size));
+    ok(res, 'X'.repeat(done) + '.'.repeat(count - done));
+  });
+  api.get('/downloads/:id/blacklist', ...downloader, (req, res) => (findTask(req) ? ok(res, []) : notFound(res)));
+  api.delete('/downloads/:id/blacklist/empty', ...downloader, (req, res) => (findTask(req) ? ok(res) : notFound(res)));
+  api.get('/downloads/:id/log', ...downloader, (req, res) => {
+    const task = findTask(req);
+    if (!task) return notFound(res);
+    ok(res, `${new Date(task.created_ts * 1000).toISOString()} ajout de ${task.name}\n`);
+  });
+
+  // -------------------- Filesystem --------------------
+
+  const explorer = [right('explorer')];
+  const decodeExisting = (res: Response, b64: unknown): string | null => {
+    if (typeof b64 !== 'string' || !b64) {
+      fail(res, 400, 'invalid_request', 'Chemin manquant');
+      return null;
+    }
+    const p = decodePath(b64).replace(/\/+$/, '') || '/';
+    if (!s().fs.has(p)) {
+      fail(res, 404, 'path_not_found', 'Chemin introuvable');
+      return null;
+    }
+    return p;
+  };
+
+  api.get('/fs/ls/{*path}', ...explorer, (req, res) => {
+    const b64 = wildcardPath(req);
+    const dir = b64 ? decodeExisting(res, b64) : '/';
+    if (dir === null) return;
+    if (s().fs.get(dir)?.type !== 'dir') return fail(res, 400, 'not_a_dir', 'Ce chemin n\'est pas un dossier');
+
+    const onlyFolder = req.query.onlyFolder === '1' || req.query.onlyFolder === 'true';
+    const removeHidden = req.query.removeHidden === '1' || req.query.removeHidden === 'true';
+    const self = { ...s().fileInfo(dir), name: '.' };
+    const up = dir === '/' ? [] : [{ ...s().fileInfo(parentOf(dir)), name: '..' }];
+    const entries = s().children(dir)
+      .sort((a, b) => a.localeCompare(b, 'fr'))
+      .map(p => s().fileInfo(p) as Json)
+      .filter(info => (!onlyFolder || info.type === 'dir') && (!removeHidden || !info.hidden));
+    ok(res, [self, ...up, ...entries].map((info, index) => ({ ...info, index })));
+  });
+
+  api.get('/fs/info/{*path}', ...explorer, (req, res) => {
+    const p = decodeExisting(res, wildcardPath(req));
+    if (p !== null) ok(res, s().fileInfo(p));
+  });
+
+  api.post('/fs/mkdir/', ...explorer, (req, res) => {
+    const body = bodyOf(req);
+    const parent = decodeExisting(res, body.parent);
+    if (parent === null) return;
+    const name = String(body.dirname ?? '');
+    if (!name || name.includes('/')) return fail(res, 400, 'invalid_request', 'Nom de dossier invalide');
+    const target = joinPath(parent, name);
+    if (s().fs.has(target)) return fail(res, 409, 'destination_conflict', 'Un fichier du même nom existe déjà');
+    s().mkdir(target);
+    ok(res, encodePath(target));
+  });
+
+  api.post('/fs/rename/', ...explorer, (req, res) => {
+    const body = bodyOf(req);
+    const src = decodeExisting(res, body.src);
+    if (src === null) return;
+    const name = String(body.dst ?? '');
+    if (!name || name.includes('/')) return fail(res, 400, 'invalid_request', 'Nom invalide');
+    const target = joinPath(parentOf(src), name);
+    if (s().fs.has(target)) return fail(res, 409, 'destination_conflict', 'Un fichier du même nom existe déjà');
+    for (const p of s().subtree(src)) {
+      const node = s().fs.get(p);
+      if (!node) continue;
+      s().fs.set(target + p.slice(src.length), node);
+      s().fs.delete(p);
+    }
+    ok(res, s().fileInfo(target));
+  });
+
+  const decodeList = (res: Response, files: unknown): string[] | null => {
+    if (!Array.isArray(files) || files.length === 0) {
+      fail(res, 400, 'invalid_request', 'Aucun fichier');
+      return null;
+    }
+    const paths: string[] = [];
+    for (const file of files) {
+      const p = decodeExisting(res, file);
+      if (p === null) return null;
+      paths.push(p);
+    }
+    return paths;
+  };
+  const countFiles = (paths: string[]) => paths.reduce((sum, p) => sum + s().subtree(p).filter(key => s().fs.get(key)?.type === 'file').length, 0);
+
+  api.post('/fs/rm/', ...explorer, (req, res) => {
+    const paths = decodeList(res, bodyOf(req).files);
+    if (!paths) return;
+    if (paths.includes('/')) return fail(res, 403, 'access_denied', 'Impossible de supprimer la racine');
+    const bytes = paths.reduce((sum, p) => sum + s().treeSize(p), 0);
+    const nfiles = countFiles(paths);
+    paths.forEach(p => s().subtree(p).forEach(key => s().fs.delete(key)));
+    ok(res, s().addTask('rm', paths, '', bytes, nfiles));
+  });
+
+  const transferRoute = (type: 'cp' | 'mv') => (req: Request, res: Response) => {
+    const body = bodyOf(req);
+    const paths = decodeList(res, body.files);
+    if (!paths) return;
+    const dst = decodeExisting(res, body.dst);
+    if (dst === null) return;
+    if (s().fs.get(dst)?.type !== 'dir') return fail(res, 400, 'not_a_dir', 'La destination n\'est pas un dossier');
+    if (paths.some(p => dst === p || dst.startsWith(`${p}/`))) {
+      return fail(res, 400, 'invalid_request', 'Impossible de copier un dossier dans lui-même');
+    }
+    const mode = typeof body.mode === 'string' ? body.mode : 'overwrite';
+    const bytes = paths.reduce((sum, p) => sum + s().treeSize(p), 0);
+    const nfiles = countFiles(paths);
+    ok(res, s().addTask(type, paths, dst, bytes, nfiles, () => {
+      paths.forEach(p => s().transfer(p, dst, mode, type === 'cp'));
+    }));
+  };
+  api.post('/fs/cp/', ...explorer, transferRoute('cp'));
+  api.post('/fs/mv/', ...explorer, transferRoute('mv'));
+
+  // POST /fs/hash/ - { src, hash_type }, the digest is read on /fs/tasks/:id/hash
+  api.post('/fs/hash/', ...explorer, (req, res) => {
+    const body = bodyOf(req);
+    const src = decodeExisting(res, body.src);
+    if (src === null) return;
+    if (s().fs.get(src)?.type !== 'file') return fail(res, 400, 'not_a_file', 'Ce chemin n\'est pas un fichier');
+    const type = String(body.hash_type ?? 'sha256');
+    if (!['md5', 'sha1', 'sha256', 'sha512'].includes(type)) return fail(res, 400, 'invalid_request', 'Algorithme inconnu');
+    const hash = crypto.createHash(type);
+    const size = s().fs.get(src)?.size ?? 0;
+    // Sparse files are hashed by chunks to keep memory flat
+    for (let offset = 0; offset < size; offset += 8 * 1024 * 1024) {
+      hash.update(s().readFile(src, offset, Math.min(size, offset + 8 * 1024 * 1024) - 1));
+    }
+    const task = s().addTask('hash', [src], '', size, 1);
+    task.hash = hash.digest('hex');
+    ok(res, task);
+  });
+
+  // POST /fs/archive/ - { files, dst }, dst is the path of the archive to create
+  api.post('/fs/archive/', ...explorer, (req, res) => {
+    const body = bodyOf(req);
+    const paths = decodeList(res, body.files);
+    if (!paths) return;
+    const dst = typeof body.dst === 'string' ? decodePath(body.dst) : '';
+    if (s().fs.get(parentOf(dst))?.type !== 'dir') return fail(res, 404, 'path_not_found', 'Dossier de destination introuvable');
+    if (s().fs.has(dst)) return fail(res, 409, 'destination_conflict', 'Un fichier du même nom existe déjà');
+    if (!ARCHIVE_FORMAT.test(dst)) return fail(res, 400, 'invalid_request', 'Format d\'archive non supporté');
+    const bytes = paths.reduce((sum, p) => sum + s().treeSize(p), 0);
+    ok(res, s().addTask('archive', paths, dst, bytes, countFiles(paths), () => {
+      if (s().fs.has(dst)) return 'file_exists';
+      // Entries are named relative to the folder of the first file
+      const base = parentOf(paths[0]);
+      const entries = paths.flatMap(p => s().subtree(p).sort()).map(key => {
+        const node = s().fs.get(key) as MockFsNode;
+        return { path: key.slice(base === '/' ? 1 : base.length + 1), type: node.type, size: node.size };
+      });
+      s().writeFile(dst, undefined, bytes);
+      (s().fs.get(dst) as MockFsNode).entries = entries;
+    }));
+  });
+
+  // POST /fs/extract/ - { src, dst, password, delete_archive, overwrite }, dst is the destination folder
+  api.post('/fs/extract/', ...explorer, (req, res) => {
+    const body = bodyOf(req);
+    const src = decodeExisting(res, body.src);
+    if (src === null) return;
+    const dst = decodeExisting(res, body.dst);
+    if (dst === null) return;
+    if (s().fs.get(dst)?.type !== 'dir') return fail(res, 400, 'not_a_dir', 'La destination n\'est pas un dossier');
+    const archive = s().fs.get(src) as MockFsNode;
+    if (archive.type !== 'file') return fail(res, 400, 'not_a_file', 'Ce chemin n\'est pas un fichier');
+    const entries = archive.entries ?? [];
+    const files = entries.filter(entry => entry.type === 'file');
+    const bytes = files.reduce((sum, entry) => sum + entry.size, 0) || archive.size;
+    ok(res, s().addTask('extract', [src], dst, bytes, files.length, () => {
+      if (!EXTRACT_FORMAT.test(src)) return 'unsupported_file_type';
+      if (!archive.entries) return 'archive_open_failed';
+      const targets = entries.map(entry => ({ ...entry, target: joinPath(dst, entry.path) }));
+      if (body.overwrite !== true && targets.some(entry => entry.type === 'file' && s().fs.has(entry.target))) {
+        return 'file_exists';
+      }
+      for (const entry of targets) {
+        if (entry.type === 'dir') s().mkdir(entry.target);
+        else s().writeFile(entry.target, undefined, entry.size);
+      }
+      if (body.delete_archive === true) s().fs.delete(src);
+    }));
+  });
+
+  api.get('/fs/tasks/', ...explorer, (_req, res) => {
+    s().tickFsTasks();
+    ok(res, s().fsTasks.map(({ hash: _hash, ...task }) => task));
+  });
+  api.get('/fs/tasks/:id', ...explorer, (req, res) => {
+    s().tickFsTasks();
+    const task = s().fsTasks.find(t => t.id === Number(req.params.id));
+    if (!task) return notFound(res);
+    const { hash: _hash, ...view } = task;
+    ok(res, view);
+  });
+  // PUT /fs/tasks/:id - { state: paused | running }
+  api.put('/fs/tasks/:id', ...explorer, (req, res) => {
+    const task = s().fsTasks.find(t => t.id === Number(req.params.id));
+    if (!task) return notFound(res);
+    const state = bodyOf(req).state;
+    if (state !== 'paused' && state !== 'running') return fail(res, 400, 'invalid_request', 'État invalide');
+    if (!s().setTaskState(task, state)) return fail(res, 400, 'invalid_request', 'La tâche est terminée');
+    const { hash: _hash, ...view } = task;
+    ok(res, view);
+  });
+  api.get('/fs/tasks/:id/hash', ...explorer, (req, res) => {
+    const task = s().fsTasks.find(t => t.id === Number(req.params.id));
+    if (!task || task.type !== 'hash') return notFound(res);
+    ok(res, task.hash);
+  });
+  api.delete('/fs/tasks/:id', ...explorer, (req, res) => {
+    s().tickFsTasks();
+    if (!s().deleteTask(Number(req.params.id))) return notFound(res);
+    ok(res);
+  });
+
+  // GET /dl/:path - File content, with single Range support
+  api.get('/dl/{*path}', ...explorer, (req, res) => {
+    const p = decodePath(wildcardPath(req));
+    const node = s().fs.get(p);
+    if (!node || node.type !== 'file') return fail(res, 404, 'path_not_found', 'Fichier introuvable');
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', mimeOf(p));
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(baseName(p))}`);
+    const range = /^bytes=(\d*)-(\d*)$/.exec(req.header('Range') ?? '');
+    let start = 0;
+    let end = node.size - 1;
+    if (range && (range[1] || range[2])) {
+      start = range[1] ? Number(range[1]) : Math.max(0, node.size - Number(range[2]));
+      end = range[1] && range[2] ? Math.min(Number(range[2]), node.size - 1) : node.size - 1;
+      if (start > end || start >= node.size) {
+        res.status(416).setHeader('Content-Range', `bytes */${node.size}`);
+        res.end();
+        return;
+      }
+      res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${node.size}`);
+    }
+    res.setHeader('Content-Length', String(end - start + 1));
+
+    // Stream sparse content in chunks
+    const CHUNK = 1024 * 1024;
+    let offset = start;
+    const pump = () => {
+      while (offset <= end) {
+        const chunk = s().readFile(p, offset, Math.min(end, offset + CHUNK - 1));
+        offset += chunk.length;
+        if (!res.write(chunk)) {
+          res.once('drain', pump);
+          return;
+        }
+      }
+      res.end();
+    };
+    req.on('close', () => res.removeListener('drain', pump));
+    pump();
+  });
+
+  // -------------------- Storage / shares --------------------
+
+  api.get('/storage/disk/', ...explorer, (_req, res) => ok(res, s().disks()));
+  api.get('/storage/disk/:id', ...explorer, (req, res) => {
+    const disk = s().disks().find(d => String(d.id) === req.params.id);
+    return disk ? ok(res, disk) : notFound(res);
+  });
+  api.get('/storage/partition/', ...explorer, (_req, res) => ok(res, s().disks().flatMap(d => d.partitions as Json[])));
+  settingsRoute(api, '/storage/config/', () => s().storageConfig, explorer);
+
+  collectionRoutes(api, '/share_link/', () => s().shareLinks, {
+    guards: explorer,
+    key: 'token',
+    create: body => {
+      const token = crypto.randomBytes(12).toString('hex');
+      const p = typeof body.path === 'string' ? decodePath(body.path) : '/';
+      return {
+        token,
+        path: typeof body.path === 'string' ? body.path : encodePath('/'),
+        name: baseName(p),
+        expire: Number(body.expire ?? 0),
+        fullurl: `https://mock.fbxos.fr/share/${token}/${encodeURIComponent(baseName(p))}`
+      };
+    }
+  });
+
+  // -------------------- Calls / contacts --------------------
+
+  api.post('/call/log/delete_all/', right('calls'), (_req, res) => {
+    s().calls.splice(0);
+    ok(res);
+  });
+  api.post('/call/log/mark_all_as_read/', right('calls'), (_req, res) => {
+    s().calls.forEach(call => (call.new = false));
+    ok(res);
+  });
+  // Sorting returns a copy: route deletions to the stored list (registered first to win over the collection)
+  api.delete('/call/log/:id', right('calls'), (req, res) => {
+    const index = s().calls.findIndex(call => String(call.id) === req.params.id);
+    if (index < 0) return notFound(res);
+    s().calls.splice(index, 1);
+    ok(res);
+  });
+  collectionRoutes(api, '/call/log/', () => [...s().calls].sort((a, b) => Number(b.datetime) - Number(a.datetime)), { guards: [right('calls')] });
+
+  collectionRoutes(api, '/contact/', () => s().contacts, {
+    guards: [right('contacts')],
+    create: body => ({ display_name: '', first_name: '', last_name: '', company: '', notes: '', ...body, id: s().nextId('contact'), numbers: [], last_update: Math.floor(Date.now() / 1000) })
+  });
+  api.get('/number/', right('contacts'), (_req, res) => ok(res, s().contacts.flatMap(c => (c.numbers as Json[] | undefined) ?? [])));
+  api.post('/number/', right('contacts'), (req, res) => {
+    const body = bodyOf(req);
+    const contact = s().contacts.find(c => c.id === Number(body.contact_id));
+    if (!contact) return notFound(res);
+    const number = { type: 'other', is_default: false, is_own: false, ...body, id: s().nextId('number'), contact_id: contact.id };
+    (contact.numbers as Json[]).push(number);
+    ok(res, number);
+  });
+  api.delete('/number/:id', right('contacts'), (req, res) => {
+    for (const contact of s().contacts) {
+      const numbers = contact.numbers as Json[];
+      const index = numbers.findIndex(n => String(n.id) === req.params.id);
+      if (index >= 0) {
+        numbers.splice(index, 1);
+        return ok(res);
+      }
+    }
+    notFound(res);
+  });
+
+  // -------------------- TV / PVR --------------------
+
+  api.get('/tv/channels/', (_req, res) => ok(res, s().tvChannels));
+  api.get('/tv/bouquets/', (_req, res) => ok(res, s().tvBouquets));
+  const pvr = (req: Request, res: Response, next: () => void) => (s().profile.disk ? right('pvr')(req, res, next) : noDevice(res));
+  settingsRoute(api, '/pvr/config/', () => s().pvrConfig, [pvr]);
+  collectionRoutes(api, '/pvr/programmed/', () => s().pvrProgrammed, {
+    guards: [pvr],
+    create: body => ({ enabled: true, margin_before: 300, margin_after: 600, channel_type: 'iptv', channel_quality: 'hd', ...body, id: s().nextId('pvr'), state: 'waiting' })
+  });
+  collectionRoutes(api, '/pvr/finished/', () => s().pvrFinished, { guards: [pvr] });
+  api.get('/pvr/media/', pvr, (_req, res) => ok(res, []));
+
+  // -------------------- Parental / profiles --------------------
+
+  const parental = [right('parental')];
+  settingsRoute(api, '/parental/config/', () => s().parentalConfig, parental);
+  collectionRoutes(api, '/parental/filter/', () => s().parentalFilters, {
+    guards: parental,
+    create: body => ({ default_mode: 'denied', macs: [], hosts: [], desc: '', ...body, id: s().nextId('parental_filter'), planning: { mapping: new Array(336).fill('allowed'), resolution: 48 } })
+  });
+  api.get('/parental/filter/:id/planning', ...parental, (req, res) => {
+    const filter = s().parentalFilters.find(f => String(f.id) === req.params.id);
+    return filter ? ok(res, filter.planning) : notFound(res);
+  });
+  api.put('/parental/filter/:id/planning', ...parental, (req, res) => {
+    const filter = s().parentalFilters.find(f => String(f.id) === req.params.id);
+    if (!filter) return notFound(res);
+    filter.planning = merge((filter.planning as Json) ?? {}, bodyOf(req));
+    ok(res, filter.planning);
+  });
+
+  collectionRoutes(api, '/profile/', () => s().profiles, {
+    guards: [right('profile')],
+    create: body => {
+      const id = s().nextId('profile');
+      s().networkControl.set(id, s().defaultNetworkControl(id));
+      s().networkControlRules.set(id, []);
+      return { icon: '/resources/images/profile/profile_01.png', ...body, id };
+    }
+  });
+
+  const profileGuard = [right('parental')];
+  api.get('/network_control/', ...profileGuard, (_req, res) => ok(res, [...s().networkControl.values()]));
+  api.get('/network_control/:profileId', ...profileGuard, (req, res) => {
+    const control = s().networkControl.get(Number(req.params.profileId));
+    return control ? ok(res, control) : notFound(res);
+  });
+  api.put('/network_control/:profileId', ...profileGuard, (req, res) => {
+    const control = s().networkControl.get(Number(req.params.profileId));
+    if (!control) return notFound(res);
+    merge(control, bodyOf(req));
+    // An override wins until it expires, the rule mode applies otherwise
+    control.current_mode = control.override === true ? control.override_mode : control.rule_mode;
+    ok(res, control);
+  });
+  api.get('/network_control/:profileId/rules', ...profileGuard, (req, res) => {
+    const rules = s().networkControlRules.get(Number(req.params.profileId));
+    return rules ? ok(res, rules) : notFound(res);
+  });
+  api.post('/network_control/:profileId/rules/', ...profileGuard, (req, res) => {
+    const rules = s().networkControlRules.get(Number(req.params.profileId));
+    if (!rules) return notFound(res);
+    const rule = { enabled: true, mode: 'denied', weekdays: [true, true, true, true, true, true, true], start_time: 0, end_time: 0, ...bodyOf(req), id: s().nextId('network_rule'), profile_id: Number(req.params.profileId) };
+    rules.push(rule);
+    ok(res, rule);
+  });
+  const findRule = (req: Request) => s().networkControlRules.get(Number(req.params.profileId))?.find(rule => String(rule.id) === req.params.ruleId);
+  api.get('/network_control/:profileId/rules/:ruleId', ...profileGuard, (req, res) => {
+    const rule = findRule(req);
+    return rule ? ok(res, rule) : notFound(res);
+  });
+  api.put('/network_control/:profileId/rules/:ruleId', ...profileGuard, (req, res) => {
+    const rule = findRule(req);
+    return rule ? ok(res, merge(rule, bodyOf(req))) : notFound(res);
+  });
+  api.delete('/network_control/:profileId/rules/:ruleId', ...profileGuard, (req, res) => {
+    const rules = s().networkControlRules.get(Number(req.params.profileId));
+    const rule = findRule(req);
+    if (!rules || !rule) return notFound(res);
+    rules.splice(rules.indexOf(rule), 1);
+    ok(res);
+  });
+
+  // -------------------- VPN --------------------
+
+  const settings = [right('settings')];
+  collectionRoutes(api, '/vpn/user/', () => s().vpnUsers, {
+    guards: settings,
+    key: 'login',
+    create: body => ({ login: String(body.login ?? ''), password: '', ip_reservation: String(body.ip_reservation ?? '') })
+  });
+  api.get('/vpn/connection/', ...settings, (_req, res) => ok(res, s().vpnConnections));
+  api.get('/vpn/ip_pool/', ...settings, (_req, res) => ok(res, { ip_start: '192.168.27.64', ip_end: '192.168.27.127', reservations: {} }));
+  api.get('/vpn/config/', ...settings, (_req, res) => ok(res, [...s().vpnServerConfigs.values()]));
+  api.get('/vpn/', ...settings, (_req, res) => ok(res, s().vpnServers));
+  const findServer = (req: Request) => s().vpnServers.find(server => server.name === req.params.id);
+  api.get('/vpn/:id', ...settings, (req, res) => {
+    const server = findServer(req);
+    return server ? ok(res, server) : notFound(res);
+  });
+  api.put('/vpn/:id', ...settings, (req, res) => {
+    const server = findServer(req);
+    if (!server) return notFound(res);
+    const state = bodyOf(req).state;
+    if (state === 'started' || state === 'stopped') server.state = state;
+    ok(res, server);
+  });
+  api.get('/vpn/:id/config/', ...settings, (req, res) => {
+    const serverConfig = s().vpnServerConfigs.get(String(req.params.id));
+    return serverConfig ? ok(res, serverConfig) : notFound(res);
+  });
+  api.put('/vpn/:id/config/', ...settings, (req, res) => {
+    const serverConfig = s().vpnServerConfigs.get(String(req.params.id));
+    return serverConfig ? ok(res, merge(serverConfig, bodyOf(req))) : notFound(res);
+  });
+
+  api.get('/vpn_client/status/', ...settings, (_req, res) => ok(res, s().vpnClientStatus));
+  settingsRoute(api, '/vpn_client/config/', () => s().vpnClientStatus, settings);
+  collectionRoutes(api, '/vpn_client/', () => s().vpnClientConfigs, {
+    guards: settings,
+    create: body => ({ type: 'openvpn', description: '', active: false, conf_pptp: null, conf_openvpn: null, ...body, id: String(s().nextId('vpn_client')) })
+  });
+
+  // -------------------- Firewall / services --------------------
+
+  collectionRoutes(api, '/fw/redir/', () => s().portForwards, {
+    guards: settings,
+    create: body => ({
+      enabled: true,
+      ip_proto: 'tcp',
+      src_ip: '0.0.0.0',
+      comment: '',
+      ...body,
+      id: s().nextId('redir'),
+      lan_port: Number(body.lan_port ?? body.wan_port_start ?? 0),
+      wan_port_end: Number(body.wan_port_end ?? body.wan_port_start ?? 0)
+    }),
+    view: redir => {
+      const host = s().hosts.find(h => h.l3connectivities.some(l3 => l3.addr === redir.lan_ip));
+      return host ? { ...redir, host, hostname: host.primary_name } : redir;
+    }
+  });
+  settingsRoute(api, '/fw/dmz/', () => s().dmzConfig, settings);
+  collectionRoutes(api, '/fw/incoming/', () => s().incomingPorts, { guards: settings });
+  settingsRoute(api, '/upnpigd/config/', () => s().upnpConfig, settings);
+  collectionRoutes(api, '/upnpigd/redir/', () => s().upnpRedirections, { guards: settings });
+  settingsRoute(api, '/ftp/config/', () => s().ftpConfig, settings);
+
+  api.use('/lcd/config/', (_req, res, next) => (s().profile.lcd ? next() : noDevice(res)));
+  settingsRoute(api, '/lcd/config/', () => s().lcdConfig, settings);
+
+  api.get('/freeplug/', (_req, res) => ok(res, s().freeplugs));
+
+  api.get('/switch/status/', (_req, res) => {
+    const ethernetHosts = s().hosts.filter(host => host.reachable && host.access_point?.connectivity_type === 'ethernet');
+    ok(res, Array.from({ length: s().profile.switchPorts }, (_value, index) => {
+      const host = ethernetHosts[index];
+      return {
+        id: index + 1,
+        link: host ? 'up' : 'down',
+        mode: host ? '1000BaseT-FD' : '',
+        speed: host ? '1000' : '',
+        duplex: host ? 'full' : '',
+        mac_list: host ? [{ mac: host.l2ident.id, hostname: host.primary_name }] : []
+      };
+    }));
+  });
+  api.get('/switch/port/', ...settings, (_req, res) => {
+    ok(res, Array.from({ length: s().profile.switchPorts }, (_value, index) => ({ id: index + 1, duplex: 'auto', speed: 'auto' })));
+  });
+  api.get('/switch/port/:id/stats', (req, res) => {
+    const port = Number(req.params.id);
+    if (!(port >= 1 && port <= s().profile.switchPorts)) return notFound(res);
+    const uptime = s().uptime();
+    ok(res, { rx_good_bytes: uptime * 20_000 * port, tx_bytes: uptime * 150_000 * port, rx_err_packets: 0, tx_collisions: 0 });
+  });
+
+  settingsRoute(api, '/airmedia/config/', () => s().airmediaConfig, settings);
+  api.get('/airmedia/receivers/', (_req, res) => ok(res, [{ name: 'Freebox Player', password_protected: false, capabilities: { photo: true, audio: true, video: true, screen: false } }]));
+
+  api.get('/notifications/', (_req, res) => ok(res, s().notifications));
+
+  // -------------------- VMs --------------------
+
+  const vmGuard = (req: Request, res: Response, next: () => void) => (s().profile.vm ? right('vm')(req, res, next) : noDevice(res));
+
+  api.get('/vm/distros/', vmGuard, (_req, res) => ok(res, s().vmDistros));
+  api.get('/vm/info/', vmGuard, (_req, res) => {
+    const vm = s().profile.vm;
+    const used = s().vms.filter(v => v.status === 'running');
+    ok(res, {
+      total_memory: vm?.totalMemory ?? 0,
+      used_memory: used.reduce((sum, v) => sum + v.memory, 0),
+      total_cpus: vm?.totalCpus ?? 0,
+      used_cpus: used.reduce((sum, v) => sum + v.vcpus, 0),
+      usb_used: false,
+      usb_ports: ['usb-external-type-a']
+    });
+  });
+  api.get('/vm/', vmGuard, (_req, res) => ok(res, s().vms));
+  api.post('/vm/', vmGuard, (req, res) => {
+    const body = bodyOf(req);
+    const profileVm = s().profile.vm;
+    if (profileVm && s().vms.length >= profileVm.maxVms) return fail(res, 409, 'too_many_vms', 'Nombre maximal de VM atteint');
+    if (typeof body.name !== 'string' || !body.name) return fail(res, 400, 'invalid_request', 'Nom de VM manquant');
+    const vm = s().buildVm(s().nextId('vm'), body.name, String(body.os ?? 'unknown'), 'stopped', Number(body.vcpus ?? 1), Number(body.memory ?? 512));
+    merge(vm as unknown as Json, { ...body, id: vm.id, status: 'stopped' });
+    s().vms.push(vm);
+    ok(res, vm);
+  });
+  const findVm = (req: Request) => s().vms.find(vm => vm.id === Number(req.params.id));
+  api.get('/vm/:id', vmGuard, (req, res) => {
+    const vm = findVm(req);
+    return vm ? ok(res, vm) : notFound(res);
+  });
+  api.put('/vm/:id', vmGuard, (req, res) => {
+    const vm = findVm(req);
+    if (!vm) return notFound(res);
+    const { id: _id, status: _status, ...patch } = bodyOf(req);
+    ok(res, merge(vm as unknown as Json, patch));
+  });
+  api.delete('/vm/:id', vmGuard, (req, res) => {
+    const vm = findVm(req);
+    if (!vm) return notFound(res);
+    if (vm.status !== 'stopped') return fail(res, 409, 'vm_running', 'La VM doit être arrêtée');
+    s().vms.splice(s().vms.indexOf(vm), 1);
+    ok(res);
+  });
+
+  // Power actions go through the transitional state, like the hardware
+  const vmTransition = (from: 'stopped' | 'running', via: 'starting' | 'stopping', to: 'running' | 'stopped', delay = 1500): Handler => (req, res) => {
+    const vm = findVm(req);
+    if (!vm) return notFound(res);
+    if (vm.status !== from) return fail(res, 409, 'invalid_state', `La VM n'est pas ${from === 'stopped' ? 'arrêtée' : 'démarrée'}`);
+    s().setVmStatus(vm, via);
+    const state = s();
+    setTimeout(() => {
+      if (state === s() && vm.status === via) state.setVmStatus(vm, to);
+    }, delay).unref();
+    ok(res);
+  };
+  api.post('/vm/:id/start', vmGuard, vmTransition('stopped', 'starting', 'running'));
+  api.post('/vm/:id/stop', vmGuard, vmTransition('running', 'stopping', 'stopped'));
+  api.post('/vm/:id/powerbutton', vmGuard, vmTransition('running', 'stopping', 'stopped', 3000));
+  api.post('/vm/:id/restart', vmGuard, (req, res) => {
+    const vm = findVm(req);
+    if (!vm) return notFound(res);
+    if (vm.status !== 'running') return fail(res, 409, 'invalid_state', 'La VM n\'est pas démarrée');
+    s().setVmStatus(vm, 'stopping');
+    const state = s();
+    setTimeout(() => state === s() && state.setVmStatus(vm, 'starting'), 500).unref();
+    setTimeout(() => state === s() && state.setVmStatus(vm, 'running'), 2000).unref();
+    ok(res);
+  });
+
+  // -------------------- Fallback --------------------
+
+  api.use((_req, res) => fail(res, 404, 'invalid_request', 'Fonction inconnue'));
+
+  return {
+    app,
+    auth,
+    get state() {
+      return mock.state;
+    },
+    reset: mock.reset,
+    onReset: hook => {
+      resetHooks.push(hook);
+    }
+  };
+}
+
+export interface StartedMockFreebox {
+  url: string;
+  mock: MockFreebox;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve a mock Freebox over HTTP, with the /api/vN/ws/event notification socket
+ * and the /api/vN/ws/upload file upload socket.
+ * Port 0 picks a free port (see `url`).
+ */
+export function startMockFreebox(options: MockFreeboxOptions & { port?: number; host?: string } = {}): Promise<StartedMockFreebox> {
+  const mock = createMockFreebox(options);
+  const server = http.createServer(mock.app);
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const token = req.headers['x-fbx-app-auth'];
+    const channel = /^\/api\/v\d+\/ws\/(event|upload)\/?$/.exec(pathname)?.[1];
+    if (!channel || !mock.auth.touch(Array.isArray(token) ? token[0] : token)) {
+      socket.write('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => {
+      if (channel === 'upload') {
+        attachUploadSocket(ws, () => mock.state, () => mock.auth.permissions.explorer);
+      } else {
+        wss.emit('connection', ws);
+      }
+    });
+  });
+
+  wss.on('connection', (ws: WebSocket) => {
+    const registered = new Set<string>();
+
+    ws.on('message', data => {
+      let message: Json;
+      try {
+        message = JSON.parse(data.toString()) as Json;
+      } catch {
+        return;
+      }
+      if (message.action !== 'register' || !Array.isArray(message.events)) {
+        ws.send(JSON.stringify({ action: message.action, success: false, error_code: 'invalid_request' }));
+        return;
+      }
+      message.events.forEach(event => registered.add(String(event)));
+      ws.send(JSON.stringify({ action: 'register', success: true }));
+    });
+
+    // Events are named "<source>_<event>" in registrations
+    const forward = (event: { source: string; event: string; result: unknown }) => {
+      if (ws.readyState !== WebSocket.OPEN || !registered.has(`${event.source}_${event.event}`)) return;
+      ws.send(JSON.stringify({ action: 'notification', success: true, source: event.source, event: event.event, result: event.result }));
+    };
+    let unsubscribe = mock.state.onEvent(forward);
+    mock.onReset((_previous, next) => {
+      unsubscribe();
+      unsubscribe = next.onEvent(forward);
+    });
+    ws.on('close', () => unsubscribe());
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port ?? 0;
+      resolve({
+        url: `http://${options.host ?? '127.0.0.1'}:${port}`,
+        mock,
+        close: () => new Promise<void>(done => {
+          wss.clients.forEach(client => client.terminate());
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,205 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+export type MockAuthorizationStatus = 'unknown' | 'pending' | 'timeout' | 'granted' | 'denied';
+
+// Rights FreeboxOS grants to an application
+export const MOCK_PERMISSIONS = [
+  'settings', 'contacts', 'calls', 'explorer', 'downloader', 'parental',
+  'pvr', 'player', 'tv', 'profile', 'vm', 'camera', 'home', 'wdo'
+] as const;
+
+export type MockPermission = typeof MOCK_PERMISSIONS[number];
+
+interface MockApp {
+  trackId: number;
+  appId: string;
+  appName: string;
+  appVersion: string;
+  deviceName: string;
+  appToken: string;
+  status: MockAuthorizationStatus;
+  requestedAt: number;
+}
+
+interface MockSession {
+  token: string;
+  appId: string;
+  lastSeen: number;
+}
+
+export interface MockAuthOptions {
+  // Milliseconds before a pending registration is granted, -1 to wait for /__mock/authorize
+  grantDelay: number;
+  // Idle milliseconds after which a session token stops being accepted
+  sessionTtl: number;
+  permissions: Record<MockPermission, boolean>;
+}
+
+// Pending registrations not validated on the box LCD expire like on the hardware
+const AUTHORIZATION_TIMEOUT = 5 * 60 * 1000;
+// Challenges stay valid for a few rotations so that concurrent logins succeed
+const CHALLENGE_HISTORY = 5;
+
+const randomToken = (bytes: number): string => crypto.randomBytes(bytes).toString('base64');
+
+/**
+ * FreeboxOS application registration and session handling
+ *
+ * Mirrors the real flow: POST /login/authorize/ returns an app_token that
+ * stays pending until "validated on the box", then POST /login/session/
+ * must present HMAC-SHA1(app_token, challenge) for a recent challenge.
+ */
+export class MockAuth {
+  private apps: MockApp[] = [];
+  private sessions = new Map<string, MockSession>();
+  private challenges: string[] = [];
+  private options: MockAuthOptions;
+
+  constructor(options: MockAuthOptions) {
+    this.options = options;
+    this.rotateChallenge();
+  }
+
+  private rotateChallenge(): string {
+    const challenge = randomToken(24);
+    this.challenges = [challenge, ...this.challenges].slice(0, CHALLENGE_HISTORY);
+    return challenge;
+  }
+
+  get challenge(): string {
+    return this.challenges[0];
+  }
+
+  // ==================== REGISTRATION ====================
+
+  register(appId: string, appName: string, appVersion: string, deviceName: string): MockApp {
+    const app: MockApp = {
+      trackId: this.apps.length + 1,
+      appId,
+      appName,
+      appVersion,
+      deviceName,
+      appToken: randomToken(48),
+      status: 'pending',
+      requestedAt: Date.now()
+    };
+    this.apps.push(app);
+    console.log(`[MockFreebox] Registration #${app.trackId} from "${appName}" (${deviceName})`);
+    return app;
+  }
+
+  authorizationStatus(trackId: number): MockAuthorizationStatus {
+    const app = this.apps.find(a => a.trackId === trackId);
+    if (!app) return 'unknown';
+    if (app.status === 'pending') {
+      const elapsed = Date.now() - app.requestedAt;
+      if (this.options.grantDelay >= 0 && elapsed >= this.options.grantDelay) {
+        this.setAuthorization(trackId, 'granted');
+      } else if (elapsed >= AUTHORIZATION_TIMEOUT) {
+        app.status = 'timeout';
+      }
+    }
+    return app.status;
+  }
+
+  // What pressing the button on the box does
+  setAuthorization(trackId: number, status: 'granted' | 'denied'): boolean {
+    const app = this.apps.find(a => a.trackId === trackId);
+    if (!app) return false;
+    app.status = status;
+    console.log(`[MockFreebox] Registration #${trackId} ${status}`);
+    return true;
+  }
+
+  listApps(): Array<Omit<MockApp, 'appToken'>> {
+    return this.apps.map(({ appToken: _token, ...app }) => app);
+  }
+
+  // ==================== SESSIONS ====================
+
+  /**
+   * Open a session for a granted app whose password matches a recent challenge
+   * Returns the FreeboxOS error code on failure.
+   */
+  openSession(appId: string, password: string): { token: string; challenge: string } | { error: string; msg: string } {
+    const candidates = this.apps.filter(app => app.appId === appId && app.status !== 'unknown');
+    if (candidates.length === 0) {
+      return { error: 'invalid_token', msg: 'Erreur d\'authentification de l\'application' };
+    }
+
+    const match = candidates.find(app => this.challenges.some(challenge =>
+      crypto.createHmac('sha1', app.appToken).update(challenge).digest('hex') === password
+    ));
+    if (!match) {
+      return { error: 'invalid_token', msg: 'Erreur d\'authentification de l\'application' };
+    }
+    if (match.status === 'pending') {
+      return { error: 'pending_token', msg: 'L\'application n\'a pas encore été validée sur la Freebox' };
+    }
+    if (match.status !== 'granted') {
+      return { error: 'invalid_token', msg: 'Erreur d\'authentification de l\'application' };
+    }
+
+    const token = randomToken(48);
+    this.sessions.set(token, { token, appId, lastSeen: Date.now() });
+    return { token, challenge: this.rotateChallenge() };
+  }
+
+  // Session behind a token, refreshed on use; undefined when missing or expired
+  touch(token: string | undefined): MockSession | undefined {
+    if (!token) return undefined;
+    const session = this.sessions.get(token);
+    if (!session) return undefined;
+    if (Date.now() - session.lastSeen > this.options.sessionTtl) {
+      this.sessions.delete(token);
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  closeSession(token: string | undefined) {
+    if (token) this.sessions.delete(token);
+  }
+
+  // A reboot drops every session
+  closeAllSessions() {
+    this.sessions.clear();
+  }
+
+  sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  get permissions(): Record<MockPermission, boolean> {
+    return this.options.permissions;
+  }
+
+  // ==================== MIDDLEWARE ====================
+
+  requireSession = (req: Request, res: Response, next: NextFunction) => {
+    if (!this.touch(req.header('X-Fbx-App-Auth'))) {
+      res.status(403).json({
+        success: false,
+        error_code: 'auth_required',
+        msg: 'Vous devez vous connecter pour accéder à cette fonction'
+      });
+      return;
+    }
+    next();
+  };
+
+  requirePermission = (permission: MockPermission) => (_req: Request, res: Response, next: NextFunction) => {
+    if (!this.options.permissions[permission]) {
+      res.status(403).json({
+        success: false,
+        error_code: 'insufficient_rights',
+        msg: 'Les droits de l\'application ne permettent pas d\'accéder à cette fonction',
+        missing_right: permission
+      });
+      return;
+    }
+    next();
+  };
+}
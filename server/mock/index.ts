@@ -0,0 +1,23 @@
+import 'dotenv/config';
+import { config } from '../config.js';
+import { startMockFreebox } from './app.js';
+import { MOCK_PROFILES } from './profiles.js';
+
+// Mock FreeboxOS server for development without a box
+// Start it with `npm run mock:freebox`, then run the dashboard with
+// FREEBOX_URL=http://localhost:3100 (registration is granted after MOCK_SERVER_GRANT_DELAY ms).
+
+const { port, model, grantDelay, rebootDuration } = config.mockFreebox;
+
+startMockFreebox({ port, host: '0.0.0.0', model, grantDelay, rebootDuration: rebootDuration * 1000 })
+  .then(({ mock }) => {
+    console.log(`[MockFreebox] ${mock.state.profile.modelName} listening on http://localhost:${port}`);
+    console.log(`[MockFreebox] Models: ${Object.keys(MOCK_PROFILES).join(', ')} - test hooks under /__mock/`);
+    if (grantDelay < 0) {
+      console.log('[MockFreebox] Registrations wait for POST /__mock/authorize/:trackId');
+    }
+  })
+  .catch((error: Error) => {
+    console.error('[MockFreebox] Failed to start:', error.message);
+    process.exit(1);
+  });
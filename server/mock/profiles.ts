@@ -0,0 +1,171 @@
+// Hardware profiles emulated by the mock FreeboxOS server
+// Model names follow what each box reports on /api_version, so that
+// detectModelFromName() resolves them like the real hardware.
+
+export type MockModelId = 'ultra' | 'delta' | 'pop' | 'revolution' | 'mini4k';
+
+export interface MockWifiRadio {
+  band: '2.4g' | '5g' | '6g';
+  name: string;
+  channel: number;
+  width: string;
+}
+
+export interface MockModelProfile {
+  id: MockModelId;
+  // Reported by /api_version
+  modelName: string;
+  boxModel: string;
+  flavor: 'full' | 'light';
+  firmware: string;
+  boardName: string;
+  // Access line: FTTH boxes expose /connection/ftth/, DSL ones /connection/xdsl/
+  media: 'ftth' | 'xdsl';
+  // Line sync rates in bit/s
+  bandwidthDown: number;
+  bandwidthUp: number;
+  radios: MockWifiRadio[];
+  // WiFi 7 Multi Link Operation (/wifi/mlo/config/)
+  mlo: boolean;
+  sensors: Array<{ id: string; name: string; value: number }>;
+  fans: Array<{ id: string; name: string; value: number }>;
+  // null when the model has no VM support
+  vm: { maxVms: number; totalMemory: number; totalCpus: number } | null;
+  // null when no disk is plugged in
+  disk: { model: string; type: 'sata' | 'nvme' | 'usb'; totalBytes: number } | null;
+  switchPorts: number;
+  lcd: boolean;
+}
+
+const RADIO_24: MockWifiRadio = { band: '2.4g', name: '2.4G', channel: 6, width: '20' };
+const RADIO_5: MockWifiRadio = { band: '5g', name: '5G', channel: 36, width: '80' };
+const RADIO_6: MockWifiRadio = { band: '6g', name: '6G', channel: 37, width: '160' };
+
+const GB = 1000 * 1000 * 1000;
+
+export const MOCK_PROFILES: Record<MockModelId, MockModelProfile> = {
+  ultra: {
+    id: 'ultra',
+    modelName: 'Freebox v9 (r1)',
+    boxModel: 'fbxgw9-r1/full',
+    flavor: 'full',
+    firmware: '4.9.8',
+    boardName: 'fbxgw9r',
+    media: 'ftth',
+    bandwidthDown: 8_000_000_000,
+    bandwidthUp: 8_000_000_000,
+    radios: [RADIO_24, RADIO_5, RADIO_6],
+    mlo: true,
+    sensors: [
+      { id: 'temp_cpu0', name: 'Température CPU 0', value: 52 },
+      { id: 'temp_cpu1', name: 'Température CPU 1', value: 53 },
+      { id: 'temp_cpu2', name: 'Température CPU 2', value: 51 },
+      { id: 'temp_cpu3', name: 'Température CPU 3', value: 52 },
+      { id: 'temp_sw', name: 'Température Switch', value: 47 }
+    ],
+    fans: [{ id: 'main', name: 'Ventilateur 1', value: 1820 }],
+    vm: { maxVms: 10, totalMemory: 16384, totalCpus: 4 },
+    disk: { model: 'Samsung SSD 980 1TB', type: 'nvme', totalBytes: 1000 * GB },
+    switchPorts: 4,
+    lcd: true
+  },
+
+  delta: {
+    id: 'delta',
+    modelName: 'Freebox v7 (r1)',
+    boxModel: 'fbxgw7-r1/full',
+    flavor: 'full',
+    firmware: '4.8.12',
+    boardName: 'fbxgw7r',
+    media: 'ftth',
+    bandwidthDown: 8_000_000_000,
+    bandwidthUp: 700_000_000,
+    radios: [RADIO_24, RADIO_5, RADIO_6],
+    mlo: false,
+    sensors: [
+      { id: 'temp_cpum', name: 'Température CPU M', value: 61 },
+      { id: 'temp_cpub', name: 'Température CPU B', value: 58 },
+      { id: 'temp_sw', name: 'Température Switch', value: 49 },
+      { id: 'temp_hdd0', name: 'Disque 1', value: 38 }
+    ],
+    fans: [{ id: 'main', name: 'Ventilateur 1', value: 2140 }],
+    vm: { maxVms: 3, totalMemory: 2048, totalCpus: 2 },
+    disk: { model: 'ST2000LM015-2E8174', type: 'sata', totalBytes: 2000 * GB },
+    switchPorts: 4,
+    lcd: true
+  },
+
+  pop: {
+    id: 'pop',
+    modelName: 'Freebox v8 (r1)',
+    boxModel: 'fbxgw8-r1/light',
+    flavor: 'light',
+    firmware: '4.8.12',
+    boardName: 'fbxgw8r',
+    media: 'ftth',
+    bandwidthDown: 5_000_000_000,
+    bandwidthUp: 700_000_000,
+    radios: [RADIO_24, RADIO_5],
+    mlo: true,
+    sensors: [
+      { id: 'temp_cpum', name: 'Température CPU', value: 64 },
+      { id: 'temp_sw', name: 'Température Switch', value: 51 }
+    ],
+    fans: [],
+    vm: null,
+    disk: null,
+    switchPorts: 3,
+    lcd: false
+  },
+
+  revolution: {
+    id: 'revolution',
+    modelName: 'Freebox v6 (r3)',
+    boxModel: 'fbxgw1-r3/full',
+    flavor: 'full',
+    firmware: '4.7.9',
+    boardName: 'fbxgw1r',
+    media: 'xdsl',
+    bandwidthDown: 95_000_000,
+    bandwidthUp: 1_000_000,
+    radios: [RADIO_24, RADIO_5],
+    mlo: false,
+    sensors: [
+      { id: 'temp_cpum', name: 'Température CPU M', value: 71 },
+      { id: 'temp_cpub', name: 'Température CPU B', value: 66 },
+      { id: 'temp_sw', name: 'Température Switch', value: 55 }
+    ],
+    fans: [{ id: 'main', name: 'Ventilateur 1', value: 2670 }],
+    vm: null,
+    disk: { model: 'ST250LT012-9WS14C', type: 'sata', totalBytes: 250 * GB },
+    switchPorts: 4,
+    lcd: true
+  },
+
+  mini4k: {
+    id: 'mini4k',
+    modelName: 'Freebox Mini 4K',
+    boxModel: 'fbxgw2-r1/light',
+    flavor: 'light',
+    firmware: '4.7.9',
+    boardName: 'fbxgw2r',
+    media: 'xdsl',
+    bandwidthDown: 64_000_000,
+    bandwidthUp: 1_000_000,
+    radios: [RADIO_24, RADIO_5],
+    mlo: false,
+    sensors: [
+      { id: 'temp_cpum', name: 'Température CPU', value: 68 },
+      { id: 'temp_sw', name: 'Température Switch', value: 52 }
+    ],
+    fans: [],
+    vm: null,
+    disk: null,
+    switchPorts: 4,
+    lcd: false
+  }
+};
+
+// Profile for a MOCK_SERVER_MODEL value, Ultra when unknown
+export const getMockProfile = (id: string | undefined): MockModelProfile =>
+  MOCK_PROFILES[(id?.toLowerCase() ?? '') as MockModelId] ?? MOCK_PROFILES.ultra;
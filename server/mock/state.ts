@@ -0,0 +1,1245 @@
+import crypto from 'crypto';
+import type { MockModelProfile } from './profiles.js';
+
+export type Json = Record<string, unknown>;
+
+const now = (): number => Date.now();
+const seconds = (ms: number): number => Math.floor(ms / 1000);
+const HOUR = 3600 * 1000;
+const DAY = 24 * HOUR;
+
+// FreeboxOS exchanges paths as base64 of the UTF-8 string
+export const encodePath = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+export const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+
+export const joinPath = (parent: string, name: string): string => (parent === '/' ? `/${name}` : `${parent}/${name}`);
+export const parentOf = (p: string): string => p.slice(0, p.lastIndexOf('/')) || '/';
+export const baseName = (p: string): string => p.slice(p.lastIndexOf('/') + 1);
+
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  html: 'text/html',
+  svg: 'image/svg+xml',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  mkv: 'video/x-matroska',
+  mp4: 'video/mp4',
+  zip: 'application/zip',
+  iso: 'application/x-iso9660-image',
+  qcow2: 'application/octet-stream'
+};
+
+export const mimeOf = (name: string): string =>
+  MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream';
+
+// ==================== ENTITIES ====================
+
+export interface MockFsNode {
+  type: 'dir' | 'file';
+  modification: number;
+  // Files without content are sparse: `size` bytes of a repeating pattern
+  content?: Buffer;
+  size: number;
+  // Archives: what extracting them creates, paths relative to the destination
+  entries?: MockArchiveEntry[];
+}
+
+export interface MockArchiveEntry {
+  path: string;
+  type: 'dir' | 'file';
+  size: number;
+}
+
+export interface MockFsTask {
+  id: number;
+  type: 'cp' | 'mv' | 'rm' | 'hash' | 'archive' | 'extract' | 'mkdir';
+  state: 'queued' | 'running' | 'paused' | 'done' | 'failed';
+  error: string;
+  created_ts: number;
+  started_ts: number;
+  done_ts: number;
+  duration: number;
+  progress: number;
+  eta: number;
+  from: string;
+  to: string;
+  nfiles: number;
+  nfiles_done: number;
+  total_bytes: number;
+  total_bytes_done: number;
+  curr_bytes: number;
+  curr_bytes_done: number;
+  rate: number;
+  src: string[];
+  dst: string;
+  hash?: string;
+}
+
+export interface MockLanHost {
+  id: string;
+  primary_name: string;
+  host_type: string;
+  primary_name_manual: boolean;
+  l2ident: { id: string; type: string };
+  vendor_name: string;
+  persistent: boolean;
+  reachable: boolean;
+  last_time_reachable: number;
+  active: boolean;
+  last_activity: number;
+  first_activity: number;
+  names: Array<{ name: string; source: string }>;
+  l3connectivities: Array<{
+    addr: string;
+    af: 'ipv4' | 'ipv6';
+    active: boolean;
+    reachable: boolean;
+    last_activity: number;
+    last_time_reachable: number;
+  }>;
+  interface: string;
+  access_point?: Json;
+}
+
+export interface MockDownload {
+  id: number;
+  type: 'bt' | 'http' | 'ftp' | 'nzb';
+  name: string;
+  status: string;
+  io_priority: 'low' | 'normal' | 'high';
+  size: number;
+  queue_pos: number;
+  tx_bytes: number;
+  rx_bytes: number;
+  tx_rate: number;
+  rx_rate: number;
+  tx_pct: number;
+  rx_pct: number;
+  error: string;
+  created_ts: number;
+  eta: number;
+  download_dir: string;
+  stop_ratio: number;
+  archive_password: string;
+  info_hash: string;
+  piece_length: number;
+}
+
+export interface MockVm {
+  id: number;
+  name: string;
+  os: string;
+  status: 'stopped' | 'starting' | 'running' | 'stopping';
+  vcpus: number;
+  memory: number;
+  disk_path: string;
+  disk_type: string;
+  cd_path: string;
+  enable_screen: boolean;
+  enable_cloudinit: boolean;
+  cloudinit_hostname: string;
+  cloudinit_userdata: string;
+  bind_usb_ports: string[];
+  mac: string;
+}
+
+export interface MockNativeEvent {
+  source: string;
+  event: string;
+  result: unknown;
+}
+
+type EventListener = (event: MockNativeEvent) => void;
+
+// ==================== SEED DATA ====================
+
+interface SeedHost {
+  name: string;
+  type: string;
+  vendor: string;
+  mac: string;
+  ip: string;
+  // Radio band for WiFi hosts, ethernet otherwise
+  band?: '2.4g' | '5g' | '6g';
+  reachable: boolean;
+}
+
+const SEED_HOSTS: SeedHost[] = [
+  { name: 'PC-Bureau', type: 'workstation', vendor: 'ASUSTek Computer', mac: '04:D9:F5:12:34:01', ip: '192.168.1.10', reachable: true },
+  { name: 'MacBook-Pro', type: 'laptop', vendor: 'Apple', mac: 'A4:83:E7:12:34:02', ip: '192.168.1.11', band: '5g', reachable: true },
+  { name: 'iPhone-de-Camille', type: 'smartphone', vendor: 'Apple', mac: 'F0:18:98:12:34:03', ip: '192.168.1.12', band: '5g', reachable: true },
+  { name: 'Galaxy-S23', type: 'smartphone', vendor: 'Samsung Electronics', mac: '5C:CB:99:12:34:04', ip: '192.168.1.13', band: '2.4g', reachable: true },
+  { name: 'Freebox Player', type: 'freebox_player', vendor: 'Freebox SAS', mac: '8C:97:EA:12:34:05', ip: '192.168.1.14', reachable: true },
+  { name: 'NAS-Synology', type: 'nas', vendor: 'Synology Incorporated', mac: '00:11:32:12:34:06', ip: '192.168.1.20', reachable: true },
+  { name: 'Imprimante-HP', type: 'printer', vendor: 'HP Inc.', mac: '3C:52:82:12:34:07', ip: '192.168.1.21', band: '2.4g', reachable: true },
+  { name: 'Prise-Salon', type: 'other', vendor: 'Espressif Inc.', mac: '24:0A:C4:12:34:08', ip: '192.168.1.30', band: '2.4g', reachable: true },
+  { name: 'iPad', type: 'tablet', vendor: 'Apple', mac: '90:B9:31:12:34:09', ip: '192.168.1.15', band: '5g', reachable: false }
+];
+
+const CALLERS: Array<{ number: string; name: string }> = [
+  { number: '0612345678', name: 'Camille Martin' },
+  { number: '0145678901', name: 'Cabinet médical' },
+  { number: '0698765432', name: '0698765432' },
+  { number: '0493112233', name: 'Mamie' },
+  { number: '0800123456', name: '0800123456' }
+];
+
+const CALL_TYPES = ['accepted', 'missed', 'outgoing', 'accepted', 'missed', 'outgoing'] as const;
+
+// Deterministic pseudo noise in [-1, 1] for a given second
+const noise = (t: number, seed: number): number => {
+  const x = Math.sin(t * 12.9898 + seed * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+};
+
+const bssIdFor = (index: number): string => `F4:CA:E5:00:00:0${index}`;
+
+const DISK_LABEL = 'Disque 1';
+
+/**
+ * In-memory state of one emulated Freebox
+ *
+ * Everything lives in plain objects shaped like the FreeboxOS API results so
+ * that routes can return them as is. Values that move on a real box (rates,
+ * temperatures, download progress) are derived from the clock when read.
+ */
+export class MockFreeboxState {
+  readonly profile: MockModelProfile;
+  bootedAt = now();
+  rebootingUntil = 0;
+
+  private counters = new Map<string, number>();
+  private listeners = new Set<EventListener>();
+
+  system: Json;
+  connectionConfig: Json;
+  ipv6Config: Json;
+  connectionLogs: Json[];
+
+  wifiConfig: Json;
+  wifiAps: Json[];
+  wifiBss: Array<Json & { id: string; phy_id: number; config: Json; status: Json }>;
+  wifiMacFilter: Json[] = [];
+  wifiPlanning: Json;
+  wpsSessions: Json[] = [];
+  wifiTempDisableUntil = 0;
+  wifiCustomKeyConfig: Json;
+  wifiCustomKeys: Json[] = [];
+  wifiMloConfig: Json;
+
+  lanConfig: Json;
+  hosts: MockLanHost[];
+
+  dhcpConfig: Json;
+  staticLeases: Json[];
+
+  downloads: MockDownload[] = [];
+  downloadsConfig: Json;
+  private downloadsTickedAt = now();
+
+  fs = new Map<string, MockFsNode>();
+  fsTasks: MockFsTask[] = [];
+  // Copy speed of the disk (bytes/s): tasks needing more than a second run in the background
+  fsTaskRate = 100 * 1024 * 1024;
+  // What a running task does to the filesystem when it ends, or the error code it fails with
+  private fsTaskEffects = new Map<number, () => string | void>();
+  private fsTasksTickedAt = now();
+  shareLinks: Json[] = [];
+  storageConfig: Json;
+
+  calls: Json[] = [];
+  contacts: Json[] = [];
+
+  tvChannels: Json[];
+  tvBouquets: Json[];
+  pvrConfig: Json;
+  pvrProgrammed: Json[] = [];
+  pvrFinished: Json[] = [];
+
+  parentalConfig: Json;
+  parentalFilters: Json[] = [];
+  profiles: Json[];
+  networkControl = new Map<number, Json>();
+  networkControlRules = new Map<number, Json[]>();
+
+  vpnServers: Json[];
+  vpnServerConfigs = new Map<string, Json>();
+  vpnUsers: Json[] = [];
+  vpnConnections: Json[] = [];
+  vpnClientConfigs: Json[] = [];
+  vpnClientStatus: Json;
+
+  portForwards: Json[] = [];
+  incomingPorts: Json[];
+  dmzConfig: Json;
+  upnpConfig: Json;
+  upnpRedirections: Json[] = [];
+  ftpConfig: Json;
+  lcdConfig: Json;
+  airmediaConfig: Json;
+  freeplugs: Json[];
+  notifications: Json[] = [];
+
+  vms: MockVm[] = [];
+  vmDistros: Json[];
+
+  constructor(profile: MockModelProfile) {
+    this.profile = profile;
+    const t = now();
+
+    this.system = {
+      mac: 'F4:CA:E5:00:00:01',
+      serial: `${profile.boardName.toUpperCase()}0000000000001`,
+      firmware_version: profile.firmware,
+      board_name: profile.boardName,
+      box_authenticated: true,
+      box_flavor: profile.flavor,
+      disk_status: profile.disk ? 'active' : 'not_detected',
+      user_main_storage: profile.disk ? DISK_LABEL : '',
+      model_info: {
+        name: profile.boxModel.split('/')[0],
+        pretty_name: profile.modelName,
+        has_vm: profile.vm !== null,
+        has_lcd: profile.lcd,
+        wifi_type: profile.radios.length > 2 ? '2d4_5_6g' : '2d4_5g',
+        has_home_automation: profile.id === 'delta' || profile.id === 'ultra'
+      }
+    };
+
+    this.connectionConfig = {
+      ping: true,
+      is_secure_pass: true,
+      remote_access: false,
+      remote_access_port: 44321,
+      remote_access_min_port: 44321,
+      remote_access_max_port: 44330,
+      api_remote_access: false,
+      wol: false,
+      adblock: false,
+      adblock_not_set: false,
+      allow_token_request: true,
+      remote_access_ip: '82.64.12.34',
+      sip_alg: 'disabled'
+    };
+    this.ipv6Config = {
+      ipv6_enabled: true,
+      ipv6_firewall: false,
+      delegations: [
+        { prefix: '2a01:e0a:123:4560::/64', next_hop: '' },
+        { prefix: '2a01:e0a:123:4561::/64', next_hop: '' }
+      ]
+    };
+    this.connectionLogs = [
+      { id: 1, type: 'link', date: seconds(t - 3 * DAY), state: 'up', link: profile.media, bw_down: profile.bandwidthDown, bw_up: profile.bandwidthUp },
+      { id: 2, type: 'conn', date: seconds(t - 3 * DAY) + 12, state: 'up', conn: 'ipv4' }
+    ];
+
+    // WiFi: one AP per radio, one main BSS per AP
+    this.wifiConfig = { enabled: true, mac_filter_state: 'disabled', power_saving: false };
+    this.wifiAps = profile.radios.map((radio, index) => ({
+      id: index,
+      name: radio.name,
+      status: {
+        state: 'active',
+        channel_width: Number(radio.width),
+        primary_channel: radio.channel,
+        secondary_channel: 0,
+        dfs_cac_remaining_time: 0,
+        dfs_disabled: false
+      },
+      config: {
+        band: radio.band,
+        channel_width: radio.width,
+        primary_channel: radio.channel,
+        secondary_channel: 0,
+        dfs_enabled: radio.band !== '2.4g',
+        ht: { ht_enabled: true, ac_enabled: radio.band !== '2.4g', ax_enabled: profile.id !== 'revolution' && profile.id !== 'mini4k' }
+      }
+    }));
+    this.wifiBss = profile.radios.map((radio, index) => ({
+      id: bssIdFor(index + 1),
+      phy_id: index,
+      status: { state: 'active', sta_count: 0, authorized_sta_count: 0, is_main_bss: index === 0 },
+      config: {
+        enabled: true,
+        use_default_config: true,
+        ssid: 'Freebox-MOCK',
+        hide_ssid: false,
+        encryption: radio.band === '6g' ? 'wpa3_psk_ccmp' : 'wpa23_psk_ccmp',
+        key: 'motdepasse-wifi-mock',
+        eapol_version: 2
+      },
+      bss_params: { band: radio.band }
+    }));
+    this.wifiPlanning = { use_planning: false, mapping: new Array(336).fill('on'), resolution: 48 };
+    this.wifiCustomKeyConfig = { enabled: false, ssid: 'Freebox-MOCK-Invites', max_use_count: 0, duration: 86400 };
+    this.wifiMloConfig = { enabled: profile.mlo, ssid: 'Freebox-MOCK-MLO' };
+
+    this.lanConfig = {
+      mode: 'router',
+      ip: '192.168.1.254',
+      name: 'Freebox Server',
+      name_dns: 'freebox-server',
+      name_mdns: 'Freebox-Server',
+      name_netbios: 'Freebox_Server'
+    };
+    this.hosts = SEED_HOSTS.map((seed, index) => this.buildHost(seed, index));
+
+    this.dhcpConfig = {
+      enabled: true,
+      sticky_assign: true,
+      gateway: '192.168.1.254',
+      netmask: '255.255.255.0',
+      ip_range_start: '192.168.1.2',
+      ip_range_end: '192.168.1.50',
+      always_broadcast: false,
+      dns: ['192.168.1.254', '', '', '', '']
+    };
+    this.staticLeases = [
+      { id: SEED_HOSTS[5].mac, mac: SEED_HOSTS[5].mac, ip: SEED_HOSTS[5].ip, comment: 'NAS', hostname: SEED_HOSTS[5].name },
+      { id: SEED_HOSTS[6].mac, mac: SEED_HOSTS[6].mac, ip: SEED_HOSTS[6].ip, comment: '', hostname: SEED_HOSTS[6].name }
+    ];
+
+    this.downloadsConfig = {
+      max_downloading_tasks: 5,
+      download_dir: encodePath(`/${DISK_LABEL}/Téléchargements`),
+      watch_dir: '',
+      use_watch_dir: false,
+      dns1: '',
+      dns2: '',
+      throttling: { normal: { rx_rate: 0, tx_rate: 0 }, slow: { rx_rate: 512, tx_rate: 64 }, schedule: new Array(168).fill('normal'), mode: 'normal' },
+      news: { server: '', port: 563, ssl: true, nthreads: 4, auto_repair: true, lazy_par2: true, auto_extract: true, erase_tmp: true },
+      bt: { max_peers: 50, stop_ratio: 150, crypto_support: 'allowed', enable_dht: true, enable_pex: true, announce_timeout: 30, main_port: 48900, dht_port: 48901 },
+      feed: { fetch_interval: 60, max_items: 50 },
+      blocklist: { sources: [] }
+    };
+    this.storageConfig = { external_pm_enabled: true, external_pm_idle: 30 };
+
+    this.seedFilesystem(t);
+    this.seedDownloads(t);
+
+    this.contacts = [
+      { id: 1, display_name: 'Camille Martin', first_name: 'Camille', last_name: 'Martin', company: '', notes: '', last_update: seconds(t - 20 * DAY),
+        numbers: [{ id: 1, contact_id: 1, type: 'mobile', number: '0612345678', is_default: true, is_own: false }] },
+      { id: 2, display_name: 'Mamie', first_name: '', last_name: '', company: '', notes: '', last_update: seconds(t - 60 * DAY),
+        numbers: [{ id: 2, contact_id: 2, type: 'fixed', number: '0493112233', is_default: true, is_own: false }] },
+      { id: 3, display_name: 'Cabinet médical', first_name: '', last_name: '', company: 'Cabinet médical', notes: 'Dr Durand', last_update: seconds(t - 90 * DAY),
+        numbers: [{ id: 3, contact_id: 3, type: 'work', number: '0145678901', is_default: true, is_own: false }] }
+    ];
+    this.counters.set('contact', 3);
+    this.counters.set('number', 3);
+    this.seedCalls(t);
+
+    this.tvChannels = [
+      { uuid: 'uuid-webtv-201', name: 'TF1', number: 1, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-201.png' },
+      { uuid: 'uuid-webtv-202', name: 'France 2', number: 2, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-202.png' },
+      { uuid: 'uuid-webtv-203', name: 'France 3', number: 3, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-203.png' },
+      { uuid: 'uuid-webtv-205', name: 'France 5', number: 5, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-205.png' },
+      { uuid: 'uuid-webtv-206', name: 'M6', number: 6, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-206.png' },
+      { uuid: 'uuid-webtv-207', name: 'Arte', number: 7, quality: 'hd', logo_url: '/api/v15/tv/img/channels/logos68x60/uuid-webtv-207.png' }
+    ];
+    this.tvBouquets = [
+      { id: 1, name: 'Freebox TV', channels: this.tvChannels.map(c => c.uuid) }
+    ];
+    this.pvrConfig = { enabled: profile.disk !== null, max_time_shift: 7200, storage_path: profile.disk ? encodePath(`/${DISK_LABEL}/Enregistrements`) : '' };
+
+    this.parentalConfig = { default_filter_mode: 'allowed', filter_mode: 'allowed', parental_control_enabled: true };
+    this.profiles = [
+      { id: 1, name: 'Enfants', icon: '/resources/images/profile/profile_01.png' }
+    ];
+    this.counters.set('profile', 1);
+    this.networkControl.set(1, this.defaultNetworkControl(1, [SEED_HOSTS[8].mac]));
+    this.networkControlRules.set(1, []);
+
+    this.vpnServers = ['openvpn_routed', 'openvpn_bridge', 'pptp', 'ipsec', 'wireguard'].map(name => ({
+      name,
+      state: 'stopped',
+      type: name.split('_')[0],
+      connection_count: 0,
+      auth_connection_count: 0
+    }));
+    this.vpnServers.forEach(server => {
+      const name = String(server.name);
+      this.vpnServerConfigs.set(name, {
+        id: name,
+        type: server.type,
+        enabled: false,
+        port: name === 'wireguard' ? 51820 : 1194,
+        enable_ipv4: true,
+        enable_ipv6: false,
+        min_port: 0,
+        max_port: 0
+      });
+    });
+    this.vpnClientStatus = { enabled: false, active_vpn: '', active_vpn_description: '', state: 'down', last_error: 'none' };
+
+    this.incomingPorts = [
+      { id: 'http', enabled: true, active: true, type: 'tcp', in_port: 80, readonly: false, netns: 'init' },
+      { id: 'https', enabled: true, active: true, type: 'tcp', in_port: 443, readonly: false, netns: 'init' },
+      { id: 'bittorrent-main', enabled: true, active: true, type: 'tcp', in_port: 48900, readonly: false, netns: 'init' }
+    ];
+    this.dmzConfig = { enabled: false, ip: '' };
+    this.upnpConfig = { enabled: true, version: 2 };
+    this.ftpConfig = {
+      enabled: false,
+      allow_anonymous: false,
+      allow_anonymous_write: false,
+      allow_remote_access: false,
+      weak_password: false,
+      port_ctrl: 21,
+      port_data: 50000,
+      remote_domain: ''
+    };
+    this.lcdConfig = { brightness: 80, orientation: 0, orientation_forced: false, hide_wifi_key: false, hide_status_led: false };
+    this.airmediaConfig = { enabled: true, password: '' };
+    this.freeplugs = [
+      {
+        id: 'F4:CA:E5:00:10:01',
+        members: [
+          { id: 'F4:CA:E5:00:10:01', local: true, net_role: 'cco', eth_port_status: 'up', eth_full_duplex: true, eth_speed: 1000, inactive: 0, net_id: 'FREEPLUG-MOCK', rx_rate: 420, tx_rate: 380, has_network: true, model: 'fbxplug' }
+        ]
+      }
+    ];
+
+    this.vmDistros = [
+      { name: 'Debian 12 (Bookworm)', os: 'debian', url: 'https://cloud.debian.org/images/cloud/bookworm/latest/debian-12-generic-arm64.qcow2', hash: '' },
+      { name: 'Ubuntu 24.04 LTS', os: 'ubuntu', url: 'https://cloud-images.ubuntu.com/noble/current/noble-server-cloudimg-arm64.img', hash: '' },
+      { name: 'Home Assistant OS', os: 'homebridge', url: 'https://github.com/home-assistant/operating-system/releases/download/13.2/haos_generic-aarch64-13.2.qcow2.xz', hash: '' }
+    ];
+    if (profile.vm) {
+      this.vms = [
+        this.buildVm(1, 'debian-services', 'debian', 'running', 2, 2048),
+        this.buildVm(2, 'home-assistant', 'homebridge', 'stopped', 1, 1024)
+      ].slice(0, profile.vm.maxVms);
+      this.counters.set('vm', this.vms.length);
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  nextId(kind: string): number {
+    const id = (this.counters.get(kind) ?? 0) + 1;
+    this.counters.set(kind, id);
+    return id;
+  }
+
+  onEvent(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  emit(source: string, event: string, result: unknown) {
+    this.listeners.forEach(listener => listener({ source, event, result }));
+  }
+
+  uptime(): number {
+    return seconds(now() - this.bootedAt);
+  }
+
+  // "3 jours 4 heures 12 minutes 5 secondes"
+  uptimeText(): string {
+    let rest = this.uptime();
+    const parts: string[] = [];
+    for (const [unit, size] of [['jour', 86400], ['heure', 3600], ['minute', 60], ['seconde', 1]] as const) {
+      const value = Math.floor(rest / size);
+      rest -= value * size;
+      if (value > 0 || (unit === 'seconde' && parts.length === 0)) parts.push(`${value} ${unit}${value > 1 ? 's' : ''}`);
+    }
+    return parts.join(' ');
+  }
+
+  reboot(duration: number) {
+    this.rebootingUntil = now() + duration;
+    this.bootedAt = this.rebootingUntil;
+    this.vms.forEach(vm => (vm.status = 'stopped'));
+  }
+
+  isRebooting(): boolean {
+    return now() < this.rebootingUntil;
+  }
+
+  // ==================== LIVE VALUES ====================
+
+  // Current WAN throughput in bytes/s, a slow daily wave plus noise
+  rates(at = now()): { down: number; up: number } {
+    const t = seconds(at);
+    const wave = 0.5 + 0.5 * Math.sin((t % 86400) / 86400 * 2 * Math.PI);
+    const maxDown = this.profile.bandwidthDown / 8;
+    const maxUp = this.profile.bandwidthUp / 8;
+    return {
+      down: Math.round(maxDown * (0.01 + 0.05 * wave + 0.02 * Math.abs(noise(t, 1)))),
+      up: Math.round(maxUp * (0.005 + 0.02 * wave + 0.01 * Math.abs(noise(t, 2))))
+    };
+  }
+
+  temperature(base: number, at = now(), seed = 0): number {
+    return Math.round(base + 3 * Math.sin(seconds(at) / 900) + noise(seconds(at), seed));
+  }
+
+  systemInfo(): Json {
+    return {
+      ...this.system,
+      uptime: this.uptimeText(),
+      uptime_val: this.uptime(),
+      sensors: this.profile.sensors.map((sensor, index) => ({ ...sensor, value: this.temperature(sensor.value, now(), index) })),
+      fans: this.profile.fans.map((fan, index) => ({ ...fan, value: fan.value + Math.round(40 * noise(seconds(now()), 10 + index)) }))
+    };
+  }
+
+  connectionStatus(): Json {
+    const { down, up } = this.rates();
+    const uptime = this.uptime();
+    return {
+      type: 'ethernet',
+      media: this.profile.media,
+      state: 'up',
+      ipv4: '82.64.12.34',
+      ipv4_port_range: [0, 65535],
+      ipv6: '2a01:e0a:123:4560::1',
+      rate_down: down,
+      rate_up: up,
+      bandwidth_down: this.profile.bandwidthDown,
+      bandwidth_up: this.profile.bandwidthUp,
+      // Rough totals since boot, consistent with the average rates
+      bytes_down: Math.round(uptime * this.profile.bandwidthDown / 8 * 0.035),
+      bytes_up: Math.round(uptime * this.profile.bandwidthUp / 8 * 0.015)
+    };
+  }
+
+  ftthInfo(): Json {
+    return {
+      sfp_present: true,
+      sfp_alim_ok: true,
+      sfp_has_power_report: true,
+      sfp_has_signal: true,
+      link: true,
+      sfp_serial: 'MOCKSFP0001',
+      sfp_model: this.profile.id === 'ultra' ? 'F-MDCONU4' : 'F-MDCONU3',
+      sfp_vendor: 'FREEBOX',
+      sfp_pwr_tx: 250 + Math.round(5 * noise(seconds(now()), 20)),
+      sfp_pwr_rx: -1650 + Math.round(20 * noise(seconds(now()), 21)),
+      sfp_los: false,
+      sfp_pon_type: this.profile.id === 'ultra' ? '10g-epon' : 'gpon'
+    };
+  }
+
+  xdslInfo(): Json {
+    const downRate = Math.round(this.profile.bandwidthDown / 1000);
+    const upRate = Math.round(this.profile.bandwidthUp / 1000);
+    return {
+      status: { status: 'showtime', protocol: 'vdsl', modulation: 'vdsl', uptime: this.uptime() },
+      down: { maxrate: Math.round(downRate * 1.1), rate: downRate, snr: 62, snr_10x: 62, attn: 120, attn_10x: 120, fec: 0, crc: 0, hec: 0, es: 3, ses: 0, phyr: true, ginp: true, nitro: true, rtx_tx: 0, rtx_c: 0, rtx_uc: 0 },
+      up: { maxrate: Math.round(upRate * 1.1), rate: upRate, snr: 74, snr_10x: 74, attn: 57, attn_10x: 57, fec: 0, crc: 0, hec: 0, es: 0, ses: 0, phyr: false, ginp: false, nitro: true, rtx_tx: 0, rtx_c: 0, rtx_uc: 0 }
+    };
+  }
+
+  /**
+   * RRD samples between two timestamps (seconds), at most ~300 points
+   */
+  rrd(db: string, dateStart?: number, dateEnd?: number, fields?: string[]): Json {
+    const end = dateEnd ?? seconds(now());
+    const start = dateStart ?? end - 3600;
+    const step = Math.max(5, Math.ceil((end - start) / 300 / 5) * 5);
+    const data: Json[] = [];
+
+    for (let time = start - (start % step) + step; time <= end; time += step) {
+      const point: Json = { time };
+      if (db === 'net') {
+        const { down, up } = this.rates(time * 1000);
+        Object.assign(point, {
+          rate_down: down,
+          rate_up: up,
+          bw_down: this.profile.bandwidthDown,
+          bw_up: this.profile.bandwidthUp,
+          vpn_rate_down: 0,
+          vpn_rate_up: 0
+        });
+      } else if (db === 'temp') {
+        this.profile.sensors.forEach((sensor, index) => {
+          point[sensor.id.replace('temp_', '')] = this.temperature(sensor.value, time * 1000, index);
+        });
+        if (this.profile.fans[0]) point.fan_speed = this.profile.fans[0].value + Math.round(40 * noise(time, 10));
+      } else if (db === 'dsl') {
+        const { down, up } = this.rates(time * 1000);
+        Object.assign(point, { rate_down: down, rate_up: up, snr_down: 62, snr_up: 74 });
+      } else if (db === 'switch') {
+        for (let port = 1; port <= this.profile.switchPorts; port++) {
+          point[`rx_${port}`] = Math.round(Math.abs(noise(time, 30 + port)) * 2_000_000);
+          point[`tx_${port}`] = Math.round(Math.abs(noise(time, 40 + port)) * 500_000);
+        }
+      }
+      if (fields?.length) {
+        Object.keys(point).forEach(key => {
+          if (key !== 'time' && !fields.includes(key)) delete point[key];
+        });
+      }
+      data.push(point);
+    }
+    return { date_start: start, date_end: end, data };
+  }
+
+  // ==================== WIFI ====================
+
+  // Restore WiFi once a temporary shutdown elapsed
+  refreshWifi() {
+    if (this.wifiTempDisableUntil && now() >= this.wifiTempDisableUntil) {
+      this.wifiTempDisableUntil = 0;
+      this.wifiConfig.enabled = true;
+    }
+    const wifiOn = this.wifiConfig.enabled === true;
+    this.wifiBss.forEach(bss => {
+      const stations = this.stationsFor(bss.phy_id).length;
+      bss.status.state = wifiOn && bss.config.enabled ? 'active' : 'disabled';
+      bss.status.sta_count = bss.status.state === 'active' ? stations : 0;
+      bss.status.authorized_sta_count = bss.status.sta_count;
+    });
+    this.wifiAps.forEach(ap => {
+      (ap.status as Json).state = wifiOn ? 'active' : 'disabled';
+    });
+  }
+
+  stationsFor(apId: number): Json[] {
+    const band = this.profile.radios[apId]?.band;
+    return this.hosts
+      .filter(host => host.reachable && (host.access_point?.wifi_information as Json | undefined)?.band === band)
+      .map(host => {
+        const ap = host.access_point as Json;
+        const wifi = ap.wifi_information as Json;
+        return {
+          id: host.l2ident.id,
+          mac: host.l2ident.id,
+          bssid: wifi.bssid,
+          hostname: host.primary_name,
+          host,
+          state: 'authenticated',
+          inactive: 0,
+          conn_duration: wifi.sess_duration,
+          rx_rate: ap.rx_rate,
+          tx_rate: ap.tx_rate,
+          rx_bytes: ap.rx_bytes,
+          tx_bytes: ap.tx_bytes,
+          signal: wifi.signal,
+          last_rx: { bitrate: wifi.phy_rx_rate, mcs: 9, width: '80', shortgi: true, vht_mcs: 9 },
+          last_tx: { bitrate: wifi.phy_tx_rate, mcs: 9, width: '80', shortgi: true, vht_mcs: 9 },
+          flags: { legacy: false, ht: true, vht: true, he: true, authorized: true }
+        };
+      });
+  }
+
+  // ==================== LAN ====================
+
+  private buildHost(seed: SeedHost, index: number): MockLanHost {
+    const t = seconds(now());
+    const lastSeen = seed.reachable ? t : t - 2 * 86400;
+    const radioIndex = seed.band ? this.profile.radios.findIndex(radio => radio.band === seed.band) : -1;
+    const host: MockLanHost = {
+      id: `ether-${seed.mac.toLowerCase()}`,
+      primary_name: seed.name,
+      host_type: seed.type,
+      primary_name_manual: false,
+      l2ident: { id: seed.mac, type: 'mac_address' },
+      vendor_name: seed.vendor,
+      persistent: true,
+      reachable: seed.reachable,
+      last_time_reachable: lastSeen,
+      active: seed.reachable,
+      last_activity: lastSeen,
+      first_activity: t - (30 + index) * 86400,
+      names: [{ name: seed.name, source: 'dhcp' }],
+      l3connectivities: [
+        { addr: seed.ip, af: 'ipv4', active: seed.reachable, reachable: seed.reachable, last_activity: lastSeen, last_time_reachable: lastSeen }
+      ],
+      interface: 'pub'
+    };
+
+    const rxRate = seed.reachable ? 2000 + index * 1500 : 0;
+    const txRate = seed.reachable ? 500 + index * 300 : 0;
+    const common = {
+      mac: 'F4:CA:E5:00:00:01',
+      type: 'gateway',
+      uid: 'gateway-0',
+      rx_bytes: 1_000_000_000 + index * 250_000_000,
+      tx_bytes: 200_000_000 + index * 40_000_000,
+      rx_rate: rxRate,
+      tx_rate: txRate
+    };
+    if (seed.band && radioIndex >= 0) {
+      host.access_point = {
+        ...common,
+        connectivity_type: 'wifi',
+        wifi_information: {
+          band: seed.band,
+          sess_duration: seed.reachable ? 3600 + index * 600 : 0,
+          phy_rx_rate: seed.band === '2.4g' ? 1440 : 8660,
+          phy_tx_rate: seed.band === '2.4g' ? 1440 : 8660,
+          ssid: 'Freebox-MOCK',
+          standard: seed.band === '2.4g' ? '802.11n' : '802.11ax',
+          bssid: bssIdFor(radioIndex + 1),
+          signal: -45 - index * 3
+        }
+      };
+    } else if (!seed.band) {
+      host.access_point = {
+        ...common,
+        connectivity_type: 'ethernet',
+        ethernet_information: { duplex: 'full', speed: 1000, max_port_speed: this.profile.id === 'ultra' ? 2500 : 1000, link: 'up' }
+      };
+    }
+    return host;
+  }
+
+  findHost(idOrMac: string): MockLanHost | undefined {
+    const key = idOrMac.toLowerCase();
+    return this.hosts.find(host => host.id.toLowerCase() === key || host.l2ident.id.toLowerCase() === key);
+  }
+
+  setHostReachable(host: MockLanHost, reachable: boolean) {
+    if (host.reachable === reachable) return;
+    const t = seconds(now());
+    host.reachable = reachable;
+    host.active = reachable;
+    if (reachable) {
+      host.last_time_reachable = t;
+      host.last_activity = t;
+    }
+    host.l3connectivities.forEach(l3 => {
+      l3.reachable = reachable;
+      l3.active = reachable;
+      if (reachable) l3.last_time_reachable = t;
+    });
+    this.emit('lan_host', reachable ? 'l3addr_reachable' : 'l3addr_unreachable', host);
+  }
+
+  dynamicLeases(): Json[] {
+    const t = seconds(now());
+    const statics = new Set(this.staticLeases.map(lease => String(lease.mac).toLowerCase()));
+    return this.hosts
+      .filter(host => host.reachable)
+      .map(host => ({
+        mac: host.l2ident.id,
+        ip: host.l3connectivities.find(l3 => l3.af === 'ipv4')?.addr ?? '',
+        hostname: host.primary_name,
+        lease_remaining: 43200 - (t % 43200),
+        assign_time: t - (t % 43200),
+        refresh_time: t - 600,
+        is_static: statics.has(host.l2ident.id.toLowerCase()),
+        host
+      }));
+  }
+
+  // Static lease with the matching LAN host attached, as returned by the API
+  withHost(lease: Json): Json {
+    const host = this.findHost(String(lease.mac));
+    return host ? { ...lease, host } : lease;
+  }
+
+  defaultNetworkControl(profileId: number, macs: string[] = []): Json {
+    return {
+      profile_id: profileId,
+      current_mode: 'allowed',
+      rule_mode: 'allowed',
+      default_mode: 'allowed',
+      macs,
+      hosts: macs,
+      override: false,
+      override_mode: 'allowed',
+      override_until: 0,
+      next_change: 0,
+      cdayranges: [],
+      resolution: 48
+    };
+  }
+
+  // ==================== DOWNLOADS ====================
+
+  private seedDownloads(t: number) {
+    const dir = encodePath(`/${DISK_LABEL}/Téléchargements`);
+    const base = { io_priority: 'normal' as const, error: 'none', download_dir: dir, stop_ratio: 150, archive_password: '', piece_length: 1048576, queue_pos: 0, tx_bytes: 0, tx_rate: 0, tx_pct: 0, eta: 0 };
+    this.downloads = [
+      { ...base, id: 1, type: 'bt', name: 'debian-12.8.0-amd64-netinst.iso', status: 'seeding', size: 661_651_456, rx_bytes: 661_651_456, rx_rate: 0, rx_pct: 10000, tx_bytes: 812_000_000, tx_rate: 45_000, tx_pct: 12272, created_ts: seconds(t - 5 * DAY), info_hash: 'b851474b74f65cd19f981c723590e3e520242b97' },
+      { ...base, id: 2, type: 'bt', name: 'ubuntu-24.04.1-desktop-amd64.iso', status: 'downloading', size: 6_203_355_136, rx_bytes: 2_100_000_000, rx_rate: 12_500_000, rx_pct: 3385, created_ts: seconds(t - HOUR), info_hash: '3f19b149f53a50e14fc0b79926a391896eabab6f' },
+      { ...base, id: 3, type: 'http', name: 'big_buck_bunny_1080p.mp4', status: 'stopped', size: 725_106_140, rx_bytes: 120_000_000, rx_rate: 0, rx_pct: 1654, created_ts: seconds(t - 2 * DAY), info_hash: '' }
+    ];
+    this.counters.set('download', this.downloads.length);
+    this.downloads.forEach((task, index) => (task.queue_pos = index + 1));
+  }
+
+  /**
+   * Advance running downloads by the time elapsed since the last read
+   * A finished task becomes a (sparse) file in its download directory.
+   */
+  tickDownloads() {
+    const t = now();
+    const elapsed = (t - this.downloadsTickedAt) / 1000;
+    this.downloadsTickedAt = t;
+
+    for (const task of this.downloads) {
+      if (task.status !== 'downloading') {
+        if (task.status !== 'seeding') task.rx_rate = 0;
+        continue;
+      }
+      task.rx_bytes = Math.min(task.size, Math.round(task.rx_bytes + task.rx_rate * elapsed));
+      task.rx_pct = task.size ? Math.floor(task.rx_bytes / task.size * 10000) : 10000;
+      task.eta = task.rx_rate ? Math.ceil((task.size - task.rx_bytes) / task.rx_rate) : 0;
+      if (task.rx_bytes >= task.size) {
+        task.status = task.type === 'bt' ? 'seeding' : 'done';
+        task.rx_rate = 0;
+        task.eta = 0;
+        task.tx_rate = task.type === 'bt' ? 30_000 : 0;
+        this.writeFile(joinPath(decodePath(task.download_dir), task.name), undefined, task.size);
+      }
+    }
+  }
+
+  addDownload(name: string, type: MockDownload['type'], downloadDir: string | undefined, size: number): MockDownload {
+    const id = this.nextId('download');
+    const task: MockDownload = {
+      id,
+      type,
+      name,
+      status: 'downloading',
+      io_priority: 'normal',
+      size,
+      queue_pos: this.downloads.length + 1,
+      tx_bytes: 0,
+      rx_bytes: 0,
+      tx_rate: 0,
+      rx_rate: 8_000_000,
+      tx_pct: 0,
+      rx_pct: 0,
+      error: 'none',
+      created_ts: seconds(now()),
+      eta: Math.ceil(size / 8_000_000),
+      download_dir: downloadDir || String(this.downloadsConfig.download_dir),
+      stop_ratio: 150,
+      archive_password: '',
+      info_hash: type === 'bt' ? crypto.createHash('sha1').update(name).digest('hex') : '',
+      piece_length: 1048576
+    };
+    this.downloads.push(task);
+    return task;
+  }
+
+  downloadStats(): Json {
+    this.tickDownloads();
+    const count = (statuses: string[]) => this.downloads.filter(task => statuses.includes(task.status)).length;
+    return {
+      nb_tasks: this.downloads.length,
+      nb_tasks_stopped: count(['stopped']),
+      nb_tasks_active: count(['downloading', 'seeding', 'checking', 'extracting']),
+      nb_tasks_downloading: count(['downloading']),
+      nb_tasks_done: count(['done', 'seeding']),
+      nb_tasks_error: count(['error']),
+      nb_tasks_queued: count(['queued']),
+      rx_rate: this.downloads.reduce((sum, task) => sum + task.rx_rate, 0),
+      tx_rate: this.downloads.reduce((sum, task) => sum + task.tx_rate, 0),
+      nb_rss: 0,
+      nb_rss_items_unread: 0,
+      throttling_mode: 'normal',
+      throttling_is_scheduled: false,
+      throttling_rate: { rx_rate: 0, tx_rate: 0 }
+    };
+  }
+
+  // ==================== FILESYSTEM ====================
+
+  private seedFilesystem(t: number) {
+    this.fs.set('/', { type: 'dir', modification: seconds(t), size: 0 });
+    if (!this.profile.disk) return;
+
+    const root = `/${DISK_LABEL}`;
+    const dirs = ['Téléchargements', 'Vidéos', 'Vidéos/Films', 'Photos', 'Photos/2025', 'Musique', 'Documents', 'Enregistrements'];
+    if (this.profile.vm) dirs.push('VMs');
+    this.mkdir(root, seconds(t - 90 * DAY));
+    dirs.forEach(dir => this.mkdir(`${root}/${dir}`, seconds(t - 60 * DAY)));
+
+    const text = (value: string) => Buffer.from(value, 'utf-8');
+    this.writeFile(`${root}/Documents/notes.txt`, text('Code du portail : 1234\nRendez-vous plombier jeudi 10h\n'));
+    this.writeFile(`${root}/Documents/facture-2025-09.pdf`, undefined, 184_320);
+    this.writeFile(`${root}/Documents/README.md`, text('# Documents\n\nDossier partagé de la maison.\n'));
+    this.writeFile(`${root}/Photos/2025/vacances-001.jpg`, undefined, 4_194_304);
+    this.writeFile(`${root}/Photos/2025/vacances-002.jpg`, undefined, 3_932_160);
+    // Same bytes as vacances-001.jpg: a ready-made duplicate
+    this.writeFile(`${root}/Photos/vacances-001 (copie).jpg`, undefined, 4_194_304);
+    this.writeFile(`${root}/Musique/playlist.mp3`, undefined, 8_388_608);
+    this.writeFile(`${root}/Vidéos/Films/big_buck_bunny_720p.mkv`, undefined, 1_468_006_400);
+    this.writeFile(`${root}/Téléchargements/debian-12.8.0-amd64-netinst.iso`, undefined, 661_651_456);
+    this.writeFile(`${root}/Téléchargements/archive-photos.zip`, undefined, 52_428_800);
+    (this.fs.get(`${root}/Téléchargements/archive-photos.zip`) as MockFsNode).entries = [
+      { path: 'archive-photos', type: 'dir', size: 0 },
+      ...Array.from({ length: 10 }, (_, i) => ({ path: `archive-photos/IMG_${String(i + 1).padStart(4, '0')}.jpg`, type: 'file' as const, size: 5_242_880 }))
+    ];
+    if (this.profile.vm) {
+      this.writeFile(`${root}/VMs/debian-services.qcow2`, undefined, 10_737_418_240);
+      this.writeFile(`${root}/VMs/home-assistant.qcow2`, undefined, 34_359_738_368);
+    }
+  }
+
+  mkdir(p: string, modification = seconds(now())) {
+    if (!this.fs.has(p)) this.fs.set(p, { type: 'dir', modification, size: 0 });
+  }
+
+  writeFile(p: string, content?: Buffer, size = content?.length ?? 0) {
+    this.mkdir(parentOf(p));
+    this.fs.set(p, { type: 'file', modification: seconds(now()), content, size: content ? content.length : size });
+  }
+
+  children(dir: string): string[] {
+    const prefix = dir === '/' ? '/' : `${dir}/`;
+    return [...this.fs.keys()].filter(p => p !== dir && p.startsWith(prefix) && !p.slice(prefix.length).includes('/'));
+  }
+
+  // Path and every path below it
+  subtree(p: string): string[] {
+    return [...this.fs.keys()].filter(key => key === p || key.startsWith(`${p}/`));
+  }
+
+  treeSize(p: string): number {
+    return this.subtree(p).reduce((sum, key) => sum + (this.fs.get(key)?.size ?? 0), 0);
+  }
+
+  // Bytes [start, end] of a file, sparse files repeat their name
+  readFile(p: string, start = 0, end?: number): Buffer {
+    const node = this.fs.get(p);
+    if (!node || node.type !== 'file') return Buffer.alloc(0);
+    const last = Math.min(end ?? node.size - 1, node.size - 1);
+    if (node.content) return node.content.subarray(start, last + 1);
+    if (last < start) return Buffer.alloc(0);
+    const pattern = Buffer.from(`${baseName(p).replace(/ \(copie\)/, '')}\n`, 'utf-8');
+    const shift = start % pattern.length;
+    return Buffer.alloc(last - start + 1, Buffer.concat([pattern.subarray(shift), pattern.subarray(0, shift)]));
+  }
+
+  fileInfo(p: string): Json | null {
+    const node = this.fs.get(p);
+    if (!node) return null;
+    const name = p === '/' ? '/' : baseName(p);
+    const info: Json = {
+      path: encodePath(p),
+      name,
+      type: node.type,
+      size: node.type === 'dir' ? 0 : node.size,
+      modification: node.modification,
+      index: 0,
+      link: false,
+      target: '',
+      hidden: name.startsWith('.') && name !== '.' && name !== '..',
+      mimetype: node.type === 'dir' ? 'inode/directory' : mimeOf(name)
+    };
+    if (node.type === 'dir') {
+      const children = this.children(p);
+      info.foldercount = children.filter(child => this.fs.get(child)?.type === 'dir').length;
+      info.filecount = children.length - Number(info.foldercount);
+    }
+    return info;
+  }
+
+  /**
+   * Move or copy a path and everything below it
+   * Returns false when the destination exists and mode is "skip".
+   */
+  transfer(src: string, dstDir: string, mode: string, keepSource: boolean): boolean {
+    let target = joinPath(dstDir, baseName(src));
+    if (this.fs.has(target)) {
+      if (mode === 'skip') return false;
+      if (mode === 'both') {
+        const dot = baseName(src).lastIndexOf('.');
+        const stem = dot > 0 ? baseName(src).slice(0, dot) : baseName(src);
+        const ext = dot > 0 ? baseName(src).slice(dot) : '';
+        let n = 1;
+        while (this.fs.has(joinPath(dstDir, `${stem} (${n})${ext}`))) n++;
+        target = joinPath(dstDir, `${stem} (${n})${ext}`);
+      } else {
+        this.subtree(target).forEach(p => this.fs.delete(p));
+      }
+    }
+    for (const p of this.subtree(src)) {
+      const node = this.fs.get(p) as MockFsNode;
+      this.fs.set(target + p.slice(src.length), { ...node });
+      if (!keepSource) this.fs.delete(p);
+    }
+    return true;
+  }
+
+  /**
+   * Record a filesystem task
+   * Without effect, or when the work takes less than a second, the task is
+   * done at once; otherwise it runs at `fsTaskRate` and its effect is applied
+   * when it completes (see tickFsTasks).
+   */
+  addTask(type: MockFsTask['type'], src: string[], dst: string, totalBytes: number, nfiles: number, effect?: () => string | void): MockFsTask {
+    const t = seconds(now());
+    const task: MockFsTask = {
+      id: this.nextId('fs_task'),
+      type,
+      state: 'running',
+      error: 'none',
+      created_ts: t,
+      started_ts: t,
+      done_ts: 0,
+      duration: 0,
+      progress: 0,
+      eta: Math.ceil(totalBytes / this.fsTaskRate),
+      from: src[0] ? baseName(src[0]) : '',
+      to: dst ? baseName(dst) : '',
+      nfiles,
+      nfiles_done: 0,
+      total_bytes: totalBytes,
+      total_bytes_done: 0,
+      curr_bytes: 0,
+      curr_bytes_done: 0,
+      rate: this.fsTaskRate,
+      src: src.map(encodePath),
+      dst: dst ? encodePath(dst) : ''
+    };
+    this.fsTasks.push(task);
+    if (effect && totalBytes > this.fsTaskRate) {
+      this.fsTaskEffects.set(task.id, effect);
+    } else {
+      this.finishTask(task, effect?.());
+    }
+    return task;
+  }
+
+  private finishTask(task: MockFsTask, error: string | void) {
+    const t = seconds(now());
+    task.state = error ? 'failed' : 'done';
+    task.error = error || 'none';
+    task.done_ts = t;
+    task.duration = t - task.started_ts;
+    task.rate = 0;
+    task.eta = 0;
+    if (!error) {
+      task.progress = 100;
+      task.nfiles_done = task.nfiles;
+      task.total_bytes_done = task.total_bytes;
+    }
+  }
+
+  /**
+   * Advance running tasks by the time elapsed since the last read
+   */
+  tickFsTasks() {
+    const t = now();
+    const elapsed = (t - this.fsTasksTickedAt) / 1000;
+    this.fsTasksTickedAt = t;
+
+    for (const task of this.fsTasks) {
+      if (task.state !== 'running') continue;
+      task.total_bytes_done = Math.min(task.total_bytes, Math.round(task.total_bytes_done + task.rate * elapsed));
+      if (task.total_bytes_done >= task.total_bytes) {
+        const effect = this.fsTaskEffects.get(task.id);
+        this.fsTaskEffects.delete(task.id);
+        this.finishTask(task, effect?.());
+        continue;
+      }
+      task.progress = Math.floor(task.total_bytes_done / task.total_bytes * 100);
+      task.nfiles_done = Math.floor(task.nfiles * task.total_bytes_done / task.total_bytes);
+      task.eta = Math.ceil((task.total_bytes - task.total_bytes_done) / task.rate);
+    }
+  }
+
+  // Pause or resume a running task, false when the task is finished
+  setTaskState(task: MockFsTask, state: 'running' | 'paused'): boolean {
+    this.tickFsTasks();
+    if (task.state !== 'running' && task.state !== 'paused') return false;
+    task.state = state;
+    task.rate = state === 'running' ? this.fsTaskRate : 0;
+    task.eta = state === 'running' ? Math.ceil((task.total_bytes - task.total_bytes_done) / task.rate) : 0;
+    return true;
+  }
+
+  // Delete a task, cancelling it when it didn't finish
+  deleteTask(id: number): boolean {
+    const index = this.fsTasks.findIndex(task => task.id === id);
+    if (index < 0) return false;
+    this.fsTaskEffects.delete(id);
+    this.fsTasks.splice(index, 1);
+    return true;
+  }
+
+  disks(): Json[] {
+    const disk = this.profile.disk;
+    if (!disk) return [];
+    const used = this.treeSize(`/${DISK_LABEL}`);
+    return [{
+      id: 1000,
+      type: disk.type,
+      state: 'enabled',
+      connector: 0,
+      model: disk.model,
+      serial: 'MOCK0000000001',
+      firmware: '1.0',
+      total_bytes: disk.totalBytes,
+      temp: 38,
+      spinning: disk.type === 'sata',
+      table_type: 'gpt',
+      idle: false,
+      partitions: [{
+        id: 2000,
+        disk_id: 1000,
+        state: 'mounted',
+        fstype: 'ext4',
+        label: DISK_LABEL,
+        path: encodePath(`/${DISK_LABEL}`),
+        total_bytes: disk.totalBytes,
+        used_bytes: used,
+        free_bytes: disk.totalBytes - used,
+        fsck_result: 'no_run_yet'
+      }]
+    }];
+  }
+
+  // ==================== CALLS ====================
+
+  private seedCalls(t: number) {
+    for (let i = 0; i < 14; i++) {
+      const caller = CALLERS[i % CALLERS.length];
+      const type = CALL_TYPES[i % CALL_TYPES.length];
+      this.calls.push({
+        id: i + 1,
+        type,
+        datetime: seconds(t - (i * 7 + 1) * HOUR),
+        number: caller.number,
+        name: caller.name,
+        duration: type === 'missed' ? 0 : 30 + i * 47,
+        new: i < 3 && type === 'missed',
+        contact_id: this.contacts.find(contact => contact.display_name === caller.name)?.id ?? 0,
+        line_id: 0
+      });
+    }
+    this.counters.set('call', this.calls.length);
+  }
+
+  // ==================== VMs ====================
+
+  buildVm(id: number, name: string, os: string, status: MockVm['status'], vcpus: number, memory: number): MockVm {
+    return {
+      id,
+      name,
+      os,
+      status,
+      vcpus,
+      memory,
+      disk_path: encodePath(`/${DISK_LABEL}/VMs/${name}.qcow2`),
+      disk_type: 'qcow2',
+      cd_path: '',
+      enable_screen: false,
+      enable_cloudinit: false,
+      cloudinit_hostname: name,
+      cloudinit_userdata: '',
+      bind_usb_ports: [],
+      mac: `F4:CA:E5:00:20:0${id}`
+    };
+  }
+
+  setVmStatus(vm: MockVm, status: MockVm['status']) {
+    vm.status = status;
+    this.emit('vm', 'state_changed', { id: vm.id, status });
+  }
+}
@@ -0,0 +1,127 @@
+import { WebSocket } from 'ws';
+import { baseName, decodePath, joinPath, type MockFreeboxState } from './state.js';
+
+type Json = Record<string, unknown>;
+
+interface MockUpload {
+  path: string;
+  size: number;
+  // Content kept before the upload (resume) followed by the received frames
+  chunks: Buffer[];
+  received: number;
+}
+
+/**
+ * FreeboxOS upload socket (/api/vN/ws/upload)
+ *
+ * One upload at a time per socket: upload_start opens the target file,
+ * binary frames append to it, upload_finalize checks the announced size and
+ * upload_cancel removes the file. The partial file stays on disk when the
+ * socket closes, so a new socket can continue it with force "resume".
+ */
+export function attachUploadSocket(ws: WebSocket, state: () => MockFreeboxState, canWrite: () => boolean) {
+  let upload: MockUpload | null = null;
+
+  const reply = (message: Json, result: Json = {}) => {
+    ws.send(JSON.stringify({ action: message.action, request_id: message.request_id, success: true, ...result }));
+  };
+  const fail = (message: Json, errorCode: string, msg: string) => {
+    ws.send(JSON.stringify({ action: message.action, request_id: message.request_id, success: false, error_code: errorCode, msg }));
+  };
+
+  // Write what was received so far into the mock filesystem
+  const flush = () => {
+    if (!upload) return;
+    const content = Buffer.concat(upload.chunks);
+    upload.chunks = [content];
+    state().writeFile(upload.path, content);
+  };
+
+  const start = (message: Json) => {
+    if (!canWrite()) return fail(message, 'insufficient_rights', 'Cette application n\'est pas autorisée à accéder à cette fonction');
+    const size = Number(message.size);
+    const filename = String(message.filename ?? '');
+    const dir = typeof message.dirname === 'string' ? decodePath(message.dirname).replace(/\/+$/, '') || '/' : '';
+    if (!Number.isSafeInteger(size) || size < 0 || !filename || filename.includes('/')) {
+      return fail(message, 'invalid_request', 'Requête invalide');
+    }
+    if (state().fs.get(dir)?.type !== 'dir' || dir === '/') {
+      return fail(message, 'path_not_found', 'Chemin introuvable');
+    }
+
+    let target = joinPath(dir, filename);
+    let kept = Buffer.alloc(0);
+    const existing = state().fs.get(target);
+    if (existing) {
+      if (existing.type === 'dir') return fail(message, 'destination_conflict', 'Un dossier du même nom existe déjà');
+      if (message.force === 'resume') {
+        kept = state().readFile(target);
+      } else if (message.force === 'auto') {
+        const dot = filename.lastIndexOf('.');
+        const stem = dot > 0 ? filename.slice(0, dot) : filename;
+        const ext = dot > 0 ? filename.slice(dot) : '';
+        let n = 1;
+        while (state().fs.has(joinPath(dir, `${stem} (${n})${ext}`))) n++;
+        target = joinPath(dir, `${stem} (${n})${ext}`);
+      } else if (message.force !== 'overwrite') {
+        return fail(message, 'destination_conflict', 'Un fichier du même nom existe déjà');
+      }
+    }
+    if (kept.length > size) return fail(message, 'invalid_request', 'Le fichier existant dépasse la taille annoncée');
+
+    flush();
+    upload = { path: target, size, chunks: [kept], received: kept.length };
+    flush();
+    reply(message, { filename: baseName(target), total_len: kept.length });
+  };
+
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) {
+      const chunk = Buffer.isBuffer(data) ? data : Buffer.concat(Array.isArray(data) ? data : [Buffer.from(data)]);
+      if (!upload) {
+        fail({ action: 'upload_data' }, 'invalid_request', 'Aucun envoi en cours');
+        return;
+      }
+      if (upload.received + chunk.length > upload.size) {
+        fail({ action: 'upload_data' }, 'invalid_request', 'Le fichier dépasse la taille annoncée');
+        return;
+      }
+      upload.chunks.push(chunk);
+      upload.received += chunk.length;
+      return;
+    }
+
+    let message: Json;
+    try {
+      message = JSON.parse(data.toString()) as Json;
+    } catch {
+      return;
+    }
+
+    switch (message.action) {
+      case 'upload_start':
+        start(message);
+        break;
+      case 'upload_finalize': {
+        if (!upload) return fail(message, 'invalid_request', 'Aucun envoi en cours');
+        flush();
+        if (upload.received !== upload.size) {
+          return fail(message, 'invalid_request', `Taille reçue ${upload.received} au lieu de ${upload.size}`);
+        }
+        const total = upload.received;
+        upload = null;
+        reply(message, { total_len: total });
+        break;
+      }
+      case 'upload_cancel':
+        if (upload) state().fs.delete(upload.path);
+        upload = null;
+        reply(message);
+        break;
+      default:
+        fail(message, 'invalid_request', 'Action inconnue');
+    }
+  });
+
+  ws.on('close', () => flush());
+}
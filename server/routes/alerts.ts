@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { alertEngine } from '../services/alertEngine.js';
+import { listAlertChannelDrivers } from '../services/alertChannels.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/alerts/history - Fired and resolved alerts, newest first
+router.get('/history', asyncHandler(async (req, res) => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 500);
+  res.json({ success: true, result: alertEngine.getHistory(limit) });
+}));
+
+// GET /api/alerts/active - Alerts currently firing
+router.get('/active', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: alertEngine.getActive() });
+}));
+
+// DELETE /api/alerts/history - Clear the history
+router.delete('/history', asyncHandler(async (_req, res) => {
+  alertEngine.clearHistory();
+  res.json({ success: true, result: { message: 'History cleared' } });
+}));
+
+// GET /api/alerts/rules - List rules
+router.get('/rules', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: alertEngine.getRules() });
+}));
+
+// POST /api/alerts/rules - Create a rule
+router.post('/rules', asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: alertEngine.createRule(req.body ?? {}) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_RULE');
+  }
+}));
+
+// PUT /api/alerts/rules/:id - Update a rule
+router.put('/rules/:id', asyncHandler(async (req, res) => {
+  let rule;
+  try {
+    rule = alertEngine.updateRule(req.params.id, req.body ?? {});
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_RULE');
+  }
+  if (!rule) {
+    throw createError('Règle introuvable', 404, 'RULE_NOT_FOUND');
+  }
+  res.json({ success: true, result: rule });
+}));
+
+// DELETE /api/alerts/rules/:id - Delete a rule
+router.delete('/rules/:id', asyncHandler(async (req, res) => {
+  if (!alertEngine.deleteRule(req.params.id)) {
+    throw createError('Règle introuvable', 404, 'RULE_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'Rule deleted' } });
+}));
+
+// GET /api/alerts/channels/types - Available delivery channel types and their settings
+router.get('/channels/types', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: listAlertChannelDrivers() });
+}));
+
+// GET /api/alerts/channels - List channels (secrets are masked)
+router.get('/channels', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: alertEngine.getChannels() });
+}));
+
+// POST /api/alerts/channels - Create a channel
+router.post('/channels', asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: alertEngine.createChannel(req.body ?? {}) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_CHANNEL');
+  }
+}));
+
+// PUT /api/alerts/channels/:id - Update a channel
+router.put('/channels/:id', asyncHandler(async (req, res) => {
+  let channel;
+  try {
+    channel = alertEngine.updateChannel(req.params.id, req.body ?? {});
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_CHANNEL');
+  }
+  if (!channel) {
+    throw createError('Canal introuvable', 404, 'CHANNEL_NOT_FOUND');
+  }
+  res.json({ success: true, result: channel });
+}));
+
+// DELETE /api/alerts/channels/:id - Delete a channel (removed from every rule)
+router.delete('/channels/:id', asyncHandler(async (req, res) => {
+  if (!alertEngine.deleteChannel(req.params.id)) {
+    throw createError('Canal introuvable', 404, 'CHANNEL_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'Channel deleted' } });
+}));
+
+// POST /api/alerts/channels/:id/test - Send a test notification
+router.post('/channels/:id/test', asyncHandler(async (req, res) => {
+  try {
+    await alertEngine.testChannel(req.params.id);
+  } catch (error) {
+    throw createError((error as Error).message, 502, 'CHANNEL_TEST_FAILED');
+  }
+  res.json({ success: true, result: { message: 'Test notification sent' } });
+}));
+
+export default router;
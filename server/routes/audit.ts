@@ -0,0 +1,54 @@
+import { Router, type Request } from 'express';
+import { auditLog } from '../services/auditLog.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import type { AuditQuery, AuditResultFilter } from '../types/audit.js';
+
+const router = Router();
+
+const optionalNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+// Filters shared by the list and the exports
+const parseQuery = (req: Request): AuditQuery => {
+  const result = req.query.result;
+  if (result !== undefined && result !== 'success' && result !== 'failure') {
+    throw createError('Filtre de résultat invalide', 400, 'INVALID_FILTER');
+  }
+  return {
+    q: optionalString(req.query.q),
+    user: optionalString(req.query.user),
+    method: optionalString(req.query.method),
+    result: result as AuditResultFilter | undefined,
+    from: optionalNumber(req.query.from),
+    to: optionalNumber(req.query.to),
+    limit: optionalNumber(req.query.limit),
+    offset: optionalNumber(req.query.offset)
+  };
+};
+
+// GET /api/audit - Audit entries, newest first (?q=&user=&method=&result=&from=&to=&limit=&offset=)
+router.get('/', asyncHandler(async (req, res) => {
+  res.json({ success: true, result: auditLog.query(parseQuery(req)) });
+}));
+
+// GET /api/audit/export - Download the matching entries (?format=csv|json and the list filters)
+router.get('/export', asyncHandler(async (req, res) => {
+  const format = req.query.format === 'json' ? 'json' : 'csv';
+  const query = parseQuery(req);
+  const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.attachment(filename);
+  if (format === 'json') {
+    res.type('application/json').send(auditLog.exportJson(query));
+  } else {
+    res.type('text/csv; charset=utf-8').send(auditLog.exportCsv(query));
+  }
+}));
+
+export default router;
@@ -2,12 +2,15 @@ import { Router } from 'express';
 import { freeboxApi } from '../services/freeboxApi.js';
 import { modelDetection } from '../services/modelDetection.js';
 import { connectionWebSocket } from '../services/connectionWebSocket.js';
+import { boxProfiles } from '../services/boxProfiles.js';
+import { currentBoxId } from '../services/boxContext.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireAdmin } from '../middleware/auth.js';
 
 const router = Router();
 
-// POST /api/auth/register - Start app registration
-router.post('/register', asyncHandler(async (_req, res) => {
+// POST /api/auth/register - Start app registration (admin only)
+router.post('/register', requireAdmin, asyncHandler(async (_req, res) => {
   const result = await freeboxApi.register();
   res.json({
     success: true,
@@ -56,8 +59,8 @@ router.post('/login', asyncHandler(async (_req, res) => {
   });
 }));
 
-// POST /api/auth/logout - Close session
-router.post('/logout', asyncHandler(async (_req, res) => {
+// POST /api/auth/logout - Close session (admin only, the Freebox session is shared)
+router.post('/logout', requireAdmin, asyncHandler(async (_req, res) => {
   await freeboxApi.logout();
   // Clear cached capabilities on logout
   modelDetection.clearCache();
@@ -90,14 +93,21 @@ router.get('/check', asyncHandler(async (_req, res) => {
   });
 }));
 
-// POST /api/auth/set-url - Set Freebox base URL
-router.post('/set-url', asyncHandler(async (req, res) => {
+// POST /api/auth/set-url - Set Freebox base URL (admin only)
+router.post('/set-url', requireAdmin, asyncHandler(async (req, res) => {
   const { url } = req.body;
   if (!url) {
     throw createError('URL is required', 400, 'MISSING_URL');
   }
 
-  freeboxApi.setBaseUrl(url);
+  // Remember the URL in the profile of the selected box
+  let box;
+  try {
+    box = boxProfiles.update(currentBoxId(), { url });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_URL');
+  }
+  freeboxApi.setBaseUrl(box?.url ?? url);
   res.json({
     success: true,
     result: {
@@ -117,8 +127,8 @@ router.get('/url', asyncHandler(async (_req, res) => {
   });
 }));
 
-// POST /api/auth/reset - Reset token (for re-registration when token is invalid)
-router.post('/reset', asyncHandler(async (_req, res) => {
+// POST /api/auth/reset - Reset token (for re-registration when token is invalid, admin only)
+router.post('/reset', requireAdmin, asyncHandler(async (_req, res) => {
   // Logout first if logged in
   if (freeboxApi.isLoggedIn()) {
     await freeboxApi.logout();
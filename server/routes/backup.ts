@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { configBackup } from '../services/configBackup.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import type { BackupArchive, BackupSectionId } from '../types/backup.js';
+
+const router = Router();
+
+const parseArchive = (input: unknown): BackupArchive => {
+  try {
+    return configBackup.parseArchive(input);
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_BACKUP');
+  }
+};
+
+// GET /api/backup/sections - Configuration areas included in a backup
+router.get('/sections', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: configBackup.getSections() });
+}));
+
+// GET /api/backup/export - Download the configuration of the current box as JSON
+router.get('/export', asyncHandler(async (_req, res) => {
+  const archive = await configBackup.createArchive();
+  const date = new Date(archive.createdAt).toISOString().slice(0, 10);
+  res.attachment(`freebox-backup-${archive.box.id}-${date}.json`).json(archive);
+}));
+
+// POST /api/backup/preview - Dry run { archive, sections? }: changes a restore would make
+router.post('/preview', asyncHandler(async (req, res) => {
+  const archive = parseArchive(req.body?.archive);
+  const sections = Array.isArray(req.body?.sections) ? req.body.sections as BackupSectionId[] : undefined;
+  res.json({ success: true, result: await configBackup.preview(archive, sections) });
+}));
+
+// POST /api/backup/restore - Apply the selected changes { archive, changes: [id] }
+router.post('/restore', asyncHandler(async (req, res) => {
+  const archive = parseArchive(req.body?.archive);
+  const changes = req.body?.changes;
+  if (!Array.isArray(changes) || changes.length === 0) {
+    throw createError('Aucune modification sélectionnée', 400, 'NO_CHANGES');
+  }
+  res.json({ success: true, result: await configBackup.restore(archive, changes.map(String)) });
+}));
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { boxProfiles } from '../services/boxProfiles.js';
+import { freeboxApis } from '../services/freeboxApi.js';
+import { modelDetections } from '../services/modelDetection.js';
+import { DEFAULT_BOX_ID } from '../services/boxContext.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireAdmin } from '../middleware/auth.js';
+import type { BoxProfile, BoxProfileStatus } from '../types/boxes.js';
+
+const router = Router();
+
+const withStatus = (box: BoxProfile): BoxProfileStatus => {
+  const api = freeboxApis.forBox(box.id);
+  return {
+    ...box,
+    isDefault: box.id === DEFAULT_BOX_ID,
+    isRegistered: api.isRegistered(),
+    isLoggedIn: api.isLoggedIn(),
+    modelName: modelDetections.forBox(box.id).getCapabilities()?.modelName ?? null
+  };
+};
+
+// GET /api/boxes - Freebox profiles with their registration / session state
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: boxProfiles.list().map(withStatus) });
+}));
+
+// POST /api/boxes - Add a Freebox profile (admin only, registration is done afterwards)
+router.post('/', requireAdmin, asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: withStatus(boxProfiles.create(req.body ?? {})) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_BOX');
+  }
+}));
+
+// PUT /api/boxes/:id - Rename a profile or change its URL (admin only)
+router.put('/:id', requireAdmin, asyncHandler(async (req, res) => {
+  let box;
+  try {
+    box = boxProfiles.update(req.params.id, req.body ?? {});
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_BOX');
+  }
+  if (!box) {
+    throw createError('Freebox introuvable', 404, 'BOX_NOT_FOUND');
+  }
+  freeboxApis.forBox(box.id).setBaseUrl(box.url);
+  res.json({ success: true, result: withStatus(box) });
+}));
+
+// DELETE /api/boxes/:id - Remove a profile, its token and its reboot schedule (admin only)
+router.delete('/:id', requireAdmin, asyncHandler(async (req, res) => {
+  let deleted;
+  try {
+    deleted = boxProfiles.delete(req.params.id);
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_BOX');
+  }
+  if (!deleted) {
+    throw createError('Freebox introuvable', 404, 'BOX_NOT_FOUND');
+  }
+  res.json({ success: true });
+}));
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { configHistory } from '../services/configHistory.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/config-history/status - Snapshot settings, last check and tracked sections
+router.get('/status', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: configHistory.getStatus() });
+}));
+
+// GET /api/config-history/events - Detected changes, newest first (?limit=)
+router.get('/events', asyncHandler(async (req, res) => {
+  const limit = req.query.limit ? parseInt(String(req.query.limit), 10) || undefined : undefined;
+  res.json({ success: true, result: configHistory.getEvents(limit) });
+}));
+
+// GET /api/config-history/snapshots - Kept snapshots (without their data), newest first
+router.get('/snapshots', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: configHistory.getSnapshots() });
+}));
+
+// GET /api/config-history/diff?from=&to= - Changes between two snapshots
+router.get('/diff', asyncHandler(async (req, res) => {
+  const changes = configHistory.diff(String(req.query.from ?? ''), String(req.query.to ?? ''));
+  if (!changes) {
+    throw createError('Instantané introuvable', 404, 'SNAPSHOT_NOT_FOUND');
+  }
+  res.json({ success: true, result: changes });
+}));
+
+// POST /api/config-history/check - Snapshot now, returns the change event (null when nothing changed)
+router.post('/check', asyncHandler(async (_req, res) => {
+  try {
+    res.json({ success: true, result: await configHistory.check('manual') });
+  } catch (error) {
+    throw createError((error as Error).message, 502, 'SNAPSHOT_FAILED');
+  }
+}));
+
+// POST /api/config-history/revert - Undo one detected change { eventId, changeId }
+router.post('/revert', asyncHandler(async (req, res) => {
+  const result = await configHistory.revert(String(req.body?.eventId ?? ''), String(req.body?.changeId ?? ''));
+  if (!result) {
+    throw createError('Changement introuvable', 404, 'CHANGE_NOT_FOUND');
+  }
+  res.json({ success: true, result });
+}));
+
+export default router;
@@ -1,9 +1,23 @@
 import { Router } from 'express';
 import { freeboxApi } from '../services/freeboxApi.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
+import type { FreeboxApiResponse } from '../services/freeboxApi.js';
+import type { RrdData } from '../../shared/freebox/index.js';
 
 const router = Router();
 
+// Log for debugging the RRD fields returned by each model
+const logRrd = (label: string, result: FreeboxApiResponse<RrdData>) => {
+  const points = result.result?.data ?? [];
+  if (result.success && points.length > 0) {
+    console.log(`[RRD] ${label} - points:`, points.length);
+    console.log(`[RRD] ${label} - sample keys:`, Object.keys(points[0]));
+    console.log(`[RRD] ${label} - sample values:`, JSON.stringify(points[0]));
+  } else {
+    console.log(`[RRD] ${label} failed or empty:`, result.success, result.msg || result.error_code);
+  }
+};
+
 // GET /api/connection - Get connection status
 router.get('/', asyncHandler(async (_req, res) => {
   const result = await freeboxApi.getConnectionStatus();
@@ -30,18 +44,7 @@ router.get('/history', asyncHandler(async (req, res) => {
 
   // Request all net fields - the API will return rate_down, rate_up, bw_down, bw_up
   const result = await freeboxApi.getRrdData('net', dateStart, dateEnd);
-
-  // Log for debugging
-  const rrdResult = result.result as { data?: unknown[] } | undefined;
-  if (result.success && rrdResult?.data && rrdResult.data.length > 0) {
-    const sample = rrdResult.data[0] as Record<string, unknown>;
-    console.log('[RRD] Net history - points:', rrdResult.data.length);
-    console.log('[RRD] Net history - sample keys:', Object.keys(sample));
-    console.log('[RRD] Net history - sample values:', JSON.stringify(sample));
-  } else {
-    console.log('[RRD] Net history failed or empty:', result.success, result.msg || (result as Record<string, unknown>).error_code);
-  }
-
+  logRrd('Net history', result);
   res.json(result);
 }));
 
@@ -52,18 +55,7 @@ router.get('/temp-history', asyncHandler(async (req, res) => {
   const dateEnd = end ? parseInt(end as string, 10) : undefined;
 
   const result = await freeboxApi.getRrdData('temp', dateStart, dateEnd);
-
-  // Log for debugging temperature fields by model
-  const rrdResult = result.result as { data?: unknown[] } | undefined;
-  if (result.success && rrdResult?.data && rrdResult.data.length > 0) {
-    const sample = rrdResult.data[0] as Record<string, unknown>;
-    console.log('[RRD] Temp history - points:', rrdResult.data.length);
-    console.log('[RRD] Temp history - sample keys:', Object.keys(sample));
-    console.log('[RRD] Temp history - sample values:', JSON.stringify(sample));
-  } else {
-    console.log('[RRD] Temp history failed or empty:', result.success, result.msg || (result as Record<string, unknown>).error_code);
-  }
-
+  logRrd('Temp history', result);
   res.json(result);
 }));
 
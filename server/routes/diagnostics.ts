@@ -0,0 +1,113 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  diagnostics,
+  validateHost,
+  validateDnsName,
+  validatePorts,
+  DIAGNOSTIC_LIMITS,
+  DNS_RECORD_TYPES
+} from '../services/diagnostics.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import type { DnsRecordType } from '../types/diagnostics.js';
+
+const router = Router();
+
+type DiagnosticJob = (onProgress: (snapshot: unknown) => void, signal: AbortSignal) => Promise<unknown>;
+
+// Bounded integer option
+const intOption = (value: unknown, fallback: number, max: number): number => {
+  const parsed = parseInt(String(value ?? fallback), 10);
+  return Math.min(Math.max(Number.isNaN(parsed) ? fallback : parsed, 1), max);
+};
+
+// Input validation errors become 400 responses before anything is streamed
+const validate = <T>(check: () => T, code: string): T => {
+  try {
+    return check();
+  } catch (error) {
+    throw createError((error as Error).message, 400, code);
+  }
+};
+
+/**
+ * Stream a diagnostic as newline-delimited JSON:
+ * { type: 'progress', data } while it runs, then { type: 'result', data } or { type: 'error', error }
+ */
+const streamJob = async (req: Request, res: Response, job: DiagnosticJob) => {
+  const controller = new AbortController();
+  // Browser gone (panel closed, new run): kill the running commands
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  res.status(200).set({
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event: object) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const result = await job((snapshot) => send({ type: 'progress', data: snapshot }), controller.signal);
+    send({ type: 'result', data: result });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`[Diagnostics] ${req.path} failed:`, (error as Error).message);
+    }
+    send({ type: 'error', error: { code: 'DIAGNOSTIC_FAILED', message: (error as Error).message } });
+  }
+  res.end();
+};
+
+// GET /api/diagnostics/resolvers - DNS resolvers compared by the lookup
+router.get('/resolvers', asyncHandler(async (_req, res) => {
+  res.json({
+    success: true,
+    result: { resolvers: await diagnostics.getResolvers(), types: DNS_RECORD_TYPES, limits: DIAGNOSTIC_LIMITS }
+  });
+}));
+
+// POST /api/diagnostics/ping - ICMP echo { host, count }
+router.post('/ping', asyncHandler(async (req, res) => {
+  const host = validate(() => validateHost(req.body?.host), 'INVALID_HOST');
+  const count = intOption(req.body?.count, 10, DIAGNOSTIC_LIMITS.maxPingCount);
+  await streamJob(req, res, (onProgress, signal) => diagnostics.ping(host, count, onProgress, { signal }));
+}));
+
+// POST /api/diagnostics/traceroute - Route discovery { host, maxHops }
+router.post('/traceroute', asyncHandler(async (req, res) => {
+  const host = validate(() => validateHost(req.body?.host), 'INVALID_HOST');
+  const maxHops = intOption(req.body?.maxHops, DIAGNOSTIC_LIMITS.maxHops, DIAGNOSTIC_LIMITS.maxHops);
+  await streamJob(req, res, (onProgress, signal) => diagnostics.traceroute(host, maxHops, onProgress, { signal }));
+}));
+
+// POST /api/diagnostics/mtr - Per-hop loss and latency { host, maxHops, rounds }
+router.post('/mtr', asyncHandler(async (req, res) => {
+  const host = validate(() => validateHost(req.body?.host), 'INVALID_HOST');
+  const maxHops = intOption(req.body?.maxHops, DIAGNOSTIC_LIMITS.maxHops, DIAGNOSTIC_LIMITS.maxHops);
+  const rounds = intOption(req.body?.rounds, 5, DIAGNOSTIC_LIMITS.maxRounds);
+  await streamJob(req, res, (onProgress, signal) => diagnostics.mtr(host, maxHops, rounds, onProgress, { signal }));
+}));
+
+// POST /api/diagnostics/dns - Lookup against the Freebox and public resolvers { name, type }
+router.post('/dns', asyncHandler(async (req, res) => {
+  const type = String(req.body?.type ?? 'A').toUpperCase() as DnsRecordType;
+  if (!DNS_RECORD_TYPES.includes(type)) {
+    throw createError(`Type d'enregistrement non supporté : ${type}`, 400, 'INVALID_RECORD_TYPE');
+  }
+  const name = validate(() => validateDnsName(req.body?.name, type), 'INVALID_NAME');
+  await streamJob(req, res, (onProgress) => diagnostics.dns(name, type, onProgress));
+}));
+
+// POST /api/diagnostics/ports - TCP / UDP reachability { host, ports: [{ port, protocol }] }
+router.post('/ports', asyncHandler(async (req, res) => {
+  const host = validate(() => validateHost(req.body?.host), 'INVALID_HOST');
+  const ports = validate(() => validatePorts(req.body?.ports), 'INVALID_PORTS');
+  await streamJob(req, res, (onProgress, signal) => diagnostics.ports(host, ports, onProgress, { signal }));
+}));
+
+export default router;
@@ -1,26 +1,34 @@
-import { Router } from 'express';
-import { freeboxApi } from '../services/freeboxApi.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import express, { Router } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { freeboxApi, type FreeboxApiResponse } from '../services/freeboxApi.js';
+import { fileUploads } from '../services/fileUploads.js';
+import { fileDownloads } from '../services/fileDownloads.js';
+import { fileTasks } from '../services/fileTasks.js';
+import { fileIndex } from '../services/fileIndex.js';
+import { currentBoxId } from '../services/boxContext.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { config } from '../config.js';
+import { UPLOAD_CONFLICT_MODES, type UploadConflictMode } from '../types/uploads.js';
+import type { FileSearchQuery } from '../types/fileIndex.js';
 
 const router = Router();
 
+const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+const parentOf = (path: string): string => path.replace(/\/[^/]*$/, '') || '/';
+
+// Folders changed through the dashboard are listed again by the file index before the next search
+const markChanged = (result: FreeboxApiResponse, folders: () => string[]) => {
+  if (result.success) fileIndex.markChanged(folders());
+};
+
 // GET /api/fs/list - List files in directory
 router.get('/list', asyncHandler(async (req, res) => {
   // If no path provided, list root directory
   // If path provided, it's already base64 encoded from Freebox API
   const path = req.query.path ? decodeURIComponent(req.query.path as string) : '/';
-  const result = await freeboxApi.listFiles(path);
-
-  // API v15+ returns an object with pagination instead of an array
-  // Normalize the response to always return an array for backward compatibility
-  if (result.success && result.result) {
-    const data = result.result as { entries?: unknown[]; [key: string]: unknown } | unknown[];
-    // If it's an object with 'entries' property (v15+ format), extract the array
-    if (data && typeof data === 'object' && !Array.isArray(data) && 'entries' in data) {
-      result.result = data.entries;
-    }
-  }
-
+  const result = await freeboxApi.listFiles(path, { dotEntries: true });
   res.json(result);
 }));
 
@@ -41,6 +49,7 @@ router.post('/mkdir', asyncHandler(async (req, res) => {
   // parent may be URL-encoded, decode it
   const decodedParent = parent ? decodeURIComponent(parent) : parent;
   const result = await freeboxApi.createDirectory(decodedParent, dirname);
+  markChanged(result, () => [!decodedParent || decodedParent === '/' ? '/' : decodePath(decodedParent)]);
   res.json(result);
 }));
 
@@ -51,6 +60,7 @@ router.post('/rename', asyncHandler(async (req, res) => {
   const decodedSrc = src ? decodeURIComponent(src) : src;
   const decodedDst = dst ? decodeURIComponent(dst) : dst;
   const result = await freeboxApi.renameFile(decodedSrc, decodedDst);
+  markChanged(result, () => [parentOf(decodePath(decodedSrc))]);
   res.json(result);
 }));
 
@@ -60,6 +70,7 @@ router.post('/remove', asyncHandler(async (req, res) => {
   // Decode URL-encoded file paths
   const decodedFiles = files ? files.map((f: string) => decodeURIComponent(f)) : files;
   const result = await freeboxApi.removeFiles(decodedFiles);
+  markChanged(result, () => decodedFiles.map((f: string) => parentOf(decodePath(f))));
   res.json(result);
 }));
 
@@ -70,6 +81,7 @@ router.post('/copy', asyncHandler(async (req, res) => {
   const decodedFiles = files ? files.map((f: string) => decodeURIComponent(f)) : files;
   const decodedDst = dst ? decodeURIComponent(dst) : dst;
   const result = await freeboxApi.copyFiles(decodedFiles, decodedDst, mode);
+  markChanged(result, () => [decodePath(decodedDst)]);
   res.json(result);
 }));
 
@@ -80,6 +92,7 @@ router.post('/move', asyncHandler(async (req, res) => {
   const decodedFiles = files ? files.map((f: string) => decodeURIComponent(f)) : files;
   const decodedDst = dst ? decodeURIComponent(dst) : dst;
   const result = await freeboxApi.moveFiles(decodedFiles, decodedDst, mode);
+  markChanged(result, () => [...decodedFiles.map((f: string) => parentOf(decodePath(f))), decodePath(decodedDst)]);
   res.json(result);
 }));
 
@@ -95,6 +108,237 @@ router.get('/disks', asyncHandler(async (_req, res) => {
   res.json(result);
 }));
 
+// ==================== TASKS ====================
+
+const taskId = (value: string): number => {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id < 0) {
+    throw createError('Tâche invalide', 400, 'INVALID_TASK');
+  }
+  return id;
+};
+
+// GET /api/fs/tasks - Background operations of the Freebox, finished ones included
+router.get('/tasks', asyncHandler(async (_req, res) => {
+  res.json(await fileTasks.list());
+}));
+
+// DELETE /api/fs/tasks - Remove the finished (done or failed) tasks
+router.delete('/tasks', asyncHandler(async (_req, res) => {
+  const removed = await fileTasks.clearFinished();
+  res.json({ success: true, result: { removed } });
+}));
+
+// PUT /api/fs/tasks/:id - Pause or resume a task { state: paused | running }
+router.put('/tasks/:id', asyncHandler(async (req, res) => {
+  const id = taskId(req.params.id);
+  const { state } = req.body ?? {};
+  if (state !== 'paused' && state !== 'running') {
+    throw createError('État invalide', 400, 'INVALID_TASK_STATE');
+  }
+  res.json(await fileTasks.setState(id, state));
+}));
+
+// DELETE /api/fs/tasks/:id - Cancel a running task, or remove a finished one
+router.delete('/tasks/:id', asyncHandler(async (req, res) => {
+  res.json(await fileTasks.cancel(taskId(req.params.id)));
+}));
+
+// POST /api/fs/archive - Create an archive { files, dirname (base64), name: "photos.zip" }
+router.post('/archive', asyncHandler(async (req, res) => {
+  const { files, dirname, name } = req.body ?? {};
+  if (!Array.isArray(files) || files.length === 0 || files.some(f => typeof f !== 'string')) {
+    throw createError('Aucun fichier à archiver', 400, 'INVALID_ARCHIVE');
+  }
+  if (typeof dirname !== 'string' || !dirname) {
+    throw createError('Dossier de destination requis', 400, 'INVALID_ARCHIVE');
+  }
+  if (typeof name !== 'string' || !name.trim() || name.includes('/')) {
+    throw createError('Nom d\'archive invalide', 400, 'INVALID_ARCHIVE');
+  }
+  const result = await fileTasks.archive(files.map((f: string) => decodeURIComponent(f)), decodeURIComponent(dirname), name.trim());
+  markChanged(result, () => [decodePath(decodeURIComponent(dirname))]);
+  res.json(result);
+}));
+
+// POST /api/fs/extract - Extract an archive { src, dst (folder), password?, delete_archive?, overwrite? }
+router.post('/extract', asyncHandler(async (req, res) => {
+  const { src, dst, password, delete_archive, overwrite } = req.body ?? {};
+  if (typeof src !== 'string' || !src || typeof dst !== 'string' || !dst) {
+    throw createError('Archive et destination requises', 400, 'INVALID_EXTRACT');
+  }
+  const result = await fileTasks.extract(decodeURIComponent(src), decodeURIComponent(dst), {
+    password: typeof password === 'string' ? password : undefined,
+    deleteArchive: delete_archive === true,
+    overwrite: overwrite === true
+  });
+  markChanged(result, () => [decodePath(decodeURIComponent(dst)), parentOf(decodePath(decodeURIComponent(src)))]);
+  res.json(result);
+}));
+
+// ==================== INDEX ====================
+
+const MAX_SEARCH_RESULTS = 1000;
+
+const searchText = (value: unknown, name: string): string | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw createError(`Paramètre ${name} invalide`, 400, 'INVALID_SEARCH');
+  }
+  return value;
+};
+
+const searchNumber = (value: unknown, name: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (typeof value !== 'string' || !Number.isFinite(number) || number < 0) {
+    throw createError(`Paramètre ${name} invalide`, 400, 'INVALID_SEARCH');
+  }
+  return number;
+};
+
+// GET /api/fs/index - Status of the local index of the storage
+router.get('/index', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: fileIndex.getStatus() });
+}));
+
+// POST /api/fs/index/refresh - Walk the storage again in the background { path? (base64 folder) }
+router.post('/index/refresh', asyncHandler(async (req, res) => {
+  const { path } = req.body ?? {};
+  if (path !== undefined && (typeof path !== 'string' || !path)) {
+    throw createError('Dossier invalide', 400, 'INVALID_PATH');
+  }
+  // Failures show up in the status (lastError)
+  fileIndex.refresh(path ? decodePath(decodeURIComponent(path)) : '/').catch(() => undefined);
+  res.json({ success: true, result: fileIndex.getStatus() });
+}));
+
+// GET /api/fs/search - Search the whole storage
+// ?q=words&ext=jpg,png&type=file|dir&min_size=&max_size=&from=&to= (unix seconds)&path= (base64 folder)&limit=
+router.get('/search', asyncHandler(async (req, res) => {
+  const ext = searchText(req.query.ext, 'ext');
+  const path = searchText(req.query.path, 'path');
+  const type = searchText(req.query.type, 'type');
+  if (type !== undefined && type !== 'file' && type !== 'dir') {
+    throw createError('Paramètre type invalide', 400, 'INVALID_SEARCH');
+  }
+  const query: FileSearchQuery = {
+    q: searchText(req.query.q, 'q'),
+    ext: ext ? ext.split(',').map(e => e.trim()).filter(Boolean) : undefined,
+    type: type as FileSearchQuery['type'],
+    minSize: searchNumber(req.query.min_size, 'min_size'),
+    maxSize: searchNumber(req.query.max_size, 'max_size'),
+    from: searchNumber(req.query.from, 'from'),
+    to: searchNumber(req.query.to, 'to'),
+    path: path ? decodePath(path) : undefined,
+    limit: Math.min(searchNumber(req.query.limit, 'limit') || 200, MAX_SEARCH_RESULTS)
+  };
+  res.json({ success: true, result: await fileIndex.search(query) });
+}));
+
+// GET /api/fs/duplicates - Last duplicate report
+router.get('/duplicates', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: await fileIndex.getDuplicates() });
+}));
+
+// POST /api/fs/duplicates - Start a duplicate scan { path? (base64 folder), min_size? (bytes) }
+router.post('/duplicates', asyncHandler(async (req, res) => {
+  const { path, min_size } = req.body ?? {};
+  if (path !== undefined && (typeof path !== 'string' || !path)) {
+    throw createError('Dossier invalide', 400, 'INVALID_PATH');
+  }
+  if (min_size !== undefined && (typeof min_size !== 'number' || !Number.isFinite(min_size) || min_size < 0)) {
+    throw createError('Taille minimale invalide', 400, 'INVALID_SEARCH');
+  }
+  const report = fileIndex.scanDuplicates({
+    path: path ? decodePath(decodeURIComponent(path)) : undefined,
+    minSize: min_size
+  });
+  res.json({ success: true, result: report });
+}));
+
+// ==================== DOWNLOADS ====================
+
+// Headers of the Freebox /dl/ response passed to the browser
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+// Shown by the browser from the dashboard origin: HTML, SVG, XML... could run
+// scripts with the session of whoever opens the link, they are downloaded instead
+const INLINE_TYPES = /^(image\/(png|jpeg|gif|webp|avif|bmp)|audio\/[\w.+-]+|video\/[\w.+-]+|application\/pdf)$/;
+
+// Content type of a file opened in the browser, null to force a download
+const inlineType = (contentType: string | null): string | null => {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  if (INLINE_TYPES.test(type)) return type;
+  // Text is displayed, never rendered
+  if (type.startsWith('text/') || type === 'application/json') return 'text/plain; charset=utf-8';
+  return null;
+};
+
+// RFC 6266 filename, with an ASCII fallback for old clients
+const contentDisposition = (type: 'inline' | 'attachment', name: string): string => {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+};
+
+// GET /api/fs/download?path=<base64>[&path=...][&inline=1] - Download a file (Range supported),
+// a folder or several paths are sent as a zip built on the fly
+router.get('/download', asyncHandler(async (req, res) => {
+  const paths = ([] as unknown[]).concat(req.query.path ?? [])
+    .filter((p): p is string => typeof p === 'string' && p !== '')
+    .map(p => decodeURIComponent(p));
+  if (paths.length === 0) {
+    throw createError('Chemin requis', 400, 'MISSING_PATH');
+  }
+
+  // Whatever the Freebox says the file is, the browser neither guesses its type nor runs it as a page
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', 'sandbox');
+
+  // Stop reading from the Freebox when the browser goes away
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  const info = paths.length === 1 ? await freeboxApi.getFileInfo(paths[0]) : null;
+  if (info && (!info.success || !info.result)) {
+    throw createError('Fichier introuvable', 404, 'FILE_NOT_FOUND');
+  }
+
+  if (info?.result?.type === 'file') {
+    const upstream = await freeboxApi.openDownload(paths[0], { range: req.header('Range'), signal: controller.signal });
+    if (upstream.status === 416) {
+      res.status(416).setHeader('Content-Range', upstream.headers.get('content-range') ?? `bytes */${info.result.size}`);
+      return res.end();
+    }
+    if (!upstream.ok || !upstream.body) {
+      throw createError(`La Freebox a refusé la lecture du fichier (HTTP ${upstream.status})`, 502, 'DOWNLOAD_FAILED');
+    }
+
+    res.status(upstream.status);
+    for (const header of FORWARDED_HEADERS) {
+      const value = upstream.headers.get(header);
+      if (value) res.setHeader(header, value);
+    }
+    const type = req.query.inline ? inlineType(upstream.headers.get('content-type')) : null;
+    if (type) res.setHeader('Content-Type', type);
+    // Chromium's PDF viewer doesn't load in a sandboxed document, it runs PDF scripts apart from the page
+    if (type === 'application/pdf') res.removeHeader('Content-Security-Policy');
+    res.setHeader('Content-Disposition', contentDisposition(type ? 'inline' : 'attachment', info.result.name));
+    await pipeline(Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>), res).catch(error => {
+      if (!controller.signal.aborted) console.error(`[Downloads] ${info.result?.name} interrupted:`, error.message);
+    });
+    return;
+  }
+
+  const archive = await fileDownloads.createArchive(currentBoxId(), paths, controller.signal);
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', contentDisposition('attachment', archive.name));
+  // The size is only known at the end: chunked response
+  await pipeline(archive.stream, res).catch(() => {
+    // Already logged by the archive, the browser sees an interrupted download
+  });
+}));
+
 // ==================== FILE SHARING ====================
 
 // GET /api/fs/share - Get all share links
@@ -126,4 +370,64 @@ router.delete('/share/:token', asyncHandler(async (req, res) => {
   res.json(result);
 }));
 
+// ==================== UPLOADS ====================
+
+// POST /api/fs/upload - Start an upload { dirname (base64), name, size, conflict?: overwrite | skip | rename }
+// Without conflict, an existing file is answered with 409 FILE_EXISTS
+router.post('/upload', asyncHandler(async (req, res) => {
+  const { dirname, name, size, conflict } = req.body ?? {};
+  if (typeof dirname !== 'string' || !dirname) {
+    throw createError('Dossier de destination requis', 400, 'INVALID_UPLOAD');
+  }
+  if (typeof name !== 'string' || !name.trim() || name.includes('/') || name === '.' || name === '..') {
+    throw createError('Nom de fichier invalide', 400, 'INVALID_UPLOAD');
+  }
+  if (!Number.isSafeInteger(size) || size < 0) {
+    throw createError('Taille de fichier invalide', 400, 'INVALID_UPLOAD');
+  }
+  if (conflict !== undefined && !UPLOAD_CONFLICT_MODES.includes(conflict)) {
+    throw createError('Mode de conflit invalide', 400, 'INVALID_UPLOAD');
+  }
+
+  const session = await fileUploads.create(currentBoxId(), req.user?.username ?? null, {
+    dirname: decodeURIComponent(dirname),
+    name: name.trim(),
+    size,
+    conflict: conflict as UploadConflictMode | undefined
+  });
+  res.json({ success: true, result: session });
+}));
+
+// GET /api/fs/upload/:id - Upload state (received is the offset to resume from)
+router.get('/upload/:id', asyncHandler(async (req, res) => {
+  const session = fileUploads.get(req.params.id, req.user?.username ?? null);
+  if (!session) {
+    throw createError('Envoi introuvable', 404, 'UPLOAD_NOT_FOUND');
+  }
+  res.json({ success: true, result: session });
+}));
+
+// PUT /api/fs/upload/:id?offset=N - Next chunk of the file (raw body)
+router.put('/upload/:id', express.raw({ type: () => true, limit: config.uploads.maxChunkSize }), asyncHandler(async (req, res) => {
+  const offset = Number(req.query.offset);
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw createError('Position invalide', 400, 'INVALID_OFFSET');
+  }
+  const chunk = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (chunk.length === 0) {
+    throw createError('Morceau vide', 400, 'EMPTY_CHUNK');
+  }
+  const session = await fileUploads.append(req.params.id, req.user?.username ?? null, offset, chunk);
+  res.json({ success: true, result: session });
+}));
+
+// DELETE /api/fs/upload/:id - Cancel an upload (the partial file is removed)
+router.delete('/upload/:id', asyncHandler(async (req, res) => {
+  const session = await fileUploads.cancel(req.params.id, req.user?.username ?? null);
+  if (!session) {
+    throw createError('Envoi introuvable', 404, 'UPLOAD_NOT_FOUND');
+  }
+  res.json({ success: true, result: session });
+}));
+
 export default router;
\ No newline at end of file
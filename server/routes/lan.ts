@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { freeboxApi } from '../services/freeboxApi.js';
+import { getLanDevices } from '../services/dashboardData.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 
 const router = Router();
@@ -18,32 +19,7 @@ router.get('/interfaces', asyncHandler(async (_req, res) => {
 
 // GET /api/lan/devices - Get all devices on all interfaces
 router.get('/devices', asyncHandler(async (_req, res) => {
-  // First get interfaces
-  const interfaces = await freeboxApi.getLanBrowserInterfaces();
-
-  if (!interfaces.success || !Array.isArray(interfaces.result)) {
-    res.json(interfaces);
-    return;
-  }
-
-  // Then get hosts for each interface
-  const allDevices: unknown[] = [];
-  for (const iface of interfaces.result) {
-    const hosts = await freeboxApi.getLanHosts(iface.name);
-    if (hosts.success && Array.isArray(hosts.result)) {
-      for (const host of hosts.result) {
-        allDevices.push({
-          ...host,
-          interface: iface.name
-        });
-      }
-    }
-  }
-
-  res.json({
-    success: true,
-    result: allDevices
-  });
+  res.json(await getLanDevices());
 }));
 
 // GET /api/lan/devices/:interface - Get devices on specific interface
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { metricsStore } from '../services/metricsStore.js';
+import { metricsCollector } from '../services/metricsCollector.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import type { MetricsAggregate } from '../types/metrics.js';
+
+const router = Router();
+
+const AGGREGATES: MetricsAggregate[] = ['avg', 'min', 'max'];
+
+// GET /api/metrics - Collector status, storage tiers and known metric names
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({
+    success: true,
+    result: {
+      running: metricsCollector.isRunning(),
+      tiers: metricsStore.getTiers(),
+      metrics: metricsStore.listMetrics(),
+      lastSample: metricsCollector.getLastSample()
+    }
+  });
+}));
+
+// GET /api/metrics/query - Time series for a range
+// ?metrics=rate_down,rate_up,temp_*&start=<unix s>&end=<unix s>&step=<s>&aggregate=avg|min|max
+router.get('/query', asyncHandler(async (req, res) => {
+  const metrics = String(req.query.metrics || '')
+    .split(',')
+    .map(m => m.trim())
+    .filter(Boolean);
+  if (metrics.length === 0) {
+    throw createError('Paramètre "metrics" requis', 400, 'INVALID_QUERY');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const end = req.query.end ? parseInt(String(req.query.end), 10) : now;
+  const start = req.query.start ? parseInt(String(req.query.start), 10) : end - 3600;
+  const step = req.query.step ? parseInt(String(req.query.step), 10) : undefined;
+  const aggregate = (req.query.aggregate as MetricsAggregate) || 'avg';
+
+  if (isNaN(start) || isNaN(end) || start >= end) {
+    throw createError('Intervalle de temps invalide', 400, 'INVALID_QUERY');
+  }
+  if (step !== undefined && (isNaN(step) || step <= 0)) {
+    throw createError('Paramètre "step" invalide', 400, 'INVALID_QUERY');
+  }
+  if (!AGGREGATES.includes(aggregate)) {
+    throw createError('Paramètre "aggregate" invalide (avg, min, max)', 400, 'INVALID_QUERY');
+  }
+
+  res.json({
+    success: true,
+    result: metricsStore.query({ metrics, start, end, step, aggregate })
+  });
+}));
+
+// GET /api/metrics/uptime - Daily availability (replaces the per-browser history)
+router.get('/uptime', asyncHandler(async (req, res) => {
+  const days = Math.min(Math.max(parseInt(String(req.query.days || '30'), 10) || 30, 1), 365);
+  res.json({ success: true, result: metricsCollector.getUptimeHistory(days) });
+}));
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { mqttBridge } from '../services/mqttBridge.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/mqtt - Bridge status (configured through MQTT_* environment variables)
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: mqttBridge.getStatus() });
+}));
+
+export default router;
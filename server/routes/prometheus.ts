@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config.js';
+import { prometheusExporter, OPENMETRICS_CONTENT_TYPE } from '../services/prometheusExporter.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { selectBox } from '../middleware/box.js';
+
+const router = Router();
+
+// Constant-time comparison of the scrape token
+const isValidToken = (header: string | undefined): boolean => {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const expected = Buffer.from(config.prometheus.token);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Scrapers cannot hold a dashboard session: access uses PROMETHEUS_TOKEN as bearer token
+const requireScrapeToken = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.prometheus.token) {
+    return next(createError('Exporter Prometheus désactivé (PROMETHEUS_TOKEN non défini)', 404, 'NOT_FOUND'));
+  }
+  if (!isValidToken(req.headers.authorization)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return next(createError('Jeton invalide', 401, 'UNAUTHENTICATED'));
+  }
+  next();
+};
+
+// GET /metrics - OpenMetrics exposition for Prometheus, of the Freebox picked by ?box= (default one otherwise)
+// The box is checked after the token: unknown ids are not revealed to anonymous callers
+router.get('/', requireScrapeToken, selectBox, asyncHandler(async (_req, res) => {
+  res.type(OPENMETRICS_CONTENT_TYPE).send(await prometheusExporter.render());
+}));
+
+export default router;
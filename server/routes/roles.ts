@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { dashboardAuth } from '../services/dashboardAuth.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/roles - List built-in and custom roles
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: dashboardAuth.listRoles() });
+}));
+
+// POST /api/roles - Create a custom role
+router.post('/', asyncHandler(async (req, res) => {
+  const { name, permissions } = req.body;
+  try {
+    const role = dashboardAuth.createRole(String(name || ''), permissions);
+    res.json({ success: true, result: role });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_ROLE');
+  }
+}));
+
+// PUT /api/roles/:id - Update a custom role (built-in roles are read-only)
+router.put('/:id', asyncHandler(async (req, res) => {
+  const { name, permissions } = req.body;
+  const role = dashboardAuth.updateRole(req.params.id, { name, permissions });
+  if (!role) {
+    throw createError('Rôle introuvable ou non modifiable', 404, 'ROLE_NOT_FOUND');
+  }
+  res.json({ success: true, result: role });
+}));
+
+// DELETE /api/roles/:id - Delete a custom role
+router.delete('/:id', asyncHandler(async (req, res) => {
+  let deleted: boolean;
+  try {
+    deleted = dashboardAuth.deleteRole(req.params.id);
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'ROLE_IN_USE');
+  }
+  if (!deleted) {
+    throw createError('Rôle introuvable ou non modifiable', 404, 'ROLE_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'Role deleted' } });
+}));
+
+export default router;
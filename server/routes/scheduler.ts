@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { taskScheduler, ACTION_TYPES } from '../services/scheduler.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/scheduler/jobs - Scheduled jobs of the current box
+router.get('/jobs', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: taskScheduler.list() });
+}));
+
+// GET /api/scheduler/actions - Action types a job can run
+router.get('/actions', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: ACTION_TYPES });
+}));
+
+// GET /api/scheduler/runs - Run history, newest first (?jobId=)
+router.get('/runs', asyncHandler(async (req, res) => {
+  const jobId = req.query.jobId ? String(req.query.jobId) : undefined;
+  res.json({ success: true, result: taskScheduler.getRuns(jobId) });
+}));
+
+// POST /api/scheduler/jobs - Create a job { name, enabled, trigger, action, catchUp }
+router.post('/jobs', asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: taskScheduler.create(req.body ?? {}) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_JOB');
+  }
+}));
+
+// PUT /api/scheduler/jobs/:id - Update a job
+router.put('/jobs/:id', asyncHandler(async (req, res) => {
+  let job;
+  try {
+    job = taskScheduler.update(req.params.id, req.body ?? {});
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_JOB');
+  }
+  if (!job) {
+    throw createError('Tâche introuvable', 404, 'JOB_NOT_FOUND');
+  }
+  res.json({ success: true, result: job });
+}));
+
+// POST /api/scheduler/jobs/:id/run - Run a job now and return the run
+router.post('/jobs/:id/run', asyncHandler(async (req, res) => {
+  const run = await taskScheduler.runNow(req.params.id);
+  if (!run) {
+    throw createError('Tâche introuvable', 404, 'JOB_NOT_FOUND');
+  }
+  res.json({ success: true, result: run });
+}));
+
+// DELETE /api/scheduler/jobs/:id - Delete a job
+router.delete('/jobs/:id', asyncHandler(async (req, res) => {
+  if (!taskScheduler.delete(req.params.id)) {
+    throw createError('Tâche introuvable', 404, 'JOB_NOT_FOUND');
+  }
+  res.json({ success: true });
+}));
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { dashboardAuth } from '../services/dashboardAuth.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import {
+  getClientIp,
+  getRequestUser,
+  getSessionId,
+  setSessionCookie,
+  clearSessionCookie
+} from '../middleware/auth.js';
+
+// Dashboard session routes - these are public (mounted before requireAuth)
+const router = Router();
+
+// GET /api/session - Current dashboard session
+router.get('/', asyncHandler(async (req, res) => {
+  const user = getRequestUser(req);
+  res.json({
+    success: true,
+    result: {
+      needsSetup: dashboardAuth.needsSetup(),
+      authenticated: user !== null,
+      user
+    }
+  });
+}));
+
+// POST /api/session/setup - Create the first account (only while no user exists)
+router.post('/setup', asyncHandler(async (req, res) => {
+  if (!dashboardAuth.needsSetup()) {
+    throw createError('Le dashboard est déjà configuré', 409, 'ALREADY_CONFIGURED');
+  }
+
+  // The same values create the account and open its session
+  const username = String(req.body?.username ?? '');
+  const password = String(req.body?.password ?? '');
+  try {
+    // The first account is always an administrator
+    dashboardAuth.createUser(username, password, 'admin');
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_CREDENTIALS');
+  }
+
+  const login = dashboardAuth.login(username, password, getClientIp(req));
+  if (!login) {
+    throw createError('Échec de la connexion', 500, 'LOGIN_FAILED');
+  }
+
+  setSessionCookie(req, res, login.session.id);
+  res.json({ success: true, result: { user: dashboardAuth.getSessionUser(login.session.id) } });
+}));
+
+// POST /api/session/login - Open a dashboard session
+router.post('/login', asyncHandler(async (req, res) => {
+  const ip = getClientIp(req);
+  if (dashboardAuth.isLockedOut(ip)) {
+    throw createError('Trop de tentatives, réessayez dans quelques minutes', 429, 'TOO_MANY_ATTEMPTS');
+  }
+
+  const { username, password } = req.body;
+  if (!username || !password) {
+    throw createError('Identifiant et mot de passe requis', 400, 'MISSING_CREDENTIALS');
+  }
+
+  const login = dashboardAuth.login(String(username), String(password), ip);
+  if (!login) {
+    throw createError('Identifiant ou mot de passe incorrect', 401, 'INVALID_CREDENTIALS');
+  }
+
+  setSessionCookie(req, res, login.session.id);
+  res.json({ success: true, result: { user: dashboardAuth.getSessionUser(login.session.id) } });
+}));
+
+// POST /api/session/logout - Close the dashboard session
+router.post('/logout', asyncHandler(async (req, res) => {
+  const sessionId = getSessionId(req);
+  if (sessionId) {
+    dashboardAuth.logout(sessionId);
+  }
+  clearSessionCookie(res);
+  res.json({ success: true, result: { message: 'Logged out' } });
+}));
+
+export default router;
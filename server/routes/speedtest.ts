@@ -1,14 +1,42 @@
 import { Router } from 'express';
-import { asyncHandler } from '../middleware/errorHandler.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { freeboxApi } from '../services/freeboxApi.js';
+import { speedtestEngine } from '../services/speedtest.js';
+import { speedtestScheduler } from '../services/speedtestScheduler.js';
+import { diagnostics, validateHost } from '../services/diagnostics.js';
+import type { SpeedtestHistoryEntry } from '../types/speedtest.js';
 
-const execAsync = promisify(exec);
 const router = Router();
 
-const isWindows = process.platform === 'win32';
-const PING_FLAG = isWindows ? '-n' : '-c';
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const CSV_COLUMNS: (keyof SpeedtestHistoryEntry)[] = [
+  'startedAt', 'trigger', 'status', 'targetName', 'streams', 'download', 'upload',
+  'downloadPeak', 'uploadPeak', 'latency', 'jitter', 'loadedLatency', 'error'
+];
+
+const csvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",;\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (entries: SpeedtestHistoryEntry[]): string => [
+  CSV_COLUMNS.join(','),
+  ...entries.map(e => CSV_COLUMNS.map(c => csvValue(c === 'startedAt' ? new Date(e.startedAt).toISOString() : e[c])).join(','))
+].join('\n');
+
+// Current month when the query has none
+const parseMonth = (value: unknown): string => {
+  if (value === undefined || value === '') {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  }
+  if (typeof value !== 'string' || !MONTH_PATTERN.test(value)) {
+    throw createError('Mois invalide (format AAAA-MM attendu)', 400, 'INVALID_MONTH');
+  }
+  return value;
+};
 
 interface PingResult {
   target: string;
@@ -17,111 +45,26 @@ interface PingResult {
   packetLoss: number;
 }
 
-interface ConnectionStatus {
-  rate_down: number;
-  rate_up: number;
-  bandwidth_down: number;
-  bandwidth_up: number;
-  state: string;
-  type: string;
-  media: string;
-}
-
-// Parse ping output to extract latency stats
-// Returns avg latency, jitter (mdev), and packet loss
-function parsePingOutput(output: string, times?: number[]): { avg: number; mdev: number; loss: number } {
-  try {
-    // Initialize variables
-    let avg = 0;
-    let mdev = 0;
-    let loss = 0;
-
-    if (!isWindows) {
-      // Parse packet loss (e.g., "0% packet loss")
-      const lossMatch = output.match(/(\d+(?:\.\d+)?)% packet loss/);
-      loss = lossMatch ? parseFloat(lossMatch[1]) : 0;
-
-      const rttMatch = output.match(/rtt min\/avg\/max\/mdev = ([\d.]+)\/([\d.]+)\/([\d.]+)\/([\d.]+)/);
-      const macMatch = output.match(/round-trip min\/avg\/max\/stddev = ([\d.]+)\/([\d.]+)\/([\d.]+)\/([\d.]+)/);
-
-      const match = rttMatch || macMatch;
-      if (match) {
-        avg = parseFloat(match[2]);
-        mdev = parseFloat(match[4]);
-      } else {
-        loss = loss === 0 && !output.includes('time=') ? 100 : loss;
-      }
-    }
-
-    // --- WINDOWS CASE ---
-    else {
-      const lossMatchWin = output.match(/\((\d+)%\s*(?:perte|loss)\)/i);
-      loss = lossMatchWin ? parseFloat(lossMatchWin[1]) : 0;
-
-      // Match average from Windows ping (French: "Moyenne", English: "Average")
-      const avgMatch = output.match(/(?:Moyenne|Average)\s*=\s*(\d+)ms/i);
-
-      if (avgMatch) {
-        avg = parseFloat(avgMatch[1]);
-      } else {
-        loss = 100;
-      }
-
-      // Windows doesn't provide jitter directly, so we calculate it from individual ping times
-      // Extract all "time=Xms" values and calculate standard deviation
-      if (times && times.length > 1) {
-        const mean = times.reduce((a, b) => a + b, 0) / times.length;
-        const squaredDiffs = times.map(t => Math.pow(t - mean, 2));
-        const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / squaredDiffs.length;
-        mdev = Math.sqrt(avgSquaredDiff);
-      } else {
-        // Try to extract individual times from output
-        const timeMatches = output.match(/(?:temps|time)[=<](\d+)ms/gi);
-        if (timeMatches && timeMatches.length > 1) {
-          const extractedTimes = timeMatches.map(m => {
-            const numMatch = m.match(/(\d+)/);
-            return numMatch ? parseFloat(numMatch[1]) : 0;
-          }).filter(t => t > 0);
-
-          if (extractedTimes.length > 1) {
-            const mean = extractedTimes.reduce((a, b) => a + b, 0) / extractedTimes.length;
-            const squaredDiffs = extractedTimes.map(t => Math.pow(t - mean, 2));
-            const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / squaredDiffs.length;
-            mdev = Math.sqrt(avgSquaredDiff);
-          }
-        }
-      }
-    }
-
-    return { avg, mdev, loss };
-
-  } catch {
-    return { avg: 0, mdev: 0, loss: 100 };
-  }
-}
-
 // GET /api/speedtest/ping - Run ping test to measure latency and jitter
 router.get('/ping', asyncHandler(async (req, res) => {
-  const target = (req.query.target as string) || '8.8.8.8'; // Google DNS as default
+  let target: string;
+  try {
+    target = validateHost(req.query.target || '8.8.8.8'); // Google DNS as default
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_HOST');
+  }
   const count = Math.min(parseInt(req.query.count as string) || 10, 20); // Max 20 pings
 
   try {
-    // Run ping command
-    const { stdout } = await execAsync(`ping ${PING_FLAG} ${count} ${target}`, {
-      timeout: 30000
-    });
-
-    const stats = parsePingOutput(stdout);
+    const stats = await diagnostics.ping(target, count);
 
     const result: PingResult = {
       target,
-      latency: Math.round(stats.avg * 100) / 100,
-      jitter: Math.round(stats.mdev * 100) / 100,
-      packetLoss: stats.loss
+      latency: stats.avg ?? 0,
+      jitter: stats.jitter ?? 0,
+      packetLoss: stats.packetLoss
     };
 
-    console.log('[Speedtest] Ping result:', result, 'raw stats:', stats);
-
     res.json({
       success: true,
       result
@@ -144,7 +87,7 @@ router.get('/bandwidth', asyncHandler(async (_req, res) => {
     const connectionResult = await freeboxApi.getConnectionStatus();
 
     if (connectionResult.success && connectionResult.result) {
-      const conn = connectionResult.result as ConnectionStatus;
+      const conn = connectionResult.result;
       res.json({
         success: true,
         result: {
@@ -181,109 +124,94 @@ router.get('/bandwidth', asyncHandler(async (_req, res) => {
   }
 }));
 
-// POST /api/speedtest/run - Run a full speedtest
+// GET /api/speedtest/targets - Servers the engine can test against
+router.get('/targets', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: speedtestEngine.getTargets() });
+}));
+
+// GET /api/speedtest/run - Running test, or the last one
+router.get('/run', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: speedtestEngine.getCurrentRun() });
+}));
+
+// POST /api/speedtest/run - Run a full speedtest (progress is pushed on the "speedtest" WebSocket topic)
 router.post('/run', asyncHandler(async (req, res) => {
-  const { pingTarget = '8.8.8.8', samples = 10 } = req.body;
+  const { targetId, streams, duration } = req.body ?? {};
 
-  try {
-    // Step 1: Ping test
-    let pingResult: PingResult = {
-      target: pingTarget,
-      latency: 0,
-      jitter: 0,
-      packetLoss: 0
-    };
+  if (speedtestEngine.isRunning()) {
+    throw createError('Un test de débit est déjà en cours', 409, 'SPEEDTEST_RUNNING');
+  }
+  if (targetId !== undefined && !speedtestEngine.getTargets().some(t => t.id === targetId)) {
+    throw createError(`Cible de test inconnue : ${targetId}`, 400, 'INVALID_TARGET');
+  }
 
-    try {
-      const { stdout } = await execAsync(`ping ${PING_FLAG} 10 ${pingTarget}`, { timeout: 15000 });
-      const stats = parsePingOutput(stdout);
-      pingResult = {
-        target: pingTarget,
-        latency: Math.round(stats.avg * 100) / 100,
-        jitter: Math.round(stats.mdev * 100) / 100,
-        packetLoss: stats.loss
-      };
-    } catch {
-      console.log('[Speedtest] Ping failed, continuing with bandwidth test');
-    }
+  const run = await speedtestEngine.run({
+    targetId,
+    streams: typeof streams === 'number' ? streams : undefined,
+    duration: typeof duration === 'number' ? duration : undefined
+  });
 
-    // Step 2: Collect bandwidth samples
-    const downloadSamples: number[] = [];
-    const uploadSamples: number[] = [];
-    let maxDownload = 0;
-    let maxUpload = 0;
+  if (run.status === 'failed') {
+    res.json({
+      success: false,
+      result: run,
+      error: {
+        code: 'test_failed',
+        message: run.error || 'Erreur lors du test de débit'
+      }
+    });
+    return;
+  }
+  res.json({ success: true, result: run });
+}));
 
-    const sampleCount = Math.min(samples, 15);
+// GET /api/speedtest/history?days=30 - Finished tests, oldest first
+router.get('/history', asyncHandler(async (req, res) => {
+  const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 3660);
+  res.json({ success: true, result: speedtestScheduler.getHistory(Date.now() - days * 24 * 60 * 60 * 1000) });
+}));
 
-    for (let i = 0; i < sampleCount; i++) {
-      const connectionResult = await freeboxApi.getConnectionStatus();
+// DELETE /api/speedtest/history - Forget every recorded test
+router.delete('/history', asyncHandler(async (_req, res) => {
+  speedtestScheduler.clearHistory();
+  res.json({ success: true });
+}));
 
-      if (connectionResult.success && connectionResult.result) {
-        const conn = connectionResult.result as ConnectionStatus;
-        const downloadGbps = (conn.rate_down * 8) / 1_000_000_000;
-        const uploadGbps = (conn.rate_up * 8) / 1_000_000_000;
+// GET /api/speedtest/schedule - Scheduled tests
+router.get('/schedule', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: speedtestScheduler.getSchedule() });
+}));
 
-        downloadSamples.push(downloadGbps);
-        uploadSamples.push(uploadGbps);
+// PUT /api/speedtest/schedule - Update scheduled tests { enabled, expressions, targetId }
+router.put('/schedule', asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: speedtestScheduler.updateSchedule(req.body ?? {}) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_SCHEDULE');
+  }
+}));
 
-        // Track maximums (max bandwidth)
-        if (conn.bandwidth_down / 1_000_000_000 > maxDownload) {
-          maxDownload = conn.bandwidth_down / 1_000_000_000;
-        }
-        if (conn.bandwidth_up / 1_000_000_000 > maxUpload) {
-          maxUpload = conn.bandwidth_up / 1_000_000_000;
-        }
-      }
+// GET /api/speedtest/report/months - Months with recorded tests
+router.get('/report/months', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: speedtestScheduler.getMonths() });
+}));
 
-      // Small delay between samples
-      if (i < sampleCount - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-    }
+// GET /api/speedtest/report?month=YYYY-MM - Measurements against the advertised speeds
+router.get('/report', asyncHandler(async (req, res) => {
+  const month = parseMonth(req.query.month);
+  res.json({ success: true, result: await speedtestScheduler.getReport(month) });
+}));
 
-    // Calculate averages and peaks
-    const avgDownload = downloadSamples.length > 0
-      ? downloadSamples.reduce((a, b) => a + b, 0) / downloadSamples.length
-      : 0;
-    const avgUpload = uploadSamples.length > 0
-      ? uploadSamples.reduce((a, b) => a + b, 0) / uploadSamples.length
-      : 0;
-    const peakDownload = downloadSamples.length > 0
-      ? Math.max(...downloadSamples)
-      : 0;
-    const peakUpload = uploadSamples.length > 0
-      ? Math.max(...uploadSamples)
-      : 0;
+// GET /api/speedtest/report/export?month=YYYY-MM&format=csv|json - Measurements of the month as a file
+router.get('/report/export', asyncHandler(async (req, res) => {
+  const month = parseMonth(req.query.month);
+  const entries = speedtestScheduler.getMonthHistory(month);
 
-    res.json({
-      success: true,
-      result: {
-        timestamp: Date.now(),
-        ping: pingResult,
-        download: {
-          average: Math.round(avgDownload * 1000) / 1000,
-          peak: Math.round(peakDownload * 1000) / 1000,
-          max: Math.round(maxDownload * 100) / 100,
-          samples: downloadSamples.map(v => Math.round(v * 1000) / 1000)
-        },
-        upload: {
-          average: Math.round(avgUpload * 1000) / 1000,
-          peak: Math.round(peakUpload * 1000) / 1000,
-          max: Math.round(maxUpload * 100) / 100,
-          samples: uploadSamples.map(v => Math.round(v * 1000) / 1000)
-        }
-      }
-    });
-  } catch (error) {
-    console.error('[Speedtest] Test failed:', error);
-    res.json({
-      success: false,
-      error: {
-        code: 'test_failed',
-        message: 'Erreur lors du test de débit'
-      }
-    });
+  if (req.query.format === 'json') {
+    res.attachment(`speedtest-${month}.json`).json({ report: await speedtestScheduler.getReport(month), tests: entries });
+    return;
   }
+  res.attachment(`speedtest-${month}.csv`).type('text/csv; charset=utf-8').send(toCsv(entries));
 }));
 
 export default router;
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { config } from '../config.js';
+import { SPEEDTEST_PAYLOAD } from '../services/speedtest.js';
+import { createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// Largest response served by /download
+const MAX_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+
+// Self-hosted speed test target (SPEEDTEST_ENDPOINT=true), same protocol as the Cloudflare one:
+// other dashboards or LAN machines can measure their throughput to this server
+router.use((_req, _res, next) => {
+  if (!config.speedtest.serveEndpoint) {
+    return next(createError('Point de test désactivé (SPEEDTEST_ENDPOINT non défini)', 404, 'NOT_FOUND'));
+  }
+  next();
+});
+
+// GET /speedtest/download?bytes=N - N bytes of random data (bytes=0 for latency probes)
+router.get('/download', (req, res) => {
+  const total = Math.min(Math.max(parseInt(req.query.bytes as string, 10) || 0, 0), MAX_DOWNLOAD_BYTES);
+  res.set({
+    'Content-Type': 'application/octet-stream',
+    'Content-Length': String(total),
+    'Cache-Control': 'no-store'
+  });
+
+  let remaining = total;
+  const write = () => {
+    while (remaining > 0) {
+      const size = Math.min(SPEEDTEST_PAYLOAD.length, remaining);
+      remaining -= size;
+      if (!res.write(SPEEDTEST_PAYLOAD.subarray(0, size))) {
+        res.once('drain', write);
+        return;
+      }
+    }
+    res.end();
+  };
+  // Stop writing when the client goes away
+  res.on('close', () => {
+    remaining = 0;
+  });
+  write();
+});
+
+// POST /speedtest/upload - Discard the body, answer with the received size
+router.post('/upload', (req, res) => {
+  let bytes = 0;
+  req.on('data', (chunk: Buffer) => {
+    bytes += chunk.length;
+  });
+  req.on('end', () => {
+    res.set('Cache-Control', 'no-store').json({ success: true, result: { bytes } });
+  });
+});
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { TOPIC_DEFINITIONS, type WsTopic } from '../services/wsTopics.js';
+
+const router = Router();
+
+// Widgets of the dashboard home page, shown to every user
+const STATUS_TOPICS: WsTopic[] = ['connection', 'system', 'wifi', 'lan'];
+
+// GET /api/status - Live values of the home page widgets, read while the WebSocket is down
+// Same payloads as the WebSocket topics (no WiFi key, no settings): users without access
+// to the settings API use it instead of /api/system, /api/wifi and /api/lan
+router.get('/', asyncHandler(async (_req, res) => {
+  const payloads = await Promise.all(STATUS_TOPICS.map(topic => TOPIC_DEFINITIONS[topic].fetch().catch(() => undefined)));
+  const result = Object.fromEntries(STATUS_TOPICS.map((topic, i) => [topic, payloads[i] ?? null]));
+  res.json({ success: true, result });
+}));
+
+export default router;
@@ -1,6 +1,5 @@
 import { Router } from 'express';
 import { freeboxApi } from '../services/freeboxApi.js';
-import { rebootScheduler } from '../services/scheduler.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import { normalizeSystemInfo } from '../services/apiNormalizer.js';
 
@@ -23,8 +22,8 @@ router.get('/', asyncHandler(async (_req, res) => {
 
   // If we have version info, add the box model name to system info
   if (systemResult.success && systemResult.result && versionResult.success && versionResult.result) {
-    const version = versionResult.result as Record<string, unknown>;
-    const system = systemResult.result as Record<string, unknown>;
+    const version = versionResult.result;
+    const system: Record<string, unknown> = { ...systemResult.result };
 
     // Add model info from api_version endpoint
     system.box_model_name = version.box_model_name || version.box_model || null;
@@ -36,27 +35,16 @@ router.get('/', asyncHandler(async (_req, res) => {
     // and ensures BOTH formats are available in the response
     const normalized = normalizeSystemInfo(system);
 
-    // Update the result with normalized data
-    systemResult.result = normalized;
-
     console.log('[System] Normalized data - sensors:', normalized.sensors?.length || 0, 'fans:', normalized.fans?.length || 0);
+
+    // Send the normalized data as the result
+    res.json({ ...systemResult, result: normalized });
+    return;
   }
 
   res.json(systemResult);
 }));
 
-// GET /api/system/reboot/schedule - Get reboot schedule
-router.get('/reboot/schedule', asyncHandler(async (_req, res) => {
-  const schedule = rebootScheduler.getSchedule();
-  res.json({ success: true, result: schedule });
-}));
-
-// POST /api/system/reboot/schedule - Update reboot schedule
-router.post('/reboot/schedule', asyncHandler(async (req, res) => {
-  const schedule = rebootScheduler.updateSchedule(req.body);
-  res.json({ success: true, result: schedule });
-}));
-
 // POST /api/system/reboot - Reboot Freebox
 router.post('/reboot', asyncHandler(async (_req, res) => {
   const result = await freeboxApi.reboot();
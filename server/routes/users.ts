@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { dashboardAuth } from '../services/dashboardAuth.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// GET /api/users - List dashboard users
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: dashboardAuth.listUsers() });
+}));
+
+// POST /api/users - Create a dashboard user
+router.post('/', asyncHandler(async (req, res) => {
+  const { username, password, role } = req.body;
+  try {
+    const user = dashboardAuth.createUser(String(username || ''), String(password || ''), role || undefined);
+    res.json({ success: true, result: user });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_USER');
+  }
+}));
+
+// PUT /api/users/:id/password - Change a user's password
+router.put('/:id/password', asyncHandler(async (req, res) => {
+  const { password } = req.body;
+  let updated: boolean;
+  try {
+    updated = dashboardAuth.changePassword(req.params.id, String(password || ''));
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_PASSWORD');
+  }
+  if (!updated) {
+    throw createError('Utilisateur introuvable', 404, 'USER_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'Password updated' } });
+}));
+
+// PUT /api/users/:id/role - Assign a role to a user
+router.put('/:id/role', asyncHandler(async (req, res) => {
+  const { role } = req.body;
+  let user;
+  try {
+    user = dashboardAuth.setUserRole(req.params.id, String(role || ''));
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_ROLE');
+  }
+  if (!user) {
+    throw createError('Utilisateur introuvable', 404, 'USER_NOT_FOUND');
+  }
+  res.json({ success: true, result: user });
+}));
+
+// DELETE /api/users/:id - Delete a dashboard user
+router.delete('/:id', asyncHandler(async (req, res) => {
+  if (req.params.id === req.user?.id) {
+    throw createError('Vous ne pouvez pas supprimer votre propre compte', 400, 'CANNOT_DELETE_SELF');
+  }
+
+  let deleted: boolean;
+  try {
+    deleted = dashboardAuth.deleteUser(req.params.id);
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'CANNOT_DELETE_USER');
+  }
+  if (!deleted) {
+    throw createError('Utilisateur introuvable', 404, 'USER_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'User deleted' } });
+}));
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { webhookService } from '../services/webhooks.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { FREEBOX_EVENT_TYPES } from '../types/events.js';
+
+const router = Router();
+
+// GET /api/webhooks - List webhooks (without their secret)
+router.get('/', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: webhookService.list() });
+}));
+
+// GET /api/webhooks/events - Event types a webhook can subscribe to
+router.get('/events', asyncHandler(async (_req, res) => {
+  res.json({ success: true, result: FREEBOX_EVENT_TYPES });
+}));
+
+// GET /api/webhooks/deliveries - Delivery log, newest first (?webhookId=&limit=)
+router.get('/deliveries', asyncHandler(async (req, res) => {
+  const webhookId = req.query.webhookId ? String(req.query.webhookId) : undefined;
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 200);
+  res.json({ success: true, result: webhookService.getDeliveries(webhookId, limit) });
+}));
+
+// POST /api/webhooks - Create a webhook (the response contains the secret in clear)
+router.post('/', asyncHandler(async (req, res) => {
+  try {
+    res.json({ success: true, result: webhookService.create(req.body ?? {}) });
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_WEBHOOK');
+  }
+}));
+
+// PUT /api/webhooks/:id - Update a webhook
+router.put('/:id', asyncHandler(async (req, res) => {
+  let webhook;
+  try {
+    webhook = webhookService.update(req.params.id, req.body ?? {});
+  } catch (error) {
+    throw createError((error as Error).message, 400, 'INVALID_WEBHOOK');
+  }
+  if (!webhook) {
+    throw createError('Webhook introuvable', 404, 'WEBHOOK_NOT_FOUND');
+  }
+  res.json({ success: true, result: webhook });
+}));
+
+// POST /api/webhooks/:id/secret - Generate a new signing secret (returned in clear)
+router.post('/:id/secret', asyncHandler(async (req, res) => {
+  const webhook = webhookService.regenerateSecret(req.params.id);
+  if (!webhook) {
+    throw createError('Webhook introuvable', 404, 'WEBHOOK_NOT_FOUND');
+  }
+  res.json({ success: true, result: webhook });
+}));
+
+// POST /api/webhooks/:id/test - Send a "ping" event and return the delivery
+router.post('/:id/test', asyncHandler(async (req, res) => {
+  const delivery = await webhookService.ping(req.params.id);
+  if (!delivery) {
+    throw createError('Webhook introuvable', 404, 'WEBHOOK_NOT_FOUND');
+  }
+  res.json({ success: true, result: delivery });
+}));
+
+// DELETE /api/webhooks/:id - Delete a webhook
+router.delete('/:id', asyncHandler(async (req, res) => {
+  if (!webhookService.delete(req.params.id)) {
+    throw createError('Webhook introuvable', 404, 'WEBHOOK_NOT_FOUND');
+  }
+  res.json({ success: true, result: { message: 'Webhook deleted' } });
+}));
+
+export default router;
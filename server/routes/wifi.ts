@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { freeboxApi } from '../services/freeboxApi.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { modelDetection } from '../services/modelDetection.js';
+import { getWifiOverview } from '../services/dashboardData.js';
 
 const router = Router();
 
@@ -46,90 +46,9 @@ router.put('/bss/:id', asyncHandler(async (req, res) => {
   res.json(result);
 }));
 
-// WiFi device type for band counting
-interface WifiLanDevice {
-  active?: boolean;
-  reachable?: boolean;
-  access_point?: {
-    connectivity_type?: string;
-    wifi_information?: {
-      band?: string;
-    };
-  };
-}
-
 // GET /api/wifi/full - Get complete WiFi status (APs + BSS combined)
 router.get('/full', asyncHandler(async (_req, res) => {
-  // Fetch all WiFi data in parallel, plus LAN devices for WiFi count
-  const [config, aps, bss, lanDevices] = await Promise.allSettled([
-    freeboxApi.getWifiConfig(),
-    freeboxApi.getWifiAps(),
-    freeboxApi.getWifiBss(),
-    freeboxApi.getLanHosts('pub')  // Main LAN interface
-  ]);
-
-  // Extract results, with safe fallbacks
-  const configData = config.status === 'fulfilled' && config.value.success ? config.value.result : null;
-  const apsData = aps.status === 'fulfilled' && aps.value.success ? aps.value.result : [];
-  const bssData = bss.status === 'fulfilled' && bss.value.success ? bss.value.result : [];
-
-  // Count WiFi devices from LAN data, grouped by band
-  let wifiDeviceCount = 0;
-  const devicesByBand: Record<string, number> = { '2g4': 0, '5g': 0, '6g': 0 };
-
-  if (lanDevices.status === 'fulfilled' && lanDevices.value.success && Array.isArray(lanDevices.value.result)) {
-    const wifiDevices = lanDevices.value.result.filter(
-      (device: WifiLanDevice) =>
-        device.active && device.reachable && device.access_point?.connectivity_type === 'wifi'
-    );
-    wifiDeviceCount = wifiDevices.length;
-
-    // Count by band
-    for (const device of wifiDevices) {
-      const band = (device as WifiLanDevice).access_point?.wifi_information?.band?.toLowerCase() || '';
-      if (band.includes('6g')) {
-        devicesByBand['6g']++;
-      } else if (band.includes('5g')) {
-        devicesByBand['5g']++;
-      } else if (band.includes('2') || band.includes('2g4') || band.includes('2.4')) {
-        devicesByBand['2g4']++;
-      }
-    }
-  }
-
-  // Filter out 6GHz data if model doesn't support it
-  const supports6ghz = modelDetection.supportsWifi6ghz();
-  let filteredAps = apsData || [];
-  let filteredBss = bssData || [];
-  const filteredDevicesByBand = { ...devicesByBand };
-
-  // NOTE: Inactive/disabled WiFi bands (e.g., 5GHz power-saving mode on Ultra)
-  // are NOT returned by the Freebox API, so we cannot display them.
-  // This is an API limitation, not a dashboard issue.
-
-  if (!supports6ghz && Array.isArray(apsData) && Array.isArray(bssData)) {
-    // Filter out 6GHz APs (for Pop v8, Revolution v6)
-    filteredAps = apsData.filter(
-      (ap: { band?: string }) => !ap.band?.toLowerCase().includes('6g')
-    );
-    // Filter out 6GHz BSS
-    filteredBss = bssData.filter(
-      (bss: { band?: string }) => !bss.band?.toLowerCase().includes('6g')
-    );
-    // Remove 6GHz device count
-    filteredDevicesByBand['6g'] = 0;
-  }
-
-  res.json({
-    success: true,
-    result: {
-      config: configData,
-      aps: filteredAps,
-      bss: filteredBss,
-      wifiDeviceCount: supports6ghz ? wifiDeviceCount : wifiDeviceCount - devicesByBand['6g'],
-      devicesByBand: filteredDevicesByBand
-    }
-  });
+  res.json(await getWifiOverview());
 }));
 
 // GET /api/wifi/stations - Get all WiFi stations (connected devices)
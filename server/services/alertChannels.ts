@@ -0,0 +1,107 @@
+import type { AlertChannel, AlertChannelType, AlertEvent, AlertSeverity } from '../types/alerts.js';
+
+/**
+ * Alert delivery channels
+ *
+ * Each channel type is a driver registered here; the alert engine only knows
+ * the registry, so a new delivery method is one `registerAlertChannel()` call.
+ */
+
+export interface AlertChannelSetting {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Masked in API responses
+  secret?: boolean;
+}
+
+export interface AlertChannelDriver {
+  type: AlertChannelType;
+  label: string;
+  settings: AlertChannelSetting[];
+  send(channel: AlertChannel, event: AlertEvent): Promise<void>;
+}
+
+const SEND_TIMEOUT = 10000;
+
+const drivers = new Map<AlertChannelType, AlertChannelDriver>();
+
+export const registerAlertChannel = (driver: AlertChannelDriver) => {
+  drivers.set(driver.type, driver);
+};
+
+export const getAlertChannelDriver = (type: AlertChannelType): AlertChannelDriver | undefined =>
+  drivers.get(type);
+
+export const listAlertChannelDrivers = () =>
+  [...drivers.values()].map(({ type, label, settings }) => ({ type, label, settings }));
+
+export const formatAlertTitle = (event: AlertEvent): string =>
+  event.state === 'resolved' ? `[Résolu] ${event.ruleName}` : event.ruleName;
+
+// Server console (docker logs)
+registerAlertChannel({
+  type: 'log',
+  label: 'Journal du serveur',
+  settings: [],
+  async send(_channel, event) {
+    const line = `[Alerts] ${formatAlertTitle(event)}: ${event.message}`;
+    if (event.state === 'firing' && event.severity === 'critical') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+});
+
+// ntfy.sh (or a self-hosted ntfy server): push notifications on phones
+const NTFY_PRIORITY: Record<AlertSeverity, number> = {
+  info: 3,
+  warning: 4,
+  critical: 5
+};
+
+registerAlertChannel({
+  type: 'ntfy',
+  label: 'ntfy',
+  settings: [
+    { key: 'url', label: 'URL du topic (ex: https://ntfy.sh/ma-freebox)', required: true },
+    { key: 'token', label: 'Jeton d\'accès (optionnel)', secret: true }
+  ],
+  async send(channel, event) {
+    // JSON publishing (POST on the server root) keeps UTF-8 titles intact
+    const url = new URL(channel.settings.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const topic = segments.pop();
+    if (!topic) {
+      throw new Error('URL ntfy sans topic');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (channel.settings.token) {
+      headers['Authorization'] = `Bearer ${channel.settings.token}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SEND_TIMEOUT);
+    try {
+      const response = await fetch(`${url.origin}/${segments.join('/')}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          topic,
+          title: formatAlertTitle(event),
+          message: event.message,
+          priority: event.state === 'resolved' ? 3 : NTFY_PRIORITY[event.severity],
+          tags: [event.state === 'resolved' ? 'white_check_mark' : 'warning']
+        }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`ntfy a répondu ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+});
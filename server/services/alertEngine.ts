@@ -0,0 +1,679 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { freeboxApi } from './freeboxApi.js';
+import { fetchLanHosts } from './dashboardData.js';
+import { metricsCollector } from './metricsCollector.js';
+import { getAlertChannelDriver } from './alertChannels.js';
+import { config } from '../config.js';
+import {
+  ALERT_RULE_TYPES,
+  ALERT_SEVERITIES,
+  type AlertChannel,
+  type AlertEvent,
+  type AlertRule,
+  type AlertSeverity
+} from '../types/alerts.js';
+import type { DownloadTask, LanHost, StorageDisk } from '../../shared/freebox/index.js';
+
+interface AlertsFile {
+  rules: AlertRule[];
+  channels: AlertChannel[];
+  // MAC addresses already seen on the LAN (new_device rules)
+  knownDevices: string[];
+  history: AlertEvent[];
+}
+
+// Hysteresis / cooldown state of one rule for one subject
+interface SubjectState {
+  pendingSince: number | null;
+  firing: boolean;
+  lastNotified: number;
+  // Whether the firing event went out (its resolution is only sent in that case)
+  notified: boolean;
+  event: AlertEvent | null;
+}
+
+// One evaluation of a stateful rule
+interface Observation {
+  subject: string;
+  triggered: boolean;
+  cleared: boolean;
+  value?: number;
+  message: string;
+  resolvedMessage: string;
+}
+
+// Host seen on the LAN for the first time, with its normalized MAC address
+interface NewDevice {
+  host: LanHost;
+  mac: string;
+}
+
+export const SECRET_MASK = '********';
+
+const DEFAULT_CHANNELS: AlertChannel[] = [
+  { id: 'log', name: 'Journal du serveur', type: 'log', enabled: true, settings: {} }
+];
+
+const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'wan-down',
+    name: 'Connexion Internet coupée',
+    type: 'wan_down',
+    enabled: true,
+    severity: 'critical',
+    duration: 1,
+    hysteresis: 0,
+    cooldown: 15,
+    channels: ['log']
+  },
+  {
+    id: 'cpu-temperature',
+    name: 'Température CPU élevée',
+    type: 'metric_threshold',
+    enabled: true,
+    severity: 'warning',
+    metric: 'temp_cpum',
+    operator: 'above',
+    threshold: 80,
+    duration: 5,
+    hysteresis: 5,
+    cooldown: 60,
+    channels: ['log']
+  },
+  {
+    id: 'new-device',
+    name: 'Nouvel appareil sur le réseau',
+    type: 'new_device',
+    enabled: true,
+    severity: 'info',
+    duration: 0,
+    hysteresis: 0,
+    cooldown: 0,
+    channels: ['log']
+  },
+  {
+    id: 'disk-usage',
+    name: 'Disque presque plein',
+    type: 'disk_usage',
+    enabled: true,
+    severity: 'warning',
+    threshold: 90,
+    duration: 0,
+    hysteresis: 2,
+    cooldown: 24 * 60,
+    channels: ['log']
+  },
+  {
+    id: 'download-error',
+    name: 'Échec d\'un téléchargement',
+    type: 'download_error',
+    enabled: true,
+    severity: 'warning',
+    duration: 0,
+    hysteresis: 0,
+    cooldown: 0,
+    channels: ['log']
+  }
+];
+
+const formatMetricValue = (metric: string, value: number): string => {
+  const rounded = Math.round(value * 10) / 10;
+  if (metric.startsWith('temp_')) return `${rounded} °C`;
+  if (metric.startsWith('fan')) return `${Math.round(value)} tr/min`;
+  if (metric.startsWith('rate_')) return `${Math.round(value / 1024)} Ko/s`;
+  return String(rounded);
+};
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fallback;
+};
+
+/**
+ * Alert rules engine
+ *
+ * Evaluates the rules every `config.alerts.evaluationInterval` seconds while the
+ * server holds a Freebox session. Threshold rules fire once the condition held
+ * for `duration` minutes and resolve past the hysteresis band; the cooldown mutes
+ * repeated notifications of a flapping subject (the history still records them).
+ */
+class AlertEngineService {
+  private rules: AlertRule[] = [];
+  private channels: AlertChannel[] = [];
+  private knownDevices = new Set<string>();
+  private history: AlertEvent[] = [];
+  private states = new Map<string, SubjectState>();
+  // Download tasks already in error when first seen (reported once)
+  private seenDownloadErrors: Set<number> | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private evaluating = false;
+  private filePath: string;
+
+  constructor() {
+    this.filePath = path.join(config.dataDir, '.alerts.json');
+    this.load();
+  }
+
+  private load() {
+    if (fs.existsSync(this.filePath)) {
+      try {
+        const parsed: Partial<AlertsFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        this.rules = Array.isArray(parsed.rules) ? parsed.rules : [];
+        this.channels = Array.isArray(parsed.channels) ? parsed.channels : [];
+        this.knownDevices = new Set(Array.isArray(parsed.knownDevices) ? parsed.knownDevices : []);
+        this.history = Array.isArray(parsed.history) ? parsed.history : [];
+        console.log(`[Alerts] Loaded ${this.rules.length} rule(s), ${this.channels.length} channel(s)`);
+        return;
+      } catch (error) {
+        console.error('[Alerts] Failed to load alerts:', error);
+      }
+    }
+    this.rules = DEFAULT_RULES.map(r => ({ ...r, channels: [...r.channels] }));
+    this.channels = DEFAULT_CHANNELS.map(c => ({ ...c, settings: { ...c.settings } }));
+  }
+
+  private save() {
+    const data: AlertsFile = {
+      rules: this.rules,
+      channels: this.channels,
+      knownDevices: [...this.knownDevices],
+      history: this.history
+    };
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[Alerts] Failed to save alerts:', error);
+    }
+  }
+
+  start() {
+    if (!config.alerts.enabled) {
+      console.log('[Alerts] Engine disabled (ALERTS_ENABLED=false)');
+      return;
+    }
+    if (this.interval) return;
+
+    console.log(`[Alerts] Engine started (every ${config.alerts.evaluationInterval}s)`);
+    this.interval = setInterval(() => this.evaluate(), config.alerts.evaluationInterval * 1000);
+    this.interval.unref();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // ==================== RULES ====================
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  createRule(input: Record<string, unknown>): AlertRule {
+    const rule = this.normalizeRule(input, { id: crypto.randomUUID() });
+    this.rules.push(rule);
+    this.save();
+    return rule;
+  }
+
+  updateRule(id: string, input: Record<string, unknown>): AlertRule | null {
+    const index = this.rules.findIndex(r => r.id === id);
+    if (index === -1) return null;
+    const rule = this.normalizeRule(input, this.rules[index]);
+    this.rules[index] = rule;
+    this.clearStates(id);
+    this.save();
+    return rule;
+  }
+
+  deleteRule(id: string): boolean {
+    const index = this.rules.findIndex(r => r.id === id);
+    if (index === -1) return false;
+    this.rules.splice(index, 1);
+    this.clearStates(id);
+    this.save();
+    return true;
+  }
+
+  private normalizeRule(input: Record<string, unknown>, base: Partial<AlertRule> & { id: string }): AlertRule {
+    const merged = { ...base, ...input } as Record<string, unknown>;
+    const name = String(merged.name ?? '').trim();
+    if (!name) {
+      throw new Error('Le nom de la règle est requis');
+    }
+    const type = merged.type as AlertRule['type'];
+    if (!ALERT_RULE_TYPES.includes(type)) {
+      throw new Error('Type de règle inconnu');
+    }
+    const severity = (merged.severity ?? 'warning') as AlertSeverity;
+    if (!ALERT_SEVERITIES.includes(severity)) {
+      throw new Error('Sévérité inconnue (info, warning, critical)');
+    }
+
+    const channels = Array.isArray(merged.channels) ? merged.channels.map(String) : [];
+    const unknown = channels.find(id => !this.channels.some(c => c.id === id));
+    if (unknown) {
+      throw new Error(`Canal inconnu : ${unknown}`);
+    }
+
+    const rule: AlertRule = {
+      id: base.id,
+      name,
+      type,
+      enabled: merged.enabled !== false,
+      severity,
+      duration: Math.max(0, toNumber(merged.duration, 0)),
+      hysteresis: Math.max(0, toNumber(merged.hysteresis, 0)),
+      cooldown: Math.max(0, toNumber(merged.cooldown, 0)),
+      channels
+    };
+
+    if (type === 'metric_threshold') {
+      const metric = String(merged.metric ?? '').trim();
+      if (!/^[a-z0-9_]+$/i.test(metric)) {
+        throw new Error('Nom de métrique invalide');
+      }
+      const threshold = toNumber(merged.threshold, NaN);
+      if (isNaN(threshold)) {
+        throw new Error('Seuil invalide');
+      }
+      rule.metric = metric;
+      rule.operator = merged.operator === 'below' ? 'below' : 'above';
+      rule.threshold = threshold;
+    } else if (type === 'disk_usage') {
+      const threshold = toNumber(merged.threshold, NaN);
+      if (isNaN(threshold) || threshold <= 0 || threshold > 100) {
+        throw new Error('Le seuil doit être un pourcentage entre 1 et 100');
+      }
+      rule.threshold = threshold;
+    }
+
+    return rule;
+  }
+
+  private clearStates(ruleId: string) {
+    for (const key of this.states.keys()) {
+      if (key.startsWith(`${ruleId}:`)) this.states.delete(key);
+    }
+  }
+
+  // ==================== CHANNELS ====================
+
+  getChannels(): AlertChannel[] {
+    return this.channels.map(c => this.toPublicChannel(c));
+  }
+
+  createChannel(input: Record<string, unknown>): AlertChannel {
+    const channel = this.normalizeChannel(input, null);
+    this.channels.push(channel);
+    this.save();
+    return this.toPublicChannel(channel);
+  }
+
+  updateChannel(id: string, input: Record<string, unknown>): AlertChannel | null {
+    const index = this.channels.findIndex(c => c.id === id);
+    if (index === -1) return null;
+    const channel = this.normalizeChannel(input, this.channels[index]);
+    this.channels[index] = channel;
+    this.save();
+    return this.toPublicChannel(channel);
+  }
+
+  deleteChannel(id: string): boolean {
+    const index = this.channels.findIndex(c => c.id === id);
+    if (index === -1) return false;
+    this.channels.splice(index, 1);
+    this.rules.forEach(r => {
+      r.channels = r.channels.filter(c => c !== id);
+    });
+    this.save();
+    return true;
+  }
+
+  async testChannel(id: string): Promise<void> {
+    const channel = this.channels.find(c => c.id === id);
+    if (!channel) {
+      throw new Error('Canal introuvable');
+    }
+    const driver = getAlertChannelDriver(channel.type);
+    if (!driver) {
+      throw new Error(`Type de canal non pris en charge : ${channel.type}`);
+    }
+    await driver.send(channel, {
+      id: crypto.randomUUID(),
+      ruleId: 'test',
+      ruleName: 'Test de notification',
+      type: 'wan_down',
+      severity: 'info',
+      state: 'firing',
+      subject: '',
+      message: `Notification de test envoyée par le Freebox Dashboard via "${channel.name}"`,
+      timestamp: Math.floor(Date.now() / 1000),
+      delivered: []
+    });
+  }
+
+  private normalizeChannel(input: Record<string, unknown>, existing: AlertChannel | null): AlertChannel {
+    const name = String(input.name ?? existing?.name ?? '').trim();
+    if (!name) {
+      throw new Error('Le nom du canal est requis');
+    }
+    // The type of an existing channel cannot change (its settings would not match)
+    const type = (existing?.type ?? input.type) as AlertChannel['type'];
+    const driver = getAlertChannelDriver(type);
+    if (!driver) {
+      throw new Error('Type de canal inconnu');
+    }
+
+    const rawSettings = (input.settings && typeof input.settings === 'object' ? input.settings : {}) as Record<string, unknown>;
+    const settings: Record<string, string> = {};
+    for (const setting of driver.settings) {
+      let value = rawSettings[setting.key] !== undefined ? String(rawSettings[setting.key]).trim() : existing?.settings[setting.key] ?? '';
+      // Masked secrets come back unchanged from the UI
+      if (setting.secret && value === SECRET_MASK) {
+        value = existing?.settings[setting.key] ?? '';
+      }
+      if (setting.required && !value) {
+        throw new Error(`Paramètre requis : ${setting.label}`);
+      }
+      if (value) settings[setting.key] = value;
+    }
+    if (settings.url && !/^https?:\/\//.test(settings.url)) {
+      throw new Error('L\'URL doit commencer par http:// ou https://');
+    }
+
+    return {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      type,
+      enabled: input.enabled !== undefined ? input.enabled !== false : existing?.enabled ?? true,
+      settings
+    };
+  }
+
+  private toPublicChannel(channel: AlertChannel): AlertChannel {
+    const driver = getAlertChannelDriver(channel.type);
+    const settings = { ...channel.settings };
+    driver?.settings.forEach(s => {
+      if (s.secret && settings[s.key]) settings[s.key] = SECRET_MASK;
+    });
+    return { ...channel, settings };
+  }
+
+  // ==================== HISTORY ====================
+
+  getHistory(limit: number): AlertEvent[] {
+    return this.history.slice(0, limit);
+  }
+
+  // Alerts currently firing (latest firing event of each subject)
+  getActive(): AlertEvent[] {
+    return [...this.states.values()]
+      .filter(s => s.firing && s.event)
+      .map(s => s.event as AlertEvent);
+  }
+
+  clearHistory() {
+    this.history = [];
+    this.save();
+  }
+
+  private async emit(rule: AlertRule, event: Omit<AlertEvent, 'id' | 'ruleId' | 'ruleName' | 'type' | 'severity' | 'timestamp' | 'delivered'>, muted: boolean): Promise<AlertEvent> {
+    const full: AlertEvent = {
+      id: crypto.randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: rule.type,
+      severity: rule.severity,
+      timestamp: Math.floor(Date.now() / 1000),
+      delivered: [],
+      ...event
+    };
+
+    if (!muted) {
+      for (const channelId of rule.channels) {
+        const channel = this.channels.find(c => c.id === channelId);
+        const driver = channel?.enabled ? getAlertChannelDriver(channel.type) : undefined;
+        if (!channel || !driver) continue;
+        try {
+          await driver.send(channel, full);
+          full.delivered.push(channel.id);
+        } catch (error) {
+          console.error(`[Alerts] Delivery to "${channel.name}" failed:`, (error as Error).message);
+        }
+      }
+    }
+
+    this.history.unshift(full);
+    this.history.length = Math.min(this.history.length, config.alerts.historySize);
+    this.save();
+    return full;
+  }
+
+  // ==================== EVALUATION ====================
+
+  private async evaluate() {
+    if (!freeboxApi.isLoggedIn() || this.evaluating) return;
+    this.evaluating = true;
+
+    try {
+      const enabled = this.rules.filter(r => r.enabled);
+      const uses = (type: AlertRule['type']) => enabled.some(r => r.type === type);
+
+      const [connection, hosts, disks, downloads] = await Promise.all([
+        uses('wan_down') ? freeboxApi.getConnectionStatus().catch(() => null) : null,
+        uses('new_device') ? fetchLanHosts().catch(() => null) : null,
+        uses('disk_usage') ? freeboxApi.getDisks().catch(() => null) : null,
+        uses('download_error') ? freeboxApi.getDownloads().catch(() => null) : null
+      ]);
+      const newDevices = hosts ? this.findNewDevices(hosts) : null;
+      const newDownloadErrors = downloads?.success
+        ? this.findNewDownloadErrors(Array.isArray(downloads.result) ? downloads.result : [])
+        : null;
+
+      for (const rule of enabled) {
+        switch (rule.type) {
+          case 'wan_down':
+            if (connection?.success && connection.result) {
+              await this.observe(rule, this.observeWan(connection.result as { state?: string }));
+            }
+            break;
+          case 'metric_threshold': {
+            const observation = this.observeMetric(rule);
+            if (observation) await this.observe(rule, observation);
+            break;
+          }
+          case 'disk_usage':
+            if (disks?.success && Array.isArray(disks.result)) {
+              for (const observation of this.observeDisks(rule, disks.result)) {
+                await this.observe(rule, observation);
+              }
+            }
+            break;
+          case 'new_device':
+            if (newDevices) await this.checkNewDevices(rule, newDevices);
+            break;
+          case 'download_error':
+            if (newDownloadErrors) await this.checkDownloads(rule, newDownloadErrors);
+            break;
+        }
+      }
+    } catch (error) {
+      console.error('[Alerts] Evaluation failed:', error);
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  // Pending -> firing after `duration`, firing -> resolved once cleared
+  private async observe(rule: AlertRule, observation: Observation) {
+    const key = `${rule.id}:${observation.subject}`;
+    const now = Math.floor(Date.now() / 1000);
+    let state = this.states.get(key);
+    if (!state) {
+      state = { pendingSince: null, firing: false, lastNotified: 0, notified: false, event: null };
+      this.states.set(key, state);
+    }
+
+    if (!state.firing) {
+      if (!observation.triggered) {
+        state.pendingSince = null;
+        return;
+      }
+      state.pendingSince ??= now;
+      if (now - state.pendingSince < rule.duration * 60) return;
+
+      const muted = now - state.lastNotified < rule.cooldown * 60;
+      state.firing = true;
+      state.notified = !muted;
+      if (!muted) state.lastNotified = now;
+      state.event = await this.emit(rule, {
+        state: 'firing',
+        subject: observation.subject,
+        message: observation.message,
+        value: observation.value
+      }, muted);
+    } else if (observation.cleared) {
+      state.firing = false;
+      state.pendingSince = null;
+      state.event = null;
+      await this.emit(rule, {
+        state: 'resolved',
+        subject: observation.subject,
+        message: observation.resolvedMessage,
+        value: observation.value
+      }, !state.notified);
+    }
+  }
+
+  private observeWan(status: { state?: string }): Observation {
+    const up = status.state === 'up';
+    return {
+      subject: '',
+      triggered: !up,
+      cleared: up,
+      message: `La connexion Internet est coupée (état : ${status.state ?? 'inconnu'})`,
+      resolvedMessage: 'La connexion Internet est rétablie'
+    };
+  }
+
+  private observeMetric(rule: AlertRule): Observation | null {
+    const sample = metricsCollector.getLastSample();
+    const metric = rule.metric as string;
+    // Ignore stale samples (collector stopped or Freebox unreachable)
+    if (!sample || Date.now() / 1000 - sample.time > config.metrics.sampleInterval * 3) return null;
+    const value = sample.values[metric];
+    if (typeof value !== 'number') return null;
+
+    const threshold = rule.threshold as number;
+    const above = rule.operator !== 'below';
+    const formatted = formatMetricValue(metric, value);
+    return {
+      subject: '',
+      value,
+      triggered: above ? value > threshold : value < threshold,
+      cleared: above ? value <= threshold - rule.hysteresis : value >= threshold + rule.hysteresis,
+      message: `${metric} ${above ? 'au-dessus' : 'en dessous'} du seuil de ${formatMetricValue(metric, threshold)} depuis ${rule.duration} min (${formatted})`,
+      resolvedMessage: `${metric} est revenu à la normale (${formatted})`
+    };
+  }
+
+  private observeDisks(rule: AlertRule, disks: StorageDisk[]): Observation[] {
+    const threshold = rule.threshold as number;
+    const observations: Observation[] = [];
+    for (const disk of disks) {
+      for (const partition of disk.partitions ?? []) {
+        if (!partition.total_bytes || partition.used_bytes == null) continue;
+        const percent = Math.round((partition.used_bytes / partition.total_bytes) * 1000) / 10;
+        const label = partition.label || `Disque ${disk.id} / partition ${partition.id}`;
+        observations.push({
+          subject: `${disk.id}/${partition.id}`,
+          value: percent,
+          triggered: percent >= threshold,
+          cleared: percent < threshold - rule.hysteresis,
+          message: `${label} est rempli à ${percent} % (seuil : ${threshold} %)`,
+          resolvedMessage: `${label} est redescendu à ${percent} %`
+        });
+      }
+    }
+    return observations;
+  }
+
+  // One-shot events are not resolved: the cooldown applies per subject only
+  private isMuted(rule: AlertRule, subject: string): boolean {
+    const key = `${rule.id}:${subject}`;
+    const now = Math.floor(Date.now() / 1000);
+    const state = this.states.get(key);
+    if (state && now - state.lastNotified < rule.cooldown * 60) return true;
+    this.states.set(key, { pendingSince: null, firing: false, lastNotified: now, notified: true, event: null });
+    return false;
+  }
+
+  // Devices never seen on the LAN, computed once per evaluation for every new_device rule
+  private findNewDevices(hosts: LanHost[]): NewDevice[] {
+    const macs = hosts
+      .filter(h => h.l2ident?.type === 'mac_address' && h.l2ident.id)
+      .map(h => ({ host: h, mac: (h.l2ident?.id as string).toLowerCase() }));
+
+    // First run: learn the current devices without alerting
+    if (this.knownDevices.size === 0) {
+      macs.forEach(({ mac }) => this.knownDevices.add(mac));
+      this.save();
+      console.log(`[Alerts] Learned ${this.knownDevices.size} known device(s)`);
+      return [];
+    }
+
+    const found = macs.filter(({ mac }) => !this.knownDevices.has(mac));
+    if (found.length > 0) {
+      found.forEach(({ mac }) => this.knownDevices.add(mac));
+      this.save();
+    }
+    return found;
+  }
+
+  private async checkNewDevices(rule: AlertRule, devices: NewDevice[]) {
+    for (const { host, mac } of devices) {
+      const name = host.primary_name || 'Appareil inconnu';
+      const vendor = host.vendor_name ? `, ${host.vendor_name}` : '';
+      await this.emit(rule, {
+        state: 'firing',
+        subject: mac,
+        message: `Nouvel appareil détecté : ${name} (${mac}${vendor})`
+      }, this.isMuted(rule, mac));
+    }
+  }
+
+  // Tasks that went into error since the last evaluation, shared by every download_error rule
+  private findNewDownloadErrors(tasks: DownloadTask[]): DownloadTask[] {
+    const errors = tasks.filter(t => t.status === 'error');
+
+    // First run: tasks already in error are not reported
+    if (!this.seenDownloadErrors) {
+      this.seenDownloadErrors = new Set(errors.map(t => t.id));
+      return [];
+    }
+
+    const seen = this.seenDownloadErrors;
+    const found = errors.filter(t => !seen.has(t.id));
+    // Retried or deleted tasks can fail again later
+    this.seenDownloadErrors = new Set(errors.map(t => t.id));
+    return found;
+  }
+
+  private async checkDownloads(rule: AlertRule, failed: DownloadTask[]) {
+    for (const task of failed) {
+      const subject = String(task.id);
+      await this.emit(rule, {
+        state: 'firing',
+        subject,
+        message: `Le téléchargement "${task.name ?? task.id}" a échoué${task.error ? ` (${task.error})` : ''}`
+      }, this.isMuted(rule, subject));
+    }
+  }
+}
+
+export const alertEngine = new AlertEngineService();
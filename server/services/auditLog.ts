@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type { AuditEntry, AuditQuery, AuditQueryResult } from '../types/audit.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Payload keys whose value never reaches the log
+const SECRET_KEY = /pass|secret|token|key|psk|cookie|auth/i;
+const MAX_STRING = 300;
+const MAX_ITEMS = 50;
+const MAX_KEYS = 50;
+const MAX_DEPTH = 5;
+// Values kept per payload, and its largest serialized size
+const MAX_VALUES = 500;
+const MAX_PAYLOAD = 8 * 1024;
+
+const toDay = (t: number): string => new Date(t).toISOString().split('T')[0];
+
+const CSV_COLUMNS: Array<[string, (entry: AuditEntry) => unknown]> = [
+  ['timestamp', e => new Date(e.timestamp).toISOString()],
+  ['user', e => e.user],
+  ['ip', e => e.ip],
+  ['box', e => e.boxId],
+  ['method', e => e.method],
+  ['route', e => e.route],
+  ['status', e => e.status],
+  ['success', e => e.success],
+  ['error_code', e => e.errorCode],
+  ['message', e => e.message],
+  ['duration_ms', e => e.duration],
+  ['payload', e => (e.payload === null ? '' : JSON.stringify(e.payload))]
+];
+
+// Spreadsheets run cells starting like a formula: they are prefixed to stay text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const cut = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max)}… (${text.length} caractères)` : text;
+
+const sanitize = (value: unknown, depth: number, budget: { values: number }): unknown => {
+  if (--budget.values < 0) return '[…]';
+  if (typeof value === 'string') return cut(value, MAX_STRING);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(item => sanitize(item, depth + 1, budget));
+    return value.length > MAX_ITEMS ? [...items, `… (${value.length - MAX_ITEMS} de plus)`] : items;
+  }
+  const entries = Object.entries(value);
+  const kept = entries.slice(0, MAX_KEYS).map(([key, item]) => [
+    key,
+    SECRET_KEY.test(key) && item !== null && item !== '' ? '***' : sanitize(item, depth + 1, budget)
+  ]);
+  if (entries.length > MAX_KEYS) kept.push(['…', `${entries.length - MAX_KEYS} clés de plus`]);
+  return Object.fromEntries(kept);
+};
+
+/**
+ * Copy of a request payload safe to keep: secrets masked, long strings,
+ * arrays and objects cut, deep objects collapsed, the whole capped in size
+ */
+export const sanitizePayload = (value: unknown): unknown => {
+  const sanitized = sanitize(value, 0, { values: MAX_VALUES });
+  const json = JSON.stringify(sanitized) ?? '';
+  return json.length > MAX_PAYLOAD ? cut(json, MAX_PAYLOAD) : sanitized;
+};
+
+/**
+ * Append-only audit log
+ *
+ * Every mutating API request is appended as a JSON line to one file per day:
+ *   <dataDir>/audit/<YYYY-MM-DD>.ndjson
+ *
+ * Entries are never rewritten; whole days are deleted once older than
+ * `config.audit.retentionDays`.
+ */
+class AuditLogService {
+  private baseDir: string;
+  private lastPurgeDay = '';
+
+  constructor() {
+    this.baseDir = path.join(config.dataDir, 'audit');
+  }
+
+  // ==================== WRITE ====================
+
+  record(entry: AuditEntry) {
+    if (!config.audit.enabled) return;
+    const day = toDay(entry.timestamp);
+    try {
+      if (!fs.existsSync(this.baseDir)) {
+        fs.mkdirSync(this.baseDir, { recursive: true, mode: 0o700 });
+      }
+      fs.appendFileSync(this.segmentPath(day), JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[Audit] Failed to write entry:', error);
+    }
+
+    if (day !== this.lastPurgeDay) {
+      this.purge(day);
+    }
+  }
+
+  private segmentPath(day: string): string {
+    return path.join(this.baseDir, `${day}.ndjson`);
+  }
+
+  // Delete the days that fell out of the retention
+  private purge(today: string) {
+    this.lastPurgeDay = today;
+    const cutoff = toDay(Date.now() - config.audit.retentionDays * DAY);
+    for (const day of this.listDays()) {
+      if (day >= cutoff) continue;
+      try {
+        fs.unlinkSync(this.segmentPath(day));
+        console.log(`[Audit] Purged ${day}`);
+      } catch (error) {
+        console.error(`[Audit] Failed to purge ${day}:`, error);
+      }
+    }
+  }
+
+  // ==================== READ ====================
+
+  private listDays(): string[] {
+    if (!fs.existsSync(this.baseDir)) return [];
+    return fs.readdirSync(this.baseDir)
+      .filter(f => f.endsWith('.ndjson'))
+      .map(f => f.replace('.ndjson', ''))
+      .sort();
+  }
+
+  private readDay(day: string): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (const line of fs.readFileSync(this.segmentPath(day), 'utf-8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a truncated line (crash during write)
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  private find(query: AuditQuery): AuditEntry[] {
+    const from = query.from !== undefined ? toDay(query.from) : '';
+    const to = query.to !== undefined ? toDay(query.to) : '9999-12-31';
+    const text = query.q?.trim().toLowerCase();
+    const user = query.user?.trim().toLowerCase();
+    const method = query.method?.toUpperCase();
+
+    const matches = (entry: AuditEntry): boolean => {
+      if (query.from !== undefined && entry.timestamp < query.from) return false;
+      if (query.to !== undefined && entry.timestamp > query.to) return false;
+      if (method && entry.method !== method) return false;
+      if (query.result && entry.success !== (query.result === 'success')) return false;
+      if (user && !(entry.user ?? '').toLowerCase().includes(user)) return false;
+      if (text) {
+        const haystack = [entry.route, entry.user, entry.ip, entry.boxId, entry.errorCode, entry.message, JSON.stringify(entry.payload)]
+          .join(' ')
+          .toLowerCase();
+        if (!haystack.includes(text)) return false;
+      }
+      return true;
+    };
+
+    const result: AuditEntry[] = [];
+    const days = this.listDays().filter(day => day >= from && day <= to).reverse();
+    for (const day of days) {
+      result.push(...this.readDay(day).filter(matches).reverse());
+    }
+    return result;
+  }
+
+  query(query: AuditQuery): AuditQueryResult {
+    const entries = this.find(query);
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, query.limit ?? DEFAULT_LIMIT));
+    return { entries: entries.slice(offset, offset + limit), total: entries.length };
+  }
+
+  // ==================== EXPORT ====================
+
+  exportJson(query: AuditQuery): string {
+    return JSON.stringify(this.find(query), null, 2);
+  }
+
+  exportCsv(query: AuditQuery): string {
+    const lines = [CSV_COLUMNS.map(([name]) => name).join(',')];
+    for (const entry of this.find(query)) {
+      lines.push(CSV_COLUMNS.map(([, value]) => csvCell(value(entry))).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+}
+
+export const auditLog = new AuditLogService();
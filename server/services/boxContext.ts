@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Profile created from FREEBOX_URL / FREEBOX_TOKEN_FILE (single box installs)
+export const DEFAULT_BOX_ID = 'default';
+
+const storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run fn (and everything it awaits) against the given Freebox profile
+ */
+export const runWithBox = <T>(boxId: string, fn: () => T): T => storage.run(boxId, fn);
+
+/**
+ * Box selected for the current request; background jobs use the default box
+ */
+export const currentBoxId = (): string => storage.getStore() ?? DEFAULT_BOX_ID;
+
+export interface BoxScoped<T extends object> {
+  // Instance of the box selected for the current request
+  proxy: T;
+  forBox: (boxId: string) => T;
+  delete: (boxId: string) => void;
+}
+
+/**
+ * Lazily created per-box instances of a service
+ *
+ * The proxy forwards every property access to the instance of the current
+ * box, so existing callers keep using a single exported object.
+ */
+export function createBoxScoped<T extends object>(factory: (boxId: string) => T): BoxScoped<T> {
+  const instances = new Map<string, T>();
+
+  const forBox = (boxId: string): T => {
+    let instance = instances.get(boxId);
+    if (!instance) {
+      instance = factory(boxId);
+      instances.set(boxId, instance);
+    }
+    return instance;
+  };
+
+  const proxy = new Proxy({} as T, {
+    get: (_target, property) => {
+      const instance = forBox(currentBoxId());
+      const value = Reflect.get(instance, property, instance);
+      return typeof value === 'function' ? value.bind(instance) : value;
+    }
+  });
+
+  return {
+    proxy,
+    forBox,
+    delete: (boxId: string) => {
+      instances.delete(boxId);
+    }
+  };
+}
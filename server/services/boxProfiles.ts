@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import { DEFAULT_BOX_ID } from './boxContext.js';
+import type { BoxProfile } from '../types/boxes.js';
+
+interface BoxesFile {
+  boxes: BoxProfile[];
+}
+
+type RemoveListener = (boxId: string) => void;
+
+/**
+ * Freebox profiles
+ *
+ * The default profile keeps the historical files (FREEBOX_TOKEN_FILE,
+ * .reboot_schedule.json) so single box installs are unchanged; other boxes
+ * get their own token and schedule files next to it.
+ */
+class BoxProfileService {
+  private boxes: BoxProfile[] = [];
+  private filePath: string;
+  private removeListeners = new Set<RemoveListener>();
+
+  constructor() {
+    this.filePath = path.join(config.dataDir, '.boxes.json');
+    this.load();
+  }
+
+  private load() {
+    if (fs.existsSync(this.filePath)) {
+      try {
+        const parsed: Partial<BoxesFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        this.boxes = Array.isArray(parsed.boxes) ? parsed.boxes : [];
+      } catch (error) {
+        console.error('[Boxes] Failed to load profiles:', error);
+      }
+    }
+
+    if (!this.boxes.some(b => b.id === DEFAULT_BOX_ID)) {
+      this.boxes.unshift({ id: DEFAULT_BOX_ID, name: 'Freebox', url: config.freebox.url, createdAt: Date.now() });
+    }
+    console.log(`[Boxes] ${this.boxes.length} Freebox profile(s)`);
+  }
+
+  private save() {
+    const data: BoxesFile = { boxes: this.boxes };
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[Boxes] Failed to save profiles:', error);
+    }
+  }
+
+  list(): BoxProfile[] {
+    return [...this.boxes];
+  }
+
+  get(id: string): BoxProfile | undefined {
+    return this.boxes.find(b => b.id === id);
+  }
+
+  create(input: Record<string, unknown>): BoxProfile {
+    const box: BoxProfile = {
+      id: crypto.randomUUID(),
+      ...this.validate(input, null),
+      createdAt: Date.now()
+    };
+    this.boxes.push(box);
+    this.save();
+    return box;
+  }
+
+  update(id: string, input: Record<string, unknown>): BoxProfile | null {
+    const box = this.get(id);
+    if (!box) return null;
+    Object.assign(box, this.validate(input, box));
+    this.save();
+    return box;
+  }
+
+  delete(id: string): boolean {
+    if (id === DEFAULT_BOX_ID) {
+      throw new Error('La Freebox par défaut ne peut pas être supprimée');
+    }
+    const index = this.boxes.findIndex(b => b.id === id);
+    if (index === -1) return false;
+    this.boxes.splice(index, 1);
+    this.save();
+    this.removeListeners.forEach(listener => listener(id));
+    return true;
+  }
+
+  // Services holding per-box state clean up when a profile is deleted
+  onRemove(listener: RemoveListener) {
+    this.removeListeners.add(listener);
+  }
+
+  /**
+   * Path of a per-box data file: "<name>" for the default box, "<name>.<id>" otherwise
+   */
+  getDataFile(id: string, name: string): string {
+    if (id === DEFAULT_BOX_ID) return path.join(config.dataDir, name);
+    const ext = path.extname(name);
+    return path.join(config.dataDir, ext ? `${name.slice(0, -ext.length)}.${id}${ext}` : `${name}.${id}`);
+  }
+
+  private validate(input: Record<string, unknown>, existing: BoxProfile | null): Pick<BoxProfile, 'name' | 'url'> {
+    const name = String(input.name ?? existing?.name ?? '').trim();
+    if (!name) {
+      throw new Error('Le nom de la Freebox est requis');
+    }
+
+    const url = String(input.url ?? existing?.url ?? '').trim().replace(/\/+$/, '');
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+    } catch {
+      throw new Error('URL invalide (http:// ou https:// attendu)');
+    }
+
+    return { name, url };
+  }
+}
+
+export const boxProfiles = new BoxProfileService();
@@ -0,0 +1,609 @@
+import crypto from 'crypto';
+import { freeboxApi } from './freeboxApi.js';
+import { currentBoxId } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
+import type {
+  BackupArchive,
+  BackupSectionId,
+  BackupSectionInfo,
+  RestoreChange,
+  RestoreChangeKind,
+  RestorePreview,
+  RestoreResult
+} from '../types/backup.js';
+
+type Item = Record<string, unknown>;
+
+interface FreeboxResult {
+  success: boolean;
+  result?: unknown;
+  msg?: string;
+  error_code?: string;
+}
+
+// A whole configuration object, written back with the fields that differ
+interface ConfigSection {
+  type: 'config';
+  label: string;
+  read: () => Promise<unknown>;
+  write: (changes: Item) => Promise<FreeboxResult>;
+  // Fields reported by the box that can't be written back
+  readOnly?: string[];
+  note?: (fields: string[]) => string | undefined;
+}
+
+// A list of items matched by key between the archive and the box
+interface ListSection {
+  type: 'list';
+  label: string;
+  read: () => Promise<unknown>;
+  key: (item: Item) => string;
+  describe: (item: Item) => string;
+  // Comparable, writable part of an item
+  fields: (item: Item) => Item;
+  // Each returns an optional note shown with the result (saved: item of the archive)
+  create?: (wanted: Item, saved: Item) => Promise<string | void>;
+  update?: (current: Item, changes: Item, saved: Item) => Promise<string | void>;
+  remove?: (current: Item) => Promise<string | void>;
+  // Why a change without handler can't be applied
+  unsupported?: Partial<Record<RestoreChangeKind, string>>;
+}
+
+type Section = ConfigSection | ListSection;
+
+// A change of the preview, with what applying it does on the current box
+interface PlannedChange {
+  change: RestoreChange;
+  apply?: () => Promise<string | void>;
+}
+
+export const BACKUP_FORMAT = 'freebox-dashboard-backup';
+export const BACKUP_VERSION = 1;
+
+const WIFI_BSS_FIELDS = ['enabled', 'use_default_config', 'ssid', 'hide_ssid', 'encryption', 'key', 'eapol_version'];
+const NETWORK_CONTROL_FIELDS = ['macs', 'cdayranges'];
+const NETWORK_CONTROL_RULE_FIELDS = ['name', 'mode', 'start_time', 'end_time', 'weekdays', 'enabled'];
+
+/**
+ * Unwrap a Freebox response, its message becomes the error
+ */
+const expectResult = async (call: Promise<FreeboxResult>): Promise<unknown> => {
+  const response = await call;
+  if (!response.success) {
+    throw new Error(response.msg || response.error_code || 'Erreur de l\'API Freebox');
+  }
+  return response.result;
+};
+
+const expectDone = async (call: Promise<FreeboxResult>): Promise<void> => {
+  await expectResult(call);
+};
+
+const asItem = (value: unknown): Item =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Item : {};
+
+const asItems = (value: unknown): Item[] => (Array.isArray(value) ? value.map(asItem) : []);
+
+const pick = (item: Item, keys: string[]): Item =>
+  Object.fromEntries(keys.filter(key => item[key] !== undefined).map(key => [key, item[key]]));
+
+const omit = (item: Item, keys: string[] = []): Item =>
+  Object.fromEntries(Object.entries(item).filter(([key]) => !keys.includes(key)));
+
+// JSON with sorted keys, so that key order doesn't count as a change
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v as Item).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  ) ?? 'undefined';
+
+// Fields of wanted whose value differs on the box
+const changedFields = (current: Item, wanted: Item): string[] =>
+  Object.keys(wanted).filter(key => canonical(current[key]) !== canonical(wanted[key]));
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const configSection = (
+  label: string,
+  read: () => Promise<FreeboxResult>,
+  write: (changes: Item) => Promise<FreeboxResult>,
+  options: Pick<ConfigSection, 'readOnly' | 'note'> = {}
+): ConfigSection => ({ type: 'config', label, read: () => expectResult(read()), write, ...options });
+
+const findProfileId = async (name: string): Promise<number> => {
+  const profiles = asItems(await expectResult(freeboxApi.getProfiles()));
+  const profile = profiles.find(p => p.name === name);
+  if (!profile) throw new Error(`Profil parental introuvable : ${name}`);
+  return Number(profile.id);
+};
+
+/**
+ * Network control of a profile and its rules, looked up by profile name when
+ * applied (the profile may have been created earlier in the same restore)
+ */
+const applyNetworkControl = async (profile: string, changes: Item): Promise<void> => {
+  const profileId = await findProfileId(profile);
+  const control = pick(changes, NETWORK_CONTROL_FIELDS);
+  if (Object.keys(control).length > 0) {
+    await expectDone(freeboxApi.updateNetworkControlForProfile(profileId, control));
+  }
+  if (!('rules' in changes)) return;
+
+  // Rules have no natural key: replace them all
+  const existing = asItems(await expectResult(freeboxApi.getNetworkControlRules(profileId)));
+  for (const rule of existing) {
+    await expectDone(freeboxApi.deleteNetworkControlRule(profileId, Number(rule.id)));
+  }
+  for (const rule of asItems(changes.rules)) {
+    await expectDone(freeboxApi.createNetworkControlRule(profileId, { ...rule, profile_id: profileId }));
+  }
+};
+
+const generatePassword = (): string => crypto.randomBytes(12).toString('base64url');
+
+const SECTIONS: Record<BackupSectionId, Section> = {
+  connection: configSection(
+    'Connexion (accès distant, ping, WoL, blocage de pub)',
+    () => freeboxApi.getConnectionConfig(),
+    changes => freeboxApi.updateConnectionConfig(changes),
+    { readOnly: ['is_secure_pass', 'adblock_not_set', 'api_remote_access', 'remote_access_ip', 'remote_access_min_port', 'remote_access_max_port', 'api_domain', 'https_available'] }
+  ),
+  ipv6: configSection(
+    'IPv6',
+    () => freeboxApi.getIpv6Config(),
+    changes => freeboxApi.updateIpv6Config(changes),
+    { readOnly: ['ipv6ll'] }
+  ),
+  lan: configSection(
+    'Réseau local',
+    () => freeboxApi.getLanConfig(),
+    changes => freeboxApi.updateLanConfig(changes),
+    { note: fields => (fields.includes('ip') ? 'L\'adresse IP de la Freebox change, le dashboard peut perdre la connexion' : undefined) }
+  ),
+  dhcp: configSection(
+    'Serveur DHCP',
+    () => freeboxApi.getDhcpConfig(),
+    changes => freeboxApi.updateDhcpConfig(changes),
+    { readOnly: ['gateway', 'netmask'] }
+  ),
+  dhcp_static_leases: {
+    type: 'list',
+    label: 'Baux DHCP statiques',
+    read: () => expectResult(freeboxApi.getDhcpStaticLeases()),
+    key: item => String(item.mac).toLowerCase(),
+    describe: item => `${item.mac} → ${item.ip}${item.comment ? ` (${item.comment})` : ''}`,
+    fields: item => ({ mac: String(item.mac).toLowerCase(), ip: item.ip, comment: item.comment ?? '' }),
+    create: wanted => expectDone(freeboxApi.addDhcpStaticLease(String(wanted.mac), String(wanted.ip), String(wanted.comment ?? ''))),
+    update: (current, changes) => expectDone(freeboxApi.updateDhcpStaticLease(String(current.id), changes)),
+    remove: current => expectDone(freeboxApi.deleteDhcpStaticLease(String(current.id)))
+  },
+  port_forwarding: {
+    type: 'list',
+    label: 'Redirections de ports',
+    read: () => expectResult(freeboxApi.getPortForwardingRules()),
+    key: item => `${item.ip_proto}/${item.wan_port_start}-${item.wan_port_end}`,
+    describe: item => {
+      const ports = item.wan_port_end && item.wan_port_end !== item.wan_port_start
+        ? `${item.wan_port_start}-${item.wan_port_end}`
+        : String(item.wan_port_start);
+      return `${String(item.ip_proto).toUpperCase()} ${ports} → ${item.lan_ip}:${item.lan_port}${item.comment ? ` (${item.comment})` : ''}`;
+    },
+    fields: item => pick(item, ['enabled', 'ip_proto', 'wan_port_start', 'wan_port_end', 'lan_port', 'lan_ip', 'src_ip', 'comment']),
+    create: wanted => expectDone(freeboxApi.createPortForwardingRule(wanted)),
+    update: (current, changes) => expectDone(freeboxApi.updatePortForwardingRule(Number(current.id), changes)),
+    remove: current => expectDone(freeboxApi.deletePortForwardingRule(Number(current.id)))
+  },
+  dmz: configSection('DMZ', () => freeboxApi.getDmzConfig(), changes => freeboxApi.updateDmzConfig(changes)),
+  ftp: configSection('Serveur FTP', () => freeboxApi.getFtpConfig(), changes => freeboxApi.updateFtpConfig(changes)),
+  lcd: configSection('Écran LCD', () => freeboxApi.getLcdConfig(), changes => freeboxApi.updateLcdConfig(changes)),
+  wifi_bss: {
+    type: 'list',
+    label: 'Réseaux WiFi',
+    read: () => expectResult(freeboxApi.getWifiBss()),
+    key: item => String(item.id),
+    describe: item => `${asItem(item.config).ssid || item.id} (${item.id})`,
+    fields: item => pick(asItem(item.config), WIFI_BSS_FIELDS),
+    update: (current, changes) => expectDone(freeboxApi.updateWifiBss(String(current.id), changes)),
+    unsupported: {
+      create: 'Ce point d\'accès WiFi n\'existe pas sur cette Freebox',
+      delete: 'Les points d\'accès WiFi dépendent du modèle de Freebox'
+    }
+  },
+  wifi_planning: configSection(
+    'Planning WiFi',
+    () => freeboxApi.getWifiPlanning(),
+    changes => freeboxApi.updateWifiPlanning(changes)
+  ),
+  wifi_guest_config: configSection(
+    'Accès invité WiFi',
+    () => freeboxApi.getWifiCustomKeyConfig(),
+    changes => freeboxApi.updateWifiCustomKeyConfig(changes)
+  ),
+  wifi_guest_keys: {
+    type: 'list',
+    label: 'Clés WiFi invité',
+    read: () => expectResult(freeboxApi.getWifiCustomKeys()),
+    key: item => String(asItem(item.params).key),
+    describe: item => String(asItem(item.params).description || 'Clé invité'),
+    fields: item => pick(asItem(item.params), ['key', 'description', 'max_use_count', 'duration', 'access_type']),
+    create: wanted => expectDone(freeboxApi.createWifiCustomKey(wanted)),
+    remove: current => expectDone(freeboxApi.deleteWifiCustomKey(Number(current.id))),
+    unsupported: { update: 'La Freebox ne permet pas de modifier une clé invité, supprimez-la puis recréez-la' }
+  },
+  vpn_servers: {
+    type: 'list',
+    label: 'Serveurs VPN',
+    read: async () => {
+      const servers = asItems(await expectResult(freeboxApi.getVpnServers()));
+      const configs: Item[] = [];
+      for (const server of servers) {
+        const name = String(server.name);
+        configs.push({ server: name, config: await expectResult(freeboxApi.getVpnServerConfig(name)) });
+      }
+      return configs;
+    },
+    key: item => String(item.server),
+    describe: item => `Serveur ${item.server}`,
+    fields: item => omit(asItem(item.config), ['id', 'type']),
+    update: (current, changes) => expectDone(freeboxApi.updateVpnServerConfig(String(current.server), changes)),
+    unsupported: {
+      create: 'Ce serveur VPN n\'existe pas sur cette Freebox',
+      delete: 'Les serveurs VPN intégrés ne peuvent pas être supprimés'
+    }
+  },
+  vpn_users: {
+    type: 'list',
+    label: 'Utilisateurs VPN',
+    read: () => expectResult(freeboxApi.getVpnUsers()),
+    key: item => String(item.login),
+    describe: item => String(item.login),
+    fields: item => pick(item, ['login', 'ip_reservation']),
+    // Passwords are never exported by the box
+    create: async wanted => {
+      const password = generatePassword();
+      await expectDone(freeboxApi.createVpnUser({ ...wanted, password }));
+      return `Nouveau mot de passe : ${password}`;
+    },
+    remove: current => expectDone(freeboxApi.deleteVpnUser(String(current.login))),
+    unsupported: { update: 'La Freebox ne permet pas de modifier un utilisateur VPN, supprimez-le puis recréez-le' }
+  },
+  parental_config: configSection(
+    'Contrôle parental',
+    () => freeboxApi.getParentalConfig(),
+    changes => freeboxApi.updateParentalConfig(changes)
+  ),
+  parental_profiles: {
+    type: 'list',
+    label: 'Profils parentaux',
+    read: () => expectResult(freeboxApi.getProfiles()),
+    key: item => String(item.name),
+    describe: item => String(item.name),
+    fields: item => pick(item, ['name', 'icon']),
+    create: wanted => expectDone(freeboxApi.createProfile(wanted)),
+    update: (current, changes) => expectDone(freeboxApi.updateProfile(Number(current.id), changes)),
+    remove: current => expectDone(freeboxApi.deleteProfile(Number(current.id)))
+  },
+  network_control: {
+    type: 'list',
+    label: 'Règles d\'accès des profils',
+    // Profile ids differ between boxes, controls and rules are saved by profile name
+    read: async () => {
+      const profiles = asItems(await expectResult(freeboxApi.getProfiles()));
+      const controls = asItems(await expectResult(freeboxApi.getNetworkControl()));
+      const result: Item[] = [];
+      for (const profile of profiles) {
+        const rules = asItems(await expectResult(freeboxApi.getNetworkControlRules(Number(profile.id))));
+        result.push({
+          profile: profile.name,
+          ...pick(controls.find(c => c.profile_id === profile.id) ?? {}, NETWORK_CONTROL_FIELDS),
+          rules: rules.map(rule => pick(rule, NETWORK_CONTROL_RULE_FIELDS))
+        });
+      }
+      return result;
+    },
+    key: item => String(item.profile),
+    describe: item => `Profil ${item.profile}`,
+    fields: item => pick(item, [...NETWORK_CONTROL_FIELDS, 'rules']),
+    create: (wanted, saved) => applyNetworkControl(String(saved.profile), wanted),
+    update: (_current, changes, saved) => applyNetworkControl(String(saved.profile), changes),
+    unsupported: { delete: 'Supprimé avec le profil parental' }
+  },
+  parental_filters: {
+    type: 'list',
+    label: 'Filtres parentaux',
+    read: () => expectResult(freeboxApi.getParentalFilters()),
+    key: item => String(item.description || item.id),
+    describe: item => String(item.description || `Filtre ${item.id}`),
+    fields: item => omit(item, ['id']),
+    create: wanted => expectDone(freeboxApi.createParentalFilter(wanted)),
+    update: (current, changes) => expectDone(freeboxApi.updateParentalFilter(Number(current.id), changes)),
+    remove: current => expectDone(freeboxApi.deleteParentalFilter(Number(current.id)))
+  },
+  downloads_config: configSection(
+    'Gestionnaire de téléchargements',
+    () => freeboxApi.getDownloadConfig(),
+    changes => freeboxApi.updateDownloadConfig(changes)
+  )
+};
+
+const SECTION_IDS = Object.keys(SECTIONS) as BackupSectionId[];
+
+const changeId = (section: BackupSectionId, kind: RestoreChangeKind, key: string) => `${section}:${kind}:${key}`;
+
+/**
+ * Freebox configuration backup and restore
+ *
+ * An archive holds what the API returns for each section. Restoring compares
+ * it with the current box: the preview lists creations, updates and deletions,
+ * and the restore recomputes that diff before applying the selected changes,
+ * so running it twice changes nothing the second time.
+ */
+class ConfigBackupService {
+  getSections(): BackupSectionInfo[] {
+    return SECTION_IDS.map(id => ({ id, label: SECTIONS[id].label }));
+  }
+
+  async createArchive(): Promise<BackupArchive> {
+    const boxId = currentBoxId();
+    const version = await freeboxApi.getApiVersion();
+    const info = version.success ? asItem(version.result) : {};
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      box: {
+        id: boxId,
+        name: boxProfiles.get(boxId)?.name ?? boxId,
+        model: typeof info.box_model_name === 'string' ? info.box_model_name : null,
+        apiVersion: typeof info.api_version === 'string' ? info.api_version : null
+      },
+      ...await this.readSections(SECTION_IDS)
+    };
+    return archive;
+  }
+
+  /**
+   * Current data of some sections on the box of the request
+   */
+  async readSections(ids: BackupSectionId[]): Promise<Pick<BackupArchive, 'sections' | 'errors'>> {
+    const sections: BackupArchive['sections'] = {};
+    const errors: BackupArchive['errors'] = {};
+
+    // One section at a time, the box rate-limits bursts of requests
+    for (const id of ids) {
+      try {
+        sections[id] = await SECTIONS[id].read();
+      } catch (error) {
+        errors[id] = errorMessage(error);
+      }
+    }
+    return { sections, errors };
+  }
+
+  /**
+   * Check an uploaded archive before using it
+   */
+  parseArchive(input: unknown): BackupArchive {
+    const archive = asItem(input);
+    if (archive.format !== BACKUP_FORMAT) {
+      throw new Error('Ce fichier n\'est pas une sauvegarde du dashboard');
+    }
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+      throw new Error(`Version de sauvegarde non prise en charge : ${String(archive.version)}`);
+    }
+    const sections = asItem(archive.sections);
+    return {
+      format: BACKUP_FORMAT,
+      version: archive.version,
+      createdAt: Number(archive.createdAt) || 0,
+      box: { id: '', name: '', model: null, apiVersion: null, ...asItem(archive.box) } as BackupArchive['box'],
+      sections: pick(sections, SECTION_IDS) as BackupArchive['sections'],
+      errors: pick(asItem(archive.errors), SECTION_IDS) as BackupArchive['errors']
+    };
+  }
+
+  async preview(archive: BackupArchive, sections?: BackupSectionId[]): Promise<RestorePreview> {
+    const { planned, skipped } = await this.plan(archive, sections);
+    return {
+      createdAt: archive.createdAt,
+      box: archive.box,
+      changes: planned.map(p => p.change),
+      skipped
+    };
+  }
+
+  /**
+   * Apply the selected changes in section order (profiles before their rules)
+   */
+  async restore(archive: BackupArchive, changeIds: string[]): Promise<RestoreResult[]> {
+    const selected = new Set(changeIds);
+    const sections = SECTION_IDS.filter(id => changeIds.some(changeId => changeId.startsWith(`${id}:`)));
+    const { planned } = await this.plan(archive, sections);
+    const results: RestoreResult[] = [];
+
+    for (const { change, apply } of planned) {
+      if (!selected.has(change.id)) continue;
+      selected.delete(change.id);
+      if (!apply) {
+        results.push({ id: change.id, status: 'skipped', note: change.note });
+        continue;
+      }
+      try {
+        const note = await apply();
+        results.push({ id: change.id, status: 'applied', ...(note ? { note } : {}) });
+      } catch (error) {
+        results.push({ id: change.id, status: 'failed', error: errorMessage(error) });
+      }
+    }
+
+    // Selected in the preview but no longer different
+    selected.forEach(id => results.push({ id, status: 'skipped', note: 'Déjà à jour' }));
+    return results;
+  }
+
+  /**
+   * Snapshot form of section data: read-only fields dropped, items in key order
+   */
+  normalize(sections: BackupArchive['sections']): BackupArchive['sections'] {
+    const normalized: BackupArchive['sections'] = {};
+    (Object.keys(sections) as BackupSectionId[]).forEach(id => {
+      const section = SECTIONS[id];
+      normalized[id] = section.type === 'config'
+        ? omit(asItem(sections[id]), section.readOnly)
+        : asItems(sections[id]).sort((a, b) => section.key(a).localeCompare(section.key(b)));
+    });
+    return normalized;
+  }
+
+  /**
+   * Differences between two sets of section data (snapshots), without
+   * reading the box: what changed from `before` to `after`
+   */
+  compare(before: BackupArchive['sections'], after: BackupArchive['sections']): RestoreChange[] {
+    return SECTION_IDS
+      .filter(id => before[id] !== undefined && after[id] !== undefined)
+      .flatMap(id => {
+        const section = SECTIONS[id];
+        const planned = section.type === 'config'
+          ? this.planConfig(id, section, asItem(after[id]), asItem(before[id]))
+          : this.planList(id, section, asItems(after[id]), asItems(before[id]));
+        return planned.map(p => p.change);
+      });
+  }
+
+  /**
+   * Undo one change found by compare(): bring the changed fields or item back
+   * to its `before` state, leaving the rest of the section as it is on the box
+   */
+  async revertChange(change: RestoreChange, before: unknown): Promise<RestoreResult> {
+    const section = SECTIONS[change.section];
+    const live = await this.readSections([change.section]);
+    if (live.errors[change.section]) {
+      return { id: change.id, status: 'failed', error: live.errors[change.section] };
+    }
+
+    let target: unknown;
+    let kind: RestoreChangeKind = 'update';
+    if (section.type === 'config') {
+      target = { ...asItem(live.sections[change.section]), ...pick(asItem(before), change.fields) };
+    } else {
+      const others = asItems(live.sections[change.section]).filter(item => section.key(item) !== change.key);
+      const previous = asItems(before).find(item => section.key(item) === change.key);
+      target = previous ? [...others, previous] : others;
+      if (change.kind === 'create') kind = 'delete';
+      if (change.kind === 'delete') kind = 'create';
+    }
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      box: { id: currentBoxId(), name: '', model: null, apiVersion: null },
+      sections: { [change.section]: target },
+      errors: {}
+    };
+    const [result] = await this.restore(archive, [changeId(change.section, kind, change.key)]);
+    return { ...result, id: change.id };
+  }
+
+  private async plan(archive: BackupArchive, only?: BackupSectionId[]) {
+    const planned: PlannedChange[] = [];
+    const skipped: RestorePreview['skipped'] = [];
+
+    // Section order, whatever the order requested
+    for (const id of only ? SECTION_IDS.filter(id => only.includes(id)) : SECTION_IDS) {
+      const section = SECTIONS[id];
+      if (archive.sections[id] === undefined) {
+        const reason = archive.errors[id] ? `Non sauvegardée : ${archive.errors[id]}` : 'Absente de la sauvegarde';
+        skipped.push({ section: id, reason });
+        continue;
+      }
+      try {
+        const current = await section.read();
+        planned.push(...(section.type === 'config'
+          ? this.planConfig(id, section, asItem(archive.sections[id]), asItem(current))
+          : this.planList(id, section, asItems(archive.sections[id]), asItems(current))));
+      } catch (error) {
+        skipped.push({ section: id, reason: `Lecture impossible sur cette Freebox : ${errorMessage(error)}` });
+      }
+    }
+    return { planned, skipped };
+  }
+
+  private planConfig(id: BackupSectionId, section: ConfigSection, saved: Item, current: Item): PlannedChange[] {
+    const wanted = omit(saved, section.readOnly);
+    const fields = changedFields(current, wanted);
+    if (fields.length === 0) return [];
+
+    const changes = pick(wanted, fields);
+    return [{
+      change: {
+        id: changeId(id, 'update', id),
+        section: id,
+        kind: 'update',
+        key: id,
+        label: section.label,
+        fields,
+        before: pick(current, fields),
+        after: changes,
+        applicable: true,
+        note: section.note?.(fields)
+      },
+      apply: () => expectDone(section.write(changes))
+    }];
+  }
+
+  private planList(id: BackupSectionId, section: ListSection, saved: Item[], current: Item[]): PlannedChange[] {
+    const currentByKey = new Map(current.map(item => [section.key(item), item]));
+    const savedKeys = new Set<string>();
+    const planned: PlannedChange[] = [];
+
+    const add = (kind: RestoreChangeKind, key: string, item: Item, details: Pick<RestoreChange, 'fields' | 'before' | 'after'>, apply?: () => Promise<string | void>) => {
+      planned.push({
+        change: {
+          id: changeId(id, kind, key),
+          section: id,
+          kind,
+          key,
+          label: section.describe(item),
+          ...details,
+          applicable: apply !== undefined,
+          note: apply ? undefined : section.unsupported?.[kind]
+        },
+        apply
+      });
+    };
+
+    for (const item of saved) {
+      const key = section.key(item);
+      savedKeys.add(key);
+      const wanted = section.fields(item);
+      const existing = currentByKey.get(key);
+
+      if (!existing) {
+        const create = section.create;
+        add('create', key, item, { fields: [], before: null, after: wanted }, create && (() => create(wanted, item)));
+        continue;
+      }
+
+      const before = section.fields(existing);
+      const fields = changedFields(before, wanted);
+      if (fields.length === 0) continue;
+      const changes = pick(wanted, fields);
+      const update = section.update;
+      add('update', key, item, { fields, before: pick(before, fields), after: changes }, update && (() => update(existing, changes, item)));
+    }
+
+    currentByKey.forEach((existing, key) => {
+      if (savedKeys.has(key)) return;
+      const remove = section.remove;
+      add('delete', key, existing, { fields: [], before: section.fields(existing), after: null }, remove && (() => remove(existing)));
+    });
+
+    return planned;
+  }
+}
+
+export const configBackup = new ConfigBackupService();
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { config } from '../config.js';
+import { freeboxApis } from './freeboxApi.js';
+import { configBackup } from './configBackup.js';
+import { createBoxScoped, runWithBox } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
+import type { BackupSectionId, RestoreChange, RestoreResult } from '../types/backup.js';
+import type {
+  ConfigChangeEvent,
+  ConfigCheckTrigger,
+  ConfigHistoryStatus,
+  ConfigSnapshot
+} from '../types/configHistory.js';
+
+interface HistoryFile {
+  snapshots: ConfigSnapshot[];
+  events: ConfigChangeEvent[];
+}
+
+// Settings someone (or a firmware update) may change behind our back
+export const TRACKED_SECTIONS: BackupSectionId[] = [
+  'connection',
+  'ipv6',
+  'lan',
+  'dhcp',
+  'dhcp_static_leases',
+  'port_forwarding',
+  'dmz',
+  'ftp',
+  'wifi_bss',
+  'wifi_planning',
+  'wifi_guest_config'
+];
+
+const MINUTE = 60 * 1000;
+
+// Let the Freebox session open before the first snapshot
+const FIRST_CHECK_DELAY = 30000;
+
+/**
+ * Configuration drift detection
+ *
+ * Snapshots the tracked sections every `config.configHistory.interval`
+ * minutes while the server holds a Freebox session. A snapshot is only kept
+ * when it differs from the previous one; the differences become a change
+ * event of the timeline, and any of its changes can be reverted through the
+ * same Freebox calls as a backup restore.
+ */
+class ConfigHistoryService {
+  private boxId: string;
+  private snapshots: ConfigSnapshot[] = [];
+  private events: ConfigChangeEvent[] = [];
+  private filePath: string;
+  private interval: NodeJS.Timeout | null = null;
+  private firstCheck: NodeJS.Timeout | null = null;
+  private checking: Promise<ConfigChangeEvent | null> | null = null;
+  private lastCheckAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(boxId: string) {
+    this.boxId = boxId;
+    this.filePath = boxProfiles.getDataFile(boxId, '.config_history.json');
+    this.load();
+
+    if (config.configHistory.enabled) {
+      this.interval = setInterval(() => this.poll(), config.configHistory.interval * MINUTE);
+      this.interval.unref();
+      this.firstCheck = setTimeout(() => this.poll(), FIRST_CHECK_DELAY);
+      this.firstCheck.unref();
+    }
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const parsed: Partial<HistoryFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.snapshots = Array.isArray(parsed.snapshots) ? parsed.snapshots : [];
+      this.events = Array.isArray(parsed.events) ? parsed.events : [];
+    } catch (error) {
+      console.error('[ConfigHistory] Failed to load history:', error);
+    }
+  }
+
+  private save() {
+    const data: HistoryFile = { snapshots: this.snapshots, events: this.events };
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[ConfigHistory] Failed to save history:', error);
+    }
+  }
+
+  getStatus(): ConfigHistoryStatus {
+    const tracked = configBackup.getSections().filter(s => TRACKED_SECTIONS.includes(s.id));
+    return {
+      enabled: config.configHistory.enabled,
+      interval: config.configHistory.interval,
+      lastCheckAt: this.lastCheckAt,
+      lastError: this.lastError,
+      snapshots: this.snapshots.length,
+      sections: tracked
+    };
+  }
+
+  // Newest first
+  getEvents(limit?: number): ConfigChangeEvent[] {
+    const events = [...this.events].reverse();
+    return limit ? events.slice(0, limit) : events;
+  }
+
+  // Snapshot list without their data, newest first
+  getSnapshots(): Array<Omit<ConfigSnapshot, 'sections'>> {
+    return [...this.snapshots].reverse().map(({ id, takenAt, firmware }) => ({ id, takenAt, firmware }));
+  }
+
+  /**
+   * Changes between two kept snapshots (from the older to the newer state)
+   */
+  diff(fromId: string, toId: string): RestoreChange[] | null {
+    const from = this.snapshots.find(s => s.id === fromId);
+    const to = this.snapshots.find(s => s.id === toId);
+    if (!from || !to) return null;
+    return configBackup.compare(from.sections, to.sections);
+  }
+
+  private async poll() {
+    const api = freeboxApis.forBox(this.boxId);
+    // Like the metrics collector: only while a session is open
+    if (!api.isLoggedIn()) return;
+    await this.check('poll').catch(() => undefined);
+  }
+
+  /**
+   * Take a snapshot now; returns the change event when something changed.
+   * Concurrent calls share the same check.
+   */
+  check(trigger: ConfigCheckTrigger): Promise<ConfigChangeEvent | null> {
+    if (!this.checking) {
+      this.checking = this.snapshot(trigger).finally(() => {
+        this.checking = null;
+      });
+    }
+    return this.checking;
+  }
+
+  private async snapshot(trigger: ConfigCheckTrigger): Promise<ConfigChangeEvent | null> {
+    const api = freeboxApis.forBox(this.boxId);
+    const previous = this.snapshots[this.snapshots.length - 1];
+
+    const { sections, errors } = await runWithBox(this.boxId, () => configBackup.readSections(TRACKED_SECTIONS));
+    const system = await api.getSystemInfo();
+    const info = system.success ? system.result as Record<string, unknown> : {};
+    this.lastCheckAt = Date.now();
+
+    const failed = Object.keys(errors) as BackupSectionId[];
+    if (failed.length === TRACKED_SECTIONS.length) {
+      this.lastError = Object.values(errors)[0] ?? 'Lecture impossible';
+      throw new Error(this.lastError);
+    }
+    this.lastError = failed.length > 0 ? `Lecture impossible : ${failed.join(', ')}` : null;
+
+    // A section that can't be read now keeps its previous state instead of looking deleted
+    failed.forEach(id => {
+      if (previous?.sections[id] !== undefined) sections[id] = previous.sections[id];
+    });
+
+    const current: ConfigSnapshot = {
+      id: crypto.randomUUID(),
+      takenAt: this.lastCheckAt,
+      firmware: typeof info.firmware_version === 'string' ? info.firmware_version : previous?.firmware ?? null,
+      sections: configBackup.normalize(sections)
+    };
+
+    // First snapshot: the baseline
+    if (!previous) {
+      this.snapshots.push(current);
+      this.save();
+      return null;
+    }
+
+    const changes = configBackup.compare(previous.sections, current.sections);
+    const firmwareChanged = current.firmware !== previous.firmware;
+    if (changes.length === 0 && !firmwareChanged) return null;
+
+    const event: ConfigChangeEvent = {
+      id: crypto.randomUUID(),
+      detectedAt: current.takenAt,
+      trigger,
+      fromSnapshot: previous.id,
+      toSnapshot: current.id,
+      firmware: firmwareChanged ? { from: previous.firmware, to: current.firmware } : null,
+      changes,
+      reverted: {}
+    };
+    this.snapshots.push(current);
+    this.events.push(event);
+    this.prune();
+    this.save();
+    console.log(`[ConfigHistory] ${changes.length} change(s) detected on box ${this.boxId}`);
+    return event;
+  }
+
+  /**
+   * Keep the newest events and the snapshots they (or the next diff) need
+   */
+  private prune() {
+    this.events = this.events.slice(-config.configHistory.maxEvents);
+    const needed = new Set(this.events.flatMap(e => [e.fromSnapshot, e.toSnapshot]));
+    const latest = this.snapshots[this.snapshots.length - 1];
+    this.snapshots = this.snapshots.filter(s => s === latest || needed.has(s.id));
+  }
+
+  /**
+   * Bring one change of an event back to its previous value, then snapshot
+   * again so that the revert shows up in the timeline
+   */
+  async revert(eventId: string, changeId: string): Promise<RestoreResult | null> {
+    const event = this.events.find(e => e.id === eventId);
+    const change = event?.changes.find(c => c.id === changeId);
+    const before = this.snapshots.find(s => s.id === event?.fromSnapshot);
+    if (!event || !change || !before) return null;
+
+    const result = await runWithBox(this.boxId, () =>
+      configBackup.revertChange(change, before.sections[change.section])
+    );
+    if (result.status === 'applied') {
+      event.reverted[change.id] = Date.now();
+      this.save();
+      await this.check('revert').catch(() => undefined);
+    }
+    return result;
+  }
+
+  /**
+   * Stop the timers and delete the history (profile removed)
+   */
+  destroy() {
+    if (this.interval) clearInterval(this.interval);
+    if (this.firstCheck) clearTimeout(this.firstCheck);
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+}
+
+// One history per Freebox profile; `configHistory` targets the box of the current request
+export const configHistories = createBoxScoped(boxId => new ConfigHistoryService(boxId));
+export const configHistory = configHistories.proxy;
+
+// Start the snapshots of every box
+boxProfiles.list().forEach(box => configHistories.forBox(box.id));
+
+boxProfiles.onRemove(boxId => {
+  configHistories.forBox(boxId).destroy();
+  configHistories.delete(boxId);
+});
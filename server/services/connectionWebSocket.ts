@@ -1,45 +1,57 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import type { WebSocket as WsType } from 'ws';
-import { freeboxApi } from './freeboxApi.js';
-import { normalizeSystemInfo } from './apiNormalizer.js';
-
-interface ConnectionStatus {
-  type: string;
-  state: string;
-  media: string;
-  ipv4: string;
-  ipv4_port_range: [number, number];
-  ipv6: string;
-  rate_down: number;
-  rate_up: number;
-  bandwidth_down: number;
-  bandwidth_up: number;
-  bytes_down: number;
-  bytes_up: number;
+import type { WebSocket as WsType, RawData } from 'ws';
+import { freeboxApis } from './freeboxApi.js';
+import { freeboxEventSockets, type NativeEvent } from './freeboxEventSocket.js';
+import { dashboardAuth } from './dashboardAuth.js';
+import { boxProfiles } from './boxProfiles.js';
+import { currentBoxId, runWithBox } from './boxContext.js';
+import { TOPIC_DEFINITIONS, WS_TOPICS, type WsTopic } from './wsTopics.js';
+import { getRequestUser, getSessionId, isAllowedOrigin } from '../middleware/auth.js';
+import { getRequestedBoxId } from '../middleware/box.js';
+import { hasAccess } from '../types/roles.js';
+
+type ClientWebSocket = WsType & {
+  isAlive?: boolean;
+  sessionId?: string;
+  boxId?: string;
+  topics?: Set<WsTopic>;
+};
+
+interface ClientMessage {
+  action?: string;
+  topics?: unknown;
 }
 
-interface SystemStatus {
-  temp_cpu0?: number;
-  temp_cpu1?: number;
-  temp_cpu2?: number;
-  temp_cpu3?: number;
-  temp_cpum?: number;
-  temp_cpub?: number;
-  temp_sw?: number;
-  fan_rpm?: number;
-  uptime_val?: number;
+interface TopicState {
+  boxId: string;
+  topic: WsTopic;
+  subscribers: Set<ClientWebSocket>;
+  timer: NodeJS.Timeout | null;
+  // Last published payload, sent right away to new subscribers
+  snapshot?: unknown;
+  fetching: boolean;
+  unwatch?: () => void;
 }
 
-type ClientWebSocket = WsType & { isAlive?: boolean };
-
-const CONNECTION_POLLING_INTERVAL = 1000; // 1 second for connection data
-const SYSTEM_POLLING_INTERVAL = 5000; // 5 seconds for system data (less frequent)
-
+const isTopic = (value: unknown): value is WsTopic =>
+  typeof value === 'string' && (WS_TOPICS as readonly string[]).includes(value);
+
+/**
+ * Multiplexed dashboard WebSocket (/ws/connection?box=<id>)
+ *
+ * Clients subscribe to topics ({ action: 'subscribe', topics: [...] }). Each
+ * topic is polled once per Freebox on the server while it has subscribers and
+ * every update is fanned out as { type: 'update', topic, data }, so the load
+ * on the Freebox no longer grows with the number of open tabs. LAN and VM
+ * topics are also patched from the native Freebox event socket.
+ */
 class ConnectionWebSocketService {
   private wss: WebSocketServer | null = null;
-  private connectionPollingInterval: NodeJS.Timeout | null = null;
-  private systemPollingInterval: NodeJS.Timeout | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
+  // Keyed by "<boxId>:<topic>"
+  private topics = new Map<string, TopicState>();
+  // Boxes whose native event socket is relayed
+  private nativeBoxes = new Set<string>();
 
   /**
    * Initialize the WebSocket server
@@ -47,7 +59,25 @@ class ConnectionWebSocketService {
   init(server: import('http').Server) {
     console.log('[WS] Initializing WebSocket server...');
 
-    this.wss = new WebSocketServer({ server, path: '/ws/connection' });
+    this.wss = new WebSocketServer({
+      server,
+      path: '/ws/connection',
+      // Same protection as the REST API: a valid dashboard session is required
+      verifyClient: ({ req }, done) => {
+        if (!isAllowedOrigin(req)) {
+          console.warn('[WS] Rejected client from foreign origin:', req.headers.origin);
+          return done(false, 403, 'Forbidden');
+        }
+        if (!getRequestUser(req)) {
+          console.warn('[WS] Rejected unauthenticated client from:', req.socket.remoteAddress);
+          return done(false, 401, 'Unauthorized');
+        }
+        if (!boxProfiles.get(getRequestedBoxId(req))) {
+          return done(false, 404, 'Unknown Freebox');
+        }
+        done(true);
+      }
+    });
 
     console.log('[WS] WebSocket server created on path /ws/connection');
 
@@ -58,16 +88,25 @@ class ConnectionWebSocketService {
     this.wss.on('connection', (ws: ClientWebSocket, req) => {
       console.log('[WS] Client connected from:', req.socket.remoteAddress);
       ws.isAlive = true;
+      // Kept to check the role of the user on every subscription and update
+      ws.sessionId = getSessionId(req);
+      ws.boxId = getRequestedBoxId(req);
+      ws.topics = new Set();
 
       ws.on('pong', () => {
         ws.isAlive = true;
       });
 
+      ws.on('message', (raw) => this.handleMessage(ws, raw));
+
       ws.on('close', () => {
         console.log('[WS] Client disconnected');
-        // Stop polling if no more clients
-        if (this.wss && this.wss.clients.size === 0) {
-          this.stopPolling();
+        for (const topic of ws.topics ?? []) {
+          this.unsubscribe(ws, topic);
+        }
+        // Stop native events if no more clients for this box
+        if (!this.hasBoxClients(ws.boxId!)) {
+          freeboxEventSockets.forBox(ws.boxId!).stop();
         }
       });
 
@@ -75,10 +114,16 @@ class ConnectionWebSocketService {
         console.error('[WS] Client error:', error.message);
       });
 
-      // Start polling if this is the first client
-      if (this.wss && this.wss.clients.size === 1) {
-        this.startPolling();
-      }
+      // LAN and VM changes are pushed by the Freebox
+      this.startNativeEvents(ws.boxId);
+    });
+
+    // Disconnect browsers still showing a deleted box
+    boxProfiles.onRemove((boxId) => {
+      this.wss?.clients.forEach((client) => {
+        if ((client as ClientWebSocket).boxId === boxId) client.close(4004, 'Freebox removed');
+      });
+      this.nativeBoxes.delete(boxId);
     });
 
     // Ping clients to detect stale connections
@@ -97,113 +142,189 @@ class ConnectionWebSocketService {
   }
 
   /**
-   * Start polling Freebox API for connection and system status
+   * Relay the native event socket of a box (listeners are attached once)
    */
-  private startPolling() {
-    if (this.connectionPollingInterval) return;
+  private startNativeEvents(boxId: string) {
+    const socket = freeboxEventSockets.forBox(boxId);
+    if (!this.nativeBoxes.has(boxId)) {
+      this.nativeBoxes.add(boxId);
+      socket.onEvent((event) => this.applyNativeEvent(boxId, event));
+      // Poll faster while native events are unavailable, catch up when they come back
+      socket.onStatusChange(() => {
+        for (const state of this.topics.values()) {
+          if (state.boxId === boxId && TOPIC_DEFINITIONS[state.topic].nativeInterval && state.subscribers.size > 0) {
+            this.refresh(state);
+          }
+        }
+      });
+    }
+    socket.start();
+  }
 
-    console.log('[WS] Starting connection and system status polling');
+  /**
+   * Handle subscribe / unsubscribe requests
+   */
+  private handleMessage(ws: ClientWebSocket, raw: RawData) {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.send(ws, { type: 'error', message: 'Message invalide' });
+      return;
+    }
 
-    // Connection status polling (every 1 second)
-    this.connectionPollingInterval = setInterval(async () => {
-      await this.fetchConnectionAndBroadcast();
-    }, CONNECTION_POLLING_INTERVAL);
+    const requested = Array.isArray(message.topics) ? message.topics : [];
+    const topics = requested.filter(isTopic);
+
+    if (message.action === 'subscribe') {
+      const denied: string[] = requested.filter(t => !isTopic(t)).map(String);
+      const accepted: WsTopic[] = [];
+      for (const topic of topics) {
+        if (this.canReceive(ws, topic)) {
+          accepted.push(topic);
+        } else {
+          denied.push(topic);
+        }
+      }
+      this.send(ws, { type: 'subscribed', topics: accepted, denied });
+      accepted.forEach(topic => this.subscribe(ws, topic));
+    } else if (message.action === 'unsubscribe') {
+      topics.forEach(topic => this.unsubscribe(ws, topic));
+    } else {
+      this.send(ws, { type: 'error', message: `Action inconnue : ${message.action}` });
+    }
+  }
 
-    // System status polling (every 5 seconds)
-    this.systemPollingInterval = setInterval(async () => {
-      await this.fetchSystemAndBroadcast();
-    }, SYSTEM_POLLING_INTERVAL);
+  private getState(boxId: string, topic: WsTopic): TopicState {
+    const key = `${boxId}:${topic}`;
+    let state = this.topics.get(key);
+    if (!state) {
+      state = { boxId, topic, subscribers: new Set(), timer: null, fetching: false };
+      this.topics.set(key, state);
+    }
+    return state;
+  }
 
-    // Fetch immediately
-    this.fetchConnectionAndBroadcast();
-    this.fetchSystemAndBroadcast();
+  private subscribe(ws: ClientWebSocket, topic: WsTopic) {
+    const state = this.getState(ws.boxId!, topic);
+    if (state.subscribers.has(ws)) return;
+    state.subscribers.add(ws);
+    ws.topics?.add(topic);
+
+    if (state.snapshot !== undefined) {
+      this.send(ws, { type: 'update', topic, data: state.snapshot });
+    }
+    // First subscriber: start polling the topic
+    if (state.subscribers.size === 1) {
+      console.log(`[WS] Starting topic ${topic} (${state.boxId})`);
+      state.unwatch = TOPIC_DEFINITIONS[topic].watch?.((data) => this.publish(state, data));
+      this.refresh(state);
+    }
+  }
+
+  private unsubscribe(ws: ClientWebSocket, topic: WsTopic) {
+    const key = `${ws.boxId}:${topic}`;
+    const state = this.topics.get(key);
+    if (!state || !state.subscribers.delete(ws)) return;
+    ws.topics?.delete(topic);
+
+    if (state.subscribers.size === 0) {
+      console.log(`[WS] Stopping topic ${topic} (${state.boxId})`);
+      if (state.timer) clearTimeout(state.timer);
+      state.unwatch?.();
+      this.topics.delete(key);
+    }
   }
 
   /**
-   * Stop polling
+   * Fetch a topic now, publish it and schedule the next poll
    */
-  private stopPolling() {
-    if (this.connectionPollingInterval) {
-      console.log('[WS] Stopping connection status polling');
-      clearInterval(this.connectionPollingInterval);
-      this.connectionPollingInterval = null;
+  private async refresh(state: TopicState) {
+    const definition = TOPIC_DEFINITIONS[state.topic];
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
     }
-    if (this.systemPollingInterval) {
-      console.log('[WS] Stopping system status polling');
-      clearInterval(this.systemPollingInterval);
-      this.systemPollingInterval = null;
+    if (state.fetching) return;
+
+    if (freeboxApis.forBox(state.boxId).isLoggedIn()) {
+      state.fetching = true;
+      try {
+        // Every freeboxApi call made by the topic goes to this box
+        const data = await runWithBox(state.boxId, () => definition.fetch());
+        if (data !== undefined && state.subscribers.size > 0) {
+          this.publish(state, data);
+        }
+      } catch {
+        // Silent fail - don't spam logs
+      } finally {
+        state.fetching = false;
+      }
     }
+
+    if (state.subscribers.size === 0 || state.timer) return;
+    const interval = freeboxEventSockets.forBox(state.boxId).isConnected() && definition.nativeInterval
+      ? definition.nativeInterval
+      : definition.interval;
+    state.timer = setTimeout(() => this.refresh(state), interval);
   }
 
-  /**
-   * Fetch connection status from Freebox and broadcast to clients
-   */
-  private async fetchConnectionAndBroadcast() {
-    if (!freeboxApi.isLoggedIn()) return;
-    if (!this.wss || this.wss.clients.size === 0) return;
+  private publish(state: TopicState, data: unknown) {
+    state.snapshot = data;
 
-    try {
-      const response = await freeboxApi.getConnectionStatus();
-      if (response.success && response.result) {
-        this.broadcast('connection_status', response.result as ConnectionStatus);
+    const message = JSON.stringify({ type: 'update', topic: state.topic, data });
+    for (const client of state.subscribers) {
+      if (client.readyState === WebSocket.OPEN && this.canReceive(client, state.topic)) {
+        client.send(message);
       }
-    } catch {
-      // Silent fail - don't spam logs
     }
   }
 
   /**
-   * Fetch system status from Freebox and broadcast to clients
+   * Patch the LAN / VM snapshots of a box from a native Freebox notification
    */
-  private async fetchSystemAndBroadcast() {
-    if (!freeboxApi.isLoggedIn()) return;
-    if (!this.wss || this.wss.clients.size === 0) return;
-
-    try {
-      const response = await freeboxApi.getSystemInfo();
-      if (response.success && response.result) {
-        // Use API normalizer for automatic compatibility with all Freebox models
-        const normalized = normalizeSystemInfo(response.result as Record<string, unknown>);
-
-        const systemStatus: SystemStatus = {
-          temp_cpu0: normalized.temp_cpu0,
-          temp_cpu1: normalized.temp_cpu1,
-          temp_cpu2: normalized.temp_cpu2,
-          temp_cpu3: normalized.temp_cpu3,
-          temp_cpum: normalized.temp_cpum,
-          temp_cpub: normalized.temp_cpub,
-          temp_sw: normalized.temp_sw,
-          fan_rpm: normalized.fan_rpm,
-          uptime_val: normalized.uptime_val as number | undefined
-        };
-
-        this.broadcast('system_status', systemStatus);
+  private applyNativeEvent(boxId: string, event: NativeEvent) {
+    for (const state of this.topics.values()) {
+      const applyEvent = TOPIC_DEFINITIONS[state.topic].applyEvent;
+      if (state.boxId !== boxId || !applyEvent || state.subscribers.size === 0) continue;
+
+      const updated = applyEvent(state.snapshot, event);
+      if (updated === null) {
+        this.refresh(state);
+      } else if (updated !== undefined) {
+        this.publish(state, updated);
       }
-    } catch {
-      // Silent fail - don't spam logs
     }
   }
 
-  /**
-   * Broadcast message to all connected clients
-   */
-  private broadcast(type: string, data: ConnectionStatus | SystemStatus) {
-    if (!this.wss) return;
+  // Can the dashboard user behind this socket read the topic?
+  private canReceive(client: ClientWebSocket, topic: WsTopic): boolean {
+    const user = dashboardAuth.getSessionUser(client.sessionId);
+    if (!user) return false;
+    const permission = TOPIC_DEFINITIONS[topic].permission;
+    return !permission || hasAccess(user.permissions[permission], 'read');
+  }
 
-    const message = JSON.stringify({ type, data });
+  private hasBoxClients(boxId: string): boolean {
+    return [...(this.wss?.clients ?? [])].some(client => (client as ClientWebSocket).boxId === boxId);
+  }
 
-    this.wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
+  private send(ws: ClientWebSocket, payload: object) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(payload));
+    }
   }
 
   /**
    * Close WebSocket server and stop polling
    */
   close() {
-    this.stopPolling();
+    for (const state of this.topics.values()) {
+      if (state.timer) clearTimeout(state.timer);
+      state.unwatch?.();
+    }
+    this.topics.clear();
+    this.nativeBoxes.forEach(boxId => freeboxEventSockets.forBox(boxId).stop());
 
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
@@ -219,19 +340,28 @@ class ConnectionWebSocketService {
   }
 
   /**
-   * Called when user logs in - start polling if clients connected
+   * Called when user logs in (request scoped to a box) - refresh its subscribed topics
    */
   onLogin() {
-    if (this.wss && this.wss.clients.size > 0) {
-      this.startPolling();
+    const boxId = currentBoxId();
+    if (!this.hasBoxClients(boxId)) return;
+    // New session token: register again to native events
+    freeboxEventSockets.forBox(boxId).restart();
+    this.startNativeEvents(boxId);
+    for (const state of this.topics.values()) {
+      if (state.boxId === boxId) this.refresh(state);
     }
   }
 
   /**
-   * Called when user logs out - stop polling
+   * Called when user logs out (request scoped to a box) - drop cached payloads and native events
    */
   onLogout() {
-    this.stopPolling();
+    const boxId = currentBoxId();
+    freeboxEventSockets.forBox(boxId).stop();
+    for (const state of this.topics.values()) {
+      if (state.boxId === boxId) state.snapshot = undefined;
+    }
   }
 }
 
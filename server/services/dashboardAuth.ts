@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import {
+  BUILTIN_ROLES,
+  DEFAULT_ROLE_ID,
+  normalizePermissions,
+  type DashboardRole,
+  type RolePermissions
+} from '../types/roles.js';
+
+// Dashboard user account (stored on disk, password is never kept in clear)
+export interface DashboardUser {
+  id: string;
+  username: string;
+  passwordHash: string;
+  salt: string;
+  role: string;
+  createdAt: number;
+  lastLoginAt?: number;
+}
+
+// User as exposed by the API (no credentials)
+export type PublicDashboardUser = Omit<DashboardUser, 'passwordHash' | 'salt'>;
+
+// Session user with its resolved role
+export interface AuthenticatedUser extends PublicDashboardUser {
+  admin: boolean;
+  permissions: RolePermissions;
+}
+
+export interface DashboardSession {
+  id: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+  ip?: string;
+}
+
+interface LoginAttempts {
+  count: number;
+  lockedUntil: number;
+}
+
+const SCRYPT_KEYLEN = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+
+class DashboardAuthService {
+  private users: DashboardUser[] = [];
+  private customRoles: DashboardRole[] = [];
+  private sessions = new Map<string, DashboardSession>();
+  private loginAttempts = new Map<string, LoginAttempts>();
+  private usersPath: string;
+
+  constructor() {
+    this.usersPath = path.join(config.dataDir, '.dashboard_users.json');
+    this.loadUsers();
+
+    // Purge expired sessions every hour
+    setInterval(() => this.purgeExpiredSessions(), 60 * 60 * 1000).unref();
+  }
+
+  private loadUsers() {
+    if (fs.existsSync(this.usersPath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.usersPath, 'utf-8'));
+        const users: DashboardUser[] = Array.isArray(parsed.users) ? parsed.users : [];
+        // Accounts created before roles existed had full access
+        users.forEach(u => {
+          if (!u.role) u.role = 'admin';
+        });
+        this.users = users;
+        this.customRoles = Array.isArray(parsed.roles) ? parsed.roles : [];
+        console.log(`[DashboardAuth] Loaded ${users.length} user(s), ${this.customRoles.length} custom role(s)`);
+        return;
+      } catch (error) {
+        console.error('[DashboardAuth] Failed to load users:', error);
+      }
+    }
+    console.log('[DashboardAuth] No users file found - initial setup required');
+  }
+
+  private saveUsers() {
+    try {
+      const dir = path.dirname(this.usersPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.usersPath, JSON.stringify({ users: this.users, roles: this.customRoles }, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[DashboardAuth] Failed to save users:', error);
+    }
+  }
+
+  private hashPassword(password: string, salt: string): string {
+    return crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+  }
+
+  private verifyPassword(user: DashboardUser, password: string): boolean {
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = Buffer.from(this.hashPassword(password, user.salt), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private toPublic(user: DashboardUser): PublicDashboardUser {
+    const { passwordHash: _hash, salt: _salt, ...rest } = user;
+    return rest;
+  }
+
+  private validateCredentials(username: string, password: string) {
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error('Nom d\'utilisateur invalide (3 à 32 caractères : lettres, chiffres, . _ -)');
+    }
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`);
+    }
+  }
+
+  // ==================== USERS ====================
+
+  // True until the first account has been created
+  needsSetup(): boolean {
+    return this.users.length === 0;
+  }
+
+  listUsers(): PublicDashboardUser[] {
+    return this.users.map(u => this.toPublic(u));
+  }
+
+  getUser(id: string): PublicDashboardUser | null {
+    const user = this.users.find(u => u.id === id);
+    return user ? this.toPublic(user) : null;
+  }
+
+  createUser(username: string, password: string, role = DEFAULT_ROLE_ID): PublicDashboardUser {
+    this.validateCredentials(username, password);
+    if (!this.getRole(role)) {
+      throw new Error('Rôle inconnu');
+    }
+    if (this.users.some(u => u.username.toLowerCase() === username.toLowerCase())) {
+      throw new Error('Ce nom d\'utilisateur existe déjà');
+    }
+
+    const salt = crypto.randomBytes(16).toString('hex');
+    const user: DashboardUser = {
+      id: crypto.randomUUID(),
+      username,
+      salt,
+      passwordHash: this.hashPassword(password, salt),
+      role,
+      createdAt: Date.now()
+    };
+
+    this.users.push(user);
+    this.saveUsers();
+    console.log(`[DashboardAuth] Created user "${username}"`);
+    return this.toPublic(user);
+  }
+
+  changePassword(id: string, password: string): boolean {
+    const user = this.users.find(u => u.id === id);
+    if (!user) return false;
+    this.validateCredentials(user.username, password);
+
+    user.salt = crypto.randomBytes(16).toString('hex');
+    user.passwordHash = this.hashPassword(password, user.salt);
+    this.saveUsers();
+
+    // Invalidate every existing session of this user
+    this.revokeUserSessions(id);
+    return true;
+  }
+
+  deleteUser(id: string): boolean {
+    const index = this.users.findIndex(u => u.id === id);
+    if (index === -1) return false;
+    if (this.users.length === 1) {
+      throw new Error('Impossible de supprimer le dernier utilisateur');
+    }
+    if (this.isLastAdmin(id)) {
+      throw new Error('Impossible de supprimer le dernier administrateur');
+    }
+
+    const [removed] = this.users.splice(index, 1);
+    this.saveUsers();
+    this.revokeUserSessions(id);
+    console.log(`[DashboardAuth] Deleted user "${removed.username}"`);
+    return true;
+  }
+
+  setUserRole(id: string, roleId: string): PublicDashboardUser | null {
+    const user = this.users.find(u => u.id === id);
+    if (!user) return null;
+    const role = this.getRole(roleId);
+    if (!role) {
+      throw new Error('Rôle inconnu');
+    }
+    if (!role.admin && this.isLastAdmin(id)) {
+      throw new Error('Le dernier administrateur ne peut pas changer de rôle');
+    }
+
+    user.role = roleId;
+    this.saveUsers();
+    return this.toPublic(user);
+  }
+
+  private isLastAdmin(userId: string): boolean {
+    const admins = this.users.filter(u => this.getRole(u.role)?.admin);
+    return admins.length === 1 && admins[0].id === userId;
+  }
+
+  // ==================== ROLES ====================
+
+  listRoles(): DashboardRole[] {
+    return [...BUILTIN_ROLES, ...this.customRoles];
+  }
+
+  getRole(id: string): DashboardRole | null {
+    return this.listRoles().find(r => r.id === id) ?? null;
+  }
+
+  createRole(name: string, permissions: unknown): DashboardRole {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Le nom du rôle est requis');
+    }
+    if (this.listRoles().some(r => r.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error('Un rôle porte déjà ce nom');
+    }
+
+    const role: DashboardRole = {
+      id: crypto.randomUUID(),
+      name: trimmed,
+      builtin: false,
+      admin: false,
+      permissions: normalizePermissions(permissions)
+    };
+    this.customRoles.push(role);
+    this.saveUsers();
+    return role;
+  }
+
+  updateRole(id: string, data: { name?: string; permissions?: unknown }): DashboardRole | null {
+    const role = this.customRoles.find(r => r.id === id);
+    if (!role) return null;
+
+    if (data.name !== undefined && data.name.trim()) {
+      role.name = data.name.trim();
+    }
+    if (data.permissions !== undefined) {
+      role.permissions = normalizePermissions(data.permissions);
+    }
+    this.saveUsers();
+    return role;
+  }
+
+  deleteRole(id: string): boolean {
+    const index = this.customRoles.findIndex(r => r.id === id);
+    if (index === -1) return false;
+    if (this.users.some(u => u.role === id)) {
+      throw new Error('Ce rôle est encore attribué à des utilisateurs');
+    }
+    this.customRoles.splice(index, 1);
+    this.saveUsers();
+    return true;
+  }
+
+  // ==================== SESSIONS ====================
+
+  isLockedOut(ip: string): boolean {
+    const attempts = this.loginAttempts.get(ip);
+    return !!attempts && attempts.lockedUntil > Date.now();
+  }
+
+  private recordFailure(ip: string) {
+    const attempts = this.loginAttempts.get(ip) || { count: 0, lockedUntil: 0 };
+    attempts.count++;
+    if (attempts.count >= config.dashboard.maxLoginAttempts) {
+      attempts.count = 0;
+      attempts.lockedUntil = Date.now() + config.dashboard.loginLockout;
+      console.warn(`[DashboardAuth] Too many failed logins from ${ip}, locked out`);
+    }
+    this.loginAttempts.set(ip, attempts);
+  }
+
+  // Check credentials and open a session, returns null on bad credentials
+  login(username: string, password: string, ip = 'unknown'): { session: DashboardSession; user: PublicDashboardUser } | null {
+    const user = this.users.find(u => u.username.toLowerCase() === username.toLowerCase());
+    if (!user || !this.verifyPassword(user, password)) {
+      this.recordFailure(ip);
+      return null;
+    }
+
+    this.loginAttempts.delete(ip);
+    user.lastLoginAt = Date.now();
+    this.saveUsers();
+
+    const session: DashboardSession = {
+      id: crypto.randomBytes(32).toString('hex'),
+      userId: user.id,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + config.dashboard.sessionTtl,
+      ip
+    };
+    this.sessions.set(session.id, session);
+    console.log(`[DashboardAuth] User "${user.username}" logged in from ${ip}`);
+
+    return { session, user: this.toPublic(user) };
+  }
+
+  logout(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  // Resolve a session id to its user and role, or null if unknown/expired
+  getSessionUser(sessionId: string | undefined): AuthenticatedUser | null {
+    if (!sessionId) return null;
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+
+    const user = this.getUser(session.userId);
+    if (!user) return null;
+
+    // A user whose role was deleted falls back to the most restrictive built-in role
+    const role = this.getRole(user.role) ?? this.getRole(DEFAULT_ROLE_ID)!;
+    return { ...user, admin: role.admin, permissions: role.permissions };
+  }
+
+  private revokeUserSessions(userId: string) {
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  private purgeExpiredSessions() {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt < now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+export const dashboardAuth = new DashboardAuthService();
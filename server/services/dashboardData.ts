@@ -0,0 +1,164 @@
+import { freeboxApi } from './freeboxApi.js';
+import { modelDetection } from './modelDetection.js';
+import type { LanHost, WifiBss } from '../../shared/freebox/index.js';
+
+/**
+ * Aggregated views built from several Freebox calls
+ *
+ * Shared by the REST routes and the WebSocket topics so both return the same payload.
+ */
+
+interface AggregateResult<T> {
+  success: boolean;
+  result?: T;
+  msg?: string;
+  error_code?: string;
+}
+
+// WiFi device type for band counting
+interface WifiLanDevice {
+  active?: boolean;
+  reachable?: boolean;
+  access_point?: {
+    connectivity_type?: string;
+    wifi_information?: {
+      band?: string;
+    };
+  };
+}
+
+export interface LanDevice extends LanHost {
+  interface: string;
+}
+
+export interface WifiOverview {
+  config: unknown;
+  aps: unknown[];
+  bss: unknown[];
+  wifiDeviceCount: number;
+  devicesByBand: Record<string, number>;
+}
+
+// The overview reaches every dashboard user (widgets, WebSocket): the WiFi key stays in the settings
+const withoutKey = (bss: unknown): unknown => {
+  const { config, ...rest } = bss as { config?: Record<string, unknown> };
+  if (!config) return bss;
+  const { key: _key, ...publicConfig } = config;
+  return { ...rest, config: publicConfig };
+};
+
+/**
+ * All hosts of every LAN interface, tagged with their interface name
+ */
+export async function getLanDevices(): Promise<AggregateResult<LanDevice[]>> {
+  // First get interfaces
+  const interfaces = await freeboxApi.getLanBrowserInterfaces();
+
+  if (!interfaces.success || !Array.isArray(interfaces.result)) {
+    return { ...interfaces, result: undefined };
+  }
+
+  // Then get hosts for each interface
+  const allDevices: LanDevice[] = [];
+  for (const iface of interfaces.result) {
+    const hosts = await freeboxApi.getLanHosts(iface.name);
+    if (hosts.success && Array.isArray(hosts.result)) {
+      for (const host of hosts.result) {
+        allDevices.push({
+          ...host,
+          interface: iface.name
+        });
+      }
+    }
+  }
+
+  return {
+    success: true,
+    result: allDevices
+  };
+}
+
+/**
+ * Same hosts for the background services (metrics, alerts, events): null when
+ * the interfaces can't be listed, so a failed poll isn't taken for an empty network
+ */
+export async function fetchLanHosts(): Promise<LanDevice[] | null> {
+  const devices = await getLanDevices();
+  return devices.success ? devices.result ?? [] : null;
+}
+
+/**
+ * Complete WiFi status (APs + BSS combined) with connected devices per band
+ */
+export async function getWifiOverview(): Promise<AggregateResult<WifiOverview>> {
+  // Fetch all WiFi data in parallel, plus LAN devices for WiFi count
+  const [config, aps, bss, lanDevices] = await Promise.allSettled([
+    freeboxApi.getWifiConfig(),
+    freeboxApi.getWifiAps(),
+    freeboxApi.getWifiBss(),
+    freeboxApi.getLanHosts('pub')  // Main LAN interface
+  ]);
+
+  // Extract results, with safe fallbacks
+  const configData = config.status === 'fulfilled' && config.value.success ? config.value.result : null;
+  const apsData = aps.status === 'fulfilled' && aps.value.success ? aps.value.result : [];
+  const bssData = bss.status === 'fulfilled' && bss.value.success ? bss.value.result : [];
+
+  // Count WiFi devices from LAN data, grouped by band
+  let wifiDeviceCount = 0;
+  const devicesByBand: Record<string, number> = { '2g4': 0, '5g': 0, '6g': 0 };
+
+  if (lanDevices.status === 'fulfilled' && lanDevices.value.success && Array.isArray(lanDevices.value.result)) {
+    const wifiDevices = lanDevices.value.result.filter(
+      (device: WifiLanDevice) =>
+        device.active && device.reachable && device.access_point?.connectivity_type === 'wifi'
+    );
+    wifiDeviceCount = wifiDevices.length;
+
+    // Count by band
+    for (const device of wifiDevices) {
+      const band = (device as WifiLanDevice).access_point?.wifi_information?.band?.toLowerCase() || '';
+      if (band.includes('6g')) {
+        devicesByBand['6g']++;
+      } else if (band.includes('5g')) {
+        devicesByBand['5g']++;
+      } else if (band.includes('2') || band.includes('2g4') || band.includes('2.4')) {
+        devicesByBand['2g4']++;
+      }
+    }
+  }
+
+  // Filter out 6GHz data if model doesn't support it
+  const supports6ghz = modelDetection.supportsWifi6ghz();
+  let filteredAps = (apsData || []) as unknown[];
+  let filteredBss = (bssData || []) as unknown[];
+  const filteredDevicesByBand = { ...devicesByBand };
+
+  // NOTE: Inactive/disabled WiFi bands (e.g., 5GHz power-saving mode on Ultra)
+  // are NOT returned by the Freebox API, so we cannot display them.
+  // This is an API limitation, not a dashboard issue.
+
+  if (!supports6ghz && Array.isArray(apsData) && Array.isArray(bssData)) {
+    // Filter out 6GHz APs (for Pop v8, Revolution v6)
+    filteredAps = apsData.filter(
+      (ap: { band?: string }) => !ap.band?.toLowerCase().includes('6g')
+    );
+    // Filter out 6GHz BSS
+    filteredBss = bssData.filter(
+      (bss: WifiBss & { band?: string }) => !bss.band?.toLowerCase().includes('6g')
+    );
+    // Remove 6GHz device count
+    filteredDevicesByBand['6g'] = 0;
+  }
+
+  return {
+    success: true,
+    result: {
+      config: configData,
+      aps: filteredAps,
+      bss: filteredBss.map(withoutKey),
+      wifiDeviceCount: supports6ghz ? wifiDeviceCount : wifiDeviceCount - devicesByBand['6g'],
+      devicesByBand: filteredDevicesByBand
+    }
+  };
+}
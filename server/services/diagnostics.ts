@@ -0,0 +1,430 @@
+import { spawn } from 'child_process';
+import dgram from 'dgram';
+import dns from 'dns';
+import net from 'net';
+import { freeboxApi } from './freeboxApi.js';
+import { config } from '../config.js';
+import type {
+  DnsRecordType,
+  DnsResolver,
+  DnsResult,
+  HopStats,
+  PingResult,
+  PortCheck,
+  PortCheckResult,
+  PortsResult,
+  RouteResult
+} from '../types/diagnostics.js';
+
+type Progress<T> = (snapshot: T) => void;
+
+interface JobOptions {
+  // Aborted when the browser goes away: running commands are killed
+  signal?: AbortSignal;
+}
+
+const isWindows = process.platform === 'win32';
+
+export const DNS_RECORD_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR'];
+
+export const DIAGNOSTIC_LIMITS = {
+  maxPingCount: 20,
+  maxHops: 30,
+  maxRounds: 10,
+  maxPorts: 32
+};
+
+const PUBLIC_RESOLVERS: DnsResolver[] = [
+  { id: 'system', name: 'Serveur du dashboard', address: null },
+  { id: 'cloudflare', name: 'Cloudflare', address: '1.1.1.1' },
+  { id: 'google', name: 'Google', address: '8.8.8.8' },
+  { id: 'quad9', name: 'Quad9', address: '9.9.9.9' }
+];
+
+const DNS_TIMEOUT = 3000;
+const PORT_TIMEOUT = 3000;
+const PORT_CONCURRENCY = 8;
+
+const DNS_ERRORS: Record<string, string> = {
+  ENOTFOUND: 'Nom introuvable (NXDOMAIN)',
+  ENODATA: 'Aucun enregistrement de ce type',
+  ETIMEOUT: 'Délai dépassé',
+  ECONNREFUSED: 'Résolveur injoignable',
+  ESERVFAIL: 'Échec du résolveur (SERVFAIL)',
+  EREFUSED: 'Requête refusée par le résolveur'
+};
+
+// RFC 1123 host names; a leading "-" is refused so it can never be read as a command option
+const HOSTNAME = /^(?=.{1,253}\.?$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*\.?$/i;
+// DNS names may also contain underscores (_dmarc, _sip._tcp...)
+const DNS_NAME = /^(?=.{1,253}\.?$)[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?(?:\.[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?)*\.?$/i;
+
+/**
+ * Host accepted by ping / traceroute / port probes: IP address or host name
+ */
+export const validateHost = (input: unknown): string => {
+  const host = String(input ?? '').trim();
+  if (net.isIP(host) || HOSTNAME.test(host)) return host;
+  throw new Error('Hôte invalide : adresse IP ou nom de domaine attendu');
+};
+
+export const validateDnsName = (input: unknown, type: DnsRecordType): string => {
+  const name = String(input ?? '').trim();
+  if (type === 'PTR') {
+    if (net.isIP(name)) return name;
+    throw new Error('Une adresse IP est attendue pour une résolution inverse (PTR)');
+  }
+  if (DNS_NAME.test(name)) return name;
+  throw new Error('Nom de domaine invalide');
+};
+
+export const validatePorts = (input: unknown): PortCheck[] => {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error('Au moins un port est requis');
+  }
+  if (input.length > DIAGNOSTIC_LIMITS.maxPorts) {
+    throw new Error(`${DIAGNOSTIC_LIMITS.maxPorts} ports au maximum`);
+  }
+  return input.map((item) => {
+    const port = Number(item?.port);
+    const protocol = item?.protocol === 'udp' ? 'udp' : 'tcp';
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Port invalide : ${item?.port}`);
+    }
+    return { port, protocol };
+  });
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Reply times printed by ping / traceroute / tracert ("time=12.3 ms", "temps<1ms", "12.3 ms")
+const REPLY_TIME = /(?:time|temps)[=<]\s*([\d.,]+)\s*ms/i;
+
+// Reply time of one ping output line in ms, null for the other lines (header, timeouts, summary)
+export const parsePingTime = (line: string): number | null => {
+  const match = line.match(REPLY_TIME);
+  return match ? parseFloat(match[1].replace(',', '.')) : null;
+};
+
+const stats = (times: number[]) => {
+  if (times.length === 0) {
+    return { min: null, avg: null, max: null, jitter: null };
+  }
+  const avg = times.reduce((a, b) => a + b, 0) / times.length;
+  const variance = times.reduce((sum, t) => sum + (t - avg) ** 2, 0) / times.length;
+  return {
+    min: round(Math.min(...times)),
+    avg: round(avg),
+    max: round(Math.max(...times)),
+    jitter: round(Math.sqrt(variance))
+  };
+};
+
+const hopStats = (hop: number, address: string | null, sent: number, times: number[]): HopStats => ({
+  hop,
+  address,
+  sent,
+  received: times.length,
+  loss: sent > 0 ? round(((sent - times.length) / sent) * 100) : 0,
+  last: times.length > 0 ? round(times[times.length - 1]) : null,
+  ...stats(times)
+});
+
+/**
+ * Run a command without a shell, line by line
+ * Arguments are passed as an array: nothing in them is ever interpreted.
+ */
+const runCommand = (
+  command: string,
+  args: string[],
+  onLine: (line: string) => void,
+  { signal, timeout }: { signal?: AbortSignal; timeout: number }
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, timeout, windowsHide: true });
+    let buffer = '';
+    const flush = (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(onLine);
+    };
+    child.stdout.setEncoding('utf-8').on('data', flush);
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(`Commande ${command} indisponible sur le serveur`));
+      } else if (error.name === 'AbortError') {
+        reject(new Error('Diagnostic interrompu'));
+      } else {
+        reject(error);
+      }
+    });
+    // A non-zero exit code only means some probes were lost
+    child.on('close', () => {
+      if (buffer) onLine(buffer);
+      resolve();
+    });
+  });
+
+/**
+ * Parse one traceroute / tracert hop line:
+ * " 3  10.0.0.1  5.123 ms  * 10.0.0.2  6.012 ms" or "  3    <1 ms    2 ms     *     10.0.0.1"
+ */
+export const parseHopLine = (line: string): { hop: number; address: string | null; sent: number; times: number[] } | null => {
+  const match = line.match(/^\s*(\d+)\s+(.*)$/);
+  if (!match) return null;
+
+  const tokens = match[2].trim().split(/\s+/);
+  let address: string | null = null;
+  let sent = 0;
+  const times: number[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '*') {
+      sent++;
+    } else if (/^<?[\d.,]+$/.test(token) && tokens[i + 1] === 'ms') {
+      times.push(parseFloat(token.replace('<', '').replace(',', '.')));
+      sent++;
+      i++;
+    } else if (/^<?[\d.,]+ms$/.test(token)) {
+      times.push(parseFloat(token.replace('<', '').replace(',', '.')));
+      sent++;
+    } else {
+      const candidate = token.replace(/^[([]|[)\]]$/g, '');
+      if (!address && net.isIP(candidate)) address = candidate;
+    }
+  }
+
+  return sent > 0 ? { hop: parseInt(match[1], 10), address, sent, times } : null;
+};
+
+/**
+ * Network diagnostics run from the dashboard server
+ *
+ * Commands are spawned without a shell on validated hosts; every job reports
+ * its current result through a progress callback so the browser can display
+ * it while it runs.
+ */
+class DiagnosticsService {
+  async ping(host: string, count: number, onProgress?: Progress<PingResult>, options: JobOptions = {}): Promise<PingResult> {
+    const times: number[] = [];
+    const snapshot = (sent: number): PingResult => ({
+      host,
+      sent,
+      received: times.length,
+      packetLoss: sent > 0 ? round(((sent - times.length) / sent) * 100) : 0,
+      ...stats(times),
+      times: times.map(round)
+    });
+
+    const args = isWindows ? ['-n', String(count), host] : ['-c', String(count), host];
+    await runCommand('ping', args, (line) => {
+      const time = parsePingTime(line);
+      if (time === null) return;
+      times.push(time);
+      onProgress?.(snapshot(times.length));
+    }, { signal: options.signal, timeout: (count * 2 + 10) * 1000 });
+
+    return snapshot(count);
+  }
+
+  /**
+   * Route discovery (traceroute / tracert), one progress update per hop
+   */
+  async traceroute(host: string, maxHops: number, onProgress?: Progress<RouteResult>, options: JobOptions = {}): Promise<RouteResult> {
+    const result: RouteResult = { host, rounds: 0, hops: [] };
+
+    const [command, args] = isWindows
+      ? ['tracert', ['-d', '-h', String(maxHops), '-w', '2000', host]]
+      : ['traceroute', ['-n', '-q', '3', '-w', '2', '-m', String(maxHops), host]];
+
+    await runCommand(command, args, (line) => {
+      const hop = parseHopLine(line);
+      if (!hop) return;
+      result.hops.push(hopStats(hop.hop, hop.address, hop.sent, hop.times));
+      onProgress?.(result);
+    }, { signal: options.signal, timeout: maxHops * 3 * 3000 + 10000 });
+
+    // Trailing silent hops past the destination add nothing
+    while (result.hops.length > 1 && !result.hops[result.hops.length - 1].address && !result.hops[result.hops.length - 2].address) {
+      result.hops.pop();
+    }
+    return result;
+  }
+
+  /**
+   * MTR-style report: discover the route, then ping every hop in parallel
+   * to get per-hop loss and latency
+   */
+  async mtr(host: string, maxHops: number, rounds: number, onProgress?: Progress<RouteResult>, options: JobOptions = {}): Promise<RouteResult> {
+    const route = await this.traceroute(host, maxHops, onProgress, options);
+    route.rounds = rounds;
+    onProgress?.(route);
+
+    await Promise.all(route.hops.map(async (hop, index) => {
+      if (!hop.address) {
+        route.hops[index] = hopStats(hop.hop, null, rounds, []);
+        return;
+      }
+      try {
+        const result = await this.ping(hop.address, rounds, (partial) => {
+          route.hops[index] = hopStats(hop.hop, hop.address, partial.sent, partial.times);
+          onProgress?.(route);
+        }, options);
+        route.hops[index] = hopStats(hop.hop, hop.address, result.sent, result.times);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        route.hops[index] = hopStats(hop.hop, hop.address, rounds, []);
+      }
+      onProgress?.(route);
+    }));
+
+    return route;
+  }
+
+  /**
+   * Resolvers compared by the DNS lookup: the Freebox of the request first
+   */
+  async getResolvers(): Promise<DnsResolver[]> {
+    // FREEBOX_LOCAL_IP until the LAN configuration can be read
+    let freeboxIp = config.freebox.localIp;
+    if (freeboxApi.isLoggedIn()) {
+      try {
+        const lanConfig = await freeboxApi.getLanConfig();
+        const ip = (lanConfig.result as { ip?: string } | undefined)?.ip;
+        if (lanConfig.success && ip && net.isIP(ip)) freeboxIp = ip;
+      } catch {
+        // Keep the configured address
+      }
+    }
+    return [{ id: 'freebox', name: 'Freebox', address: freeboxIp }, ...PUBLIC_RESOLVERS];
+  }
+
+  async dns(name: string, type: DnsRecordType, onProgress?: Progress<DnsResult>): Promise<DnsResult> {
+    const result: DnsResult = {
+      name,
+      type,
+      resolvers: (await this.getResolvers()).map(r => ({ ...r, status: 'pending', answers: [], time: null }))
+    };
+    onProgress?.(result);
+
+    await Promise.all(result.resolvers.map(async (entry) => {
+      const resolver = new dns.promises.Resolver({ timeout: DNS_TIMEOUT, tries: 1 });
+      if (entry.address) resolver.setServers([entry.address]);
+
+      const start = Date.now();
+      try {
+        entry.answers = await this.resolve(resolver, name, type);
+        entry.status = 'ok';
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code ?? '';
+        entry.status = 'error';
+        entry.error = DNS_ERRORS[code] ?? (error as Error).message;
+      }
+      entry.time = Date.now() - start;
+      onProgress?.(result);
+    }));
+
+    return result;
+  }
+
+  private async resolve(resolver: dns.promises.Resolver, name: string, type: DnsRecordType): Promise<string[]> {
+    switch (type) {
+      case 'PTR':
+        return resolver.reverse(name);
+      case 'MX':
+        return (await resolver.resolveMx(name))
+          .sort((a, b) => a.priority - b.priority)
+          .map(mx => `${mx.priority} ${mx.exchange}`);
+      case 'TXT':
+        return (await resolver.resolveTxt(name)).map(chunks => chunks.join(''));
+      case 'A':
+        return resolver.resolve4(name);
+      case 'AAAA':
+        return resolver.resolve6(name);
+      case 'CNAME':
+        return resolver.resolveCname(name);
+      case 'NS':
+        return resolver.resolveNs(name);
+    }
+  }
+
+  /**
+   * TCP / UDP reachability of ports (e.g. forwarded ports on the public IP)
+   */
+  async ports(host: string, checks: PortCheck[], onProgress?: Progress<PortsResult>, options: JobOptions = {}): Promise<PortsResult> {
+    const result: PortsResult = {
+      host,
+      ports: checks.map(check => ({ ...check, state: 'pending', time: null }))
+    };
+    onProgress?.(result);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < result.ports.length && !options.signal?.aborted) {
+        const entry = result.ports[next++];
+        const start = Date.now();
+        const { state, error } = entry.protocol === 'tcp'
+          ? await this.probeTcp(host, entry.port)
+          : await this.probeUdp(host, entry.port);
+        entry.state = state;
+        entry.error = error;
+        entry.time = Date.now() - start;
+        onProgress?.(result);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PORT_CONCURRENCY, checks.length) }, worker));
+
+    return result;
+  }
+
+  private probeTcp(host: string, port: number): Promise<Pick<PortCheckResult, 'state' | 'error'>> {
+    return new Promise((resolve) => {
+      const socket = net.connect({ host, port });
+      const done = (outcome: Pick<PortCheckResult, 'state' | 'error'>) => {
+        socket.destroy();
+        resolve(outcome);
+      };
+      socket.setTimeout(PORT_TIMEOUT, () => done({ state: 'filtered', error: 'Aucune réponse' }));
+      socket.on('connect', () => done({ state: 'open' }));
+      socket.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ECONNREFUSED') {
+          done({ state: 'closed' });
+        } else {
+          done({ state: 'filtered', error: error.code ?? error.message });
+        }
+      });
+    });
+  }
+
+  // UDP has no handshake: an answer means open, an ICMP "port unreachable" means closed
+  private probeUdp(host: string, port: number): Promise<Pick<PortCheckResult, 'state' | 'error'>> {
+    return new Promise((resolve) => {
+      const socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+      let timer: NodeJS.Timeout | null = null;
+      let finished = false;
+      const done = (outcome: Pick<PortCheckResult, 'state' | 'error'>) => {
+        if (finished) return;
+        finished = true;
+        if (timer) clearTimeout(timer);
+        socket.close();
+        resolve(outcome);
+      };
+      socket.on('message', () => done({ state: 'open' }));
+      socket.on('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ECONNREFUSED') {
+          done({ state: 'closed' });
+        } else {
+          done({ state: 'filtered', error: error.code ?? error.message });
+        }
+      });
+      socket.connect(port, host, () => {
+        socket.send(Buffer.from('\r\n'));
+        timer = setTimeout(() => done({ state: 'open_filtered' }), PORT_TIMEOUT);
+      });
+    });
+  }
+}
+
+export const diagnostics = new DiagnosticsService();
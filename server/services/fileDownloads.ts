@@ -0,0 +1,78 @@
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { freeboxApis, type FreeboxApiService } from './freeboxApi.js';
+import { createZipStream, type ZipEntry } from './zipStream.js';
+import { createError } from '../middleware/errorHandler.js';
+import type { FsFileInfo } from '../../shared/freebox/index.js';
+
+const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+
+/**
+ * Folders and multi-selections downloaded as a zip
+ *
+ * The archive is built while the browser reads it: folders are listed one
+ * at a time and each file is fetched from the Freebox /dl/ endpoint only
+ * when the previous one is written.
+ */
+class FileDownloadService {
+  // Content of a file on the Freebox, as a Node stream
+  async openFile(api: FreeboxApiService, path: string, signal?: AbortSignal): Promise<Readable> {
+    const response = await api.openDownload(path, { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Lecture de ${decodePath(path)} impossible (HTTP ${response.status})`);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  async createArchive(boxId: string, paths: string[], signal?: AbortSignal): Promise<{ name: string; stream: Readable }> {
+    const api = freeboxApis.forBox(boxId);
+    // Check every selected path before the response starts
+    const selected: FsFileInfo[] = [];
+    for (const path of paths) {
+      const info = await api.getFileInfo(path);
+      if (!info.success || !info.result) {
+        throw createError(`Fichier introuvable : ${decodePath(path)}`, 404, 'FILE_NOT_FOUND');
+      }
+      selected.push({ ...info.result, path });
+    }
+
+    const entries = this.entries(api, selected, signal);
+    const stream = createZipStream(entries);
+    stream.on('error', error => console.error('[Downloads] Archive failed:', error.message));
+    return { name: `${this.archiveName(selected)}.zip`, stream };
+  }
+
+  // A single folder gives its name to the archive, a selection the name of its folder
+  private archiveName(selected: FsFileInfo[]): string {
+    if (selected.length === 1) return selected[0].name;
+    const parent = decodePath(selected[0].path).split('/').filter(Boolean).slice(-2, -1)[0];
+    return parent || 'Freebox';
+  }
+
+  private async *entries(api: FreeboxApiService, selected: FsFileInfo[], signal?: AbortSignal): AsyncGenerator<ZipEntry> {
+    for (const info of selected) {
+      yield* this.walk(api, info, '', signal);
+    }
+  }
+
+  // Depth first, so a folder entry comes before its content
+  private async *walk(api: FreeboxApiService, info: FsFileInfo, prefix: string, signal?: AbortSignal): AsyncGenerator<ZipEntry> {
+    const name = `${prefix}${info.name}`;
+    if (info.type === 'file') {
+      yield { name, modification: info.modification, size: info.size, open: () => this.openFile(api, info.path, signal) };
+      return;
+    }
+
+    yield { name: `${name}/`, modification: info.modification };
+    const listing = await api.listFiles(info.path);
+    if (!listing.success) {
+      throw new Error(`Lecture du dossier ${decodePath(info.path)} impossible : ${listing.msg ?? listing.error_code}`);
+    }
+    for (const entry of listing.result ?? []) {
+      if (signal?.aborted) return;
+      yield* this.walk(api, entry, `${name}/`, signal);
+    }
+  }
+}
+
+export const fileDownloads = new FileDownloadService();
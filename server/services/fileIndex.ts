@@ -0,0 +1,522 @@
+import fs from 'fs';
+import { config } from '../config.js';
+import { freeboxApis } from './freeboxApi.js';
+import { createBoxScoped } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
+import type { FsTask } from '../../shared/freebox/index.js';
+import type {
+  DuplicateGroup,
+  DuplicateReport,
+  FileHash,
+  FileIndexEntry,
+  FileIndexStatus,
+  FileSearchQuery,
+  FileSearchResponse,
+  FileSearchResult
+} from '../types/fileIndex.js';
+
+// Duplicate groups are kept as paths, the entries are looked up when shown
+interface StoredGroup {
+  hash: string;
+  size: number;
+  paths: string[];
+}
+
+type StoredReport = Omit<DuplicateReport, 'groups' | 'reclaimable'> & { groups: StoredGroup[] };
+
+interface IndexFile {
+  indexedAt: number | null;
+  entries: FileIndexEntry[];
+  hashes: Record<string, FileHash>;
+  report: StoredReport | null;
+}
+
+const MINUTE = 60 * 1000;
+
+// Delay between two checks of a hash task still running
+const HASH_POLL_INTERVAL = 1000;
+
+// The index is written at most once per delay: a search that lists a few
+// changed folders must not serialize hundreds of thousands of entries each time
+const SAVE_DELAY = 10 * 1000;
+
+const encodePath = (path: string): string => Buffer.from(path, 'utf-8').toString('base64');
+const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+const parentOf = (path: string): string => path.replace(/\/[^/]*$/, '') || '/';
+const baseName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+// Strictly below `dir`
+const isUnder = (path: string, dir: string): boolean => (dir === '/' ? path !== '/' : path.startsWith(`${dir}/`));
+
+// Lowercase without accents, for matching
+const fold = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const collator = new Intl.Collator('fr');
+
+const toResult = (entry: FileIndexEntry): FileSearchResult => ({
+  path: encodePath(entry.path),
+  fullPath: entry.path,
+  name: baseName(entry.path),
+  parent: encodePath(parentOf(entry.path)),
+  type: entry.type,
+  size: entry.size,
+  modification: entry.modification,
+  ...(entry.mimetype ? { mimetype: entry.mimetype } : {})
+});
+
+/**
+ * Local index of the Freebox storage
+ *
+ * The Freebox only lists one folder at a time: searching the whole disk or
+ * finding duplicates needs every folder. The index is built by walking the
+ * storage with /fs/ls/ the first time it is used, then kept up to date
+ * without walking everything again: folders changed through the dashboard
+ * (uploads, copies, moves, deletions...) are listed again before the next
+ * search, and the whole storage is walked every `config.fileIndex.interval`
+ * minutes for the changes made elsewhere.
+ *
+ * Duplicates are files of the same size whose Freebox hash task returns
+ * the same digest. Digests are cached until the file size or modification
+ * date changes.
+ */
+class FileIndexService {
+  private boxId: string;
+  private filePath: string;
+  private entries = new Map<string, FileIndexEntry>();
+  private hashes = new Map<string, FileHash>();
+  private report: StoredReport | null = null;
+  private indexedAt: number | null = null;
+  private lastError: string | null = null;
+  // Folders to list again before the next search
+  private changed = new Set<string>();
+  // Walks run one after the other
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private fullRefresh: Promise<void> | null = null;
+  private scanning: Promise<void> | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  // Writes run one after the other
+  private saving: Promise<void> = Promise.resolve();
+  private destroyed = false;
+
+  constructor(boxId: string) {
+    this.boxId = boxId;
+    this.filePath = boxProfiles.getDataFile(boxId, '.file_index.json');
+    this.load();
+
+    if (config.fileIndex.interval > 0) {
+      this.interval = setInterval(() => this.poll(), config.fileIndex.interval * MINUTE);
+      this.interval.unref();
+    }
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const parsed: Partial<IndexFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.indexedAt = typeof parsed.indexedAt === 'number' ? parsed.indexedAt : null;
+      (Array.isArray(parsed.entries) ? parsed.entries : []).forEach(entry => this.entries.set(entry.path, entry));
+      Object.entries(parsed.hashes ?? {}).forEach(([path, hash]) => this.hashes.set(path, hash));
+      // A scan interrupted by a restart is not resumed
+      this.report = parsed.report && parsed.report.status !== 'running' ? parsed.report : null;
+    } catch (error) {
+      console.error('[FileIndex] Failed to load index:', error);
+    }
+  }
+
+  // Write the index once the current burst of changes is over. Changes
+  // lost by a stop in between are caught up by the next walk
+  private scheduleSave() {
+    if (this.saveTimer || this.destroyed) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saving = this.saving.then(() => this.save());
+    }, SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  private async save() {
+    // Digests of files no longer indexed are dropped
+    const hashes: Record<string, FileHash> = {};
+    this.hashes.forEach((hash, path) => {
+      if (this.entries.has(path)) hashes[path] = hash;
+    });
+    const data: IndexFile = {
+      indexedAt: this.indexedAt,
+      entries: [...this.entries.values()],
+      hashes,
+      report: this.report
+    };
+    try {
+      await fs.promises.writeFile(this.filePath, JSON.stringify(data), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[FileIndex] Failed to save index:', error);
+    }
+  }
+
+  getStatus(): FileIndexStatus {
+    let files = 0;
+    let folders = 0;
+    let totalSize = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.type === 'dir') {
+        folders++;
+      } else {
+        files++;
+        totalSize += entry.size;
+      }
+    }
+    return {
+      indexedAt: this.indexedAt,
+      refreshing: this.queued > 0,
+      files,
+      folders,
+      totalSize,
+      pending: this.changed.size,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Walk the whole storage again (or only the folder `path`, clear text).
+   * Concurrent full refreshes share the same walk.
+   */
+  refresh(path = '/'): Promise<void> {
+    if (path !== '/') {
+      return this.enqueue(() => this.refreshFolder(path));
+    }
+    if (!this.fullRefresh) {
+      this.fullRefresh = this.enqueue(async () => {
+        // Changes made from now on may be missed by the walk: they stay pending
+        this.changed.clear();
+        const started = Date.now();
+        await this.refreshFolder('/');
+        this.indexedAt = Date.now();
+        const { files, folders } = this.getStatus();
+        console.log(`[FileIndex] Indexed ${files} files and ${folders} folders on box ${this.boxId} in ${Math.round((this.indexedAt - started) / 1000)}s`);
+      }).finally(() => {
+        this.fullRefresh = null;
+      });
+    }
+    return this.fullRefresh;
+  }
+
+  /**
+   * Folders (clear text paths) whose content changed through the dashboard
+   */
+  markChanged(folders: string[]) {
+    // Nothing to keep up to date before the first walk
+    if (this.indexedAt === null) return;
+    folders.forEach(folder => this.changed.add(folder.replace(/\/+$/, '') || '/'));
+  }
+
+  async search(query: FileSearchQuery): Promise<FileSearchResponse> {
+    await this.catchUp();
+
+    const words = fold(query.q ?? '').split(/\s+/).filter(Boolean);
+    const extensions = (query.ext ?? []).map(ext => fold(ext).replace(/^\./, '')).filter(Boolean);
+    const bySize = query.minSize !== undefined || query.maxSize !== undefined;
+    const scope = query.path?.replace(/\/+$/, '') || '/';
+
+    const matches = [...this.entries.values()].filter(entry => {
+      if (!isUnder(entry.path, scope)) return false;
+      if (query.type && entry.type !== query.type) return false;
+      // Extension and size filters only apply to files
+      if ((extensions.length > 0 || bySize) && entry.type !== 'file') return false;
+      if (query.minSize !== undefined && entry.size < query.minSize) return false;
+      if (query.maxSize !== undefined && entry.size > query.maxSize) return false;
+      if (query.from !== undefined && entry.modification < query.from) return false;
+      if (query.to !== undefined && entry.modification > query.to) return false;
+      const name = fold(baseName(entry.path));
+      if (extensions.length > 0 && !extensions.some(ext => name.endsWith(`.${ext}`))) return false;
+      const path = fold(entry.path);
+      return words.every(word => path.includes(word));
+    });
+    matches.sort((a, b) => collator.compare(a.path, b.path));
+
+    return {
+      entries: matches.slice(0, query.limit).map(toResult),
+      total: matches.length,
+      index: this.getStatus()
+    };
+  }
+
+  // Last duplicate report, without the files deleted or changed since
+  async getDuplicates(): Promise<DuplicateReport> {
+    await this.catchUp();
+    return this.viewReport();
+  }
+
+  /**
+   * Start a duplicate scan of the folder `path` (clear text), or return the
+   * one in progress
+   */
+  scanDuplicates(options: { path?: string; minSize?: number } = {}): DuplicateReport {
+    if (!this.scanning) {
+      const report: StoredReport = {
+        status: 'running',
+        startedAt: Date.now(),
+        finishedAt: null,
+        path: options.path?.replace(/\/+$/, '') || '/',
+        minSize: options.minSize ?? config.fileIndex.duplicateMinSize,
+        candidates: 0,
+        hashed: 0,
+        failed: 0,
+        groups: [],
+        error: null
+      };
+      this.report = report;
+      this.scanning = this.findDuplicates(report)
+        .catch((error: Error) => {
+          report.status = 'failed';
+          report.error = error.message;
+          report.finishedAt = Date.now();
+          console.error(`[FileIndex] Duplicate scan failed on box ${this.boxId}:`, error.message);
+        })
+        .finally(() => {
+          this.scanning = null;
+          this.scheduleSave();
+        });
+    }
+    return this.viewReport();
+  }
+
+  /**
+   * Stop the timer and delete the index (profile removed)
+   */
+  destroy() {
+    this.destroyed = true;
+    if (this.interval) clearInterval(this.interval);
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    // After a write still in progress
+    this.saving = this.saving.then(() => fs.promises.rm(this.filePath, { force: true })).catch(error => {
+      console.error('[FileIndex] Failed to delete index:', error);
+    });
+  }
+
+  private async poll() {
+    // Indexes nobody searched yet stay empty, and a box without session can't be listed
+    if (this.indexedAt === null || !freeboxApis.forBox(this.boxId).isLoggedIn()) return;
+    await this.refresh().catch(() => undefined);
+  }
+
+  // Bring the index up to date before a search
+  private async catchUp(): Promise<void> {
+    if (this.indexedAt === null) {
+      // First use: the index is built in the background, the status tells when it is ready
+      this.refresh().catch(() => undefined);
+      return;
+    }
+    // The walk in progress sees most changes, the others stay pending
+    if (this.fullRefresh || this.changed.size === 0) return;
+
+    const changed = [...this.changed];
+    this.changed.clear();
+    // A folder below another changed one is listed with it
+    const folders = changed.filter(folder => !changed.some(other => isUnder(folder, other)));
+    await this.enqueue(async () => {
+      for (const folder of folders) await this.refreshFolder(folder);
+    });
+  }
+
+  private enqueue(job: () => Promise<void>): Promise<void> {
+    this.queued++;
+    const run = this.queue.then(job).finally(() => {
+      this.queued--;
+      this.scheduleSave();
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Replace everything below `root` with a new listing
+  private async refreshFolder(root: string) {
+    const { entries, failed, missing, truncated } = await this.walk(root);
+
+    if (failed.includes(root)) {
+      this.lastError = `Lecture impossible de ${root}`;
+      throw new Error(this.lastError);
+    }
+    if (truncated) {
+      this.lastError = `Index limité à ${config.fileIndex.maxEntries} éléments`;
+    } else {
+      this.lastError = failed.length > 0 ? `Lecture impossible de ${failed.length} dossier(s)` : null;
+    }
+
+    // Folders that could not be listed keep their previous content
+    const kept = (path: string) => failed.some(folder => isUnder(path, folder));
+    for (const path of [...this.entries.keys()]) {
+      if ((isUnder(path, root) && !kept(path)) || (missing && path === root)) {
+        this.entries.delete(path);
+      }
+    }
+    entries.forEach(entry => this.entries.set(entry.path, entry));
+  }
+
+  // Every file and folder below `root`, one folder listed at a time
+  private async walk(root: string): Promise<{ entries: FileIndexEntry[]; failed: string[]; missing: boolean; truncated: boolean }> {
+    const api = freeboxApis.forBox(this.boxId);
+    const entries: FileIndexEntry[] = [];
+    const failed: string[] = [];
+    const folders = [root];
+
+    while (folders.length > 0) {
+      if (entries.length >= config.fileIndex.maxEntries) {
+        return { entries, failed, missing: false, truncated: true };
+      }
+      const folder = folders.pop() as string;
+      const listing = await api.listFiles(folder === '/' ? '/' : encodePath(folder));
+      if (!listing.success) {
+        // The folder itself was deleted: its entries go with it
+        if (folder === root && listing.error_code === 'path_not_found') {
+          return { entries: [], failed: [], missing: true, truncated: false };
+        }
+        failed.push(folder);
+        continue;
+      }
+      for (const info of listing.result ?? []) {
+        const path = decodePath(info.path);
+        const type = info.type === 'dir' ? 'dir' : 'file';
+        entries.push({
+          path,
+          type,
+          size: type === 'dir' ? 0 : info.size,
+          modification: info.modification,
+          ...(info.mimetype ? { mimetype: info.mimetype } : {})
+        });
+        if (type === 'dir') folders.push(path);
+      }
+    }
+    return { entries, failed, missing: false, truncated: false };
+  }
+
+  private async findDuplicates(report: StoredReport) {
+    if (this.indexedAt === null) {
+      await this.refresh();
+    } else {
+      await this.catchUp();
+    }
+
+    // Only files sharing their size with another one need a digest
+    const bySize = new Map<number, FileIndexEntry[]>();
+    for (const entry of this.entries.values()) {
+      if (entry.type !== 'file' || entry.size < report.minSize || !isUnder(entry.path, report.path)) continue;
+      const files = bySize.get(entry.size);
+      if (files) files.push(entry);
+      else bySize.set(entry.size, [entry]);
+    }
+    const candidates = [...bySize.values()].filter(files => files.length > 1);
+    report.candidates = candidates.reduce((sum, files) => sum + files.length, 0);
+
+    const groups: StoredGroup[] = [];
+    for (const files of candidates) {
+      const byHash = new Map<string, string[]>();
+      for (const file of files) {
+        const hash = await this.hashOf(file);
+        report.hashed++;
+        if (!hash) {
+          report.failed++;
+          continue;
+        }
+        byHash.set(hash, [...(byHash.get(hash) ?? []), file.path]);
+      }
+      byHash.forEach((paths, hash) => {
+        if (paths.length > 1) groups.push({ hash, size: files[0].size, paths: paths.sort(collator.compare) });
+      });
+    }
+    if (report.candidates > 0 && report.failed === report.candidates) {
+      throw new Error('La Freebox n\'a pu calculer aucune empreinte');
+    }
+
+    // Most space to reclaim first
+    report.groups = groups.sort((a, b) => b.size * (b.paths.length - 1) - a.size * (a.paths.length - 1));
+    report.status = 'done';
+    report.finishedAt = Date.now();
+    console.log(`[FileIndex] ${groups.length} duplicate group(s) found on box ${this.boxId}`);
+  }
+
+  // Digest of a file, from the cache while its size and modification are unchanged
+  private async hashOf(entry: FileIndexEntry): Promise<string | null> {
+    const cached = this.hashes.get(entry.path);
+    if (cached && cached.size === entry.size && cached.modification === entry.modification) {
+      return cached.hash;
+    }
+    const hash = await this.computeHash(entry.path);
+    if (hash) {
+      this.hashes.set(entry.path, { size: entry.size, modification: entry.modification, hash });
+    }
+    return hash;
+  }
+
+  private async computeHash(path: string): Promise<string | null> {
+    const api = freeboxApis.forBox(this.boxId);
+    const started = await api.hashFile(encodePath(path), config.fileIndex.hashType);
+    if (!started.success || !started.result) {
+      console.warn(`[FileIndex] Cannot hash ${path}: ${started.msg || started.error_code}`);
+      return null;
+    }
+
+    let task: FsTask = started.result;
+    const finished = () => task.state === 'done' || task.state === 'failed';
+    const deadline = Date.now() + config.fileIndex.hashTimeout * 1000;
+    try {
+      while (!finished() && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, HASH_POLL_INTERVAL));
+        const current = await api.getFsTask(task.id);
+        if (!current.success || !current.result) break;
+        task = current.result;
+      }
+      if (task.state !== 'done') {
+        console.warn(`[FileIndex] Cannot hash ${path}: ${task.state === 'failed' ? task.error : 'timeout'}`);
+        return null;
+      }
+      const digest = await api.getFsTaskHash(task.id);
+      return digest.success && typeof digest.result === 'string' ? digest.result : null;
+    } finally {
+      // Hash tasks would otherwise pile up in the tasks drawer
+      await api.deleteFsTask(task.id).catch(() => undefined);
+    }
+  }
+
+  private viewReport(): DuplicateReport {
+    const report: StoredReport = this.report ?? {
+      status: 'idle',
+      startedAt: null,
+      finishedAt: null,
+      path: '/',
+      minSize: config.fileIndex.duplicateMinSize,
+      candidates: 0,
+      hashed: 0,
+      failed: 0,
+      groups: [],
+      error: null
+    };
+
+    const groups: DuplicateGroup[] = [];
+    for (const group of report.groups) {
+      // Files deleted or modified since the scan leave their group
+      const files = group.paths
+        .map(path => this.entries.get(path))
+        .filter((entry): entry is FileIndexEntry => entry !== undefined
+          && entry.size === group.size
+          && this.hashes.get(entry.path)?.modification === entry.modification)
+        .map(toResult);
+      if (files.length > 1) {
+        groups.push({ hash: group.hash, size: group.size, files, reclaimable: group.size * (files.length - 1) });
+      }
+    }
+    return { ...report, groups, reclaimable: groups.reduce((sum, group) => sum + group.reclaimable, 0) };
+  }
+}
+
+export const fileIndexes = createBoxScoped(boxId => new FileIndexService(boxId));
+export const fileIndex = fileIndexes.proxy;
+
+// Start the periodic refresh of every box
+boxProfiles.list().forEach(box => fileIndexes.forBox(box.id));
+
+boxProfiles.onRemove(boxId => {
+  fileIndexes.forBox(boxId).destroy();
+  fileIndexes.delete(boxId);
+});
@@ -0,0 +1,110 @@
+import { freeboxApi, type FreeboxApiResponse } from './freeboxApi.js';
+import { currentBoxId } from './boxContext.js';
+import { fileIndexes } from './fileIndex.js';
+import { createError } from '../middleware/errorHandler.js';
+import type { FsTask } from '../../shared/freebox/index.js';
+
+const encodePath = (path: string): string => Buffer.from(path, 'utf-8').toString('base64');
+const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+const parentOf = (path: string): string => path.replace(/\/[^/]*$/, '') || '/';
+
+// States after which a task no longer changes
+export const FINISHED_TASK_STATES: FsTask['state'][] = ['done', 'failed'];
+
+export const isTaskFinished = (task: FsTask): boolean => FINISHED_TASK_STATES.includes(task.state);
+
+// Folders whose content a task changes (task paths are in clear text)
+const changedFolders = (task: FsTask): string[] => {
+  const sources = (task.src ?? []).map(parentOf);
+  switch (task.type) {
+    case 'cp':
+      return task.dst ? [task.dst] : [];
+    case 'mv':
+    case 'extract':
+      return task.dst ? [...sources, task.dst] : sources;
+    case 'rm':
+      return sources;
+    case 'archive':
+      return task.dst ? [parentOf(task.dst)] : [];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Background file operations of the Freebox (copy, move, delete, archive, extract)
+ *
+ * The Freebox runs them as tasks and keeps every task, finished or not, in
+ * /fs/tasks/ until it is deleted: this list is the state shown to the
+ * browser (fs_tasks WebSocket topic and /api/fs/tasks). When a listing first
+ * sees a task finished, failures are logged and the folders it changed are
+ * listed again by the file index.
+ */
+class FileTaskService {
+  // Finished task ids already seen, per box
+  private settled = new Map<string, Set<number>>();
+
+  async list(): Promise<FreeboxApiResponse<FsTask[]>> {
+    const response = await freeboxApi.getFsTasks();
+    if (response.success && response.result) {
+      this.settle(currentBoxId(), response.result);
+    }
+    return response;
+  }
+
+  async setState(id: number, state: 'paused' | 'running'): Promise<FreeboxApiResponse<FsTask>> {
+    return freeboxApi.updateFsTask(id, state);
+  }
+
+  // Stops the task when it is still running
+  async cancel(id: number): Promise<FreeboxApiResponse> {
+    return freeboxApi.deleteFsTask(id);
+  }
+
+  // Delete the finished tasks, returns how many were removed
+  async clearFinished(): Promise<number> {
+    const response = await freeboxApi.getFsTasks();
+    if (!response.success || !response.result) {
+      throw createError(response.msg || 'Impossible de lire les tâches', 502, response.error_code || 'TASKS_UNAVAILABLE');
+    }
+    let removed = 0;
+    for (const task of response.result.filter(isTaskFinished)) {
+      if ((await freeboxApi.deleteFsTask(task.id)).success) removed++;
+    }
+    return removed;
+  }
+
+  // Archive `files` as `name` (its extension decides the format) in the folder `dirname`
+  async archive(files: string[], dirname: string, name: string): Promise<FreeboxApiResponse<FsTask>> {
+    const parent = decodePath(dirname).replace(/\/+$/, '');
+    return freeboxApi.createArchive(files, encodePath(`${parent}/${name}`));
+  }
+
+  async extract(src: string, dst: string, options: { password?: string; deleteArchive?: boolean; overwrite?: boolean }): Promise<FreeboxApiResponse<FsTask>> {
+    return freeboxApi.extractArchive(src, dst, options);
+  }
+
+  private settle(boxId: string, tasks: FsTask[]) {
+    let settled = this.settled.get(boxId);
+    if (!settled) {
+      settled = new Set();
+      this.settled.set(boxId, settled);
+    }
+    for (const task of tasks) {
+      if (!isTaskFinished(task) || settled.has(task.id)) continue;
+      settled.add(task.id);
+      if (task.state === 'failed') {
+        console.warn(`[FileTasks] Task ${task.id} (${task.type}) failed on ${boxId}: ${task.error}`);
+      }
+      // Even a failed copy may have left part of its files
+      fileIndexes.forBox(boxId).markChanged(changedFolders(task));
+    }
+    // Forget the tasks deleted from the Freebox
+    const ids = new Set(tasks.map(task => task.id));
+    for (const id of settled) {
+      if (!ids.has(id)) settled.delete(id);
+    }
+  }
+}
+
+export const fileTasks = new FileTaskService();
@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import { WebSocket } from 'ws';
+import { freeboxApis } from './freeboxApi.js';
+import { fileIndexes } from './fileIndex.js';
+import { config } from '../config.js';
+import { createError } from '../middleware/errorHandler.js';
+import type { UploadConflictMode, UploadSession } from '../types/uploads.js';
+
+// Answer of the Freebox to an upload action
+interface UploadAnswer {
+  action?: string;
+  success?: boolean;
+  request_id?: number;
+  error_code?: string;
+  msg?: string;
+}
+
+interface PendingAction {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface UploadEntry {
+  session: UploadSession;
+  boxId: string;
+  // Dashboard user who started the upload, the only one allowed to continue it
+  owner: string | null;
+  socket: FreeboxUploadSocket;
+  // A chunk is being forwarded, chunks of one upload go one at a time
+  busy: boolean;
+}
+
+const SWEEP_INTERVAL = 60 * 1000;
+// Highest "name (n).ext" tried for the rename conflict mode
+const MAX_RENAME_ATTEMPTS = 1000;
+
+const encodePath = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+const decodePath = (b64: string): string => Buffer.from(b64, 'base64').toString('utf-8');
+const joinPath = (parent: string, name: string): string => (parent.endsWith('/') ? `${parent}${name}` : `${parent}/${name}`);
+
+/**
+ * FreeboxOS upload WebSocket (/api/vX/ws/upload), one file per socket
+ *
+ * upload_start opens the target file, binary frames carry its content and
+ * upload_finalize closes it; upload_cancel drops the partial file. Each
+ * action is answered with the same action and request_id.
+ */
+class FreeboxUploadSocket {
+  private boxId: string;
+  private ws: WebSocket | null = null;
+  private requestId = 0;
+  private pending = new Map<number, PendingAction>();
+  // Error the Freebox reported outside of an action (disk full while receiving data...)
+  private failure: Error | null = null;
+
+  constructor(boxId: string) {
+    this.boxId = boxId;
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN && !this.failure;
+  }
+
+  open(): Promise<void> {
+    const api = freeboxApis.forBox(this.boxId);
+    const token = api.getSessionToken();
+    if (!token) return Promise.reject(new Error('Non connecté à la Freebox'));
+
+    this.failure = null;
+    const url = `${api.getBaseUrl().replace(/^http/, 'ws')}/api/${config.freebox.apiVersion}/ws/upload`;
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, {
+        headers: { 'X-Fbx-App-Auth': token },
+        // The Freebox uses a self-signed certificate
+        rejectUnauthorized: false
+      });
+      this.ws = ws;
+
+      ws.once('open', () => resolve());
+      ws.on('error', (error) => {
+        console.warn('[Uploads] Freebox socket error:', error.message);
+        reject(new Error(`Connexion à la Freebox impossible : ${error.message}`));
+      });
+
+      ws.on('message', (raw, isBinary) => {
+        if (isBinary) return;
+        let answer: UploadAnswer;
+        try {
+          answer = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+        const pending = answer.request_id !== undefined ? this.pending.get(answer.request_id) : undefined;
+        if (pending && answer.request_id !== undefined) {
+          this.pending.delete(answer.request_id);
+          clearTimeout(pending.timer);
+          if (answer.success) pending.resolve();
+          else pending.reject(new Error(answer.msg || answer.error_code || 'Erreur de la Freebox'));
+        } else if (answer.success === false) {
+          this.failure = new Error(answer.msg || answer.error_code || 'Erreur de la Freebox');
+          ws.close();
+        }
+      });
+
+      ws.on('close', () => {
+        if (this.ws === ws) this.ws = null;
+        const error = this.failure ?? new Error('Connexion à la Freebox interrompue');
+        this.pending.forEach(pending => {
+          clearTimeout(pending.timer);
+          pending.reject(error);
+        });
+        this.pending.clear();
+      });
+    });
+  }
+
+  // Send an action and wait for its answer
+  call(action: string, params: Record<string, unknown> = {}): Promise<void> {
+    const ws = this.ws;
+    if (!ws || !this.isOpen()) return Promise.reject(this.failure ?? new Error('Connexion à la Freebox interrompue'));
+
+    const requestId = ++this.requestId;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`La Freebox n'a pas répondu (${action})`));
+      }, config.freebox.requestTimeout);
+      this.pending.set(requestId, { resolve, reject, timer });
+      ws.send(JSON.stringify({ action, request_id: requestId, ...params }));
+    });
+  }
+
+  // Resolves once the frame is handed to the network (backpressure for the browser)
+  sendData(chunk: Buffer): Promise<void> {
+    const ws = this.ws;
+    if (!ws || !this.isOpen()) return Promise.reject(this.failure ?? new Error('Connexion à la Freebox interrompue'));
+    return new Promise((resolve, reject) => {
+      ws.send(chunk, { binary: true }, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  close() {
+    this.ws?.close();
+    this.ws = null;
+  }
+}
+
+/**
+ * Chunked, resumable uploads from the browser to the Freebox storage
+ *
+ * The browser creates an upload then PUTs its chunks in order; each chunk is
+ * forwarded to the Freebox upload socket as it arrives, nothing is written
+ * on the dashboard side. A chunk at the wrong offset is refused with the
+ * expected one, so a browser that lost a response resumes where the
+ * Freebox is. If the Freebox socket drops, it is reopened in "resume" mode
+ * from the size of the partial file.
+ */
+class FileUploadService {
+  private uploads = new Map<string, UploadEntry>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  async create(
+    boxId: string,
+    owner: string | null,
+    params: { dirname: string; name: string; size: number; conflict?: UploadConflictMode }
+  ): Promise<UploadSession> {
+    const api = freeboxApis.forBox(boxId);
+    const directory = await api.getFileInfo(params.dirname);
+    if (!directory.success || directory.result?.type !== 'dir') {
+      throw createError('Dossier de destination introuvable', 404, 'DIRECTORY_NOT_FOUND');
+    }
+
+    const dir = decodePath(params.dirname);
+    let name = params.name;
+    let force: 'overwrite' | undefined;
+    let skipped = false;
+    if (await this.exists(boxId, joinPath(dir, name))) {
+      if (!params.conflict) {
+        throw createError(`Le fichier "${name}" existe déjà`, 409, 'FILE_EXISTS');
+      }
+      if (params.conflict === 'overwrite') force = 'overwrite';
+      else if (params.conflict === 'rename') name = await this.freeName(boxId, dir, name);
+      else skipped = true;
+    }
+
+    const now = Date.now();
+    const session: UploadSession = {
+      id: crypto.randomUUID(),
+      dirname: params.dirname,
+      path: encodePath(joinPath(dir, name)),
+      name,
+      size: params.size,
+      received: 0,
+      status: skipped ? 'skipped' : 'uploading',
+      createdAt: now,
+      updatedAt: now
+    };
+    if (skipped) return session;
+
+    const entry: UploadEntry = { session, boxId, owner, socket: new FreeboxUploadSocket(boxId), busy: false };
+    try {
+      await entry.socket.open();
+      await entry.socket.call('upload_start', {
+        size: session.size,
+        dirname: session.dirname,
+        filename: session.name,
+        ...(force ? { force } : {})
+      });
+    } catch (error) {
+      entry.socket.close();
+      throw createError((error as Error).message, 502, 'UPLOAD_FAILED');
+    }
+
+    this.uploads.set(session.id, entry);
+    this.startSweep();
+    console.log(`[Uploads] Started ${dir}/${name} (${session.size} bytes)`);
+
+    // Empty file: nothing to wait for
+    if (session.size === 0) await this.finalize(entry);
+    return { ...entry.session };
+  }
+
+  get(id: string, owner: string | null): UploadSession | null {
+    const entry = this.entryFor(id, owner);
+    return entry ? { ...entry.session } : null;
+  }
+
+  async append(id: string, owner: string | null, offset: number, chunk: Buffer): Promise<UploadSession> {
+    const entry = this.entryFor(id, owner);
+    if (!entry) throw createError('Envoi introuvable', 404, 'UPLOAD_NOT_FOUND');
+    const { session } = entry;
+    if (entry.busy) throw createError('Un morceau est déjà en cours d\'envoi', 409, 'UPLOAD_BUSY');
+
+    entry.busy = true;
+    try {
+      if (!entry.socket.isOpen()) {
+        await this.resume(entry);
+        // Everything arrived before the socket dropped
+        if (session.received === session.size) {
+          await this.finalize(entry);
+          return { ...session };
+        }
+      }
+      if (offset !== session.received) {
+        throw createError(`Position attendue : ${session.received}`, 409, 'OFFSET_MISMATCH');
+      }
+      if (session.received + chunk.length > session.size) {
+        throw createError('Le fichier dépasse la taille annoncée', 400, 'SIZE_EXCEEDED');
+      }
+
+      try {
+        await entry.socket.sendData(chunk);
+      } catch (error) {
+        // The Freebox may have kept part of the chunk: the next attempt resumes from its size
+        entry.socket.close();
+        throw createError((error as Error).message, 502, 'UPLOAD_FAILED');
+      }
+      session.received += chunk.length;
+      session.updatedAt = Date.now();
+
+      if (session.received === session.size) await this.finalize(entry);
+      return { ...session };
+    } finally {
+      entry.busy = false;
+    }
+  }
+
+  async cancel(id: string, owner: string | null): Promise<UploadSession | null> {
+    const entry = this.entryFor(id, owner);
+    if (!entry) return null;
+    await this.abort(entry, 'cancelled');
+    return { ...entry.session };
+  }
+
+  // Reopen the Freebox socket after it dropped, from what the Freebox actually received
+  private async resume(entry: UploadEntry) {
+    const { session } = entry;
+    const api = freeboxApis.forBox(entry.boxId);
+    const info = await api.getFileInfo(session.path);
+    const received = info.success && info.result ? info.result.size : 0;
+
+    try {
+      await entry.socket.open();
+      await entry.socket.call('upload_start', {
+        size: session.size,
+        dirname: session.dirname,
+        filename: session.name,
+        force: received > 0 ? 'resume' : 'overwrite'
+      });
+    } catch (error) {
+      entry.socket.close();
+      throw createError((error as Error).message, 502, 'UPLOAD_FAILED');
+    }
+    console.log(`[Uploads] Resumed ${session.name} at ${received}/${session.size}`);
+    session.received = Math.min(received, session.size);
+    session.updatedAt = Date.now();
+  }
+
+  private async finalize(entry: UploadEntry) {
+    const { session } = entry;
+    try {
+      await entry.socket.call('upload_finalize', { size: session.size });
+      session.status = 'done';
+      fileIndexes.forBox(entry.boxId).markChanged([decodePath(session.dirname)]);
+      console.log(`[Uploads] Finished ${session.name}`);
+    } catch (error) {
+      session.status = 'failed';
+      session.error = (error as Error).message;
+      console.error(`[Uploads] ${session.name} failed:`, session.error);
+    }
+    session.updatedAt = Date.now();
+    entry.socket.close();
+    this.uploads.delete(session.id);
+    if (session.status === 'failed') throw createError(session.error ?? 'Envoi échoué', 502, 'UPLOAD_FAILED');
+  }
+
+  private async abort(entry: UploadEntry, status: 'cancelled' | 'failed') {
+    const { session } = entry;
+    this.uploads.delete(session.id);
+    session.status = status;
+    if (status === 'failed') session.error = 'Envoi abandonné (aucune donnée reçue)';
+    session.updatedAt = Date.now();
+    try {
+      if (entry.socket.isOpen()) {
+        // The Freebox removes the partial file
+        await entry.socket.call('upload_cancel');
+      } else {
+        // The socket dropped with the upload: remove what it left behind
+        await freeboxApis.forBox(entry.boxId).removeFiles([session.path]);
+      }
+    } catch (error) {
+      console.warn(`[Uploads] Cancel of ${session.name} failed:`, (error as Error).message);
+    }
+    entry.socket.close();
+    console.log(`[Uploads] ${status === 'cancelled' ? 'Cancelled' : 'Expired'} ${session.name}`);
+  }
+
+  private entryFor(id: string, owner: string | null): UploadEntry | undefined {
+    const entry = this.uploads.get(id);
+    return entry && entry.owner === owner ? entry : undefined;
+  }
+
+  private async exists(boxId: string, p: string): Promise<boolean> {
+    const result = await freeboxApis.forBox(boxId).getFileInfo(encodePath(p));
+    if (result.success) return true;
+    if (result.error_code === 'path_not_found' || result.error_code === 'noent') return false;
+    throw createError(result.msg || 'Impossible de vérifier le dossier de destination', 502, 'UPLOAD_FAILED');
+  }
+
+  // "name (1).ext", "name (2).ext"... like the "both" mode of Freebox copies
+  private async freeName(boxId: string, dir: string, name: string): Promise<string> {
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+    for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+      const candidate = `${stem} (${n})${ext}`;
+      if (!(await this.exists(boxId, joinPath(dir, candidate)))) return candidate;
+    }
+    throw createError(`Aucun nom libre pour "${name}"`, 409, 'FILE_EXISTS');
+  }
+
+  // Cancel the uploads the browser gave up on (tab closed, network lost for good)
+  private startSweep() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      const limit = Date.now() - config.uploads.idleTimeout * 1000;
+      for (const entry of this.uploads.values()) {
+        if (entry.session.updatedAt < limit && !entry.busy) void this.abort(entry, 'failed');
+      }
+      if (this.uploads.size === 0 && this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+      }
+    }, SWEEP_INTERVAL);
+    this.sweepTimer.unref();
+  }
+}
+
+export const fileUploads = new FileUploadService();
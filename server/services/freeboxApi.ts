@@ -2,6 +2,18 @@ import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import {config, API_ENDPOINTS} from '../config.js';
+import {createBoxScoped, DEFAULT_BOX_ID} from './boxContext.js';
+import {boxProfiles} from './boxProfiles.js';
+import {
+    validate, formatIssue, array,
+    ApiVersionSchema, SystemInfoSchema, ConnectionStatusSchema, WifiBssSchema, LanInterfaceSchema, LanHostSchema,
+    DhcpStaticLeaseSchema, DownloadTaskSchema, DownloadStatsSchema, FsFileInfoSchema, FsListingSchema, FsTaskSchema, RrdDataSchema, StorageDiskSchema, CallEntrySchema, ContactSchema,
+    ParentalProfileSchema, NetworkControlSchema, NetworkControlRuleSchema, ParentalFilterSchema, VirtualMachineSchema,
+    type Schema, type SchemaIssue, type ApiVersion, type SystemInfo, type ConnectionStatus, type WifiBss,
+    type LanInterface, type LanHost, type DhcpStaticLease, type DownloadTask, type DownloadStats, type FsFileInfo, type FsListing, type FsTask, type RrdData, type StorageDisk,
+    type CallEntry, type Contact, type ParentalProfile, type NetworkControl, type NetworkControlRule,
+    type ParentalFilter, type VirtualMachine
+} from '../../shared/freebox/index.js';
 
 // Freebox uses self-signed certificates, so we need to disable TLS verification
 // This is safe since we're only communicating with the local Freebox
@@ -19,25 +31,39 @@ interface SessionData {
     permissions: Record<string, boolean>;
 }
 
-interface FreeboxApiResponse<T = unknown> {
+export interface FreeboxApiResponse<T = unknown> {
     success: boolean;
     result?: T;
     error_code?: string;
     msg?: string;
 }
 
-class FreeboxApiService {
+// Issues shown per mismatching response, the rest is only counted
+const MAX_LOGGED_ISSUES = 5;
+
+// Schema mismatches already logged, shared by every box: "GET /lan/browser/pub/ result[].l2ident.id".
+// A drifting field is reported once per process, not on every poll
+const reportedIssues = new Set<string>();
+
+export class FreeboxApiService {
+    private boxId: string;
     private baseUrl: string;
     private appToken: string | null = null;
     private sessionToken: string | null = null;
     private challenge: string | null = null;
     private permissions: Record<string, boolean> = {};
 
-    constructor() {
-        this.baseUrl = config.freebox.url;
+    constructor(boxId = DEFAULT_BOX_ID) {
+        this.boxId = boxId;
+        this.baseUrl = boxProfiles.get(boxId)?.url ?? config.freebox.url;
         this.loadToken();
     }
 
+    // Freebox profile this client talks to
+    getBoxId(): string {
+        return this.boxId;
+    }
+
     // Set the base URL (for switching between mafreebox.freebox.fr and local IP)
     setBaseUrl(url: string) {
         this.baseUrl = url;
@@ -50,6 +76,10 @@ class FreeboxApiService {
 
     // Get token file path (handles both relative and absolute paths)
     private getTokenPath(): string {
+        // Additional boxes keep their token next to the default one
+        if (this.boxId !== DEFAULT_BOX_ID) {
+            return boxProfiles.getDataFile(this.boxId, '.freebox_token');
+        }
         const tokenFile = config.freebox.tokenFile;
         // If it's already an absolute path, use it directly
         if (path.isAbsolute(tokenFile)) {
@@ -164,6 +194,37 @@ class FreeboxApiService {
         }
     }
 
+    // Same as request(), then checks the result against the resource schema.
+    // A mismatch is logged with the field path but the response is returned as is:
+    // the callers already cope with missing fields, a crash would be worse
+    private async requestValidated<T>(
+        method: string,
+        endpoint: string,
+        schema: Schema<T>,
+        body?: unknown
+    ): Promise<FreeboxApiResponse<T>> {
+        const response = await this.request<T>(method, endpoint, body);
+        if (response.success && response.result !== undefined) {
+            this.reportIssues(method, endpoint, validate(schema, response.result, 'result'));
+        }
+        return response;
+    }
+
+    private reportIssues(method: string, endpoint: string, issues: SchemaIssue[]): void {
+        // Array indexes are dropped so the same field on another entry is not reported again
+        const fresh = issues.filter(issue => {
+            const key = `${method} ${endpoint} ${issue.path.replace(/\[\d+\]/g, '[]')}`;
+            if (reportedIssues.has(key)) return false;
+            reportedIssues.add(key);
+            return true;
+        });
+        if (fresh.length === 0) return;
+
+        const shown = fresh.slice(0, MAX_LOGGED_ISSUES).map(formatIssue).join('; ');
+        const more = fresh.length > MAX_LOGGED_ISSUES ? ` (+${fresh.length - MAX_LOGGED_ISSUES} more)` : '';
+        console.warn(`[FreeboxAPI] Unexpected response: ${method} ${endpoint} - ${shown}${more}`);
+    }
+
     // HMAC-SHA1 password computation
     private computePassword(challenge: string): string {
         if (!this.appToken) {
@@ -331,7 +392,7 @@ class FreeboxApiService {
     // ==================== SYSTEM ====================
 
     // Get API version info (no auth required) - includes box model name
-    async getApiVersion(): Promise<FreeboxApiResponse> {
+    async getApiVersion(): Promise<FreeboxApiResponse<ApiVersion>> {
         const url = `${this.baseUrl}${API_ENDPOINTS.API_VERSION}`;
         try {
             const controller = new AbortController();
@@ -340,15 +401,16 @@ class FreeboxApiService {
             clearTimeout(timeout);
             const data = await response.json();
             // api_version endpoint returns data directly, not wrapped in {success, result}
-            return {success: true, result: data};
+            this.reportIssues('GET', API_ENDPOINTS.API_VERSION, validate(ApiVersionSchema, data, 'result'));
+            return {success: true, result: data as ApiVersion};
         } catch (error) {
             console.error('[FreeboxAPI] Failed to get API version:', error);
             return {success: false, msg: 'Failed to get API version'};
         }
     }
 
-    async getSystemInfo(): Promise<FreeboxApiResponse> {
-        const result = await this.request('GET', API_ENDPOINTS.SYSTEM);
+    async getSystemInfo(): Promise<FreeboxApiResponse<SystemInfo>> {
+        const result = await this.requestValidated('GET', API_ENDPOINTS.SYSTEM, SystemInfoSchema);
         // console.log('[FreeboxAPI] System info result:', JSON.stringify(result, null, 2));
         return result;
     }
@@ -373,8 +435,8 @@ class FreeboxApiService {
 
     // ==================== CONNECTION ====================
 
-    async getConnectionStatus(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.CONNECTION);
+    async getConnectionStatus(): Promise<FreeboxApiResponse<ConnectionStatus>> {
+        return this.requestValidated('GET', API_ENDPOINTS.CONNECTION, ConnectionStatusSchema);
     }
 
     async getConnectionConfig(): Promise<FreeboxApiResponse> {
@@ -408,13 +470,13 @@ class FreeboxApiService {
         dateStart?: number,
         dateEnd?: number,
         fields?: string[]
-    ): Promise<FreeboxApiResponse> {
+    ): Promise<FreeboxApiResponse<RrdData>> {
         const body: Record<string, unknown> = {db};
         if (dateStart) body.date_start = dateStart;
         if (dateEnd) body.date_end = dateEnd;
         if (fields) body.fields = fields;
 
-        return this.request('POST', API_ENDPOINTS.RRD, body);
+        return this.requestValidated('POST', API_ENDPOINTS.RRD, RrdDataSchema, body);
     }
 
     // ==================== WIFI ====================
@@ -435,12 +497,12 @@ class FreeboxApiService {
         return this.request('GET', `${API_ENDPOINTS.WIFI_AP}${apId}/stations/`);
     }
 
-    async getWifiBss(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.WIFI_BSS);
+    async getWifiBss(): Promise<FreeboxApiResponse<WifiBss[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.WIFI_BSS, array(WifiBssSchema));
     }
 
-    async updateWifiBss(bssId: string, params: { enabled: boolean }): Promise<FreeboxApiResponse> {
-        // API expects: { config: { enabled: true/false } }
+    async updateWifiBss(bssId: string, params: { enabled?: boolean; [key: string]: unknown }): Promise<FreeboxApiResponse> {
+        // API expects: { config: { enabled: true/false, ssid, ... } }
         return this.request('PUT', `${API_ENDPOINTS.WIFI_BSS}${bssId}`, {config: params});
     }
 
@@ -529,12 +591,12 @@ class FreeboxApiService {
         return this.request('PUT', API_ENDPOINTS.LAN_CONFIG, data);
     }
 
-    async getLanBrowserInterfaces(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.LAN_BROWSER);
+    async getLanBrowserInterfaces(): Promise<FreeboxApiResponse<LanInterface[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.LAN_BROWSER, array(LanInterfaceSchema));
     }
 
-    async getLanHosts(interfaceName: string): Promise<FreeboxApiResponse> {
-        return this.request('GET', `${API_ENDPOINTS.LAN_BROWSER.replace('interfaces/', '')}${interfaceName}/`);
+    async getLanHosts(interfaceName: string): Promise<FreeboxApiResponse<LanHost[]>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.LAN_BROWSER.replace('interfaces/', '')}${interfaceName}/`, array(LanHostSchema));
     }
 
     async wakeOnLan(interfaceName: string, mac: string, password?: string): Promise<FreeboxApiResponse> {
@@ -555,8 +617,8 @@ class FreeboxApiService {
         return this.request('GET', API_ENDPOINTS.DHCP_DYNAMIC_LEASES);
     }
 
-    async getDhcpStaticLeases(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.DHCP_STATIC_LEASES);
+    async getDhcpStaticLeases(): Promise<FreeboxApiResponse<DhcpStaticLease[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.DHCP_STATIC_LEASES, array(DhcpStaticLeaseSchema));
     }
 
     async getDhcpStaticLease(id: string): Promise<FreeboxApiResponse> {
@@ -577,12 +639,12 @@ class FreeboxApiService {
 
     // ==================== DOWNLOADS ====================
 
-    async getDownloads(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.DOWNLOADS);
+    async getDownloads(): Promise<FreeboxApiResponse<DownloadTask[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.DOWNLOADS, array(DownloadTaskSchema));
     }
 
-    async getDownload(id: number): Promise<FreeboxApiResponse> {
-        return this.request('GET', `${API_ENDPOINTS.DOWNLOADS}${id}`);
+    async getDownload(id: number): Promise<FreeboxApiResponse<DownloadTask>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.DOWNLOADS}${id}`, DownloadTaskSchema);
     }
 
     async getDownloadTrackers(id: number): Promise<FreeboxApiResponse> {
@@ -731,8 +793,8 @@ class FreeboxApiService {
         }
     }
 
-    async getDownloadStats(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.DOWNLOADS_STATS);
+    async getDownloadStats(): Promise<FreeboxApiResponse<DownloadStats>> {
+        return this.requestValidated('GET', API_ENDPOINTS.DOWNLOADS_STATS, DownloadStatsSchema);
     }
 
     async getDownloadConfig(): Promise<FreeboxApiResponse> {
@@ -745,19 +807,52 @@ class FreeboxApiService {
 
     // ==================== FILE SYSTEM ====================
 
-    async listFiles(path: string): Promise<FreeboxApiResponse> {
+    // Entries of a folder, whatever the API version. The "." and ".." entries are only
+    // kept on request (the explorer navigates up with "..")
+    async listFiles(path: string, options: {dotEntries?: boolean} = {}): Promise<FreeboxApiResponse<FsFileInfo[]>> {
         // For root path, call /fs/ls/ without encoded path
-        if (path === '/' || path === '') {
-            return this.request('GET', API_ENDPOINTS.FS_LIST);
+        // Otherwise the path is already base64 encoded (as returned by the Freebox API), don't re-encode it
+        const endpoint = path === '/' || path === '' ? API_ENDPOINTS.FS_LIST : `${API_ENDPOINTS.FS_LIST}${path}`;
+        const response = await this.request<FsFileInfo[] | FsListing>('GET', endpoint);
+        if (!response.success || response.result === undefined) {
+            return {...response, result: undefined};
         }
+
+        const listing: FsListing = Array.isArray(response.result) ? {entries: response.result} : response.result;
+        this.reportIssues('GET', endpoint, validate(FsListingSchema, listing, 'result'));
+        const entries = Array.isArray(listing.entries) ? listing.entries : [];
+        return {
+            ...response,
+            result: options.dotEntries ? entries : entries.filter(entry => entry.name !== '.' && entry.name !== '..')
+        };
+    }
+
+    async getFileInfo(path: string): Promise<FreeboxApiResponse<FsFileInfo>> {
         // Path is already base64 encoded (as returned by the Freebox API)
-        // Don't re-encode it, use it directly
-        return this.request('GET', `${API_ENDPOINTS.FS_LIST}${path}`);
+        return this.requestValidated('GET', `${API_ENDPOINTS.FS_INFO}${path}`, FsFileInfoSchema);
     }
 
-    async getFileInfo(path: string): Promise<FreeboxApiResponse> {
+    // Raw file content from /dl/, the body is left to the caller to stream.
+    // The timeout only covers the response headers, not the transfer
+    async openDownload(path: string, options: {range?: string; signal?: AbortSignal} = {}): Promise<Response> {
         // Path is already base64 encoded (as returned by the Freebox API)
-        return this.request('GET', `${API_ENDPOINTS.FS_INFO}${path}`);
+        const url = this.buildUrl(`${API_ENDPOINTS.FS_DOWNLOAD}${path}`);
+        const headers: Record<string, string> = {};
+        if (this.sessionToken) {
+            headers['X-Fbx-App-Auth'] = this.sessionToken;
+        }
+        if (options.range) {
+            headers['Range'] = options.range;
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), config.freebox.requestTimeout);
+        const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
+        try {
+            return await fetch(url, {headers, signal});
+        } finally {
+            clearTimeout(timeout);
+        }
     }
 
     async createDirectory(parent: string, dirname: string): Promise<FreeboxApiResponse> {
@@ -774,25 +869,73 @@ class FreeboxApiService {
         return this.request('POST', API_ENDPOINTS.FS_RENAME, {src, dst});
     }
 
-    async removeFiles(files: string[]): Promise<FreeboxApiResponse> {
+    async removeFiles(files: string[]): Promise<FreeboxApiResponse<FsTask>> {
         // Files paths are already base64 encoded
-        return this.request('POST', API_ENDPOINTS.FS_REMOVE, {files});
+        return this.requestValidated('POST', API_ENDPOINTS.FS_REMOVE, FsTaskSchema, {files});
     }
 
-    async copyFiles(files: string[], dst: string, mode: string = 'overwrite'): Promise<FreeboxApiResponse> {
+    async copyFiles(files: string[], dst: string, mode: string = 'overwrite'): Promise<FreeboxApiResponse<FsTask>> {
         // Files and dst paths are already base64 encoded
-        return this.request('POST', API_ENDPOINTS.FS_COPY, {files, dst, mode});
+        return this.requestValidated('POST', API_ENDPOINTS.FS_COPY, FsTaskSchema, {files, dst, mode});
     }
 
-    async moveFiles(files: string[], dst: string, mode: string = 'overwrite'): Promise<FreeboxApiResponse> {
+    async moveFiles(files: string[], dst: string, mode: string = 'overwrite'): Promise<FreeboxApiResponse<FsTask>> {
         // Files and dst paths are already base64 encoded
-        return this.request('POST', API_ENDPOINTS.FS_MOVE, {files, dst, mode});
+        return this.requestValidated('POST', API_ENDPOINTS.FS_MOVE, FsTaskSchema, {files, dst, mode});
+    }
+
+    async createArchive(files: string[], dst: string): Promise<FreeboxApiResponse<FsTask>> {
+        // Files paths are base64 encoded, dst is the base64 path of the archive to create
+        // (its extension decides the format: .zip, .tar, .tar.gz, .7z...)
+        return this.requestValidated('POST', API_ENDPOINTS.FS_ARCHIVE, FsTaskSchema, {files, dst});
+    }
+
+    async extractArchive(src: string, dst: string, options: {password?: string; deleteArchive?: boolean; overwrite?: boolean} = {}): Promise<FreeboxApiResponse<FsTask>> {
+        // Src and dst (the destination folder) paths are base64 encoded
+        return this.requestValidated('POST', API_ENDPOINTS.FS_EXTRACT, FsTaskSchema, {
+            src,
+            dst,
+            password: options.password ?? '',
+            delete_archive: options.deleteArchive ?? false,
+            overwrite: options.overwrite ?? false
+        });
+    }
+
+    // Checksum of a file, computed by the Freebox as a "hash" task: the digest
+    // is read with getFsTaskHash() once the task is done
+    async hashFile(src: string, hashType: string = 'sha256'): Promise<FreeboxApiResponse<FsTask>> {
+        // Src path is base64 encoded, hashType is md5, sha1, sha256 or sha512
+        return this.requestValidated('POST', API_ENDPOINTS.FS_HASH, FsTaskSchema, {src, hash_type: hashType});
+    }
+
+    async getFsTaskHash(id: number): Promise<FreeboxApiResponse<string>> {
+        return this.request<string>('GET', `${API_ENDPOINTS.FS_TASKS}${id}/hash`);
+    }
+
+    // Copies, moves, deletions... are run by the Freebox as tasks, kept in
+    // this list until deleted, finished or not
+    async getFsTasks(): Promise<FreeboxApiResponse<FsTask[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.FS_TASKS, array(FsTaskSchema));
+    }
+
+    async getFsTask(id: number): Promise<FreeboxApiResponse<FsTask>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.FS_TASKS}${id}`, FsTaskSchema);
+    }
+
+    // Only the state can be changed: "paused" or "running"
+    async updateFsTask(id: number, state: 'paused' | 'running'): Promise<FreeboxApiResponse<FsTask>> {
+        return this.requestValidated('PUT', `${API_ENDPOINTS.FS_TASKS}${id}`, FsTaskSchema, {state});
+    }
+
+    // Cancels the task if it is still running
+    async deleteFsTask(id: number): Promise<FreeboxApiResponse> {
+        return this.request('DELETE', `${API_ENDPOINTS.FS_TASKS}${id}`);
     }
 
     // ==================== STORAGE ====================
 
-    async getDisks(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.STORAGE_DISK);
+    async getDisks(): Promise<FreeboxApiResponse<StorageDisk[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.STORAGE_DISK, array(StorageDiskSchema));
     }
 
     async getStorageInfo(): Promise<FreeboxApiResponse> {
@@ -801,8 +944,8 @@ class FreeboxApiService {
 
     // ==================== CALLS ====================
 
-    async getCallLog(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.CALL_LOG);
+    async getCallLog(): Promise<FreeboxApiResponse<CallEntry[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.CALL_LOG, array(CallEntrySchema));
     }
 
     async markCallsAsRead(): Promise<FreeboxApiResponse> {
@@ -819,8 +962,8 @@ class FreeboxApiService {
 
     // ==================== CONTACTS ====================
 
-    async getContacts(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.CONTACTS);
+    async getContacts(): Promise<FreeboxApiResponse<Contact[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.CONTACTS, array(ContactSchema));
     }
 
     async getContact(id: number): Promise<FreeboxApiResponse> {
@@ -879,8 +1022,8 @@ class FreeboxApiService {
 
     // ==================== PARENTAL / PROFILES ====================
 
-    async getProfiles(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.PROFILE);
+    async getProfiles(): Promise<FreeboxApiResponse<ParentalProfile[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.PROFILE, array(ParentalProfileSchema));
     }
 
     async getProfile(id: number): Promise<FreeboxApiResponse> {
@@ -899,12 +1042,12 @@ class FreeboxApiService {
         return this.request('DELETE', `${API_ENDPOINTS.PROFILE}${id}`);
     }
 
-    async getNetworkControl(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.PROFILE_NETWORK_CONTROL);
+    async getNetworkControl(): Promise<FreeboxApiResponse<NetworkControl[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.PROFILE_NETWORK_CONTROL, array(NetworkControlSchema));
     }
 
-    async getNetworkControlForProfile(profileId: number): Promise<FreeboxApiResponse> {
-        return this.request('GET', `${API_ENDPOINTS.PROFILE_NETWORK_CONTROL}${profileId}`);
+    async getNetworkControlForProfile(profileId: number): Promise<FreeboxApiResponse<NetworkControl>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.PROFILE_NETWORK_CONTROL}${profileId}`, NetworkControlSchema);
     }
 
     async updateNetworkControlForProfile(profileId: number, data: unknown): Promise<FreeboxApiResponse> {
@@ -912,8 +1055,8 @@ class FreeboxApiService {
     }
 
     // Network Control Rules
-    async getNetworkControlRules(profileId: number): Promise<FreeboxApiResponse> {
-        return this.request('GET', `${API_ENDPOINTS.PROFILE_NETWORK_CONTROL}${profileId}/rules`);
+    async getNetworkControlRules(profileId: number): Promise<FreeboxApiResponse<NetworkControlRule[]>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.PROFILE_NETWORK_CONTROL}${profileId}/rules`, array(NetworkControlRuleSchema));
     }
 
     async getNetworkControlRule(profileId: number, ruleId: number): Promise<FreeboxApiResponse> {
@@ -940,8 +1083,8 @@ class FreeboxApiService {
         return this.request('PUT', API_ENDPOINTS.PARENTAL_CONFIG, data);
     }
 
-    async getParentalFilters(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.PARENTAL_FILTER);
+    async getParentalFilters(): Promise<FreeboxApiResponse<ParentalFilter[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.PARENTAL_FILTER, array(ParentalFilterSchema));
     }
 
     async getParentalFilter(id: number): Promise<FreeboxApiResponse> {
@@ -1094,12 +1237,12 @@ class FreeboxApiService {
 
     // ==================== VM ====================
 
-    async getVms(): Promise<FreeboxApiResponse> {
-        return this.request('GET', API_ENDPOINTS.VM);
+    async getVms(): Promise<FreeboxApiResponse<VirtualMachine[]>> {
+        return this.requestValidated('GET', API_ENDPOINTS.VM, array(VirtualMachineSchema));
     }
 
-    async getVm(id: number): Promise<FreeboxApiResponse> {
-        return this.request('GET', `${API_ENDPOINTS.VM}${id}`);
+    async getVm(id: number): Promise<FreeboxApiResponse<VirtualMachine>> {
+        return this.requestValidated('GET', `${API_ENDPOINTS.VM}${id}`, VirtualMachineSchema);
     }
 
     async createVm(data: unknown): Promise<FreeboxApiResponse> {
@@ -1163,4 +1306,13 @@ class FreeboxApiService {
 }
 
 // Singleton instance
-export const freeboxApi = new FreeboxApiService();
\ No newline at end of file
+// One client per Freebox profile; `freeboxApi` targets the box of the current request
+export const freeboxApis = createBoxScoped(boxId => new FreeboxApiService(boxId));
+export const freeboxApi = freeboxApis.proxy;
+
+boxProfiles.onRemove(boxId => {
+    const api = freeboxApis.forBox(boxId);
+    void api.logout().catch(() => undefined);
+    api.resetToken();
+    freeboxApis.delete(boxId);
+});
\ No newline at end of file
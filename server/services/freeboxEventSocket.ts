@@ -0,0 +1,177 @@
+import { WebSocket } from 'ws';
+import { freeboxApis } from './freeboxApi.js';
+import { createBoxScoped } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
+import { config } from '../config.js';
+
+// Notifications pushed by FreeboxOS ("<source>_<event>" as used for registration)
+export const NATIVE_EVENTS = [
+  'lan_host_l3addr_reachable',
+  'lan_host_l3addr_unreachable',
+  'vm_state_changed',
+  'vm_disk_task_done'
+] as const;
+
+export interface NativeEvent {
+  source: string;
+  event: string;
+  result: unknown;
+}
+
+interface NativeMessage {
+  action?: string;
+  success?: boolean;
+  source?: string;
+  event?: string;
+  result?: unknown;
+  msg?: string;
+}
+
+type NativeEventListener = (event: NativeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const RECONNECT_DELAY = 10000;
+
+/**
+ * FreeboxOS event WebSocket client (/api/vX/ws/event)
+ *
+ * Keeps one authenticated socket to a Freebox while the dashboard needs it
+ * and forwards the registered notifications to listeners.
+ */
+class FreeboxEventSocketService {
+  private boxId: string;
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private running = false;
+  private registered = false;
+  private listeners = new Set<NativeEventListener>();
+  private statusListeners = new Set<StatusListener>();
+
+  constructor(boxId: string) {
+    this.boxId = boxId;
+  }
+
+  onEvent(listener: NativeEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  // True once the Freebox acknowledged the registration
+  isConnected(): boolean {
+    return this.registered;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.ws?.close();
+    this.ws = null;
+    this.setRegistered(false);
+  }
+
+  // Session token changed (login): reopen the socket with the new credentials
+  restart() {
+    if (!this.running) return;
+    this.stop();
+    this.start();
+  }
+
+  private connect() {
+    if (!this.running || this.ws) return;
+    const api = freeboxApis.forBox(this.boxId);
+    const token = api.getSessionToken();
+    if (!token) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    const url = `${api.getBaseUrl().replace(/^http/, 'ws')}/api/${config.freebox.apiVersion}/ws/event`;
+    const ws = new WebSocket(url, {
+      headers: { 'X-Fbx-App-Auth': token },
+      // The Freebox uses a self-signed certificate
+      rejectUnauthorized: false
+    });
+    this.ws = ws;
+
+    ws.on('open', () => {
+      ws.send(JSON.stringify({ action: 'register', events: NATIVE_EVENTS }));
+    });
+
+    ws.on('message', (raw) => {
+      let message: NativeMessage;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      if (message.action === 'register') {
+        if (message.success) {
+          console.log('[FreeboxWS] Registered to native events');
+          this.setRegistered(true);
+        } else {
+          console.warn('[FreeboxWS] Registration refused:', message.msg);
+          ws.close();
+        }
+      } else if (message.action === 'notification' && message.success && message.source && message.event) {
+        const event: NativeEvent = { source: message.source, event: message.event, result: message.result };
+        for (const listener of this.listeners) {
+          try {
+            listener(event);
+          } catch (error) {
+            console.error('[FreeboxWS] Listener failed:', error);
+          }
+        }
+      }
+    });
+
+    ws.on('close', () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.setRegistered(false);
+      this.scheduleReconnect();
+    });
+
+    ws.on('error', (error) => {
+      // Older firmwares answer 404: the dashboard keeps polling in that case
+      console.warn('[FreeboxWS] Error:', error.message);
+    });
+  }
+
+  private scheduleReconnect() {
+    if (!this.running || this.reconnectTimeout) return;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, RECONNECT_DELAY);
+    this.reconnectTimeout.unref();
+  }
+
+  private setRegistered(registered: boolean) {
+    if (this.registered === registered) return;
+    this.registered = registered;
+    this.statusListeners.forEach(listener => listener(registered));
+  }
+}
+
+// One socket per Freebox profile
+export const freeboxEventSockets = createBoxScoped(boxId => new FreeboxEventSocketService(boxId));
+
+boxProfiles.onRemove(boxId => {
+  freeboxEventSockets.forBox(boxId).stop();
+  freeboxEventSockets.delete(boxId);
+});
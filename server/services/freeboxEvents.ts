@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { freeboxApi } from './freeboxApi.js';
+import { fetchLanHosts } from './dashboardData.js';
+import { normalizeSystemInfo } from './apiNormalizer.js';
+import { config } from '../config.js';
+import type { FreeboxEvent, FreeboxEventData, FreeboxEventType } from '../types/events.js';
+import type { CallEntry, DownloadTask } from '../../shared/freebox/index.js';
+
+type FreeboxEventListener = (event: FreeboxEvent) => void;
+
+// Download states that mean the transfer is over
+const DOWNLOAD_DONE_STATES = ['done', 'seeding'];
+
+/**
+ * Freebox event detector
+ *
+ * Diffs successive Freebox states and emits high-level events. Connection
+ * state changes are also reported by the connection WebSocket (1s polling
+ * while a browser is open); everything else comes from a slower background poll.
+ */
+class FreeboxEventsService {
+  private listeners = new Set<FreeboxEventListener>();
+  private interval: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  // Last known state (null until the first successful poll: nothing is emitted for it)
+  private connectionState: string | null = null;
+  private uptime: number | null = null;
+  private lastCallId: number | null = null;
+  private downloadStates: Map<number, string> | null = null;
+  private knownHosts: Set<string> | null = null;
+
+  subscribe(listener: FreeboxEventListener): () => void {
+    this.listeners.add(listener);
+    this.start();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private start() {
+    if (this.interval) return;
+    this.interval = setInterval(() => this.poll(), config.events.pollInterval * 1000);
+    this.interval.unref();
+  }
+
+  private stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  emit<T extends FreeboxEventType>(type: T, data: FreeboxEventData[T]) {
+    const event: FreeboxEvent<T> = {
+      id: crypto.randomUUID(),
+      type,
+      timestamp: Math.floor(Date.now() / 1000),
+      data
+    };
+    console.log(`[Events] ${type}`);
+    for (const listener of this.listeners) {
+      try {
+        listener(event as FreeboxEvent);
+      } catch (error) {
+        console.error('[Events] Listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Connection status seen by any poller (background poll or connection WebSocket)
+   */
+  reportConnectionStatus(status: { state?: string; media?: string; ipv4?: string }) {
+    if (!status.state) return;
+    const previous = this.connectionState;
+    this.connectionState = status.state;
+    if (previous !== null && previous !== status.state) {
+      this.emit('connection.state_changed', {
+        previous,
+        state: status.state,
+        media: status.media,
+        ipv4: status.ipv4
+      });
+    }
+  }
+
+  /**
+   * Uptime seen by any poller: going backwards means the Freebox rebooted
+   */
+  reportUptime(uptime: number) {
+    const previous = this.uptime;
+    this.uptime = uptime;
+    if (previous !== null && uptime < previous) {
+      this.emit('system.rebooted', { previousUptime: previous, uptime });
+    }
+  }
+
+  private async poll() {
+    if (!freeboxApi.isLoggedIn() || this.polling) return;
+    this.polling = true;
+
+    try {
+      const [connection, system, calls, downloads] = await Promise.allSettled([
+        freeboxApi.getConnectionStatus(),
+        freeboxApi.getSystemInfo(),
+        freeboxApi.getCallLog(),
+        freeboxApi.getDownloads()
+      ]);
+
+      if (connection.status === 'fulfilled' && connection.value.success && connection.value.result) {
+        this.reportConnectionStatus(connection.value.result as { state?: string; media?: string; ipv4?: string });
+      }
+
+      if (system.status === 'fulfilled' && system.value.success && system.value.result) {
+        const info = normalizeSystemInfo(system.value.result);
+        if (typeof info.uptime_val === 'number') this.reportUptime(info.uptime_val);
+      }
+
+      if (calls.status === 'fulfilled' && calls.value.success) {
+        this.diffCalls(Array.isArray(calls.value.result) ? calls.value.result : []);
+      }
+
+      if (downloads.status === 'fulfilled' && downloads.value.success) {
+        this.diffDownloads(Array.isArray(downloads.value.result) ? downloads.value.result : []);
+      }
+
+      await this.pollLanHosts();
+    } catch (error) {
+      console.error('[Events] Poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private diffCalls(calls: CallEntry[]) {
+    const maxId = calls.reduce((max, c) => Math.max(max, c.id), 0);
+    if (this.lastCallId !== null) {
+      calls
+        .filter(c => c.id > (this.lastCallId as number) && c.type === 'missed')
+        .sort((a, b) => a.id - b.id)
+        .forEach(c => this.emit('call.missed', { id: c.id, number: c.number, name: c.name || undefined, datetime: c.datetime }));
+    }
+    this.lastCallId = Math.max(this.lastCallId ?? 0, maxId);
+  }
+
+  private diffDownloads(tasks: DownloadTask[]) {
+    const states = new Map(tasks.map(t => [t.id, t.status]));
+    if (this.downloadStates) {
+      for (const task of tasks) {
+        const previous = this.downloadStates.get(task.id);
+        if (previous && !DOWNLOAD_DONE_STATES.includes(previous) && DOWNLOAD_DONE_STATES.includes(task.status)) {
+          this.emit('download.completed', {
+            id: task.id,
+            name: task.name,
+            size: task.size,
+            // download_dir is base64 encoded by the Freebox API
+            downloadDir: task.download_dir ? Buffer.from(task.download_dir, 'base64').toString('utf-8') : undefined
+          });
+        }
+      }
+    }
+    this.downloadStates = states;
+  }
+
+  private async pollLanHosts() {
+    const hosts = await fetchLanHosts();
+    if (!hosts) return;
+
+    const seeding = this.knownHosts === null;
+    const known = this.knownHosts ?? new Set<string>();
+    for (const host of hosts) {
+      const mac = host.l2ident?.type === 'mac_address' ? host.l2ident.id?.toLowerCase() : undefined;
+      if (!mac || known.has(mac)) continue;
+      known.add(mac);
+      if (seeding) continue;
+
+      const ipv4 = host.l3connectivities?.find(c => c.af === 'ipv4' && c.active) ?? host.l3connectivities?.find(c => c.af === 'ipv4');
+      this.emit('lan.host_new', {
+        mac,
+        name: host.primary_name || mac,
+        vendor: host.vendor_name || undefined,
+        ip: ipv4?.addr,
+        interface: host.interface
+      });
+    }
+    this.knownHosts = known;
+  }
+}
+
+export const freeboxEvents = new FreeboxEventsService();
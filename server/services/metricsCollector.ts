@@ -0,0 +1,171 @@
+import { freeboxApi } from './freeboxApi.js';
+import { fetchLanHosts } from './dashboardData.js';
+import { normalizeSystemInfo } from './apiNormalizer.js';
+import { metricsStore } from './metricsStore.js';
+import { config } from '../config.js';
+import type { MetricValues, UptimeDay } from '../types/metrics.js';
+import type { LanHost } from '../../shared/freebox/index.js';
+
+const DAY = 86400;
+// Uptime may drift a little between two samples without being a reboot
+const REBOOT_MARGIN = 120;
+// Uptime history is read from the 15 minute tier
+const UPTIME_BUCKET = 900;
+
+// Metric names are flat: sensors keep their Freebox id with a temp_/fan_ prefix
+const sensorMetric = (id: string): string => (id.startsWith('temp_') ? id : `temp_${id}`);
+const fanMetric = (id: string): string => (id.startsWith('fan') ? id : `fan_${id}`);
+
+/**
+ * Background collector
+ *
+ * Samples the Freebox every `config.metrics.sampleInterval` seconds while the
+ * server holds a Freebox session, independently of any connected browser.
+ */
+class MetricsCollectorService {
+  private interval: NodeJS.Timeout | null = null;
+  private lastSample: { time: number; values: MetricValues } | null = null;
+  private collecting = false;
+
+  start() {
+    if (!config.metrics.enabled) {
+      console.log('[Metrics] Collector disabled (METRICS_ENABLED=false)');
+      return;
+    }
+    if (this.interval) return;
+
+    console.log(`[Metrics] Collector started (every ${config.metrics.sampleInterval}s)`);
+    this.interval = setInterval(() => this.collect(), config.metrics.sampleInterval * 1000);
+    this.interval.unref();
+    this.collect();
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  getLastSample() {
+    return this.lastSample;
+  }
+
+  private async collect() {
+    if (!freeboxApi.isLoggedIn() || this.collecting) return;
+    this.collecting = true;
+
+    try {
+      const values: MetricValues = {};
+      const [connection, system, hosts] = await Promise.allSettled([
+        freeboxApi.getConnectionStatus(),
+        freeboxApi.getSystemInfo(),
+        fetchLanHosts()
+      ]);
+
+      if (connection.status === 'fulfilled' && connection.value.success && connection.value.result) {
+        const status = connection.value.result as { state?: string; rate_down?: number; rate_up?: number };
+        if (typeof status.rate_down === 'number') values.rate_down = status.rate_down;
+        if (typeof status.rate_up === 'number') values.rate_up = status.rate_up;
+        values.connection_up = status.state === 'up' ? 1 : 0;
+      }
+
+      if (system.status === 'fulfilled' && system.value.success && system.value.result) {
+        const info = normalizeSystemInfo(system.value.result as Record<string, unknown>);
+        info.sensors?.forEach(s => {
+          values[sensorMetric(s.id)] = s.value;
+        });
+        info.fans?.forEach(f => {
+          values[fanMetric(f.id)] = f.value;
+        });
+        // Model-independent fields (derived by the normalizer)
+        if (info.temp_cpum != null) values.temp_cpum = info.temp_cpum;
+        if (info.temp_cpub != null) values.temp_cpub = info.temp_cpub;
+        if (info.temp_sw != null) values.temp_sw = info.temp_sw;
+        if (info.fan_rpm != null) values.fan_rpm = info.fan_rpm;
+        if (typeof info.uptime_val === 'number') values.uptime = info.uptime_val;
+      }
+
+      if (hosts.status === 'fulfilled' && hosts.value) {
+        Object.assign(values, this.countHosts(hosts.value));
+      }
+
+      if (Object.keys(values).length > 0) {
+        const time = Math.floor(Date.now() / 1000);
+        metricsStore.append(time, values);
+        this.lastSample = { time, values };
+      }
+    } catch (error) {
+      console.error('[Metrics] Collection failed:', error);
+    } finally {
+      this.collecting = false;
+    }
+  }
+
+  // Active LAN hosts and WiFi stations per band (same rules as /api/wifi/full)
+  private countHosts(hosts: LanHost[]): MetricValues {
+    const active = hosts.filter(h => h.active && h.reachable);
+    const wifi = active.filter(h => h.access_point?.connectivity_type === 'wifi');
+    const counts: MetricValues = {
+      lan_hosts: active.length,
+      wifi_stations: wifi.length,
+      wifi_stations_2g4: 0,
+      wifi_stations_5g: 0,
+      wifi_stations_6g: 0
+    };
+
+    for (const host of wifi) {
+      const band = host.access_point?.wifi_information?.band?.toLowerCase() || '';
+      if (band.includes('6g')) {
+        counts.wifi_stations_6g++;
+      } else if (band.includes('5g')) {
+        counts.wifi_stations_5g++;
+      } else if (band.includes('2')) {
+        counts.wifi_stations_2g4++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Daily availability over the last `days` days, derived from the uptime series:
+   * a day is 'partial' when the uptime went backwards (reboot)
+   */
+  getUptimeHistory(days: number): UptimeDay[] {
+    const now = Math.floor(Date.now() / 1000);
+    const today = Math.floor(now / DAY) * DAY;
+    const start = today - (days - 1) * DAY;
+    const samples = metricsStore.readSamples('15m', start, now);
+
+    const result: UptimeDay[] = [];
+    let previousMax: number | null = null;
+
+    for (let dayStart = start; dayStart <= today; dayStart += DAY) {
+      const daySamples = samples.filter(s => s.t >= dayStart && s.t < dayStart + DAY && s.v.uptime != null);
+      let reboots = 0;
+
+      for (const sample of daySamples) {
+        const [, min, max] = sample.v.uptime as [number, number, number];
+        // Reboot inside the bucket, or since the previous bucket
+        if (max - min > UPTIME_BUCKET + REBOOT_MARGIN || (previousMax !== null && min < previousMax - REBOOT_MARGIN)) {
+          reboots++;
+        }
+        previousMax = max;
+      }
+
+      result.push({
+        date: new Date(dayStart * 1000).toISOString().split('T')[0],
+        status: daySamples.length === 0 ? 'unknown' : reboots > 0 ? 'partial' : 'up',
+        reboots
+      });
+    }
+
+    return result;
+  }
+}
+
+export const metricsCollector = new MetricsCollectorService();
@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type {
+  AggregatedValue,
+  MetricsPoint,
+  MetricsQuery,
+  MetricsQueryResult,
+  MetricsTier,
+  MetricsTierInfo,
+  MetricValues,
+  StoredSample
+} from '../types/metrics.js';
+
+/**
+ * Embedded time-series store
+ *
+ * Samples are appended as JSON lines to one segment file per day and per tier:
+ *   <dataDir>/metrics/<tier>/<YYYY-MM-DD>.ndjson
+ *
+ * - raw: every sample as received
+ * - 15m / 1h: [avg, min, max] per metric, written when a bucket is complete
+ *
+ * Old segments are deleted once they fall out of the tier retention.
+ */
+
+interface BucketStats {
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+interface Accumulator {
+  bucket: number;
+  stats: Map<string, BucketStats>;
+}
+
+const DAY = 86400;
+// Above this many points a query is downsampled further
+const MAX_POINTS = 1500;
+const PURGE_INTERVAL = 3600;
+
+const toDay = (t: number): string => new Date(t * 1000).toISOString().split('T')[0];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Raw samples store plain numbers, aggregated tiers store [avg, min, max]
+const toAggregated = (value: number | AggregatedValue): AggregatedValue =>
+  typeof value === 'number' ? [value, value, value] : value;
+
+const matchesPattern = (metric: string, patterns: string[]): boolean =>
+  patterns.some(p => (p.endsWith('*') ? metric.startsWith(p.slice(0, -1)) : metric === p));
+
+class MetricsStoreService {
+  private baseDir: string;
+  private tiers: MetricsTierInfo[];
+  private accumulators = new Map<MetricsTier, Accumulator>();
+  private knownMetrics = new Set<string>();
+  private lastPurge = 0;
+
+  constructor() {
+    this.baseDir = path.join(config.dataDir, 'metrics');
+    this.tiers = [
+      { name: 'raw', step: config.metrics.sampleInterval, retention: config.metrics.rawRetentionDays * DAY },
+      { name: '15m', step: 900, retention: config.metrics.mediumRetentionDays * DAY },
+      { name: '1h', step: 3600, retention: config.metrics.longRetentionDays * DAY }
+    ];
+    this.replayPendingBuckets();
+  }
+
+  getTiers(): MetricsTierInfo[] {
+    return this.tiers;
+  }
+
+  listMetrics(): string[] {
+    return [...this.knownMetrics].sort();
+  }
+
+  // ==================== WRITE ====================
+
+  append(t: number, values: MetricValues) {
+    const timestamp = Math.floor(t);
+    this.writeSample('raw', { t: timestamp, v: values });
+    Object.keys(values).forEach(m => this.knownMetrics.add(m));
+
+    for (const tier of this.aggregatedTiers()) {
+      this.accumulate(tier, timestamp, values);
+    }
+
+    if (timestamp - this.lastPurge >= PURGE_INTERVAL) {
+      this.purge(timestamp);
+    }
+  }
+
+  private aggregatedTiers(): MetricsTierInfo[] {
+    return this.tiers.filter(t => t.name !== 'raw');
+  }
+
+  private accumulate(tier: MetricsTierInfo, t: number, values: MetricValues) {
+    const bucket = Math.floor(t / tier.step) * tier.step;
+    let acc = this.accumulators.get(tier.name);
+
+    // A sample in a new bucket closes the previous one
+    if (acc && acc.bucket !== bucket) {
+      this.writeSample(tier.name, this.toSample(acc));
+      acc = undefined;
+    }
+    if (!acc) {
+      acc = { bucket, stats: new Map() };
+      this.accumulators.set(tier.name, acc);
+    }
+
+    for (const [metric, value] of Object.entries(values)) {
+      if (!Number.isFinite(value)) continue;
+      const stats = acc.stats.get(metric);
+      if (stats) {
+        stats.sum += value;
+        stats.count++;
+        stats.min = Math.min(stats.min, value);
+        stats.max = Math.max(stats.max, value);
+      } else {
+        acc.stats.set(metric, { sum: value, count: 1, min: value, max: value });
+      }
+    }
+  }
+
+  private toSample(acc: Accumulator): StoredSample {
+    const v: Record<string, AggregatedValue> = {};
+    for (const [metric, stats] of acc.stats) {
+      v[metric] = [round(stats.sum / stats.count), stats.min, stats.max];
+    }
+    return { t: acc.bucket, v };
+  }
+
+  private segmentPath(tier: MetricsTier, day: string): string {
+    return path.join(this.baseDir, tier, `${day}.ndjson`);
+  }
+
+  private writeSample(tier: MetricsTier, sample: StoredSample) {
+    try {
+      const dir = path.join(this.baseDir, tier);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.appendFileSync(this.segmentPath(tier, toDay(sample.t)), JSON.stringify(sample) + '\n', 'utf-8');
+    } catch (error) {
+      console.error(`[Metrics] Failed to write ${tier} sample:`, error);
+    }
+  }
+
+  // Rebuild aggregates from raw samples written after the last complete bucket
+  // (buckets still open when the server stopped would otherwise be lost)
+  private replayPendingBuckets() {
+    const now = Math.floor(Date.now() / 1000);
+    const rawTier = this.tiers[0];
+    const rawSamples = this.readSamples('raw', now - rawTier.retention, now);
+    rawSamples.forEach(s => Object.keys(s.v).forEach(m => this.knownMetrics.add(m)));
+
+    for (const tier of this.aggregatedTiers()) {
+      const lastBucket = this.lastStoredTime(tier.name);
+      const from = lastBucket !== null ? lastBucket + tier.step : 0;
+      for (const sample of rawSamples) {
+        if (sample.t >= from) {
+          this.accumulate(tier, sample.t, sample.v as MetricValues);
+        }
+      }
+    }
+
+    if (rawSamples.length > 0) {
+      console.log(`[Metrics] Loaded ${rawSamples.length} raw sample(s), ${this.knownMetrics.size} metric(s)`);
+    }
+  }
+
+  private lastStoredTime(tier: MetricsTier): number | null {
+    const days = this.listSegmentDays(tier);
+    for (let i = days.length - 1; i >= 0; i--) {
+      const samples = this.readSegment(tier, days[i]);
+      if (samples.length > 0) {
+        return samples[samples.length - 1].t;
+      }
+    }
+    return null;
+  }
+
+  // Delete segments that are entirely older than the tier retention
+  private purge(now: number) {
+    this.lastPurge = now;
+    for (const tier of this.tiers) {
+      const cutoff = toDay(now - tier.retention);
+      for (const day of this.listSegmentDays(tier.name)) {
+        if (day < cutoff) {
+          try {
+            fs.unlinkSync(this.segmentPath(tier.name, day));
+            console.log(`[Metrics] Purged ${tier.name} segment ${day}`);
+          } catch (error) {
+            console.error(`[Metrics] Failed to purge ${tier.name} segment ${day}:`, error);
+          }
+        }
+      }
+    }
+  }
+
+  // ==================== READ ====================
+
+  private listSegmentDays(tier: MetricsTier): string[] {
+    const dir = path.join(this.baseDir, tier);
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter(f => f.endsWith('.ndjson'))
+      .map(f => f.replace('.ndjson', ''))
+      .sort();
+  }
+
+  private readSegment(tier: MetricsTier, day: string): StoredSample[] {
+    const file = this.segmentPath(tier, day);
+    if (!fs.existsSync(file)) return [];
+
+    const samples: StoredSample[] = [];
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (!line) continue;
+      try {
+        samples.push(JSON.parse(line));
+      } catch {
+        // Skip a truncated line (crash during write)
+      }
+    }
+    return samples;
+  }
+
+  // Samples of one tier between start and end (inclusive), oldest first
+  readSamples(tier: MetricsTier, start: number, end: number): StoredSample[] {
+    const samples: StoredSample[] = [];
+    const firstDay = toDay(start);
+    const lastDay = toDay(end);
+
+    for (const day of this.listSegmentDays(tier)) {
+      if (day < firstDay || day > lastDay) continue;
+      samples.push(...this.readSegment(tier, day).filter(s => s.t >= start && s.t <= end));
+    }
+
+    // Include the bucket still being aggregated so recent data is visible
+    const acc = this.accumulators.get(tier);
+    if (acc && acc.bucket >= start && acc.bucket <= end) {
+      samples.push(this.toSample(acc));
+    }
+
+    return samples.sort((a, b) => a.t - b.t);
+  }
+
+  // Pick the finest tier that still covers the requested start
+  private selectTier(start: number): MetricsTierInfo {
+    const now = Math.floor(Date.now() / 1000);
+    return this.tiers.find(t => start >= now - t.retention) ?? this.tiers[this.tiers.length - 1];
+  }
+
+  query({ metrics, start, end, step, aggregate = 'avg' }: MetricsQuery): MetricsQueryResult {
+    const tier = this.selectTier(start);
+
+    // Coarsen the step (multiple of the tier step) to stay under MAX_POINTS
+    const minStep = Math.max(tier.step, step ?? 0, Math.ceil((end - start) / MAX_POINTS));
+    const effectiveStep = Math.ceil(minStep / tier.step) * tier.step;
+
+    const buckets = new Map<number, Map<string, AggregatedValue[]>>();
+    const matched = new Set<string>();
+
+    for (const sample of this.readSamples(tier.name, start, end)) {
+      const bucket = Math.floor(sample.t / effectiveStep) * effectiveStep;
+      let values = buckets.get(bucket);
+      if (!values) {
+        values = new Map();
+        buckets.set(bucket, values);
+      }
+      for (const [metric, value] of Object.entries(sample.v)) {
+        if (!matchesPattern(metric, metrics)) continue;
+        matched.add(metric);
+        const list = values.get(metric);
+        if (list) {
+          list.push(toAggregated(value));
+        } else {
+          values.set(metric, [toAggregated(value)]);
+        }
+      }
+    }
+
+    const points: MetricsPoint[] = [];
+    for (const [time, values] of [...buckets.entries()].sort((a, b) => a[0] - b[0])) {
+      const point: MetricsPoint = { time };
+      for (const [metric, list] of values) {
+        if (aggregate === 'min') {
+          point[metric] = Math.min(...list.map(v => v[1]));
+        } else if (aggregate === 'max') {
+          point[metric] = Math.max(...list.map(v => v[2]));
+        } else {
+          point[metric] = round(list.reduce((sum, v) => sum + v[0], 0) / list.length);
+        }
+      }
+      points.push(point);
+    }
+
+    return {
+      tier: tier.name,
+      step: effectiveStep,
+      start,
+      end,
+      metrics: [...matched].sort(),
+      points
+    };
+  }
+}
+
+export const metricsStore = new MetricsStoreService();
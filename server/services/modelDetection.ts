@@ -6,6 +6,9 @@
 //   MOCK_FREEBOX_MODEL=delta npm start   -> Simulates Freebox Delta
 //   MOCK_FREEBOX_MODEL=ultra npm start   -> Simulates Freebox Ultra (default)
 //   MOCK_FREEBOX_MODEL=revolution npm start -> Simulates Freebox Revolution
+//
+// This only fakes the detected model. For a whole emulated box (API, session,
+// downloads, files...) run `npm run mock:freebox` and set FREEBOX_URL instead.
 
 import {
   FreeboxModel,
@@ -15,7 +18,9 @@ import {
   buildCapabilities,
   MODEL_CAPABILITIES
 } from '../types/capabilities.js';
-import { freeboxApi } from './freeboxApi.js';
+import { freeboxApis } from './freeboxApi.js';
+import { createBoxScoped } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
 
 // Mock model names for testing
 const MOCK_MODEL_NAMES: Record<FreeboxModel, { name: string; flavor: BoxFlavor }> = {
@@ -26,21 +31,17 @@ const MOCK_MODEL_NAMES: Record<FreeboxModel, { name: string; flavor: BoxFlavor }
   unknown: { name: 'Freebox', flavor: 'light' }
 };
 
-interface ApiVersionResponse {
-  box_model_name?: string;
-  box_model?: string;
-  box_flavor?: string;
-  device_name?: string;
-  api_version?: string;
-  api_base_url?: string;
-}
-
 class ModelDetectionService {
+  private boxId: string;
   private capabilities: FreeboxCapabilities | null = null;
   private detectionPromise: Promise<FreeboxCapabilities> | null = null;
   private lastDetectionTime: number = 0;
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes cache
 
+  constructor(boxId: string) {
+    this.boxId = boxId;
+  }
+
   /**
    * Detect the Freebox model and return its capabilities
    * Results are cached for performance
@@ -90,14 +91,14 @@ class ModelDetectionService {
     try {
       console.log('[ModelDetection] Starting model detection...');
 
-      const apiVersion = await freeboxApi.getApiVersion();
+      const apiVersion = await freeboxApis.forBox(this.boxId).getApiVersion();
 
       if (!apiVersion.success || !apiVersion.result) {
         console.warn('[ModelDetection] Failed to get API version, using defaults');
         return this.buildDefaultCapabilities();
       }
 
-      const versionData = apiVersion.result as ApiVersionResponse;
+      const versionData = apiVersion.result;
       const modelName = versionData.box_model_name || versionData.box_model || versionData.device_name || 'Unknown';
       const boxFlavor = (versionData.box_flavor === 'full' ? 'full' : 'light') as BoxFlavor;
 
@@ -248,5 +249,8 @@ class ModelDetectionService {
   }
 }
 
-// Export singleton instance
-export const modelDetection = new ModelDetectionService();
+// One instance per Freebox profile; `modelDetection` targets the box of the current request
+export const modelDetections = createBoxScoped(boxId => new ModelDetectionService(boxId));
+export const modelDetection = modelDetections.proxy;
+
+boxProfiles.onRemove(boxId => modelDetections.delete(boxId));
@@ -0,0 +1,390 @@
+import mqtt, { type MqttClient } from 'mqtt';
+import { freeboxApi } from './freeboxApi.js';
+import { normalizeSystemInfo } from './apiNormalizer.js';
+import { modelDetection } from './modelDetection.js';
+import { metricsCollector } from './metricsCollector.js';
+import { config } from '../config.js';
+
+// Home Assistant entity (one discovery config topic each)
+interface DiscoveryEntity {
+  component: 'sensor' | 'binary_sensor' | 'switch' | 'button';
+  objectId: string;
+  config: Record<string, unknown>;
+}
+
+const MAC_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+// Home Assistant default payloads of the switch and button entities
+const SWITCH_PAYLOADS = ['ON', 'OFF'];
+const BUTTON_PAYLOAD = 'PRESS';
+// Delay before republishing the state after a command
+const COMMAND_REFRESH_DELAY = 2000;
+
+const resultOf = <T>(settled: PromiseSettledResult<{ success: boolean; result?: T }>): T | null =>
+  settled.status === 'fulfilled' && settled.value.success ? settled.value.result ?? null : null;
+
+/**
+ * MQTT bridge
+ *
+ * Publishes the Freebox state as retained JSON topics under `config.mqtt.baseTopic`
+ * with Home Assistant discovery payloads, and executes commands received on the
+ * `.../set` topics. Availability is tracked with a retained last will.
+ */
+class MqttBridgeService {
+  private client: MqttClient | null = null;
+  private interval: NodeJS.Timeout | null = null;
+  private publishing = false;
+  private discoveryTopics = new Set<string>();
+  private lastPublish: number | null = null;
+  private lastError: string | null = null;
+
+  private get availabilityTopic() {
+    return `${config.mqtt.baseTopic}/status`;
+  }
+
+  start() {
+    if (!config.mqtt.url) {
+      console.log('[MQTT] Bridge disabled (MQTT_URL not set)');
+      return;
+    }
+    if (this.client) return;
+
+    console.log(`[MQTT] Connecting to ${this.getBrokerLabel()}...`);
+    this.client = mqtt.connect(config.mqtt.url, {
+      clientId: config.mqtt.clientId,
+      username: config.mqtt.username,
+      password: config.mqtt.password,
+      reconnectPeriod: 10000,
+      will: { topic: this.availabilityTopic, payload: Buffer.from('offline'), retain: true, qos: 1 }
+    });
+
+    this.client.on('connect', () => {
+      console.log('[MQTT] Connected');
+      this.lastError = null;
+      this.client?.publish(this.availabilityTopic, 'online', { retain: true, qos: 1 });
+      if (config.mqtt.commands) {
+        this.client?.subscribe(`${config.mqtt.baseTopic}/+/set`);
+        this.client?.subscribe(`${config.mqtt.baseTopic}/+/+/set`);
+      }
+      // Discovery configs are republished on every (re)connection
+      this.discoveryTopics.clear();
+      this.publishState();
+    });
+
+    this.client.on('message', (topic, payload, packet) => {
+      // A retained command would run again on every (re)connection of the bridge
+      if (packet.retain) {
+        console.warn(`[MQTT] Ignoring retained command ${topic}`);
+        return;
+      }
+      this.handleCommand(topic, payload.toString().trim()).catch(error => {
+        console.error(`[MQTT] Command ${topic} failed:`, (error as Error).message);
+      });
+    });
+
+    this.client.on('error', (error) => {
+      this.lastError = error.message;
+      console.error('[MQTT] Error:', error.message);
+    });
+
+    this.interval = setInterval(() => this.publishState(), config.mqtt.publishInterval * 1000);
+    this.interval.unref();
+  }
+
+  async stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      await client.publishAsync(this.availabilityTopic, 'offline', { retain: true, qos: 1 }).catch(() => undefined);
+      await client.endAsync();
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: Boolean(config.mqtt.url),
+      connected: this.client?.connected ?? false,
+      broker: config.mqtt.url ? this.getBrokerLabel() : null,
+      baseTopic: config.mqtt.baseTopic,
+      discoveryPrefix: config.mqtt.discoveryPrefix,
+      commands: config.mqtt.commands,
+      entities: this.discoveryTopics.size,
+      lastPublish: this.lastPublish,
+      lastError: this.lastError
+    };
+  }
+
+  // Broker URL without credentials (for logs and status)
+  private getBrokerLabel(): string {
+    try {
+      const url = new URL(config.mqtt.url);
+      return `${url.protocol}//${url.host}`;
+    } catch {
+      return config.mqtt.url;
+    }
+  }
+
+  private publish(topic: string, payload: unknown) {
+    this.client?.publish(
+      `${config.mqtt.baseTopic}/${topic}`,
+      typeof payload === 'string' ? payload : JSON.stringify(payload),
+      { retain: true }
+    );
+  }
+
+  // ==================== STATE ====================
+
+  private async publishState() {
+    if (!this.client?.connected || !freeboxApi.isLoggedIn() || this.publishing) return;
+    this.publishing = true;
+
+    try {
+      const capabilities = await modelDetection.detectModel().catch(() => null);
+      const [connection, system, wifi, downloads, vms] = await Promise.allSettled([
+        freeboxApi.getConnectionStatus(),
+        freeboxApi.getSystemInfo(),
+        freeboxApi.getWifiConfig(),
+        freeboxApi.getDownloadStats(),
+        modelDetection.supportsVm() ? freeboxApi.getVms() : Promise.resolve({ success: true, result: [] })
+      ]);
+
+      const entities: DiscoveryEntity[] = [];
+
+      const status = resultOf(connection);
+      if (status) {
+        this.publish('connection', {
+          state: status.state,
+          media: status.media,
+          ipv4: status.ipv4,
+          ipv6: status.ipv6,
+          rate_down: status.rate_down,
+          rate_up: status.rate_up,
+          bandwidth_down: status.bandwidth_down,
+          bandwidth_up: status.bandwidth_up
+        });
+        entities.push(
+          this.binarySensor('connection', 'Connexion Internet', 'connection', "{{ 'ON' if value_json.state == 'up' else 'OFF' }}", 'connectivity'),
+          this.sensor('rate_down', 'Débit descendant', 'connection', '{{ value_json.rate_down }}', { unit: 'B/s', deviceClass: 'data_rate' }),
+          this.sensor('rate_up', 'Débit montant', 'connection', '{{ value_json.rate_up }}', { unit: 'B/s', deviceClass: 'data_rate' }),
+          this.sensor('ipv4', 'Adresse IPv4', 'connection', '{{ value_json.ipv4 }}', { icon: 'mdi:ip-network' })
+        );
+      }
+
+      const systemResult = resultOf(system);
+      let device: Record<string, unknown> = { identifiers: ['freebox'], name: 'Freebox', manufacturer: 'Free' };
+      if (systemResult) {
+        const info = normalizeSystemInfo(systemResult);
+        const state: Record<string, unknown> = {
+          uptime: info.uptime_val,
+          firmware: info.firmware_version
+        };
+        info.sensors?.forEach(s => {
+          state[s.id] = s.value;
+          entities.push(this.sensor(s.id, `Température ${s.name}`, 'system', `{{ value_json.${s.id} }}`, {
+            unit: '°C',
+            deviceClass: 'temperature'
+          }));
+        });
+        info.fans?.forEach(f => {
+          state[f.id] = f.value;
+          entities.push(this.sensor(f.id, `Ventilateur ${f.name}`, 'system', `{{ value_json.${f.id} }}`, {
+            unit: 'rpm',
+            icon: 'mdi:fan'
+          }));
+        });
+        this.publish('system', state);
+        entities.push(this.sensor('uptime', 'Uptime', 'system', '{{ value_json.uptime }}', { unit: 's', deviceClass: 'duration' }));
+
+        device = {
+          identifiers: [`freebox_${String(info.mac ?? info.serial ?? 'box').replace(/[^a-zA-Z0-9]/g, '').toLowerCase()}`],
+          name: capabilities?.modelName ?? 'Freebox',
+          manufacturer: 'Free',
+          model: capabilities?.modelName,
+          sw_version: info.firmware_version
+        };
+      }
+
+      const wifiConfig = resultOf<{ enabled?: boolean }>(wifi);
+      if (wifiConfig) {
+        const sample = metricsCollector.getLastSample();
+        this.publish('wifi', {
+          enabled: wifiConfig.enabled === true,
+          stations: sample?.values.wifi_stations,
+          stations_2g4: sample?.values.wifi_stations_2g4,
+          stations_5g: sample?.values.wifi_stations_5g,
+          stations_6g: sample?.values.wifi_stations_6g
+        });
+        entities.push(this.switchEntity('wifi', 'WiFi', 'wifi', "{{ 'ON' if value_json.enabled else 'OFF' }}", 'wifi/set', 'mdi:wifi'));
+        if (sample?.values.wifi_stations !== undefined) {
+          entities.push(this.sensor('wifi_stations', 'Appareils WiFi', 'wifi', '{{ value_json.stations }}', { icon: 'mdi:devices' }));
+        }
+      }
+
+      const stats = resultOf<Record<string, number>>(downloads);
+      if (stats) {
+        this.publish('downloads', {
+          active: stats.nb_tasks_active,
+          downloading: stats.nb_tasks_downloading,
+          queued: stats.nb_tasks_queued,
+          done: stats.nb_tasks_done,
+          error: stats.nb_tasks_error,
+          rx_rate: stats.rx_rate,
+          tx_rate: stats.tx_rate
+        });
+        entities.push(
+          this.sensor('downloads_active', 'Téléchargements actifs', 'downloads', '{{ value_json.active }}', { icon: 'mdi:download' }),
+          this.sensor('downloads_rx_rate', 'Débit des téléchargements', 'downloads', '{{ value_json.rx_rate }}', { unit: 'B/s', deviceClass: 'data_rate' })
+        );
+      }
+
+      const vmList = resultOf(vms);
+      if (Array.isArray(vmList)) {
+        for (const vm of vmList) {
+          this.publish(`vm/${vm.id}`, { name: vm.name, status: vm.status });
+          entities.push(this.switchEntity(`vm_${vm.id}`, `VM ${vm.name}`, `vm/${vm.id}`, "{{ 'ON' if value_json.status == 'running' else 'OFF' }}", `vm/${vm.id}/set`, 'mdi:server'));
+        }
+      }
+
+      if (config.mqtt.commands) {
+        entities.push(
+          this.button('reboot', 'Redémarrer', 'reboot/set', 'PRESS', 'restart'),
+          this.button('wifi_temp_disable', 'Couper le WiFi 1 h', 'wifi/temp_disable/set', '3600')
+        );
+      }
+
+      this.publishDiscovery(entities, device);
+      this.lastPublish = Date.now();
+    } catch (error) {
+      console.error('[MQTT] Publish failed:', error);
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+  // ==================== DISCOVERY ====================
+
+  private get nodeId() {
+    return config.mqtt.baseTopic.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  private entity(component: DiscoveryEntity['component'], objectId: string, name: string, extra: Record<string, unknown>): DiscoveryEntity {
+    return {
+      component,
+      objectId,
+      config: {
+        name,
+        unique_id: `${this.nodeId}_${objectId}`,
+        object_id: `${this.nodeId}_${objectId}`,
+        availability_topic: this.availabilityTopic,
+        ...extra
+      }
+    };
+  }
+
+  private sensor(objectId: string, name: string, stateTopic: string, template: string, options: { unit?: string; deviceClass?: string; icon?: string }): DiscoveryEntity {
+    return this.entity('sensor', objectId, name, {
+      state_topic: `${config.mqtt.baseTopic}/${stateTopic}`,
+      value_template: template,
+      ...(options.unit ? { unit_of_measurement: options.unit, state_class: 'measurement' } : {}),
+      ...(options.deviceClass ? { device_class: options.deviceClass } : {}),
+      ...(options.icon ? { icon: options.icon } : {})
+    });
+  }
+
+  private binarySensor(objectId: string, name: string, stateTopic: string, template: string, deviceClass: string): DiscoveryEntity {
+    return this.entity('binary_sensor', objectId, name, {
+      state_topic: `${config.mqtt.baseTopic}/${stateTopic}`,
+      value_template: template,
+      device_class: deviceClass
+    });
+  }
+
+  // Read-only switches when commands are disabled
+  private switchEntity(objectId: string, name: string, stateTopic: string, template: string, commandTopic: string, icon: string): DiscoveryEntity {
+    if (!config.mqtt.commands) {
+      return this.binarySensor(objectId, name, stateTopic, template, 'running');
+    }
+    return this.entity('switch', objectId, name, {
+      state_topic: `${config.mqtt.baseTopic}/${stateTopic}`,
+      value_template: template,
+      command_topic: `${config.mqtt.baseTopic}/${commandTopic}`,
+      icon
+    });
+  }
+
+  private button(objectId: string, name: string, commandTopic: string, payload: string, deviceClass?: string): DiscoveryEntity {
+    return this.entity('button', objectId, name, {
+      command_topic: `${config.mqtt.baseTopic}/${commandTopic}`,
+      payload_press: payload,
+      ...(deviceClass ? { device_class: deviceClass } : {})
+    });
+  }
+
+  private publishDiscovery(entities: DiscoveryEntity[], device: Record<string, unknown>) {
+    const topics = new Set<string>();
+    for (const entity of entities) {
+      const topic = `${config.mqtt.discoveryPrefix}/${entity.component}/${this.nodeId}/${entity.objectId}/config`;
+      topics.add(topic);
+      this.client?.publish(topic, JSON.stringify({ ...entity.config, device }), { retain: true });
+    }
+    // Entities that disappeared (deleted VM, sensor no longer reported) are removed from Home Assistant
+    for (const topic of this.discoveryTopics) {
+      if (!topics.has(topic)) this.client?.publish(topic, '', { retain: true });
+    }
+    this.discoveryTopics = topics;
+  }
+
+  // ==================== COMMANDS ====================
+
+  private async handleCommand(topic: string, payload: string) {
+    if (!freeboxApi.isLoggedIn()) {
+      console.warn(`[MQTT] Ignoring ${topic}: no Freebox session`);
+      return;
+    }
+    const path = topic.slice(config.mqtt.baseTopic.length + 1).replace(/\/set$/, '');
+    console.log(`[MQTT] Command ${path}: ${payload}`);
+
+    let result: { success: boolean; msg?: string } | null = null;
+    const vmMatch = path.match(/^vm\/(\d+)$/);
+
+    if (path === 'reboot') {
+      if (payload !== BUTTON_PAYLOAD) return this.reject(path, payload);
+      result = await freeboxApi.reboot();
+    } else if (path === 'wifi') {
+      if (!SWITCH_PAYLOADS.includes(payload)) return this.reject(path, payload);
+      result = await freeboxApi.setWifiConfig(payload === 'ON');
+    } else if (path === 'wifi/temp_disable') {
+      // Seconds, 0 turns the WiFi back on
+      if (!/^\d+$/.test(payload)) return this.reject(path, payload);
+      const duration = parseInt(payload, 10);
+      result = duration === 0 ? await freeboxApi.cancelWifiTempDisable() : await freeboxApi.setWifiTempDisable(duration);
+    } else if (path === 'wol') {
+      // Payload: "aa:bb:cc:dd:ee:ff" or {"mac": "...", "password": "...", "interface": "pub"}
+      let target: { mac?: string; password?: string; interface?: string } = { mac: payload };
+      if (payload.startsWith('{')) target = JSON.parse(payload);
+      if (!target.mac || !MAC_PATTERN.test(target.mac)) throw new Error('Adresse MAC invalide');
+      result = await freeboxApi.wakeOnLan(target.interface || 'pub', target.mac, target.password);
+    } else if (vmMatch) {
+      if (!SWITCH_PAYLOADS.includes(payload)) return this.reject(path, payload);
+      const id = parseInt(vmMatch[1], 10);
+      result = payload === 'ON' ? await freeboxApi.startVm(id) : await freeboxApi.stopVm(id);
+    } else {
+      console.warn(`[MQTT] Unknown command topic: ${topic}`);
+      return;
+    }
+
+    if (!result.success) {
+      throw new Error(result.msg || 'Freebox API error');
+    }
+    setTimeout(() => this.publishState(), COMMAND_REFRESH_DELAY).unref();
+  }
+
+  private reject(path: string, payload: string) {
+    console.warn(`[MQTT] Rejected ${path}: unexpected payload "${payload.slice(0, 64)}"`);
+  }
+}
+
+export const mqttBridge = new MqttBridgeService();
@@ -0,0 +1,173 @@
+import { freeboxApi } from './freeboxApi.js';
+import { normalizeSystemInfo } from './apiNormalizer.js';
+import { modelDetection } from './modelDetection.js';
+
+/**
+ * Prometheus exporter
+ *
+ * Renders the current Freebox state in OpenMetrics text format.
+ * Every sample carries the detected model as `model` label.
+ */
+
+type Labels = Record<string, string | number>;
+type MetricType = 'gauge' | 'counter' | 'info';
+
+interface MetricFamily {
+  name: string;
+  type: MetricType;
+  help: string;
+  samples: { labels: Labels; value: number }[];
+}
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+const escapeLabel = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`;
+};
+
+// Collects metric families, then renders them in one pass
+class OpenMetricsWriter {
+  private families = new Map<string, MetricFamily>();
+
+  constructor(private baseLabels: Labels) {}
+
+  add(name: string, type: MetricType, help: string, value: number | null | undefined, labels: Labels = {}) {
+    if (value == null || !Number.isFinite(value)) return;
+    let family = this.families.get(name);
+    if (!family) {
+      family = { name, type, help, samples: [] };
+      this.families.set(name, family);
+    }
+    family.samples.push({ labels: { ...this.baseLabels, ...labels }, value });
+  }
+
+  toString(): string {
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      lines.push(`# HELP ${family.name} ${family.help}`);
+      // OpenMetrics sample suffixes: counters end with _total, infos with _info
+      const sampleName = family.type === 'counter'
+        ? `${family.name}_total`
+        : family.type === 'info' ? `${family.name}_info` : family.name;
+      for (const sample of family.samples) {
+        lines.push(`${sampleName}${formatLabels(sample.labels)} ${sample.value}`);
+      }
+    }
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+}
+
+class PrometheusExporterService {
+  async render(): Promise<string> {
+    const loggedIn = freeboxApi.isLoggedIn();
+    const capabilities = loggedIn ? await modelDetection.detectModel().catch(() => null) : null;
+    const metrics = new OpenMetricsWriter({ model: capabilities?.model ?? 'unknown' });
+
+    metrics.add('freebox_up', 'gauge', 'Whether the dashboard holds a Freebox session', loggedIn ? 1 : 0);
+    if (!loggedIn) {
+      return metrics.toString();
+    }
+
+    const [connection, system, bss, downloads, vms, disks] = await Promise.allSettled([
+      freeboxApi.getConnectionStatus(),
+      freeboxApi.getSystemInfo(),
+      freeboxApi.getWifiBss(),
+      freeboxApi.getDownloadStats(),
+      modelDetection.supportsVm() ? freeboxApi.getVms() : Promise.resolve(null),
+      freeboxApi.getDisks()
+    ]);
+
+    const resultOf = <T>(settled: PromiseSettledResult<{ success: boolean; result?: T } | null>): T | null =>
+      settled.status === 'fulfilled' && settled.value?.success ? settled.value.result ?? null : null;
+
+    // Connection
+    const status = resultOf(connection);
+    if (status) {
+      const labels = { media: status.media ?? 'unknown' };
+      metrics.add('freebox_connection_up', 'gauge', 'Internet connection state (1 = up)', status.state === 'up' ? 1 : 0, labels);
+      metrics.add('freebox_connection_rate_down_bytes', 'gauge', 'Current download rate in bytes per second', status.rate_down, labels);
+      metrics.add('freebox_connection_rate_up_bytes', 'gauge', 'Current upload rate in bytes per second', status.rate_up, labels);
+      metrics.add('freebox_connection_bandwidth_down_bits', 'gauge', 'Available download bandwidth in bits per second', status.bandwidth_down, labels);
+      metrics.add('freebox_connection_bandwidth_up_bits', 'gauge', 'Available upload bandwidth in bits per second', status.bandwidth_up, labels);
+      metrics.add('freebox_connection_bytes_down', 'counter', 'Bytes received since the connection came up', status.bytes_down, labels);
+      metrics.add('freebox_connection_bytes_up', 'counter', 'Bytes sent since the connection came up', status.bytes_up, labels);
+    }
+
+    // System, sensors and fans
+    const systemResult = resultOf(system);
+    if (systemResult) {
+      const info = normalizeSystemInfo(systemResult);
+      metrics.add('freebox', 'info', 'Freebox model and firmware', 1, {
+        model_name: capabilities?.modelName ?? 'Freebox',
+        firmware: String(info.firmware_version ?? 'unknown')
+      });
+      metrics.add('freebox_uptime_seconds', 'gauge', 'Freebox uptime in seconds', info.uptime_val as number | undefined);
+      info.sensors?.forEach(s => {
+        metrics.add('freebox_sensor_temperature_celsius', 'gauge', 'Temperature sensor value', s.value, { sensor: s.id, name: s.name });
+      });
+      info.fans?.forEach(f => {
+        metrics.add('freebox_fan_speed_rpm', 'gauge', 'Fan speed', f.value, { fan: f.id, name: f.name });
+      });
+    }
+
+    // WiFi stations per BSS
+    const bssList = resultOf(bss);
+    if (Array.isArray(bssList)) {
+      for (const entry of bssList) {
+        const labels = { bss: entry.id, ssid: entry.config?.ssid ?? '', phy: entry.phy_id ?? '' };
+        metrics.add('freebox_wifi_bss_up', 'gauge', 'BSS state (1 = active)', entry.status?.state === 'active' ? 1 : 0, labels);
+        metrics.add('freebox_wifi_bss_stations', 'gauge', 'Stations associated to the BSS', entry.status?.sta_count ?? 0, labels);
+      }
+    }
+
+    // Downloads
+    const stats = resultOf<Record<string, number>>(downloads);
+    if (stats) {
+      for (const [key, value] of Object.entries(stats)) {
+        if (key === 'nb_tasks') {
+          metrics.add('freebox_download_tasks', 'gauge', 'Download tasks by state', value, { state: 'all' });
+        } else if (key.startsWith('nb_tasks_')) {
+          metrics.add('freebox_download_tasks', 'gauge', 'Download tasks by state', value, { state: key.slice('nb_tasks_'.length) });
+        }
+      }
+      metrics.add('freebox_download_rx_rate_bytes', 'gauge', 'Download manager receive rate in bytes per second', stats.rx_rate);
+      metrics.add('freebox_download_tx_rate_bytes', 'gauge', 'Download manager send rate in bytes per second', stats.tx_rate);
+    }
+
+    // Virtual machines
+    const vmList = resultOf(vms);
+    if (Array.isArray(vmList)) {
+      for (const vm of vmList) {
+        metrics.add('freebox_vm_running', 'gauge', 'VM state (1 = running)', vm.status === 'running' ? 1 : 0, {
+          id: vm.id,
+          name: vm.name,
+          status: vm.status
+        });
+      }
+    }
+
+    // Disk usage per partition
+    const diskList = resultOf(disks);
+    if (Array.isArray(diskList)) {
+      for (const disk of diskList) {
+        for (const partition of disk.partitions ?? []) {
+          const labels = { disk: disk.id, disk_model: disk.model ?? '', partition: partition.label || String(partition.id) };
+          metrics.add('freebox_disk_partition_size_bytes', 'gauge', 'Partition size in bytes', partition.total_bytes, labels);
+          metrics.add('freebox_disk_partition_used_bytes', 'gauge', 'Partition used space in bytes', partition.used_bytes, labels);
+          metrics.add('freebox_disk_partition_free_bytes', 'gauge', 'Partition free space in bytes', partition.free_bytes, labels);
+        }
+      }
+    }
+
+    return metrics.toString();
+  }
+}
+
+export const prometheusExporter = new PrometheusExporterService();
@@ -1,120 +1,570 @@
+import crypto from 'crypto';
 import fs from 'fs';
-import path from 'path';
-import cron from 'node-cron';
-import { freeboxApi } from './freeboxApi.js';
+import cron, { type ScheduledTask } from 'node-cron';
 import { config } from '../config.js';
+import { freeboxApis } from './freeboxApi.js';
+import { createBoxScoped } from './boxContext.js';
+import { boxProfiles } from './boxProfiles.js';
+import type {
+  JobRun,
+  JobRunReason,
+  ParentalAccessMode,
+  ScheduledAction,
+  ScheduledActionType,
+  ScheduledJob,
+  ScheduleTrigger
+} from '../types/scheduler.js';
 
-export interface RebootSchedule {
-  enabled: boolean;
-  // Key: day index (0-6), Value: time "HH:MM"
-  mapping: Record<number, string>;
+interface SchedulerFile {
+  jobs: ScheduledJob[];
+  runs: JobRun[];
+  // Downloads stopped by a "pause" job, resumed by the next "resume" one
+  pausedDownloads: number[];
 }
 
-const DEFAULT_SCHEDULE: RebootSchedule = {
-  enabled: false,
-  mapping: {}
+// Former reboot-only schedule (.reboot_schedule.json)
+interface LegacyRebootSchedule {
+  enabled?: boolean;
+  mapping?: Record<string, string>;
+  advancedMapping?: Record<string, string>;
+  days?: number[];
+  time?: string;
+}
+
+export const ACTION_TYPES: ScheduledActionType[] = [
+  'reboot', 'wifi', 'wifi_bss', 'wifi_temp_disable', 'vm', 'downloads', 'parental_pause', 'wol'
+];
+
+const PARENTAL_MODES: ParentalAccessMode[] = ['allowed', 'denied', 'webonly'];
+const MAC_PATTERN = /^([0-9a-f]{2}:){5}[0-9a-f]{2}$/i;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// Downloads that a pause job stops
+const ACTIVE_DOWNLOAD_STATES = ['queued', 'starting', 'downloading', 'checking', 'seeding', 'retry'];
+
+// setTimeout can't wait longer than ~24.8 days, one-shot jobs re-arm until their date
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+// Leave the Freebox session and the other services time to start before catching up
+const CATCH_UP_DELAY = 15000;
+
+const HOUR = 60 * 60 * 1000;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEK_DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const toInt = (value: unknown): number => (typeof value === 'number' ? value : parseInt(String(value), 10));
+
+/**
+ * Values allowed by one cron field ("*", "1-5", "*\/15", "mon,wed", ...)
+ */
+const parseCronField = (field: string, min: number, max: number, names: string[] = [], offset = 0): Set<number> => {
+  const numeric = field.toLowerCase().replace(/[a-z]+/g, name => String(names.indexOf(name.slice(0, 3)) + offset));
+  const values = new Set<number>();
+  numeric.split(',').forEach(part => {
+    const [range, step] = part.split('/');
+    const [from, to] = range === '*'
+      ? [min, max]
+      : range.includes('-') ? range.split('-').map(Number) : [Number(range), step ? max : Number(range)];
+    for (let value = from; value <= to; value += step ? Number(step) : 1) values.add(value);
+  });
+  return values;
 };
 
-class RebootSchedulerService {
-  private schedule: RebootSchedule;
-  private tasks: cron.ScheduledTask[] = [];
-  private configPath: string;
+/**
+ * Next occurrence of a (validated) cron expression after a date, with the
+ * same semantics as node-cron: optional seconds, day of month AND day of week.
+ * node-cron's own getNextRun() jumps years ahead on day of week patterns.
+ */
+const nextCronOccurrence = (expression: string, after: number): number | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length === 5) fields.unshift('0');
+  const seconds = parseCronField(fields[0], 0, 59);
+  const minutes = parseCronField(fields[1], 0, 59);
+  const hours = parseCronField(fields[2], 0, 23);
+  const days = parseCronField(fields[3], 1, 31);
+  const months = parseCronField(fields[4], 1, 12, MONTH_NAMES, 1);
+  const weekDays = new Set([...parseCronField(fields[5], 0, 7, WEEK_DAY_NAMES)].map(day => day % 7));
 
-  constructor() {
-    // Determine config file path (next to token file)
-    const tokenPath = config.freebox.tokenFile;
-    const configDir = path.dirname(tokenPath);
-    this.configPath = path.join(configDir, '.reboot_schedule.json');
-    
-    this.schedule = this.loadSchedule();
-    this.updateCronJob();
+  const date = new Date(after - (after % 1000) + 1000);
+  // Leap days can be four years away, anything later never matches
+  const limit = after + 5 * 366 * 24 * HOUR;
+  while (date.getTime() < limit) {
+    if (!months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0);
+    } else if (!days.has(date.getDate()) || !weekDays.has(date.getDay())) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0);
+    } else if (!hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0);
+    } else if (!minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0);
+    } else if (!seconds.has(date.getSeconds())) {
+      date.setSeconds(date.getSeconds() + 1);
+    } else {
+      return date.getTime();
+    }
   }
+  return null;
+};
 
-  private loadSchedule(): RebootSchedule {
-    if (fs.existsSync(this.configPath)) {
-      try {
-        const data = fs.readFileSync(this.configPath, 'utf-8');
-        const parsed = JSON.parse(data);
-        
-        // Migration logic for old format if necessary
-        let mapping = parsed.mapping || parsed.advancedMapping || {};
-        
-        // If coming from very old format with days/time but no mapping
-        if (Object.keys(mapping).length === 0 && Array.isArray(parsed.days) && parsed.time) {
-          parsed.days.forEach((day: number) => {
-            mapping[day] = parsed.time;
-          });
-        }
+/**
+ * Group a legacy day -> "HH:MM" mapping into cron expressions (one per distinct time)
+ */
+const legacyToExpressions = (legacy: LegacyRebootSchedule): string[] => {
+  let mapping: Record<string, string> = legacy.mapping || legacy.advancedMapping || {};
+  if (Object.keys(mapping).length === 0 && Array.isArray(legacy.days) && legacy.time) {
+    mapping = Object.fromEntries(legacy.days.map(day => [String(day), legacy.time as string]));
+  }
 
-        return { 
-          enabled: parsed.enabled || false,
-          mapping
-        };
-      } catch (error) {
-        console.error('[Scheduler] Failed to load schedule:', error);
-      }
+  const daysByTime = new Map<string, number[]>();
+  Object.entries(mapping).forEach(([day, time]) => {
+    if (!TIME_PATTERN.test(time)) return;
+    daysByTime.set(time, [...(daysByTime.get(time) ?? []), parseInt(day, 10)]);
+  });
+
+  return [...daysByTime.entries()].map(([time, days]) => {
+    const [hour, minute] = time.split(':').map(Number);
+    return `${minute} ${hour} * * ${days.sort().join(',')}`;
+  });
+};
+
+/**
+ * Job scheduler
+ *
+ * Named jobs fire a Freebox action on a cron expression or at a given date.
+ * Each run is logged; occurrences missed while the server was down are
+ * caught up at startup. Replaces the reboot-only schedule (migrated on load).
+ */
+class TaskSchedulerService {
+  private boxId: string;
+  private jobs: ScheduledJob[] = [];
+  private runs: JobRun[] = [];
+  private pausedDownloads: number[] = [];
+  private filePath: string;
+  private tasks = new Map<string, ScheduledTask>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private running = new Set<string>();
+  private catchUpTimer: NodeJS.Timeout | null = null;
+
+  constructor(boxId: string) {
+    this.boxId = boxId;
+    // One file per Freebox profile, next to its token
+    this.filePath = boxProfiles.getDataFile(boxId, '.scheduled_jobs.json');
+
+    this.load();
+    this.migrateRebootSchedule();
+
+    // Occurrences planned before now were missed while the server was down
+    const missed = this.jobs
+      .filter(j => j.enabled && j.nextRunAt !== null && j.nextRunAt <= Date.now())
+      .map(job => ({ job, plannedAt: job.nextRunAt as number }));
+    this.jobs.forEach(job => this.arm(job));
+    this.save();
+
+    if (missed.length > 0) {
+      this.catchUpTimer = setTimeout(() => this.catchUp(missed), CATCH_UP_DELAY);
+      this.catchUpTimer.unref();
+    }
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const parsed: Partial<SchedulerFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.jobs = Array.isArray(parsed.jobs) ? parsed.jobs : [];
+      this.runs = Array.isArray(parsed.runs) ? parsed.runs : [];
+      this.pausedDownloads = Array.isArray(parsed.pausedDownloads) ? parsed.pausedDownloads : [];
+      console.log(`[Scheduler] Loaded ${this.jobs.length} job(s) for box ${this.boxId}`);
+    } catch (error) {
+      console.error('[Scheduler] Failed to load jobs:', error);
     }
-    return { ...DEFAULT_SCHEDULE };
   }
 
-  private saveSchedule() {
+  private save() {
+    const data: SchedulerFile = { jobs: this.jobs, runs: this.runs, pausedDownloads: this.pausedDownloads };
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[Scheduler] Failed to save jobs:', error);
+    }
+  }
+
+  /**
+   * Turn the old reboot schedule into "reboot" jobs, then drop the old file
+   */
+  private migrateRebootSchedule() {
+    const legacyPath = boxProfiles.getDataFile(this.boxId, '.reboot_schedule.json');
+    if (!fs.existsSync(legacyPath)) return;
+
     try {
-      fs.writeFileSync(this.configPath, JSON.stringify(this.schedule, null, 2), 'utf-8');
-      console.log(`[Scheduler] Saved schedule to ${this.configPath}`);
+      const legacy: LegacyRebootSchedule = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+      legacyToExpressions(legacy).forEach(expression => {
+        this.jobs.push({
+          id: crypto.randomUUID(),
+          name: 'Redémarrage planifié',
+          enabled: legacy.enabled === true,
+          trigger: { type: 'cron', expression },
+          action: { type: 'reboot' },
+          catchUp: false,
+          createdAt: Date.now(),
+          nextRunAt: null,
+          lastRun: null
+        });
+      });
+      this.save();
+      fs.unlinkSync(legacyPath);
+      console.log(`[Scheduler] Migrated reboot schedule of box ${this.boxId}`);
     } catch (error) {
-      console.error('[Scheduler] Failed to save schedule:', error);
+      console.error('[Scheduler] Failed to migrate reboot schedule:', error);
     }
   }
 
-  getSchedule(): RebootSchedule {
-    return this.schedule;
+  // ==================== JOBS ====================
+
+  list(): ScheduledJob[] {
+    return this.jobs;
+  }
+
+  get(id: string): ScheduledJob | null {
+    return this.jobs.find(j => j.id === id) ?? null;
   }
 
-  updateSchedule(newSchedule: Partial<RebootSchedule>): RebootSchedule {
-    // We only expect 'enabled' and 'mapping' in the new schedule
-    this.schedule = { 
-      ...this.schedule,
-      ...newSchedule 
+  create(input: Record<string, unknown>): ScheduledJob {
+    const job: ScheduledJob = {
+      id: crypto.randomUUID(),
+      ...this.validate(input, null),
+      createdAt: Date.now(),
+      nextRunAt: null,
+      lastRun: null
     };
+    this.jobs.push(job);
+    this.arm(job);
+    this.save();
+    return job;
+  }
+
+  update(id: string, input: Record<string, unknown>): ScheduledJob | null {
+    const job = this.get(id);
+    if (!job) return null;
+    Object.assign(job, this.validate(input, job));
+    this.arm(job);
+    this.save();
+    return job;
+  }
+
+  delete(id: string): boolean {
+    const index = this.jobs.findIndex(j => j.id === id);
+    if (index === -1) return false;
+    this.disarm(id);
+    this.jobs.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  // Run history, most recent first
+  getRuns(jobId?: string): JobRun[] {
+    const runs = jobId ? this.runs.filter(r => r.jobId === jobId) : this.runs;
+    return [...runs].reverse();
+  }
 
-    this.saveSchedule();
-    this.updateCronJob();
-    return this.schedule;
+  async runNow(id: string): Promise<JobRun | null> {
+    const job = this.get(id);
+    if (!job) return null;
+    return this.execute(job, 'manual');
   }
 
-  private updateCronJob() {
-    // Stop and clear existing tasks
-    this.tasks.forEach(task => task.stop());
-    this.tasks = [];
+  private validate(input: Record<string, unknown>, existing: ScheduledJob | null): Pick<ScheduledJob, 'name' | 'enabled' | 'trigger' | 'action' | 'catchUp'> {
+    const name = String(input.name ?? existing?.name ?? '').trim();
+    if (!name) {
+      throw new Error('Le nom de la tâche est requis');
+    }
+
+    const enabled = typeof input.enabled === 'boolean' ? input.enabled : existing?.enabled ?? true;
+    const trigger = input.trigger !== undefined || !existing ? this.validateTrigger(input.trigger) : existing.trigger;
+    if (enabled && trigger.type === 'once' && trigger.at <= Date.now()) {
+      throw new Error('La date d\'exécution doit être dans le futur');
+    }
+
+    return {
+      name,
+      enabled,
+      trigger,
+      action: input.action !== undefined || !existing ? this.validateAction(input.action) : existing.action,
+      catchUp: typeof input.catchUp === 'boolean' ? input.catchUp : existing?.catchUp ?? true
+    };
+  }
 
-    if (!this.schedule.enabled) {
-      console.log('[Scheduler] Reboot schedule disabled');
+  private validateTrigger(value: unknown): ScheduleTrigger {
+    const trigger = (value ?? {}) as Record<string, unknown>;
+    if (trigger.type === 'cron') {
+      const expression = String(trigger.expression ?? '').trim().replace(/\s+/g, ' ');
+      if (!cron.validate(expression)) {
+        throw new Error(`Expression cron invalide : ${expression}`);
+      }
+      return { type: 'cron', expression };
+    }
+    if (trigger.type === 'once') {
+      const at = typeof trigger.at === 'string' ? Date.parse(trigger.at) : Number(trigger.at);
+      if (!Number.isFinite(at)) {
+        throw new Error('Date d\'exécution invalide');
+      }
+      return { type: 'once', at };
+    }
+    throw new Error('Déclencheur invalide (cron ou once attendu)');
+  }
+
+  private validateAction(value: unknown): ScheduledAction {
+    const action = (value ?? {}) as Record<string, unknown>;
+    switch (action.type) {
+      case 'reboot':
+        return { type: 'reboot' };
+      case 'wifi':
+        return { type: 'wifi', enabled: action.enabled === true };
+      case 'wifi_bss':
+        if (!action.bssId) throw new Error('Réseau WiFi (BSS) requis');
+        return { type: 'wifi_bss', bssId: String(action.bssId), enabled: action.enabled === true };
+      case 'wifi_temp_disable': {
+        const duration = toInt(action.duration);
+        if (isNaN(duration) || duration < 0) throw new Error('Durée invalide');
+        return { type: 'wifi_temp_disable', duration };
+      }
+      case 'vm': {
+        const vmId = toInt(action.vmId);
+        if (isNaN(vmId)) throw new Error('Machine virtuelle requise');
+        return { type: 'vm', vmId, running: action.running === true };
+      }
+      case 'downloads':
+        return { type: 'downloads', paused: action.paused === true };
+      case 'parental_pause': {
+        const profileId = toInt(action.profileId);
+        const duration = toInt(action.duration);
+        const mode = (action.mode ?? 'denied') as ParentalAccessMode;
+        if (isNaN(profileId)) throw new Error('Profil de contrôle parental requis');
+        if (isNaN(duration) || duration < 0) throw new Error('Durée invalide');
+        if (!PARENTAL_MODES.includes(mode)) throw new Error(`Mode d'accès invalide : ${mode}`);
+        return { type: 'parental_pause', profileId, mode, duration };
+      }
+      case 'wol': {
+        const mac = String(action.mac ?? '').trim();
+        if (!MAC_PATTERN.test(mac)) throw new Error('Adresse MAC invalide');
+        return {
+          type: 'wol',
+          mac,
+          interface: action.interface ? String(action.interface) : undefined,
+          password: action.password ? String(action.password) : undefined
+        };
+      }
+      default:
+        throw new Error(`Action inconnue : ${String(action.type)}`);
+    }
+  }
+
+  // ==================== TIMERS ====================
+
+  private arm(job: ScheduledJob) {
+    this.disarm(job.id);
+    job.nextRunAt = null;
+    if (!job.enabled) return;
+
+    if (job.trigger.type === 'cron') {
+      const task = cron.schedule(job.trigger.expression, () => this.execute(job, 'schedule'), { name: job.name });
+      this.tasks.set(job.id, task);
+      job.nextRunAt = nextCronOccurrence(job.trigger.expression, Date.now());
       return;
     }
 
-    // Always use mapping for scheduling
-    Object.entries(this.schedule.mapping).forEach(([dayStr, time]) => {
-      const day = parseInt(dayStr, 10);
-      if (isNaN(day) || !time) return;
-
-      const [hour, minute] = time.split(':');
-      const cronExpression = `${minute} ${hour} * * ${day}`;
-
-      if (cron.validate(cronExpression)) {
-        console.log(`[Scheduler] Scheduling reboot for day ${day} at ${time} (${cronExpression})`);
-        this.tasks.push(cron.schedule(cronExpression, async () => {
-          console.log(`[Scheduler] Executing scheduled reboot (Day ${day})...`);
-          try {
-            await freeboxApi.reboot();
-          } catch (error) {
-            console.error('[Scheduler] Scheduled reboot failed:', error);
-          }
-        }));
+    const at = job.trigger.at;
+    // A past date stays planned until the startup catch-up decides
+    job.nextRunAt = at;
+    if (at <= Date.now()) return;
+    const timer = setTimeout(() => {
+      this.timers.delete(job.id);
+      if (Date.now() >= at) {
+        this.execute(job, 'schedule');
+      } else {
+        this.arm(job);
+      }
+    }, Math.min(at - Date.now(), MAX_TIMER_DELAY));
+    timer.unref();
+    this.timers.set(job.id, timer);
+  }
+
+  private disarm(id: string) {
+    this.tasks.get(id)?.destroy();
+    this.tasks.delete(id);
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+
+  private async catchUp(missed: { job: ScheduledJob; plannedAt: number }[]) {
+    this.catchUpTimer = null;
+    const window = config.scheduler.catchUpWindow * HOUR;
+
+    for (const { job, plannedAt } of missed) {
+      // Deleted, disabled or already run since startup
+      if (!this.jobs.includes(job) || !job.enabled || (job.lastRun && job.lastRun.at >= plannedAt)) continue;
+
+      if (job.catchUp && Date.now() - plannedAt <= window) {
+        console.log(`[Scheduler] Catching up missed job "${job.name}"`);
+        await this.execute(job, 'catch_up');
       } else {
-        console.error(`[Scheduler] Invalid cron expression for day ${day}: ${cronExpression}`);
+        console.log(`[Scheduler] Skipping missed job "${job.name}"`);
+        // A one-shot job that will never run again
+        if (job.trigger.type === 'once') {
+          job.enabled = false;
+          this.arm(job);
+        }
       }
-    });
+    }
+    this.save();
+  }
+
+  // ==================== EXECUTION ====================
+
+  private async execute(job: ScheduledJob, reason: JobRunReason): Promise<JobRun> {
+    const startedAt = Date.now();
+    const run: JobRun = {
+      id: crypto.randomUUID(),
+      jobId: job.id,
+      jobName: job.name,
+      action: job.action.type,
+      reason,
+      at: startedAt,
+      status: 'success',
+      duration: 0
+    };
+
+    if (this.running.has(job.id)) {
+      run.status = 'failed';
+      run.error = 'Exécution précédente encore en cours';
+    } else {
+      this.running.add(job.id);
+      console.log(`[Scheduler] Running "${job.name}" (${job.action.type}, ${reason})`);
+      try {
+        await this.perform(job.action);
+      } catch (error) {
+        run.status = 'failed';
+        run.error = (error as Error).message;
+        console.error(`[Scheduler] Job "${job.name}" failed:`, run.error);
+      } finally {
+        this.running.delete(job.id);
+      }
+    }
+    run.duration = Date.now() - startedAt;
+
+    job.lastRun = { at: run.at, status: run.status, error: run.error };
+    if (reason !== 'manual') {
+      // One-shot jobs are done once fired
+      if (job.trigger.type === 'once') job.enabled = false;
+      if (this.jobs.includes(job)) this.arm(job);
+    }
+
+    this.runs = [...this.runs, run].slice(-config.scheduler.maxRuns);
+    this.save();
+    return run;
+  }
+
+  private async perform(action: ScheduledAction) {
+    const api = freeboxApis.forBox(this.boxId);
+    // Scheduled jobs run without a browser: open the session with the app token
+    if (!api.isLoggedIn()) {
+      if (!api.isRegistered()) {
+        throw new Error('Application non enregistrée sur la Freebox');
+      }
+      await api.login();
+    }
+
+    const check = (result: { success: boolean; msg?: string; error_code?: string }) => {
+      if (!result.success) {
+        throw new Error(result.msg || result.error_code || 'Erreur de l\'API Freebox');
+      }
+    };
+
+    switch (action.type) {
+      case 'reboot':
+        check(await api.reboot());
+        break;
+      case 'wifi':
+        check(await api.setWifiConfig(action.enabled));
+        break;
+      case 'wifi_bss':
+        check(await api.updateWifiBss(action.bssId, { enabled: action.enabled }));
+        break;
+      case 'wifi_temp_disable':
+        check(action.duration === 0 ? await api.cancelWifiTempDisable() : await api.setWifiTempDisable(action.duration));
+        break;
+      case 'vm':
+        check(action.running ? await api.startVm(action.vmId) : await api.stopVm(action.vmId));
+        break;
+      case 'downloads':
+        await this.toggleDownloads(action.paused);
+        break;
+      case 'parental_pause':
+        check(await api.updateNetworkControlForProfile(action.profileId, action.duration === 0
+          ? { override: false }
+          : {
+            override: true,
+            override_mode: action.mode,
+            override_until: Math.floor(Date.now() / 1000) + action.duration * 60
+          }));
+        break;
+      case 'wol':
+        check(await api.wakeOnLan(action.interface || 'pub', action.mac, action.password));
+        break;
+    }
+  }
+
+  /**
+   * Pause every active download, or resume the ones paused by the scheduler
+   * (every stopped download when none is remembered)
+   */
+  private async toggleDownloads(pause: boolean) {
+    const api = freeboxApis.forBox(this.boxId);
+    const response = await api.getDownloads();
+    if (!response.success) {
+      throw new Error(response.msg || 'Impossible de lister les téléchargements');
+    }
+    const downloads = response.result ?? [];
+
+    const targets = pause
+      ? downloads.filter(d => ACTIVE_DOWNLOAD_STATES.includes(d.status))
+      : downloads.filter(d => d.status === 'stopped' && (this.pausedDownloads.length === 0 || this.pausedDownloads.includes(d.id)));
+
+    const failed: number[] = [];
+    for (const download of targets) {
+      const result = await api.updateDownload(download.id, { status: pause ? 'stopped' : 'downloading' });
+      if (!result.success) failed.push(download.id);
+    }
+
+    this.pausedDownloads = pause
+      ? [...new Set([...this.pausedDownloads, ...targets.map(d => d.id).filter(id => !failed.includes(id))])]
+      : [];
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} téléchargement(s) sur ${targets.length} non modifié(s)`);
+    }
+  }
+
+  /**
+   * Stop the timers and delete the jobs (profile removed)
+   */
+  destroy() {
+    [...this.tasks.keys(), ...this.timers.keys()].forEach(id => this.disarm(id));
+    if (this.catchUpTimer) clearTimeout(this.catchUpTimer);
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
   }
 }
 
-export const rebootScheduler = new RebootSchedulerService();
+// One scheduler per Freebox profile; `taskScheduler` targets the box of the current request
+export const taskSchedulers = createBoxScoped(boxId => new TaskSchedulerService(boxId));
+export const taskScheduler = taskSchedulers.proxy;
+
+// Arm the jobs of every box at startup
+boxProfiles.list().forEach(box => taskSchedulers.forBox(box.id));
+
+boxProfiles.onRemove(boxId => {
+  taskSchedulers.forBox(boxId).destroy();
+  taskSchedulers.delete(boxId);
+});
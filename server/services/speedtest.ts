@@ -0,0 +1,387 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { config } from '../config.js';
+import type {
+  LatencyStats,
+  SpeedtestRun,
+  SpeedtestTarget,
+  SpeedtestTrigger,
+  ThroughputResult
+} from '../types/speedtest.js';
+
+type ProgressListener = (run: SpeedtestRun) => void;
+type Direction = 'download' | 'upload';
+
+interface RunOptions {
+  targetId?: string;
+  streams?: number;
+  duration?: number;
+  trigger?: SpeedtestTrigger;
+}
+
+// Incompressible data sent by upload streams (and by the self-hosted endpoint)
+export const SPEEDTEST_PAYLOAD = crypto.randomBytes(1024 * 1024);
+
+// Bytes requested / sent per HTTP request, each stream chains requests until the phase ends
+const DOWNLOAD_CHUNK = 25 * 1024 * 1024;
+const UPLOAD_CHUNK = 8 * 1024 * 1024;
+
+const LATENCY_PROBES = 10;
+const LOADED_PROBE_INTERVAL = 250;
+const REQUEST_TIMEOUT = 10000;
+
+const BUILTIN_TARGETS: SpeedtestTarget[] = [
+  {
+    id: 'cloudflare',
+    name: 'Cloudflare',
+    downloadUrl: 'https://speed.cloudflare.com/__down',
+    uploadUrl: 'https://speed.cloudflare.com/__up'
+  }
+];
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(Math.round(value) || min, min), max);
+
+const withBytes = (url: string, bytes: number): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.set('bytes', String(bytes));
+  return parsed.toString();
+};
+
+const latencyUrlOf = (target: SpeedtestTarget): string => target.latencyUrl || withBytes(target.downloadUrl, 0);
+
+const latencyStats = (rtts: number[]): LatencyStats | null => {
+  if (rtts.length === 0) return null;
+  const jitter = rtts.length > 1
+    ? rtts.slice(1).reduce((sum, rtt, i) => sum + Math.abs(rtt - rtts[i]), 0) / (rtts.length - 1)
+    : 0;
+  return {
+    min: round(Math.min(...rtts)),
+    avg: round(rtts.reduce((a, b) => a + b, 0) / rtts.length),
+    max: round(Math.max(...rtts)),
+    jitter: round(jitter),
+    count: rtts.length
+  };
+};
+
+const emptyThroughput = (): ThroughputResult => ({ samples: [], warmupSamples: 0, average: 0, peak: 0, bytes: 0 });
+
+const createAgent = (url: string, maxSockets: number): http.Agent =>
+  url.startsWith('https:')
+    ? new https.Agent({ keepAlive: true, maxSockets })
+    : new http.Agent({ keepAlive: true, maxSockets });
+
+// Targets added with SPEEDTEST_TARGETS (e.g. another dashboard serving /speedtest on the LAN)
+const parseConfiguredTargets = (): SpeedtestTarget[] => {
+  if (!config.speedtest.targets) return [];
+  try {
+    const parsed: unknown = JSON.parse(config.speedtest.targets);
+    if (!Array.isArray(parsed)) throw new Error('array expected');
+    return parsed.filter((t): t is SpeedtestTarget =>
+      !!t && typeof t.id === 'string' && typeof t.name === 'string'
+      && typeof t.downloadUrl === 'string' && typeof t.uploadUrl === 'string'
+    );
+  } catch (error) {
+    console.error('[Speedtest] Invalid SPEEDTEST_TARGETS:', (error as Error).message);
+    return [];
+  }
+};
+
+/**
+ * Throughput speed test engine
+ *
+ * Measures idle latency, then saturates the line with several parallel HTTP
+ * streams (download, then upload) while probing latency on a separate
+ * connection. The first seconds of each direction are ignored by the
+ * averages. Progress is published every second to listeners.
+ */
+class SpeedtestEngine {
+  private targets: SpeedtestTarget[];
+  private current: SpeedtestRun | null = null;
+  private running = false;
+  private listeners = new Set<ProgressListener>();
+  // Requests of the running test, destroyed when a phase ends
+  private active = new Set<http.ClientRequest>();
+
+  constructor() {
+    this.targets = [...BUILTIN_TARGETS];
+    if (config.speedtest.serveEndpoint) {
+      const base = `http://127.0.0.1:${config.port}/speedtest`;
+      this.targets.push({
+        id: 'local',
+        name: 'Ce serveur (boucle locale)',
+        downloadUrl: `${base}/download`,
+        uploadUrl: `${base}/upload`
+      });
+    }
+    this.targets.push(...parseConfiguredTargets());
+  }
+
+  getTargets(): SpeedtestTarget[] {
+    return [...this.targets];
+  }
+
+  // Running test, or the last one
+  getCurrentRun(): SpeedtestRun | null {
+    return this.current;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  onProgress(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async run(options: RunOptions = {}): Promise<SpeedtestRun> {
+    if (this.running) {
+      throw new Error('Un test de débit est déjà en cours');
+    }
+    const target = this.targets.find(t => t.id === (options.targetId || this.targets[0].id));
+    if (!target) {
+      throw new Error(`Cible de test inconnue : ${options.targetId}`);
+    }
+
+    const run: SpeedtestRun = {
+      id: crypto.randomUUID(),
+      targetId: target.id,
+      targetName: target.name,
+      trigger: options.trigger ?? 'manual',
+      status: 'running',
+      phase: 'latency',
+      streams: clamp(options.streams ?? config.speedtest.streams, 1, config.speedtest.maxStreams),
+      duration: clamp(options.duration ?? config.speedtest.duration, 3, config.speedtest.maxDuration),
+      startedAt: Date.now(),
+      latency: { idle: null, download: null, upload: null },
+      download: emptyThroughput(),
+      upload: emptyThroughput()
+    };
+    this.current = run;
+    this.running = true;
+    this.emit();
+
+    console.log(`[Speedtest] Starting test against ${target.name} (${run.streams} streams, ${run.duration}s)`);
+
+    // Latency probes keep their own connection, separate from the load streams
+    const latencyAgent = createAgent(latencyUrlOf(target), 1);
+
+    try {
+      run.latency.idle = latencyStats(await this.measureIdleLatency(target, latencyAgent));
+      if (!run.latency.idle) {
+        throw new Error(`${target.name} injoignable`);
+      }
+
+      for (const direction of ['download', 'upload'] as const) {
+        run.phase = direction;
+        this.emit();
+        await this.measureThroughput(run, target, direction, latencyAgent);
+      }
+      run.status = 'done';
+      console.log(`[Speedtest] Done: ${run.download.average} / ${run.upload.average} Mbps, ${run.latency.idle.avg} ms`);
+    } catch (error) {
+      run.status = 'failed';
+      run.error = (error as Error).message;
+      console.error('[Speedtest] Test failed:', run.error);
+    } finally {
+      this.abortAll();
+      latencyAgent.destroy();
+      run.phase = 'done';
+      run.finishedAt = Date.now();
+      this.running = false;
+      this.emit();
+    }
+    return run;
+  }
+
+  private async measureIdleLatency(target: SpeedtestTarget, agent: http.Agent): Promise<number[]> {
+    const url = latencyUrlOf(target);
+    const rtts: number[] = [];
+    // The first probe opens the connection (TCP / TLS handshakes) and is not counted
+    for (let i = 0; i <= LATENCY_PROBES; i++) {
+      try {
+        const rtt = await this.probe(url, agent);
+        if (i > 0) rtts.push(rtt);
+      } catch {
+        // Lost probe
+      }
+    }
+    return rtts;
+  }
+
+  private async measureThroughput(run: SpeedtestRun, target: SpeedtestTarget, direction: Direction, latencyAgent: http.Agent) {
+    const result = run[direction];
+    const warmup = config.speedtest.warmup;
+    const url = direction === 'download' ? target.downloadUrl : target.uploadUrl;
+    const agent = createAgent(url, run.streams);
+    result.warmupSamples = warmup;
+
+    let bytes = 0;
+    let stopped = false;
+    let lastError: string | null = null;
+    const onBytes = (count: number) => {
+      if (!stopped) bytes += count;
+    };
+
+    const stream = async () => {
+      while (!stopped) {
+        try {
+          await (direction === 'download' ? this.downloadOnce(url, agent, onBytes) : this.uploadOnce(url, agent, onBytes));
+        } catch (error) {
+          if (stopped) return;
+          lastError = (error as Error).message;
+          await sleep(500);
+        }
+      }
+    };
+
+    const rtts: number[] = [];
+    const probeUnderLoad = async () => {
+      while (!stopped) {
+        try {
+          rtts.push(await this.probe(latencyUrlOf(target), latencyAgent));
+        } catch {
+          // Lost probe
+        }
+        await sleep(LOADED_PROBE_INTERVAL);
+      }
+    };
+
+    const workers = [...Array.from({ length: run.streams }, stream), probeUnderLoad()];
+
+    // One sample per second
+    await new Promise<void>(resolve => {
+      let lastBytes = 0;
+      const timer = setInterval(() => {
+        result.samples.push(round(((bytes - lastBytes) * 8) / 1_000_000));
+        lastBytes = bytes;
+
+        const measured = result.samples.slice(warmup);
+        result.average = measured.length > 0 ? round(measured.reduce((a, b) => a + b, 0) / measured.length) : 0;
+        result.peak = Math.max(...result.samples);
+        result.bytes = bytes;
+        run.latency[direction] = latencyStats(rtts);
+        this.emit();
+
+        if (result.samples.length >= run.duration + warmup) {
+          clearInterval(timer);
+          resolve();
+        }
+      }, 1000);
+    });
+
+    stopped = true;
+    this.abortAll();
+    await Promise.allSettled(workers);
+    agent.destroy();
+
+    if (bytes === 0) {
+      throw new Error(lastError ?? 'Aucune donnée transférée');
+    }
+  }
+
+  // Time to response headers of a tiny request, in ms
+  private probe(url: string, agent: http.Agent): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const start = process.hrtime.bigint();
+      const req = this.request(url, { method: 'GET', agent }, (res) => {
+        const rtt = Number(process.hrtime.bigint() - start) / 1_000_000;
+        res.resume();
+        res.on('end', () => (res.statusCode ?? 500) < 400 ? resolve(rtt) : reject(new Error(`HTTP ${res.statusCode}`)));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  private downloadOnce(url: string, agent: http.Agent, onBytes: (count: number) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = this.request(withBytes(url, DOWNLOAD_CHUNK), { method: 'GET', agent }, (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`HTTP ${res.statusCode}`));
+          return;
+        }
+        res.on('data', (chunk: Buffer) => onBytes(chunk.length));
+        res.on('error', () => resolve());
+        res.on('close', () => resolve());
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  private uploadOnce(url: string, agent: http.Agent, onBytes: (count: number) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = this.request(url, {
+        method: 'POST',
+        agent,
+        headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': UPLOAD_CHUNK }
+      }, (res) => {
+        res.resume();
+        if ((res.statusCode ?? 500) >= 400) {
+          reject(new Error(`HTTP ${res.statusCode}`));
+        } else {
+          res.on('close', () => resolve());
+        }
+      });
+      req.on('error', reject);
+      // Aborted at the end of the phase
+      req.on('close', () => resolve());
+
+      let sent = 0;
+      const write = () => {
+        while (sent < UPLOAD_CHUNK) {
+          const size = Math.min(SPEEDTEST_PAYLOAD.length, UPLOAD_CHUNK - sent);
+          sent += size;
+          // Counted once handed to the network
+          const ok = req.write(SPEEDTEST_PAYLOAD.subarray(0, size), (error) => {
+            if (!error) onBytes(size);
+          });
+          if (!ok) {
+            req.once('drain', write);
+            return;
+          }
+        }
+        req.end();
+      };
+      write();
+    });
+  }
+
+  private request(url: string, options: http.RequestOptions, onResponse: (res: http.IncomingMessage) => void): http.ClientRequest {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.request(url, { ...options, headers: { 'User-Agent': 'Freebox-Dashboard-Speedtest/1.0', ...options.headers } }, onResponse);
+    req.setTimeout(REQUEST_TIMEOUT, () => req.destroy(new Error('Délai dépassé')));
+    this.active.add(req);
+    req.on('close', () => this.active.delete(req));
+    return req;
+  }
+
+  private abortAll() {
+    this.active.forEach(req => req.destroy());
+    this.active.clear();
+  }
+
+  private emit() {
+    if (!this.current) return;
+    for (const listener of this.listeners) {
+      try {
+        listener(this.current);
+      } catch (error) {
+        console.error('[Speedtest] Listener failed:', error);
+      }
+    }
+  }
+}
+
+export const speedtestEngine = new SpeedtestEngine();
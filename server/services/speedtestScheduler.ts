@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import cron, { type ScheduledTask } from 'node-cron';
+import { config } from '../config.js';
+import { speedtestEngine } from './speedtest.js';
+import { modelDetections } from './modelDetection.js';
+import { DEFAULT_BOX_ID } from './boxContext.js';
+import { MODEL_CAPABILITIES } from '../types/capabilities.js';
+import type {
+  SpeedtestHistoryEntry,
+  SpeedtestHourlyAverage,
+  SpeedtestReport,
+  SpeedtestRun,
+  SpeedtestSchedule,
+  ThroughputSummary
+} from '../types/speedtest.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SCHEDULE: SpeedtestSchedule = {
+  enabled: false,
+  expressions: ['0 3 * * *'],
+  targetId: null
+};
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// "YYYY-MM" of a timestamp, server local time like the cron expressions
+const monthOf = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const toEntry = (run: SpeedtestRun): SpeedtestHistoryEntry => {
+  const loaded = [run.latency.download?.avg, run.latency.upload?.avg].filter((v): v is number => v !== undefined);
+  return {
+    id: run.id,
+    targetId: run.targetId,
+    targetName: run.targetName,
+    trigger: run.trigger,
+    status: run.status === 'done' ? 'done' : 'failed',
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt ?? Date.now(),
+    streams: run.streams,
+    download: run.download.samples.length > run.download.warmupSamples ? run.download.average : null,
+    upload: run.upload.samples.length > run.upload.warmupSamples ? run.upload.average : null,
+    downloadPeak: run.download.samples.length ? run.download.peak : null,
+    uploadPeak: run.upload.samples.length ? run.upload.peak : null,
+    latency: run.latency.idle?.avg ?? null,
+    jitter: run.latency.idle?.jitter ?? null,
+    loadedLatency: loaded.length ? Math.max(...loaded) : null,
+    error: run.error
+  };
+};
+
+const summarize = (values: number[], advertised: number, threshold: number): ThroughputSummary | null => {
+  if (values.length === 0) return null;
+  const avg = average(values);
+  return {
+    average: round(avg),
+    median: round(median(values)),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    ratio: round((avg / advertised) * 100, 1),
+    belowThreshold: values.filter(v => v < (advertised * threshold) / 100).length
+  };
+};
+
+/**
+ * Scheduled speed tests and persisted results
+ *
+ * Every finished test (manual or scheduled) is summarized into
+ * dataDir/.speedtest_history.json; the schedule lives in
+ * dataDir/.speedtest_schedule.json and arms one cron task per expression.
+ */
+class SpeedtestSchedulerService {
+  private schedule: SpeedtestSchedule;
+  private history: SpeedtestHistoryEntry[] = [];
+  private tasks: ScheduledTask[] = [];
+  private schedulePath: string;
+  private historyPath: string;
+
+  constructor() {
+    this.schedulePath = path.join(config.dataDir, '.speedtest_schedule.json');
+    this.historyPath = path.join(config.dataDir, '.speedtest_history.json');
+
+    this.schedule = this.loadSchedule();
+    this.history = this.loadHistory();
+    this.updateCronJobs();
+
+    // Record every test, whoever started it
+    speedtestEngine.onProgress(run => {
+      if (run.status !== 'running') this.record(run);
+    });
+  }
+
+  private loadSchedule(): SpeedtestSchedule {
+    if (fs.existsSync(this.schedulePath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.schedulePath, 'utf-8'));
+        return {
+          enabled: parsed.enabled === true,
+          expressions: Array.isArray(parsed.expressions) ? parsed.expressions.map(String) : DEFAULT_SCHEDULE.expressions,
+          targetId: typeof parsed.targetId === 'string' ? parsed.targetId : null
+        };
+      } catch (error) {
+        console.error('[SpeedtestScheduler] Failed to load schedule:', error);
+      }
+    }
+    return { ...DEFAULT_SCHEDULE };
+  }
+
+  private loadHistory(): SpeedtestHistoryEntry[] {
+    if (!fs.existsSync(this.historyPath)) return [];
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.historyPath, 'utf-8'));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('[SpeedtestScheduler] Failed to load history:', error);
+      return [];
+    }
+  }
+
+  private saveSchedule() {
+    try {
+      fs.writeFileSync(this.schedulePath, JSON.stringify(this.schedule, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[SpeedtestScheduler] Failed to save schedule:', error);
+    }
+  }
+
+  private saveHistory() {
+    try {
+      fs.writeFileSync(this.historyPath, JSON.stringify(this.history), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[SpeedtestScheduler] Failed to save history:', error);
+    }
+  }
+
+  // ==================== SCHEDULE ====================
+
+  getSchedule(): SpeedtestSchedule {
+    return this.schedule;
+  }
+
+  updateSchedule(input: Record<string, unknown>): SpeedtestSchedule {
+    const expressions = Array.isArray(input.expressions)
+      ? input.expressions.map(e => String(e).trim()).filter(Boolean)
+      : this.schedule.expressions;
+    const invalid = expressions.find(e => !cron.validate(e));
+    if (invalid) {
+      throw new Error(`Expression cron invalide : ${invalid}`);
+    }
+
+    const targetId = input.targetId === undefined ? this.schedule.targetId : input.targetId ? String(input.targetId) : null;
+    if (targetId && !speedtestEngine.getTargets().some(t => t.id === targetId)) {
+      throw new Error(`Cible de test inconnue : ${targetId}`);
+    }
+
+    const enabled = typeof input.enabled === 'boolean' ? input.enabled : this.schedule.enabled;
+    if (enabled && expressions.length === 0) {
+      throw new Error('Au moins une planification est requise');
+    }
+
+    this.schedule = { enabled, expressions, targetId };
+    this.saveSchedule();
+    this.updateCronJobs();
+    return this.schedule;
+  }
+
+  private updateCronJobs() {
+    // destroy() and not stop(): node-cron 4 keeps stopped tasks in its registry
+    this.tasks.forEach(task => task.destroy());
+    this.tasks = [];
+
+    if (!this.schedule.enabled) {
+      console.log('[SpeedtestScheduler] Scheduled speed tests disabled');
+      return;
+    }
+
+    this.schedule.expressions.forEach(expression => {
+      if (!cron.validate(expression)) {
+        console.error(`[SpeedtestScheduler] Invalid cron expression: ${expression}`);
+        return;
+      }
+      console.log(`[SpeedtestScheduler] Scheduling speed test (${expression})`);
+      this.tasks.push(cron.schedule(expression, () => this.runScheduled()));
+    });
+  }
+
+  private async runScheduled() {
+    // A manual test already saturates the line, no point measuring twice
+    if (speedtestEngine.isRunning()) {
+      console.log('[SpeedtestScheduler] Skipping scheduled test, another one is running');
+      return;
+    }
+    const targetId = this.schedule.targetId && speedtestEngine.getTargets().some(t => t.id === this.schedule.targetId)
+      ? this.schedule.targetId
+      : undefined;
+
+    console.log('[SpeedtestScheduler] Running scheduled speed test...');
+    try {
+      await speedtestEngine.run({ targetId, trigger: 'scheduled' });
+    } catch (error) {
+      console.error('[SpeedtestScheduler] Scheduled test failed:', error);
+    }
+  }
+
+  // ==================== HISTORY ====================
+
+  private record(run: SpeedtestRun) {
+    if (this.history.some(e => e.id === run.id)) return;
+
+    const cutoff = Date.now() - config.speedtest.historyDays * DAY;
+    this.history = [...this.history.filter(e => e.startedAt >= cutoff), toEntry(run)];
+    this.saveHistory();
+  }
+
+  // Tests started in [from, to], oldest first
+  getHistory(from = 0, to = Date.now()): SpeedtestHistoryEntry[] {
+    return this.history.filter(e => e.startedAt >= from && e.startedAt <= to);
+  }
+
+  getMonthHistory(month: string): SpeedtestHistoryEntry[] {
+    return this.history.filter(e => monthOf(e.startedAt) === month);
+  }
+
+  // Months with at least one test, most recent first
+  getMonths(): string[] {
+    return [...new Set(this.history.map(e => monthOf(e.startedAt)))].sort().reverse();
+  }
+
+  clearHistory() {
+    this.history = [];
+    this.saveHistory();
+  }
+
+  // ==================== REPORT ====================
+
+  /**
+   * Monthly report: successful tests compared to the speeds advertised for the
+   * model of the default box, the one whose connection the dashboard measures
+   * (the history is shared by every profile)
+   */
+  async getReport(month: string): Promise<SpeedtestReport> {
+    const capabilities = await modelDetections.forBox(DEFAULT_BOX_ID).detectModel();
+    const base = MODEL_CAPABILITIES[capabilities.model];
+    const threshold = config.speedtest.slaThreshold;
+
+    const entries = this.getMonthHistory(month);
+    const done = entries.filter(e => e.status === 'done');
+    const downloads = done.map(e => e.download).filter((v): v is number => v !== null);
+    const uploads = done.map(e => e.upload).filter((v): v is number => v !== null);
+    const latencies = done.map(e => e.latency).filter((v): v is number => v !== null);
+
+    const byHour: SpeedtestHourlyAverage[] = [];
+    for (let hour = 0; hour < 24; hour++) {
+      const tests = done.filter(e => new Date(e.startedAt).getHours() === hour);
+      if (tests.length === 0) continue;
+      const down = tests.map(e => e.download).filter((v): v is number => v !== null);
+      const up = tests.map(e => e.upload).filter((v): v is number => v !== null);
+      byHour.push({
+        hour,
+        tests: tests.length,
+        download: down.length ? round(average(down)) : null,
+        upload: up.length ? round(average(up)) : null
+      });
+    }
+
+    return {
+      month,
+      modelName: capabilities.modelName,
+      advertised: { download: base.maxDownloadSpeed, upload: base.maxUploadSpeed },
+      threshold,
+      tests: entries.length,
+      failed: entries.length - done.length,
+      download: summarize(downloads, base.maxDownloadSpeed, threshold),
+      upload: summarize(uploads, base.maxUploadSpeed, threshold),
+      latency: latencies.length ? { average: round(average(latencies)), max: round(Math.max(...latencies)) } : null,
+      byHour
+    };
+  }
+}
+
+export const speedtestScheduler = new SpeedtestSchedulerService();
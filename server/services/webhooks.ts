@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { freeboxEvents } from './freeboxEvents.js';
+import { config } from '../config.js';
+import { FREEBOX_EVENT_TYPES, type FreeboxEvent, type FreeboxEventType } from '../types/events.js';
+import type { PublicWebhook, Webhook, WebhookDelivery } from '../types/webhooks.js';
+
+interface WebhooksFile {
+  webhooks: Webhook[];
+  deliveries: WebhookDelivery[];
+}
+
+const USER_AGENT = 'Freebox-Dashboard-Webhooks/1.0';
+
+// Only transient failures are retried
+const isRetryable = (status?: number): boolean =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+const generateSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+/**
+ * Signature sent in X-Freebox-Signature: HMAC-SHA256 of "<timestamp>.<body>"
+ * (timestamp from X-Freebox-Timestamp, so receivers can reject replays)
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Outgoing webhooks
+ *
+ * Forwards Freebox events as signed JSON POST requests. Failed deliveries are
+ * retried with exponential backoff; every delivery is kept in a bounded log.
+ */
+class WebhookService {
+  private webhooks: Webhook[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  private filePath: string;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor() {
+    this.filePath = path.join(config.dataDir, '.webhooks.json');
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const parsed: Partial<WebhooksFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.webhooks = Array.isArray(parsed.webhooks) ? parsed.webhooks : [];
+      // Retries do not survive a restart
+      this.deliveries = (Array.isArray(parsed.deliveries) ? parsed.deliveries : []).map(d =>
+        d.status === 'pending' ? { ...d, status: 'failed', error: d.error ?? 'Interrompu par un redémarrage du serveur', nextRetryAt: undefined } : d
+      );
+      console.log(`[Webhooks] Loaded ${this.webhooks.length} webhook(s)`);
+    } catch (error) {
+      console.error('[Webhooks] Failed to load webhooks:', error);
+    }
+  }
+
+  private save() {
+    const data: WebhooksFile = { webhooks: this.webhooks, deliveries: this.deliveries };
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      console.error('[Webhooks] Failed to save webhooks:', error);
+    }
+  }
+
+  start() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = freeboxEvents.subscribe(event => this.dispatch(event));
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // ==================== WEBHOOKS ====================
+
+  // Secrets are left out of listings
+  list(): PublicWebhook[] {
+    return this.webhooks.map(w => this.toPublic(w));
+  }
+
+  // The secret is returned in clear once, on creation
+  create(input: Record<string, unknown>): Webhook {
+    const webhook: Webhook = {
+      id: crypto.randomUUID(),
+      ...this.validate(input, null),
+      secret: input.secret ? String(input.secret) : generateSecret(),
+      createdAt: Date.now()
+    };
+    this.webhooks.push(webhook);
+    this.save();
+    return webhook;
+  }
+
+  update(id: string, input: Record<string, unknown>): PublicWebhook | null {
+    const webhook = this.webhooks.find(w => w.id === id);
+    if (!webhook) return null;
+    Object.assign(webhook, this.validate(input, webhook));
+    if (input.secret) webhook.secret = String(input.secret);
+    this.save();
+    return this.toPublic(webhook);
+  }
+
+  regenerateSecret(id: string): Webhook | null {
+    const webhook = this.webhooks.find(w => w.id === id);
+    if (!webhook) return null;
+    webhook.secret = generateSecret();
+    this.save();
+    return webhook;
+  }
+
+  delete(id: string): boolean {
+    const index = this.webhooks.findIndex(w => w.id === id);
+    if (index === -1) return false;
+    this.webhooks.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  private validate(input: Record<string, unknown>, existing: Webhook | null): Pick<Webhook, 'name' | 'url' | 'events' | 'enabled'> {
+    const name = String(input.name ?? existing?.name ?? '').trim();
+    if (!name) {
+      throw new Error('Le nom du webhook est requis');
+    }
+
+    const url = String(input.url ?? existing?.url ?? '').trim();
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+    } catch {
+      throw new Error('URL invalide (http:// ou https:// attendu)');
+    }
+
+    const events = Array.isArray(input.events) ? input.events.map(String) : existing?.events ?? [];
+    const unknown = events.find(e => !FREEBOX_EVENT_TYPES.includes(e as FreeboxEventType));
+    if (unknown) {
+      throw new Error(`Événement inconnu : ${unknown}`);
+    }
+
+    return {
+      name,
+      url,
+      events: events as FreeboxEventType[],
+      enabled: input.enabled !== undefined ? input.enabled !== false : existing?.enabled ?? true
+    };
+  }
+
+  private toPublic({ secret: _secret, ...webhook }: Webhook): PublicWebhook {
+    return webhook;
+  }
+
+  // ==================== DELIVERIES ====================
+
+  getDeliveries(webhookId?: string, limit = 100): WebhookDelivery[] {
+    return this.deliveries
+      .filter(d => !webhookId || d.webhookId === webhookId)
+      .slice(0, limit);
+  }
+
+  // Test delivery, sent even if the webhook is disabled (resolves after the first attempt)
+  async ping(id: string): Promise<WebhookDelivery | null> {
+    const webhook = this.webhooks.find(w => w.id === id);
+    if (!webhook) return null;
+    return this.deliver(webhook, {
+      id: crypto.randomUUID(),
+      event: 'ping',
+      timestamp: Math.floor(Date.now() / 1000),
+      data: { webhookId: webhook.id, name: webhook.name }
+    });
+  }
+
+  private dispatch(event: FreeboxEvent) {
+    for (const webhook of this.webhooks) {
+      if (!webhook.enabled) continue;
+      if (webhook.events.length > 0 && !webhook.events.includes(event.type)) continue;
+      void this.deliver(webhook, {
+        id: event.id,
+        event: event.type,
+        timestamp: event.timestamp,
+        data: event.data
+      });
+    }
+  }
+
+  private async deliver(webhook: Webhook, payload: { id: string; event: string; timestamp: number; data: unknown }): Promise<WebhookDelivery> {
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      webhookId: webhook.id,
+      webhookName: webhook.name,
+      eventId: payload.id,
+      event: payload.event,
+      url: webhook.url,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.deliveries.unshift(delivery);
+    this.deliveries.length = Math.min(this.deliveries.length, config.webhooks.logSize);
+    this.save();
+
+    // The same body is sent on every attempt (receivers can dedupe on "id")
+    await this.attempt(delivery, JSON.stringify(payload));
+    return delivery;
+  }
+
+  private async attempt(delivery: WebhookDelivery, body: string) {
+    // Retries use the current URL and secret of the webhook
+    const webhook = this.webhooks.find(w => w.id === delivery.webhookId);
+    if (!webhook) {
+      delivery.status = 'failed';
+      delivery.error = 'Webhook supprimé';
+      delivery.nextRetryAt = undefined;
+      this.save();
+      return;
+    }
+
+    delivery.attempts++;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.webhooks.requestTimeout);
+
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-Freebox-Event': delivery.event,
+          'X-Freebox-Delivery': delivery.id,
+          'X-Freebox-Timestamp': String(timestamp),
+          'X-Freebox-Signature': signWebhookPayload(webhook.secret, timestamp, body)
+        },
+        body,
+        signal: controller.signal
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `HTTP ${response.status}`;
+      // Only the status matters, release the connection instead of leaving the body unread
+      await response.body?.cancel().catch(() => undefined);
+    } catch (err) {
+      error = (err as Error).name === 'AbortError' ? 'Délai dépassé' : (err as Error).message;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    delivery.responseStatus = responseStatus;
+    delivery.duration = Date.now() - startedAt;
+    delivery.updatedAt = Date.now();
+    delivery.error = error;
+
+    if (!error) {
+      delivery.status = 'success';
+      delivery.nextRetryAt = undefined;
+    } else if (isRetryable(responseStatus) && delivery.attempts < config.webhooks.maxAttempts) {
+      // 10s, 20s, 40s, 80s...
+      const delay = config.webhooks.retryDelay * 1000 * 2 ** (delivery.attempts - 1);
+      delivery.nextRetryAt = Date.now() + delay;
+      setTimeout(() => this.attempt(delivery, body), delay).unref();
+    } else {
+      delivery.status = 'failed';
+      delivery.nextRetryAt = undefined;
+      console.warn(`[Webhooks] Delivery of ${delivery.event} to "${webhook.name}" failed: ${error}`);
+    }
+    this.save();
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,155 @@
+import { freeboxApi } from './freeboxApi.js';
+import { normalizeSystemInfo } from './apiNormalizer.js';
+import { freeboxEvents } from './freeboxEvents.js';
+import { modelDetection } from './modelDetection.js';
+import { getLanDevices, getWifiOverview } from './dashboardData.js';
+import { speedtestEngine } from './speedtest.js';
+import { fileTasks } from './fileTasks.js';
+import { currentBoxId, DEFAULT_BOX_ID } from './boxContext.js';
+import type { NativeEvent } from './freeboxEventSocket.js';
+import type { DashboardPermission } from '../types/roles.js';
+
+export const WS_TOPICS = ['connection', 'system', 'wifi', 'lan', 'downloads', 'fs_tasks', 'vm', 'calls', 'speedtest'] as const;
+
+export type WsTopic = typeof WS_TOPICS[number];
+
+export interface TopicDefinition {
+  // Poll interval in ms while the topic has subscribers
+  interval: number;
+  // Slower interval used while the Freebox pushes changes for this topic
+  nativeInterval?: number;
+  // Dashboard function the subscriber needs read access to (none = every user)
+  permission?: DashboardPermission;
+  // Current payload, undefined when there is nothing to publish
+  fetch: () => Promise<unknown>;
+  // Apply a native Freebox notification to the last payload:
+  // undefined = not relevant, null = fetch the topic again
+  applyEvent?: (snapshot: unknown, event: NativeEvent) => unknown;
+  // Server-side source pushing payloads between polls, returns the unsubscribe function
+  watch?: (publish: (data: unknown) => void) => () => void;
+}
+
+interface SystemStatus {
+  temp_cpu0?: number;
+  temp_cpu1?: number;
+  temp_cpu2?: number;
+  temp_cpu3?: number;
+  temp_cpum?: number;
+  temp_cpub?: number;
+  temp_sw?: number;
+  fan_rpm?: number;
+  uptime_val?: number;
+}
+
+// Successful Freebox result, or undefined
+const resultOf = (response: { success: boolean; result?: unknown }): unknown =>
+  response.success ? response.result ?? [] : undefined;
+
+export const TOPIC_DEFINITIONS: Record<WsTopic, TopicDefinition> = {
+  connection: {
+    interval: 1000,
+    fetch: async () => {
+      const response = await freeboxApi.getConnectionStatus();
+      if (!response.success || !response.result) return undefined;
+      // Events, webhooks and alerts follow the default box
+      if (currentBoxId() === DEFAULT_BOX_ID) {
+        freeboxEvents.reportConnectionStatus(response.result as { state?: string });
+      }
+      return response.result;
+    }
+  },
+
+  system: {
+    interval: 5000,
+    fetch: async () => {
+      const response = await freeboxApi.getSystemInfo();
+      if (!response.success || !response.result) return undefined;
+
+      // Use API normalizer for automatic compatibility with all Freebox models
+      const normalized = normalizeSystemInfo(response.result as Record<string, unknown>);
+      const systemStatus: SystemStatus = {
+        temp_cpu0: normalized.temp_cpu0,
+        temp_cpu1: normalized.temp_cpu1,
+        temp_cpu2: normalized.temp_cpu2,
+        temp_cpu3: normalized.temp_cpu3,
+        temp_cpum: normalized.temp_cpum,
+        temp_cpub: normalized.temp_cpub,
+        temp_sw: normalized.temp_sw,
+        fan_rpm: normalized.fan_rpm,
+        uptime_val: normalized.uptime_val as number | undefined
+      };
+
+      if (systemStatus.uptime_val !== undefined && currentBoxId() === DEFAULT_BOX_ID) {
+        freeboxEvents.reportUptime(systemStatus.uptime_val);
+      }
+      return systemStatus;
+    }
+  },
+
+  wifi: {
+    interval: 15000,
+    fetch: async () => resultOf(await getWifiOverview())
+  },
+
+  lan: {
+    interval: 10000,
+    nativeInterval: 60000,
+    fetch: async () => resultOf(await getLanDevices()),
+    applyEvent: (snapshot, { source, event, result }) => {
+      if (source !== 'lan_host' || (event !== 'l3addr_reachable' && event !== 'l3addr_unreachable')) return undefined;
+      const host = result as { id?: string } | undefined;
+      const hosts = Array.isArray(snapshot) ? snapshot as Array<{ id: string; interface?: string }> : [];
+      const index = hosts.findIndex(h => h.id === host?.id);
+      // New host: its interface is unknown, reload the list
+      if (!host || index === -1) return null;
+      const updated = [...hosts];
+      updated[index] = { ...host, interface: hosts[index].interface } as { id: string; interface?: string };
+      return updated;
+    }
+  },
+
+  downloads: {
+    interval: 5000,
+    permission: 'downloader',
+    fetch: async () => resultOf(await freeboxApi.getDownloads())
+  },
+
+  // Copies, moves, deletions and archives running on the Freebox storage
+  fs_tasks: {
+    interval: 2000,
+    permission: 'explorer',
+    fetch: async () => resultOf(await fileTasks.list())
+  },
+
+  vm: {
+    interval: 10000,
+    nativeInterval: 60000,
+    permission: 'vm',
+    fetch: async () => {
+      if (modelDetection.getCapabilities()?.vmSupport === 'none') return undefined;
+      return resultOf(await freeboxApi.getVms());
+    },
+    applyEvent: (snapshot, { source, event, result }) => {
+      if (source !== 'vm') return undefined;
+      if (event !== 'state_changed') return null;
+      const { id, status } = (result ?? {}) as { id?: number; status?: string };
+      const vms = Array.isArray(snapshot) ? snapshot as Array<{ id: number; status: string }> : [];
+      if (!vms.some(vm => vm.id === id) || !status) return null;
+      return vms.map(vm => vm.id === id ? { ...vm, status } : vm);
+    }
+  },
+
+  calls: {
+    interval: 30000,
+    permission: 'calls',
+    fetch: async () => resultOf(await freeboxApi.getCallLog())
+  },
+
+  // Measured by the server, not the Freebox: the same run is sent to every box
+  speedtest: {
+    interval: 60000,
+    fetch: async () => speedtestEngine.getCurrentRun() ?? undefined,
+    // One update per second while a test runs
+    watch: (publish) => speedtestEngine.onProgress(publish)
+  }
+};
@@ -0,0 +1,207 @@
+import zlib from 'zlib';
+import { Readable } from 'stream';
+
+export interface ZipEntry {
+  // Path inside the archive, "/" separated; directories end with "/"
+  name: string;
+  // Unix timestamp (seconds)
+  modification: number;
+  // Expected size of a file, decides whether it needs ZIP64 fields
+  size?: number;
+  // File content, omitted for directories
+  open?: () => Promise<AsyncIterable<Buffer | Uint8Array> | Iterable<Buffer | Uint8Array>>;
+}
+
+interface CentralRecord {
+  name: Buffer;
+  directory: boolean;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+}
+
+const LIMIT_32 = 0xffffffff;
+const LIMIT_16 = 0xffff;
+// General purpose flags: sizes in a data descriptor, UTF-8 names
+const FLAGS = 0x0008 | 0x0800;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+
+// MS-DOS date and time, the only ones every unzip tool reads
+const dosDateTime = (seconds: number): { date: number; time: number } => {
+  const d = new Date(seconds * 1000);
+  if (d.getFullYear() < 1980) return { date: (1 << 5) | 1, time: 0 };
+  return {
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2)
+  };
+};
+
+const localHeader = (record: CentralRecord): Buffer => {
+  const extra = record.zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+  if (record.zip64) {
+    // Sizes follow in the data descriptor
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(record.zip64 ? VERSION_ZIP64 : VERSION, 4);
+  header.writeUInt16LE(FLAGS, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(record.zip64 ? LIMIT_32 : 0, 18);
+  header.writeUInt32LE(record.zip64 ? LIMIT_32 : 0, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+  return Buffer.concat([header, record.name, extra]);
+};
+
+const dataDescriptor = (record: CentralRecord): Buffer => {
+  if (record.zip64) {
+    const descriptor = Buffer.alloc(24);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeBigUInt64LE(BigInt(record.size), 8);
+    descriptor.writeBigUInt64LE(BigInt(record.size), 16);
+    return descriptor;
+  }
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.size, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+};
+
+const centralHeader = (record: CentralRecord): Buffer => {
+  const bigSize = record.zip64 || record.size >= LIMIT_32;
+  const bigOffset = record.offset >= LIMIT_32;
+  const fields: number[] = [];
+  if (bigSize) fields.push(record.size, record.size);
+  if (bigOffset) fields.push(record.offset);
+  const extra = Buffer.alloc(fields.length ? 4 + fields.length * 8 : 0);
+  if (fields.length) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(fields.length * 8, 2);
+    fields.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+  }
+
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  // Made by: Unix, so the permissions below are read
+  header.writeUInt16LE((3 << 8) | VERSION_ZIP64, 4);
+  header.writeUInt16LE(record.zip64 || fields.length ? VERSION_ZIP64 : VERSION, 6);
+  header.writeUInt16LE(FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(bigSize ? LIMIT_32 : record.size, 20);
+  header.writeUInt32LE(bigSize ? LIMIT_32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  // Comment length, disk number, internal attributes: 0
+  const mode = record.directory ? 0o40755 : 0o100644;
+  header.writeUInt32LE(((mode << 16) | (record.directory ? 0x10 : 0)) >>> 0, 38);
+  header.writeUInt32LE(bigOffset ? LIMIT_32 : record.offset, 42);
+  return Buffer.concat([header, record.name, extra]);
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number): Buffer => {
+  const parts: Buffer[] = [];
+  if (count >= LIMIT_16 || size >= LIMIT_32 || offset >= LIMIT_32) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(VERSION_ZIP64, 12);
+    record.writeUInt16LE(VERSION_ZIP64, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(size), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, LIMIT_16), 8);
+  end.writeUInt16LE(Math.min(count, LIMIT_16), 10);
+  end.writeUInt32LE(Math.min(size, LIMIT_32), 12);
+  end.writeUInt32LE(Math.min(offset, LIMIT_32), 16);
+  parts.push(end);
+  return Buffer.concat(parts);
+};
+
+/**
+ * Zip archive written as it is read
+ *
+ * Entries are stored without compression (photos and videos are already
+ * compressed, and the CPU stays free): each file is pulled from `open()`
+ * only when the previous one is written, with its CRC and size in a data
+ * descriptor, so nothing is buffered beyond the chunk being copied.
+ * ZIP64 fields are added when sizes or offsets pass 4 GiB.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): Readable {
+  async function* generate(): AsyncGenerator<Buffer> {
+    const records: CentralRecord[] = [];
+    let offset = 0;
+
+    for await (const entry of entries) {
+      const directory = !entry.open;
+      const { date, time } = dosDateTime(entry.modification);
+      const record: CentralRecord = {
+        name: Buffer.from(directory && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name, 'utf-8'),
+        directory,
+        time,
+        date,
+        crc: 0,
+        size: 0,
+        offset,
+        zip64: (entry.size ?? 0) >= LIMIT_32
+      };
+
+      const header = localHeader(record);
+      yield header;
+      offset += header.length;
+
+      if (entry.open) {
+        for await (const chunk of await entry.open()) {
+          const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+          record.crc = zlib.crc32(buffer, record.crc);
+          record.size += buffer.length;
+          if (!record.zip64 && record.size >= LIMIT_32) {
+            throw new Error(`${entry.name} dépasse la taille annoncée`);
+          }
+          yield buffer;
+        }
+        offset += record.size;
+      }
+
+      const descriptor = dataDescriptor(record);
+      yield descriptor;
+      offset += descriptor.length;
+      records.push(record);
+    }
+
+    const start = offset;
+    for (const record of records) {
+      const header = centralHeader(record);
+      yield header;
+      offset += header.length;
+    }
+    yield endOfCentralDirectory(records.length, offset - start, start);
+  }
+
+  return Readable.from(generate(), { objectMode: false });
+}
@@ -0,0 +1,73 @@
+// Alert rules, delivery channels and fired alert events
+
+export type AlertRuleType =
+  | 'wan_down'          // Internet connection is not up
+  | 'metric_threshold'  // A collected metric crosses a threshold (see /api/metrics)
+  | 'new_device'        // An unknown MAC address appears on the LAN
+  | 'disk_usage'        // A partition is almost full
+  | 'download_error';   // A download task ends in error
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type ThresholdOperator = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  severity: AlertSeverity;
+  // metric_threshold only: metric name as stored by the collector (temp_cpum, rate_down...)
+  metric?: string;
+  operator?: ThresholdOperator;
+  // metric_threshold: metric value, disk_usage: used space in percent
+  threshold?: number;
+  // The condition must hold for this many minutes before the alert fires
+  duration: number;
+  // The alert resolves only once the value is back past threshold -/+ hysteresis
+  hysteresis: number;
+  // Minimum delay in minutes between two notifications for the same subject
+  cooldown: number;
+  // Delivery channel ids (the dashboard history always records the event)
+  channels: string[];
+}
+
+export type AlertChannelType = 'log' | 'ntfy';
+
+export interface AlertChannel {
+  id: string;
+  name: string;
+  type: AlertChannelType;
+  enabled: boolean;
+  // Channel specific settings (ntfy: url, token)
+  settings: Record<string, string>;
+}
+
+export type AlertEventState = 'firing' | 'resolved';
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  state: AlertEventState;
+  // What triggered the alert: MAC address, partition, download id... ('' for global rules)
+  subject: string;
+  message: string;
+  value?: number;
+  // Unix timestamp (seconds)
+  timestamp: number;
+  // Channels that accepted the notification (empty when muted by the cooldown)
+  delivered: string[];
+}
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'wan_down',
+  'metric_threshold',
+  'new_device',
+  'disk_usage',
+  'download_error'
+];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
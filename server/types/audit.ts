@@ -0,0 +1,42 @@
+// One mutating request received by the dashboard API
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  // Dashboard username, null before login (session routes)
+  user: string | null;
+  ip: string;
+  // Freebox profile targeted by the request
+  boxId: string | null;
+  method: string;
+  route: string;
+  // Body and query string, secrets masked and long values cut
+  payload: unknown;
+  // HTTP status sent to the browser
+  status: number;
+  // Outcome reported by the Freebox (or the dashboard when it answered itself)
+  success: boolean;
+  errorCode: string | null;
+  message: string | null;
+  duration: number;
+}
+
+export type AuditResultFilter = 'success' | 'failure';
+
+export interface AuditQuery {
+  // Free text, matched against the route, user, IP, error and payload
+  q?: string;
+  user?: string;
+  method?: string;
+  result?: AuditResultFilter;
+  // ms timestamps, inclusive
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  // Newest first
+  entries: AuditEntry[];
+  total: number;
+}
@@ -0,0 +1,76 @@
+// Freebox configuration areas saved in a backup archive, in restore order
+export type BackupSectionId =
+  | 'connection'
+  | 'ipv6'
+  | 'lan'
+  | 'dhcp'
+  | 'dhcp_static_leases'
+  | 'port_forwarding'
+  | 'dmz'
+  | 'ftp'
+  | 'lcd'
+  | 'wifi_bss'
+  | 'wifi_planning'
+  | 'wifi_guest_config'
+  | 'wifi_guest_keys'
+  | 'vpn_servers'
+  | 'vpn_users'
+  | 'parental_config'
+  | 'parental_profiles'
+  | 'network_control'
+  | 'parental_filters'
+  | 'downloads_config';
+
+export interface BackupSectionInfo {
+  id: BackupSectionId;
+  label: string;
+}
+
+export interface BackupArchive {
+  format: 'freebox-dashboard-backup';
+  version: number;
+  createdAt: number;
+  box: {
+    id: string;
+    name: string;
+    model: string | null;
+    apiVersion: string | null;
+  };
+  // Raw Freebox API data of each section
+  sections: Partial<Record<BackupSectionId, unknown>>;
+  // Sections the box refused to export (unsupported model, missing rights)
+  errors: Partial<Record<BackupSectionId, string>>;
+}
+
+export type RestoreChangeKind = 'create' | 'update' | 'delete';
+
+export interface RestoreChange {
+  // section:kind:key, stable between the preview and the restore
+  id: string;
+  section: BackupSectionId;
+  kind: RestoreChangeKind;
+  key: string;
+  label: string;
+  // Top-level fields that differ (updates only)
+  fields: string[];
+  before: unknown;
+  after: unknown;
+  // False when the Freebox API has no way to apply it (the change is only reported)
+  applicable: boolean;
+  note?: string;
+}
+
+export interface RestorePreview {
+  createdAt: number;
+  box: BackupArchive['box'];
+  changes: RestoreChange[];
+  // Sections absent from the archive or unreadable on the current box
+  skipped: Array<{ section: BackupSectionId; reason: string }>;
+}
+
+export interface RestoreResult {
+  id: string;
+  status: 'applied' | 'failed' | 'skipped';
+  error?: string;
+  note?: string;
+}
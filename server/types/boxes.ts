@@ -0,0 +1,16 @@
+// Freebox profiles managed by one dashboard instance
+
+export interface BoxProfile {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: number;
+}
+
+// Profile as listed to the browser, with its live state
+export interface BoxProfileStatus extends BoxProfile {
+  isDefault: boolean;
+  isRegistered: boolean;
+  isLoggedIn: boolean;
+  modelName: string | null;
+}
@@ -0,0 +1,37 @@
+import type { BackupArchive, BackupSectionInfo, RestoreChange } from './backup.js';
+
+// Configuration of the tracked sections at a given time
+export interface ConfigSnapshot {
+  id: string;
+  takenAt: number;
+  firmware: string | null;
+  sections: BackupArchive['sections'];
+}
+
+export type ConfigCheckTrigger = 'poll' | 'manual' | 'revert';
+
+// Changes found between two consecutive snapshots
+export interface ConfigChangeEvent {
+  id: string;
+  detectedAt: number;
+  // What prompted the check that found them
+  trigger: ConfigCheckTrigger;
+  // Snapshot before the changes (source of reverts) and the one they appear in
+  fromSnapshot: string;
+  toSnapshot: string;
+  // Set when the firmware changed between the two snapshots
+  firmware: { from: string | null; to: string | null } | null;
+  changes: RestoreChange[];
+  // Changes undone from the dashboard: change id -> revert time
+  reverted: Record<string, number>;
+}
+
+export interface ConfigHistoryStatus {
+  enabled: boolean;
+  // Minutes between two snapshots
+  interval: number;
+  lastCheckAt: number | null;
+  lastError: string | null;
+  snapshots: number;
+  sections: BackupSectionInfo[];
+}
@@ -0,0 +1,79 @@
+export interface PingResult {
+  host: string;
+  sent: number;
+  received: number;
+  // Percentage of lost echo requests
+  packetLoss: number;
+  // Round trip times in ms (null without any reply)
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  // Standard deviation of the round trips (mdev)
+  jitter: number | null;
+  times: number[];
+}
+
+export interface HopStats {
+  hop: number;
+  // Null when no router answered at this distance
+  address: string | null;
+  sent: number;
+  received: number;
+  loss: number;
+  last: number | null;
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  jitter: number | null;
+}
+
+export interface RouteResult {
+  host: string;
+  // Per-hop pings after the route discovery (MTR mode)
+  rounds: number;
+  hops: HopStats[];
+}
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'PTR';
+
+export interface DnsResolver {
+  id: string;
+  name: string;
+  // Null for the resolvers configured on the server
+  address: string | null;
+}
+
+export interface DnsResolverResult extends DnsResolver {
+  status: 'pending' | 'ok' | 'error';
+  answers: string[];
+  // Resolution time in ms
+  time: number | null;
+  error?: string;
+}
+
+export interface DnsResult {
+  name: string;
+  type: DnsRecordType;
+  resolvers: DnsResolverResult[];
+}
+
+export type PortProtocol = 'tcp' | 'udp';
+
+// open_filtered: UDP probe without any answer (no ICMP port unreachable either)
+export type PortState = 'pending' | 'open' | 'closed' | 'filtered' | 'open_filtered';
+
+export interface PortCheck {
+  port: number;
+  protocol: PortProtocol;
+}
+
+export interface PortCheckResult extends PortCheck {
+  state: PortState;
+  time: number | null;
+  error?: string;
+}
+
+export interface PortsResult {
+  host: string;
+  ports: PortCheckResult[];
+}
@@ -0,0 +1,32 @@
+// Freebox events detected by the server (consumed by webhooks and other integrations)
+
+export type FreeboxEventType =
+  | 'connection.state_changed'
+  | 'system.rebooted'
+  | 'call.missed'
+  | 'download.completed'
+  | 'lan.host_new';
+
+export interface FreeboxEventData {
+  'connection.state_changed': { previous: string; state: string; media?: string; ipv4?: string };
+  'system.rebooted': { previousUptime: number; uptime: number };
+  'call.missed': { id: number; number: string; name?: string; datetime: number };
+  'download.completed': { id: number; name: string; size?: number; downloadDir?: string };
+  'lan.host_new': { mac: string; name: string; vendor?: string; ip?: string; interface: string };
+}
+
+export interface FreeboxEvent<T extends FreeboxEventType = FreeboxEventType> {
+  id: string;
+  type: T;
+  // Unix timestamp (seconds)
+  timestamp: number;
+  data: FreeboxEventData[T];
+}
+
+export const FREEBOX_EVENT_TYPES: FreeboxEventType[] = [
+  'connection.state_changed',
+  'system.rebooted',
+  'call.missed',
+  'download.completed',
+  'lan.host_new'
+];
@@ -0,0 +1,94 @@
+// Local index of the Freebox storage (recursive search and duplicate finder)
+
+// One file or folder, as listed by /fs/ls/
+export interface FileIndexEntry {
+  // Full path in clear text, e.g. "/Disque 1/Photos/2025/vacances-001.jpg"
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  // Unix timestamp (seconds)
+  modification: number;
+  mimetype?: string;
+}
+
+// Digest of a file, valid as long as its size and modification are unchanged
+export interface FileHash {
+  size: number;
+  modification: number;
+  hash: string;
+}
+
+export interface FileIndexStatus {
+  // End of the last walk of the whole storage, null until the first one
+  indexedAt: number | null;
+  refreshing: boolean;
+  files: number;
+  folders: number;
+  totalSize: number;
+  // Folders changed from the dashboard, listed again before the next search
+  pending: number;
+  lastError: string | null;
+}
+
+export interface FileSearchQuery {
+  // Words all found in the full path (case and accents ignored)
+  q?: string;
+  // Extensions without the dot, e.g. ["jpg", "tar.gz"]
+  ext?: string[];
+  type?: 'file' | 'dir';
+  minSize?: number;
+  maxSize?: number;
+  // Modification range (unix timestamps, seconds)
+  from?: number;
+  to?: number;
+  // Folder searched (clear text), the whole storage by default
+  path?: string;
+  limit?: number;
+}
+
+// Search result, shaped like a Freebox listing entry
+export interface FileSearchResult {
+  // Base64 path, as in the Freebox API
+  path: string;
+  fullPath: string;
+  name: string;
+  // Base64 path of the folder holding it
+  parent: string;
+  type: 'file' | 'dir';
+  size: number;
+  modification: number;
+  mimetype?: string;
+}
+
+export interface FileSearchResponse {
+  entries: FileSearchResult[];
+  // Matches, of which only the first `limit` are returned
+  total: number;
+  index: FileIndexStatus;
+}
+
+// Files with the same size and digest
+export interface DuplicateGroup {
+  hash: string;
+  size: number;
+  files: FileSearchResult[];
+  // Bytes freed by keeping a single copy
+  reclaimable: number;
+}
+
+export interface DuplicateReport {
+  status: 'idle' | 'running' | 'done' | 'failed';
+  startedAt: number | null;
+  finishedAt: number | null;
+  // Folder scanned (clear text) and smallest file size considered
+  path: string;
+  minSize: number;
+  // Files sharing their size with another one, and how many are hashed yet
+  candidates: number;
+  hashed: number;
+  // Files the Freebox could not hash
+  failed: number;
+  groups: DuplicateGroup[];
+  reclaimable: number;
+  error: string | null;
+}
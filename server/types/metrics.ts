@@ -0,0 +1,55 @@
+// Time series collected by the metrics collector
+// Timestamps are Unix seconds (same unit as the Freebox RRD API)
+
+// Storage resolution: raw samples, then 15 minute and 1 hour aggregates
+export type MetricsTier = 'raw' | '15m' | '1h';
+
+export type MetricsAggregate = 'avg' | 'min' | 'max';
+
+// Flat map of metric name -> value for one sample
+export type MetricValues = Record<string, number>;
+
+// Aggregated value: [avg, min, max]
+export type AggregatedValue = [number, number, number];
+
+// One line of a segment file (raw tiers store plain numbers)
+export interface StoredSample {
+  t: number;
+  v: Record<string, number | AggregatedValue>;
+}
+
+export interface MetricsTierInfo {
+  name: MetricsTier;
+  step: number;       // seconds between two points
+  retention: number;  // seconds kept on disk
+}
+
+// One chart point: time plus one value per requested metric
+export interface MetricsPoint {
+  time: number;
+  [metric: string]: number;
+}
+
+export interface MetricsQuery {
+  metrics: string[];  // exact names or prefixes ending with '*'
+  start: number;
+  end: number;
+  step?: number;      // optional coarser step (seconds)
+  aggregate?: MetricsAggregate;
+}
+
+export interface MetricsQueryResult {
+  tier: MetricsTier;
+  step: number;
+  start: number;
+  end: number;
+  metrics: string[];
+  points: MetricsPoint[];
+}
+
+// Daily availability derived from the system uptime series
+export interface UptimeDay {
+  date: string; // YYYY-MM-DD
+  status: 'up' | 'partial' | 'unknown';
+  reboots: number;
+}
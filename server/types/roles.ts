@@ -0,0 +1,101 @@
+// Dashboard roles and permissions
+// Permission names mirror the Freebox app permissions (see src/utils/permissions.ts)
+// so that a dashboard role restricts what a user can do with the shared Freebox session
+
+export type DashboardPermission =
+  | 'settings'
+  | 'parental'
+  | 'downloader'
+  | 'explorer'
+  | 'calls'
+  | 'contacts'
+  | 'tv'
+  | 'vm';
+
+// none: feature hidden, read: view only, write: full control
+export type AccessLevel = 'none' | 'read' | 'write';
+
+export type RolePermissions = Record<DashboardPermission, AccessLevel>;
+
+export interface DashboardRole {
+  id: string;
+  name: string;
+  builtin: boolean;
+  // Admins can manage users, roles and the Freebox app registration
+  admin: boolean;
+  permissions: RolePermissions;
+}
+
+export const DASHBOARD_PERMISSIONS: DashboardPermission[] = [
+  'settings',
+  'parental',
+  'downloader',
+  'explorer',
+  'calls',
+  'contacts',
+  'tv',
+  'vm'
+];
+
+const ACCESS_RANK: Record<AccessLevel, number> = {
+  none: 0,
+  read: 1,
+  write: 2
+};
+
+const allPermissions = (level: AccessLevel): RolePermissions =>
+  Object.fromEntries(DASHBOARD_PERMISSIONS.map(p => [p, level])) as RolePermissions;
+
+// Built-in roles (cannot be edited or deleted)
+export const BUILTIN_ROLES: DashboardRole[] = [
+  {
+    id: 'admin',
+    name: 'Administrateur',
+    builtin: true,
+    admin: true,
+    permissions: allPermissions('write')
+  },
+  {
+    id: 'family',
+    name: 'Famille',
+    builtin: true,
+    admin: false,
+    permissions: {
+      settings: 'read',
+      parental: 'read',
+      downloader: 'write',
+      explorer: 'write',
+      calls: 'write',
+      contacts: 'write',
+      tv: 'write',
+      vm: 'read'
+    }
+  },
+  {
+    id: 'readonly',
+    name: 'Lecture seule',
+    builtin: true,
+    admin: false,
+    permissions: allPermissions('read')
+  }
+];
+
+export const DEFAULT_ROLE_ID = 'readonly';
+
+// Check whether a granted level satisfies a required level
+export function hasAccess(granted: AccessLevel | undefined, required: AccessLevel): boolean {
+  return ACCESS_RANK[granted ?? 'none'] >= ACCESS_RANK[required];
+}
+
+// Sanitize a permissions object coming from the API
+export function normalizePermissions(input: unknown): RolePermissions {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const result = allPermissions('none');
+  for (const permission of DASHBOARD_PERMISSIONS) {
+    const level = source[permission];
+    if (level === 'read' || level === 'write' || level === 'none') {
+      result[permission] = level;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,56 @@
+export type ParentalAccessMode = 'allowed' | 'denied' | 'webonly';
+
+// What a job does when it fires
+export type ScheduledAction =
+  | { type: 'reboot' }
+  | { type: 'wifi'; enabled: boolean }
+  | { type: 'wifi_bss'; bssId: string; enabled: boolean }
+  // Seconds, 0 cancels a running temporary disable
+  | { type: 'wifi_temp_disable'; duration: number }
+  | { type: 'vm'; vmId: number; running: boolean }
+  | { type: 'downloads'; paused: boolean }
+  // Minutes of override, 0 goes back to the profile planning
+  | { type: 'parental_pause'; profileId: number; mode: ParentalAccessMode; duration: number }
+  | { type: 'wol'; mac: string; interface?: string; password?: string };
+
+export type ScheduledActionType = ScheduledAction['type'];
+
+export type ScheduleTrigger =
+  // node-cron expression, server local time
+  | { type: 'cron'; expression: string }
+  // One-shot date (ms timestamp), the job is disabled once it ran
+  | { type: 'once'; at: number };
+
+export type JobRunStatus = 'success' | 'failed';
+
+export type JobRunReason = 'schedule' | 'catch_up' | 'manual';
+
+export interface JobRunResult {
+  at: number;
+  status: JobRunStatus;
+  error?: string;
+}
+
+export interface ScheduledJob {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: ScheduleTrigger;
+  action: ScheduledAction;
+  // Run once at startup when an occurrence was missed while the server was down
+  catchUp: boolean;
+  createdAt: number;
+  // Next planned occurrence, persisted to detect missed runs
+  nextRunAt: number | null;
+  lastRun: JobRunResult | null;
+}
+
+export interface JobRun extends JobRunResult {
+  id: string;
+  jobId: string;
+  jobName: string;
+  action: ScheduledActionType;
+  reason: JobRunReason;
+  // Milliseconds spent in the action
+  duration: number;
+}
@@ -0,0 +1,127 @@
+export interface SpeedtestTarget {
+  id: string;
+  name: string;
+  // GET, the engine appends ?bytes=<size>
+  downloadUrl: string;
+  // POST, the request body is discarded by the target
+  uploadUrl: string;
+  // Small GET used for round trips (default: downloadUrl with bytes=0)
+  latencyUrl?: string;
+}
+
+export type SpeedtestPhase = 'latency' | 'download' | 'upload' | 'done';
+
+export type SpeedtestStatus = 'running' | 'done' | 'failed';
+
+export type SpeedtestTrigger = 'manual' | 'scheduled';
+
+export interface LatencyStats {
+  // Round trip times in ms
+  min: number;
+  avg: number;
+  max: number;
+  // Mean difference between consecutive round trips
+  jitter: number;
+  count: number;
+}
+
+export interface ThroughputResult {
+  // Mbps measured every second, warm-up seconds included
+  samples: number[];
+  // Number of leading samples ignored by the average (TCP slow start)
+  warmupSamples: number;
+  // Mbps, warm-up excluded
+  average: number;
+  peak: number;
+  bytes: number;
+}
+
+export interface SpeedtestRun {
+  id: string;
+  targetId: string;
+  targetName: string;
+  trigger: SpeedtestTrigger;
+  status: SpeedtestStatus;
+  phase: SpeedtestPhase;
+  streams: number;
+  // Measured seconds per direction, warm-up excluded
+  duration: number;
+  startedAt: number;
+  finishedAt?: number;
+  latency: {
+    idle: LatencyStats | null;
+    // Latency under load, measured while the line is saturated
+    download: LatencyStats | null;
+    upload: LatencyStats | null;
+  };
+  download: ThroughputResult;
+  upload: ThroughputResult;
+  error?: string;
+}
+
+// Persisted summary of a finished test (samples are not kept)
+export interface SpeedtestHistoryEntry {
+  id: string;
+  targetId: string;
+  targetName: string;
+  trigger: SpeedtestTrigger;
+  status: Exclude<SpeedtestStatus, 'running'>;
+  startedAt: number;
+  finishedAt: number;
+  streams: number;
+  // Mbps, warm-up excluded (null when the test failed before this direction)
+  download: number | null;
+  upload: number | null;
+  downloadPeak: number | null;
+  uploadPeak: number | null;
+  // Idle round trip and jitter in ms
+  latency: number | null;
+  jitter: number | null;
+  // Worst average latency while the line was saturated
+  loadedLatency: number | null;
+  error?: string;
+}
+
+export interface SpeedtestSchedule {
+  enabled: boolean;
+  // node-cron expressions, server local time (e.g. "0 3 * * *")
+  expressions: string[];
+  // Null for the first target
+  targetId: string | null;
+}
+
+export interface ThroughputSummary {
+  // Mbps
+  average: number;
+  median: number;
+  min: number;
+  max: number;
+  // Average as a percentage of the advertised speed
+  ratio: number;
+  // Tests under the threshold percentage of the advertised speed
+  belowThreshold: number;
+}
+
+export interface SpeedtestHourlyAverage {
+  hour: number;
+  tests: number;
+  download: number | null;
+  upload: number | null;
+}
+
+export interface SpeedtestReport {
+  // YYYY-MM
+  month: string;
+  modelName: string;
+  // Offer speeds from MODEL_CAPABILITIES, Mbps
+  advertised: { download: number; upload: number };
+  // Percentage of the advertised speed under which a test counts as degraded
+  threshold: number;
+  tests: number;
+  failed: number;
+  download: ThroughputSummary | null;
+  upload: ThroughputSummary | null;
+  latency: { average: number; max: number } | null;
+  // Averages per hour of the day (evening congestion)
+  byHour: SpeedtestHourlyAverage[];
+}
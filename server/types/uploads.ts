@@ -0,0 +1,24 @@
+// Browser uploads to the Freebox storage (chunked, resumable)
+
+// What to do when the target file already exists
+export type UploadConflictMode = 'overwrite' | 'skip' | 'rename';
+
+export type UploadStatus = 'uploading' | 'done' | 'skipped' | 'cancelled' | 'failed';
+
+export interface UploadSession {
+  id: string;
+  // Destination directory and final path, base64 encoded as in the Freebox API
+  dirname: string;
+  path: string;
+  // Final file name (differs from the requested one after a rename)
+  name: string;
+  size: number;
+  // Bytes forwarded to the Freebox, the offset of the next chunk
+  received: number;
+  status: UploadStatus;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const UPLOAD_CONFLICT_MODES: UploadConflictMode[] = ['overwrite', 'skip', 'rename'];
@@ -0,0 +1,37 @@
+import type { FreeboxEventType } from './events.js';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  // HMAC-SHA256 key used to sign every payload
+  secret: string;
+  // Subscribed events (empty = every event)
+  events: FreeboxEventType[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+// No part of the secret, which is only returned on creation and regeneration
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  eventId: string;
+  // Freebox event type, or 'ping' for test deliveries
+  event: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  // Duration of the last attempt in ms
+  duration?: number;
+  createdAt: number;
+  updatedAt: number;
+  nextRetryAt?: number;
+}
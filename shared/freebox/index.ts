@@ -0,0 +1,3 @@
+// Freebox API types and their runtime schemas, imported by server/ and src/
+export * from './schema.js';
+export * from './resources.js';
@@ -0,0 +1,429 @@
+import { array, boolean, number, object, oneOf, optional, string, type Infer } from './schema.js';
+
+/**
+ * Freebox API resources (API v8+), shared by the server and the frontend
+ *
+ * Required fields are the ones every supported model returns; fields that
+ * depend on the model, the firmware or the state of the resource are optional.
+ */
+
+// ==================== SYSTEM ====================
+
+// GET /api_version (answered without the { success, result } envelope)
+export const ApiVersionSchema = object('ApiVersion', {
+  api_version: string(),
+  api_base_url: optional(string()),
+  api_domain: optional(string()),
+  box_model: optional(string()), // e.g. "fbxgw9-r1/full"
+  box_model_name: optional(string()), // e.g. "Freebox v9 (r1)"
+  box_flavor: optional(string()),
+  device_name: optional(string()),
+  https_available: optional(boolean()),
+  https_port: optional(number()),
+  uid: optional(string())
+});
+
+export const SystemSensorSchema = object('SystemSensor', {
+  id: string(), // e.g. "temp_cpu0", "temp_hdd", "t1", "cpu_ap"
+  name: string(),
+  value: number() // °C
+});
+
+export const SystemFanSchema = object('SystemFan', {
+  id: string(), // e.g. "fan0_speed", "main"
+  name: string(),
+  value: number() // RPM
+});
+
+export const SystemInfoSchema = object('SystemInfo', {
+  firmware_version: string(),
+  mac: string(),
+  serial: string(),
+  uptime: string(),
+  uptime_val: number(),
+  board_name: string(),
+  box_authenticated: boolean(),
+  disk_status: string(),
+  user_main_storage: string(),
+  box_flavor: optional(string()),
+  // API v8+: temperatures and fans as arrays
+  sensors: optional(array(SystemSensorSchema)),
+  fans: optional(array(SystemFanSchema)),
+  // Older firmwares: flat fields (Ultra: temp_cpu0-3, others: temp_cpum, temp_sw, temp_cpub)
+  temp_cpu0: optional(number()),
+  temp_cpu1: optional(number()),
+  temp_cpu2: optional(number()),
+  temp_cpu3: optional(number()),
+  temp_cpum: optional(number()),
+  temp_sw: optional(number()),
+  temp_cpub: optional(number()),
+  fan_rpm: optional(number()),
+  // Added from /api_version by GET /api/system
+  box_model_name: optional(string()),
+  device_name: optional(string()),
+  api_version: optional(string())
+});
+
+// ==================== CONNECTION ====================
+
+export const ConnectionStatusSchema = object('ConnectionStatus', {
+  state: oneOf(['going_up', 'up', 'going_down', 'down']),
+  type: string(),
+  media: string(),
+  ipv4: string(),
+  ipv6: string(),
+  rate_down: number(), // bytes/s
+  rate_up: number(),
+  bandwidth_down: number(), // bit/s
+  bandwidth_up: number(),
+  bytes_down: number(),
+  bytes_up: number()
+});
+
+// ==================== RRD (Monitoring) ====================
+
+// One sample of a monitoring database: besides the time, the fields depend on
+// the database and the model (rate_down, cpum, rx_1...)
+export const RrdPointSchema = object('RrdPoint', {
+  time: number()
+});
+
+export const RrdDataSchema = object('RrdData', {
+  date_start: number(),
+  date_end: number(),
+  data: array(RrdPointSchema)
+});
+
+// ==================== WIFI ====================
+
+export const WifiBssSchema = object('WifiBss', {
+  id: string(),
+  phy_id: number(),
+  status: object('WifiBssStatus', {
+    state: string(),
+    sta_count: number(),
+    is_main_bss: boolean()
+  }),
+  config: object('WifiBssConfig', {
+    enabled: boolean(),
+    use_default_config: boolean(),
+    ssid: string(),
+    hide_ssid: boolean(),
+    encryption: string()
+  })
+});
+
+// ==================== LAN ====================
+
+export const LanInterfaceSchema = object('LanInterface', {
+  name: string(),
+  host_count: number()
+});
+
+export const LanHostAccessPointSchema = object('LanHostAccessPoint', {
+  mac: optional(string()),
+  type: optional(oneOf(['gateway', 'repeater'])),
+  uid: optional(string()),
+  connectivity_type: oneOf(['wifi', 'ethernet']),
+  rx_bytes: optional(number()),
+  tx_bytes: optional(number()),
+  rx_rate: optional(number()), // bytes/s
+  tx_rate: optional(number()),
+  ethernet_information: optional(object('LanHostEthernetInformation', {
+    duplex: string(),
+    speed: number(),
+    max_port_speed: number(),
+    link: string()
+  })),
+  wifi_information: optional(object('LanHostWifiInformation', {
+    band: string(),
+    sess_duration: number(),
+    phy_rx_rate: number(),
+    phy_tx_rate: number(),
+    ssid: string(),
+    standard: string(),
+    bssid: string(),
+    signal: number()
+  }))
+});
+
+export const LanHostSchema = object('LanHost', {
+  id: string(),
+  primary_name: string(),
+  host_type: string(),
+  primary_name_manual: boolean(),
+  l2ident: object('LanHostL2Ident', {
+    id: string(),
+    type: string()
+  }),
+  vendor_name: string(),
+  persistent: boolean(),
+  reachable: boolean(),
+  last_time_reachable: number(),
+  active: boolean(),
+  last_activity: number(),
+  first_activity: number(),
+  names: array(object('LanHostName', {
+    name: string(),
+    source: string()
+  })),
+  l3connectivities: array(object('LanHostL3Connectivity', {
+    addr: string(),
+    af: oneOf(['ipv4', 'ipv6']),
+    active: boolean(),
+    reachable: boolean(),
+    last_activity: number(),
+    last_time_reachable: number()
+  })),
+  interface: optional(string()),
+  access_point: optional(LanHostAccessPointSchema)
+});
+
+// ==================== DHCP ====================
+
+export const DhcpStaticLeaseSchema = object('DhcpStaticLease', {
+  id: string(),
+  mac: string(),
+  ip: string(),
+  comment: optional(string()),
+  hostname: optional(string()),
+  host: optional(LanHostSchema)
+});
+
+// ==================== DOWNLOADS ====================
+
+export const DownloadTaskSchema = object('DownloadTask', {
+  id: number(),
+  type: oneOf(['bt', 'http', 'ftp', 'nzb']),
+  name: string(),
+  status: oneOf([
+    'queued', 'starting', 'downloading', 'stopping', 'stopped', 'error',
+    'done', 'checking', 'repairing', 'extracting', 'seeding', 'retry'
+  ]),
+  io_priority: oneOf(['low', 'normal', 'high']),
+  size: number(),
+  queue_pos: number(),
+  tx_bytes: number(),
+  rx_bytes: number(),
+  tx_rate: number(),
+  rx_rate: number(),
+  tx_pct: number(), // 1/100 %
+  rx_pct: number(),
+  error: string(),
+  created_ts: number(),
+  eta: number(),
+  download_dir: string(), // base64 path
+  stop_ratio: number(),
+  archive_password: string(),
+  info_hash: string(),
+  piece_length: number()
+});
+
+export const DownloadStatsSchema = object('DownloadStats', {
+  nb_tasks: number(),
+  nb_tasks_stopped: number(),
+  nb_tasks_active: number(),
+  nb_tasks_done: number(),
+  nb_tasks_error: number(),
+  rx_rate: number(),
+  tx_rate: number(),
+  nb_rss: number(),
+  nb_rss_items_unread: number()
+});
+
+// ==================== FILE SYSTEM ====================
+
+export const FsFileInfoSchema = object('FsFileInfo', {
+  path: string(), // base64 path
+  name: string(),
+  type: oneOf(['dir', 'file']),
+  size: number(),
+  modification: number(),
+  mimetype: optional(string()),
+  hidden: optional(boolean()),
+  foldercount: optional(number()),
+  filecount: optional(number())
+});
+
+// Folder listing: API v15+ wraps the entries with pagination fields, older firmwares return the array itself
+export const FsListingSchema = object('FsListing', {
+  entries: array(FsFileInfoSchema)
+});
+
+// Background operation started by cp, mv, rm, archive, extract or hash
+export const FsTaskSchema = object('FsTask', {
+  id: number(),
+  type: oneOf(['cp', 'mv', 'rm', 'hash', 'archive', 'extract', 'mkdir']),
+  state: oneOf(['queued', 'running', 'paused', 'done', 'failed']),
+  error: string(), // "none" or an error code, e.g. "disk_full", "destination_conflict"
+  created_ts: number(),
+  started_ts: optional(number()),
+  done_ts: optional(number()),
+  duration: optional(number()), // seconds
+  progress: number(), // %
+  eta: number(), // seconds
+  from: optional(string()), // name of the current source file
+  to: optional(string()),
+  nfiles: number(),
+  nfiles_done: number(),
+  total_bytes: number(),
+  total_bytes_done: number(),
+  curr_bytes: optional(number()),
+  curr_bytes_done: optional(number()),
+  rate: number(), // bytes/s
+  src: optional(array(string())), // base64 paths
+  dst: optional(string())
+});
+
+// ==================== STORAGE ====================
+
+export const StoragePartitionSchema = object('StoragePartition', {
+  id: number(),
+  state: string(),
+  label: string(),
+  path: string(), // base64 path
+  fstype: optional(string()),
+  total_bytes: number(),
+  used_bytes: number(),
+  free_bytes: number()
+});
+
+export const StorageDiskSchema = object('StorageDisk', {
+  id: number(),
+  type: string(),
+  state: string(),
+  model: optional(string()),
+  serial: optional(string()),
+  total_bytes: number(),
+  temp: optional(number()),
+  partitions: array(StoragePartitionSchema)
+});
+
+// ==================== VMs ====================
+
+export const VirtualMachineSchema = object('VirtualMachine', {
+  id: number(),
+  name: string(),
+  os: string(),
+  status: oneOf(['stopped', 'starting', 'running', 'stopping']),
+  vcpus: number(),
+  memory: number(), // MB
+  disk_path: string(), // base64 path
+  disk_type: string(),
+  enable_screen: boolean(),
+  mac: optional(string()),
+  // Extended stats, not returned by every firmware
+  disk_size: optional(number()),
+  cpu_usage: optional(number()),
+  memory_usage: optional(number()),
+  disk_usage: optional(number())
+});
+
+// ==================== CALLS & CONTACTS ====================
+
+export const CallEntrySchema = object('CallEntry', {
+  id: number(),
+  type: oneOf(['accepted', 'incoming', 'missed', 'outgoing']),
+  datetime: number(),
+  number: string(),
+  name: optional(string()),
+  duration: number(),
+  new: boolean(),
+  contact_id: optional(number())
+});
+
+export const ContactNumberSchema = object('ContactNumber', {
+  id: optional(number()),
+  contact_id: optional(number()),
+  type: string(), // home, work, mobile, fax, other
+  number: string(),
+  is_default: optional(boolean()),
+  is_own: optional(boolean())
+});
+
+export const ContactSchema = object('Contact', {
+  id: number(),
+  display_name: string(),
+  first_name: optional(string()),
+  last_name: optional(string()),
+  company: optional(string()),
+  birthday: optional(string()),
+  notes: optional(string()),
+  photo_url: optional(string()),
+  last_update: optional(number()),
+  // Included when fetching a single contact
+  numbers: optional(array(ContactNumberSchema))
+});
+
+// ==================== PARENTAL CONTROL ====================
+
+export const ParentalAccessModeSchema = oneOf(['allowed', 'denied', 'webonly']);
+
+export const ParentalProfileSchema = object('ParentalProfile', {
+  id: number(),
+  name: string(),
+  icon: optional(string())
+});
+
+export const NetworkControlSchema = object('NetworkControl', {
+  profile_id: number(),
+  current_mode: ParentalAccessModeSchema,
+  rule_mode: ParentalAccessModeSchema,
+  override: boolean(),
+  override_mode: ParentalAccessModeSchema,
+  override_until: number(),
+  next_change: number(),
+  macs: array(string()),
+  hosts: array(string()),
+  resolution: number(),
+  cdayranges: array(string())
+});
+
+export const NetworkControlRuleSchema = object('NetworkControlRule', {
+  id: number(),
+  profile_id: number(),
+  name: string(),
+  mode: ParentalAccessModeSchema,
+  start_time: number(), // minutes since midnight
+  end_time: number(),
+  weekdays: array(boolean()),
+  enabled: boolean()
+});
+
+// Legacy per-device filters (/parental/filter/)
+export const ParentalFilterSchema = object('ParentalFilter', {
+  id: number(),
+  desc: string(),
+  macs: array(string()),
+  hosts: optional(array(string())),
+  default_mode: optional(ParentalAccessModeSchema)
+});
+
+export type ApiVersion = Infer<typeof ApiVersionSchema>;
+export type SystemSensor = Infer<typeof SystemSensorSchema>;
+export type SystemFan = Infer<typeof SystemFanSchema>;
+export type SystemInfo = Infer<typeof SystemInfoSchema>;
+export type ConnectionStatus = Infer<typeof ConnectionStatusSchema>;
+export type RrdPoint = Infer<typeof RrdPointSchema>;
+export type RrdData = Infer<typeof RrdDataSchema>;
+export type WifiBss = Infer<typeof WifiBssSchema>;
+export type LanInterface = Infer<typeof LanInterfaceSchema>;
+export type LanHostAccessPoint = Infer<typeof LanHostAccessPointSchema>;
+export type LanHost = Infer<typeof LanHostSchema>;
+export type DhcpStaticLease = Infer<typeof DhcpStaticLeaseSchema>;
+export type DownloadTask = Infer<typeof DownloadTaskSchema>;
+export type DownloadStats = Infer<typeof DownloadStatsSchema>;
+export type FsFileInfo = Infer<typeof FsFileInfoSchema>;
+export type FsListing = Infer<typeof FsListingSchema>;
+export type FsTask = Infer<typeof FsTaskSchema>;
+export type StoragePartition = Infer<typeof StoragePartitionSchema>;
+export type StorageDisk = Infer<typeof StorageDiskSchema>;
+export type VirtualMachine = Infer<typeof VirtualMachineSchema>;
+export type CallEntry = Infer<typeof CallEntrySchema>;
+export type ContactNumber = Infer<typeof ContactNumberSchema>;
+export type Contact = Infer<typeof ContactSchema>;
+export type ParentalAccessMode = Infer<typeof ParentalAccessModeSchema>;
+export type ParentalProfile = Infer<typeof ParentalProfileSchema>;
+export type NetworkControl = Infer<typeof NetworkControlSchema>;
+export type NetworkControlRule = Infer<typeof NetworkControlRuleSchema>;
+export type ParentalFilter = Infer<typeof ParentalFilterSchema>;
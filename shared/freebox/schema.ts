@@ -0,0 +1,136 @@
+/**
+ * Runtime schemas for Freebox API responses
+ *
+ * A schema describes a TypeScript type (Infer<typeof Schema>) and checks a
+ * decoded JSON value against it. Checks never throw nor change the value:
+ * they list the mismatches with their field path, so a firmware that renames
+ * or drops a field is reported instead of breaking the code that reads it.
+ *
+ * Objects are open: fields a schema doesn't list are accepted, every
+ * firmware adds some.
+ */
+
+export interface SchemaIssue {
+  // Field path from the checked value, e.g. "result[3].l2ident.id"
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T> {
+  // Readable type name used in issues ("string", "LanHost[]")
+  readonly name: string;
+  readonly optional: boolean;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Carries T for Infer, never set
+  readonly type?: T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const childPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const primitive = <T>(name: string, test: (value: unknown) => boolean): Schema<T> => ({
+  name,
+  optional: false,
+  check(value, path, issues) {
+    if (!test(value)) issues.push({ path, expected: name, received: typeOf(value) });
+  }
+});
+
+export const string = (): Schema<string> => primitive('string', value => typeof value === 'string');
+
+export const number = (): Schema<number> => primitive('number', value => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean = (): Schema<boolean> => primitive('boolean', value => typeof value === 'boolean');
+
+// Any value, for fields whose content varies too much to be described
+export const unknown = (): Schema<unknown> => primitive('unknown', () => true);
+
+// One of a fixed set of strings (states, types...)
+export const oneOf = <const T extends readonly string[]>(values: T): Schema<T[number]> => {
+  const name = values.map(value => `'${value}'`).join(' | ');
+  return {
+    name,
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+        issues.push({ path, expected: name, received: typeof value === 'string' ? `'${value}'` : typeOf(value) });
+      }
+    }
+  };
+};
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  name: `${item.name}[]`,
+  optional: false,
+  check(value, path, issues) {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: `${item.name}[]`, received: typeOf(value) });
+      return;
+    }
+    value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+  }
+});
+
+export const object = <S extends Shape>(name: string, shape: S): Schema<ObjectOf<S>> => ({
+  name,
+  optional: false,
+  check(value, path, issues) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: name, received: typeOf(value) });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, schema] of Object.entries(shape)) {
+      schema.check(record[key], childPath(path, key), issues);
+    }
+  }
+});
+
+// Field the Freebox may leave out (depends on the model, firmware or state)
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  name: schema.name,
+  optional: true,
+  check(value, path, issues) {
+    if (value !== undefined) schema.check(value, path, issues);
+  }
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  name: `${schema.name} | null`,
+  optional: false,
+  check(value, path, issues) {
+    if (value !== null) schema.check(value, path, issues);
+  }
+});
+
+export const validate = <T>(schema: Schema<T>, value: unknown, path = ''): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, path, issues);
+  return issues;
+};
+
+export const formatIssue = (issue: SchemaIssue): string =>
+  `${issue.path || '(root)'}: expected ${issue.expected}, got ${issue.received}`;
@@ -15,9 +15,10 @@ import { ActionButton, UnsupportedFeature } from './components/ui';
 import { LoginModal, TrafficHistoryModal, WifiSettingsModal, CreateVmModal } from './components/modals';
 import { TvPage, PhonePage, FilesPage, VmsPage, AnalyticsPage, SettingsPage } from './pages';
 import { usePolling } from './hooks/usePolling';
-import { useConnectionWebSocket } from './hooks/useConnectionWebSocket';
+import { useConnectionWebSocket, useWebSocketTopic, fetchDashboardStatus } from './hooks/useConnectionWebSocket';
 import {
   useAuthStore,
+  useSessionStore,
   useSystemStore,
   useConnectionStore,
   useWifiStore,
@@ -45,16 +46,18 @@ import {
 } from 'lucide-react';
 
 const App: React.FC = () => {
-  // Auth state
-  const { isLoggedIn, isLoading: authLoading, checkAuth, logout } = useAuthStore();
+  // Dashboard session (local account) and Freebox auth state
+  const { isAuthenticated, isChecking: sessionChecking, checkSession, logout: logoutSession, canAccess } = useSessionStore();
+  const { isLoggedIn: isFreeboxLoggedIn, isLoading: authLoading, checkAuth } = useAuthStore();
+  const isLoggedIn = isAuthenticated && isFreeboxLoggedIn;
 
   // Data stores
   const { info: systemInfo, temperatureHistory: systemTempHistory, fetchSystemInfo, reboot } = useSystemStore();
   const { status: connectionStatus, history: networkHistory, extendedHistory, temperatureHistory, fetchConnectionStatus, fetchExtendedHistory, fetchTemperatureHistory } = useConnectionStore();
-  const { networks: wifiNetworks, isLoading: wifiLoading, fetchWifiStatus, toggleBss } = useWifiStore();
-  const { devices, fetchDevices } = useLanStore();
-  const { tasks: downloads, fetchDownloads } = useDownloadsStore();
-  const { vms, isLoading: vmLoading, error: vmError, fetchVms, startVm, stopVm } = useVmStore();
+  const { networks: wifiNetworks, isLoading: wifiLoading, fetchWifiStatus, setWifiStatus, toggleBss } = useWifiStore();
+  const { devices, fetchDevices, setHosts } = useLanStore();
+  const { tasks: downloads, fetchDownloads, setDownloads } = useDownloadsStore();
+  const { vms, isLoading: vmLoading, error: vmError, fetchVms, setVms, startVm, stopVm } = useVmStore();
   const { logs: historyLogs, isLoading: historyLoading, fetchHistory } = useHistoryStore();
 
   // Capabilities store for model-specific features
@@ -81,10 +84,17 @@ const App: React.FC = () => {
   const [historyFilter, setHistoryFilter] = useState<'all' | 'connection' | 'calls' | 'notifications'>('all');
   const [historyPeriod, setHistoryPeriod] = useState<'30d' | '7d' | '24h'>('30d');
 
-  // Check auth on mount
+  // Check dashboard session on mount
   useEffect(() => {
-    checkAuth();
-  }, [checkAuth]);
+    checkSession();
+  }, [checkSession]);
+
+  // Check Freebox auth once the dashboard session is open
+  useEffect(() => {
+    if (isAuthenticated) {
+      checkAuth();
+    }
+  }, [isAuthenticated, checkAuth]);
 
   // Start/stop periodic permissions refresh based on login state
   useEffect(() => {
@@ -96,32 +106,48 @@ const App: React.FC = () => {
     return () => stopPermissionsRefresh();
   }, [isLoggedIn]);
 
-  // WebSocket for real-time connection status (replaces polling)
-  useConnectionWebSocket({ enabled: isLoggedIn });
+  // Shared WebSocket: each store subscribes to its topic and only polls while it is disconnected
+  const { isConnected: wsConnected } = useConnectionWebSocket({ enabled: isLoggedIn });
+  const canReadDownloads = canAccess('downloader', 'read');
+  const canReadVms = supportsVm() && canAccess('vm', 'read');
+  const canControlVms = canAccess('vm', 'write');
+  const canReadSettings = canAccess('settings', 'read');
+
+  useWebSocketTopic('wifi', setWifiStatus, { enabled: isLoggedIn });
+  useWebSocketTopic('lan', setHosts, { enabled: isLoggedIn });
+  useWebSocketTopic('downloads', setDownloads, { enabled: isLoggedIn && canReadDownloads });
+  useWebSocketTopic('vm', setVms, { enabled: isLoggedIn && canReadVms });
 
   usePolling(fetchSystemInfo, {
-    enabled: isLoggedIn,
+    enabled: isLoggedIn && canReadSettings,
     interval: POLLING_INTERVALS.system
   });
 
   usePolling(fetchWifiStatus, {
-    enabled: isLoggedIn,
+    enabled: isLoggedIn && !wsConnected && canReadSettings,
     interval: POLLING_INTERVALS.wifi
   });
 
   usePolling(fetchDevices, {
-    enabled: isLoggedIn,
+    enabled: isLoggedIn && !wsConnected && canReadSettings,
     interval: POLLING_INTERVALS.devices
   });
 
+  // Without the settings permission, the same widgets are read from the status summary
+  usePolling(fetchDashboardStatus, {
+    enabled: isLoggedIn && !wsConnected && !canReadSettings,
+    interval: POLLING_INTERVALS.system
+  });
+
+  // Skip widgets the dashboard role cannot read (the API would answer 403)
   usePolling(fetchDownloads, {
-    enabled: isLoggedIn,
+    enabled: isLoggedIn && !wsConnected && canReadDownloads,
     interval: POLLING_INTERVALS.downloads
   });
 
   // Only poll VMs if the model supports them
   usePolling(fetchVms, {
-    enabled: isLoggedIn && supportsVm(),
+    enabled: isLoggedIn && !wsConnected && canReadVms,
     interval: POLLING_INTERVALS.vm
   });
 
@@ -188,8 +214,9 @@ const App: React.FC = () => {
     }
   };
 
+  // Closes the dashboard session only: the Freebox session is shared by all dashboard users
   const handleLogout = async () => {
-    await logout();
+    await logoutSession();
   };
 
   const handleVmToggle = async (id: string, start: boolean) => {
@@ -208,8 +235,8 @@ const App: React.FC = () => {
     setCurrentPage(page);
   };
 
-  // Show login modal if not logged in
-  if (!authLoading && !isLoggedIn) {
+  // Show login modal if not logged in (dashboard account first, then Freebox)
+  if (!sessionChecking && (!isAuthenticated || (!authLoading && !isFreeboxLoggedIn))) {
     return (
       <div className="min-h-screen bg-[#050505]">
         <LoginModal isOpen={true} />
@@ -357,20 +384,11 @@ const App: React.FC = () => {
               </div>
             </Card>
 
-            <Card title="Test de débits">
-              <SpeedtestWidget
-                downloadSpeed={undefined}
-                uploadSpeed={undefined}
-                ping={undefined}
-                jitter={undefined}
-                downloadHistory={[]}
-                uploadHistory={[]}
-              />
-              <p className="text-xs text-gray-500 mt-2 text-center">
-                L'API Freebox ne permet pas de lancer des tests de débit via l'API.
-                Utilisez l'interface Freebox OS pour effectuer un test.
-              </p>
-            </Card>
+            {canReadSettings && (
+              <Card title="Test de débits">
+                <SpeedtestWidget />
+              </Card>
+            )}
 
             <Card
               title="Uptime"
@@ -467,7 +485,7 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-6">
             <Card
               title={hasLimitedVmSupport() ? `VMs (max ${getMaxVms()})` : "VMs"}
-              actions={supportsVm() && hasDisk && !vmError ? <ActionButton label="Créer" icon={Plus} onClick={() => setIsCreateVmModalOpen(true)} /> : undefined}
+              actions={supportsVm() && hasDisk && !vmError && canControlVms ? <ActionButton label="Créer" icon={Plus} onClick={() => setIsCreateVmModalOpen(true)} /> : undefined}
             >
               {!supportsVm() ? (
                 <UnsupportedFeature
@@ -493,7 +511,7 @@ const App: React.FC = () => {
                   </p>
                 </div>
               ) : vms.length > 0 ? (
-                <VmPanel vms={vms} onToggle={handleVmToggle} />
+                <VmPanel vms={vms} onToggle={canControlVms ? handleVmToggle : undefined} />
               ) : (
                 <div className="text-center py-8">
                   <Server size={32} className="mx-auto text-gray-600 mb-2" />
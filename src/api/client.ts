@@ -1,5 +1,7 @@
 import type { ApiResponse } from '../types/api';
 import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useBoxStore } from '../stores/boxStore';
 import { PERMISSION_LABELS } from '../utils/permissions';
 
 // Extended response type for Freebox API errors
@@ -17,24 +19,38 @@ class ApiClient {
     this.baseUrl = baseUrl;
   }
 
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      // Freebox targeted by the request (see server/middleware/box.ts)
+      'X-Freebox-Box': useBoxStore.getState().currentBoxId
+    };
+  }
+
   private async request<T>(
     method: string,
     endpoint: string,
-    body?: unknown
+    body?: unknown,
+    init: { raw?: Blob; signal?: AbortSignal } = {}
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
     const options: RequestInit = {
       method,
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: body ? JSON.stringify(body) : undefined
+      headers: init.raw ? { ...this.headers(), 'Content-Type': 'application/octet-stream' } : this.headers(),
+      body: init.raw ?? (body ? JSON.stringify(body) : undefined),
+      signal: init.signal
     };
 
     try {
       const response = await fetch(url, options);
       const data = await response.json();
 
+      // Dashboard session missing or expired: back to the login screen
+      if (response.status === 401 && data?.error?.code === 'UNAUTHENTICATED') {
+        useSessionStore.getState().handleUnauthenticated();
+        return data as ApiResponse<T>;
+      }
+
       // Check for Freebox auth_required error (session expired or permissions changed)
       if (data && !data.success && data.error_code === 'auth_required') {
         console.warn(`[API] Auth required for ${method} ${endpoint}: session expired or permissions changed`);
@@ -96,6 +112,9 @@ class ApiClient {
 
       return data as ApiResponse<T>;
     } catch (error) {
+      if (init.signal?.aborted) {
+        return { success: false, error: { code: 'ABORTED', message: 'Interrompu' } };
+      }
       console.error(`[API] ${method} ${endpoint} failed:`, error);
       return {
         success: false,
@@ -122,6 +141,84 @@ class ApiClient {
   async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
     return this.request<T>('DELETE', endpoint);
   }
+
+  // PUT of raw bytes (file upload chunks)
+  async putBinary<T>(endpoint: string, data: Blob, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    return this.request<T>('PUT', endpoint, undefined, { raw: data, signal });
+  }
+
+  /**
+   * POST answered with newline-delimited JSON events (progressive results):
+   * every { type: 'progress' } snapshot goes to onProgress, the final result is returned
+   */
+  async stream<T>(
+    endpoint: string,
+    body: unknown,
+    onProgress: (data: T) => void,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify(body),
+        signal
+      });
+
+      // Validation and permission errors come as a regular JSON response
+      if (!response.body || !response.headers.get('Content-Type')?.includes('application/x-ndjson')) {
+        const data = await response.json();
+        if (response.status === 401 && data?.error?.code === 'UNAUTHENTICATED') {
+          useSessionStore.getState().handleUnauthenticated();
+        }
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'REQUEST_FAILED',
+            message: data.error?.message || `Request failed with status ${response.status}`
+          }
+        };
+      }
+
+      let final: ApiResponse<T> = {
+        success: false,
+        error: { code: 'STREAM_INTERRUPTED', message: 'La connexion au serveur a été interrompue' }
+      };
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line);
+          if (event.type === 'progress') {
+            onProgress(event.data as T);
+          } else if (event.type === 'result') {
+            final = { success: true, result: event.data as T };
+          } else if (event.type === 'error') {
+            final = { success: false, error: event.error };
+          }
+        }
+      }
+      return final;
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, error: { code: 'ABORTED', message: 'Interrompu' } };
+      }
+      console.error(`[API] POST ${endpoint} stream failed:`, error);
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Network error'
+        }
+      };
+    }
+  }
 }
 
 export const api = new ApiClient();
\ No newline at end of file
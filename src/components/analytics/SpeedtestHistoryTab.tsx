@@ -0,0 +1,529 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Upload, Gauge, Clock, CalendarClock, FileText, Trash2, Plus, X, Save, AlertCircle } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { Toggle } from '../ui/Toggle';
+import { useSpeedtestStore } from '../../stores/speedtestStore';
+import { useBoxStore } from '../../stores/boxStore';
+import { API_ROUTES } from '../../utils/constants';
+import type { SpeedtestSchedule, SpeedtestThroughputSummary } from '../../types/api';
+
+const COLORS = {
+  blue: '#3b82f6',
+  green: '#10b981',
+  orange: '#f97316'
+};
+
+const SCHEDULE_PRESETS: { expression: string; label: string }[] = [
+  { expression: '0 3 * * *', label: 'Chaque nuit à 3 h' },
+  { expression: '0 21 * * *', label: 'Chaque soir à 21 h (heure de pointe)' },
+  { expression: '0 */6 * * *', label: 'Toutes les 6 heures' },
+  { expression: '0 3,13,21 * * *', label: 'À 3 h, 13 h et 21 h' }
+];
+
+const inputClass = 'w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+const formatMbps = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '--';
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} Gbps` : `${value.toFixed(0)} Mbps`;
+};
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const formatMonth = (month: string): string => {
+  const [year, index] = month.split('-').map(Number);
+  const label = new Date(year, index - 1, 1).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const scheduleLabel = (expression: string): string =>
+  SCHEDULE_PRESETS.find(p => p.expression === expression)?.label ?? expression;
+
+interface SpeedtestHistoryTabProps {
+  // Period of the history chart, from the page time range
+  days: number;
+  readOnly?: boolean;
+}
+
+export const SpeedtestHistoryTab: React.FC<SpeedtestHistoryTabProps> = ({ days, readOnly = false }) => {
+  const {
+    targets,
+    history,
+    schedule,
+    report,
+    reportMonths,
+    error,
+    fetchTargets,
+    fetchHistory,
+    clearHistory,
+    fetchSchedule,
+    updateSchedule,
+    fetchReport
+  } = useSpeedtestStore();
+
+  const [draft, setDraft] = useState<SpeedtestSchedule | null>(null);
+  const [customExpression, setCustomExpression] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [month, setMonth] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    fetchTargets();
+    fetchSchedule();
+  }, [fetchTargets, fetchSchedule]);
+
+  useEffect(() => {
+    fetchHistory(days);
+  }, [fetchHistory, days]);
+
+  useEffect(() => {
+    fetchReport(month);
+  }, [fetchReport, month, history.length]);
+
+  useEffect(() => {
+    if (schedule) setDraft(schedule);
+  }, [schedule]);
+
+  const chartData = useMemo(() => history
+    .filter(e => e.status === 'done')
+    .map(e => ({
+      time: formatDateTime(e.startedAt),
+      download: e.download,
+      upload: e.upload,
+      latency: e.latency
+    })), [history]);
+
+  const stats = useMemo(() => {
+    const done = history.filter(e => e.status === 'done');
+    const avg = (values: (number | null)[]): number | null => {
+      const numbers = values.filter((v): v is number => v !== null);
+      return numbers.length ? numbers.reduce((sum, v) => sum + v, 0) / numbers.length : null;
+    };
+    return {
+      tests: history.length,
+      failed: history.length - done.length,
+      download: avg(done.map(e => e.download)),
+      upload: avg(done.map(e => e.upload)),
+      latency: avg(done.map(e => e.latency))
+    };
+  }, [history]);
+
+  const isDirty = draft !== null && JSON.stringify(draft) !== JSON.stringify(schedule);
+
+  const toggleExpression = (expression: string) => {
+    if (!draft) return;
+    const expressions = draft.expressions.includes(expression)
+      ? draft.expressions.filter(e => e !== expression)
+      : [...draft.expressions, expression];
+    setDraft({ ...draft, expressions });
+  };
+
+  const addCustomExpression = () => {
+    const expression = customExpression.trim().replace(/\s+/g, ' ');
+    if (!draft || !expression || draft.expressions.includes(expression)) return;
+    setDraft({ ...draft, expressions: [...draft.expressions, expression] });
+    setCustomExpression('');
+  };
+
+  const saveSchedule = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    await updateSchedule(draft);
+    setIsSaving(false);
+  };
+
+  const handleClearHistory = async () => {
+    if (confirm("Effacer tout l'historique des tests de débit ?")) {
+      await clearHistory();
+    }
+  };
+
+  // Plain navigation: the box can't be sent as a header
+  const exportReport = (format: 'csv' | 'json') => {
+    const boxId = encodeURIComponent(useBoxStore.getState().currentBoxId);
+    const reportMonth = report?.month ?? month ?? '';
+    window.open(`${API_ROUTES.SPEEDTEST_REPORT}/export?month=${reportMonth}&format=${format}&box=${boxId}`, '_blank');
+  };
+
+  const customExpressions = draft?.expressions.filter(e => !SCHEDULE_PRESETS.some(p => p.expression === e)) ?? [];
+  const recent = [...history].reverse().slice(0, 20);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-sm text-red-400">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-[#121212] rounded-xl p-4 border border-gray-800">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
+            <Gauge className="w-4 h-4 text-purple-400" />
+            Tests
+          </div>
+          <div className="text-2xl font-bold text-white">{stats.tests}</div>
+          {stats.failed > 0 && <div className="text-xs text-red-400 mt-1">{stats.failed} en échec</div>}
+        </div>
+        <div className="bg-[#121212] rounded-xl p-4 border border-gray-800">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
+            <Download className="w-4 h-4 text-blue-500" />
+            Descendant moyen
+          </div>
+          <div className="text-2xl font-bold text-white">{formatMbps(stats.download)}</div>
+        </div>
+        <div className="bg-[#121212] rounded-xl p-4 border border-gray-800">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
+            <Upload className="w-4 h-4 text-green-500" />
+            Montant moyen
+          </div>
+          <div className="text-2xl font-bold text-white">{formatMbps(stats.upload)}</div>
+        </div>
+        <div className="bg-[#121212] rounded-xl p-4 border border-gray-800">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
+            <Clock className="w-4 h-4 text-orange-400" />
+            Latence moyenne
+          </div>
+          <div className="text-2xl font-bold text-white">
+            {stats.latency !== null ? `${stats.latency.toFixed(1)} ms` : '--'}
+          </div>
+        </div>
+      </div>
+
+      {/* Throughput Chart */}
+      <div className="bg-[#121212] rounded-xl p-6 border border-gray-800">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Historique des tests de débit</h3>
+          <span className="text-xs text-gray-500">{chartData.length} tests réussis</span>
+        </div>
+        <div className="h-80">
+          {chartData.length > 0 ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="time" stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 11 }} interval="preserveStartEnd" />
+                <YAxis stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 11 }} unit=" Mb" />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                  labelStyle={{ color: '#9ca3af' }}
+                  formatter={(value: number, name: string) => [formatMbps(value), name]}
+                />
+                <Legend />
+                {report && (
+                  <ReferenceLine
+                    y={report.advertised.download}
+                    stroke={COLORS.blue}
+                    strokeDasharray="6 4"
+                    label={{ value: 'Annoncé ↓', fill: '#6b7280', fontSize: 11, position: 'insideTopRight' }}
+                  />
+                )}
+                {report && (
+                  <ReferenceLine
+                    y={report.advertised.upload}
+                    stroke={COLORS.green}
+                    strokeDasharray="6 4"
+                    label={{ value: 'Annoncé ↑', fill: '#6b7280', fontSize: 11, position: 'insideBottomRight' }}
+                  />
+                )}
+                <Line type="monotone" dataKey="download" stroke={COLORS.blue} strokeWidth={2} dot={{ r: 2 }} name="Descendant" />
+                <Line type="monotone" dataKey="upload" stroke={COLORS.green} strokeWidth={2} dot={{ r: 2 }} name="Montant" />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex items-center justify-center text-gray-500 text-sm">
+              Aucun test de débit sur la période
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Schedule */}
+        <div className="bg-[#121212] rounded-xl p-6 border border-gray-800">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-blue-400" />
+              Tests planifiés
+            </h3>
+            {draft && (
+              <Toggle
+                checked={draft.enabled}
+                onChange={(enabled) => setDraft({ ...draft, enabled })}
+                disabled={readOnly}
+              />
+            )}
+          </div>
+
+          {draft && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Les tests tournent sur le serveur du dashboard, à l'heure du serveur, même sans navigateur ouvert.
+              </p>
+
+              <div className="space-y-2">
+                {SCHEDULE_PRESETS.map(preset => (
+                  <label key={preset.expression} className="flex items-center gap-3 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.expressions.includes(preset.expression)}
+                      onChange={() => toggleExpression(preset.expression)}
+                      disabled={readOnly}
+                      className="rounded border-gray-700 bg-[#252525]"
+                    />
+                    {preset.label}
+                    <span className="text-xs text-gray-600 font-mono">{preset.expression}</span>
+                  </label>
+                ))}
+              </div>
+
+              {customExpressions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {customExpressions.map(expression => (
+                    <span key={expression} className="flex items-center gap-1 px-2 py-1 bg-[#1a1a1a] rounded text-xs font-mono text-gray-300">
+                      {expression}
+                      {!readOnly && (
+                        <button onClick={() => toggleExpression(expression)} className="text-gray-500 hover:text-red-400">
+                          <X size={12} />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <input
+                    className={`${inputClass} font-mono`}
+                    value={customExpression}
+                    onChange={e => setCustomExpression(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && addCustomExpression()}
+                    placeholder="Expression cron, ex. 30 2 * * 1-5"
+                  />
+                  <button
+                    onClick={addCustomExpression}
+                    className="px-3 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg"
+                    title="Ajouter"
+                  >
+                    <Plus size={16} />
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Cible</label>
+                <select
+                  className={inputClass}
+                  value={draft.targetId ?? ''}
+                  onChange={e => setDraft({ ...draft, targetId: e.target.value || null })}
+                  disabled={readOnly}
+                >
+                  <option value="">{targets[0] ? `${targets[0].name} (par défaut)` : 'Par défaut'}</option>
+                  {targets.slice(1).map(target => (
+                    <option key={target.id} value={target.id}>{target.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {!readOnly && (
+                <button
+                  onClick={saveSchedule}
+                  disabled={!isDirty || isSaving}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                >
+                  <Save size={14} />
+                  Enregistrer
+                </button>
+              )}
+              {draft.enabled && draft.expressions.length > 0 && !isDirty && (
+                <p className="text-xs text-gray-500">
+                  Actif : {draft.expressions.map(scheduleLabel).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Monthly report */}
+        <div className="bg-[#121212] rounded-xl p-6 border border-gray-800">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <FileText className="w-5 h-5 text-purple-400" />
+              Rapport mensuel
+            </h3>
+            <select
+              className="px-3 py-1.5 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+              value={report?.month ?? ''}
+              onChange={e => setMonth(e.target.value)}
+            >
+              {report && !reportMonths.includes(report.month) && (
+                <option value={report.month}>{formatMonth(report.month)}</option>
+              )}
+              {reportMonths.map(m => <option key={m} value={m}>{formatMonth(m)}</option>)}
+            </select>
+          </div>
+
+          {report && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                {report.modelName} : {formatMbps(report.advertised.download)} ↓ / {formatMbps(report.advertised.upload)} ↑ annoncés.
+                {' '}{report.tests} test{report.tests > 1 ? 's' : ''}{report.failed > 0 ? `, dont ${report.failed} en échec` : ''}.
+              </p>
+
+              {report.download || report.upload ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                      <th className="py-2"></th>
+                      <th className="py-2 text-right">Descendant</th>
+                      <th className="py-2 text-right">Montant</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {([
+                      ['Moyenne', (s: SpeedtestThroughputSummary) => formatMbps(s.average)],
+                      ['Médiane', (s: SpeedtestThroughputSummary) => formatMbps(s.median)],
+                      ['Minimum', (s: SpeedtestThroughputSummary) => formatMbps(s.min)],
+                      ['Maximum', (s: SpeedtestThroughputSummary) => formatMbps(s.max)],
+                      ['Part du débit annoncé', (s: SpeedtestThroughputSummary) => `${s.ratio}%`],
+                      [`Tests sous ${report.threshold}% de l'annoncé`, (s: SpeedtestThroughputSummary) => String(s.belowThreshold)]
+                    ] as [string, (s: SpeedtestThroughputSummary) => string][]).map(([label, format]) => (
+                      <tr key={label} className="border-b border-gray-800/50">
+                        <td className="py-1.5 text-gray-400">{label}</td>
+                        <td className="py-1.5 text-right text-white">{report.download ? format(report.download) : '--'}</td>
+                        <td className="py-1.5 text-right text-white">{report.upload ? format(report.upload) : '--'}</td>
+                      </tr>
+                    ))}
+                    {report.latency && (
+                      <tr>
+                        <td className="py-1.5 text-gray-400">Latence moyenne / max</td>
+                        <td colSpan={2} className="py-1.5 text-right text-white">
+                          {report.latency.average} ms / {report.latency.max} ms
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500">Aucun test réussi ce mois-ci</p>
+              )}
+
+              {report.byHour.length > 1 && (
+                <div className="h-40">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={report.byHour.map(h => ({ ...h, label: `${h.hour} h` }))}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                      <XAxis dataKey="label" stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 11 }} />
+                      <YAxis stroke="#6b7280" tick={{ fill: '#6b7280', fontSize: 11 }} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151', borderRadius: '8px' }}
+                        labelStyle={{ color: '#9ca3af' }}
+                        formatter={(value: number, name: string) => [formatMbps(value), name]}
+                      />
+                      <Bar dataKey="download" fill={COLORS.blue} name="Descendant" />
+                      <Bar dataKey="upload" fill={COLORS.green} name="Montant" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => exportReport('csv')}
+                  disabled={report.tests === 0}
+                  className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded-lg"
+                >
+                  Exporter CSV
+                </button>
+                <button
+                  onClick={() => exportReport('json')}
+                  disabled={report.tests === 0}
+                  className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded-lg"
+                >
+                  Exporter JSON
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Recent tests */}
+      <div className="bg-[#121212] rounded-xl p-6 border border-gray-800">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Derniers tests</h3>
+          {!readOnly && history.length > 0 && (
+            <button
+              onClick={handleClearHistory}
+              className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-red-400"
+            >
+              <Trash2 size={14} />
+              Effacer l'historique
+            </button>
+          )}
+        </div>
+        {recent.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Origine</th>
+                  <th className="py-2 pr-3">Cible</th>
+                  <th className="py-2 pr-3 text-right">Descendant</th>
+                  <th className="py-2 pr-3 text-right">Montant</th>
+                  <th className="py-2 pr-3 text-right">Latence</th>
+                  <th className="py-2 text-right">En charge</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-800/50">
+                    <td className="py-1.5 pr-3 text-gray-400">{formatDateTime(entry.startedAt)}</td>
+                    <td className="py-1.5 pr-3">
+                      <span className={`px-2 py-0.5 rounded text-xs ${
+                        entry.trigger === 'scheduled' ? 'bg-purple-900/30 text-purple-400' : 'bg-gray-800 text-gray-400'
+                      }`}>
+                        {entry.trigger === 'scheduled' ? 'Planifié' : 'Manuel'}
+                      </span>
+                    </td>
+                    <td className="py-1.5 pr-3 text-gray-300">{entry.targetName}</td>
+                    {entry.status === 'failed' ? (
+                      <td colSpan={4} className="py-1.5 text-right text-red-400 text-xs">{entry.error || 'Échec'}</td>
+                    ) : (
+                      <>
+                        <td className="py-1.5 pr-3 text-right text-white">{formatMbps(entry.download)}</td>
+                        <td className="py-1.5 pr-3 text-right text-white">{formatMbps(entry.upload)}</td>
+                        <td className="py-1.5 pr-3 text-right text-gray-300">
+                          {entry.latency !== null ? `${entry.latency.toFixed(1)} ms` : '--'}
+                        </td>
+                        <td className="py-1.5 text-right text-gray-400">
+                          {entry.loadedLatency !== null ? `${entry.loadedLatency.toFixed(1)} ms` : '--'}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Aucun test enregistré</p>
+        )}
+      </div>
+    </div>
+  );
+};
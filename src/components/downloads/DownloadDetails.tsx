@@ -58,9 +58,10 @@ type TabType = 'files' | 'log' | 'trackers' | 'peers' | 'pieces' | 'blacklist';
 interface DownloadDetailsProps {
   task: DownloadTask;
   onClose: () => void;
+  readOnly?: boolean;
 }
 
-export const DownloadDetails: React.FC<DownloadDetailsProps> = ({ task, onClose }) => {
+export const DownloadDetails: React.FC<DownloadDetailsProps> = ({ task, onClose, readOnly = false }) => {
   const { getTrackers, getPeers, getFiles, updateFilePriority, getPieces, getBlacklist, emptyBlacklist, getLog } = useDownloadsStore();
 
   const [activeTab, setActiveTab] = useState<TabType>('files');
@@ -319,7 +320,8 @@ export const DownloadDetails: React.FC<DownloadDetailsProps> = ({ task, onClose
                             <select
                               value={file.priority}
                               onChange={(e) => handlePriorityChange(file.id, e.target.value)}
-                              className="appearance-none bg-[#0a0a0a] border border-gray-700 rounded px-2 py-1 pr-6 text-xs text-gray-300 focus:outline-none focus:border-blue-500"
+                              disabled={readOnly}
+                              className="appearance-none bg-[#0a0a0a] border border-gray-700 rounded px-2 py-1 pr-6 text-xs text-gray-300 focus:outline-none focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                               <option value="no_dl">Ne pas télécharger</option>
                               <option value="low">Basse</option>
@@ -465,13 +467,15 @@ export const DownloadDetails: React.FC<DownloadDetailsProps> = ({ task, onClose
                 {blacklist.length > 0 && (
                   <div className="flex items-center justify-between mb-2">
                     <span className="text-xs text-gray-400">{blacklist.length} entrée(s)</span>
-                    <button
-                      onClick={handleEmptyBlacklist}
-                      className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 hover:bg-red-900/20 rounded transition-colors"
-                    >
-                      <Trash2 size={12} />
-                      Vider
-                    </button>
+                    {!readOnly && (
+                      <button
+                        onClick={handleEmptyBlacklist}
+                        className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 hover:bg-red-900/20 rounded transition-colors"
+                      >
+                        <Trash2 size={12} />
+                        Vider
+                      </button>
+                    )}
                   </div>
                 )}
                 {blacklist.length > 0 ? (
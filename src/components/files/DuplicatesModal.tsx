@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { X, Files, Loader2, AlertCircle, FolderOpen, Trash2, CheckSquare, Square } from 'lucide-react';
+import { useFileSearchStore } from '../../stores/fileSearchStore';
+import { useFsStore } from '../../stores/fsStore';
+import { formatBytes, formatDate } from '../../utils/constants';
+
+const MB = 1024 * 1024;
+
+// Smallest file size considered by a scan
+const MIN_SIZES = [
+  { value: 0, label: 'Tous les fichiers' },
+  { value: MB, label: '1 Mo et plus' },
+  { value: 10 * MB, label: '10 Mo et plus' },
+  { value: 100 * MB, label: '100 Mo et plus' },
+  { value: 1024 * MB, label: '1 Go et plus' }
+];
+
+/**
+ * Files with the same content anywhere on the Freebox storage, grouped by
+ * size then by the digest computed by the Freebox. The selected copies are
+ * deleted like any other file (tasks drawer).
+ */
+export const DuplicatesModal: React.FC<{
+  onClose: () => void;
+  onOpenFolder: (path: string) => void;
+}> = ({ onClose, onOpenFolder }) => {
+  const { report, error, fetchDuplicates, scanDuplicates } = useFileSearchStore();
+  const deleteFiles = useFsStore(state => state.deleteFiles);
+  const [minSize, setMinSize] = useState(MB);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const running = report?.status === 'running';
+  const groups = report?.groups ?? [];
+  const selectedBytes = groups.reduce(
+    (sum, group) => sum + group.size * group.files.filter(file => selected.includes(file.path)).length,
+    0
+  );
+
+  const toggle = (path: string) => {
+    setSelected(prev => (prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]));
+  };
+
+  // Keep the first file of each group, select the others
+  const selectCopies = () => {
+    setSelected(groups.flatMap(group => group.files.slice(1).map(file => file.path)));
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Supprimer ${selected.length} fichier(s) (${formatBytes(selectedBytes)}) ?`)) return;
+    setIsDeleting(true);
+    await deleteFiles(selected);
+    setSelected([]);
+    setIsDeleting(false);
+    fetchDuplicates();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-[#121212] rounded-xl border border-gray-800 w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Files size={20} className="text-blue-400" />
+            Fichiers en double
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Fermer">
+            <X size={18} className="text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-800">
+          <select
+            value={minSize}
+            onChange={(e) => setMinSize(Number(e.target.value))}
+            disabled={running}
+            className="px-2.5 py-1.5 bg-[#1a1a1a] border border-gray-700 rounded-lg text-xs text-white focus:outline-none focus:border-blue-500"
+          >
+            {MIN_SIZES.map(size => (
+              <option key={size.value} value={size.value}>{size.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              setSelected([]);
+              scanDuplicates(minSize);
+            }}
+            disabled={running}
+            className="flex items-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+          >
+            {running && <Loader2 size={14} className="animate-spin" />}
+            {running ? 'Analyse en cours…' : 'Analyser le stockage'}
+          </button>
+          <span className="text-xs text-gray-500">
+            {running && report && (report.candidates > 0
+              ? `Empreintes : ${report.hashed} / ${report.candidates}`
+              : 'Indexation du stockage…')}
+            {report?.status === 'done' && report.finishedAt && (
+              `${groups.length} groupe(s), ${formatBytes(report.reclaimable)} récupérables · analyse du ${formatDate(report.finishedAt / 1000)}`
+            )}
+          </span>
+        </div>
+
+        {(error || report?.error || (report?.failed ?? 0) > 0) && (
+          <div className="flex items-center gap-2 px-6 py-2 text-xs text-orange-400 bg-orange-900/10 border-b border-gray-800">
+            <AlertCircle size={12} />
+            {error || report?.error || `${report?.failed} fichier(s) n'ont pas pu être analysés`}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {!report || report.status === 'idle' ? (
+            <p className="px-6 py-12 text-sm text-center text-gray-500">
+              L'analyse compare les fichiers de même taille grâce aux empreintes calculées par la Freebox.
+            </p>
+          ) : groups.length === 0 && !running ? (
+            <p className="px-6 py-12 text-sm text-center text-gray-500">Aucun doublon trouvé</p>
+          ) : (
+            groups.map(group => (
+              <div key={group.hash} className="px-6 py-3 border-b border-gray-800 last:border-b-0">
+                <p className="text-xs text-gray-500 mb-1.5">
+                  {group.files.length} copies de {formatBytes(group.size)} · {formatBytes(group.reclaimable)} récupérables
+                </p>
+                {group.files.map(file => (
+                  <div key={file.path} className="flex items-center gap-2 py-1">
+                    <button onClick={() => toggle(file.path)} className="flex-shrink-0">
+                      {selected.includes(file.path)
+                        ? <CheckSquare size={14} className="text-blue-400" />
+                        : <Square size={14} className="text-gray-500" />}
+                    </button>
+                    <span className="text-sm text-white truncate flex-grow" title={file.fullPath}>{file.fullPath}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">{formatDate(file.modification)}</span>
+                    <button
+                      onClick={() => onOpenFolder(file.parent)}
+                      className="p-1 hover:bg-gray-800 rounded transition-colors"
+                      title="Afficher dans le dossier"
+                    >
+                      <FolderOpen size={12} className="text-gray-400" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        {groups.length > 0 && (
+          <div className="flex items-center justify-between gap-2 px-6 py-3 border-t border-gray-800">
+            <button onClick={selectCopies} className="text-xs text-gray-400 hover:text-white transition-colors">
+              Sélectionner les copies
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={selected.length === 0 || isDeleting}
+              className="flex items-center gap-2 px-3 py-1.5 text-xs bg-red-600/20 hover:bg-red-600/30 disabled:opacity-50 disabled:cursor-not-allowed text-red-400 rounded-lg transition-colors"
+            >
+              <Trash2 size={14} />
+              Supprimer la sélection{selected.length > 0 ? ` (${formatBytes(selectedBytes)})` : ''}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
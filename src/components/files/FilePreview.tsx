@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Download, ExternalLink, Loader2, AlertCircle, FileAudio, File } from 'lucide-react';
+import { useFsStore, fileDownloadUrl, type FsFile, type TextFileContent } from '../../stores/fsStore';
+import { formatBytes } from '../../utils/constants';
+import {
+  canOpenInline,
+  getPreviewKind,
+  getTextLanguage,
+  highlightLine,
+  TEXT_PREVIEW_MAX_BYTES,
+  type TextLanguage,
+  type TokenKind
+} from '../../utils/filePreview';
+
+const TOKEN_COLORS: Record<TokenKind, string> = {
+  key: 'text-sky-300',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-purple-300',
+  comment: 'text-gray-500 italic',
+  heading: 'text-blue-300 font-semibold',
+  date: 'text-cyan-400',
+  error: 'text-red-400 font-semibold',
+  warning: 'text-orange-300 font-semibold',
+  info: 'text-gray-400',
+  plain: ''
+};
+
+// Minified JSON is shown indented, when it was read entirely
+const formatText = (content: TextFileContent, language: TextLanguage): string => {
+  if (language !== 'json' || content.truncated || content.text.split('\n', 3).length > 2) return content.text;
+  try {
+    return JSON.stringify(JSON.parse(content.text), null, 2);
+  } catch {
+    return content.text;
+  }
+};
+
+const TextPreview: React.FC<{ file: FsFile }> = ({ file }) => {
+  const readTextFile = useFsStore(state => state.readTextFile);
+  const [content, setContent] = useState<TextFileContent | null>(null);
+  const [failed, setFailed] = useState(false);
+  const language = getTextLanguage(file);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContent(null);
+    setFailed(false);
+    readTextFile(file.path, TEXT_PREVIEW_MAX_BYTES).then(result => {
+      if (cancelled) return;
+      if (result) setContent(result);
+      else setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.path, readTextFile]);
+
+  const lines = useMemo(() => (content ? formatText(content, language).split('\n') : []), [content, language]);
+
+  if (failed) return <PreviewError message="Impossible de lire le fichier" />;
+  if (!content) return <Loader2 size={32} className="text-blue-400 animate-spin" />;
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#111] border border-gray-800 rounded-xl overflow-hidden">
+      {content.truncated && (
+        <div className="px-4 py-2 text-xs text-orange-300 bg-orange-900/20 border-b border-gray-800">
+          Aperçu limité aux {formatBytes(TEXT_PREVIEW_MAX_BYTES)} premiers, téléchargez le fichier pour le lire en entier.
+        </div>
+      )}
+      <div className="flex-1 overflow-auto font-mono text-xs leading-5">
+        <table className="border-collapse">
+          <tbody>
+            {lines.map((line, i) => (
+              <tr key={i}>
+                <td className="px-3 text-right text-gray-600 select-none align-top">{i + 1}</td>
+                <td className="pr-4 whitespace-pre text-gray-200">
+                  {highlightLine(line, language).map((token, j) => (
+                    token.kind === 'plain' ? token.text : <span key={j} className={TOKEN_COLORS[token.kind]}>{token.text}</span>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const PreviewError: React.FC<{ message: string }> = ({ message }) => (
+  <div className="flex flex-col items-center gap-3 text-center">
+    <AlertCircle size={40} className="text-orange-400" />
+    <p className="text-gray-300">{message}</p>
+  </div>
+);
+
+const MediaPreview: React.FC<{ file: FsFile }> = ({ file }) => {
+  const [failed, setFailed] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const kind = getPreviewKind(file);
+  // Served with Range support: the player seeks without reading the whole file
+  const src = fileDownloadUrl([file.path], { inline: true });
+
+  useEffect(() => {
+    setFailed(false);
+    setLoaded(false);
+  }, [file.path]);
+
+  if (failed) {
+    return <PreviewError message="Ce format n'est pas lu par le navigateur, téléchargez le fichier pour l'ouvrir." />;
+  }
+
+  switch (kind) {
+    case 'image':
+      return (
+        <>
+          {!loaded && <Loader2 size={32} className="absolute text-blue-400 animate-spin" />}
+          <img
+            src={src}
+            alt={file.name}
+            onLoad={() => setLoaded(true)}
+            onError={() => setFailed(true)}
+            className={`max-w-full max-h-full object-contain rounded ${loaded ? '' : 'opacity-0'}`}
+          />
+        </>
+      );
+    case 'video':
+      return (
+        <video key={src} src={src} controls autoPlay onError={() => setFailed(true)} className="max-w-full max-h-full rounded bg-black" />
+      );
+    case 'audio':
+      return (
+        <div className="flex flex-col items-center gap-6 w-full max-w-lg">
+          <FileAudio size={64} className="text-pink-400" />
+          <audio key={src} src={src} controls autoPlay onError={() => setFailed(true)} className="w-full" />
+        </div>
+      );
+    case 'pdf':
+      // The browser PDF viewer renders the inline response
+      return <iframe src={src} title={file.name} className="w-full h-full rounded bg-white" />;
+    default:
+      return null;
+  }
+};
+
+/**
+ * File preview (lightbox): images with navigation between the images of the
+ * folder, video and audio players, PDF and text files.
+ * Escape closes it, the arrow keys move through the images.
+ */
+export const FilePreview: React.FC<{
+  file: FsFile;
+  // Files of the current folder, for the image gallery
+  files: FsFile[];
+  onNavigate: (file: FsFile) => void;
+  onClose: () => void;
+}> = ({ file, files, onNavigate, onClose }) => {
+  const kind = getPreviewKind(file);
+  const gallery = useMemo(() => files.filter(f => getPreviewKind(f) === 'image'), [files]);
+  const index = kind === 'image' ? gallery.findIndex(f => f.path === file.path) : -1;
+  const previous = index > 0 ? gallery[index - 1] : null;
+  const next = index >= 0 && index < gallery.length - 1 ? gallery[index + 1] : null;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && previous) onNavigate(previous);
+      else if (e.key === 'ArrowRight' && next) onNavigate(next);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [previous, next, onNavigate, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 flex flex-col" onClick={onClose}>
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-800" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate" title={file.name}>{file.name}</p>
+          <p className="text-xs text-gray-500">
+            {formatBytes(file.size)}
+            {index >= 0 && gallery.length > 1 && ` · ${index + 1} / ${gallery.length}`}
+          </p>
+        </div>
+        {canOpenInline(file) && (
+          <a
+            href={fileDownloadUrl([file.path], { inline: true })}
+            target="_blank"
+            rel="noreferrer"
+            className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Ouvrir dans un nouvel onglet"
+          >
+            <ExternalLink size={16} className="text-gray-300" />
+          </a>
+        )}
+        <a
+          href={fileDownloadUrl([file.path])}
+          className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+          title="Télécharger"
+        >
+          <Download size={16} className="text-gray-300" />
+        </a>
+        <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-lg transition-colors" title="Fermer (Échap)">
+          <X size={18} className="text-gray-300" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center p-6">
+        <div
+          className={`relative flex items-center justify-center ${kind === 'text' || kind === 'pdf' ? 'w-full h-full max-w-5xl' : 'max-w-full max-h-full'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {kind === 'text' && <TextPreview file={file} />}
+          {(kind === 'image' || kind === 'video' || kind === 'audio' || kind === 'pdf') && <MediaPreview file={file} />}
+          {kind === 'none' && (
+            <div className="flex flex-col items-center gap-3 text-center">
+              <File size={48} className="text-gray-500" />
+              <p className="text-gray-300">Aperçu non disponible pour ce type de fichier</p>
+              <a
+                href={fileDownloadUrl([file.path])}
+                className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+              >
+                <Download size={16} />
+                Télécharger
+              </a>
+            </div>
+          )}
+        </div>
+
+        {previous && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onNavigate(previous); }}
+            className="absolute left-4 top-1/2 -translate-y-1/2 p-2 bg-black/60 hover:bg-black/80 rounded-full transition-colors"
+            title="Image précédente"
+          >
+            <ChevronLeft size={24} className="text-white" />
+          </button>
+        )}
+        {next && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onNavigate(next); }}
+            className="absolute right-4 top-1/2 -translate-y-1/2 p-2 bg-black/60 hover:bg-black/80 rounded-full transition-colors"
+            title="Image suivante"
+          >
+            <ChevronRight size={24} className="text-white" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Folder, File, FolderOpen, Eye, Loader2, RefreshCw, SearchX, AlertCircle } from 'lucide-react';
+import { useFileSearchStore, hasSearchFilters, type FileSearchFilters } from '../../stores/fileSearchStore';
+import { formatBytes, formatDate } from '../../utils/constants';
+import type { FileSearchResult } from '../../types/api';
+
+const MB = 1024 * 1024;
+
+// Debounce of the requests while typing
+const SEARCH_DELAY = 300;
+
+// "2025-06-01" -> unix timestamp of the start (or end) of that day
+const dayToTimestamp = (day: string, endOfDay = false): number | undefined => {
+  if (!day) return undefined;
+  const date = new Date(`${day}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000);
+};
+
+const megabytes = (value: string): number | undefined => {
+  const number = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(number) && number >= 0 ? Math.round(number * MB) : undefined;
+};
+
+const inputClass = 'px-2.5 py-1.5 bg-[#1a1a1a] border border-gray-700 rounded-lg text-xs text-white placeholder:text-gray-500 focus:outline-none focus:border-blue-500';
+
+/**
+ * Search of the whole Freebox storage, through the index kept by the server.
+ * The words come from the search box of the files page, the other filters
+ * are set here.
+ */
+export const FileSearchResults: React.FC<{
+  query: string;
+  onOpenFolder: (path: string) => void;
+  onPreview: (result: FileSearchResult) => void;
+}> = ({ query, onOpenFolder, onPreview }) => {
+  const { results, total, index, isSearching, error, search, clearSearch, refreshIndex } = useFileSearchStore();
+
+  const [ext, setExt] = useState('');
+  const [type, setType] = useState<FileSearchFilters['type']>('all');
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filters: FileSearchFilters = {
+    q: query,
+    ext,
+    type,
+    minSize: megabytes(minSize),
+    maxSize: megabytes(maxSize),
+    from: dayToTimestamp(from),
+    to: dayToTimestamp(to, true)
+  };
+  const active = hasSearchFilters(filters);
+
+  useEffect(() => {
+    if (!active) {
+      clearSearch();
+      return;
+    }
+    const timer = setTimeout(() => search(filters), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, ext, type, minSize, maxSize, from, to]);
+
+  const building = index !== null && index.indexedAt === null;
+
+  return (
+    <div className="bg-[#121212] rounded-xl border border-gray-800 overflow-hidden">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-800">
+        <input
+          type="text"
+          placeholder="Extensions (jpg, mkv...)"
+          value={ext}
+          onChange={(e) => setExt(e.target.value)}
+          className={`${inputClass} w-44`}
+        />
+        <select value={type} onChange={(e) => setType(e.target.value as FileSearchFilters['type'])} className={inputClass}>
+          <option value="all">Fichiers et dossiers</option>
+          <option value="file">Fichiers</option>
+          <option value="dir">Dossiers</option>
+        </select>
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          <input type="number" min={0} placeholder="Min" value={minSize} onChange={(e) => setMinSize(e.target.value)} className={`${inputClass} w-20`} />
+          <span>à</span>
+          <input type="number" min={0} placeholder="Max" value={maxSize} onChange={(e) => setMaxSize(e.target.value)} className={`${inputClass} w-20`} />
+          <span>Mo</span>
+        </div>
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          <span>Modifié du</span>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span>au</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <span className="flex-grow" />
+        <button
+          onClick={refreshIndex}
+          disabled={index?.refreshing}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+          title="Parcourir à nouveau tout le stockage"
+        >
+          <RefreshCw size={12} className={index?.refreshing ? 'animate-spin' : ''} />
+          Réindexer
+        </button>
+      </div>
+
+      {/* Index status */}
+      <div className="flex items-center gap-2 px-4 py-2 text-xs text-gray-500 border-b border-gray-800">
+        {isSearching && <Loader2 size={12} className="animate-spin" />}
+        {building ? (
+          <span>Indexation du stockage en cours, les résultats arrivent dès qu'elle est terminée…</span>
+        ) : active ? (
+          <span>
+            {total} résultat(s){total > results.length ? `, ${results.length} affichés` : ''}
+            {index && ` · ${index.files} fichiers indexés`}
+            {index?.indexedAt && `, le ${formatDate(index.indexedAt / 1000)}`}
+          </span>
+        ) : (
+          <span>Saisissez un nom ou choisissez un filtre pour chercher dans tout le stockage</span>
+        )}
+        {index?.lastError && (
+          <span className="flex items-center gap-1 text-orange-400">
+            <AlertCircle size={12} />
+            {index.lastError}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="px-4 py-2 text-xs text-red-400 bg-red-900/20">{error}</div>}
+
+      {active && !building && results.length === 0 && !isSearching ? (
+        <div className="flex flex-col items-center justify-center py-16">
+          <SearchX size={40} className="text-gray-600 mb-3" />
+          <p className="text-sm text-gray-500">Aucun fichier ne correspond à votre recherche.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-800">
+          {results.map(result => {
+            const Icon = result.type === 'dir' ? Folder : File;
+            const folder = result.fullPath.slice(0, result.fullPath.length - result.name.length - 1) || '/';
+            return (
+              <div
+                key={result.path}
+                onDoubleClick={() => (result.type === 'dir' ? onOpenFolder(result.path) : onPreview(result))}
+                className="flex items-center gap-3 px-4 py-2.5 hover:bg-[#1a1a1a] transition-colors"
+              >
+                <Icon size={18} className={result.type === 'dir' ? 'text-yellow-400 flex-shrink-0' : 'text-gray-400 flex-shrink-0'} />
+                <div className="flex-grow min-w-0">
+                  <p className="text-sm text-white truncate">{result.name}</p>
+                  <p className="text-xs text-gray-500 truncate" title={result.fullPath}>{folder}</p>
+                </div>
+                <span className="text-xs text-gray-500 w-20 text-right flex-shrink-0">
+                  {result.type === 'file' ? formatBytes(result.size) : ''}
+                </span>
+                <span className="text-xs text-gray-500 w-32 text-right flex-shrink-0 hidden md:block">
+                  {formatDate(result.modification)}
+                </span>
+                {result.type === 'file' && (
+                  <button onClick={() => onPreview(result)} className="p-1.5 hover:bg-gray-800 rounded transition-colors" title="Aperçu">
+                    <Eye size={14} className="text-gray-400" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onOpenFolder(result.type === 'dir' ? result.path : result.parent)}
+                  className="p-1.5 hover:bg-gray-800 rounded transition-colors"
+                  title={result.type === 'dir' ? 'Ouvrir le dossier' : 'Afficher dans le dossier'}
+                >
+                  <FolderOpen size={14} className="text-gray-400" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { X, Pause, Play, Check, AlertCircle, Loader2, Copy, Move, Trash2, FileArchive, PackageOpen, Hash, FolderPlus, ListTodo } from 'lucide-react';
+import { useFsTaskStore, isTaskFinished, taskErrorLabel } from '../../stores/fsTaskStore';
+import { formatBytes, formatDuration } from '../../utils/constants';
+import type { FsTask } from '../../types/api';
+
+const TYPE_LABELS: Record<FsTask['type'], string> = {
+  cp: 'Copie',
+  mv: 'Déplacement',
+  rm: 'Suppression',
+  archive: 'Création d\'archive',
+  extract: 'Extraction',
+  hash: 'Calcul d\'empreinte',
+  mkdir: 'Création de dossier'
+};
+
+const TYPE_ICONS: Record<FsTask['type'], React.ElementType> = {
+  cp: Copy,
+  mv: Move,
+  rm: Trash2,
+  archive: FileArchive,
+  extract: PackageOpen,
+  hash: Hash,
+  mkdir: FolderPlus
+};
+
+const STATE_LABELS: Record<FsTask['state'], string> = {
+  queued: 'En attente',
+  running: 'En cours',
+  paused: 'En pause',
+  done: 'Terminé',
+  failed: 'Échec'
+};
+
+const TaskRow: React.FC<{ task: FsTask }> = ({ task }) => {
+  const { setTaskState, cancelTask } = useFsTaskStore();
+  const finished = isTaskFinished(task);
+  const Icon = TYPE_ICONS[task.type] ?? ListTodo;
+
+  const barColor = task.state === 'failed' ? 'bg-red-500'
+    : task.state === 'done' ? 'bg-emerald-500'
+    : task.state === 'paused' ? 'bg-gray-500'
+    : 'bg-blue-500';
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-800 last:border-b-0">
+      <div className="flex items-center gap-2">
+        <Icon size={14} className="text-gray-400 flex-shrink-0" />
+        <span className="text-sm text-white flex-grow truncate" title={task.from}>
+          {TYPE_LABELS[task.type] ?? task.type}{task.from ? ` de ${task.from}` : ''}
+        </span>
+        {task.state === 'running' && (
+          <button onClick={() => setTaskState(task.id, 'paused')} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Mettre en pause">
+            <Pause size={12} className="text-gray-400" />
+          </button>
+        )}
+        {task.state === 'paused' && (
+          <button onClick={() => setTaskState(task.id, 'running')} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Reprendre">
+            <Play size={12} className="text-gray-400" />
+          </button>
+        )}
+        <button
+          onClick={() => cancelTask(task.id)}
+          className="p-1 hover:bg-gray-800 rounded transition-colors"
+          title={finished ? 'Retirer de la liste' : 'Annuler'}
+        >
+          <X size={12} className="text-gray-400" />
+        </button>
+      </div>
+
+      {task.to && <p className="mt-0.5 text-xs text-gray-500 truncate" title={task.to}>vers {task.to}</p>}
+
+      <div className="mt-2 h-1 bg-gray-800 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${task.state === 'done' ? 100 : task.progress}%` }} />
+      </div>
+
+      <div className="mt-1.5 flex items-center gap-2 text-xs text-gray-500">
+        {task.state === 'running' && <Loader2 size={12} className="text-blue-400 animate-spin" />}
+        {task.state === 'done' && <Check size={12} className="text-emerald-400" />}
+        {task.state === 'failed' && <AlertCircle size={12} className="text-red-400" />}
+        <span>{STATE_LABELS[task.state]}</span>
+        {task.total_bytes > 0 && (
+          <span>· {formatBytes(task.total_bytes_done)} / {formatBytes(task.total_bytes)}</span>
+        )}
+        {task.nfiles > 1 && <span>· {task.nfiles_done} / {task.nfiles} fichiers</span>}
+        <span className="flex-grow" />
+        {task.state === 'running' && task.rate > 0 && <span>{formatBytes(task.rate)}/s</span>}
+        {task.state === 'running' && task.eta > 0 && <span>· {formatDuration(task.eta)}</span>}
+      </div>
+
+      {task.state === 'failed' && (
+        <p className="mt-1 text-xs text-red-400">{taskErrorLabel(task.error)}</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Copies, moves, deletions and archives run by the Freebox in the
+ * background: progress, ETA, pause, cancellation and the reason of a failure.
+ * Finished tasks stay listed until they are cleared.
+ */
+export const FileTasksDrawer: React.FC = () => {
+  const { tasks, isOpen, error, setOpen, clearFinished } = useFsTaskStore();
+
+  if (!isOpen) return null;
+
+  const running = tasks.filter(task => !isTaskFinished(task)).length;
+  const hasFinished = tasks.some(isTaskFinished);
+  // Most recent first
+  const sorted = [...tasks].sort((a, b) => b.created_ts - a.created_ts || b.id - a.id);
+
+  return (
+    <div className="fixed top-0 right-0 z-[150] h-full w-full sm:w-96 bg-[#151515] border-l border-gray-800 shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <div className="flex items-center gap-2">
+          <ListTodo size={16} className="text-blue-400" />
+          <span className="text-sm font-medium text-white">
+            {running > 0 ? `Tâches (${running} en cours)` : 'Tâches'}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          {hasFinished && (
+            <button onClick={clearFinished} className="text-xs text-gray-400 hover:text-white transition-colors">
+              Effacer les terminées
+            </button>
+          )}
+          <button onClick={() => setOpen(false)} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Fermer">
+            <X size={16} className="text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 text-xs text-red-400 bg-red-900/20 border-b border-gray-800">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {sorted.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-gray-500">Aucune opération en cours</p>
+        ) : (
+          sorted.map(task => <TaskRow key={task.id} task={task} />)
+        )}
+      </div>
+    </div>
+  );
+};
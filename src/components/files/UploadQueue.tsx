@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Upload, X, Check, AlertCircle, Loader2, RotateCcw, SkipForward } from 'lucide-react';
+import { useUploadStore, type UploadItem } from '../../stores/uploadStore';
+import { formatBytes } from '../../utils/constants';
+import type { UploadConflictMode } from '../../types/api';
+
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'En attente',
+  uploading: 'Envoi...',
+  conflict: 'Fichier existant',
+  done: 'Terminé',
+  skipped: 'Ignoré',
+  cancelled: 'Annulé',
+  error: 'Erreur'
+};
+
+const CONFLICT_ACTIONS: { mode: UploadConflictMode; label: string }[] = [
+  { mode: 'overwrite', label: 'Remplacer' },
+  { mode: 'skip', label: 'Ignorer' },
+  { mode: 'rename', label: 'Renommer' }
+];
+
+const UploadRow: React.FC<{ item: UploadItem; applyToNext: boolean }> = ({ item, applyToNext }) => {
+  const { cancel, retry, resolveConflict } = useUploadStore();
+  const percent = item.size > 0 ? Math.round((item.sent / item.size) * 100) : item.status === 'done' ? 100 : 0;
+  const isActive = item.status === 'queued' || item.status === 'uploading' || item.status === 'conflict';
+
+  const barColor = item.status === 'error' ? 'bg-red-500'
+    : item.status === 'done' ? 'bg-emerald-500'
+    : item.status === 'cancelled' || item.status === 'skipped' ? 'bg-gray-600'
+    : 'bg-blue-500';
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-800 last:border-b-0">
+      <div className="flex items-center gap-2">
+        {item.status === 'uploading' && <Loader2 size={14} className="text-blue-400 animate-spin flex-shrink-0" />}
+        {item.status === 'done' && <Check size={14} className="text-emerald-400 flex-shrink-0" />}
+        {item.status === 'skipped' && <SkipForward size={14} className="text-gray-500 flex-shrink-0" />}
+        {(item.status === 'error' || item.status === 'conflict') && <AlertCircle size={14} className="text-orange-400 flex-shrink-0" />}
+        {(item.status === 'queued' || item.status === 'cancelled') && <Upload size={14} className="text-gray-500 flex-shrink-0" />}
+        <span className="text-sm text-white truncate flex-grow" title={item.name}>{item.name}</span>
+        <span className="text-xs text-gray-500 flex-shrink-0">
+          {item.status === 'uploading' ? `${formatBytes(item.sent)} / ${formatBytes(item.size)}` : STATUS_LABELS[item.status]}
+        </span>
+        {(item.status === 'error' || item.status === 'cancelled') && (
+          <button onClick={() => retry(item.key)} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Relancer">
+            <RotateCcw size={12} className="text-gray-400" />
+          </button>
+        )}
+        {isActive && (
+          <button onClick={() => cancel(item.key)} className="p-1 hover:bg-gray-800 rounded transition-colors" title="Annuler">
+            <X size={12} className="text-gray-400" />
+          </button>
+        )}
+      </div>
+
+      {item.status !== 'conflict' && (
+        <div className="mt-1.5 h-1 bg-gray-800 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      {item.error && item.status === 'error' && (
+        <p className="mt-1 text-xs text-red-400">{item.error}</p>
+      )}
+
+      {item.status === 'conflict' && (
+        <div className="mt-1.5 flex items-center gap-2">
+          <span className="text-xs text-gray-400 flex-grow">Un fichier du même nom existe déjà.</span>
+          {CONFLICT_ACTIONS.map(action => (
+            <button
+              key={action.mode}
+              onClick={() => resolveConflict(item.key, action.mode, applyToNext)}
+              className="px-2 py-0.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded transition-colors"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Files being sent to the Freebox storage, with their progress and
+ * the choice to make when a file already exists.
+ */
+export const UploadQueue: React.FC = () => {
+  const { items, clearFinished } = useUploadStore();
+  const [applyToNext, setApplyToNext] = useState(false);
+
+  if (items.length === 0) return null;
+
+  const remaining = items.filter(item => item.status === 'queued' || item.status === 'uploading').length;
+  const hasConflicts = items.some(item => item.status === 'conflict');
+  const hasFinished = items.some(item => ['done', 'skipped', 'cancelled', 'error'].includes(item.status));
+
+  return (
+    <div className="mb-4 bg-[#151515] border border-gray-800 rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800">
+        <div className="flex items-center gap-2">
+          <Upload size={14} className="text-blue-400" />
+          <span className="text-sm font-medium text-white">
+            {remaining > 0 ? `Envoi de ${remaining} fichier(s)` : 'Envois terminés'}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          {hasConflicts && (
+            <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={applyToNext}
+                onChange={(e) => setApplyToNext(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Appliquer aux suivants
+            </label>
+          )}
+          {hasFinished && (
+            <button onClick={clearFinished} className="text-xs text-gray-400 hover:text-white transition-colors">
+              Effacer les terminés
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <UploadRow key={item.key} item={item} applyToNext={applyToNext} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+import logoUltra from '../../icons/logo_ultra.svg';
+import { useBoxStore } from '../../stores/boxStore';
+
+interface BoxSwitcherProps {
+  // Model name of the selected box (e.g. "Freebox Ultra")
+  modelName: string;
+}
+
+// Box identifier of the header, doubling as a selector when several Freebox are configured
+export const BoxSwitcher: React.FC<BoxSwitcherProps> = ({ modelName }) => {
+  const { boxes, currentBoxId, fetchBoxes, selectBox } = useBoxStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    fetchBoxes();
+  }, [fetchBoxes]);
+
+  // Close the list when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const currentBox = boxes.find(box => box.id === currentBoxId);
+  const hasChoice = boxes.length > 1;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => hasChoice && setIsOpen(!isOpen)}
+        className={`flex items-center gap-3 bg-[#1a1a1a] px-4 py-2 rounded-lg border border-gray-700 ${hasChoice ? 'hover:border-gray-500 transition-colors' : 'cursor-default'}`}
+        title={hasChoice ? 'Changer de Freebox' : undefined}
+      >
+        <img src={logoUltra} alt="Freebox Ultra" className="w-7 h-7 flex-shrink-0" />
+        <span className="font-semibold text-gray-200 leading-none">{modelName}</span>
+        {hasChoice && currentBox && (
+          <span className="text-xs text-gray-500 leading-none">{currentBox.name}</span>
+        )}
+        {hasChoice && <ChevronDown size={14} className="text-gray-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 top-full left-0 mt-2 min-w-[240px] bg-[#1a1a1a] border border-gray-700 rounded-lg shadow-xl py-1">
+          {boxes.map((box) => (
+            <button
+              key={box.id}
+              onClick={() => {
+                setIsOpen(false);
+                selectBox(box.id);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-800 transition-colors"
+            >
+              <span
+                className={`w-2 h-2 rounded-full flex-shrink-0 ${box.isLoggedIn ? 'bg-emerald-500' : 'bg-gray-600'}`}
+                title={box.isLoggedIn ? 'Connectée' : 'Non connectée'}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{box.name}</p>
+                <p className="text-xs text-gray-500 truncate">{box.modelName || box.url}</p>
+              </div>
+              {box.id === currentBoxId && <Check size={14} className="text-blue-400" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,8 @@ import {
   Home
 } from 'lucide-react';
 import { useCapabilitiesStore } from '../../stores/capabilitiesStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { DashboardPermission } from '../../types/api';
 
 export type PageType = 'dashboard' | 'tv' | 'phone' | 'files' | 'vms' | 'analytics' | 'settings';
 
@@ -32,6 +34,15 @@ const allTabs: { id: PageType; label: string; icon: React.ElementType }[] = [
   { id: 'settings', label: 'Paramètres', icon: Settings }
 ];
 
+// Dashboard role permissions needed to see a tab (any of them grants read access)
+const tabPermissions: Partial<Record<PageType, DashboardPermission[]>> = {
+  tv: ['tv'],
+  phone: ['calls', 'contacts'],
+  files: ['explorer', 'downloader'],
+  vms: ['vm'],
+  settings: ['settings', 'parental']
+};
+
 export const Footer: React.FC<FooterProps> = ({
   currentPage = 'dashboard',
   onPageChange,
@@ -39,6 +50,7 @@ export const Footer: React.FC<FooterProps> = ({
   onLogout
 }) => {
   const { capabilities } = useCapabilitiesStore();
+  const { user, canAccess } = useSessionStore();
 
   // Filter tabs based on capabilities
   // Only hide VMs tab for models that explicitly don't support VMs (Pop, Revolution)
@@ -49,9 +61,16 @@ export const Footer: React.FC<FooterProps> = ({
       if (tab.id === 'vms' && capabilities?.vmSupport === 'none') {
         return false;
       }
+      // Hide tabs the dashboard role cannot read
+      const required = tabPermissions[tab.id];
+      if (required && !required.some(permission => canAccess(permission, 'read'))) {
+        return false;
+      }
       return true;
     });
-  }, [capabilities?.vmSupport]);
+  }, [capabilities?.vmSupport, user, canAccess]);
+
+  const canReboot = canAccess('settings', 'write');
 
   const handleTabClick = (tabId: PageType) => {
     onPageChange?.(tabId);
@@ -85,13 +104,15 @@ export const Footer: React.FC<FooterProps> = ({
 
         {/* Actions */}
         <div className="flex items-center gap-2 pl-4">
-          <button
-            onClick={onReboot}
-            className="flex items-center gap-2 px-4 py-2 bg-[#1a1a1a] hover:bg-red-900/20 text-gray-300 hover:text-red-400 rounded-lg border border-gray-700 transition-colors"
-          >
-            <Power size={18} />
-            <span className="hidden sm:inline text-sm font-medium">Reboot</span>
-          </button>
+          {canReboot && (
+            <button
+              onClick={onReboot}
+              className="flex items-center gap-2 px-4 py-2 bg-[#1a1a1a] hover:bg-red-900/20 text-gray-300 hover:text-red-400 rounded-lg border border-gray-700 transition-colors"
+            >
+              <Power size={18} />
+              <span className="hidden sm:inline text-sm font-medium">Reboot</span>
+            </button>
+          )}
           <button
             onClick={onLogout}
             className="flex items-center gap-2 px-4 py-2 bg-[#1a1a1a] hover:bg-gray-800 text-gray-300 rounded-lg border border-gray-700 transition-colors"
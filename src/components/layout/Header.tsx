@@ -12,6 +12,7 @@ import {
 } from 'lucide-react';
 import logoUltra from '../../icons/logo_ultra.svg';
 import { StatusBadge } from '../ui/Badge';
+import { BoxSwitcher } from './BoxSwitcher';
 import { formatSpeed, formatTemperature } from '../../utils/constants';
 import { useCapabilitiesStore } from '../../stores/capabilitiesStore';
 import { useFavicon } from '../../hooks/useFavicon';
@@ -213,10 +214,7 @@ export const Header: React.FC<HeaderProps> = ({ systemInfo, connectionStatus })
   return (
     <header className="flex flex-col md:flex-row items-center justify-between p-4 bg-[#111111] border-b border-gray-800 gap-4">
       {/* Box identifier */}
-      <div className="flex items-center gap-3 bg-[#1a1a1a] px-4 py-2 rounded-lg border border-gray-700">
-        <img src={logoUltra} alt="Freebox Ultra" className="w-7 h-7 flex-shrink-0" />
-        <span className="font-semibold text-gray-200 leading-none">{boxName}</span>
-      </div>
+      <BoxSwitcher modelName={boxName} />
 
 
 
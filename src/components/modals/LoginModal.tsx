@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Router, Wifi, Check, X, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Router, Wifi, Check, X, Loader2, AlertCircle, RefreshCw, Lock, UserPlus } from 'lucide-react';
 import { useAuthStore } from '../../stores/authStore';
+import { useSessionStore } from '../../stores/sessionStore';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -41,7 +42,143 @@ const isAuthTokenError = (error: string | null): boolean => {
          lowerError.includes('authentification');
 };
 
+// Dashboard account login (or first admin creation when no account exists yet)
+const DashboardLoginStep: React.FC = () => {
+  const { needsSetup, isSubmitting, error, login, setup, clearError } = useSessionStore();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocalError(null);
+
+    if (needsSetup) {
+      if (password !== confirmPassword) {
+        setLocalError('Les mots de passe ne correspondent pas');
+        return;
+      }
+      await setup(username, password);
+    } else {
+      await login(username, password);
+    }
+  };
+
+  const displayedError = localError || error;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-[#121212] w-full max-w-md rounded-2xl border border-gray-800 shadow-2xl overflow-hidden"
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-gray-800 bg-[#0a0a0a] text-center">
+          <div className="w-16 h-16 mx-auto mb-4 bg-[#1a1a1a] rounded-full flex items-center justify-center border border-gray-700">
+            {needsSetup ? <UserPlus size={32} className="text-gray-400" /> : <Lock size={32} className="text-gray-400" />}
+          </div>
+          <h2 className="text-xl font-bold text-white">
+            {needsSetup ? 'Création du compte administrateur' : 'Connexion au dashboard'}
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {needsSetup
+              ? 'Aucun compte n\'existe encore. Créez le premier compte pour protéger le dashboard.'
+              : 'Identifiez-vous pour accéder à la Freebox'}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {displayedError && (
+            <div className="p-3 bg-red-900/20 border border-red-800 rounded-lg">
+              <div className="flex items-center gap-2 text-red-400 text-sm">
+                <AlertCircle size={16} />
+                <span className="flex-1">{displayedError}</span>
+                <button type="button" onClick={() => { setLocalError(null); clearError(); }}>
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm text-gray-400">Nom d'utilisateur</label>
+            <input
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm text-gray-400">Mot de passe</label>
+            <input
+              type="password"
+              autoComplete={needsSetup ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+
+          {needsSetup && (
+            <div className="space-y-2">
+              <label className="text-sm text-gray-400">Confirmer le mot de passe</label>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+              />
+              <p className="text-xs text-gray-500">8 caractères minimum.</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || !username || !password}
+            className={`w-full py-3 rounded-lg font-medium transition-colors ${
+              isSubmitting || !username || !password
+                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 text-white'
+            }`}
+          >
+            {isSubmitting ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 size={16} className="animate-spin" />
+                Connexion...
+              </span>
+            ) : needsSetup ? (
+              'Créer le compte'
+            ) : (
+              'Se connecter'
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
 export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
+  const { isAuthenticated } = useSessionStore();
+
+  if (!isOpen) return null;
+
+  // Dashboard account first, then Freebox app registration/session
+  if (!isAuthenticated) {
+    return <DashboardLoginStep />;
+  }
+
+  return <FreeboxConnectStep />;
+};
+
+// Freebox app registration (one-time validation on the LCD) and session opening
+const FreeboxConnectStep: React.FC = () => {
   const {
     isRegistered,
     isRegistering,
@@ -56,6 +193,10 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
     resetToken
   } = useAuthStore();
 
+  // Registering the app or changing the Freebox address is reserved to dashboard admins
+  const { isAdmin } = useSessionStore();
+  const canManageApp = isAdmin();
+
   // Determine initial state based on saved URL
   const savedIsLocalIp = isLocalIpUrl(freeboxUrl);
   const [urlInput, setUrlInput] = useState(savedIsLocalIp ? 'https://mafreebox.freebox.fr' : freeboxUrl);
@@ -63,11 +204,11 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
   const [localIp, setLocalIp] = useState(savedIsLocalIp ? extractIpFromUrl(freeboxUrl) : '192.168.1.254');
   const [isResetting, setIsResetting] = useState(false);
 
-  if (!isOpen) return null;
-
   const handleConnect = async () => {
-    const url = useLocalIp ? `http://${localIp}` : urlInput;
-    await setFreeboxUrl(url);
+    if (canManageApp) {
+      const url = useLocalIp ? `http://${localIp}` : urlInput;
+      await setFreeboxUrl(url);
+    }
 
     if (isRegistered) {
       await login();
@@ -113,7 +254,8 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
     }
   };
 
-  const showResetButton = isAuthTokenError(error);
+  const showResetButton = canManageApp && isAuthTokenError(error);
+  const isBlocked = !canManageApp && !isRegistered;
 
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -166,54 +308,64 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
             </div>
           )}
 
-          {/* URL Selection */}
-          <div className="space-y-3">
-            <label className="text-sm text-gray-400">Adresse de la Freebox</label>
-
-            {/* Tabs for URL type */}
-            <div className="flex gap-2">
-              <button
-                onClick={() => setUseLocalIp(false)}
-                className={`flex-1 py-2 px-3 rounded-lg text-sm transition-colors ${
-                  !useLocalIp
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-[#1a1a1a] text-gray-400 hover:bg-[#252525]'
-                }`}
-              >
-                <Wifi size={14} className="inline mr-2" />
-                mafreebox.freebox.fr
-              </button>
-              <button
-                onClick={() => setUseLocalIp(true)}
-                className={`flex-1 py-2 px-3 rounded-lg text-sm transition-colors ${
-                  useLocalIp
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-[#1a1a1a] text-gray-400 hover:bg-[#252525]'
-                }`}
-              >
-                IP Locale
-              </button>
+          {/* Non-admins can only reuse an existing registration */}
+          {isBlocked && (
+            <div className="p-3 bg-amber-900/20 border border-amber-700/50 rounded-lg flex items-center gap-2 text-amber-400 text-sm">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              L'application n'est pas encore enregistrée sur la Freebox. Contactez un administrateur du dashboard.
             </div>
+          )}
 
-            {/* URL/IP Input */}
-            {useLocalIp ? (
-              <input
-                type="text"
-                value={localIp}
-                onChange={(e) => setLocalIp(e.target.value)}
-                placeholder="192.168.1.254"
-                className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
-              />
-            ) : (
-              <input
-                type="text"
-                value={urlInput}
-                onChange={(e) => setUrlInput(e.target.value)}
-                placeholder="https://mafreebox.freebox.fr"
-                className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
-              />
-            )}
-          </div>
+          {/* URL Selection */}
+          {canManageApp && (
+            <div className="space-y-3">
+              <label className="text-sm text-gray-400">Adresse de la Freebox</label>
+
+              {/* Tabs for URL type */}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setUseLocalIp(false)}
+                  className={`flex-1 py-2 px-3 rounded-lg text-sm transition-colors ${
+                    !useLocalIp
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-[#1a1a1a] text-gray-400 hover:bg-[#252525]'
+                  }`}
+                >
+                  <Wifi size={14} className="inline mr-2" />
+                  mafreebox.freebox.fr
+                </button>
+                <button
+                  onClick={() => setUseLocalIp(true)}
+                  className={`flex-1 py-2 px-3 rounded-lg text-sm transition-colors ${
+                    useLocalIp
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-[#1a1a1a] text-gray-400 hover:bg-[#252525]'
+                  }`}
+                >
+                  IP Locale
+                </button>
+              </div>
+
+              {/* URL/IP Input */}
+              {useLocalIp ? (
+                <input
+                  type="text"
+                  value={localIp}
+                  onChange={(e) => setLocalIp(e.target.value)}
+                  placeholder="192.168.1.254"
+                  className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={urlInput}
+                  onChange={(e) => setUrlInput(e.target.value)}
+                  placeholder="https://mafreebox.freebox.fr"
+                  className="w-full px-4 py-3 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-blue-500 focus:outline-none"
+                />
+              )}
+            </div>
+          )}
 
           {/* Registration status */}
           {isRegistering && (
@@ -233,9 +385,9 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen }) => {
           {/* Connect button */}
           <button
             onClick={handleConnect}
-            disabled={(isRegistering && registrationStatus === 'pending') || isLoading || isResetting}
+            disabled={(isRegistering && registrationStatus === 'pending') || isLoading || isResetting || isBlocked}
             className={`w-full py-3 rounded-lg font-medium transition-colors ${
-              (isRegistering && registrationStatus === 'pending') || isLoading || isResetting
+              (isRegistering && registrationStatus === 'pending') || isLoading || isResetting || isBlocked
                 ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700 text-white'
             }`}
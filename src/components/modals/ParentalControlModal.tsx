@@ -23,6 +23,12 @@ import {
 import { api } from '../../api/client';
 import { API_ROUTES } from '../../utils/constants';
 import type { Device } from '../../types';
+import type {
+  NetworkControl,
+  NetworkControlRule,
+  ParentalAccessMode as AccessMode,
+  ParentalProfile as Profile
+} from '../../types/api';
 
 interface ParentalControlModalProps {
   isOpen: boolean;
@@ -30,43 +36,6 @@ interface ParentalControlModalProps {
   devices?: Device[];
 }
 
-// Network access mode types
-type AccessMode = 'allowed' | 'denied' | 'webonly';
-
-// Profile from API
-interface Profile {
-  id: number;
-  name: string;
-  url?: string;
-}
-
-// Network Control from API
-interface NetworkControl {
-  profile_id: number;
-  next_change: number;
-  override: boolean;
-  override_mode: AccessMode;
-  override_until: number;
-  current_mode: AccessMode;
-  rule_mode: AccessMode;
-  macs: string[];
-  hosts: string[];
-  resolution: number;
-  cdayranges: string[];
-}
-
-// Network Control Rule from API
-interface NetworkControlRule {
-  id: number;
-  profile_id: number;
-  name: string;
-  mode: AccessMode;
-  start_time: number;
-  end_time: number;
-  weekdays: boolean[];
-  enabled: boolean;
-}
-
 export const ParentalControlModal: React.FC<ParentalControlModalProps> = ({
   isOpen,
   onClose,
@@ -0,0 +1,611 @@
+import React, { useState, useEffect } from 'react';
+import { X, Clock, Loader2, AlertTriangle, Save, Calendar, Settings, Power, History, Zap } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { useLanStore } from '../../stores/lanStore';
+import type {
+  ScheduledJob,
+  ScheduledAction,
+  ScheduledActionType,
+  ParentalAccessMode,
+  WifiBss,
+  VirtualMachine
+} from '../../types/api';
+
+interface ScheduledJobModalProps {
+  isOpen: boolean;
+  // null to create a new job
+  job: ScheduledJob | null;
+  onClose: () => void;
+  onSaved: (job: ScheduledJob) => void;
+}
+
+type TriggerMode = 'simple' | 'advanced' | 'once';
+
+const DAYS = [
+  { value: 1, label: 'Lundi' },
+  { value: 2, label: 'Mardi' },
+  { value: 3, label: 'Mercredi' },
+  { value: 4, label: 'Jeudi' },
+  { value: 5, label: 'Vendredi' },
+  { value: 6, label: 'Samedi' },
+  { value: 0, label: 'Dimanche' },
+];
+
+export const ACTION_LABELS: Record<ScheduledActionType, string> = {
+  reboot: 'Redémarrer la Freebox',
+  wifi: 'WiFi (toutes les bandes)',
+  wifi_bss: 'Réseau WiFi (SSID)',
+  wifi_temp_disable: 'Couper le WiFi temporairement',
+  vm: 'Machine virtuelle',
+  downloads: 'Téléchargements',
+  parental_pause: 'Pause contrôle parental',
+  wol: 'Wake on LAN'
+};
+
+const PARENTAL_MODE_LABELS: Record<ParentalAccessMode, string> = {
+  denied: 'Bloquer l\'accès',
+  webonly: 'Web uniquement',
+  allowed: 'Autoriser l\'accès'
+};
+
+// Default parameters when switching action type
+const DEFAULT_ACTIONS: Record<ScheduledActionType, ScheduledAction> = {
+  reboot: { type: 'reboot' },
+  wifi: { type: 'wifi', enabled: false },
+  wifi_bss: { type: 'wifi_bss', bssId: '', enabled: false },
+  wifi_temp_disable: { type: 'wifi_temp_disable', duration: 3600 },
+  vm: { type: 'vm', vmId: 0, running: true },
+  downloads: { type: 'downloads', paused: true },
+  parental_pause: { type: 'parental_pause', profileId: 0, mode: 'denied', duration: 60 },
+  wol: { type: 'wol', mac: '' }
+};
+
+// One-line summary of an action for the job list
+export const describeAction = (action: ScheduledAction): string => {
+  switch (action.type) {
+    case 'reboot':
+      return 'Redémarrage';
+    case 'wifi':
+      return action.enabled ? 'Activer le WiFi' : 'Désactiver le WiFi';
+    case 'wifi_bss':
+      return `${action.enabled ? 'Activer' : 'Désactiver'} le SSID ${action.bssId}`;
+    case 'wifi_temp_disable':
+      return action.duration > 0 ? `Couper le WiFi ${Math.round(action.duration / 60)} min` : 'Annuler la coupure WiFi';
+    case 'vm':
+      return `${action.running ? 'Démarrer' : 'Arrêter'} la VM #${action.vmId}`;
+    case 'downloads':
+      return action.paused ? 'Suspendre les téléchargements' : 'Reprendre les téléchargements';
+    case 'parental_pause':
+      return action.duration > 0
+        ? `${PARENTAL_MODE_LABELS[action.mode]} (profil #${action.profileId}, ${action.duration} min)`
+        : `Reprendre le planning du profil #${action.profileId}`;
+    case 'wol':
+      return `Réveiller ${action.mac}`;
+  }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Value of a datetime-local input, in browser local time
+const toLocalInput = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// "M H * * d1,d2" expressions can be edited with the time and days picker
+const SIMPLE_CRON = /^(\d{1,2}) (\d{1,2}) \* \* (\*|[0-6](?:,[0-6])*)$/;
+
+const inputClass = 'w-full px-4 py-3 bg-[#1a1a1a] border border-gray-800 rounded-xl text-white focus:outline-none focus:border-blue-500 transition-colors';
+
+export const ScheduledJobModal: React.FC<ScheduledJobModalProps> = ({
+  isOpen,
+  job,
+  onClose,
+  onSaved
+}) => {
+  const { devices, fetchDevices } = useLanStore();
+
+  const [name, setName] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [catchUp, setCatchUp] = useState(false);
+  const [action, setAction] = useState<ScheduledAction>(DEFAULT_ACTIONS.reboot);
+  const [mode, setMode] = useState<TriggerMode>('simple');
+  const [time, setTime] = useState('03:00');
+  const [days, setDays] = useState<number[]>([]);
+  const [expression, setExpression] = useState('0 3 * * *');
+  const [onceAt, setOnceAt] = useState('');
+
+  // Targets offered by the action pickers
+  const [bssList, setBssList] = useState<WifiBss[]>([]);
+  const [vms, setVms] = useState<VirtualMachine[]>([]);
+  const [profiles, setProfiles] = useState<Array<{ id: number; name: string }>>([]);
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      resetForm();
+      loadTargets();
+    }
+  }, [isOpen, job]);
+
+  const resetForm = () => {
+    setError(null);
+    setName(job?.name ?? '');
+    setEnabled(job?.enabled ?? true);
+    setCatchUp(job?.catchUp ?? false);
+    setAction(job?.action ?? DEFAULT_ACTIONS.reboot);
+    setOnceAt(toLocalInput(job?.trigger.type === 'once' ? job.trigger.at : Date.now() + 60 * 60 * 1000));
+
+    const cronExpression = job?.trigger.type === 'cron' ? job.trigger.expression : '0 3 * * *';
+    setExpression(cronExpression);
+    if (job?.trigger.type === 'once') {
+      setMode('once');
+      return;
+    }
+
+    // Derive simple params, fall back to the raw expression otherwise
+    const match = cronExpression.match(SIMPLE_CRON);
+    if (match) {
+      setMode('simple');
+      setTime(`${pad(Number(match[2]))}:${pad(Number(match[1]))}`);
+      setDays(match[3] === '*' ? DAYS.map(d => d.value) : match[3].split(',').map(Number));
+    } else {
+      setMode('advanced');
+      setTime('03:00');
+      setDays([]);
+    }
+  };
+
+  const loadTargets = async () => {
+    setLoading(true);
+    const [bssRes, vmRes, profilesRes] = await Promise.all([
+      api.get<WifiBss[]>(API_ROUTES.WIFI_BSS),
+      api.get<VirtualMachine[]>(API_ROUTES.VM),
+      api.get<Array<{ id: number; name: string }>>(API_ROUTES.PROFILES)
+    ]);
+    if (bssRes.success && bssRes.result) setBssList(bssRes.result);
+    if (vmRes.success && vmRes.result) setVms(vmRes.result);
+    if (profilesRes.success && profilesRes.result) setProfiles(profilesRes.result);
+    if (devices.length === 0) await fetchDevices();
+    setLoading(false);
+  };
+
+  const changeActionType = (type: ScheduledActionType) => {
+    const next = { ...DEFAULT_ACTIONS[type] };
+    // Preselect the first target so the form is valid right away
+    if (next.type === 'wifi_bss' && bssList[0]) next.bssId = bssList[0].id;
+    if (next.type === 'vm' && vms[0]) next.vmId = vms[0].id;
+    if (next.type === 'parental_pause' && profiles[0]) next.profileId = profiles[0].id;
+    setAction(next);
+    if (!name.trim() || Object.values(ACTION_LABELS).includes(name)) setName(ACTION_LABELS[type]);
+  };
+
+  // Switching to advanced keeps what was picked in simple mode
+  const changeMode = (next: TriggerMode) => {
+    if (next === 'advanced' && mode === 'simple' && days.length > 0) setExpression(buildSimpleExpression());
+    setMode(next);
+  };
+
+  const buildSimpleExpression = (): string => {
+    const [hour, minute] = time.split(':').map(Number);
+    const dayList = days.length === DAYS.length ? '*' : [...days].sort().join(',');
+    return `${minute} ${hour} * * ${dayList}`;
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(prev =>
+      prev.includes(day)
+        ? prev.filter(d => d !== day)
+        : [...prev, day]
+    );
+  };
+
+  const handleSave = async () => {
+    if (mode === 'simple' && days.length === 0) {
+      setError('Sélectionnez au moins un jour');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      name: name.trim(),
+      enabled,
+      catchUp,
+      action,
+      trigger: mode === 'once'
+        ? { type: 'once' as const, at: new Date(onceAt).getTime() }
+        : { type: 'cron' as const, expression: mode === 'simple' ? buildSimpleExpression() : expression.trim() }
+    };
+
+    const response = job
+      ? await api.put<ScheduledJob>(`${API_ROUTES.SCHEDULER_JOBS}/${job.id}`, payload)
+      : await api.post<ScheduledJob>(API_ROUTES.SCHEDULER_JOBS, payload);
+
+    setSaving(false);
+    if (response.success && response.result) {
+      onSaved(response.result);
+    } else {
+      setError(response.error?.message || 'Erreur lors de l\'enregistrement');
+    }
+  };
+
+  const renderActionParams = () => {
+    switch (action.type) {
+      case 'wifi':
+      case 'downloads':
+      case 'vm':
+      case 'wifi_bss': {
+        const labels = action.type === 'downloads'
+          ? ['Suspendre', 'Reprendre']
+          : action.type === 'vm' ? ['Démarrer', 'Arrêter'] : ['Activer', 'Désactiver'];
+        const on = action.type === 'downloads' ? action.paused : action.type === 'vm' ? action.running : action.enabled;
+        const setOn = (value: boolean) => {
+          if (action.type === 'downloads') setAction({ ...action, paused: value });
+          else if (action.type === 'vm') setAction({ ...action, running: value });
+          else setAction({ ...action, enabled: value });
+        };
+
+        return (
+          <div className="space-y-3">
+            {action.type === 'wifi_bss' && (
+              <select
+                value={action.bssId}
+                onChange={(e) => setAction({ ...action, bssId: e.target.value })}
+                className={inputClass}
+              >
+                {bssList.length === 0 && <option value="">Aucun réseau WiFi</option>}
+                {bssList.map(bss => (
+                  <option key={bss.id} value={bss.id}>{bss.config.ssid} ({bss.id})</option>
+                ))}
+              </select>
+            )}
+            {action.type === 'vm' && (
+              <select
+                value={action.vmId}
+                onChange={(e) => setAction({ ...action, vmId: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {vms.length === 0 && <option value={0}>Aucune machine virtuelle</option>}
+                {vms.map(vm => <option key={vm.id} value={vm.id}>{vm.name}</option>)}
+              </select>
+            )}
+            <div className="flex gap-2">
+              {[true, false].map((value, index) => (
+                <button
+                  key={String(value)}
+                  onClick={() => setOn(value)}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    on === value ? 'bg-blue-600 text-white' : 'bg-[#1a1a1a] text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {labels[index]}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      }
+
+      case 'wifi_temp_disable':
+        return (
+          <div className="space-y-2">
+            <label className="text-xs text-gray-500">Durée de la coupure (minutes, 0 pour annuler une coupure en cours)</label>
+            <input
+              type="number"
+              min={0}
+              value={Math.round(action.duration / 60)}
+              onChange={(e) => setAction({ ...action, duration: Math.max(0, Number(e.target.value)) * 60 })}
+              className={inputClass}
+            />
+          </div>
+        );
+
+      case 'parental_pause':
+        return (
+          <div className="space-y-3">
+            <select
+              value={action.profileId}
+              onChange={(e) => setAction({ ...action, profileId: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {profiles.length === 0 && <option value={0}>Aucun profil</option>}
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={action.mode}
+                onChange={(e) => setAction({ ...action, mode: e.target.value as ParentalAccessMode })}
+                className={inputClass}
+              >
+                {(Object.keys(PARENTAL_MODE_LABELS) as ParentalAccessMode[]).map(m => (
+                  <option key={m} value={m}>{PARENTAL_MODE_LABELS[m]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={action.duration}
+                onChange={(e) => setAction({ ...action, duration: Math.max(0, Number(e.target.value)) })}
+                title="Durée en minutes, 0 pour revenir au planning du profil"
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-gray-500">Durée en minutes, 0 pour revenir au planning du profil.</p>
+          </div>
+        );
+
+      case 'wol': {
+        const known = devices.filter(d => d.mac);
+        return (
+          <div className="space-y-3">
+            {known.length > 0 && (
+              <select
+                value={known.some(d => d.mac === action.mac) ? action.mac : ''}
+                onChange={(e) => e.target.value && setAction({ ...action, mac: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Choisir un appareil…</option>
+                {known.map(device => (
+                  <option key={device.id} value={device.mac}>{device.name} ({device.mac})</option>
+                ))}
+              </select>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={action.mac}
+                onChange={(e) => setAction({ ...action, mac: e.target.value })}
+                placeholder="AA:BB:CC:DD:EE:FF"
+                className={`${inputClass} font-mono`}
+              />
+              <input
+                type="text"
+                value={action.password ?? ''}
+                onChange={(e) => setAction({ ...action, password: e.target.value || undefined })}
+                placeholder="Mot de passe (optionnel)"
+                className={inputClass}
+              />
+            </div>
+          </div>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-[#151515] w-full max-w-lg rounded-2xl border border-gray-800 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-800 bg-[#1a1a1a]">
+          <div>
+            <h2 className="text-xl font-bold text-white">{job ? 'Modifier la tâche' : 'Nouvelle tâche planifiée'}</h2>
+            <p className="text-sm text-gray-500 mt-1">Action exécutée automatiquement par le serveur du dashboard</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="animate-spin text-blue-500" size={32} />
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-400 text-sm flex items-center gap-2">
+                  <AlertTriangle size={16} />
+                  {error}
+                </div>
+              )}
+
+              {/* Name and action */}
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Nom de la tâche"
+                  className={inputClass}
+                />
+                <label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                  <Zap size={16} />
+                  Action
+                </label>
+                <select
+                  value={action.type}
+                  onChange={(e) => changeActionType(e.target.value as ScheduledActionType)}
+                  className={inputClass}
+                >
+                  {(Object.keys(ACTION_LABELS) as ScheduledActionType[]).map(type => (
+                    <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+                  ))}
+                </select>
+                {renderActionParams()}
+              </div>
+
+              {/* Main Controls */}
+              <div className="flex flex-col gap-4">
+                {/* Enable Toggle */}
+                <div className="flex items-center justify-between p-4 bg-[#1a1a1a] rounded-xl border border-gray-800">
+                  <div className="flex items-center gap-3">
+                    <Power size={20} className={enabled ? "text-emerald-400" : "text-gray-500"} />
+                    <span className="text-white font-medium">Activer la tâche</span>
+                  </div>
+                  <button
+                    onClick={() => setEnabled(!enabled)}
+                    className={`relative w-12 h-6 rounded-full transition-colors ${
+                      enabled ? 'bg-emerald-500' : 'bg-gray-700'
+                    }`}
+                  >
+                    <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                      enabled ? 'translate-x-6' : 'translate-x-0'
+                    }`} />
+                  </button>
+                </div>
+
+                {/* Catch-up Toggle */}
+                <div className="flex items-center justify-between p-4 bg-[#1a1a1a] rounded-xl border border-gray-800">
+                  <div className="flex items-center gap-3">
+                    <History size={20} className={catchUp ? "text-blue-400" : "text-gray-500"} />
+                    <div>
+                      <span className="text-white font-medium block">Rattraper les exécutions manquées</span>
+                      <span className="text-xs text-gray-500">Au redémarrage du serveur, si l'heure prévue est passée</span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setCatchUp(!catchUp)}
+                    className={`relative w-12 h-6 rounded-full transition-colors ${
+                      catchUp ? 'bg-blue-600' : 'bg-gray-700'
+                    }`}
+                  >
+                    <div className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full transition-transform ${
+                      catchUp ? 'translate-x-6' : 'translate-x-0'
+                    }`} />
+                  </button>
+                </div>
+              </div>
+
+              {/* Trigger mode */}
+              <div className="flex gap-1 p-1 bg-[#1a1a1a] rounded-xl border border-gray-800">
+                {([
+                  { id: 'simple', label: 'Hebdomadaire', icon: Calendar },
+                  { id: 'advanced', label: 'Cron', icon: Settings },
+                  { id: 'once', label: 'Une fois', icon: Clock }
+                ] as const).map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => changeMode(id)}
+                    className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                      mode === id ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300'
+                    }`}
+                  >
+                    <Icon size={14} />
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Simple Mode UI */}
+              {mode === 'simple' && (
+                <div className="space-y-6 animate-in fade-in slide-in-from-top-4 duration-300">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                      <Clock size={16} />
+                      Heure d'exécution
+                    </label>
+                    <input
+                      type="time"
+                      value={time}
+                      onChange={(e) => setTime(e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                      <Calendar size={16} />
+                      Jours d'exécution
+                    </label>
+                    <div className="flex justify-between gap-1">
+                      {DAYS.map((day) => (
+                        <button
+                          key={day.value}
+                          onClick={() => toggleDay(day.value)}
+                          className={`flex-1 aspect-square flex items-center justify-center rounded-lg text-sm font-medium transition-all ${
+                            days.includes(day.value)
+                              ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                              : 'bg-[#1a1a1a] text-gray-500 hover:bg-[#252525] hover:text-gray-300'
+                          }`}
+                          title={day.label}
+                        >
+                          {day.label[0]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Advanced Mode UI */}
+              {mode === 'advanced' && (
+                <div className="space-y-2 animate-in fade-in slide-in-from-top-4 duration-300">
+                  <label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                    <Settings size={16} />
+                    Expression cron
+                  </label>
+                  <input
+                    type="text"
+                    value={expression}
+                    onChange={(e) => setExpression(e.target.value)}
+                    placeholder="0 3 * * 1-5"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <p className="text-xs text-gray-500">
+                    minute heure jour mois jour-de-semaine (ex : <code className="text-gray-400">30 22 * * 0-4</code> à 22h30 du dimanche au jeudi)
+                  </p>
+                </div>
+              )}
+
+              {/* One-shot UI */}
+              {mode === 'once' && (
+                <div className="space-y-2 animate-in fade-in slide-in-from-top-4 duration-300">
+                  <label className="text-sm font-medium text-gray-400 flex items-center gap-2">
+                    <Clock size={16} />
+                    Date d'exécution
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={onceAt}
+                    onChange={(e) => setOnceAt(e.target.value)}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500">La tâche est désactivée une fois exécutée.</p>
+                </div>
+              )}
+
+              {/* Info Box */}
+              <div className="p-4 bg-blue-900/20 border border-blue-700/50 rounded-lg">
+                <p className="text-xs text-blue-400">
+                  <strong>Note :</strong> Les tâches sont déclenchées par le serveur du dashboard, à l'heure du serveur. Le dashboard doit être en cours d'exécution au moment prévu.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-gray-800 bg-[#1a1a1a]">
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-600/50 text-white rounded-xl font-medium transition-colors flex items-center justify-center gap-2 shadow-lg shadow-blue-900/20"
+          >
+            {saving ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <Save size={18} />
+            )}
+            Enregistrer la tâche
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, Shield, Loader2, Plus, Trash2, Users, Server, Wifi, Eye, EyeOff, Copy, Check, AlertCircle, Download, RefreshCw, Power } from 'lucide-react';
 import { api } from '../../api/client';
+import { useBoxStore } from '../../stores/boxStore';
 
 interface VpnModalProps {
   isOpen: boolean;
@@ -180,7 +181,9 @@ export const VpnModal: React.FC<VpnModalProps> = ({ isOpen, onClose }) => {
 
   const downloadConfig = async (login: string, serverId: string) => {
     try {
-      window.open(`/api/settings/vpn/servers/${serverId}/download/${login}`, '_blank');
+      // Plain navigation: the box can't be sent as a header
+      const boxId = encodeURIComponent(useBoxStore.getState().currentBoxId);
+      window.open(`/api/settings/vpn/servers/${serverId}/download/${login}?box=${boxId}`, '_blank');
     } catch (err) {
       console.error('[VPN] Download config error:', err);
       setError('Erreur lors du téléchargement de la configuration');
@@ -0,0 +1,603 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Pencil, Loader2, AlertCircle, Check, X, Bell, BellOff, Send, Radio } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import type {
+  AlertRule,
+  AlertRuleType,
+  AlertSeverity,
+  AlertChannel,
+  AlertChannelType,
+  AlertEvent
+} from '../../types/api';
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  wan_down: 'Connexion Internet coupée',
+  metric_threshold: 'Seuil sur une métrique',
+  new_device: 'Nouvel appareil sur le réseau',
+  disk_usage: 'Espace disque',
+  download_error: 'Échec de téléchargement'
+};
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Avertissement',
+  critical: 'Critique'
+};
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: 'bg-blue-900/30 text-blue-400',
+  warning: 'bg-orange-900/30 text-orange-400',
+  critical: 'bg-red-900/30 text-red-400'
+};
+
+const RULE_TYPES = Object.keys(RULE_TYPE_LABELS) as AlertRuleType[];
+const SEVERITIES = Object.keys(SEVERITY_LABELS) as AlertSeverity[];
+
+type RuleDraft = Omit<AlertRule, 'id'>;
+
+const emptyRule = (): RuleDraft => ({
+  name: '',
+  type: 'metric_threshold',
+  enabled: true,
+  severity: 'warning',
+  metric: 'temp_cpum',
+  operator: 'above',
+  threshold: 80,
+  duration: 5,
+  hysteresis: 2,
+  cooldown: 60,
+  channels: ['log']
+});
+
+const inputClass = 'w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+// Short description of what a rule watches
+const describeRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case 'metric_threshold':
+      return `${rule.metric} ${rule.operator === 'below' ? '<' : '>'} ${rule.threshold} pendant ${rule.duration} min`;
+    case 'disk_usage':
+      return `Partition remplie à plus de ${rule.threshold} %`;
+    case 'wan_down':
+      return `Coupure de plus de ${rule.duration} min`;
+    default:
+      return RULE_TYPE_LABELS[rule.type];
+  }
+};
+
+const NumberField: React.FC<{
+  label: string;
+  value: number | undefined;
+  onChange: (value: number) => void;
+  hint?: string;
+}> = ({ label, value, onChange, hint }) => (
+  <label className="block text-xs text-gray-400">
+    {label}
+    <input
+      type="number"
+      value={value ?? ''}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={`${inputClass} mt-1`}
+    />
+    {hint && <span className="text-[11px] text-gray-600">{hint}</span>}
+  </label>
+);
+
+export const AlertsPanel: React.FC<{ readOnly?: boolean }> = ({ readOnly = false }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [channels, setChannels] = useState<AlertChannel[]>([]);
+  const [channelTypes, setChannelTypes] = useState<AlertChannelType[]>([]);
+  const [history, setHistory] = useState<AlertEvent[]>([]);
+  const [metrics, setMetrics] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Rule being edited ('new' for the creation form)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft>(emptyRule());
+
+  // Channel being edited ('new' for the creation form)
+  const [editingChannelId, setEditingChannelId] = useState<string | null>(null);
+  const [channelDraft, setChannelDraft] = useState<Omit<AlertChannel, 'id'>>({ name: '', type: 'ntfy', enabled: true, settings: {} });
+  const [testingChannel, setTestingChannel] = useState<string | null>(null);
+
+  const fetchAll = async () => {
+    setIsLoading(true);
+    const [rulesRes, channelsRes, typesRes, historyRes, metricsRes] = await Promise.all([
+      api.get<AlertRule[]>(API_ROUTES.ALERTS_RULES),
+      api.get<AlertChannel[]>(API_ROUTES.ALERTS_CHANNELS),
+      api.get<AlertChannelType[]>(API_ROUTES.ALERTS_CHANNEL_TYPES),
+      api.get<AlertEvent[]>(`${API_ROUTES.ALERTS_HISTORY}?limit=50`),
+      api.get<{ metrics: string[] }>(API_ROUTES.METRICS)
+    ]);
+    if (rulesRes.success && rulesRes.result) {
+      setRules(rulesRes.result);
+    } else {
+      setError(rulesRes.error?.message || 'Impossible de charger les alertes');
+    }
+    if (channelsRes.success && channelsRes.result) setChannels(channelsRes.result);
+    if (typesRes.success && typesRes.result) setChannelTypes(typesRes.result);
+    if (historyRes.success && historyRes.result) setHistory(historyRes.result);
+    if (metricsRes.success && metricsRes.result) setMetrics(metricsRes.result.metrics);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  // ==================== RULES ====================
+
+  const startEditingRule = (rule?: AlertRule) => {
+    setEditingRuleId(rule ? rule.id : 'new');
+    setRuleDraft(rule ? { ...rule, channels: [...rule.channels] } : emptyRule());
+  };
+
+  const handleSaveRule = async () => {
+    setError(null);
+    const response = editingRuleId === 'new'
+      ? await api.post<AlertRule>(API_ROUTES.ALERTS_RULES, ruleDraft)
+      : await api.put<AlertRule>(`${API_ROUTES.ALERTS_RULES}/${editingRuleId}`, ruleDraft);
+    if (response.success) {
+      showSuccess(editingRuleId === 'new' ? 'Règle créée' : 'Règle modifiée');
+      setEditingRuleId(null);
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de l\'enregistrement');
+    }
+  };
+
+  const handleToggleRule = async (rule: AlertRule) => {
+    const response = await api.put<AlertRule>(`${API_ROUTES.ALERTS_RULES}/${rule.id}`, { enabled: !rule.enabled });
+    if (response.success && response.result) {
+      setRules(rules.map(r => (r.id === rule.id ? response.result as AlertRule : r)));
+    } else {
+      setError(response.error?.message || 'Échec de la modification');
+    }
+  };
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Supprimer la règle "${rule.name}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.ALERTS_RULES}/${rule.id}`);
+    if (response.success) {
+      showSuccess('Règle supprimée');
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  const updateRuleDraft = (changes: Partial<RuleDraft>) => setRuleDraft({ ...ruleDraft, ...changes });
+
+  const toggleDraftChannel = (channelId: string) => {
+    const selected = ruleDraft.channels.includes(channelId);
+    updateRuleDraft({
+      channels: selected ? ruleDraft.channels.filter(c => c !== channelId) : [...ruleDraft.channels, channelId]
+    });
+  };
+
+  const renderRuleEditor = () => (
+    <div className="mt-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={ruleDraft.name}
+          onChange={(e) => updateRuleDraft({ name: e.target.value })}
+          placeholder="Nom de la règle"
+          className={inputClass}
+        />
+        <select
+          value={ruleDraft.type}
+          onChange={(e) => updateRuleDraft({ type: e.target.value as AlertRuleType })}
+          disabled={editingRuleId !== 'new'}
+          className={`${inputClass} disabled:opacity-60`}
+        >
+          {RULE_TYPES.map(type => (
+            <option key={type} value={type}>{RULE_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {ruleDraft.type === 'metric_threshold' && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="block text-xs text-gray-400">
+            Métrique
+            <input
+              type="text"
+              list="alert-metrics"
+              value={ruleDraft.metric ?? ''}
+              onChange={(e) => updateRuleDraft({ metric: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+            <datalist id="alert-metrics">
+              {metrics.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </label>
+          <label className="block text-xs text-gray-400">
+            Condition
+            <select
+              value={ruleDraft.operator ?? 'above'}
+              onChange={(e) => updateRuleDraft({ operator: e.target.value as 'above' | 'below' })}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="above">Au-dessus du seuil</option>
+              <option value="below">En dessous du seuil</option>
+            </select>
+          </label>
+          <NumberField label="Seuil" value={ruleDraft.threshold} onChange={(threshold) => updateRuleDraft({ threshold })} />
+        </div>
+      )}
+
+      {ruleDraft.type === 'disk_usage' && (
+        <NumberField label="Seuil d'occupation (%)" value={ruleDraft.threshold} onChange={(threshold) => updateRuleDraft({ threshold })} />
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <label className="block text-xs text-gray-400">
+          Sévérité
+          <select
+            value={ruleDraft.severity}
+            onChange={(e) => updateRuleDraft({ severity: e.target.value as AlertSeverity })}
+            className={`${inputClass} mt-1`}
+          >
+            {SEVERITIES.map(s => <option key={s} value={s}>{SEVERITY_LABELS[s]}</option>)}
+          </select>
+        </label>
+        {['wan_down', 'metric_threshold', 'disk_usage'].includes(ruleDraft.type) && (
+          <NumberField label="Durée (min)" value={ruleDraft.duration} onChange={(duration) => updateRuleDraft({ duration })} hint="Avant déclenchement" />
+        )}
+        {['metric_threshold', 'disk_usage'].includes(ruleDraft.type) && (
+          <NumberField label="Hystérésis" value={ruleDraft.hysteresis} onChange={(hysteresis) => updateRuleDraft({ hysteresis })} hint="Écart pour la résolution" />
+        )}
+        <NumberField label="Délai de répit (min)" value={ruleDraft.cooldown} onChange={(cooldown) => updateRuleDraft({ cooldown })} hint="Entre deux notifications" />
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 mb-1">Canaux de notification</p>
+        <div className="flex flex-wrap gap-2">
+          {channels.map(channel => (
+            <button
+              key={channel.id}
+              onClick={() => toggleDraftChannel(channel.id)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                ruleDraft.channels.includes(channel.id)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-[#252525] text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {channel.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingRuleId(null)}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          onClick={handleSaveRule}
+          disabled={!ruleDraft.name.trim()}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Enregistrer
+        </button>
+      </div>
+    </div>
+  );
+
+  // ==================== CHANNELS ====================
+
+  const startEditingChannel = (channel?: AlertChannel) => {
+    setEditingChannelId(channel ? channel.id : 'new');
+    setChannelDraft(channel
+      ? { name: channel.name, type: channel.type, enabled: channel.enabled, settings: { ...channel.settings } }
+      : { name: '', type: channelTypes.find(t => t.type !== 'log')?.type ?? 'log', enabled: true, settings: {} });
+  };
+
+  const handleSaveChannel = async () => {
+    setError(null);
+    const response = editingChannelId === 'new'
+      ? await api.post<AlertChannel>(API_ROUTES.ALERTS_CHANNELS, channelDraft)
+      : await api.put<AlertChannel>(`${API_ROUTES.ALERTS_CHANNELS}/${editingChannelId}`, channelDraft);
+    if (response.success) {
+      showSuccess(editingChannelId === 'new' ? 'Canal créé' : 'Canal modifié');
+      setEditingChannelId(null);
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de l\'enregistrement');
+    }
+  };
+
+  const handleDeleteChannel = async (channel: AlertChannel) => {
+    if (!confirm(`Supprimer le canal "${channel.name}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.ALERTS_CHANNELS}/${channel.id}`);
+    if (response.success) {
+      showSuccess('Canal supprimé');
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  const handleTestChannel = async (channel: AlertChannel) => {
+    setError(null);
+    setTestingChannel(channel.id);
+    const response = await api.post(`${API_ROUTES.ALERTS_CHANNELS}/${channel.id}/test`);
+    setTestingChannel(null);
+    if (response.success) {
+      showSuccess(`Notification de test envoyée via "${channel.name}"`);
+    } else {
+      setError(response.error?.message || 'Échec de l\'envoi');
+    }
+  };
+
+  const renderChannelEditor = () => {
+    const driver = channelTypes.find(t => t.type === channelDraft.type);
+    return (
+      <div className="mt-3 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={channelDraft.name}
+            onChange={(e) => setChannelDraft({ ...channelDraft, name: e.target.value })}
+            placeholder="Nom du canal"
+            className={inputClass}
+          />
+          <select
+            value={channelDraft.type}
+            onChange={(e) => setChannelDraft({ ...channelDraft, type: e.target.value, settings: {} })}
+            disabled={editingChannelId !== 'new'}
+            className={`${inputClass} disabled:opacity-60`}
+          >
+            {channelTypes.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+          </select>
+        </div>
+        {driver?.settings.map(setting => (
+          <label key={setting.key} className="block text-xs text-gray-400">
+            {setting.label}
+            <input
+              type={setting.secret ? 'password' : 'text'}
+              value={channelDraft.settings[setting.key] ?? ''}
+              onChange={(e) => setChannelDraft({ ...channelDraft, settings: { ...channelDraft.settings, [setting.key]: e.target.value } })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setEditingChannelId(null)}
+            className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+          >
+            Annuler
+          </button>
+          <button
+            onClick={handleSaveChannel}
+            disabled={!channelDraft.name.trim()}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Enregistrer
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // ==================== HISTORY ====================
+
+  const handleClearHistory = async () => {
+    if (!confirm('Effacer l\'historique des alertes ?')) return;
+    const response = await api.delete(API_ROUTES.ALERTS_HISTORY);
+    if (response.success) {
+      setHistory([]);
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 size={24} className="text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Rules */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-white">Règles</h4>
+        {rules.map((rule) => (
+          <div key={rule.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => handleToggleRule(rule)}
+                disabled={readOnly}
+                className="p-2 bg-gray-800 rounded-lg disabled:cursor-default"
+                title={rule.enabled ? 'Désactiver' : 'Activer'}
+              >
+                {rule.enabled ? <Bell size={16} className="text-emerald-400" /> : <BellOff size={16} className="text-gray-500" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className={`text-sm font-medium ${rule.enabled ? 'text-white' : 'text-gray-500'}`}>{rule.name}</p>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] ${SEVERITY_COLORS[rule.severity]}`}>
+                    {SEVERITY_LABELS[rule.severity]}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">{describeRule(rule)}</p>
+              </div>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={() => (editingRuleId === rule.id ? setEditingRuleId(null) : startEditingRule(rule))}
+                    className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                    title="Modifier"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRule(rule)}
+                    className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+            {editingRuleId === rule.id && renderRuleEditor()}
+          </div>
+        ))}
+
+        {!readOnly && (
+          <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            {editingRuleId === 'new' ? (
+              <>
+                <h4 className="text-sm font-medium text-white">Nouvelle règle</h4>
+                {renderRuleEditor()}
+              </>
+            ) : (
+              <button
+                onClick={() => startEditingRule()}
+                className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                <Plus size={16} />
+                Créer une règle
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Channels */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-white">Canaux de notification</h4>
+        {channels.map((channel) => (
+          <div key={channel.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gray-800 rounded-lg">
+                <Radio size={16} className={channel.enabled ? 'text-gray-400' : 'text-gray-600'} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-white">{channel.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {channelTypes.find(t => t.type === channel.type)?.label ?? channel.type}
+                  {channel.settings.url ? ` · ${channel.settings.url}` : ''}
+                </p>
+              </div>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={() => handleTestChannel(channel)}
+                    disabled={testingChannel === channel.id}
+                    className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    title="Envoyer une notification de test"
+                  >
+                    {testingChannel === channel.id ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+                  </button>
+                  <button
+                    onClick={() => (editingChannelId === channel.id ? setEditingChannelId(null) : startEditingChannel(channel))}
+                    className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                    title="Modifier"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteChannel(channel)}
+                    className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+            {editingChannelId === channel.id && renderChannelEditor()}
+          </div>
+        ))}
+
+        {!readOnly && (
+          <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            {editingChannelId === 'new' ? (
+              <>
+                <h4 className="text-sm font-medium text-white">Nouveau canal</h4>
+                {renderChannelEditor()}
+              </>
+            ) : (
+              <button
+                onClick={() => startEditingChannel()}
+                className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                <Plus size={16} />
+                Ajouter un canal
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-white">Historique</h4>
+          {!readOnly && history.length > 0 && (
+            <button onClick={handleClearHistory} className="text-xs text-gray-500 hover:text-red-400 transition-colors">
+              Effacer
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-gray-500">Aucune alerte déclenchée</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {history.map(event => (
+              <div key={event.id} className="flex items-start gap-3 px-3 py-2 bg-[#1a1a1a] rounded-lg text-xs">
+                <span className={`mt-1 w-2 h-2 rounded-full flex-shrink-0 ${
+                  event.state === 'resolved' ? 'bg-green-500' : event.severity === 'critical' ? 'bg-red-500' : event.severity === 'warning' ? 'bg-orange-500' : 'bg-blue-500'
+                }`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-300">{event.message}</p>
+                  <p className="text-gray-600">
+                    {event.ruleName} · {new Date(event.timestamp * 1000).toLocaleString('fr-FR')}
+                    {event.state === 'firing' && event.delivered.length === 0 && ' · non notifiée'}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, AlertCircle, X, Search, Download, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import type { AuditEntry, AuditQueryResult } from '../../types/api';
+
+const PAGE_SIZE = 100;
+
+const METHOD_STYLES: Record<string, string> = {
+  POST: 'bg-emerald-900/30 text-emerald-400',
+  PUT: 'bg-blue-900/30 text-blue-400',
+  PATCH: 'bg-blue-900/30 text-blue-400',
+  DELETE: 'bg-red-900/30 text-red-400'
+};
+
+const inputClass = 'w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+interface Filters {
+  q: string;
+  user: string;
+  method: string;
+  result: '' | 'success' | 'failure';
+  // YYYY-MM-DD, local days
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { q: '', user: '', method: '', result: '', from: '', to: '' };
+
+// Query string shared by the list and the exports
+const toQuery = (filters: Filters, extra: Record<string, string | number> = {}): string => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.user.trim()) params.set('user', filters.user.trim());
+  if (filters.method) params.set('method', filters.method);
+  if (filters.result) params.set('result', filters.result);
+  if (filters.from) params.set('from', String(new Date(`${filters.from}T00:00:00`).getTime()));
+  if (filters.to) params.set('to', String(new Date(`${filters.to}T23:59:59.999`).getTime()));
+  Object.entries(extra).forEach(([key, value]) => params.set(key, String(value)));
+  return params.toString();
+};
+
+export const AuditLogPanel: React.FC = () => {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  // Free text applied after a short pause in typing
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = async (offset: number): Promise<AuditQueryResult | null> => {
+    const response = await api.get<AuditQueryResult>(`${API_ROUTES.AUDIT}?${toQuery(filters, { limit: PAGE_SIZE, offset })}`);
+    if (response.success && response.result) return response.result;
+    setError(response.error?.message || 'Impossible de charger le journal d\'audit');
+    return null;
+  };
+
+  const refresh = async () => {
+    setIsLoading(true);
+    const page = await fetchPage(0);
+    if (page) {
+      setEntries(page.entries);
+      setTotal(page.total);
+    }
+    setIsLoading(false);
+  };
+
+  const loadMore = async () => {
+    setIsLoadingMore(true);
+    const page = await fetchPage(entries.length);
+    if (page) {
+      setEntries([...entries, ...page.entries]);
+      setTotal(page.total);
+    }
+    setIsLoadingMore(false);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(current => (current.q === search ? current : { ...current, q: search })), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    refresh();
+  }, [filters]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters({ ...filters, [key]: value });
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    // Plain link: the browser saves the attachment
+    window.open(`${API_ROUTES.AUDIT_EXPORT}?${toQuery(filters, { format })}`, '_blank');
+  };
+
+  const hasFilters = search !== '' || JSON.stringify({ ...filters, q: '' }) !== JSON.stringify(EMPTY_FILTERS);
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+        <div className="relative md:col-span-2">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Route, IP, erreur, contenu..."
+            className={`${inputClass} pl-8`}
+          />
+        </div>
+        <input
+          type="text"
+          value={filters.user}
+          onChange={e => setFilter('user', e.target.value)}
+          placeholder="Utilisateur"
+          className={inputClass}
+        />
+        <select value={filters.method} onChange={e => setFilter('method', e.target.value)} className={inputClass}>
+          <option value="">Toutes méthodes</option>
+          {Object.keys(METHOD_STYLES).map(method => (
+            <option key={method} value={method}>{method}</option>
+          ))}
+        </select>
+        <select
+          value={filters.result}
+          onChange={e => setFilter('result', e.target.value as Filters['result'])}
+          className={inputClass}
+        >
+          <option value="">Tous résultats</option>
+          <option value="success">Réussis</option>
+          <option value="failure">Échecs</option>
+        </select>
+        <div className="flex gap-2">
+          <input type="date" value={filters.from} onChange={e => setFilter('from', e.target.value)} className={inputClass} title="Du" />
+          <input type="date" value={filters.to} onChange={e => setFilter('to', e.target.value)} className={inputClass} title="Au" />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          {total} action(s)
+          {hasFilters && (
+            <button
+              onClick={() => {
+                setSearch('');
+                setFilters(EMPTY_FILTERS);
+              }}
+              className="ml-2 text-blue-400 hover:text-blue-300"
+            >
+              Effacer les filtres
+            </button>
+          )}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={refresh}
+            className="p-1.5 hover:bg-gray-800 rounded text-gray-400 hover:text-white transition-colors"
+            title="Actualiser"
+          >
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs rounded-lg transition-colors"
+          >
+            <Download size={12} />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs rounded-lg transition-colors"
+          >
+            <Download size={12} />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {isLoading && entries.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 size={24} className="text-gray-500 animate-spin" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">Aucune action enregistrée</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(entry => {
+            const isExpanded = expanded === entry.id;
+            return (
+              <div key={entry.id} className="bg-[#1a1a1a] rounded-lg text-xs">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-left"
+                >
+                  {isExpanded ? <ChevronDown size={12} className="text-gray-500 flex-shrink-0" /> : <ChevronRight size={12} className="text-gray-500 flex-shrink-0" />}
+                  <span className="text-gray-500 flex-shrink-0 w-32">{new Date(entry.timestamp).toLocaleString('fr-FR')}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono flex-shrink-0 ${METHOD_STYLES[entry.method] ?? 'bg-gray-800 text-gray-400'}`}>
+                    {entry.method}
+                  </span>
+                  <span className="text-gray-300 font-mono truncate flex-1">{entry.route}</span>
+                  <span className="text-gray-400 flex-shrink-0 truncate max-w-[10rem]">{entry.user ?? entry.ip}</span>
+                  <span className={`flex-shrink-0 ${entry.success ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {entry.success ? 'OK' : entry.errorCode || `HTTP ${entry.status}`}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-3 pl-9 space-y-1 text-gray-400">
+                    <p>
+                      IP {entry.ip}
+                      {entry.boxId && ` · Freebox ${entry.boxId}`}
+                      {` · HTTP ${entry.status} · ${entry.duration} ms`}
+                    </p>
+                    {entry.message && <p className={entry.success ? 'text-gray-300' : 'text-red-400'}>{entry.message}</p>}
+                    {entry.payload !== null && (
+                      <pre className="p-2 bg-[#0f0f0f] rounded text-[11px] text-gray-300 overflow-x-auto whitespace-pre-wrap break-all">
+                        {JSON.stringify(entry.payload, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {entries.length < total && (
+            <button
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              className="w-full flex items-center justify-center gap-2 py-2 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            >
+              {isLoadingMore && <Loader2 size={12} className="animate-spin" />}
+              Afficher plus ({total - entries.length} restantes)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
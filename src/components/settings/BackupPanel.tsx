@@ -0,0 +1,358 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Upload, Loader2, AlertCircle, Check, X, RotateCcw, FileJson, Info } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { useBoxStore } from '../../stores/boxStore';
+import type { BackupArchive, BackupSectionInfo, RestoreChange, RestorePreview, RestoreResult } from '../../types/api';
+
+export const KIND_STYLES: Record<RestoreChange['kind'], string> = {
+  create: 'bg-emerald-900/30 text-emerald-400',
+  update: 'bg-blue-900/30 text-blue-400',
+  delete: 'bg-red-900/30 text-red-400'
+};
+
+export const KIND_LABELS: Record<RestoreChange['kind'], string> = {
+  create: 'Ajout',
+  update: 'Modification',
+  delete: 'Suppression'
+};
+
+const RESULT_STYLES: Record<RestoreResult['status'], string> = {
+  applied: 'text-emerald-400',
+  failed: 'text-red-400',
+  skipped: 'text-gray-500'
+};
+
+const RESULT_LABELS: Record<RestoreResult['status'], string> = {
+  applied: 'Appliqué',
+  failed: 'Échec',
+  skipped: 'Ignoré'
+};
+
+// Short inline form of a configuration value
+export const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+// Deletions are only applied when picked explicitly
+const defaultSelection = (changes: RestoreChange[]) =>
+  new Set(changes.filter(c => c.applicable && c.kind !== 'delete').map(c => c.id));
+
+export const BackupPanel: React.FC = () => {
+  const [sections, setSections] = useState<BackupSectionInfo[]>([]);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [results, setResults] = useState<Record<string, RestoreResult>>({});
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    api.get<BackupSectionInfo[]>(API_ROUTES.BACKUP_SECTIONS).then(response => {
+      if (response.success && response.result) setSections(response.result);
+    });
+  }, []);
+
+  const sectionLabel = (id: string) => sections.find(s => s.id === id)?.label ?? id;
+
+  const handleExport = () => {
+    // Plain link: the browser saves the attachment
+    const boxId = encodeURIComponent(useBoxStore.getState().currentBoxId);
+    window.open(`${API_ROUTES.BACKUP_EXPORT}?box=${boxId}`, '_blank');
+  };
+
+  const runPreview = async (source: BackupArchive) => {
+    setIsPreviewing(true);
+    setError(null);
+    const response = await api.post<RestorePreview>(API_ROUTES.BACKUP_PREVIEW, { archive: source });
+    setIsPreviewing(false);
+    if (response.success && response.result) {
+      setPreview(response.result);
+      setSelected(defaultSelection(response.result.changes));
+    } else {
+      setPreview(null);
+      setError(response.error?.message || 'Impossible de comparer la sauvegarde');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setResults({});
+    setSuccess(null);
+    try {
+      const parsed = JSON.parse(await file.text()) as BackupArchive;
+      setArchive(parsed);
+      setFileName(file.name);
+      await runPreview(parsed);
+    } catch {
+      setError('Fichier JSON illisible');
+    }
+  };
+
+  const toggleChange = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleSection = (changes: RestoreChange[]) => {
+    const applicable = changes.filter(c => c.applicable);
+    const allSelected = applicable.every(c => selected.has(c.id));
+    const next = new Set(selected);
+    applicable.forEach(c => (allSelected ? next.delete(c.id) : next.add(c.id)));
+    setSelected(next);
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !preview) return;
+    const deletions = preview.changes.filter(c => c.kind === 'delete' && selected.has(c.id)).length;
+    const message = deletions > 0
+      ? `Appliquer ${selected.size} modification(s) sur la Freebox, dont ${deletions} suppression(s) ?`
+      : `Appliquer ${selected.size} modification(s) sur la Freebox ?`;
+    if (!confirm(message)) return;
+
+    setIsRestoring(true);
+    setError(null);
+    const response = await api.post<RestoreResult[]>(API_ROUTES.BACKUP_RESTORE, { archive, changes: [...selected] });
+    setIsRestoring(false);
+    if (!response.success || !response.result) {
+      setError(response.error?.message || 'Échec de la restauration');
+      return;
+    }
+
+    const byId = Object.fromEntries(response.result.map(r => [r.id, r]));
+    setResults(byId);
+    const failed = response.result.filter(r => r.status === 'failed').length;
+    const applied = response.result.filter(r => r.status === 'applied').length;
+    if (failed > 0) {
+      setError(`${failed} modification(s) en échec, ${applied} appliquée(s)`);
+    } else {
+      setSuccess(`${applied} modification(s) appliquée(s)`);
+    }
+  };
+
+  const resetRestore = () => {
+    setArchive(null);
+    setFileName(null);
+    setPreview(null);
+    setResults({});
+    setSelected(new Set());
+  };
+
+  // Changes grouped by section, in restore order
+  const changes: RestoreChange[] = preview?.changes ?? [];
+  const groups = Array.from(new Set<string>(changes.map(c => c.section))).map(section => ({
+    section,
+    changes: changes.filter(c => c.section === section)
+  }));
+  const hasResults = Object.keys(results).length > 0;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-white">Sauvegarder la configuration</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              Fichier JSON de la Freebox sélectionnée. Il contient les clés WiFi et les secrets VPN : conservez-le en lieu sûr.
+            </p>
+          </div>
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors flex-shrink-0"
+          >
+            <Download size={16} />
+            Télécharger
+          </button>
+        </div>
+        {sections.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {sections.map(section => (
+              <span key={section.id} className="px-2 py-0.5 bg-[#1a1a1a] border border-gray-800 rounded text-[11px] text-gray-400">
+                {section.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Restore */}
+      <div className="space-y-3 pt-4 border-t border-gray-800">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-white">Restaurer une sauvegarde</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              La sauvegarde est d'abord comparée à la Freebox : rien n'est modifié avant validation des changements choisis.
+            </p>
+          </div>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={isPreviewing || isRestoring}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg transition-colors flex-shrink-0 disabled:opacity-50"
+          >
+            {isPreviewing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Choisir un fichier
+          </button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg text-xs">
+              <FileJson size={16} className="text-blue-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-300 truncate">{fileName}</p>
+                <p className="text-gray-500">
+                  {preview.box.name}{preview.box.model && ` (${preview.box.model})`}
+                  {' · '}sauvegardée le {new Date(preview.createdAt).toLocaleString('fr-FR')}
+                </p>
+              </div>
+              <button
+                onClick={() => archive && runPreview(archive)}
+                disabled={isPreviewing || isRestoring}
+                className="p-1.5 hover:bg-gray-800 rounded text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                title="Comparer à nouveau"
+              >
+                <RotateCcw size={14} />
+              </button>
+              <button
+                onClick={resetRestore}
+                className="p-1.5 hover:bg-gray-800 rounded text-gray-400 hover:text-white transition-colors"
+                title="Fermer"
+              >
+                <X size={14} />
+              </button>
+            </div>
+
+            {preview.changes.length === 0 ? (
+              <p className="text-sm text-gray-400">La Freebox est déjà conforme à la sauvegarde.</p>
+            ) : (
+              groups.map(({ section, changes }) => (
+                <div key={section} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <h5 className="text-xs font-medium text-gray-300">{sectionLabel(section)}</h5>
+                    {changes.some(c => c.applicable) && (
+                      <button onClick={() => toggleSection(changes)} className="text-[11px] text-blue-400 hover:text-blue-300">
+                        Tout (dé)sélectionner
+                      </button>
+                    )}
+                  </div>
+                  {changes.map(change => {
+                    const result = results[change.id];
+                    return (
+                      <label
+                        key={change.id}
+                        className={`flex items-start gap-3 px-3 py-2 bg-[#1a1a1a] rounded-lg text-xs ${change.applicable ? 'cursor-pointer' : 'opacity-60'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selected.has(change.id)}
+                          disabled={!change.applicable || isRestoring}
+                          onChange={() => toggleChange(change.id)}
+                          className="mt-0.5"
+                        />
+                        <div className="flex-1 min-w-0 space-y-0.5">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] flex-shrink-0 ${KIND_STYLES[change.kind]}`}>
+                              {KIND_LABELS[change.kind]}
+                            </span>
+                            <span className="text-gray-300 truncate">{change.label}</span>
+                            {result && (
+                              <span className={`ml-auto flex-shrink-0 ${RESULT_STYLES[result.status]}`}>
+                                {RESULT_LABELS[result.status]}
+                              </span>
+                            )}
+                          </div>
+                          {change.kind === 'update' && change.fields.map(field => (
+                            <p key={field} className="text-gray-500 font-mono break-all">
+                              {field} : {formatValue((change.before as Record<string, unknown> | null)?.[field])}
+                              {' → '}
+                              <span className="text-gray-300">{formatValue((change.after as Record<string, unknown> | null)?.[field])}</span>
+                            </p>
+                          ))}
+                          {change.note && (
+                            <p className="text-amber-400/80 flex items-center gap-1">
+                              <Info size={12} />
+                              {change.note}
+                            </p>
+                          )}
+                          {result?.error && <p className="text-red-400">{result.error}</p>}
+                          {result?.note && <p className="text-amber-300 font-mono break-all">{result.note}</p>}
+                        </div>
+                      </label>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+
+            {preview.skipped.length > 0 && (
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer hover:text-gray-300">{preview.skipped.length} section(s) non restaurable(s)</summary>
+                <ul className="mt-2 space-y-1 pl-4">
+                  {preview.skipped.map(item => (
+                    <li key={item.section}>
+                      <span className="text-gray-400">{sectionLabel(item.section)}</span> : {item.reason}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
+            {preview.changes.length > 0 && (
+              <div className="flex justify-end gap-2">
+                {hasResults && (
+                  <button
+                    onClick={() => archive && runPreview(archive).then(() => setResults({}))}
+                    className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+                  >
+                    Comparer à nouveau
+                  </button>
+                )}
+                <button
+                  onClick={handleRestore}
+                  disabled={selected.size === 0 || isRestoring}
+                  className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isRestoring && <Loader2 size={14} className="animate-spin" />}
+                  Appliquer {selected.size} modification(s)
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
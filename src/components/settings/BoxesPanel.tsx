@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Edit2, Loader2, AlertCircle, Check, X, Router } from 'lucide-react';
+import { useBoxStore } from '../../stores/boxStore';
+import type { BoxProfile } from '../../types/api';
+
+const getBoxState = (box: BoxProfile): string => {
+  if (box.isLoggedIn) return 'Connectée';
+  if (box.isRegistered) return 'Enregistrée, session fermée';
+  return 'Non enregistrée';
+};
+
+export const BoxesPanel: React.FC = () => {
+  const { boxes, currentBoxId, isLoading, error, fetchBoxes, selectBox, createBox, updateBox, deleteBox, clearError } = useBoxStore();
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // New box form
+  const [newName, setNewName] = useState('');
+  const [newUrl, setNewUrl] = useState('https://');
+
+  // Edition (one box at a time)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editUrl, setEditUrl] = useState('');
+
+  useEffect(() => {
+    fetchBoxes();
+  }, [fetchBoxes]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleCreate = async () => {
+    if (await createBox(newName, newUrl)) {
+      setNewName('');
+      setNewUrl('https://');
+      showSuccess('Freebox ajoutée : sélectionnez-la pour l\'enregistrer');
+    }
+  };
+
+  const startEdit = (box: BoxProfile) => {
+    setEditingId(box.id);
+    setEditName(box.name);
+    setEditUrl(box.url);
+  };
+
+  const handleUpdate = async (boxId: string) => {
+    if (await updateBox(boxId, { name: editName, url: editUrl })) {
+      setEditingId(null);
+      showSuccess('Freebox modifiée');
+    }
+  };
+
+  const handleDelete = async (box: BoxProfile) => {
+    if (!confirm(`Supprimer la Freebox "${box.name}" ? Son jeton d'application et sa planification seront effacés.`)) return;
+    if (await deleteBox(box.id)) {
+      showSuccess('Freebox supprimée');
+    }
+  };
+
+  const inputClassName = 'px-3 py-1.5 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={clearError}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Boxes list */}
+      {isLoading && boxes.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 size={24} className="text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {boxes.map((box) => (
+            <div key={box.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gray-800 rounded-lg">
+                  <Router size={16} className={box.isLoggedIn ? 'text-emerald-400' : 'text-gray-400'} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white">
+                    {box.name}
+                    {box.isDefault && <span className="ml-2 text-xs text-gray-500">(par défaut)</span>}
+                    {box.id === currentBoxId && <span className="ml-2 text-xs text-blue-400">(affichée)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {box.url} · {box.modelName ? `${box.modelName} · ` : ''}{getBoxState(box)}
+                  </p>
+                </div>
+                {box.id !== currentBoxId && (
+                  <button
+                    onClick={() => selectBox(box.id)}
+                    className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-white text-sm rounded-lg transition-colors"
+                  >
+                    Afficher
+                  </button>
+                )}
+                <button
+                  onClick={() => editingId === box.id ? setEditingId(null) : startEdit(box)}
+                  className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                  title="Modifier"
+                >
+                  <Edit2 size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(box)}
+                  disabled={box.isDefault}
+                  className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Supprimer"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {editingId === box.id && (
+                <div className="flex flex-col md:flex-row md:items-center gap-2 mt-3">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    placeholder="Nom"
+                    className={`md:w-48 ${inputClassName}`}
+                  />
+                  <input
+                    type="url"
+                    value={editUrl}
+                    onChange={(e) => setEditUrl(e.target.value)}
+                    placeholder="https://mafreebox.freebox.fr"
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                  <button
+                    onClick={() => handleUpdate(box.id)}
+                    disabled={!editName.trim() || !editUrl.trim()}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Valider
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New box */}
+      <div className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg space-y-3">
+        <p className="text-sm font-medium text-white">Ajouter une Freebox</p>
+        <div className="flex flex-col md:flex-row md:items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Nom (ex. Résidence secondaire)"
+            className={`md:w-48 ${inputClassName}`}
+          />
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            placeholder="https://xxxxxxxx.fbxos.fr:port"
+            className={`flex-1 ${inputClassName}`}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newName.trim() || newUrl.trim().length <= 'https://'.length}
+            className="flex items-center justify-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} />
+            Ajouter
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Chaque Freebox a son propre jeton d'application : après l'ajout, affichez-la puis validez l'enregistrement sur l'écran de la box.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, AlertCircle, Check, X, RefreshCw, Undo2, Cpu, History } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { KIND_LABELS, KIND_STYLES, formatValue } from './BackupPanel';
+import type { ConfigChangeEvent, ConfigHistoryStatus, RestoreChange, RestoreResult } from '../../types/api';
+
+const TRIGGER_LABELS: Record<ConfigChangeEvent['trigger'], string> = {
+  poll: 'Détecté automatiquement',
+  manual: 'Vérification manuelle',
+  revert: 'Après une annulation'
+};
+
+// "lundi 19 octobre 2026" heading of a group of events
+const dayOf = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+export const ConfigHistoryPanel: React.FC<{ readOnly?: boolean }> = ({ readOnly = false }) => {
+  const [status, setStatus] = useState<ConfigHistoryStatus | null>(null);
+  const [events, setEvents] = useState<ConfigChangeEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [sectionFilter, setSectionFilter] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchAll = async () => {
+    const [statusResponse, eventsResponse] = await Promise.all([
+      api.get<ConfigHistoryStatus>(API_ROUTES.CONFIG_HISTORY_STATUS),
+      api.get<ConfigChangeEvent[]>(API_ROUTES.CONFIG_HISTORY_EVENTS)
+    ]);
+    if (statusResponse.success && statusResponse.result) setStatus(statusResponse.result);
+    if (eventsResponse.success && eventsResponse.result) {
+      setEvents(eventsResponse.result);
+    } else {
+      setError(eventsResponse.error?.message || 'Impossible de charger l\'historique');
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setError(null);
+    const response = await api.post<ConfigChangeEvent | null>(API_ROUTES.CONFIG_HISTORY_CHECK);
+    setIsChecking(false);
+    if (!response.success) {
+      setError(response.error?.message || 'Vérification impossible');
+      return;
+    }
+    showSuccess(response.result ? `${response.result.changes.length} changement(s) détecté(s)` : 'Aucun changement depuis la dernière vérification');
+    await fetchAll();
+  };
+
+  const handleRevert = async (event: ConfigChangeEvent, change: RestoreChange) => {
+    if (!confirm(`Rétablir la valeur précédente de « ${change.label} » ?`)) return;
+
+    setRevertingId(`${event.id}/${change.id}`);
+    setError(null);
+    const response = await api.post<RestoreResult>(API_ROUTES.CONFIG_HISTORY_REVERT, { eventId: event.id, changeId: change.id });
+    setRevertingId(null);
+    if (!response.success || !response.result) {
+      setError(response.error?.message || 'Échec de l\'annulation');
+      return;
+    }
+
+    const result = response.result;
+    if (result.status === 'failed') {
+      setError(result.error || 'Échec de l\'annulation');
+    } else {
+      showSuccess(result.status === 'applied' ? 'Modification annulée' : result.note || 'Déjà à jour');
+    }
+    await fetchAll();
+  };
+
+  const sectionLabel = (id: string) => status?.sections.find(s => s.id === id)?.label ?? id;
+
+  const visible = events
+    .map(event => ({ ...event, changes: sectionFilter ? event.changes.filter(c => c.section === sectionFilter) : event.changes }))
+    .filter(event => event.changes.length > 0 || (!sectionFilter && event.firmware));
+
+  // Events grouped by day, newest first
+  const days: Array<{ day: string; events: ConfigChangeEvent[] }> = [];
+  visible.forEach(event => {
+    const day = dayOf(event.detectedAt);
+    const group = days.find(d => d.day === day);
+    if (group) {
+      group.events.push(event);
+    } else {
+      days.push({ day, events: [event] });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 size={24} className="text-gray-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Snapshot status */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-xs text-gray-500 space-y-0.5">
+          {status?.enabled ? (
+            <p>Instantané de la configuration toutes les {status.interval} min, tant que le serveur est connecté à la Freebox.</p>
+          ) : (
+            <p>Instantanés automatiques désactivés (CONFIG_HISTORY_ENABLED=false).</p>
+          )}
+          {status?.lastCheckAt && <p>Dernière vérification : {new Date(status.lastCheckAt).toLocaleString('fr-FR')}</p>}
+          {status?.lastError && <p className="text-amber-400">{status.lastError}</p>}
+        </div>
+        {!readOnly && (
+          <button
+            onClick={handleCheck}
+            disabled={isChecking}
+            className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm rounded-lg transition-colors flex-shrink-0 disabled:opacity-50"
+          >
+            <RefreshCw size={16} className={isChecking ? 'animate-spin' : ''} />
+            Vérifier maintenant
+          </button>
+        )}
+      </div>
+
+      {status && status.sections.length > 0 && (
+        <select
+          value={sectionFilter}
+          onChange={e => setSectionFilter(e.target.value)}
+          className="px-3 py-1.5 bg-[#1a1a1a] border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500"
+        >
+          <option value="">Toutes les sections</option>
+          {status.sections.map(section => (
+            <option key={section.id} value={section.id}>{section.label}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Timeline */}
+      {days.length === 0 ? (
+        <div className="flex flex-col items-center py-8 text-center">
+          <History size={32} className="text-gray-600 mb-2" />
+          <p className="text-sm text-gray-400">Aucun changement détecté</p>
+          <p className="text-xs text-gray-600 mt-1">
+            {status?.snapshots ? 'La configuration n\'a pas changé depuis le premier instantané.' : 'Le premier instantané sert de référence.'}
+          </p>
+        </div>
+      ) : (
+        days.map(({ day, events: dayEvents }) => (
+          <div key={day} className="space-y-2">
+            <h4 className="text-xs font-medium text-gray-400 capitalize">{day}</h4>
+            <div className="space-y-2 border-l border-gray-800 pl-4">
+              {dayEvents.map(event => (
+                <div key={event.id} className="space-y-1.5">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-white font-medium">
+                      {new Date(event.detectedAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="text-gray-500">{TRIGGER_LABELS[event.trigger]}</span>
+                    {event.firmware && (
+                      <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-900/30 text-purple-400 text-[10px]">
+                        <Cpu size={10} />
+                        Firmware {event.firmware.from ?? '?'} → {event.firmware.to ?? '?'}
+                      </span>
+                    )}
+                  </div>
+                  {event.changes.map(change => {
+                    const revertedAt = event.reverted[change.id];
+                    const isReverting = revertingId === `${event.id}/${change.id}`;
+                    return (
+                      <div key={change.id} className="flex items-start gap-3 px-3 py-2 bg-[#1a1a1a] rounded-lg text-xs">
+                        <div className="flex-1 min-w-0 space-y-0.5">
+                          <div className="flex items-center gap-2">
+                            <span className={`px-1.5 py-0.5 rounded text-[10px] flex-shrink-0 ${KIND_STYLES[change.kind]}`}>
+                              {KIND_LABELS[change.kind]}
+                            </span>
+                            <span className="text-gray-500 flex-shrink-0">{sectionLabel(change.section)}</span>
+                            <span className="text-gray-300 truncate">{change.label}</span>
+                          </div>
+                          {change.kind === 'update' && change.fields.map(field => (
+                            <p key={field} className="text-gray-500 font-mono break-all">
+                              {field} : {formatValue((change.before as Record<string, unknown> | null)?.[field])}
+                              {' → '}
+                              <span className="text-gray-300">{formatValue((change.after as Record<string, unknown> | null)?.[field])}</span>
+                            </p>
+                          ))}
+                          {revertedAt && (
+                            <p className="text-emerald-400/80">Annulé le {new Date(revertedAt).toLocaleString('fr-FR')}</p>
+                          )}
+                        </div>
+                        {!readOnly && !revertedAt && (
+                          <button
+                            onClick={() => handleRevert(event, change)}
+                            disabled={!change.applicable || revertingId !== null}
+                            className="flex items-center gap-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={change.applicable ? 'Rétablir la valeur précédente' : change.note}
+                          >
+                            {isReverting ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+                            Annuler
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,526 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, AlertCircle, Play, Square, Download, Plus, X } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { useConnectionStore } from '../../stores/connectionStore';
+import type {
+  DiagnosticPingResult,
+  DiagnosticRouteResult,
+  DiagnosticDnsResult,
+  DiagnosticPortsResult,
+  DnsRecordType,
+  PortCheckResult
+} from '../../types/api';
+
+type DiagnosticTool = 'ping' | 'traceroute' | 'mtr' | 'dns' | 'ports';
+
+type DiagnosticOutput =
+  | { tool: 'ping'; data: DiagnosticPingResult }
+  | { tool: 'traceroute' | 'mtr'; data: DiagnosticRouteResult }
+  | { tool: 'dns'; data: DiagnosticDnsResult }
+  | { tool: 'ports'; data: DiagnosticPortsResult };
+
+interface PortDraft {
+  port: string;
+  protocol: 'tcp' | 'udp';
+}
+
+// Port forwarding rule as returned by /api/settings/nat/redirections
+interface NatRedirection {
+  enabled: boolean;
+  wan_port_start: number;
+  wan_port_end?: number;
+  ip_proto: 'tcp' | 'udp' | 'tcp_udp';
+}
+
+const TOOL_LABELS: Record<DiagnosticTool, string> = {
+  ping: 'Ping',
+  traceroute: 'Traceroute',
+  mtr: 'MTR',
+  dns: 'DNS',
+  ports: 'Ports'
+};
+
+const TOOLS = Object.keys(TOOL_LABELS) as DiagnosticTool[];
+const DNS_TYPES: DnsRecordType[] = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'PTR'];
+const MAX_PORTS = 32;
+
+const PORT_STATE_LABELS: Record<PortCheckResult['state'], string> = {
+  pending: 'En cours',
+  open: 'Ouvert',
+  closed: 'Fermé',
+  filtered: 'Filtré',
+  open_filtered: 'Ouvert ou filtré'
+};
+
+const PORT_STATE_COLORS: Record<PortCheckResult['state'], string> = {
+  pending: 'bg-gray-800 text-gray-400',
+  open: 'bg-emerald-900/30 text-emerald-400',
+  closed: 'bg-red-900/30 text-red-400',
+  filtered: 'bg-orange-900/30 text-orange-400',
+  open_filtered: 'bg-yellow-900/30 text-yellow-400'
+};
+
+const inputClass = 'w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+const formatMs = (value: number | null): string => (value === null ? '-' : `${value.toFixed(1)} ms`);
+
+// Loss colour: green without loss, red when most packets are lost
+const lossColor = (loss: number): string => {
+  if (loss === 0) return 'text-emerald-400';
+  if (loss < 50) return 'text-orange-400';
+  return 'text-red-400';
+};
+
+// Forwarded WAN ports as checks (tcp_udp rules give one check per protocol)
+const redirectionsToPorts = (rules: NatRedirection[]): PortDraft[] => {
+  const drafts: PortDraft[] = [];
+  for (const rule of rules.filter(r => r.enabled)) {
+    const protocols: PortDraft['protocol'][] = rule.ip_proto === 'tcp_udp' ? ['tcp', 'udp'] : [rule.ip_proto];
+    const end = Math.max(rule.wan_port_end ?? rule.wan_port_start, rule.wan_port_start);
+    for (let port = rule.wan_port_start; port <= end; port++) {
+      for (const protocol of protocols) {
+        if (!drafts.some(d => d.port === String(port) && d.protocol === protocol)) {
+          drafts.push({ port: String(port), protocol });
+        }
+      }
+    }
+  }
+  return drafts.slice(0, MAX_PORTS);
+};
+
+interface DiagnosticsPanelProps {
+  readOnly?: boolean;
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ readOnly = false }) => {
+  const publicIp = useConnectionStore(state => state.status?.ipv4);
+
+  const [tool, setTool] = useState<DiagnosticTool>('ping');
+  const [host, setHost] = useState('');
+  const [count, setCount] = useState(10);
+  const [maxHops, setMaxHops] = useState(30);
+  const [rounds, setRounds] = useState(5);
+  const [dnsName, setDnsName] = useState('');
+  const [dnsType, setDnsType] = useState<DnsRecordType>('A');
+  const [ports, setPorts] = useState<PortDraft[]>([{ port: '80', protocol: 'tcp' }]);
+
+  const [output, setOutput] = useState<DiagnosticOutput | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop the running diagnostic when leaving the panel
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Ports are checked from the outside view of the connection by default
+  useEffect(() => {
+    if (tool === 'ports' && !host && publicIp) setHost(publicIp);
+  }, [tool, host, publicIp]);
+
+  const stop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRunning(false);
+  };
+
+  const selectTool = (next: DiagnosticTool) => {
+    stop();
+    setTool(next);
+    setOutput(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const run = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setNotice(null);
+    setOutput(null);
+
+    const endpoint = `${API_ROUTES.DIAGNOSTICS}/${tool}`;
+    let body: unknown;
+    switch (tool) {
+      case 'ping':
+        body = { host: host.trim(), count };
+        break;
+      case 'traceroute':
+        body = { host: host.trim(), maxHops };
+        break;
+      case 'mtr':
+        body = { host: host.trim(), maxHops, rounds };
+        break;
+      case 'dns':
+        body = { name: dnsName.trim(), type: dnsType };
+        break;
+      case 'ports':
+        body = {
+          host: host.trim(),
+          ports: ports.map(p => ({ port: parseInt(p.port, 10), protocol: p.protocol }))
+        };
+        break;
+    }
+
+    // Every snapshot replaces the previous one: the tables fill in as results arrive
+    const show = (data: unknown) => {
+      if (controllerRef.current === controller) {
+        setOutput({ tool, data } as DiagnosticOutput);
+      }
+    };
+
+    const response = await api.stream<unknown>(endpoint, body, show, controller.signal);
+    if (controllerRef.current !== controller) return;
+
+    if (response.success && response.result) {
+      show(response.result);
+    } else if (response.error?.code !== 'ABORTED') {
+      setError(response.error?.message || 'Erreur lors du diagnostic');
+    }
+    controllerRef.current = null;
+    setRunning(false);
+  };
+
+  const importRedirections = async () => {
+    setError(null);
+    setNotice(null);
+    const response = await api.get<NatRedirection[]>(`${API_ROUTES.SETTINGS_NAT}/redirections`);
+    if (!response.success || !response.result) {
+      setError(response.error?.message || 'Impossible de charger les redirections de ports');
+      return;
+    }
+    const imported = redirectionsToPorts(response.result);
+    if (imported.length === 0) {
+      setNotice('Aucune redirection de port active');
+      return;
+    }
+    setPorts(imported);
+    if (publicIp) setHost(publicIp);
+  };
+
+  const updatePort = (index: number, patch: Partial<PortDraft>) => {
+    setPorts(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const canRun = !readOnly && !running && (tool === 'dns'
+    ? dnsName.trim().length > 0
+    : host.trim().length > 0 && (tool !== 'ports' || ports.length > 0));
+
+  return (
+    <div className="space-y-4">
+      {/* Tool selector */}
+      <div className="flex flex-wrap gap-2">
+        {TOOLS.map(t => (
+          <button
+            key={t}
+            onClick={() => selectTool(t)}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              tool === t ? 'bg-blue-600 text-white' : 'bg-[#1a1a1a] text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
+          >
+            {TOOL_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      {/* Parameters */}
+      <div className="p-4 bg-[#1a1a1a] rounded-lg space-y-3">
+        {tool === 'dns' ? (
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_140px] gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Nom ou adresse (PTR)</label>
+              <input
+                className={inputClass}
+                value={dnsName}
+                onChange={e => setDnsName(e.target.value)}
+                placeholder="example.com"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Type</label>
+              <select className={inputClass} value={dnsType} onChange={e => setDnsType(e.target.value as DnsRecordType)}>
+                {DNS_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Hôte ou adresse IP</label>
+              <input
+                className={inputClass}
+                value={host}
+                onChange={e => setHost(e.target.value)}
+                placeholder={tool === 'ports' ? publicIp || '203.0.113.1' : '1.1.1.1'}
+              />
+            </div>
+            <div className="flex gap-3">
+              {tool === 'ping' && (
+                <div className="w-28">
+                  <label className="block text-xs text-gray-500 mb-1">Paquets</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    className={inputClass}
+                    value={count}
+                    onChange={e => setCount(parseInt(e.target.value, 10) || 1)}
+                  />
+                </div>
+              )}
+              {(tool === 'traceroute' || tool === 'mtr') && (
+                <div className="w-28">
+                  <label className="block text-xs text-gray-500 mb-1">Sauts max</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    className={inputClass}
+                    value={maxHops}
+                    onChange={e => setMaxHops(parseInt(e.target.value, 10) || 1)}
+                  />
+                </div>
+              )}
+              {tool === 'mtr' && (
+                <div className="w-28">
+                  <label className="block text-xs text-gray-500 mb-1">Cycles</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    className={inputClass}
+                    value={rounds}
+                    onChange={e => setRounds(parseInt(e.target.value, 10) || 1)}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {tool === 'ports' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-gray-500">Ports à tester ({ports.length}/{MAX_PORTS})</label>
+              <button
+                onClick={importRedirections}
+                disabled={running}
+                className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                <Download size={14} />
+                Importer les redirections
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {ports.map((p, index) => (
+                <div key={index} className="flex items-center gap-1 bg-[#252525] border border-gray-700 rounded-lg pl-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={p.port}
+                    onChange={e => updatePort(index, { port: e.target.value })}
+                    className="w-20 bg-transparent text-white text-sm py-1.5 focus:outline-none"
+                  />
+                  <select
+                    value={p.protocol}
+                    onChange={e => updatePort(index, { protocol: e.target.value as PortDraft['protocol'] })}
+                    className="bg-transparent text-gray-400 text-xs focus:outline-none"
+                  >
+                    <option value="tcp">TCP</option>
+                    <option value="udp">UDP</option>
+                  </select>
+                  <button
+                    onClick={() => setPorts(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1.5 text-gray-500 hover:text-red-400"
+                    title="Retirer"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              {ports.length < MAX_PORTS && (
+                <button
+                  onClick={() => setPorts(prev => [...prev, { port: '', protocol: 'tcp' }])}
+                  className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-400 hover:text-white border border-dashed border-gray-700 rounded-lg"
+                >
+                  <Plus size={14} />
+                  Ajouter
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-600">
+              Le test part du serveur du dashboard : depuis le réseau local, un port redirigé peut
+              apparaître fermé si la Freebox ne gère pas le NAT loopback.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          {running ? (
+            <button
+              onClick={stop}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+            >
+              <Square size={14} />
+              Arrêter
+            </button>
+          ) : (
+            <button
+              onClick={run}
+              disabled={!canRun}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-lg transition-colors"
+            >
+              <Play size={14} />
+              Lancer
+            </button>
+          )}
+          {running && <Loader2 size={16} className="animate-spin text-blue-400" />}
+          {readOnly && (
+            <span className="text-xs text-gray-500">Droit d'écriture sur les paramètres requis pour lancer un diagnostic</span>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-sm text-red-400">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+      {notice && <p className="text-sm text-gray-500">{notice}</p>}
+
+      {output && <DiagnosticResult output={output} />}
+    </div>
+  );
+};
+
+const DiagnosticResult: React.FC<{ output: DiagnosticOutput }> = ({ output }) => {
+  switch (output.tool) {
+    case 'ping':
+      return <PingResultView result={output.data} />;
+    case 'traceroute':
+    case 'mtr':
+      return <RouteResultView result={output.data} showStats={output.tool === 'mtr'} />;
+    case 'dns':
+      return <DnsResultView result={output.data} />;
+    case 'ports':
+      return <PortsResultView result={output.data} />;
+  }
+};
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className }) => (
+  <div className="p-3 bg-[#1a1a1a] rounded-lg">
+    <p className="text-xs text-gray-500">{label}</p>
+    <p className={`text-lg font-semibold ${className ?? 'text-white'}`}>{value}</p>
+  </div>
+);
+
+const PingResultView: React.FC<{ result: DiagnosticPingResult }> = ({ result }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+      <Stat label="Reçus" value={`${result.received}/${result.sent}`} />
+      <Stat label="Perte" value={`${result.packetLoss}%`} className={lossColor(result.packetLoss)} />
+      <Stat label="Min" value={formatMs(result.min)} />
+      <Stat label="Moyenne" value={formatMs(result.avg)} />
+      <Stat label="Gigue" value={formatMs(result.jitter)} />
+    </div>
+    {result.times.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {result.times.map((time, index) => (
+          <span key={index} className="px-2 py-0.5 bg-[#1a1a1a] rounded text-xs text-gray-400 font-mono">
+            {time.toFixed(1)}
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const RouteResultView: React.FC<{ result: DiagnosticRouteResult; showStats: boolean }> = ({ result, showStats }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+          <th className="py-2 pr-3">#</th>
+          <th className="py-2 pr-3">Adresse</th>
+          <th className="py-2 pr-3 text-right">Perte</th>
+          {showStats && <th className="py-2 pr-3 text-right">Envoyés</th>}
+          <th className="py-2 pr-3 text-right">Dernier</th>
+          <th className="py-2 pr-3 text-right">Moyenne</th>
+          <th className="py-2 pr-3 text-right">Meilleur</th>
+          <th className="py-2 pr-3 text-right">Pire</th>
+          {showStats && <th className="py-2 text-right">Gigue</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {result.hops.map(hop => (
+          <tr key={hop.hop} className="border-b border-gray-800/50">
+            <td className="py-1.5 pr-3 text-gray-500">{hop.hop}</td>
+            <td className="py-1.5 pr-3 font-mono text-white">{hop.address ?? '*'}</td>
+            <td className={`py-1.5 pr-3 text-right ${lossColor(hop.loss)}`}>{hop.sent > 0 ? `${hop.loss}%` : '-'}</td>
+            {showStats && <td className="py-1.5 pr-3 text-right text-gray-400">{hop.sent}</td>}
+            <td className="py-1.5 pr-3 text-right text-gray-300">{formatMs(hop.last)}</td>
+            <td className="py-1.5 pr-3 text-right text-gray-300">{formatMs(hop.avg)}</td>
+            <td className="py-1.5 pr-3 text-right text-gray-400">{formatMs(hop.min)}</td>
+            <td className="py-1.5 pr-3 text-right text-gray-400">{formatMs(hop.max)}</td>
+            {showStats && <td className="py-1.5 text-right text-gray-400">{formatMs(hop.jitter)}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {result.hops.length === 0 && <p className="py-4 text-center text-sm text-gray-500">Recherche de la route...</p>}
+  </div>
+);
+
+const DnsResultView: React.FC<{ result: DiagnosticDnsResult }> = ({ result }) => (
+  <div className="space-y-2">
+    {result.resolvers.map(resolver => (
+      <div key={resolver.id} className="p-3 bg-[#1a1a1a] rounded-lg">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <span className="text-sm text-white">{resolver.name}</span>
+            <span className="ml-2 text-xs text-gray-500 font-mono">{resolver.address ?? 'résolveur du serveur'}</span>
+          </div>
+          <span className="text-xs text-gray-500 shrink-0">
+            {resolver.status === 'pending' ? <Loader2 size={14} className="animate-spin" /> : formatMs(resolver.time)}
+          </span>
+        </div>
+        {resolver.status === 'ok' && (
+          <div className="mt-1 space-y-0.5">
+            {resolver.answers.map((answer, index) => (
+              <p key={index} className="text-xs text-emerald-400 font-mono break-all">{answer}</p>
+            ))}
+          </div>
+        )}
+        {resolver.status === 'error' && <p className="mt-1 text-xs text-red-400">{resolver.error}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+const PortsResultView: React.FC<{ result: DiagnosticPortsResult }> = ({ result }) => (
+  <div className="space-y-2">
+    <p className="text-xs text-gray-500">Hôte testé : <span className="font-mono text-gray-300">{result.host}</span></p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+      {result.ports.map(check => (
+        <div key={`${check.port}/${check.protocol}`} className="flex items-center justify-between p-3 bg-[#1a1a1a] rounded-lg">
+          <div>
+            <span className="text-sm text-white font-mono">{check.port}</span>
+            <span className="ml-1 text-xs text-gray-500 uppercase">{check.protocol}</span>
+            {check.error && <p className="text-xs text-gray-600">{check.error}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            {check.time !== null && <span className="text-xs text-gray-500">{formatMs(check.time)}</span>}
+            <span className={`px-2 py-0.5 rounded text-xs ${PORT_STATE_COLORS[check.state]}`}>
+              {PORT_STATE_LABELS[check.state]}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
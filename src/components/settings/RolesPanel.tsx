@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Pencil, Loader2, AlertCircle, Check, X, ShieldCheck } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import type { DashboardRole, DashboardPermission, DashboardAccessLevel, DashboardRolePermissions } from '../../types/api';
+
+const PERMISSION_NAMES: Record<DashboardPermission, string> = {
+  settings: 'Réglages',
+  parental: 'Contrôle parental',
+  downloader: 'Téléchargements',
+  explorer: 'Fichiers',
+  calls: 'Appels',
+  contacts: 'Contacts',
+  tv: 'Télévision',
+  vm: 'VMs'
+};
+
+const ACCESS_LABELS: Record<DashboardAccessLevel, string> = {
+  none: 'Aucun',
+  read: 'Lecture',
+  write: 'Écriture'
+};
+
+const PERMISSIONS = Object.keys(PERMISSION_NAMES) as DashboardPermission[];
+const ACCESS_LEVELS = Object.keys(ACCESS_LABELS) as DashboardAccessLevel[];
+
+const emptyPermissions = (): DashboardRolePermissions =>
+  Object.fromEntries(PERMISSIONS.map(p => [p, 'read'])) as DashboardRolePermissions;
+
+// Permission x access level grid
+const PermissionsMatrix: React.FC<{
+  permissions: DashboardRolePermissions;
+  onChange?: (permissions: DashboardRolePermissions) => void;
+}> = ({ permissions, onChange }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3">
+    {PERMISSIONS.map((permission) => (
+      <div key={permission} className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-gray-400">{PERMISSION_NAMES[permission]}</span>
+        <div className="flex gap-1">
+          {ACCESS_LEVELS.map((level) => (
+            <button
+              key={level}
+              onClick={() => onChange?.({ ...permissions, [permission]: level })}
+              disabled={!onChange}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                permissions[permission] === level
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-[#252525] text-gray-500 hover:text-gray-300'
+              } disabled:cursor-default`}
+            >
+              {ACCESS_LABELS[level]}
+            </button>
+          ))}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export const RolesPanel: React.FC = () => {
+  const [roles, setRoles] = useState<DashboardRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Role being edited ('new' for the creation form)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editPermissions, setEditPermissions] = useState<DashboardRolePermissions>(emptyPermissions());
+
+  const fetchRoles = async () => {
+    setIsLoading(true);
+    const response = await api.get<DashboardRole[]>(API_ROUTES.ROLES);
+    if (response.success && response.result) {
+      setRoles(response.result);
+    } else {
+      setError(response.error?.message || 'Impossible de charger les rôles');
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startEditing = (role?: DashboardRole) => {
+    setEditingId(role ? role.id : 'new');
+    setEditName(role ? role.name : '');
+    setEditPermissions(role ? { ...role.permissions } : emptyPermissions());
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const body = { name: editName, permissions: editPermissions };
+    const response = editingId === 'new'
+      ? await api.post<DashboardRole>(API_ROUTES.ROLES, body)
+      : await api.put<DashboardRole>(`${API_ROUTES.ROLES}/${editingId}`, body);
+    if (response.success) {
+      showSuccess(editingId === 'new' ? 'Rôle créé' : 'Rôle modifié');
+      setEditingId(null);
+      fetchRoles();
+    } else {
+      setError(response.error?.message || 'Échec de l\'enregistrement');
+    }
+  };
+
+  const handleDelete = async (role: DashboardRole) => {
+    if (!confirm(`Supprimer le rôle "${role.name}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.ROLES}/${role.id}`);
+    if (response.success) {
+      showSuccess('Rôle supprimé');
+      fetchRoles();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="mt-3 space-y-3">
+      <input
+        type="text"
+        value={editName}
+        onChange={(e) => setEditName(e.target.value)}
+        placeholder="Nom du rôle"
+        className="w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      />
+      <PermissionsMatrix permissions={editPermissions} onChange={setEditPermissions} />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!editName.trim()}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Enregistrer
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 size={24} className="text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {roles.map((role) => (
+            <div key={role.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gray-800 rounded-lg">
+                  <ShieldCheck size={16} className="text-gray-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white">{role.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {role.admin ? 'Accès complet et gestion des comptes' : role.builtin ? 'Rôle prédéfini' : 'Rôle personnalisé'}
+                  </p>
+                </div>
+                {!role.builtin && (
+                  <>
+                    <button
+                      onClick={() => (editingId === role.id ? setEditingId(null) : startEditing(role))}
+                      className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                      title="Modifier"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(role)}
+                      className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                      title="Supprimer"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {editingId === role.id ? renderEditor() : !role.admin && <PermissionsMatrix permissions={role.permissions} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New role */}
+      <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+        {editingId === 'new' ? (
+          <>
+            <h4 className="text-sm font-medium text-white">Nouveau rôle</h4>
+            {renderEditor()}
+          </>
+        ) : (
+          <button
+            onClick={() => startEditing()}
+            className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            <Plus size={16} />
+            Créer un rôle personnalisé
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
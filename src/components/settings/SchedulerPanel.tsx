@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Pencil, Loader2, AlertCircle, Check, X, Play, RefreshCw, CalendarClock } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { ScheduledJobModal, ACTION_LABELS, describeAction } from '../modals/ScheduledJobModal';
+import type { ScheduledJob, JobRun } from '../../types/api';
+
+const STATUS_STYLES: Record<JobRun['status'], string> = {
+  success: 'bg-emerald-900/30 text-emerald-400',
+  failed: 'bg-red-900/30 text-red-400'
+};
+
+const STATUS_LABELS: Record<JobRun['status'], string> = {
+  success: 'Réussi',
+  failed: 'Échec'
+};
+
+const REASON_LABELS: Record<JobRun['reason'], string> = {
+  schedule: 'planifiée',
+  catch_up: 'rattrapage',
+  manual: 'manuelle'
+};
+
+const DAY_NAMES = ['dim', 'lun', 'mar', 'mer', 'jeu', 'ven', 'sam'];
+
+// Readable form of the "M H * * days" expressions built by the modal, raw expression otherwise
+const describeTrigger = (job: ScheduledJob): string => {
+  if (job.trigger.type === 'once') {
+    return `Le ${new Date(job.trigger.at).toLocaleString('fr-FR')}`;
+  }
+  const match = job.trigger.expression.match(/^(\d{1,2}) (\d{1,2}) \* \* (\*|[0-6](?:,[0-6])*)$/);
+  if (!match) return `cron ${job.trigger.expression}`;
+  const time = `${match[2].padStart(2, '0')}:${match[1].padStart(2, '0')}`;
+  const days = match[3] === '*' ? 'tous les jours' : match[3].split(',').map(d => DAY_NAMES[Number(d)]).join(', ');
+  return `${days} à ${time}`;
+};
+
+export const SchedulerPanel: React.FC<{ readOnly?: boolean }> = ({ readOnly = false }) => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Job being edited in the modal ('new' for the creation form)
+  const [editing, setEditing] = useState<ScheduledJob | 'new' | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [logFilter, setLogFilter] = useState<string>('');
+
+  const fetchRuns = async (jobId = logFilter) => {
+    const query = jobId ? `?jobId=${encodeURIComponent(jobId)}` : '';
+    const response = await api.get<JobRun[]>(`${API_ROUTES.SCHEDULER_RUNS}${query}`);
+    if (response.success && response.result) setRuns(response.result);
+  };
+
+  const fetchAll = async () => {
+    const response = await api.get<ScheduledJob[]>(API_ROUTES.SCHEDULER_JOBS);
+    if (response.success && response.result) {
+      setJobs(response.result);
+    } else {
+      setError(response.error?.message || 'Impossible de charger les tâches planifiées');
+    }
+    await fetchRuns();
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  useEffect(() => {
+    fetchRuns(logFilter);
+  }, [logFilter]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleSaved = () => {
+    showSuccess(editing === 'new' ? 'Tâche créée' : 'Tâche modifiée');
+    setEditing(null);
+    fetchAll();
+  };
+
+  const handleToggle = async (job: ScheduledJob) => {
+    setError(null);
+    const response = await api.put<ScheduledJob>(`${API_ROUTES.SCHEDULER_JOBS}/${job.id}`, { enabled: !job.enabled });
+    if (response.success && response.result) {
+      setJobs(jobs.map(j => (j.id === job.id ? response.result as ScheduledJob : j)));
+    } else {
+      setError(response.error?.message || 'Échec de la modification');
+    }
+  };
+
+  const handleRun = async (job: ScheduledJob) => {
+    if (!confirm(`Exécuter maintenant "${job.name}" ?`)) return;
+    setError(null);
+    setRunningId(job.id);
+    const response = await api.post<JobRun>(`${API_ROUTES.SCHEDULER_JOBS}/${job.id}/run`);
+    setRunningId(null);
+    if (response.success && response.result) {
+      if (response.result.status === 'failed') {
+        setError(`Échec de "${job.name}" : ${response.result.error ?? 'erreur inconnue'}`);
+      } else {
+        showSuccess(`"${job.name}" exécutée`);
+      }
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de l\'exécution');
+    }
+  };
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Supprimer la tâche "${job.name}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.SCHEDULER_JOBS}/${job.id}`);
+    if (response.success) {
+      showSuccess('Tâche supprimée');
+      if (logFilter === job.id) setLogFilter('');
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 size={24} className="text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Les tâches sont exécutées par le serveur du dashboard, à son heure locale. Une tâche en mode rattrapage
+        est relancée au démarrage du serveur si son heure est passée pendant qu'il était arrêté.
+      </p>
+
+      {/* Jobs */}
+      <div className="space-y-2">
+        {jobs.length === 0 && (
+          <p className="text-xs text-gray-500">Aucune tâche planifiée</p>
+        )}
+        {jobs.map((job) => (
+          <div key={job.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => handleToggle(job)}
+                disabled={readOnly}
+                className="p-2 bg-gray-800 rounded-lg disabled:cursor-default"
+                title={job.enabled ? 'Désactiver' : 'Activer'}
+              >
+                <CalendarClock size={16} className={job.enabled ? 'text-emerald-400' : 'text-gray-500'} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium ${job.enabled ? 'text-white' : 'text-gray-500'}`}>
+                  {job.name}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{ACTION_LABELS[job.action.type]}</span>
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {describeAction(job.action)} · {describeTrigger(job)}
+                  {job.catchUp && ' · rattrapage'}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {job.enabled && job.nextRunAt
+                    ? `Prochaine exécution : ${new Date(job.nextRunAt).toLocaleString('fr-FR')}`
+                    : 'Aucune exécution prévue'}
+                  {job.lastRun && (
+                    <>
+                      {' · Dernière : '}
+                      <span className={job.lastRun.status === 'success' ? 'text-emerald-500' : 'text-red-400'}>
+                        {new Date(job.lastRun.at).toLocaleString('fr-FR')} ({STATUS_LABELS[job.lastRun.status].toLowerCase()})
+                      </span>
+                    </>
+                  )}
+                </p>
+              </div>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={() => handleRun(job)}
+                    disabled={runningId === job.id}
+                    className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                    title="Exécuter maintenant"
+                  >
+                    {runningId === job.id ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+                  </button>
+                  <button
+                    onClick={() => setEditing(job)}
+                    className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                    title="Modifier"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(job)}
+                    className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {!readOnly && (
+          <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            <button
+              onClick={() => setEditing('new')}
+              className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <Plus size={16} />
+              Ajouter une tâche
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Run history */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-medium text-white">Historique des exécutions</h4>
+          <div className="flex items-center gap-2">
+            <select
+              value={logFilter}
+              onChange={(e) => setLogFilter(e.target.value)}
+              className="px-2 py-1 bg-[#252525] border border-gray-700 rounded text-xs text-gray-300 focus:outline-none"
+            >
+              <option value="">Toutes les tâches</option>
+              {jobs.map(j => <option key={j.id} value={j.id}>{j.name}</option>)}
+            </select>
+            <button
+              onClick={() => fetchRuns()}
+              className="p-1.5 hover:bg-gray-800 rounded text-gray-400 hover:text-white transition-colors"
+              title="Actualiser"
+            >
+              <RefreshCw size={14} />
+            </button>
+          </div>
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-xs text-gray-500">Aucune exécution</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {runs.map(run => (
+              <div key={run.id} className="flex items-center gap-3 px-3 py-2 bg-[#1a1a1a] rounded-lg text-xs">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] flex-shrink-0 ${STATUS_STYLES[run.status]}`}>
+                  {STATUS_LABELS[run.status]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-300 truncate">
+                    {run.jobName} · {ACTION_LABELS[run.action] ?? run.action}
+                  </p>
+                  <p className="text-gray-600">
+                    {new Date(run.at).toLocaleString('fr-FR')}
+                    {' · '}exécution {REASON_LABELS[run.reason]}
+                    {` · ${run.duration} ms`}
+                    {run.error && ` · ${run.error}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ScheduledJobModal
+        isOpen={editing !== null}
+        job={editing === 'new' ? null : editing}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { UserPlus, Trash2, KeyRound, Loader2, AlertCircle, Check, X, User } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { DashboardUser, DashboardRole } from '../../types/api';
+
+const formatLastLogin = (timestamp?: number): string => {
+  if (!timestamp) return 'Jamais connecté';
+  return `Dernière connexion : ${new Date(timestamp).toLocaleString('fr-FR')}`;
+};
+
+export const UsersPanel: React.FC = () => {
+  const { user: currentUser } = useSessionStore();
+  const [users, setUsers] = useState<DashboardUser[]>([]);
+  const [roles, setRoles] = useState<DashboardRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // New user form
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState('readonly');
+
+  // Password change (one user at a time)
+  const [editingPasswordId, setEditingPasswordId] = useState<string | null>(null);
+  const [editPassword, setEditPassword] = useState('');
+
+  const fetchUsers = async () => {
+    setIsLoading(true);
+    const [response, rolesResponse] = await Promise.all([
+      api.get<DashboardUser[]>(API_ROUTES.USERS),
+      api.get<DashboardRole[]>(API_ROUTES.ROLES)
+    ]);
+    if (response.success && response.result) {
+      setUsers(response.result);
+    } else {
+      setError(response.error?.message || 'Impossible de charger les utilisateurs');
+    }
+    if (rolesResponse.success && rolesResponse.result) {
+      setRoles(rolesResponse.result);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    const response = await api.post<DashboardUser>(API_ROUTES.USERS, {
+      username: newUsername,
+      password: newPassword,
+      role: newRole
+    });
+    if (response.success) {
+      setNewUsername('');
+      setNewPassword('');
+      setNewRole('readonly');
+      showSuccess('Utilisateur créé');
+      fetchUsers();
+    } else {
+      setError(response.error?.message || 'Échec de la création');
+    }
+  };
+
+  const handleDelete = async (user: DashboardUser) => {
+    if (!confirm(`Supprimer l'utilisateur "${user.username}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.USERS}/${user.id}`);
+    if (response.success) {
+      showSuccess('Utilisateur supprimé');
+      fetchUsers();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  const handleChangePassword = async (userId: string) => {
+    setError(null);
+    const response = await api.put(`${API_ROUTES.USERS}/${userId}/password`, { password: editPassword });
+    if (response.success) {
+      setEditingPasswordId(null);
+      setEditPassword('');
+      showSuccess('Mot de passe modifié');
+    } else {
+      setError(response.error?.message || 'Échec de la modification');
+    }
+  };
+
+  const handleChangeRole = async (userId: string, role: string) => {
+    setError(null);
+    const response = await api.put(`${API_ROUTES.USERS}/${userId}/role`, { role });
+    if (response.success) {
+      showSuccess('Rôle modifié');
+      fetchUsers();
+    } else {
+      setError(response.error?.message || 'Échec de la modification du rôle');
+    }
+  };
+
+  const selectClassName = 'px-2 py-1.5 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Users list */}
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 size={24} className="text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {users.map((user) => (
+            <div key={user.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gray-800 rounded-lg">
+                  <User size={16} className="text-gray-400" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white">
+                    {user.username}
+                    {user.id === currentUser?.id && <span className="ml-2 text-xs text-blue-400">(vous)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatLastLogin(user.lastLoginAt)}</p>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) => handleChangeRole(user.id, e.target.value)}
+                  className={selectClassName}
+                  title="Rôle"
+                >
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.id}>{role.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    setEditingPasswordId(editingPasswordId === user.id ? null : user.id);
+                    setEditPassword('');
+                  }}
+                  className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                  title="Changer le mot de passe"
+                >
+                  <KeyRound size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(user)}
+                  disabled={user.id === currentUser?.id}
+                  className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Supprimer"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {editingPasswordId === user.id && (
+                <div className="flex items-center gap-2 mt-3">
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    value={editPassword}
+                    onChange={(e) => setEditPassword(e.target.value)}
+                    placeholder="Nouveau mot de passe"
+                    className="flex-1 px-3 py-1.5 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => handleChangePassword(user.id)}
+                    disabled={editPassword.length < 8}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Valider
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New user */}
+      <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg space-y-3">
+        <h4 className="text-sm font-medium text-white flex items-center gap-2">
+          <UserPlus size={16} className="text-gray-400" />
+          Ajouter un utilisateur
+        </h4>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            autoComplete="off"
+            value={newUsername}
+            onChange={(e) => setNewUsername(e.target.value)}
+            placeholder="Nom d'utilisateur"
+            className="flex-1 px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="Mot de passe (8 caractères min.)"
+            className="flex-1 px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value)}
+            className={selectClassName}
+          >
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>{role.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!newUsername || newPassword.length < 8}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Créer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Pencil, Loader2, AlertCircle, Check, X, Send, KeyRound, RefreshCw, Webhook as WebhookIcon, Copy } from 'lucide-react';
+import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import type { Webhook, WebhookDelivery, FreeboxEventType } from '../../types/api';
+
+const EVENT_LABELS: Record<FreeboxEventType, string> = {
+  'connection.state_changed': 'Changement d\'état de la connexion',
+  'system.rebooted': 'Redémarrage de la Freebox',
+  'call.missed': 'Appel manqué',
+  'download.completed': 'Téléchargement terminé',
+  'lan.host_new': 'Nouvel appareil sur le réseau'
+};
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-blue-900/30 text-blue-400',
+  success: 'bg-emerald-900/30 text-emerald-400',
+  failed: 'bg-red-900/30 text-red-400'
+};
+
+const STATUS_LABELS: Record<WebhookDelivery['status'], string> = {
+  pending: 'En cours',
+  success: 'Livré',
+  failed: 'Échec'
+};
+
+interface WebhookDraft {
+  name: string;
+  url: string;
+  events: FreeboxEventType[];
+  enabled: boolean;
+}
+
+const emptyDraft = (): WebhookDraft => ({ name: '', url: '', events: [], enabled: true });
+
+const inputClass = 'w-full px-3 py-2 bg-[#252525] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500';
+
+export const WebhooksPanel: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<FreeboxEventType[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Webhook being edited ('new' for the creation form)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<WebhookDraft>(emptyDraft());
+  // Secret shown once after creation or regeneration
+  const [revealedSecret, setRevealedSecret] = useState<{ id: string; secret: string } | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [logFilter, setLogFilter] = useState<string>('');
+
+  const fetchDeliveries = async (webhookId = logFilter) => {
+    const query = webhookId ? `?webhookId=${encodeURIComponent(webhookId)}` : '';
+    const response = await api.get<WebhookDelivery[]>(`${API_ROUTES.WEBHOOKS_DELIVERIES}${query}`);
+    if (response.success && response.result) setDeliveries(response.result);
+  };
+
+  const fetchAll = async () => {
+    setIsLoading(true);
+    const [webhooksRes, eventsRes] = await Promise.all([
+      api.get<Webhook[]>(API_ROUTES.WEBHOOKS),
+      api.get<FreeboxEventType[]>(API_ROUTES.WEBHOOKS_EVENTS)
+    ]);
+    if (webhooksRes.success && webhooksRes.result) {
+      setWebhooks(webhooksRes.result);
+    } else {
+      setError(webhooksRes.error?.message || 'Impossible de charger les webhooks');
+    }
+    if (eventsRes.success && eventsRes.result) setEvents(eventsRes.result);
+    await fetchDeliveries();
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries(logFilter);
+  }, [logFilter]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const startEditing = (webhook?: Webhook) => {
+    setEditingId(webhook ? webhook.id : 'new');
+    setDraft(webhook
+      ? { name: webhook.name, url: webhook.url, events: [...webhook.events], enabled: webhook.enabled }
+      : emptyDraft());
+  };
+
+  const toggleEvent = (event: FreeboxEventType) => {
+    setDraft({
+      ...draft,
+      events: draft.events.includes(event) ? draft.events.filter(e => e !== event) : [...draft.events, event]
+    });
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    if (editingId === 'new') {
+      const response = await api.post<Webhook>(API_ROUTES.WEBHOOKS, draft);
+      if (response.success && response.result) {
+        setRevealedSecret({ id: response.result.id, secret: response.result.secret ?? '' });
+        showSuccess('Webhook créé');
+        setEditingId(null);
+        fetchAll();
+      } else {
+        setError(response.error?.message || 'Échec de l\'enregistrement');
+      }
+      return;
+    }
+
+    const response = await api.put<Webhook>(`${API_ROUTES.WEBHOOKS}/${editingId}`, draft);
+    if (response.success) {
+      showSuccess('Webhook modifié');
+      setEditingId(null);
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de l\'enregistrement');
+    }
+  };
+
+  const handleToggle = async (webhook: Webhook) => {
+    const response = await api.put<Webhook>(`${API_ROUTES.WEBHOOKS}/${webhook.id}`, { enabled: !webhook.enabled });
+    if (response.success && response.result) {
+      setWebhooks(webhooks.map(w => (w.id === webhook.id ? response.result as Webhook : w)));
+    } else {
+      setError(response.error?.message || 'Échec de la modification');
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Supprimer le webhook "${webhook.name}" ?`)) return;
+    setError(null);
+    const response = await api.delete(`${API_ROUTES.WEBHOOKS}/${webhook.id}`);
+    if (response.success) {
+      showSuccess('Webhook supprimé');
+      if (logFilter === webhook.id) setLogFilter('');
+      fetchAll();
+    } else {
+      setError(response.error?.message || 'Échec de la suppression');
+    }
+  };
+
+  const handleRegenerateSecret = async (webhook: Webhook) => {
+    if (!confirm(`Générer un nouveau secret pour "${webhook.name}" ? L'ancien ne sera plus accepté.`)) return;
+    const response = await api.post<Webhook>(`${API_ROUTES.WEBHOOKS}/${webhook.id}/secret`);
+    if (response.success && response.result) {
+      setRevealedSecret({ id: webhook.id, secret: response.result.secret ?? '' });
+    } else {
+      setError(response.error?.message || 'Échec de la génération du secret');
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setError(null);
+    setTestingId(webhook.id);
+    const response = await api.post<WebhookDelivery>(`${API_ROUTES.WEBHOOKS}/${webhook.id}/test`);
+    setTestingId(null);
+    if (response.success && response.result) {
+      if (response.result.status === 'failed') {
+        setError(`Échec du test : ${response.result.error ?? 'erreur inconnue'}`);
+      } else {
+        showSuccess(response.result.status === 'success' ? 'Événement de test livré' : 'Événement de test en cours de réessai');
+      }
+      fetchDeliveries();
+    } else {
+      setError(response.error?.message || 'Échec de l\'envoi');
+    }
+  };
+
+  const renderEditor = () => (
+    <div className="mt-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Nom (ex: n8n, Home Assistant)"
+          className={inputClass}
+        />
+        <input
+          type="url"
+          value={draft.url}
+          onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+          placeholder="https://exemple.local/webhook"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <p className="text-xs text-gray-400 mb-1">Événements (aucun sélectionné = tous)</p>
+        <div className="flex flex-wrap gap-2">
+          {events.map(event => (
+            <button
+              key={event}
+              onClick={() => toggleEvent(event)}
+              className={`px-2 py-1 rounded text-xs transition-colors ${
+                draft.events.includes(event)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-[#252525] text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {EVENT_LABELS[event] ?? event}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded-lg transition-colors"
+        >
+          Annuler
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!draft.name.trim() || !draft.url.trim()}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Enregistrer
+        </button>
+      </div>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 size={24} className="text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-700/50 rounded-lg flex items-center gap-2 text-red-400 text-sm">
+          <AlertCircle size={16} />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-3 bg-emerald-900/20 border border-emerald-700/50 rounded-lg flex items-center gap-2 text-emerald-400 text-sm">
+          <Check size={16} />
+          {success}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Chaque événement est envoyé en POST JSON. L'en-tête <code className="text-gray-400">X-Freebox-Signature</code> contient
+        {' '}<code className="text-gray-400">sha256=HMAC(secret, "&lt;X-Freebox-Timestamp&gt;.&lt;corps&gt;")</code>.
+        Les échecs sont réessayés avec un délai croissant.
+      </p>
+
+      {/* Webhooks */}
+      <div className="space-y-2">
+        {webhooks.map((webhook) => (
+          <div key={webhook.id} className="p-3 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => handleToggle(webhook)}
+                className="p-2 bg-gray-800 rounded-lg"
+                title={webhook.enabled ? 'Désactiver' : 'Activer'}
+              >
+                <WebhookIcon size={16} className={webhook.enabled ? 'text-emerald-400' : 'text-gray-500'} />
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium ${webhook.enabled ? 'text-white' : 'text-gray-500'}`}>{webhook.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {webhook.url} · {webhook.events.length === 0 ? 'tous les événements' : `${webhook.events.length} événement(s)`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleTest(webhook)}
+                disabled={testingId === webhook.id}
+                className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                title="Envoyer un événement de test"
+              >
+                {testingId === webhook.id ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+              </button>
+              <button
+                onClick={() => handleRegenerateSecret(webhook)}
+                className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                title="Générer un nouveau secret"
+              >
+                <KeyRound size={16} />
+              </button>
+              <button
+                onClick={() => (editingId === webhook.id ? setEditingId(null) : startEditing(webhook))}
+                className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+                title="Modifier"
+              >
+                <Pencil size={16} />
+              </button>
+              <button
+                onClick={() => handleDelete(webhook)}
+                className="p-2 hover:bg-red-900/20 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                title="Supprimer"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            {revealedSecret?.id === webhook.id && (
+              <div className="mt-3 p-2 bg-amber-900/20 border border-amber-700/30 rounded-lg text-xs text-amber-300">
+                <p className="mb-1">Secret de signature (affiché une seule fois) :</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 break-all text-amber-200">{revealedSecret.secret}</code>
+                  <button
+                    onClick={() => navigator.clipboard?.writeText(revealedSecret.secret)}
+                    className="p-1 hover:bg-amber-900/30 rounded"
+                    title="Copier"
+                  >
+                    <Copy size={14} />
+                  </button>
+                  <button onClick={() => setRevealedSecret(null)} className="p-1 hover:bg-amber-900/30 rounded" title="Masquer">
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {editingId === webhook.id && renderEditor()}
+          </div>
+        ))}
+
+        <div className="p-4 bg-[#1a1a1a] border border-gray-800 rounded-lg">
+          {editingId === 'new' ? (
+            <>
+              <h4 className="text-sm font-medium text-white">Nouveau webhook</h4>
+              {renderEditor()}
+            </>
+          ) : (
+            <button
+              onClick={() => startEditing()}
+              className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              <Plus size={16} />
+              Ajouter un webhook
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Delivery log */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-medium text-white">Journal des envois</h4>
+          <div className="flex items-center gap-2">
+            <select
+              value={logFilter}
+              onChange={(e) => setLogFilter(e.target.value)}
+              className="px-2 py-1 bg-[#252525] border border-gray-700 rounded text-xs text-gray-300 focus:outline-none"
+            >
+              <option value="">Tous les webhooks</option>
+              {webhooks.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+            </select>
+            <button
+              onClick={() => fetchDeliveries()}
+              className="p-1.5 hover:bg-gray-800 rounded text-gray-400 hover:text-white transition-colors"
+              title="Actualiser"
+            >
+              <RefreshCw size={14} />
+            </button>
+          </div>
+        </div>
+        {deliveries.length === 0 ? (
+          <p className="text-xs text-gray-500">Aucun envoi</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="flex items-center gap-3 px-3 py-2 bg-[#1a1a1a] rounded-lg text-xs">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] flex-shrink-0 ${STATUS_STYLES[delivery.status]}`}>
+                  {STATUS_LABELS[delivery.status]}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-300 truncate">
+                    {delivery.event} → {delivery.webhookName}
+                  </p>
+                  <p className="text-gray-600">
+                    {new Date(delivery.createdAt).toLocaleString('fr-FR')}
+                    {' · '}{delivery.attempts} tentative(s)
+                    {delivery.responseStatus !== undefined && ` · HTTP ${delivery.responseStatus}`}
+                    {delivery.duration !== undefined && ` · ${delivery.duration} ms`}
+                    {delivery.error && ` · ${delivery.error}`}
+                    {delivery.nextRetryAt && ` · prochain essai ${new Date(delivery.nextRetryAt).toLocaleTimeString('fr-FR')}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
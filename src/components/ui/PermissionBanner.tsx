@@ -1,32 +1,37 @@
 import React from 'react';
 import { AlertTriangle, ExternalLink } from 'lucide-react';
-import { getPermissionErrorMessage, getFreeboxSettingsUrl } from '../../utils/permissions';
+import { getPermissionErrorMessage, getFreeboxSettingsUrl, getRolePermissionMessage } from '../../utils/permissions';
 
-interface PermissionBannerProps {
-  permission: string;
-  freeboxUrl: string;
-}
+type PermissionBannerProps =
+  // Missing right of the Freebox app, granted in the Freebox settings
+  | { permission: string; freeboxUrl: string; role?: false }
+  // The dashboard role of the user only allows reading, an administrator grants more
+  | { permission: string; role: true };
 
-export const PermissionBanner: React.FC<PermissionBannerProps> = ({ permission, freeboxUrl }) => {
-  const settingsUrl = getFreeboxSettingsUrl(freeboxUrl);
+export const PermissionBanner: React.FC<PermissionBannerProps> = (props) => {
+  const { permission } = props;
 
   return (
     <div className="mb-6 p-4 bg-amber-900/20 border border-amber-700/50 rounded-xl">
       <div className="flex items-start gap-3">
         <AlertTriangle className="text-amber-400 flex-shrink-0 mt-0.5" size={20} />
         <div className="flex-1">
-          <p className="text-amber-400 text-sm">{getPermissionErrorMessage(permission)}</p>
-          <a
-            href={settingsUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center gap-1 mt-2 text-amber-300 hover:text-amber-200 text-sm underline"
-          >
-            Ouvrir les paramètres Freebox
-            <ExternalLink size={12} />
-          </a>
+          <p className="text-amber-400 text-sm">
+            {props.role ? getRolePermissionMessage(permission) : getPermissionErrorMessage(permission)}
+          </p>
+          {!props.role && (
+            <a
+              href={getFreeboxSettingsUrl(props.freeboxUrl)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 mt-2 text-amber-300 hover:text-amber-200 text-sm underline"
+            >
+              Ouvrir les paramètres Freebox
+              <ExternalLink size={12} />
+            </a>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -8,7 +8,8 @@ import {
   Info,
   Settings,
   Zap,
-  Key
+  Key,
+  Bell
 } from 'lucide-react';
 import type { LogEntry } from '../../types';
 
@@ -32,6 +33,8 @@ const getLogIcon = (type: LogEntry['type'], icon?: string) => {
         return <Key size={12} />;
       case 'zap':
         return <Zap size={12} />;
+      case 'bell':
+        return <Bell size={12} />;
     }
   }
 
@@ -1,8 +1,13 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { ArrowDown, ArrowUp, RefreshCw, Info, Wifi, Zap, Clock } from 'lucide-react';
+import { ArrowDown, ArrowUp, RefreshCw, Info, Wifi, Zap, Clock, Play, Loader2, AlertCircle } from 'lucide-react';
 import { SparkLine } from './SparkLine';
 import { Tooltip } from '../ui/Tooltip';
 import { api } from '../../api/client';
+import { API_ROUTES } from '../../utils/constants';
+import { useSpeedtestStore } from '../../stores/speedtestStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { useWebSocketTopic } from '../../hooks/useConnectionWebSocket';
+import type { SpeedtestRun, SpeedtestThroughput } from '../../types/api';
 
 interface BandwidthInfo {
   downloadMax: number; // Gbps
@@ -20,16 +25,54 @@ interface PingResult {
   packetLoss: number;
 }
 
+const PHASE_LABELS: Record<SpeedtestRun['phase'], string> = {
+  latency: 'Mesure de la latence...',
+  download: 'Test du débit descendant...',
+  upload: 'Test du débit montant...',
+  done: 'Terminé'
+};
+
+// Engine results are in Mbps
+const formatMbps = (mbps: number): string => {
+  if (mbps >= 1000) return `${(mbps / 1000).toFixed(2)} Gbps`;
+  return `${mbps.toFixed(mbps >= 100 ? 0 : 1)} Mbps`;
+};
+
+// Average once past the warm-up, last sample before
+const throughputValue = (result: SpeedtestThroughput): number =>
+  result.samples.length > result.warmupSamples ? result.average : result.samples[result.samples.length - 1] ?? 0;
+
 export const SpeedtestWidget: React.FC = () => {
   const [bandwidthInfo, setBandwidthInfo] = useState<BandwidthInfo | null>(null);
   const [pingResult, setPingResult] = useState<PingResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const {
+    targets,
+    selectedTargetId,
+    currentRun,
+    isRunning,
+    error: testError,
+    fetchTargets,
+    fetchCurrentRun,
+    selectTarget,
+    runSpeedtest,
+    applyProgress
+  } = useSpeedtestStore();
+  const canRunTest = useSessionStore((state) => state.canAccess('settings', 'write'));
+
+  // Live progress of the test (also when started from another tab)
+  useWebSocketTopic<SpeedtestRun>('speedtest', applyProgress);
+
+  useEffect(() => {
+    fetchTargets();
+    fetchCurrentRun();
+  }, [fetchTargets, fetchCurrentRun]);
 
   // Fetch bandwidth only (fast, for real-time rate)
   const fetchBandwidth = useCallback(async () => {
     try {
-      const bandwidthResponse = await api.get<BandwidthInfo>('/api/speedtest/bandwidth');
+      const bandwidthResponse = await api.get<BandwidthInfo>(API_ROUTES.SPEEDTEST_BANDWIDTH);
       if (bandwidthResponse.success && bandwidthResponse.result) {
         setBandwidthInfo(bandwidthResponse.result);
         setLastUpdate(new Date());
@@ -48,7 +91,7 @@ export const SpeedtestWidget: React.FC = () => {
 
       // Fetch ping (quick 5 pings)
       const pingResponse = await api.get<{ latency: number; jitter: number; packetLoss: number }>(
-        '/api/speedtest/ping?count=5'
+        `${API_ROUTES.SPEEDTEST_PING}?count=5`
       );
       console.log('[SpeedtestWidget] Ping response:', pingResponse);
       if (pingResponse.success && pingResponse.result) {
@@ -191,6 +234,85 @@ export const SpeedtestWidget: React.FC = () => {
         </div>
       </div>
 
+      {/* Throughput test (multi-stream HTTP, see server/services/speedtest.ts) */}
+      <div className="bg-[#151515] p-3 rounded-lg border border-gray-800 space-y-3">
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedTargetId ?? ''}
+            onChange={(e) => selectTarget(e.target.value)}
+            disabled={isRunning || targets.length === 0}
+            className="flex-1 min-w-0 px-2 py-1.5 bg-[#252525] border border-gray-700 rounded-lg text-white text-xs focus:outline-none focus:border-blue-500 disabled:opacity-50"
+            title="Serveur de test"
+          >
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>{target.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={runSpeedtest}
+            disabled={isRunning || !canRunTest || !selectedTargetId}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={canRunTest ? 'Lancer un test de débit' : 'Droit d\'écriture sur les paramètres requis'}
+          >
+            {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            {isRunning ? 'En cours' : 'Lancer'}
+          </button>
+        </div>
+
+        {testError && (
+          <div className="flex items-center gap-2 text-xs text-red-400">
+            <AlertCircle size={12} className="flex-shrink-0" />
+            {testError}
+          </div>
+        )}
+
+        {currentRun && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <div className="flex items-center gap-1 text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+                  <ArrowDown size={10} className="text-blue-500" /> Descendant
+                </div>
+                <div className="text-lg font-bold text-white">
+                  {currentRun.download.samples.length > 0 ? formatMbps(throughputValue(currentRun.download)) : '--'}
+                </div>
+                <div className="h-6 mt-1">
+                  <SparkLine data={currentRun.download.samples} color="#3b82f6" height={24} />
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center gap-1 text-[10px] text-gray-500 uppercase tracking-wider mb-1">
+                  <ArrowUp size={10} className="text-emerald-500" /> Montant
+                </div>
+                <div className="text-lg font-bold text-white">
+                  {currentRun.upload.samples.length > 0 ? formatMbps(throughputValue(currentRun.upload)) : '--'}
+                </div>
+                <div className="h-6 mt-1">
+                  <SparkLine data={currentRun.upload.samples} color="#10b981" height={24} />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap justify-between gap-2 text-[10px] text-gray-500 font-mono">
+              <span>
+                Latence {currentRun.latency.idle ? `${currentRun.latency.idle.avg.toFixed(1)} ms` : '--'}
+              </span>
+              <Tooltip content="Latence mesurée pendant que la ligne est saturée">
+                <span className="cursor-help">
+                  En charge ↓ {currentRun.latency.download ? `${currentRun.latency.download.avg.toFixed(1)} ms` : '--'}
+                  {' '}↑ {currentRun.latency.upload ? `${currentRun.latency.upload.avg.toFixed(1)} ms` : '--'}
+                </span>
+              </Tooltip>
+              <span>
+                {currentRun.status === 'running'
+                  ? PHASE_LABELS[currentRun.phase]
+                  : `${currentRun.targetName} · ${new Date(currentRun.startedAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Footer */}
       <div className="flex items-center justify-between text-[10px] text-gray-500 font-mono border-t border-gray-800 pt-2">
         <div className="flex items-center gap-1">
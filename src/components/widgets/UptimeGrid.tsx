@@ -34,7 +34,7 @@ const formatDate = (dateStr: string): string => {
 export const UptimeGrid: React.FC<UptimeGridProps> = ({
   uptimeSeconds
 }) => {
-  const { recordUptime, getHistoryForDisplay } = useUptimeStore();
+  const { history, recordUptime, getHistoryForDisplay } = useUptimeStore();
 
   // Record uptime when it changes
   useEffect(() => {
@@ -44,7 +44,7 @@ export const UptimeGrid: React.FC<UptimeGridProps> = ({
   }, [uptimeSeconds, recordUptime]);
 
   // Get history for display
-  const historyData = useMemo(() => getHistoryForDisplay(), [getHistoryForDisplay]);
+  const historyData = useMemo(() => getHistoryForDisplay(), [history, getHistoryForDisplay]);
 
   // Calculate uptime percentage from history (only count known days)
   const uptimePercentage = useMemo(() => {
@@ -27,7 +27,7 @@ export const VmPanel: React.FC<VmPanelProps> = ({ vms, onToggle, onConsole }) =>
             <Toggle
               checked={vm.status === 'running'}
               onChange={(checked) => onToggle?.(vm.id, checked)}
-              disabled={vm.status === 'starting' || vm.status === 'stopping'}
+              disabled={!onToggle || vm.status === 'starting' || vm.status === 'stopping'}
               size="sm"
             />
           </div>
@@ -1,7 +1,15 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { api } from '../api/client';
 import { useConnectionStore } from '../stores/connectionStore';
 import { useSystemStore } from '../stores/systemStore';
-import type { ConnectionStatus } from '../types/api';
+import { useBoxStore } from '../stores/boxStore';
+import { useWifiStore, type WifiFullStatus } from '../stores/wifiStore';
+import { useLanStore } from '../stores/lanStore';
+import { API_ROUTES } from '../utils/constants';
+import type { ConnectionStatus, LanHost } from '../types/api';
+
+// Topics published by the server on /ws/connection
+export type WsTopic = 'connection' | 'system' | 'wifi' | 'lan' | 'downloads' | 'fs_tasks' | 'vm' | 'calls' | 'speedtest';
 
 interface SystemStatusData {
   temp_cpu0?: number;
@@ -15,121 +23,108 @@ interface SystemStatusData {
   uptime_val?: number;
 }
 
-interface WebSocketMessage {
-  type: 'connection_status' | 'system_status';
-  data: ConnectionStatus | SystemStatusData;
+// GET /api/status: the payloads of the home page topics, null when unavailable
+interface DashboardStatus {
+  connection: ConnectionStatus | null;
+  system: SystemStatusData | null;
+  wifi: WifiFullStatus | null;
+  lan: LanHost[] | null;
 }
 
-interface UseConnectionWebSocketOptions {
-  enabled?: boolean;
-}
+type WebSocketMessage =
+  | { type: 'update'; topic: WsTopic; data: unknown }
+  | { type: 'subscribed'; topics: WsTopic[]; denied: string[] }
+  | { type: 'error'; message: string };
+
+type TopicHandler = (data: unknown) => void;
+
+const RECONNECT_DELAY = 3000;
 
 /**
- * Hook to manage WebSocket connection for real-time connection status updates
- * Replaces polling for /api/connection
+ * Shared WebSocket client
+ *
+ * A single socket per tab: stores subscribe to topics through it and the
+ * subscribe/unsubscribe requests are sent only when the first handler of a
+ * topic is added or the last one removed.
  */
-export function useConnectionWebSocket(options: UseConnectionWebSocketOptions = {}) {
-  const { enabled = true } = options;
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+class DashboardSocket {
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private enabled = false;
+  private handlers = new Map<WsTopic, Set<TopicHandler>>();
+  private statusListeners = new Set<(connected: boolean) => void>();
+  connected = false;
+
+  enable() {
+    if (this.enabled) return;
+    this.enabled = true;
+    this.connect();
+  }
+
+  disable() {
+    this.enabled = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.ws?.close();
+    this.ws = null;
+    this.setConnected(false);
+  }
+
+  subscribe(topic: WsTopic, handler: TopicHandler): () => void {
+    let handlers = this.handlers.get(topic);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(topic, handlers);
+    }
+    handlers.add(handler);
+    if (handlers.size === 1) this.send({ action: 'subscribe', topics: [topic] });
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.handlers.delete(topic);
+        this.send({ action: 'unsubscribe', topics: [topic] });
+      }
+    };
+  }
 
-  const { fetchConnectionStatus } = useConnectionStore();
+  onStatusChange(listener: (connected: boolean) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
 
-  const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return;
-    if (wsRef.current?.readyState === WebSocket.CONNECTING) return;
+  private connect() {
+    if (!this.enabled || this.ws) return;
 
     // Build WebSocket URL based on current location
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws/connection`;
+    const boxId = encodeURIComponent(useBoxStore.getState().currentBoxId);
+    const wsUrl = `${protocol}//${window.location.host}/ws/connection?box=${boxId}`;
 
     console.log('[WS Client] Connecting to:', wsUrl);
     const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
+    this.ws = ws;
 
     ws.onopen = () => {
       console.log('[WS Client] Connected');
-      setIsConnected(true);
-      // Do an initial fetch to get current state immediately
-      fetchConnectionStatus();
+      this.setConnected(true);
+      // Restore the subscriptions of this tab
+      if (this.handlers.size > 0) {
+        this.send({ action: 'subscribe', topics: [...this.handlers.keys()] });
+      }
     };
 
     ws.onmessage = (event) => {
       try {
         const message: WebSocketMessage = JSON.parse(event.data);
-
-        if (message.type === 'connection_status' && message.data) {
-          const status = message.data as ConnectionStatus;
-
-          // Update the store directly
-          useConnectionStore.setState((state) => {
-            const newPoint = {
-              time: new Date().toLocaleTimeString('fr-FR', {
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit'
-              }),
-              download: Math.round(status.rate_down / 1024),
-              upload: Math.round(status.rate_up / 1024)
-            };
-
-            return {
-              status,
-              error: null,
-              history: [...state.history.slice(-59), newPoint]
-            };
-          });
-        } else if (message.type === 'system_status' && message.data) {
-          const systemData = message.data as SystemStatusData;
-
-          // Update system store with real-time data
-          useSystemStore.setState((state) => {
-            // Calculate CPU temp: average of Ultra cores or use legacy cpum
-            let cpuM: number | undefined;
-            if (systemData.temp_cpu0 != null) {
-              // Ultra: average of 4 CPU cores
-              const temps = [
-                systemData.temp_cpu0,
-                systemData.temp_cpu1,
-                systemData.temp_cpu2,
-                systemData.temp_cpu3
-              ].filter((t): t is number => t != null);
-              cpuM = temps.length > 0 ? Math.round(temps.reduce((a, b) => a + b, 0) / temps.length) : undefined;
-            } else {
-              cpuM = systemData.temp_cpum;
-            }
-
-            const newPoint = {
-              time: new Date().toLocaleTimeString('fr-FR', {
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit'
-              }),
-              cpuM,
-              cpuB: systemData.temp_cpub,
-              sw: systemData.temp_sw
-            };
-
-            // Update info with latest values
-            const updatedInfo = state.info ? {
-              ...state.info,
-              temp_cpu0: systemData.temp_cpu0,
-              temp_cpu1: systemData.temp_cpu1,
-              temp_cpu2: systemData.temp_cpu2,
-              temp_cpu3: systemData.temp_cpu3,
-              temp_cpum: systemData.temp_cpum ?? cpuM,
-              temp_cpub: systemData.temp_cpub,
-              temp_sw: systemData.temp_sw,
-              fan_rpm: systemData.fan_rpm,
-              uptime_val: systemData.uptime_val ?? state.info.uptime_val
-            } : null;
-
-            return {
-              info: updatedInfo,
-              temperatureHistory: [...state.temperatureHistory.slice(-59), newPoint]
-            };
-          });
+        if (message.type === 'update') {
+          this.handlers.get(message.topic)?.forEach(handler => handler(message.data));
+        } else if (message.type === 'subscribed' && message.denied.length > 0) {
+          console.warn('[WS Client] Topics refused:', message.denied.join(', '));
+        } else if (message.type === 'error') {
+          console.error('[WS Client] Server error:', message.message);
         }
       } catch (error) {
         console.error('[WS Client] Failed to parse message:', error);
@@ -137,49 +132,181 @@ export function useConnectionWebSocket(options: UseConnectionWebSocketOptions =
     };
 
     ws.onclose = (event) => {
+      if (this.ws !== ws) return;
       console.log('[WS Client] Disconnected:', event.code, event.reason);
-      setIsConnected(false);
-      wsRef.current = null;
+      this.ws = null;
+      this.setConnected(false);
 
       // Reconnect after delay if still enabled
-      if (enabled) {
-        reconnectTimeoutRef.current = setTimeout(() => {
+      if (this.enabled) {
+        this.reconnectTimeout = setTimeout(() => {
+          this.reconnectTimeout = null;
           console.log('[WS Client] Attempting reconnect...');
-          connect();
-        }, 3000);
+          this.connect();
+        }, RECONNECT_DELAY);
       }
     };
 
     ws.onerror = (error) => {
       console.error('[WS Client] Error:', error);
     };
-  }, [enabled, fetchConnectionStatus]);
+  }
 
-  const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
+  private send(message: object) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
     }
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+}
+
+export const dashboardSocket = new DashboardSocket();
+
+const timeLabel = () =>
+  new Date().toLocaleTimeString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
 
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+// Real-time connection status: update the store and the 60 point history
+const applyConnectionStatus = (status: ConnectionStatus) => {
+  useConnectionStore.setState((state) => {
+    const newPoint = {
+      time: timeLabel(),
+      download: Math.round(status.rate_down / 1024),
+      upload: Math.round(status.rate_up / 1024)
+    };
+
+    return {
+      status,
+      error: null,
+      history: [...state.history.slice(-59), newPoint]
+    };
+  });
+};
+
+// Real-time temperatures and fan speed
+const applySystemStatus = (systemData: SystemStatusData) => {
+  useSystemStore.setState((state) => {
+    // Calculate CPU temp: average of Ultra cores or use legacy cpum
+    let cpuM: number | undefined;
+    if (systemData.temp_cpu0 != null) {
+      // Ultra: average of 4 CPU cores
+      const temps = [
+        systemData.temp_cpu0,
+        systemData.temp_cpu1,
+        systemData.temp_cpu2,
+        systemData.temp_cpu3
+      ].filter((t): t is number => t != null);
+      cpuM = temps.length > 0 ? Math.round(temps.reduce((a, b) => a + b, 0) / temps.length) : undefined;
+    } else {
+      cpuM = systemData.temp_cpum;
     }
 
-    setIsConnected(false);
-  }, []);
+    const newPoint = {
+      time: timeLabel(),
+      cpuM,
+      cpuB: systemData.temp_cpub,
+      sw: systemData.temp_sw
+    };
+
+    // Update info with latest values
+    const updatedInfo = state.info ? {
+      ...state.info,
+      temp_cpu0: systemData.temp_cpu0,
+      temp_cpu1: systemData.temp_cpu1,
+      temp_cpu2: systemData.temp_cpu2,
+      temp_cpu3: systemData.temp_cpu3,
+      temp_cpum: systemData.temp_cpum ?? cpuM,
+      temp_cpub: systemData.temp_cpub,
+      temp_sw: systemData.temp_sw,
+      fan_rpm: systemData.fan_rpm,
+      uptime_val: systemData.uptime_val ?? state.info.uptime_val
+    } : null;
+
+    return {
+      info: updatedInfo,
+      temperatureHistory: [...state.temperatureHistory.slice(-59), newPoint]
+    };
+  });
+};
+
+/**
+ * Home page widgets of users without the settings permission, while the
+ * WebSocket is down (they cannot read /api/system, /api/wifi or /api/lan)
+ */
+export const fetchDashboardStatus = async () => {
+  try {
+    const response = await api.get<DashboardStatus>(API_ROUTES.STATUS);
+    if (!response.success || !response.result) return;
+    const { connection, system, wifi, lan } = response.result;
+    if (connection) applyConnectionStatus(connection);
+    if (system) applySystemStatus(system);
+    if (wifi) useWifiStore.getState().setWifiStatus(wifi);
+    if (lan) useLanStore.getState().setHosts(lan);
+  } catch {
+    // Silently fail - the next poll catches up
+  }
+};
+
+interface UseWebSocketTopicOptions {
+  enabled?: boolean;
+}
+
+/**
+ * Subscribe to a topic of the shared WebSocket while mounted
+ */
+export function useWebSocketTopic<T>(
+  topic: WsTopic,
+  handler: (data: T) => void,
+  options: UseWebSocketTopicOptions = {}
+) {
+  const { enabled = true } = options;
+  const savedHandler = useRef(handler);
+
+  // Remember the latest handler
+  useEffect(() => {
+    savedHandler.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return dashboardSocket.subscribe(topic, (data) => savedHandler.current(data as T));
+  }, [topic, enabled]);
+}
+
+interface UseConnectionWebSocketOptions {
+  enabled?: boolean;
+}
+
+/**
+ * Hook owning the shared WebSocket (mounted once, in App)
+ * Replaces polling for /api/connection and system temperatures; other
+ * stores subscribe with useWebSocketTopic and poll only while disconnected
+ */
+export function useConnectionWebSocket(options: UseConnectionWebSocketOptions = {}) {
+  const { enabled = true } = options;
+  const [isConnected, setIsConnected] = useState(dashboardSocket.connected);
+
+  useEffect(() => dashboardSocket.onStatusChange(setIsConnected), []);
 
   useEffect(() => {
     if (enabled) {
-      connect();
+      dashboardSocket.enable();
     } else {
-      disconnect();
+      dashboardSocket.disable();
     }
+    return () => dashboardSocket.disable();
+  }, [enabled]);
 
-    return () => {
-      disconnect();
-    };
-  }, [enabled, connect, disconnect]);
+  useWebSocketTopic<ConnectionStatus>('connection', applyConnectionStatus, { enabled });
+  useWebSocketTopic<SystemStatusData>('system', applySystemStatus, { enabled });
 
   return { isConnected };
 }
@@ -13,7 +13,8 @@ import {
   Server,
   ChevronLeft,
   BarChart2,
-  AlertTriangle
+  Gauge,
+  Info
 } from 'lucide-react';
 import {
   AreaChart,
@@ -38,10 +39,13 @@ import { useWifiStore } from '../stores/wifiStore';
 import { useLanStore } from '../stores/lanStore';
 import { useUptimeStore } from '../stores/uptimeStore';
 import { useCapabilitiesStore } from '../stores/capabilitiesStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useBoxStore, isDefaultBox } from '../stores/boxStore';
+import { SpeedtestHistoryTab } from '../components/analytics/SpeedtestHistoryTab';
 import { formatSpeed, formatBitrate } from '../utils/constants';
 import type { SystemSensor, SystemFan } from '../types/api';
 
-type TimeRange = '1h' | '6h' | '24h' | '7d';
+type TimeRange = '1h' | '6h' | '24h' | '7d' | '30d' | '90d';
 
 const COLORS = {
   blue: '#3b82f6',
@@ -54,6 +58,16 @@ const COLORS = {
   yellow: '#eab308'
 };
 
+// Days of speed test history shown for each time range
+const SPEEDTEST_DAYS: Record<TimeRange, number> = {
+  '1h': 1,
+  '6h': 1,
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
 const PIE_COLORS = [COLORS.blue, COLORS.green, COLORS.cyan, COLORS.orange, COLORS.purple, COLORS.pink];
 
 interface AnalyticsPageProps {
@@ -61,12 +75,14 @@ interface AnalyticsPageProps {
 }
 
 export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
-  const { status, history, extendedHistory, temperatureHistory, rrdPermissionDenied, fetchExtendedHistory, fetchTemperatureHistory } = useConnectionStore();
+  const { status, history, extendedHistory, temperatureHistory, fetchExtendedHistory, fetchTemperatureHistory } = useConnectionStore();
   const { info, temperatureHistory: systemTempHistory } = useSystemStore();
   const { networks } = useWifiStore();
   const { devices } = useLanStore();
-  const { getHistoryForDisplay } = useUptimeStore();
+  const { getHistoryForDisplay, fetchHistory: fetchUptimeHistory } = useUptimeStore();
+  const defaultBox = useBoxStore(state => isDefaultBox(state.currentBoxId));
   const { capabilities } = useCapabilitiesStore();
+  const canEditSettings = useSessionStore((state) => state.canAccess('settings', 'write'));
 
   // Sensor name normalization (clean up API names for display)
   const normalizeSensorName = (id: string, name: string): string => {
@@ -208,7 +224,10 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
   const hddAvgTemp = getAvgTemp(hddSensors);
   const fanAvgRpm = getAvgFanRpm(fans);
 
-  // Get uptime data from store
+  // Get uptime data from store (daily history computed by the server)
+  useEffect(() => {
+    fetchUptimeHistory();
+  }, [fetchUptimeHistory]);
   const uptimeHistory = getHistoryForDisplay();
   const uptimePercentage = React.useMemo(() => {
     if (!uptimeHistory.length) return 100;
@@ -216,7 +235,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
     return Math.round((upDays / uptimeHistory.length) * 100);
   }, [uptimeHistory]);
 
-  const [activeTab, setActiveTab] = useState<'bandwidth' | 'temperature' | 'wifi' | 'system'>('bandwidth');
+  const [activeTab, setActiveTab] = useState<'bandwidth' | 'speedtest' | 'temperature' | 'wifi' | 'system'>('bandwidth');
   const [timeRange, setTimeRange] = useState<TimeRange>('1h');
 
   // Fetch extended history on mount and when time range changes
@@ -225,7 +244,9 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
       '1h': 3600,
       '6h': 21600,
       '24h': 86400,
-      '7d': 604800
+      '7d': 604800,
+      '30d': 2592000,
+      '90d': 7776000
     };
 
     // Initial fetch
@@ -339,6 +360,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
 
   const tabs = [
     { id: 'bandwidth' as const, label: 'Bande passante', icon: Activity },
+    { id: 'speedtest' as const, label: 'Tests de débit', icon: Gauge },
     { id: 'temperature' as const, label: 'Température', icon: Thermometer },
     { id: 'wifi' as const, label: 'WiFi', icon: Wifi },
     { id: 'system' as const, label: 'Système', icon: Server }
@@ -370,7 +392,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
 
             {/* Time Range Selector */}
             <div className="flex items-center gap-2 bg-[#1a1a1a] rounded-lg p-1">
-              {(['1h', '6h', '24h', '7d'] as TimeRange[]).map(range => (
+              {(['1h', '6h', '24h', '7d', '30d', '90d'] as TimeRange[]).map(range => (
                 <button
                   key={range}
                   onClick={() => setTimeRange(range)}
@@ -407,62 +429,53 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
         ))}
       </div>
 
+      {/* The server only collects the history of the default box */}
+      {!defaultBox && (
+        <div className="flex items-center gap-2 px-4 py-3 text-sm text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg">
+          <Info className="w-4 h-4 flex-shrink-0" />
+          L'historique (débits, températures, disponibilité) n'est collecté que pour la Freebox principale : seules les valeurs en temps réel sont affichées.
+        </div>
+      )}
+
       {/* Bandwidth Tab */}
       {activeTab === 'bandwidth' && (
         <div className="space-y-6">
-          {/* Permission Warning */}
-          {rrdPermissionDenied && (
-            <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 flex items-start gap-3">
-              <AlertTriangle className="w-5 h-5 text-orange-500 flex-shrink-0 mt-0.5" />
-              <div>
-                <h4 className="text-orange-500 font-semibold">Permission insuffisante</h4>
-                <p className="text-gray-400 text-sm mt-1">
-                  La permission <span className="text-white font-medium">"Modification des réglages de la Freebox"</span> est
-                  nécessaire pour afficher les statistiques moyennes et maximales des débits.
-                </p>
-                <p className="text-gray-500 text-xs mt-2">
-                  Allez dans Freebox OS → Paramètres → Gestion des accès → Applications → Sélectionnez cette application et activez la permission.
-                </p>
-              </div>
-            </div>
-          )}
-
           {/* Stats Cards */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800 ${rrdPermissionDenied ? 'opacity-50' : ''}`}>
+            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800`}>
               <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
                 <Download className="w-4 h-4 text-blue-500" />
                 Débit moyen ↓
               </div>
               <div className="text-2xl font-bold text-white">
-                {rrdPermissionDenied ? 'N/A' : formatSpeed(bandwidthStats.avgDown * 1024)}
+                {formatSpeed(bandwidthStats.avgDown * 1024)}
               </div>
             </div>
-            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800 ${rrdPermissionDenied ? 'opacity-50' : ''}`}>
+            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800`}>
               <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
                 <Upload className="w-4 h-4 text-green-500" />
                 Débit moyen ↑
               </div>
               <div className="text-2xl font-bold text-white">
-                {rrdPermissionDenied ? 'N/A' : formatSpeed(bandwidthStats.avgUp * 1024)}
+                {formatSpeed(bandwidthStats.avgUp * 1024)}
               </div>
             </div>
-            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800 ${rrdPermissionDenied ? 'opacity-50' : ''}`}>
+            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800`}>
               <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
                 <Zap className="w-4 h-4 text-blue-500" />
                 Débit max ↓
               </div>
               <div className="text-2xl font-bold text-white">
-                {rrdPermissionDenied ? 'N/A' : formatSpeed(bandwidthStats.maxDown * 1024)}
+                {formatSpeed(bandwidthStats.maxDown * 1024)}
               </div>
             </div>
-            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800 ${rrdPermissionDenied ? 'opacity-50' : ''}`}>
+            <div className={`bg-[#121212] rounded-xl p-4 border border-gray-800`}>
               <div className="flex items-center gap-2 text-gray-500 text-sm mb-2">
                 <Zap className="w-4 h-4 text-green-500" />
                 Débit max ↑
               </div>
               <div className="text-2xl font-bold text-white">
-                {rrdPermissionDenied ? 'N/A' : formatSpeed(bandwidthStats.maxUp * 1024)}
+                {formatSpeed(bandwidthStats.maxUp * 1024)}
               </div>
             </div>
           </div>
@@ -503,7 +516,7 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
               </h3>
               <span className="text-xs text-gray-500">
                 {extendedHistory.length > 0
-                  ? `${extendedHistory.length} points (RRD)`
+                  ? `${extendedHistory.length} points (historique serveur)`
                   : `${history.length} points (live)`}
               </span>
             </div>
@@ -568,6 +581,11 @@ export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onBack }) => {
         </div>
       )}
 
+      {/* Speed Test Tab */}
+      {activeTab === 'speedtest' && (
+        <SpeedtestHistoryTab days={SPEEDTEST_DAYS[timeRange]} readOnly={!canEditSettings} />
+      )}
+
       {/* Temperature Tab */}
       {activeTab === 'temperature' && (
         <div className="space-y-6">
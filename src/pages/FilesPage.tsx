@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   Folder,
   File,
@@ -37,15 +37,30 @@ import {
   Plus,
   Upload,
   RotateCcw,
-  LinkIcon
+  LinkIcon,
+  ListTodo,
+  PackageOpen,
+  FolderSearch,
+  Files
 } from 'lucide-react';
-import { useFsStore, type FsFile, type ShareLink } from '../stores/fsStore';
+import { api } from '../api/client';
+import { useFsStore, fileDownloadUrl, type FsFile, type ShareLink } from '../stores/fsStore';
 import { useDownloadsStore, useSystemStore } from '../stores';
 import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useUploadStore } from '../stores/uploadStore';
+import { useFsTaskStore, isTaskFinished, taskErrorLabel } from '../stores/fsTaskStore';
+import { useFileSearchStore } from '../stores/fileSearchStore';
+import { useWebSocketTopic } from '../hooks/useConnectionWebSocket';
 import { PermissionBanner } from '../components/ui/PermissionBanner';
 import { ToastContainer, type ToastData } from '../components/ui/Toast';
 import { DownloadDetails } from '../components/downloads/DownloadDetails';
-import type { DownloadTask } from '../types';
+import { UploadQueue } from '../components/files/UploadQueue';
+import { FilePreview } from '../components/files/FilePreview';
+import { FileTasksDrawer } from '../components/files/FileTasksDrawer';
+import { FileSearchResults } from '../components/files/FileSearchResults';
+import { DuplicatesModal } from '../components/files/DuplicatesModal';
+import type { DownloadTask, FsTask } from '../types';
 
 // Map model to display name
 const getDisplayName = (model: string): string => {
@@ -117,6 +132,10 @@ const getFileIconColor = (file: FsFile): string => {
   return 'text-gray-400';
 };
 
+// Archives the Freebox can extract
+const isArchive = (file: FsFile): boolean =>
+  file.type === 'file' && /\.(zip|rar|7z|tar|tar\.gz|tgz|tar\.bz2|tar\.xz|iso)$/i.test(file.name);
+
 // File item component
 const FileItem: React.FC<{
   file: FsFile;
@@ -132,8 +151,11 @@ const FileItem: React.FC<{
   onCopy: () => void;
   onMove: () => void;
   onShare: () => void;
+  onDownload: () => void;
+  onExtract: () => void;
   onDelete: () => void;
-}> = ({ file, isSelected, isShared, isRootFolder, isParentDir, viewMode, onSelect, onOpen, onContextMenu, onRename, onCopy, onMove, onShare, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ file, isSelected, isShared, isRootFolder, isParentDir, viewMode, onSelect, onOpen, onContextMenu, onRename, onCopy, onMove, onShare, onDownload, onExtract, onDelete, readOnly = false }) => {
   const Icon = getFileIcon(file);
   const iconColor = getFileIconColor(file);
   const [showMenu, setShowMenu] = useState(false);
@@ -191,26 +213,42 @@ const FileItem: React.FC<{
                 className="absolute right-0 top-8 bg-[#1a1a1a] border border-gray-700 rounded-lg shadow-xl py-1 min-w-[160px] z-50"
                 onClick={(e) => e.stopPropagation()}
               >
-                <button
-                  onClick={() => { if (!isRootFolder) { onRename(); setShowMenu(false); } }}
-                  disabled={isRootFolder}
-                  className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootFolder ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
-                >
-                  <Edit3 size={14} /> Renommer
-                </button>
-                <button onClick={() => { onCopy(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
-                  <Copy size={14} /> Copier
-                </button>
-                <button onClick={() => { onMove(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
-                  <Move size={14} /> Déplacer
-                </button>
-                <button onClick={() => { onShare(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2">
-                  <Share2 size={14} /> Partager
-                </button>
-                <div className="border-t border-gray-700 my-1" />
-                <button onClick={() => { onDelete(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2">
-                  <Trash2 size={14} /> Supprimer
+                {!readOnly && (
+                  <>
+                    <button
+                      onClick={() => { if (!isRootFolder) { onRename(); setShowMenu(false); } }}
+                      disabled={isRootFolder}
+                      className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootFolder ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
+                    >
+                      <Edit3 size={14} /> Renommer
+                    </button>
+                    <button onClick={() => { onCopy(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                      <Copy size={14} /> Copier
+                    </button>
+                    <button onClick={() => { onMove(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                      <Move size={14} /> Déplacer
+                    </button>
+                    <button onClick={() => { onShare(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2">
+                      <Share2 size={14} /> Partager
+                    </button>
+                  </>
+                )}
+                <button onClick={() => { onDownload(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                  <Download size={14} /> {file.type === 'dir' ? 'Télécharger (zip)' : 'Télécharger'}
                 </button>
+                {!readOnly && isArchive(file) && (
+                  <button onClick={() => { onExtract(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                    <PackageOpen size={14} /> Extraire ici
+                  </button>
+                )}
+                {!readOnly && (
+                  <>
+                    <div className="border-t border-gray-700 my-1" />
+                    <button onClick={() => { onDelete(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2">
+                      <Trash2 size={14} /> Supprimer
+                    </button>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -314,26 +352,42 @@ const FileItem: React.FC<{
               className="absolute right-0 top-8 bg-[#1a1a1a] border border-gray-700 rounded-lg shadow-xl py-1 min-w-[160px] z-50"
               onClick={(e) => e.stopPropagation()}
             >
-              <button
-                onClick={() => { if (!isRootFolder) { onRename(); setShowMenu(false); } }}
-                disabled={isRootFolder}
-                className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootFolder ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
-              >
-                <Edit3 size={14} /> Renommer
-              </button>
-              <button onClick={() => { onCopy(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
-                <Copy size={14} /> Copier
-              </button>
-              <button onClick={() => { onMove(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
-                <Move size={14} /> Déplacer
-              </button>
-              <button onClick={() => { onShare(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2">
-                <Share2 size={14} /> Partager
-              </button>
-              <div className="border-t border-gray-700 my-1" />
-              <button onClick={() => { onDelete(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2">
-                <Trash2 size={14} /> Supprimer
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={() => { if (!isRootFolder) { onRename(); setShowMenu(false); } }}
+                    disabled={isRootFolder}
+                    className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootFolder ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
+                  >
+                    <Edit3 size={14} /> Renommer
+                  </button>
+                  <button onClick={() => { onCopy(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                    <Copy size={14} /> Copier
+                  </button>
+                  <button onClick={() => { onMove(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                    <Move size={14} /> Déplacer
+                  </button>
+                  <button onClick={() => { onShare(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2">
+                    <Share2 size={14} /> Partager
+                  </button>
+                </>
+              )}
+              <button onClick={() => { onDownload(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                <Download size={14} /> {file.type === 'dir' ? 'Télécharger (zip)' : 'Télécharger'}
               </button>
+              {!readOnly && isArchive(file) && (
+                <button onClick={() => { onExtract(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2">
+                  <PackageOpen size={14} /> Extraire ici
+                </button>
+              )}
+              {!readOnly && (
+                <>
+                  <div className="border-t border-gray-700 my-1" />
+                  <button onClick={() => { onDelete(); setShowMenu(false); }} className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2">
+                    <Trash2 size={14} /> Supprimer
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -353,7 +407,8 @@ const DownloadItem: React.FC<{
   onResume: () => void;
   onRetry: () => void;
   onDelete: () => void;
-}> = ({ task, isSelected, onSelect, onPause, onResume, onRetry, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ task, isSelected, onSelect, onPause, onResume, onRetry, onDelete, readOnly = false }) => {
   const isActive = task.status === 'downloading' || task.status === 'seeding';
   const isPaused = task.status === 'paused';
   const isDone = task.status === 'done';
@@ -430,42 +485,44 @@ const DownloadItem: React.FC<{
             )}
           </div>
         </div>
-        <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
-          {isActive && (
-            <button
-              onClick={onPause}
-              className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
-              title="Pause"
-            >
-              <Pause size={16} />
-            </button>
-          )}
-          {(isPaused || isQueued) && (
-            <button
-              onClick={onResume}
-              className="p-2 text-gray-400 hover:text-emerald-400 hover:bg-emerald-900/20 rounded-lg transition-colors"
-              title="Reprendre"
-            >
-              <Play size={16} />
-            </button>
-          )}
-          {isError && (
+        {!readOnly && (
+          <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+            {isActive && (
+              <button
+                onClick={onPause}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                title="Pause"
+              >
+                <Pause size={16} />
+              </button>
+            )}
+            {(isPaused || isQueued) && (
+              <button
+                onClick={onResume}
+                className="p-2 text-gray-400 hover:text-emerald-400 hover:bg-emerald-900/20 rounded-lg transition-colors"
+                title="Reprendre"
+              >
+                <Play size={16} />
+              </button>
+            )}
+            {isError && (
+              <button
+                onClick={onRetry}
+                className="p-2 text-gray-400 hover:text-amber-400 hover:bg-amber-900/20 rounded-lg transition-colors"
+                title="Réessayer"
+              >
+                <RotateCcw size={16} />
+              </button>
+            )}
             <button
-              onClick={onRetry}
-              className="p-2 text-gray-400 hover:text-amber-400 hover:bg-amber-900/20 rounded-lg transition-colors"
-              title="Réessayer"
+              onClick={onDelete}
+              className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
+              title="Supprimer"
             >
-              <RotateCcw size={16} />
+              <X size={16} />
             </button>
-          )}
-          <button
-            onClick={onDelete}
-            className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
-            title="Supprimer"
-          >
-            <X size={16} />
-          </button>
-        </div>
+          </div>
+        )}
       </div>
       {!isDone && (
         <div className="mt-2">
@@ -526,11 +583,30 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
     deleteDownload
   } = useDownloadsStore();
 
+  const enqueueUploads = useUploadStore(state => state.enqueue);
+
   // Get permissions from auth store
   const { permissions, freeboxUrl } = useAuthStore();
   const hasExplorerPermission = permissions.explorer === true;
   const hasDownloaderPermission = permissions.downloader === true;
 
+  // Dashboard role: read-only users browse files and downloads without changing them
+  const canEditFiles = useSessionStore((state) => state.canAccess('explorer', 'write'));
+  const canManageDownloads = useSessionStore((state) => state.canAccess('downloader', 'write'));
+
+  // Copies, moves, deletions and archives running on the Freebox, live while the page is open
+  const {
+    tasks: fsTasks,
+    isOpen: isTasksOpen,
+    fetchTasks,
+    applyTasks,
+    setOpen: setTasksOpen,
+    extractArchive,
+    createArchive
+  } = useFsTaskStore();
+  useWebSocketTopic('fs_tasks', applyTasks, { enabled: hasExplorerPermission });
+  const runningTasks = fsTasks.filter(task => !isTaskFinished(task)).length;
+
   // Get box name from system store
   const { info: systemInfo } = useSystemStore();
   const boxName = getDisplayName(systemInfo?.board_name || '');
@@ -538,6 +614,10 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
   const [activeTab, setActiveTab] = useState<'files' | 'downloads' | 'shares'>(initialTab || 'files');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
   const [searchQuery, setSearchQuery] = useState('');
+  // Search the whole storage (server index) instead of the current folder
+  const [searchEverywhere, setSearchEverywhere] = useState(false);
+  const searchResults = useFileSearchStore(state => state.results);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [showNewFolderModal, setShowNewFolderModal] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
 
@@ -559,6 +639,17 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
   const [createdShareLink, setCreatedShareLink] = useState<ShareLink | null>(null);
   const [linkCopied, setLinkCopied] = useState(false);
 
+  // File upload (button and drag-and-drop onto the current folder)
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // File shown in the preview lightbox
+  const [previewFile, setPreviewFile] = useState<FsFile | null>(null);
+
+  // Paths to archive and name of the archive (modal open when set)
+  const [archiveFiles, setArchiveFiles] = useState<string[] | null>(null);
+  const [archiveName, setArchiveName] = useState('');
+
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FsFile } | null>(null);
 
@@ -591,6 +682,17 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
+  // Operations run as Freebox tasks end at once, or go on in the tasks drawer
+  const notifyTask = (task: FsTask | null, done: string, started: string, failed: string) => {
+    if (!task) {
+      addToast('error', failed);
+    } else if (task.state === 'failed') {
+      addToast('error', `${failed} : ${taskErrorLabel(task.error)}`);
+    } else {
+      addToast('success', task.state === 'done' ? done : started);
+    }
+  };
+
   // Fetch data on mount
   useEffect(() => {
     fetchDisks();
@@ -600,6 +702,10 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
     listFiles('/');
   }, [fetchDisks, fetchDownloads, fetchShareLinks, listFiles]);
 
+  useEffect(() => {
+    if (hasExplorerPermission) fetchTasks();
+  }, [hasExplorerPermission, fetchTasks]);
+
   // Select initial download when downloads are loaded
   useEffect(() => {
     if (initialDownloadId && downloads.length > 0 && !selectedDownload) {
@@ -663,8 +769,17 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
       } else {
         navigateTo(file.path);
       }
+    } else {
+      setPreviewFile(file);
     }
-    // For files, could open preview or download
+  };
+
+  // Folder of a search or duplicate result
+  const openResultFolder = (path: string) => {
+    setSearchEverywhere(false);
+    setSearchQuery('');
+    setShowDuplicates(false);
+    navigateTo(path);
   };
 
   // Check if a file is shared
@@ -713,19 +828,48 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
     setShowShareModal(true);
   };
 
+  // A folder or several paths come as a zip
+  const handleDownload = (paths: string[]) => {
+    window.open(fileDownloadUrl(paths), '_blank');
+  };
+
   const handleSingleFileDelete = async (file: FsFile) => {
     if (confirm(`Supprimer "${file.name}" ?`)) {
       const toastId = addToast('loading', `Suppression de "${file.name}"...`);
-      const success = await deleteFiles([file.path]);
+      const task = await deleteFiles([file.path]);
       removeToast(toastId);
-      if (success) {
-        addToast('success', `"${file.name}" supprimé`);
-      } else {
-        addToast('error', 'Erreur lors de la suppression');
-      }
+      notifyTask(task, `"${file.name}" supprimé`, `Suppression de "${file.name}" lancée`, 'Erreur lors de la suppression');
     }
   };
 
+  // Extracted next to the archive
+  const handleExtract = async (file: FsFile) => {
+    const task = await extractArchive(file.path, currentPath);
+    notifyTask(task, `"${file.name}" extrait`, `Extraction de "${file.name}" lancée`, 'Erreur lors de l\'extraction');
+  };
+
+  // Suggested name: the file or folder, or the current folder for a selection
+  const openArchiveModal = (paths: string[]) => {
+    const first = files.find(f => f.path === paths[0]);
+    const base = paths.length === 1 && first
+      ? (first.type === 'dir' ? first.name : first.name.replace(/\.[^.]+$/, ''))
+      : pathParts[pathParts.length - 1]?.name || 'archive';
+    setArchiveFiles(paths);
+    setArchiveName(`${base}.zip`);
+  };
+
+  const handleCreateArchive = async () => {
+    const name = archiveName.trim();
+    if (!archiveFiles || !name) return;
+    const paths = archiveFiles;
+    setArchiveFiles(null);
+    setArchiveName('');
+    clearSelection();
+
+    const task = await createArchive(paths, currentPath, name);
+    notifyTask(task, `Archive "${name}" créée`, `Création de "${name}" lancée`, 'Erreur lors de la création de l\'archive');
+  };
+
   // Handle create folder
   const handleCreateFolder = async () => {
     if (newFolderName.trim()) {
@@ -743,6 +887,44 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
   };
 
   // Handle add download
+  const handleUploadFiles = (selected: File[]) => {
+    if (selected.length === 0) return;
+    if (currentPath === '/') {
+      addToast('error', 'Impossible d\'envoyer des fichiers à la racine, ouvrez un disque');
+      return;
+    }
+    enqueueUploads(selected, currentPath);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    // Only files dragged from the computer, not text or links
+    if (!canEditFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = currentPath === '/' ? 'none' : 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canEditFiles || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragOver(false);
+    // Folders can't be read as files, keep only regular files
+    const { items } = e.dataTransfer;
+    const dropped: File[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const file = items[i].kind === 'file' && !items[i].webkitGetAsEntry()?.isDirectory ? items[i].getAsFile() : null;
+      if (file) dropped.push(file);
+    }
+    if (dropped.length < items.length) {
+      addToast('warning', 'Les dossiers ne peuvent pas être envoyés, seuls les fichiers sont ajoutés');
+    }
+    handleUploadFiles(dropped);
+  };
+
   const handleAddDownload = async () => {
     setIsAddingDownload(true);
     const toastId = addToast('loading', 'Ajout du téléchargement...');
@@ -806,13 +988,9 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
     const count = selectedFiles.length;
     if (count > 0 && confirm(`Supprimer ${count} élément(s) ?`)) {
       const toastId = addToast('loading', `Suppression de ${count} élément(s)...`);
-      const success = await deleteFiles(selectedFiles);
+      const task = await deleteFiles(selectedFiles);
       removeToast(toastId);
-      if (success) {
-        addToast('success', `${count} élément(s) supprimé(s)`);
-      } else {
-        addToast('error', 'Erreur lors de la suppression');
-      }
+      notifyTask(task, `${count} élément(s) supprimé(s)`, `Suppression de ${count} élément(s) lancée`, 'Erreur lors de la suppression');
     }
   };
 
@@ -849,13 +1027,9 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
 
       const toastId = addToast('loading', `Copie de ${count} élément(s) en cours...`);
       // Use destPath (base64 encoded) for the API
-      const success = await copyFiles(filesToCopy, destPath);
+      const task = await copyFiles(filesToCopy, destPath);
       removeToast(toastId);
-      if (success) {
-        addToast('success', `${count} élément(s) copié(s) vers ${dest}`);
-      } else {
-        addToast('error', 'Erreur lors de la copie');
-      }
+      notifyTask(task, `${count} élément(s) copié(s) vers ${dest}`, `Copie de ${count} élément(s) vers ${dest} lancée`, 'Erreur lors de la copie');
     }
   };
 
@@ -875,13 +1049,9 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
 
       const toastId = addToast('loading', `Déplacement de ${count} élément(s) en cours...`);
       // Use browserPath (base64 encoded) for the API
-      const success = await moveFiles(filesToMove, destPath);
+      const task = await moveFiles(filesToMove, destPath);
       removeToast(toastId);
-      if (success) {
-        addToast('success', `${count} élément(s) déplacé(s) vers ${dest}`);
-      } else {
-        addToast('error', 'Erreur lors du déplacement');
-      }
+      notifyTask(task, `${count} élément(s) déplacé(s) vers ${dest}`, `Déplacement de ${count} élément(s) vers ${dest} lancé`, 'Erreur lors du déplacement');
     }
   };
 
@@ -943,11 +1113,10 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
       const url = (path === '/' || path === '')
         ? '/api/fs/list'
         : `/api/fs/list?path=${encodeURIComponent(path)}`;
-      const response = await fetch(url);
-      const data = await response.json();
-      if (data.success && data.result) {
+      const response = await api.get<FsFile[]>(url);
+      if (response.success && response.result) {
         // Only show directories
-        const dirs = data.result.filter((f: FsFile) => f.type === 'dir');
+        const dirs = response.result.filter((f: FsFile) => f.type === 'dir');
         setBrowserFiles(dirs);
         // For root, we store '/' as a marker, but for operations we'll need to select a subfolder
         setBrowserPath(path);
@@ -1115,6 +1284,9 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
             {!hasExplorerPermission && (
               <PermissionBanner permission="explorer" freeboxUrl={freeboxUrl} />
             )}
+            {hasExplorerPermission && !canEditFiles && (
+              <PermissionBanner permission="explorer" role />
+            )}
 
             {/* No disk warning */}
             {!hasDisk && hasExplorerPermission && (
@@ -1166,12 +1338,26 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                   <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
                   <input
                     type="text"
-                    placeholder="Rechercher..."
+                    placeholder={searchEverywhere ? 'Rechercher partout...' : 'Rechercher...'}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-8 pr-3 py-1.5 bg-[#1a1a1a] border border-gray-700 rounded-lg text-sm text-white placeholder:text-gray-500 focus:outline-none focus:border-blue-500 w-40"
+                    className={`pl-8 pr-3 py-1.5 bg-[#1a1a1a] border border-gray-700 rounded-lg text-sm text-white placeholder:text-gray-500 focus:outline-none focus:border-blue-500 ${searchEverywhere ? 'w-56' : 'w-40'}`}
                   />
                 </div>
+                <button
+                  onClick={() => setSearchEverywhere(!searchEverywhere)}
+                  className={`p-2 rounded-lg transition-colors ${searchEverywhere ? 'bg-blue-600/20 text-blue-400' : 'hover:bg-gray-800'}`}
+                  title={searchEverywhere ? 'Rechercher dans le dossier courant' : 'Rechercher dans tout le stockage'}
+                >
+                  <FolderSearch size={16} />
+                </button>
+                <button
+                  onClick={() => setShowDuplicates(true)}
+                  className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
+                  title="Fichiers en double"
+                >
+                  <Files size={16} />
+                </button>
                 <button
                   onClick={() => setViewMode(viewMode === 'grid' ? 'list' : 'grid')}
                   className="p-2 hover:bg-gray-800 rounded-lg transition-colors"
@@ -1200,14 +1386,48 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                   <ArrowUp size={14} />
                   Dossier parent
                 </button>
+                {canEditFiles && (
+                  <>
+                    <button
+                      onClick={() => setShowNewFolderModal(true)}
+                      disabled={currentPath === '/'}
+                      title={currentPath === '/' ? 'Impossible de créer un dossier à la racine' : 'Nouveau dossier'}
+                      className="flex items-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                    >
+                      <FolderPlus size={14} />
+                      Nouveau dossier
+                    </button>
+                    <button
+                      onClick={() => uploadInputRef.current?.click()}
+                      disabled={currentPath === '/'}
+                      title={currentPath === '/' ? 'Impossible d\'envoyer des fichiers à la racine' : 'Envoyer des fichiers (ou glissez-les dans la liste)'}
+                      className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] disabled:opacity-50 disabled:cursor-not-allowed border border-gray-700 rounded-lg transition-colors"
+                    >
+                      <Upload size={14} />
+                      Envoyer
+                    </button>
+                    <input
+                      ref={uploadInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        handleUploadFiles(Array.from(e.target.files ?? []));
+                        e.target.value = '';
+                      }}
+                    />
+                  </>
+                )}
                 <button
-                  onClick={() => setShowNewFolderModal(true)}
-                  disabled={currentPath === '/'}
-                  title={currentPath === '/' ? 'Impossible de créer un dossier à la racine' : 'Nouveau dossier'}
-                  className="flex items-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  onClick={() => setTasksOpen(!isTasksOpen)}
+                  title="Copies, déplacements et archives en cours sur la Freebox"
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
                 >
-                  <FolderPlus size={14} />
-                  Nouveau dossier
+                  <ListTodo size={14} />
+                  Tâches
+                  {runningTasks > 0 && (
+                    <span className="px-1.5 text-[10px] bg-blue-600 text-white rounded-full">{runningTasks}</span>
+                  )}
                 </button>
               </div>
               <div className="flex items-center gap-2">
@@ -1220,63 +1440,87 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                     >
                       Annuler
                     </button>
-                    {selectedFiles.length === 1 && !isRootLevelFolder(selectedFiles[0]) && (
-                      <button
-                        onClick={() => {
-                          const file = files.find(f => f.path === selectedFiles[0]);
-                          if (file) {
-                            setRenameTarget(file);
-                            setNewName(file.name);
-                            setShowRenameModal(true);
-                          }
-                        }}
-                        className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
-                        title="Renommer"
-                      >
-                        <Edit3 size={14} />
-                        Renommer
-                      </button>
+                    {canEditFiles && (
+                      <>
+                        {selectedFiles.length === 1 && !isRootLevelFolder(selectedFiles[0]) && (
+                          <button
+                            onClick={() => {
+                              const file = files.find(f => f.path === selectedFiles[0]);
+                              if (file) {
+                                setRenameTarget(file);
+                                setNewName(file.name);
+                                setShowRenameModal(true);
+                              }
+                            }}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
+                            title="Renommer"
+                          >
+                            <Edit3 size={14} />
+                            Renommer
+                          </button>
+                        )}
+                        <button
+                          onClick={openCopyModal}
+                          className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
+                          title="Copier"
+                        >
+                          <Copy size={14} />
+                          Copier
+                        </button>
+                        <button
+                          onClick={openMoveModal}
+                          className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
+                          title="Déplacer"
+                        >
+                          <Move size={14} />
+                          Déplacer
+                        </button>
+                      </>
                     )}
                     <button
-                      onClick={openCopyModal}
+                      onClick={() => handleDownload(selectedFiles)}
                       className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
-                      title="Copier"
+                      title={selectedFiles.length > 1 ? 'Télécharger la sélection en zip' : 'Télécharger'}
                     >
-                      <Copy size={14} />
-                      Copier
-                    </button>
-                    <button
-                      onClick={openMoveModal}
-                      className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
-                      title="Déplacer"
-                    >
-                      <Move size={14} />
-                      Déplacer
+                      <Download size={14} />
+                      Télécharger
                     </button>
-                    {selectedFiles.length === 1 && (
-                      <button
-                        onClick={() => {
-                          const file = files.find(f => f.path === selectedFiles[0]);
-                          if (file) {
-                            setShareTarget(file);
-                            setCreatedShareLink(null);
-                            setShowShareModal(true);
-                          }
-                        }}
-                        className="flex items-center gap-2 px-3 py-1.5 text-xs bg-purple-600/20 hover:bg-purple-600/30 text-purple-400 rounded-lg transition-colors"
-                        title="Partager"
-                      >
-                        <Share2 size={14} />
-                        Partager
-                      </button>
+                    {canEditFiles && (
+                      <>
+                        <button
+                          onClick={() => openArchiveModal(selectedFiles)}
+                          className="flex items-center gap-2 px-3 py-1.5 text-xs bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
+                          title="Créer une archive sur la Freebox"
+                        >
+                          <FileArchive size={14} />
+                          Archiver
+                        </button>
+                        {selectedFiles.length === 1 && (
+                          <button
+                            onClick={() => {
+                              const file = files.find(f => f.path === selectedFiles[0]);
+                              if (file) {
+                                setShareTarget(file);
+                                setCreatedShareLink(null);
+                                setShowShareModal(true);
+                              }
+                            }}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs bg-purple-600/20 hover:bg-purple-600/30 text-purple-400 rounded-lg transition-colors"
+                            title="Partager"
+                          >
+                            <Share2 size={14} />
+                            Partager
+                          </button>
+                        )}
+                        <button
+                          onClick={handleDeleteSelected}
+                          className="flex items-center gap-2 px-3 py-1.5 text-xs bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors"
+                        >
+                          <Trash2 size={14} />
+                          Supprimer
+                        </button>
+                      </>
                     )}
-                    <button
-                      onClick={handleDeleteSelected}
-                      className="flex items-center gap-2 px-3 py-1.5 text-xs bg-red-600/20 hover:bg-red-600/30 text-red-400 rounded-lg transition-colors"
-                    >
-                      <Trash2 size={14} />
-                      Supprimer
-                    </button>
                   </>
                 ) : (
                   <button
@@ -1289,7 +1533,27 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
               </div>
             </div>
 
-            {/* File list */}
+            {canEditFiles && <UploadQueue />}
+
+            {searchEverywhere ? (
+              <FileSearchResults query={searchQuery} onOpenFolder={openResultFolder} onPreview={setPreviewFile} />
+            ) : (
+            <>
+            {/* File list, files dropped on it are uploaded to the current folder */}
+            <div
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              className={`relative rounded-xl transition-colors ${isDragOver ? 'ring-2 ring-blue-500/60 bg-blue-500/5' : ''}`}
+            >
+            {isDragOver && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+                <div className="flex items-center gap-2 px-4 py-2 bg-[#1a1a1a] border border-blue-500/50 rounded-lg text-sm text-blue-300">
+                  <Upload size={16} />
+                  {currentPath === '/' ? 'Ouvrez un disque pour y déposer des fichiers' : 'Déposez les fichiers pour les envoyer ici'}
+                </div>
+              </div>
+            )}
             {isLoading ? (
               <div className="flex items-center justify-center py-16">
                 <Loader2 size={32} className="text-blue-400 animate-spin" />
@@ -1316,7 +1580,10 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                       onCopy={() => handleSingleFileCopy(file)}
                       onMove={() => handleSingleFileMove(file)}
                       onShare={() => handleSingleFileShare(file)}
+                      onDownload={() => handleDownload([file.path])}
+                      onExtract={() => handleExtract(file)}
                       onDelete={() => handleSingleFileDelete(file)}
+                      readOnly={!canEditFiles}
                     />
                   ))}
                 </div>
@@ -1352,6 +1619,9 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                   {searchQuery ? 'Aucun fichier ne correspond à votre recherche.' : 'Ce dossier ne contient aucun fichier.'}
                 </p>
               </div>
+            )}
+            </div>
+            </>
             )}
               </>
             )}
@@ -1365,16 +1635,21 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
             {!hasDownloaderPermission && (
               <PermissionBanner permission="downloader" freeboxUrl={freeboxUrl} />
             )}
+            {hasDownloaderPermission && !canManageDownloads && (
+              <PermissionBanner permission="downloader" role />
+            )}
 
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-3">
-                <button
-                  onClick={() => setShowAddDownloadModal(true)}
-                  className="flex items-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
-                >
-                  <Plus size={14} />
-                  Ajouter
-                </button>
+                {canManageDownloads && (
+                  <button
+                    onClick={() => setShowAddDownloadModal(true)}
+                    className="flex items-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+                  >
+                    <Plus size={14} />
+                    Ajouter
+                  </button>
+                )}
                 {activeDownloads > 0 && (
                   <span className="text-sm text-emerald-400">{activeDownloads} téléchargement(s) en cours</span>
                 )}
@@ -1408,6 +1683,7 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                         deleteDownload(task.id, false);
                       }
                     }}
+                    readOnly={!canManageDownloads}
                   />
                 ))}
               </div>
@@ -1418,13 +1694,15 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                 <p className="text-gray-500 text-center max-w-md">
                   Vos téléchargements actifs et terminés apparaîtront ici.
                 </p>
-                <button
-                  onClick={() => setShowAddDownloadModal(true)}
-                  className="mt-4 flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
-                >
-                  <Plus size={16} />
-                  Ajouter un téléchargement
-                </button>
+                {canManageDownloads && (
+                  <button
+                    onClick={() => setShowAddDownloadModal(true)}
+                    className="mt-4 flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+                  >
+                    <Plus size={16} />
+                    Ajouter un téléchargement
+                  </button>
+                )}
               </div>
             )}
 
@@ -1434,6 +1712,7 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                 <DownloadDetails
                   task={selectedDownload}
                   onClose={() => setSelectedDownload(null)}
+                  readOnly={!canManageDownloads}
                 />
               </div>
             )}
@@ -1487,16 +1766,18 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
                           {linkCopied ? <Check size={14} /> : <Copy size={14} />}
                           {linkCopied ? 'Copié !' : 'Copier le lien'}
                         </button>
-                        <button
-                          onClick={async () => {
-                            if (confirm('Supprimer ce lien de partage ?')) {
-                              await deleteShareLink(link.token);
-                            }
-                          }}
-                          className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
-                        >
-                          <Trash2 size={16} />
-                        </button>
+                        {canEditFiles && (
+                          <button
+                            onClick={async () => {
+                              if (confirm('Supprimer ce lien de partage ?')) {
+                                await deleteShareLink(link.token);
+                              }
+                            }}
+                            className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
                       </div>
                     </div>
                     {link.fullurl && (
@@ -1593,6 +1874,48 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
           </div>
         )}
 
+        {/* Archive Modal */}
+        {archiveFiles && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-[#121212] rounded-xl border border-gray-800 p-6 w-full max-w-md">
+              <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                <FileArchive size={20} className="text-orange-400" />
+                Archiver {archiveFiles.length} élément(s)
+              </h3>
+              <p className="text-sm text-gray-400 mb-4">
+                L'archive est créée dans le dossier courant, son format suit l'extension : .zip, .7z, .tar, .tar.gz, .tar.bz2 ou .tar.xz.
+              </p>
+              <input
+                type="text"
+                placeholder="Nom de l'archive"
+                value={archiveName}
+                onChange={(e) => setArchiveName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateArchive()}
+                className="w-full px-4 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg text-white placeholder:text-gray-500 focus:outline-none focus:border-blue-500"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-4">
+                <button
+                  onClick={() => {
+                    setArchiveFiles(null);
+                    setArchiveName('');
+                  }}
+                  className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  onClick={handleCreateArchive}
+                  disabled={!archiveName.trim()}
+                  className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                >
+                  Archiver
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Copy Modal */}
         {showCopyModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -1990,6 +2313,24 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
         )}
       </main>
 
+      {/* File preview */}
+      {previewFile && (
+        <FilePreview
+          file={previewFile}
+          files={searchEverywhere ? searchResults : filteredFiles}
+          onNavigate={setPreviewFile}
+          onClose={() => setPreviewFile(null)}
+        />
+      )}
+
+      {/* Background file operations */}
+      <FileTasksDrawer />
+
+      {/* Duplicate finder */}
+      {showDuplicates && (
+        <DuplicatesModal onClose={() => setShowDuplicates(false)} onOpenFolder={openResultFolder} />
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <div
@@ -2000,38 +2341,68 @@ export const FilesPage: React.FC<FilesPageProps> = ({ onBack, initialTab, initia
           <div className="px-3 py-2 border-b border-gray-700">
             <p className="text-xs text-gray-400 truncate max-w-[160px]">{contextMenu.file.name}</p>
           </div>
+          {canEditFiles && (
+            <>
+              <button
+                onClick={() => { if (!isRootLevelFolder(contextMenu.file.path)) { handleSingleFileRename(contextMenu.file); setContextMenu(null); } }}
+                disabled={isRootLevelFolder(contextMenu.file.path)}
+                className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootLevelFolder(contextMenu.file.path) ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
+              >
+                <Edit3 size={14} /> Renommer
+              </button>
+              <button
+                onClick={() => { handleSingleFileCopy(contextMenu.file); setContextMenu(null); }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
+              >
+                <Copy size={14} /> Copier
+              </button>
+              <button
+                onClick={() => { handleSingleFileMove(contextMenu.file); setContextMenu(null); }}
+                className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
+              >
+                <Move size={14} /> Déplacer
+              </button>
+              <button
+                onClick={() => { handleSingleFileShare(contextMenu.file); setContextMenu(null); }}
+                className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2"
+              >
+                <Share2 size={14} /> Partager
+              </button>
+            </>
+          )}
           <button
-            onClick={() => { if (!isRootLevelFolder(contextMenu.file.path)) { handleSingleFileRename(contextMenu.file); setContextMenu(null); } }}
-            disabled={isRootLevelFolder(contextMenu.file.path)}
-            className={`w-full px-3 py-2 text-left text-sm flex items-center gap-2 ${isRootLevelFolder(contextMenu.file.path) ? 'text-gray-600 cursor-not-allowed' : 'text-gray-300 hover:bg-gray-800'}`}
-          >
-            <Edit3 size={14} /> Renommer
-          </button>
-          <button
-            onClick={() => { handleSingleFileCopy(contextMenu.file); setContextMenu(null); }}
-            className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
-          >
-            <Copy size={14} /> Copier
-          </button>
-          <button
-            onClick={() => { handleSingleFileMove(contextMenu.file); setContextMenu(null); }}
+            onClick={() => { handleDownload([contextMenu.file.path]); setContextMenu(null); }}
             className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
           >
-            <Move size={14} /> Déplacer
-          </button>
-          <button
-            onClick={() => { handleSingleFileShare(contextMenu.file); setContextMenu(null); }}
-            className="w-full px-3 py-2 text-left text-sm text-purple-400 hover:bg-gray-800 flex items-center gap-2"
-          >
-            <Share2 size={14} /> Partager
-          </button>
-          <div className="border-t border-gray-700 my-1" />
-          <button
-            onClick={() => { handleSingleFileDelete(contextMenu.file); setContextMenu(null); }}
-            className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2"
-          >
-            <Trash2 size={14} /> Supprimer
+            <Download size={14} /> {contextMenu.file.type === 'dir' ? 'Télécharger (zip)' : 'Télécharger'}
           </button>
+          {canEditFiles && isArchive(contextMenu.file) && (
+            <button
+              onClick={() => { handleExtract(contextMenu.file); setContextMenu(null); }}
+              className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
+            >
+              <PackageOpen size={14} /> Extraire ici
+            </button>
+          )}
+          {canEditFiles && !isRootLevelFolder(contextMenu.file.path) && (
+            <button
+              onClick={() => { openArchiveModal([contextMenu.file.path]); setContextMenu(null); }}
+              className="w-full px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 flex items-center gap-2"
+            >
+              <FileArchive size={14} /> Archiver
+            </button>
+          )}
+          {canEditFiles && (
+            <>
+              <div className="border-t border-gray-700 my-1" />
+              <button
+                onClick={() => { handleSingleFileDelete(contextMenu.file); setContextMenu(null); }}
+                className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-gray-800 flex items-center gap-2"
+              >
+                <Trash2 size={14} /> Supprimer
+              </button>
+            </>
+          )}
         </div>
       )}
 
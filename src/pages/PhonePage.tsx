@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { usePhoneStore } from '../stores';
 import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useWebSocketTopic } from '../hooks/useConnectionWebSocket';
 import { PermissionBanner } from '../components/ui/PermissionBanner';
 import type { CallEntry, Contact } from '../types/api';
 
@@ -88,7 +90,8 @@ const getCallTypeLabel = (type: CallEntry['type']): string => {
 const CallEntryCard: React.FC<{
   call: CallEntry;
   onDelete: (id: number) => void;
-}> = ({ call, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ call, onDelete, readOnly = false }) => {
   const [showConfirm, setShowConfirm] = useState(false);
   const Icon = getCallIcon(call.type);
   const isMissed = call.type === 'missed';
@@ -137,17 +140,19 @@ const CallEntryCard: React.FC<{
           </div>
         </div>
       </div>
-      <button
-        onClick={handleDelete}
-        className={`p-2 rounded-lg transition-colors ${
-          showConfirm
-            ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
-            : 'text-gray-500 hover:bg-gray-700 hover:text-white'
-        }`}
-        title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
-      >
-        <Trash2 size={16} />
-      </button>
+      {!readOnly && (
+        <button
+          onClick={handleDelete}
+          className={`p-2 rounded-lg transition-colors ${
+            showConfirm
+              ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+              : 'text-gray-500 hover:bg-gray-700 hover:text-white'
+          }`}
+          title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
     </div>
   );
 };
@@ -157,7 +162,8 @@ const ContactCard: React.FC<{
   contact: Contact;
   onDelete: (id: number) => void;
   onEdit: (contact: Contact) => void;
-}> = ({ contact, onDelete, onEdit }) => {
+  readOnly?: boolean;
+}> = ({ contact, onDelete, onEdit, readOnly = false }) => {
   const [showConfirm, setShowConfirm] = useState(false);
 
   const handleDelete = () => {
@@ -172,8 +178,8 @@ const ContactCard: React.FC<{
 
   return (
     <div
-      className="bg-[#1a1a1a] rounded-lg p-4 hover:bg-[#202020] transition-colors cursor-pointer"
-      onClick={() => onEdit(contact)}
+      className={`bg-[#1a1a1a] rounded-lg p-4 transition-colors ${readOnly ? '' : 'hover:bg-[#202020] cursor-pointer'}`}
+      onClick={readOnly ? undefined : () => onEdit(contact)}
     >
       <div className="flex items-start justify-between gap-3">
         <div className="flex items-center gap-3">
@@ -187,20 +193,22 @@ const ContactCard: React.FC<{
             )}
           </div>
         </div>
-        <button
-          onClick={(e) => {
-            e.stopPropagation();
-            handleDelete();
-          }}
-          className={`p-2 rounded-lg transition-colors ${
-            showConfirm
-              ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
-              : 'text-gray-500 hover:bg-gray-700 hover:text-white'
-          }`}
-          title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
-        >
-          <Trash2 size={16} />
-        </button>
+        {!readOnly && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDelete();
+            }}
+            className={`p-2 rounded-lg transition-colors ${
+              showConfirm
+                ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+                : 'text-gray-500 hover:bg-gray-700 hover:text-white'
+            }`}
+            title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
       </div>
       {contact.numbers && contact.numbers.length > 0 && (
         <div className="mt-3 space-y-1.5">
@@ -405,6 +413,7 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
     isLoading,
     error,
     fetchCalls,
+    setCalls,
     fetchContacts,
     markCallsAsRead,
     deleteCall,
@@ -419,6 +428,10 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
   const hasCallsPermission = permissions.calls === true;
   const hasContactsPermission = permissions.contacts === true;
 
+  // Dashboard role: read-only users see the call log and contacts without changing them
+  const canEditCalls = useSessionStore((state) => state.canAccess('calls', 'write'));
+  const canEditContacts = useSessionStore((state) => state.canAccess('contacts', 'write'));
+
   const [activeTab, setActiveTab] = useState<'calls' | 'contacts'>('calls');
   const [searchQuery, setSearchQuery] = useState('');
   const [callFilter, setCallFilter] = useState<'all' | 'missed' | 'incoming' | 'outgoing'>('all');
@@ -431,6 +444,9 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
     fetchContacts();
   }, [fetchCalls, fetchContacts]);
 
+  // Live call log while the page is open
+  useWebSocketTopic('calls', setCalls, { enabled: hasCallsPermission });
+
   // Filter calls
   const filteredCalls = calls.filter(call => {
     // Filter by type
@@ -555,7 +571,7 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
           </div>
 
           {/* Actions */}
-          {activeTab === 'calls' && calls.length > 0 && (
+          {activeTab === 'calls' && calls.length > 0 && canEditCalls && (
             <div className="flex items-center gap-2">
               {newCallsCount > 0 && (
                 <button
@@ -576,7 +592,7 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
             </div>
           )}
 
-          {activeTab === 'contacts' && (
+          {activeTab === 'contacts' && canEditContacts && (
             <button
               onClick={() => {
                 setEditingContact(undefined);
@@ -634,6 +650,9 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
             {!hasCallsPermission && (
               <PermissionBanner permission="calls" freeboxUrl={freeboxUrl} />
             )}
+            {hasCallsPermission && !canEditCalls && (
+              <PermissionBanner permission="calls" role />
+            )}
 
             {filteredCalls.length > 0 ? (
               <div className="space-y-2">
@@ -642,6 +661,7 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
                     key={call.id}
                     call={call}
                     onDelete={deleteCall}
+                    readOnly={!canEditCalls}
                   />
                 ))}
               </div>
@@ -672,6 +692,9 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
             {!hasContactsPermission && (
               <PermissionBanner permission="contacts" freeboxUrl={freeboxUrl} />
             )}
+            {hasContactsPermission && !canEditContacts && (
+              <PermissionBanner permission="contacts" role />
+            )}
 
             {filteredContacts.length > 0 ? (
               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
@@ -684,6 +707,7 @@ export const PhonePage: React.FC<PhonePageProps> = ({ onBack }) => {
                       setEditingContact(c);
                       setShowContactForm(true);
                     }}
+                    readOnly={!canEditContacts}
                   />
                 ))}
               </div>
@@ -22,24 +22,44 @@ import {
   Plus,
   Trash2,
   Edit2,
-  Calendar
+  UserCog,
+  Bell,
+  Webhook,
+  Router,
+  Stethoscope,
+  CalendarClock,
+  DatabaseBackup,
+  History,
+  ScrollText
 } from 'lucide-react';
 import { api } from '../api/client';
 import { API_ROUTES } from '../utils/constants';
 import { ParentalControlModal } from '../components/modals/ParentalControlModal';
 import { PortForwardingModal } from '../components/modals/PortForwardingModal';
 import { VpnModal } from '../components/modals/VpnModal';
-import { RebootScheduleModal } from '../components/modals/RebootScheduleModal';
+import { UsersPanel } from '../components/settings/UsersPanel';
+import { RolesPanel } from '../components/settings/RolesPanel';
+import { AlertsPanel } from '../components/settings/AlertsPanel';
+import { WebhooksPanel } from '../components/settings/WebhooksPanel';
+import { BoxesPanel } from '../components/settings/BoxesPanel';
+import { DiagnosticsPanel } from '../components/settings/DiagnosticsPanel';
+import { SchedulerPanel } from '../components/settings/SchedulerPanel';
+import { BackupPanel } from '../components/settings/BackupPanel';
+import { ConfigHistoryPanel } from '../components/settings/ConfigHistoryPanel';
+import { AuditLogPanel } from '../components/settings/AuditLogPanel';
+import { UnsupportedFeature } from '../components/ui';
 import { useLanStore } from '../stores/lanStore';
 import { useAuthStore } from '../stores/authStore';
 import { useSystemStore } from '../stores/systemStore';
-import { getPermissionErrorMessage, getPermissionShortError, getFreeboxSettingsUrl } from '../utils/permissions';
+import { useSessionStore } from '../stores/sessionStore';
+import { useBoxStore, isDefaultBox } from '../stores/boxStore';
+import { getPermissionErrorMessage, getPermissionShortError, getFreeboxSettingsUrl, getRolePermissionMessage } from '../utils/permissions';
 
 interface SettingsPageProps {
   onBack: () => void;
 }
 
-type SettingsTab = 'network' | 'wifi' | 'dhcp' | 'storage' | 'security' | 'system';
+type SettingsTab = 'network' | 'wifi' | 'dhcp' | 'storage' | 'security' | 'system' | 'scheduler' | 'history' | 'alerts' | 'webhooks' | 'diagnostics' | 'users' | 'boxes' | 'backup' | 'audit';
 
 // Toggle component
 const Toggle: React.FC<{
@@ -125,7 +145,6 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
   const [showParentalModal, setShowParentalModal] = useState(false);
   const [showFirewallModal, setShowFirewallModal] = useState(false);
   const [showVpnModal, setShowVpnModal] = useState(false);
-  const [showRebootScheduleModal, setShowRebootScheduleModal] = useState(false);
 
   // Get devices from LAN store for parental control
   const { devices } = useLanStore();
@@ -134,9 +153,29 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
   // Get permissions and freebox URL from auth store
   const { permissions, freeboxUrl } = useAuthStore();
 
+  // Dashboard role of the logged-in user
+  const { canAccess, isAdmin } = useSessionStore();
+  const currentBoxId = useBoxStore(state => state.currentBoxId);
+
   // Helper to check if a permission is granted (defaults to false if not present)
-  const hasPermission = (permission: keyof typeof permissions): boolean => {
-    return permissions[permission] === true;
+  // Both the Freebox app and the dashboard role must allow the change
+  const hasPermission = (permission: 'settings' | 'parental'): boolean => {
+    return permissions[permission] === true && canAccess(permission, 'write');
+  };
+
+  // Section warning: the dashboard role takes precedence over missing Freebox rights
+  const getSectionPermissionError = (permission: 'settings' | 'parental'): string | null => {
+    if (!canAccess(permission, 'write')) return getRolePermissionMessage(permission);
+    if (permissions[permission] !== true) return getPermissionErrorMessage(permission);
+    return null;
+  };
+
+  // Only link to the Freebox settings when the Freebox rights are what is missing
+  const getSectionSettingsUrl = (permission: 'settings' | 'parental'): string | null => {
+    if (canAccess(permission, 'write') && permissions[permission] !== true) {
+      return getFreeboxSettingsUrl(freeboxUrl);
+    }
+    return null;
   };
 
   // Connection settings
@@ -523,7 +562,20 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
     { id: 'dhcp', label: 'DHCP', icon: Network },
     { id: 'storage', label: 'Stockage', icon: HardDrive },
     { id: 'security', label: 'Sécurité', icon: Shield },
-    { id: 'system', label: 'Système', icon: Server }
+    { id: 'system', label: 'Système', icon: Server },
+    { id: 'scheduler', label: 'Planification', icon: CalendarClock },
+    { id: 'history', label: 'Historique', icon: History },
+    { id: 'alerts', label: 'Alertes', icon: Bell },
+    // Webhook URLs often embed a token: only for users allowed to change them
+    ...(canAccess('settings', 'write') ? [{ id: 'webhooks' as const, label: 'Webhooks', icon: Webhook }] : []),
+    { id: 'diagnostics', label: 'Diagnostic', icon: Stethoscope },
+    // Account management is reserved to dashboard administrators
+    ...(isAdmin() ? [
+      { id: 'users' as const, label: 'Utilisateurs', icon: UserCog },
+      { id: 'boxes' as const, label: 'Freebox', icon: Router },
+      { id: 'backup' as const, label: 'Sauvegarde', icon: DatabaseBackup },
+      { id: 'audit' as const, label: 'Journal d\'audit', icon: ScrollText }
+    ] : [])
   ];
 
   return (
@@ -609,7 +661,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* Network settings */}
         {!isLoading && activeTab === 'network' && connectionConfig && (
           <div className="space-y-6">
-            <Section title="Accès distant" icon={Globe} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Accès distant" icon={Globe} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="Accès distant"
                 description="Permet l'accès à la Freebox depuis Internet"
@@ -632,7 +684,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
               </SettingRow>
             </Section>
 
-            <Section title="Options réseau" icon={Network} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Options réseau" icon={Network} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="Réponse au ping"
                 description="Répond aux requêtes ping depuis Internet"
@@ -676,7 +728,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* WiFi settings */}
         {!isLoading && activeTab === 'wifi' && (
           <div className="space-y-6">
-            <Section title="Planification WiFi" icon={Clock} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Planification WiFi" icon={Clock} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="Planification active"
                 description="Active les horaires d'extinction automatique du WiFi"
@@ -692,7 +744,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
               </div>
             </Section>
 
-            <Section title="Filtrage MAC" icon={Shield} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Filtrage MAC" icon={Shield} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <div className="py-4 text-sm text-gray-500">
                 <p>Le filtrage MAC permet de restreindre l'accès au WiFi à des appareils spécifiques.</p>
                 <p className="mt-2">Mode liste blanche : seuls les appareils autorisés peuvent se connecter.</p>
@@ -716,7 +768,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* DHCP settings */}
         {!isLoading && activeTab === 'dhcp' && dhcpConfig && (
           <div className="space-y-6">
-            <Section title="Serveur DHCP" icon={Network} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Serveur DHCP" icon={Network} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="DHCP activé"
                 description="Attribution automatique des adresses IP"
@@ -807,7 +859,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
             </button>
 
             {/* Static Leases Section */}
-            <Section title="Baux DHCP statiques" icon={Network} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Baux DHCP statiques" icon={Network} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <div className="flex items-center justify-between py-3">
                 <span className="text-xs text-gray-500">({staticLeases.length} bail{staticLeases.length !== 1 ? 'x' : ''})</span>
                 <button
@@ -875,7 +927,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* Storage (FTP) settings */}
         {!isLoading && activeTab === 'storage' && ftpConfig && (
           <div className="space-y-6">
-            <Section title="Serveur FTP" icon={Share2} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Serveur FTP" icon={Share2} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="FTP activé"
                 description="Permet l'accès aux fichiers via FTP"
@@ -927,7 +979,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* Security settings */}
         {!isLoading && activeTab === 'security' && (
           <div className="space-y-6">
-            <Section title="Contrôle parental" icon={Users} permissionError={!hasPermission('parental') ? getPermissionErrorMessage('parental') : null} freeboxSettingsUrl={!hasPermission('parental') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Contrôle parental" icon={Users} permissionError={getSectionPermissionError('parental')} freeboxSettingsUrl={getSectionSettingsUrl('parental')}>
               <SettingRow
                 label="Règles de filtrage"
                 description="Règles de contrôle parental pour limiter l'accès Internet"
@@ -959,7 +1011,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
               )}
             </Section>
 
-            <Section title="Pare-feu - Redirection de ports" icon={Shield} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Pare-feu - Redirection de ports" icon={Shield} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="Règles actives"
                 description="Redirections de ports configurées sur la Freebox"
@@ -1008,7 +1060,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
               )}
             </Section>
 
-            <Section title="Serveur VPN" icon={Lock} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Serveur VPN" icon={Lock} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow
                 label="Serveur VPN"
                 description="Permet de se connecter au réseau local depuis l'extérieur"
@@ -1066,7 +1118,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         {/* System settings */}
         {!isLoading && activeTab === 'system' && lcdConfig && (
           <div className="space-y-6">
-            <Section title="Écran LCD" icon={Monitor} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Écran LCD" icon={Monitor} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <SettingRow label="Luminosité">
                 <div className="flex items-center gap-3">
                   <input
@@ -1103,7 +1155,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
               </SettingRow>
             </Section>
 
-            <Section title="Actions système" icon={Power} permissionError={!hasPermission('settings') ? getPermissionErrorMessage('settings') : null} freeboxSettingsUrl={!hasPermission('settings') ? getFreeboxSettingsUrl(freeboxUrl) : null}>
+            <Section title="Actions système" icon={Power} permissionError={getSectionPermissionError('settings')} freeboxSettingsUrl={getSectionSettingsUrl('settings')}>
               <div className="py-4 space-y-3">
                 <button
                   onClick={handleReboot}
@@ -1114,11 +1166,11 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                   <Power size={16} className="text-orange-400" />
                 </button>
                 <button
-                  onClick={() => setShowRebootScheduleModal(true)}
+                  onClick={() => setActiveTab('scheduler')}
                   className="w-full flex items-center justify-between px-4 py-3 bg-[#1a1a1a] hover:bg-[#252525] border border-gray-700 rounded-lg transition-colors"
                 >
                   <span className="text-sm text-white">Programmer le redémarrage</span>
-                  <Calendar size={16} className="text-blue-400" />
+                  <CalendarClock size={16} className="text-blue-400" />
                 </button>
                 <p className="text-xs text-gray-600 px-1">
                   Le redémarrage prend environ 2-3 minutes. Toutes les connexions seront interrompues.
@@ -1137,6 +1189,111 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
           </div>
         )}
 
+        {/* Scheduled jobs and run history */}
+        {!isLoading && activeTab === 'scheduler' && (
+          <Section title="Tâches planifiées" icon={CalendarClock}>
+            <div className="py-4">
+              <SchedulerPanel readOnly={!canAccess('settings', 'write')} />
+            </div>
+          </Section>
+        )}
+
+        {/* Configuration changes timeline */}
+        {!isLoading && activeTab === 'history' && (
+          <Section title="Historique de la configuration" icon={History}>
+            <div className="py-4">
+              <ConfigHistoryPanel readOnly={!canAccess('settings', 'write')} />
+            </div>
+          </Section>
+        )}
+
+        {/* Alert rules and notification channels */}
+        {!isLoading && activeTab === 'alerts' && (
+          <Section title="Alertes" icon={Bell}>
+            <div className="py-4">
+              {isDefaultBox(currentBoxId) ? (
+                <AlertsPanel readOnly={!canAccess('settings', 'write')} />
+              ) : (
+                <UnsupportedFeature
+                  feature="Alertes"
+                  description="Les alertes surveillent uniquement la Freebox principale : sélectionnez-la dans l'en-tête pour les configurer."
+                  showModelName={false}
+                />
+              )}
+            </div>
+          </Section>
+        )}
+
+        {/* Outgoing webhooks and delivery log */}
+        {!isLoading && activeTab === 'webhooks' && canAccess('settings', 'write') && (
+          <Section title="Webhooks" icon={Webhook}>
+            <div className="py-4">
+              {isDefaultBox(currentBoxId) ? (
+                <WebhooksPanel />
+              ) : (
+                <UnsupportedFeature
+                  feature="Webhooks"
+                  description="Les webhooks suivent uniquement les événements de la Freebox principale : sélectionnez-la dans l'en-tête pour les configurer."
+                  showModelName={false}
+                />
+              )}
+            </div>
+          </Section>
+        )}
+
+        {/* Network diagnostics run from the dashboard server */}
+        {!isLoading && activeTab === 'diagnostics' && (
+          <Section title="Diagnostic réseau" icon={Stethoscope}>
+            <div className="py-4">
+              <DiagnosticsPanel readOnly={!canAccess('settings', 'write')} />
+            </div>
+          </Section>
+        )}
+
+        {/* Dashboard users */}
+        {!isLoading && activeTab === 'users' && isAdmin() && (
+          <div className="space-y-6">
+            <Section title="Comptes du dashboard" icon={UserCog}>
+              <div className="py-4">
+                <UsersPanel />
+              </div>
+            </Section>
+
+            <Section title="Rôles" icon={Shield}>
+              <div className="py-4">
+                <RolesPanel />
+              </div>
+            </Section>
+          </div>
+        )}
+
+        {/* Freebox profiles */}
+        {!isLoading && activeTab === 'boxes' && isAdmin() && (
+          <Section title="Freebox gérées" icon={Router}>
+            <div className="py-4">
+              <BoxesPanel />
+            </div>
+          </Section>
+        )}
+
+        {/* Configuration backup */}
+        {!isLoading && activeTab === 'backup' && isAdmin() && (
+          <Section title="Sauvegarde de la configuration" icon={DatabaseBackup}>
+            <div className="py-4">
+              <BackupPanel />
+            </div>
+          </Section>
+        )}
+
+        {/* Audit log of mutating actions */}
+        {!isLoading && activeTab === 'audit' && isAdmin() && (
+          <Section title="Journal d'audit" icon={ScrollText}>
+            <div className="py-4">
+              <AuditLogPanel />
+            </div>
+          </Section>
+        )}
+
         {/* No disk placeholder for some tabs */}
         {!isLoading && (activeTab === 'network' && !connectionConfig) && (
           <div className="flex flex-col items-center justify-center py-16">
@@ -1199,12 +1356,6 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
         onClose={() => setShowVpnModal(false)}
       />
 
-      {/* Reboot Schedule Modal */}
-      <RebootScheduleModal
-        isOpen={showRebootScheduleModal}
-        onClose={() => setShowRebootScheduleModal(false)}
-      />
-
       {/* DHCP Static Lease Modal */}
       {showLeaseModal && editingLease && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
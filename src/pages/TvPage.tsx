@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { useTvStore, useSystemStore } from '../stores';
 import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
 import { PermissionBanner } from '../components/ui/PermissionBanner';
 import type { PvrRecording, PvrProgrammed, TvChannel } from '../types/api';
 
@@ -62,7 +63,8 @@ const formatSize = (bytes: number): string => {
 const RecordingCard: React.FC<{
   recording: PvrRecording;
   onDelete: (id: number) => void;
-}> = ({ recording, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ recording, onDelete, readOnly = false }) => {
   const [showConfirm, setShowConfirm] = useState(false);
 
   const handleDelete = () => {
@@ -97,17 +99,19 @@ const RecordingCard: React.FC<{
               En cours
             </span>
           )}
-          <button
-            onClick={handleDelete}
-            className={`p-2 rounded-lg transition-colors ${
-              showConfirm
-                ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
-                : 'hover:bg-gray-700 text-gray-400 hover:text-white'
-            }`}
-            title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
-          >
-            <Trash2 size={16} />
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleDelete}
+              className={`p-2 rounded-lg transition-colors ${
+                showConfirm
+                  ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+                  : 'hover:bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+              title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
         </div>
       </div>
 
@@ -147,7 +151,8 @@ const RecordingCard: React.FC<{
 const ProgrammedCard: React.FC<{
   programmed: PvrProgrammed;
   onDelete: (id: number) => void;
-}> = ({ programmed, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ programmed, onDelete, readOnly = false }) => {
   const [showConfirm, setShowConfirm] = useState(false);
 
   const handleDelete = () => {
@@ -196,17 +201,19 @@ const ProgrammedCard: React.FC<{
               Désactivé
             </span>
           )}
-          <button
-            onClick={handleDelete}
-            className={`p-2 rounded-lg transition-colors ${
-              showConfirm
-                ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
-                : 'hover:bg-gray-700 text-gray-400 hover:text-white'
-            }`}
-            title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
-          >
-            <Trash2 size={16} />
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleDelete}
+              className={`p-2 rounded-lg transition-colors ${
+                showConfirm
+                  ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+                  : 'hover:bg-gray-700 text-gray-400 hover:text-white'
+              }`}
+              title={showConfirm ? 'Confirmer la suppression' : 'Supprimer'}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
         </div>
       </div>
 
@@ -501,6 +508,9 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
   const { permissions, freeboxUrl } = useAuthStore();
   const hasPvrPermission = permissions.pvr === true;
 
+  // Dashboard role: read-only users see the recordings but can't program or delete them
+  const canManageRecordings = useSessionStore((state) => state.canAccess('tv', 'write'));
+
   const [activeTab, setActiveTab] = useState<'recordings' | 'programmed'>('recordings');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showRecordingForm, setShowRecordingForm] = useState(false);
@@ -597,6 +607,10 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
           </div>
         )}
 
+        {hasDisk && !canManageRecordings && (
+          <PermissionBanner permission="tv" role />
+        )}
+
         {/* PVR Config Panel */}
         {hasDisk && pvrConfig && (
           <div className="mb-6 p-4 bg-[#151515] border border-gray-800 rounded-xl">
@@ -615,8 +629,8 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
               <div className="flex items-center gap-3">
                 <button
                   onClick={handleTogglePvr}
-                  disabled={togglingPvr}
-                  className={`relative w-12 h-6 rounded-full transition-colors ${
+                  disabled={togglingPvr || !canManageRecordings}
+                  className={`relative w-12 h-6 rounded-full transition-colors disabled:cursor-not-allowed ${
                     pvrConfig.enabled ? 'bg-emerald-600' : 'bg-gray-600'
                   }`}
                 >
@@ -630,7 +644,7 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
                     />
                   )}
                 </button>
-                {pvrConfig.enabled && channels.length > 0 && (
+                {pvrConfig.enabled && channels.length > 0 && canManageRecordings && (
                   <button
                     onClick={() => setShowRecordingForm(true)}
                     className="flex items-center gap-2 px-3 py-1.5 bg-purple-600 hover:bg-purple-500 text-white text-xs font-medium rounded-lg transition-colors"
@@ -717,6 +731,7 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
                         key={recording.id}
                         recording={recording}
                         onDelete={handleDeleteRecording}
+                        readOnly={!canManageRecordings}
                       />
                     ))}
                   </div>
@@ -750,6 +765,7 @@ export const TvPage: React.FC<TvPageProps> = ({ onBack }) => {
                         key={prog.id}
                         programmed={prog}
                         onDelete={handleDeleteProgrammed}
+                        readOnly={!canManageRecordings}
                       />
                     ))}
                   </div>
@@ -21,6 +21,7 @@ import {
 import { useVmStore } from '../stores';
 import { useCapabilitiesStore } from '../stores/capabilitiesStore';
 import { useAuthStore } from '../stores/authStore';
+import { useSessionStore } from '../stores/sessionStore';
 import { PermissionBanner } from '../components/ui/PermissionBanner';
 import type { VM } from '../types';
 
@@ -86,7 +87,8 @@ const VmCard: React.FC<{
   onConsole: () => void;
   onSettings: () => void;
   onDelete: () => void;
-}> = ({ vm, onStart, onStop, onRestart, onConsole, onSettings, onDelete }) => {
+  readOnly?: boolean;
+}> = ({ vm, onStart, onStop, onRestart, onConsole, onSettings, onDelete, readOnly = false }) => {
   const isRunning = vm.status === 'running';
   const isTransitioning = vm.status === 'starting' || vm.status === 'stopping';
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -168,51 +170,53 @@ const VmCard: React.FC<{
       </div>
 
       {/* Actions */}
-      <div className="p-4 pt-0 flex items-center gap-2">
-        {isRunning ? (
-          <>
-            <button
-              onClick={onStop}
-              disabled={isTransitioning}
-              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-600/20 hover:bg-red-600/30 disabled:opacity-50 disabled:cursor-not-allowed text-red-400 rounded-lg transition-colors text-sm"
-            >
-              <Square size={16} />
-              Arrêter
-            </button>
-            <button
-              onClick={onRestart}
-              disabled={isTransitioning}
-              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-orange-600/20 hover:bg-orange-600/30 disabled:opacity-50 disabled:cursor-not-allowed text-orange-400 rounded-lg transition-colors text-sm"
-            >
-              <RefreshCw size={16} />
-              Redémarrer
-            </button>
-          </>
-        ) : (
-          <>
-            <button
-              onClick={onStart}
-              disabled={isTransitioning}
-              className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm"
-            >
-              <Play size={16} />
-              Démarrer
-            </button>
-            <button
-              onClick={handleDelete}
-              disabled={isTransitioning}
-              className={`px-3 py-2 rounded-lg transition-colors text-sm ${
-                showDeleteConfirm
-                  ? 'bg-red-600 text-white'
-                  : 'bg-red-600/20 hover:bg-red-600/30 text-red-400'
-              }`}
-              title={showDeleteConfirm ? 'Confirmer la suppression' : 'Supprimer'}
-            >
-              <Trash2 size={16} />
-            </button>
-          </>
-        )}
-      </div>
+      {!readOnly && (
+        <div className="p-4 pt-0 flex items-center gap-2">
+          {isRunning ? (
+            <>
+              <button
+                onClick={onStop}
+                disabled={isTransitioning}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-600/20 hover:bg-red-600/30 disabled:opacity-50 disabled:cursor-not-allowed text-red-400 rounded-lg transition-colors text-sm"
+              >
+                <Square size={16} />
+                Arrêter
+              </button>
+              <button
+                onClick={onRestart}
+                disabled={isTransitioning}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-orange-600/20 hover:bg-orange-600/30 disabled:opacity-50 disabled:cursor-not-allowed text-orange-400 rounded-lg transition-colors text-sm"
+              >
+                <RefreshCw size={16} />
+                Redémarrer
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onStart}
+                disabled={isTransitioning}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm"
+              >
+                <Play size={16} />
+                Démarrer
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={isTransitioning}
+                className={`px-3 py-2 rounded-lg transition-colors text-sm ${
+                  showDeleteConfirm
+                    ? 'bg-red-600 text-white'
+                    : 'bg-red-600/20 hover:bg-red-600/30 text-red-400'
+                }`}
+                title={showDeleteConfirm ? 'Confirmer la suppression' : 'Supprimer'}
+              >
+                <Trash2 size={16} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -373,6 +377,9 @@ export const VmsPage: React.FC<VmsPageProps> = ({ onBack }) => {
   const { permissions, freeboxUrl } = useAuthStore();
   const hasVmPermission = permissions.vm === true;
 
+  // Dashboard role: read-only users see the VMs but can't control them
+  const canControlVms = useSessionStore((state) => state.canAccess('vm', 'write'));
+
   const [showCreateModal, setShowCreateModal] = useState(false);
 
   // Fetch VMs on mount (only if supported)
@@ -501,13 +508,15 @@ export const VmsPage: React.FC<VmsPageProps> = ({ onBack }) => {
               </div>
             </div>
 
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
-            >
-              <Plus size={18} />
-              Créer une VM
-            </button>
+            {canControlVms && (
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+              >
+                <Plus size={18} />
+                Créer une VM
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -517,6 +526,9 @@ export const VmsPage: React.FC<VmsPageProps> = ({ onBack }) => {
         {!hasVmPermission && (
           <PermissionBanner permission="vm" freeboxUrl={freeboxUrl} />
         )}
+        {hasVmPermission && !canControlVms && (
+          <PermissionBanner permission="vm" role />
+        )}
 
         {/* Error message */}
         {error && (
@@ -546,6 +558,7 @@ export const VmsPage: React.FC<VmsPageProps> = ({ onBack }) => {
                 onConsole={() => handleOpenConsole(vm)}
                 onSettings={() => handleOpenSettings(vm)}
                 onDelete={() => handleDeleteVm(vm.id)}
+                readOnly={!canControlVms}
               />
             ))}
           </div>
@@ -556,13 +569,15 @@ export const VmsPage: React.FC<VmsPageProps> = ({ onBack }) => {
             <p className="text-gray-500 text-center max-w-md mb-6">
               Vous n'avez pas encore de machine virtuelle. Créez-en une pour commencer à virtualiser vos serveurs.
             </p>
-            <button
-              onClick={() => setShowCreateModal(true)}
-              className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
-            >
-              <Plus size={20} />
-              Créer ma première VM
-            </button>
+            {canControlVms && (
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+              >
+                <Plus size={20} />
+                Créer ma première VM
+              </button>
+            )}
           </div>
         )}
 
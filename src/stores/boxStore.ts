@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { api } from '../api/client';
+import { API_ROUTES } from '../utils/constants';
+import type { BoxProfile } from '../types/api';
+
+const DEFAULT_BOX_ID = 'default';
+
+// Metrics, alerts, webhooks and MQTT are only collected for the default box
+export const isDefaultBox = (boxId: string): boolean => boxId === DEFAULT_BOX_ID;
+
+// LocalStorage keys
+const STORAGE_KEY_BOX = 'freebox_dashboard_box';
+
+// Get the selected box from localStorage or use the default one
+const getSavedBoxId = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY_BOX) || DEFAULT_BOX_ID;
+  } catch {
+    return DEFAULT_BOX_ID;
+  }
+};
+
+// Save the selected box to localStorage
+const saveBoxId = (boxId: string): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY_BOX, boxId);
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+};
+
+interface BoxState {
+  boxes: BoxProfile[];
+  currentBoxId: string;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchBoxes: () => Promise<void>;
+  selectBox: (boxId: string) => void;
+  createBox: (name: string, url: string) => Promise<boolean>;
+  updateBox: (boxId: string, data: { name?: string; url?: string }) => Promise<boolean>;
+  deleteBox: (boxId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export const useBoxStore = create<BoxState>((set, get) => ({
+  boxes: [],
+  currentBoxId: getSavedBoxId(),
+  isLoading: false,
+  error: null,
+
+  fetchBoxes: async () => {
+    set({ isLoading: true });
+    const response = await api.get<BoxProfile[]>(API_ROUTES.BOXES);
+    if (response.success && response.result) {
+      set({ boxes: response.result, isLoading: false });
+      // The selected box was removed meanwhile: go back to the default one
+      if (!response.result.some(box => box.id === get().currentBoxId)) {
+        get().selectBox(DEFAULT_BOX_ID);
+      }
+    } else {
+      set({ isLoading: false, error: response.error?.message || 'Impossible de charger les Freebox' });
+    }
+  },
+
+  selectBox: (boxId: string) => {
+    if (boxId === get().currentBoxId) return;
+    saveBoxId(boxId);
+    // Every store holds data of the previous box: start again from scratch
+    window.location.reload();
+  },
+
+  createBox: async (name: string, url: string) => {
+    set({ error: null });
+    const response = await api.post<BoxProfile>(API_ROUTES.BOXES, { name, url });
+    if (response.success) {
+      await get().fetchBoxes();
+      return true;
+    }
+    set({ error: response.error?.message || 'Échec de l\'ajout de la Freebox' });
+    return false;
+  },
+
+  updateBox: async (boxId: string, data: { name?: string; url?: string }) => {
+    set({ error: null });
+    const response = await api.put<BoxProfile>(`${API_ROUTES.BOXES}/${boxId}`, data);
+    if (response.success) {
+      await get().fetchBoxes();
+      return true;
+    }
+    set({ error: response.error?.message || 'Échec de la modification' });
+    return false;
+  },
+
+  deleteBox: async (boxId: string) => {
+    set({ error: null });
+    const response = await api.delete(`${API_ROUTES.BOXES}/${boxId}`);
+    if (response.success) {
+      await get().fetchBoxes();
+      return true;
+    }
+    set({ error: response.error?.message || 'Échec de la suppression' });
+    return false;
+  },
+
+  clearError: () => set({ error: null })
+}));
@@ -13,6 +13,7 @@ interface DownloadsState {
 
   // Actions
   fetchDownloads: () => Promise<void>;
+  setDownloads: (downloads: Download[]) => void;
   fetchStats: () => Promise<void>;
   addDownload: (url: string, downloadDir?: string) => Promise<boolean>;
   addDownloadFromFile: (fileBase64: string, filename: string, downloadDir?: string) => Promise<boolean>;
@@ -48,6 +49,19 @@ const mapStatus = (status: Download['status']): DownloadTask['status'] => {
   return statusMap[status] || 'downloading';
 };
 
+const mapDownload = (dl: Download): DownloadTask => ({
+  id: dl.id.toString(),
+  name: dl.name,
+  size: dl.size,
+  downloaded: dl.rx_bytes,
+  uploaded: dl.tx_bytes,
+  progress: dl.size > 0 ? Math.round((dl.rx_bytes / dl.size) * 100) : 0,
+  downloadSpeed: dl.rx_rate,
+  uploadSpeed: dl.tx_rate,
+  eta: dl.eta,
+  status: mapStatus(dl.status)
+});
+
 export const useDownloadsStore = create<DownloadsState>((set, get) => ({
   tasks: [],
   stats: null,
@@ -66,20 +80,7 @@ export const useDownloadsStore = create<DownloadsState>((set, get) => ({
       const response = await api.get<Download[]>(API_ROUTES.DOWNLOADS);
 
       if (response.success && response.result) {
-        const tasks: DownloadTask[] = response.result.map((dl) => ({
-          id: dl.id.toString(),
-          name: dl.name,
-          size: dl.size,
-          downloaded: dl.rx_bytes,
-          uploaded: dl.tx_bytes,
-          progress: dl.size > 0 ? Math.round((dl.rx_bytes / dl.size) * 100) : 0,
-          downloadSpeed: dl.rx_rate,
-          uploadSpeed: dl.tx_rate,
-          eta: dl.eta,
-          status: mapStatus(dl.status)
-        }));
-
-        set({ tasks, isLoading: false, hasInitialized: true });
+        set({ tasks: response.result.map(mapDownload), isLoading: false, hasInitialized: true });
       } else {
         set({ isLoading: false, hasInitialized: true, error: response.error?.message });
       }
@@ -88,6 +89,11 @@ export const useDownloadsStore = create<DownloadsState>((set, get) => ({
     }
   },
 
+  // Tasks pushed on the "downloads" WebSocket topic
+  setDownloads: (downloads: Download[]) => {
+    set({ tasks: downloads.map(mapDownload), isLoading: false, hasInitialized: true, error: null });
+  },
+
   fetchStats: async () => {
     try {
       const response = await api.get<DownloadStats>(API_ROUTES.DOWNLOADS_STATS);
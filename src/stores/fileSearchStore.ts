@@ -0,0 +1,137 @@
+import { create } from 'zustand';
+import { api } from '../api/client';
+import { API_ROUTES, POLLING_INTERVALS } from '../utils/constants';
+import type { DuplicateReport, FileIndexStatus, FileSearchResponse, FileSearchResult } from '../types/api';
+
+export interface FileSearchFilters {
+  // Words all found in the full path
+  q: string;
+  // Extensions separated by commas or spaces, e.g. "jpg, png"
+  ext: string;
+  type: 'all' | 'file' | 'dir';
+  // Bytes
+  minSize?: number;
+  maxSize?: number;
+  // Modification range (unix timestamps, seconds)
+  from?: number;
+  to?: number;
+}
+
+export const EMPTY_FILTERS: FileSearchFilters = { q: '', ext: '', type: 'all' };
+
+export const hasSearchFilters = (filters: FileSearchFilters): boolean =>
+  filters.q.trim() !== '' || filters.ext.trim() !== '' || filters.type !== 'all'
+  || filters.minSize !== undefined || filters.maxSize !== undefined
+  || filters.from !== undefined || filters.to !== undefined;
+
+// Query string of /api/fs/search
+export const searchParams = (filters: FileSearchFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  const ext = filters.ext.split(/[\s,]+/).map(e => e.replace(/^\./, '')).filter(Boolean);
+  if (ext.length > 0) params.set('ext', ext.join(','));
+  if (filters.type !== 'all') params.set('type', filters.type);
+  if (filters.minSize !== undefined) params.set('min_size', String(filters.minSize));
+  if (filters.maxSize !== undefined) params.set('max_size', String(filters.maxSize));
+  if (filters.from !== undefined) params.set('from', String(filters.from));
+  if (filters.to !== undefined) params.set('to', String(filters.to));
+  return params.toString();
+};
+
+interface FileSearchState {
+  filters: FileSearchFilters;
+  results: FileSearchResult[];
+  // Matches on the server, more than the results when truncated
+  total: number;
+  index: FileIndexStatus | null;
+  isSearching: boolean;
+  report: DuplicateReport | null;
+  error: string | null;
+
+  // Actions
+  search: (filters: FileSearchFilters) => Promise<void>;
+  clearSearch: () => void;
+  refreshIndex: () => Promise<void>;
+  fetchDuplicates: () => Promise<void>;
+  scanDuplicates: (minSize?: number) => Promise<void>;
+}
+
+export const useFileSearchStore = create<FileSearchState>((set, get) => ({
+  filters: EMPTY_FILTERS,
+  results: [],
+  total: 0,
+  index: null,
+  isSearching: false,
+  report: null,
+  error: null,
+
+  search: async (filters: FileSearchFilters) => {
+    set({ filters, isSearching: true });
+    try {
+      const response = await api.get<FileSearchResponse>(`${API_ROUTES.FS_SEARCH}?${searchParams(filters)}`);
+      // A newer search was started meanwhile
+      if (get().filters !== filters) return;
+      if (!response.success || !response.result) {
+        set({ isSearching: false, error: response.error?.message || 'Erreur lors de la recherche' });
+        return;
+      }
+      const { entries, total, index } = response.result;
+      set({ results: entries, total, index, isSearching: false, error: null });
+
+      // Storage walk in progress: search again once it is over
+      if (index.indexedAt === null || index.refreshing) {
+        setTimeout(() => {
+          if (get().filters === filters) get().search(filters);
+        }, POLLING_INTERVALS.fileIndex);
+      }
+    } catch {
+      if (get().filters === filters) set({ isSearching: false, error: 'Erreur lors de la recherche' });
+    }
+  },
+
+  clearSearch: () => set({ filters: EMPTY_FILTERS, results: [], total: 0, isSearching: false, error: null }),
+
+  refreshIndex: async () => {
+    try {
+      const response = await api.post<FileIndexStatus>(`${API_ROUTES.FS_INDEX}/refresh`);
+      if (response.success && response.result) {
+        set({ index: response.result, error: null });
+        if (hasSearchFilters(get().filters)) get().search(get().filters);
+      } else {
+        set({ error: response.error?.message || 'Impossible d\'actualiser l\'index' });
+      }
+    } catch {
+      set({ error: 'Impossible d\'actualiser l\'index' });
+    }
+  },
+
+  fetchDuplicates: async () => {
+    try {
+      const response = await api.get<DuplicateReport>(API_ROUTES.FS_DUPLICATES);
+      if (response.success && response.result) {
+        const report = response.result;
+        set({ report, error: null });
+        // Follow the scan until it ends
+        if (report.status === 'running') {
+          setTimeout(() => get().fetchDuplicates(), POLLING_INTERVALS.fileIndex);
+        }
+      }
+    } catch {
+      // Silently fail - the next update catches up
+    }
+  },
+
+  scanDuplicates: async (minSize?: number) => {
+    try {
+      const response = await api.post<DuplicateReport>(API_ROUTES.FS_DUPLICATES, { min_size: minSize });
+      if (response.success && response.result) {
+        set({ report: response.result, error: null });
+        setTimeout(() => get().fetchDuplicates(), POLLING_INTERVALS.fileIndex);
+      } else {
+        set({ error: response.error?.message || 'Impossible de lancer la recherche de doublons' });
+      }
+    } catch {
+      set({ error: 'Impossible de lancer la recherche de doublons' });
+    }
+  }
+}));
@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { api } from '../api/client';
 import { API_ROUTES } from '../utils/constants';
+import { useBoxStore } from './boxStore';
+import { useFsTaskStore } from './fsTaskStore';
+import type { FsTask } from '../types/api';
 
 export interface FsFile {
   name: string;
@@ -48,6 +51,24 @@ export interface ShareLink {
   fullurl: string;
 }
 
+export interface TextFileContent {
+  text: string;
+  // Only the beginning of the file was read
+  truncated: boolean;
+}
+
+/**
+ * Link to a file content, read by the browser itself (download, <img>, <video>...):
+ * ?box= selects the Freebox. A folder or several paths come as a zip,
+ * `inline` opens a file in the browser instead of saving it
+ */
+export const fileDownloadUrl = (paths: string[], options: { inline?: boolean } = {}): string => {
+  const query = paths.map(p => `path=${encodeURIComponent(p)}`);
+  if (options.inline) query.push('inline=1');
+  query.push(`box=${encodeURIComponent(useBoxStore.getState().currentBoxId)}`);
+  return `${API_ROUTES.FS_DOWNLOAD}?${query.join('&')}`;
+};
+
 interface FsState {
   // Current directory content
   files: FsFile[];
@@ -76,11 +97,13 @@ interface FsState {
   navigateTo: (path: string) => Promise<void>;
   navigateUp: () => Promise<void>;
   getFileInfo: (path: string) => Promise<FsFile | null>;
+  readTextFile: (path: string, maxBytes: number) => Promise<TextFileContent | null>;
   createDirectory: (dirname: string) => Promise<boolean>;
   rename: (oldPath: string, newName: string) => Promise<boolean>;
-  deleteFiles: (paths: string[]) => Promise<boolean>;
-  copyFiles: (paths: string[], destination: string) => Promise<boolean>;
-  moveFiles: (paths: string[], destination: string) => Promise<boolean>;
+  // Run as Freebox tasks: the task is returned and followed by useFsTaskStore
+  deleteFiles: (paths: string[]) => Promise<FsTask | null>;
+  copyFiles: (paths: string[], destination: string) => Promise<FsTask | null>;
+  moveFiles: (paths: string[], destination: string) => Promise<FsTask | null>;
   fetchStorage: () => Promise<void>;
   fetchDisks: () => Promise<void>;
   selectFile: (path: string) => void;
@@ -254,6 +277,25 @@ export const useFsStore = create<FsState>((set, get) => ({
     }
   },
 
+  readTextFile: async (path: string, maxBytes: number) => {
+    try {
+      // Only the first bytes are transferred (Range request)
+      const response = await fetch(fileDownloadUrl([path]), { headers: { Range: `bytes=0-${maxBytes - 1}` } });
+      // Empty file: nothing to read at offset 0
+      if (response.status === 416) return { text: '', truncated: false };
+      if (!response.ok) return null;
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      const total = Number(response.headers.get('Content-Range')?.split('/')[1] ?? bytes.length);
+      return {
+        text: new TextDecoder('utf-8').decode(bytes.subarray(0, maxBytes)),
+        truncated: total > maxBytes || bytes.length > maxBytes
+      };
+    } catch {
+      return null;
+    }
+  },
+
   createDirectory: async (dirname: string) => {
     const { currentPath, listFiles } = get();
     try {
@@ -291,50 +333,53 @@ export const useFsStore = create<FsState>((set, get) => ({
   deleteFiles: async (paths: string[]) => {
     const { listFiles } = get();
     try {
-      const response = await api.post(`${API_ROUTES.FS}/remove`, { files: paths });
-      if (response.success) {
+      const response = await api.post<FsTask>(`${API_ROUTES.FS}/remove`, { files: paths });
+      if (response.success && response.result) {
+        useFsTaskStore.getState().watch(response.result);
         await listFiles();
         set({ selectedFiles: [] });
-        return true;
+        return response.result;
       }
       set({ error: response.error?.message || 'Erreur lors de la suppression' });
-      return false;
+      return null;
     } catch {
       set({ error: 'Erreur lors de la suppression' });
-      return false;
+      return null;
     }
   },
 
   copyFiles: async (paths: string[], destination: string) => {
     const { listFiles } = get();
     try {
-      const response = await api.post(`${API_ROUTES.FS}/copy`, { files: paths, dst: destination, mode: 'overwrite' });
-      if (response.success) {
+      const response = await api.post<FsTask>(`${API_ROUTES.FS}/copy`, { files: paths, dst: destination, mode: 'overwrite' });
+      if (response.success && response.result) {
+        useFsTaskStore.getState().watch(response.result);
         await listFiles();
-        return true;
+        return response.result;
       }
       set({ error: response.error?.message || 'Erreur lors de la copie' });
-      return false;
+      return null;
     } catch {
       set({ error: 'Erreur lors de la copie' });
-      return false;
+      return null;
     }
   },
 
   moveFiles: async (paths: string[], destination: string) => {
     const { listFiles } = get();
     try {
-      const response = await api.post(`${API_ROUTES.FS}/move`, { files: paths, dst: destination, mode: 'overwrite' });
-      if (response.success) {
+      const response = await api.post<FsTask>(`${API_ROUTES.FS}/move`, { files: paths, dst: destination, mode: 'overwrite' });
+      if (response.success && response.result) {
+        useFsTaskStore.getState().watch(response.result);
         await listFiles();
         set({ selectedFiles: [] });
-        return true;
+        return response.result;
       }
       set({ error: response.error?.message || 'Erreur lors du déplacement' });
-      return false;
+      return null;
     } catch {
       set({ error: 'Erreur lors du déplacement' });
-      return false;
+      return null;
     }
   },
 
@@ -0,0 +1,198 @@
+import { create } from 'zustand';
+import { api } from '../api/client';
+import { API_ROUTES } from '../utils/constants';
+import { useFsStore } from './fsStore';
+import type { FsTask } from '../types/api';
+
+// Error codes of the Freebox file tasks
+const TASK_ERRORS: Record<string, string> = {
+  archive_read_failed: 'Lecture de l\'archive impossible',
+  archive_open_failed: 'Ouverture de l\'archive impossible',
+  archive_write_failed: 'Écriture de l\'archive impossible',
+  dest_is_not_dir: 'La destination n\'est pas un dossier',
+  disk_full: 'Disque plein',
+  file_exists: 'Un fichier du même nom existe déjà',
+  file_not_found: 'Fichier introuvable',
+  incorrect_password: 'Mot de passe incorrect',
+  internal: 'Erreur interne de la Freebox',
+  invalid_format: 'Format invalide',
+  mkdir_failed: 'Création du dossier impossible',
+  open_input_failed: 'Lecture du fichier source impossible',
+  open_output_failed: 'Écriture du fichier de destination impossible',
+  opendir_failed: 'Ouverture du dossier impossible',
+  overwrite_failed: 'Remplacement du fichier impossible',
+  path_too_big: 'Chemin trop long',
+  permission_denied: 'Permission refusée',
+  rmdir_failed: 'Suppression du dossier impossible',
+  same_file: 'La source et la destination sont identiques',
+  unlink_failed: 'Suppression du fichier impossible',
+  unsupported_file_type: 'Format d\'archive non supporté',
+  write_failed: 'Erreur d\'écriture'
+};
+
+export const taskErrorLabel = (code: string): string => TASK_ERRORS[code] ?? `Erreur : ${code}`;
+
+export const isTaskFinished = (task: FsTask): boolean => task.state === 'done' || task.state === 'failed';
+
+export interface ExtractOptions {
+  password?: string;
+  deleteArchive?: boolean;
+  overwrite?: boolean;
+}
+
+interface FsTaskState {
+  // Every task kept by the Freebox, finished ones included
+  tasks: FsTask[];
+  // Tasks started from this tab: the listing is refreshed when they end
+  watched: number[];
+  isOpen: boolean;
+  error: string | null;
+
+  // Actions
+  fetchTasks: () => Promise<void>;
+  applyTasks: (tasks: FsTask[]) => void;
+  watch: (task: FsTask) => void;
+  setTaskState: (id: number, state: 'paused' | 'running') => Promise<boolean>;
+  cancelTask: (id: number) => Promise<boolean>;
+  clearFinished: () => Promise<void>;
+  extractArchive: (src: string, dst: string, options?: ExtractOptions) => Promise<FsTask | null>;
+  createArchive: (files: string[], dirname: string, name: string) => Promise<FsTask | null>;
+  setOpen: (isOpen: boolean) => void;
+}
+
+export const useFsTaskStore = create<FsTaskState>((set, get) => ({
+  tasks: [],
+  watched: [],
+  isOpen: false,
+  error: null,
+
+  fetchTasks: async () => {
+    try {
+      const response = await api.get<FsTask[]>(API_ROUTES.FS_TASKS);
+      if (response.success && response.result) {
+        get().applyTasks(response.result);
+      }
+    } catch {
+      // Silently fail - the next update catches up
+    }
+  },
+
+  // New list from the server (WebSocket or REST)
+  applyTasks: (tasks: FsTask[]) => {
+    const { watched } = get();
+    const ended = watched.filter(id => {
+      const task = tasks.find(t => t.id === id);
+      return !task || isTaskFinished(task);
+    });
+    const failed = tasks.some(task => ended.includes(task.id) && task.state === 'failed');
+
+    set({
+      tasks,
+      watched: watched.filter(id => !ended.includes(id)),
+      // A failure opens the drawer with its details
+      isOpen: get().isOpen || failed
+    });
+    if (ended.length > 0) {
+      useFsStore.getState().listFiles();
+    }
+  },
+
+  // Follow a task returned by copy, move, delete, archive or extract
+  watch: (task: FsTask) => {
+    const tasks = [...get().tasks.filter(t => t.id !== task.id), task];
+    if (isTaskFinished(task)) {
+      set({ tasks, isOpen: get().isOpen || task.state === 'failed' });
+      return;
+    }
+    set({ tasks, watched: [...get().watched, task.id], isOpen: true });
+  },
+
+  setTaskState: async (id: number, state: 'paused' | 'running') => {
+    try {
+      const response = await api.put<FsTask>(`${API_ROUTES.FS_TASKS}/${id}`, { state });
+      if (response.success && response.result) {
+        const updated = response.result;
+        set({ tasks: get().tasks.map(task => (task.id === id ? updated : task)), error: null });
+        return true;
+      }
+      set({ error: response.error?.message || 'Impossible de modifier la tâche' });
+      return false;
+    } catch {
+      set({ error: 'Impossible de modifier la tâche' });
+      return false;
+    }
+  },
+
+  cancelTask: async (id: number) => {
+    try {
+      const response = await api.delete(`${API_ROUTES.FS_TASKS}/${id}`);
+      if (response.success) {
+        const wasRunning = get().tasks.some(task => task.id === id && !isTaskFinished(task));
+        set({
+          tasks: get().tasks.filter(task => task.id !== id),
+          watched: get().watched.filter(watchedId => watchedId !== id),
+          error: null
+        });
+        // A cancelled move or copy may have left part of the files behind
+        if (wasRunning) useFsStore.getState().listFiles();
+        return true;
+      }
+      set({ error: response.error?.message || 'Impossible d\'annuler la tâche' });
+      return false;
+    } catch {
+      set({ error: 'Impossible d\'annuler la tâche' });
+      return false;
+    }
+  },
+
+  clearFinished: async () => {
+    try {
+      const response = await api.delete(API_ROUTES.FS_TASKS);
+      if (response.success) {
+        set({ tasks: get().tasks.filter(task => !isTaskFinished(task)), error: null });
+      } else {
+        set({ error: response.error?.message || 'Impossible de vider la liste' });
+      }
+    } catch {
+      set({ error: 'Impossible de vider la liste' });
+    }
+  },
+
+  extractArchive: async (src: string, dst: string, options: ExtractOptions = {}) => {
+    try {
+      const response = await api.post<FsTask>(`${API_ROUTES.FS}/extract`, {
+        src,
+        dst,
+        password: options.password,
+        delete_archive: options.deleteArchive ?? false,
+        overwrite: options.overwrite ?? false
+      });
+      if (response.success && response.result) {
+        get().watch(response.result);
+        return response.result;
+      }
+      set({ error: response.error?.message || 'Erreur lors de l\'extraction' });
+      return null;
+    } catch {
+      set({ error: 'Erreur lors de l\'extraction' });
+      return null;
+    }
+  },
+
+  createArchive: async (files: string[], dirname: string, name: string) => {
+    try {
+      const response = await api.post<FsTask>(`${API_ROUTES.FS}/archive`, { files, dirname, name });
+      if (response.success && response.result) {
+        get().watch(response.result);
+        return response.result;
+      }
+      set({ error: response.error?.message || 'Erreur lors de la création de l\'archive' });
+      return null;
+    } catch {
+      set({ error: 'Erreur lors de la création de l\'archive' });
+      return null;
+    }
+  },
+
+  setOpen: (isOpen: boolean) => set({ isOpen })
+}));
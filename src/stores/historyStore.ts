@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { api } from '../api/client';
 import { API_ROUTES } from '../utils/constants';
 import type { LogEntry } from '../types';
+import type { AlertEvent } from '../types/api';
 
 interface HistoryState {
   logs: LogEntry[];
@@ -44,10 +45,11 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
 
     try {
       // Fetch multiple sources in parallel - all are optional
-      const [connectionLogsRes, callsRes, notificationsRes] = await Promise.allSettled([
+      const [connectionLogsRes, callsRes, notificationsRes, alertsRes] = await Promise.allSettled([
         api.get<Array<{ date: number; type: string; msg: string }>>(API_ROUTES.CONNECTION_LOGS),
         api.get<Array<{ id: number; datetime: number; type: string; name: string; number: string }>>(API_ROUTES.CALLS),
-        api.get<Array<{ id: string; created_at: number; type: string; title: string; body: string }>>(API_ROUTES.NOTIFICATIONS)
+        api.get<Array<{ id: string; created_at: number; type: string; title: string; body: string }>>(API_ROUTES.NOTIFICATIONS),
+        api.get<AlertEvent[]>(`${API_ROUTES.ALERTS_HISTORY}?limit=10`)
       ]);
 
       const logs: LogEntry[] = [];
@@ -99,6 +101,20 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
         }
       }
 
+      // Process dashboard alerts
+      if (alertsRes.status === 'fulfilled' && alertsRes.value.success && alertsRes.value.result) {
+        for (const alert of alertsRes.value.result) {
+          logs.push({
+            id: `alert-${alert.id}`,
+            type: alert.state === 'resolved' ? 'success' : alert.severity === 'critical' ? 'error' : alert.severity === 'warning' ? 'warning' : 'info',
+            message: alert.message,
+            timestamp: formatTimestamp(alert.timestamp),
+            icon: 'bell',
+            rawTimestamp: alert.timestamp
+          });
+        }
+      }
+
       // Sort by timestamp (newest first)
       logs.sort((a, b) => (b.rawTimestamp || 0) - (a.rawTimestamp || 0));
 
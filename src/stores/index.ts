@@ -1,4 +1,5 @@
 export { useAuthStore } from './authStore';
+export { useSessionStore } from './sessionStore';
 export { useSystemStore } from './systemStore';
 export { useConnectionStore } from './connectionStore';
 export { useWifiStore } from './wifiStore';
@@ -11,6 +11,7 @@ interface LanState {
 
   // Actions
   fetchDevices: () => Promise<void>;
+  setHosts: (hosts: LanHost[]) => void;
   wakeOnLan: (mac: string, interfaceName?: string) => Promise<boolean>;
 }
 
@@ -36,6 +37,49 @@ const mapHostType = (hostType: string): Device['type'] => {
   return typeMap[hostType?.toLowerCase()] || 'other';
 };
 
+// Convert a Freebox LAN host into a dashboard device
+const mapHost = (host: LanHost): Device => {
+  // Get IPv4 address
+  const ipv4 = host.l3connectivities?.find(
+    (c) => c.af === 'ipv4' && c.active
+  );
+
+  const mac = host.l2ident?.id;
+
+  // Get connection type from access_point.connectivity_type (most reliable)
+  const connectionType: 'wifi' | 'ethernet' =
+    host.access_point?.connectivity_type === 'wifi' ? 'wifi' : 'ethernet';
+
+  // Get speed from access_point (bytes/s -> Mbps)
+  let speedDown = 0;
+  let speedUp = 0;
+  if (host.access_point && host.active) {
+    // rx_rate and tx_rate are in bytes per second
+    speedDown = host.access_point.rx_rate ? (host.access_point.rx_rate * 8) / 1_000_000 : 0;
+    speedUp = host.access_point.tx_rate ? (host.access_point.tx_rate * 8) / 1_000_000 : 0;
+  }
+
+  return {
+    id: host.id,
+    name: host.primary_name || host.vendor_name || 'Unknown Device',
+    type: mapHostType(host.host_type),
+    connection: connectionType,
+    speedDown: Math.round(speedDown * 10) / 10,
+    speedUp: Math.round(speedUp * 10) / 10,
+    active: host.active && host.reachable,
+    mac,
+    ip: ipv4?.addr,
+    vendor: host.vendor_name
+  };
+};
+
+// Sort: active devices first, then by name
+const sortDevices = (devices: Device[]): Device[] =>
+  devices.sort((a, b) => {
+    if (a.active !== b.active) return a.active ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+
 export const useLanStore = create<LanState>((set, get) => ({
   devices: [],
   isLoading: false,
@@ -52,48 +96,7 @@ export const useLanStore = create<LanState>((set, get) => ({
       const response = await api.get<LanHost[]>(API_ROUTES.LAN_DEVICES);
 
       if (response.success && response.result) {
-        const devices: Device[] = response.result.map((host) => {
-          // Get IPv4 address
-          const ipv4 = host.l3connectivities?.find(
-            (c) => c.af === 'ipv4' && c.active
-          );
-
-          const mac = host.l2ident?.id;
-
-          // Get connection type from access_point.connectivity_type (most reliable)
-          const connectionType: 'wifi' | 'ethernet' =
-            host.access_point?.connectivity_type === 'wifi' ? 'wifi' : 'ethernet';
-
-          // Get speed from access_point (bytes/s -> Mbps)
-          let speedDown = 0;
-          let speedUp = 0;
-          if (host.access_point && host.active) {
-            // rx_rate and tx_rate are in bytes per second
-            speedDown = host.access_point.rx_rate ? (host.access_point.rx_rate * 8) / 1_000_000 : 0;
-            speedUp = host.access_point.tx_rate ? (host.access_point.tx_rate * 8) / 1_000_000 : 0;
-          }
-
-          return {
-            id: host.id,
-            name: host.primary_name || host.vendor_name || 'Unknown Device',
-            type: mapHostType(host.host_type),
-            connection: connectionType,
-            speedDown: Math.round(speedDown * 10) / 10,
-            speedUp: Math.round(speedUp * 10) / 10,
-            active: host.active && host.reachable,
-            mac,
-            ip: ipv4?.addr,
-            vendor: host.vendor_name
-          };
-        });
-
-        // Sort: active devices first, then by name
-        devices.sort((a, b) => {
-          if (a.active !== b.active) return a.active ? -1 : 1;
-          return a.name.localeCompare(b.name);
-        });
-
-        set({ devices, isLoading: false });
+        set({ devices: sortDevices(response.result.map(mapHost)), isLoading: false });
       } else {
         set({ isLoading: false, error: response.error?.message });
       }
@@ -102,6 +105,11 @@ export const useLanStore = create<LanState>((set, get) => ({
     }
   },
 
+  // Hosts pushed on the "lan" WebSocket topic
+  setHosts: (hosts: LanHost[]) => {
+    set({ devices: sortDevices(hosts.map(mapHost)), isLoading: false, error: null });
+  },
+
   wakeOnLan: async (mac: string, interfaceName = 'pub') => {
     try {
       const response = await api.post(API_ROUTES.LAN_WOL, {
@@ -14,6 +14,7 @@ interface PhoneState {
 
   // Actions
   fetchCalls: () => Promise<void>;
+  setCalls: (calls: CallEntry[]) => void;
   fetchContacts: () => Promise<void>;
   markCallsAsRead: () => Promise<void>;
   deleteCall: (id: number) => Promise<void>;
@@ -49,6 +50,11 @@ export const usePhoneStore = create<PhoneState>((set, get) => ({
     }
   },
 
+  // Call log pushed on the "calls" WebSocket topic
+  setCalls: (calls: CallEntry[]) => {
+    set({ calls, isLoading: false, error: null });
+  },
+
   fetchContacts: async () => {
     const { contacts: existingContacts } = get();
     if (existingContacts.length === 0) {
@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { api } from '../api/client';
+import { API_ROUTES } from '../utils/constants';
+import type { DashboardUser, DashboardSessionStatus, DashboardPermission, DashboardAccessLevel } from '../types/api';
+
+const ACCESS_RANK: Record<DashboardAccessLevel, number> = { none: 0, read: 1, write: 2 };
+
+// Dashboard session (local user account), distinct from the Freebox session in authStore
+interface SessionState {
+  user: DashboardUser | null;
+  isAuthenticated: boolean;
+  needsSetup: boolean;
+  isChecking: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  checkSession: () => Promise<void>;
+  login: (username: string, password: string) => Promise<boolean>;
+  setup: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  handleUnauthenticated: () => void;
+  clearError: () => void;
+
+  // Role helpers
+  canAccess: (permission: DashboardPermission, level: DashboardAccessLevel) => boolean;
+  isAdmin: () => boolean;
+}
+
+export const useSessionStore = create<SessionState>((set, get) => ({
+  user: null,
+  isAuthenticated: false,
+  needsSetup: false,
+  isChecking: true,
+  isSubmitting: false,
+  error: null,
+
+  checkSession: async () => {
+    set({ isChecking: true });
+    try {
+      const response = await api.get<DashboardSessionStatus>(API_ROUTES.SESSION);
+      if (response.success && response.result) {
+        set({
+          user: response.result.user,
+          isAuthenticated: response.result.authenticated,
+          needsSetup: response.result.needsSetup,
+          isChecking: false
+        });
+      } else {
+        set({ isChecking: false });
+      }
+    } catch {
+      set({ isChecking: false, error: 'Impossible de vérifier la session' });
+    }
+  },
+
+  login: async (username: string, password: string) => {
+    set({ isSubmitting: true, error: null });
+    const response = await api.post<{ user: DashboardUser }>(API_ROUTES.SESSION_LOGIN, { username, password });
+    if (response.success && response.result) {
+      set({ user: response.result.user, isAuthenticated: true, isSubmitting: false });
+      return true;
+    }
+    set({ isSubmitting: false, error: response.error?.message || 'Échec de la connexion' });
+    return false;
+  },
+
+  setup: async (username: string, password: string) => {
+    set({ isSubmitting: true, error: null });
+    const response = await api.post<{ user: DashboardUser }>(API_ROUTES.SESSION_SETUP, { username, password });
+    if (response.success && response.result) {
+      set({ user: response.result.user, isAuthenticated: true, needsSetup: false, isSubmitting: false });
+      return true;
+    }
+    set({ isSubmitting: false, error: response.error?.message || 'Échec de la création du compte' });
+    return false;
+  },
+
+  logout: async () => {
+    await api.post(API_ROUTES.SESSION_LOGOUT);
+    set({ user: null, isAuthenticated: false });
+  },
+
+  // Called by the API client when the server answers 401 UNAUTHENTICATED
+  handleUnauthenticated: () => {
+    if (get().isAuthenticated) {
+      console.log('[Session] Dashboard session expired');
+      set({ user: null, isAuthenticated: false, error: 'Votre session a expiré, veuillez vous reconnecter' });
+    }
+  },
+
+  clearError: () => set({ error: null }),
+
+  canAccess: (permission: DashboardPermission, level: DashboardAccessLevel) => {
+    const granted = get().user?.permissions?.[permission] ?? 'none';
+    return ACCESS_RANK[granted] >= ACCESS_RANK[level];
+  },
+
+  isAdmin: () => get().user?.admin === true
+}));
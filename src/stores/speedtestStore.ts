@@ -1,145 +1,153 @@
 import { create } from 'zustand';
 import { api } from '../api/client';
-
-interface SpeedtestResult {
-  id: string;
-  timestamp: number;
-  downloadSpeed: number; // in Gbps
-  uploadSpeed: number;   // in Gbps
-  ping: number;          // in ms
-  jitter: number;        // in ms
-  packetLoss: number;    // in %
-  downloadHistory: number[];
-  uploadHistory: number[];
-}
-
-interface SpeedtestApiResponse {
-  timestamp: number;
-  ping: {
-    target: string;
-    latency: number;
-    jitter: number;
-    packetLoss: number;
-  };
-  download: {
-    average: number;
-    peak: number;
-    max: number;
-    samples: number[];
-  };
-  upload: {
-    average: number;
-    peak: number;
-    max: number;
-    samples: number[];
-  };
-}
+import { API_ROUTES } from '../utils/constants';
+import type {
+  SpeedtestHistoryEntry,
+  SpeedtestReport,
+  SpeedtestRun,
+  SpeedtestSchedule,
+  SpeedtestTarget
+} from '../types/api';
 
 interface SpeedtestState {
+  targets: SpeedtestTarget[];
+  selectedTargetId: string | null;
+  // Running test (updated every second over the WebSocket), or the last one
+  currentRun: SpeedtestRun | null;
+  // Finished tests recorded by the server, oldest first
+  history: SpeedtestHistoryEntry[];
+  historyDays: number;
+  schedule: SpeedtestSchedule | null;
+  report: SpeedtestReport | null;
+  reportMonths: string[];
   isRunning: boolean;
-  progress: number;
-  currentResult: SpeedtestResult | null;
-  history: SpeedtestResult[];
-  downloadSamples: number[];
-  uploadSamples: number[];
   error: string | null;
 
   // Actions
+  fetchTargets: () => Promise<void>;
+  fetchCurrentRun: () => Promise<void>;
+  selectTarget: (targetId: string) => void;
   runSpeedtest: () => Promise<void>;
-  fetchLastResults: () => void;
+  applyProgress: (run: SpeedtestRun) => void;
+  fetchHistory: (days?: number) => Promise<void>;
+  clearHistory: () => Promise<boolean>;
+  fetchSchedule: () => Promise<void>;
+  updateSchedule: (schedule: Partial<SpeedtestSchedule>) => Promise<boolean>;
+  fetchReport: (month?: string) => Promise<void>;
 }
 
-// Generate a unique ID
-const generateId = () => Math.random().toString(36).substring(2, 9);
-
 export const useSpeedtestStore = create<SpeedtestState>((set, get) => ({
-  isRunning: false,
-  progress: 0,
-  currentResult: null,
+  targets: [],
+  selectedTargetId: null,
+  currentRun: null,
   history: [],
-  downloadSamples: [],
-  uploadSamples: [],
+  historyDays: 30,
+  schedule: null,
+  report: null,
+  reportMonths: [],
+  isRunning: false,
   error: null,
 
+  fetchTargets: async () => {
+    const response = await api.get<SpeedtestTarget[]>(API_ROUTES.SPEEDTEST_TARGETS);
+    if (response.success && response.result) {
+      const targets = response.result;
+      set(state => ({
+        targets,
+        selectedTargetId: state.selectedTargetId ?? targets[0]?.id ?? null
+      }));
+    }
+  },
+
+  fetchCurrentRun: async () => {
+    const response = await api.get<SpeedtestRun | null>(API_ROUTES.SPEEDTEST_RUN);
+    if (response.success && response.result) {
+      get().applyProgress(response.result);
+    }
+  },
+
+  selectTarget: (targetId: string) => set({ selectedTargetId: targetId }),
+
   runSpeedtest: async () => {
-    set({ isRunning: true, progress: 0, error: null, downloadSamples: [], uploadSamples: [] });
-
-    try {
-      // Simulate progress while waiting for backend
-      const progressInterval = setInterval(() => {
-        set(state => ({
-          progress: Math.min(state.progress + 10, 90)
-        }));
-      }, 500);
-
-      // Call the real speedtest backend endpoint
-      const response = await api.post<SpeedtestApiResponse>('/api/speedtest/run', {
-        pingTarget: '8.8.8.8',
-        samples: 10
-      });
+    set({ isRunning: true, error: null });
+
+    // Resolves once the test is over, progress comes from the "speedtest" topic meanwhile
+    const response = await api.post<SpeedtestRun>(API_ROUTES.SPEEDTEST_RUN, {
+      targetId: get().selectedTargetId ?? undefined
+    });
 
-      clearInterval(progressInterval);
-
-      if (response.success && response.result) {
-        const data = response.result;
-
-        // Create result from API response
-        const result: SpeedtestResult = {
-          id: generateId(),
-          timestamp: data.timestamp,
-          downloadSpeed: data.download.average,
-          uploadSpeed: data.upload.average,
-          ping: data.ping.latency,
-          jitter: data.ping.jitter,
-          packetLoss: data.ping.packetLoss,
-          downloadHistory: data.download.samples,
-          uploadHistory: data.upload.samples
-        };
-
-        // Save to history (keep last 10)
-        const { history } = get();
-        const newHistory = [result, ...history].slice(0, 10);
-
-        // Save to localStorage
-        try {
-          localStorage.setItem('speedtest_history', JSON.stringify(newHistory));
-        } catch {
-          // Ignore localStorage errors
-        }
-
-        set({
-          isRunning: false,
-          progress: 100,
-          currentResult: result,
-          history: newHistory,
-          downloadSamples: data.download.samples,
-          uploadSamples: data.upload.samples
-        });
-      } else {
-        throw new Error('Speedtest failed');
-      }
-    } catch (error) {
-      console.error('[Speedtest] Test failed:', error);
+    if (response.result) {
+      get().applyProgress(response.result);
+    }
+    if (!response.success) {
       set({
         isRunning: false,
-        progress: 0,
-        error: 'Erreur lors du test de débit'
+        error: response.error?.message || 'Erreur lors du test de débit'
       });
     }
   },
 
-  fetchLastResults: () => {
-    try {
-      const stored = localStorage.getItem('speedtest_history');
-      if (stored) {
-        const history = JSON.parse(stored) as SpeedtestResult[];
-        set({
-          history,
-          currentResult: history.length > 0 ? history[0] : null
-        });
-      }
-    } catch {
-      // Ignore localStorage errors
+  applyProgress: (run: SpeedtestRun) => {
+    const { currentRun } = get();
+    // The server records the test once it is over
+    const justFinished = run.status !== 'running' && currentRun?.id === run.id && currentRun.status === 'running';
+
+    set({
+      currentRun: run,
+      isRunning: run.status === 'running',
+      error: run.status === 'failed' ? run.error || 'Erreur lors du test de débit' : null
+    });
+
+    if (justFinished) {
+      get().fetchHistory();
+    }
+  },
+
+  fetchHistory: async (days?: number) => {
+    const historyDays = days ?? get().historyDays;
+    const response = await api.get<SpeedtestHistoryEntry[]>(`${API_ROUTES.SPEEDTEST_HISTORY}?days=${historyDays}`);
+    if (response.success && response.result) {
+      set({ history: response.result, historyDays });
+    }
+  },
+
+  clearHistory: async () => {
+    const response = await api.delete(API_ROUTES.SPEEDTEST_HISTORY);
+    if (!response.success) {
+      set({ error: response.error?.message || "Impossible d'effacer l'historique" });
+      return false;
+    }
+    set({ history: [], report: null, reportMonths: [] });
+    return true;
+  },
+
+  fetchSchedule: async () => {
+    const response = await api.get<SpeedtestSchedule>(API_ROUTES.SPEEDTEST_SCHEDULE);
+    if (response.success && response.result) {
+      set({ schedule: response.result });
+    }
+  },
+
+  updateSchedule: async (schedule: Partial<SpeedtestSchedule>) => {
+    const response = await api.put<SpeedtestSchedule>(API_ROUTES.SPEEDTEST_SCHEDULE, schedule);
+    if (!response.success || !response.result) {
+      set({ error: response.error?.message || 'Impossible de modifier la planification' });
+      return false;
+    }
+    set({ schedule: response.result, error: null });
+    return true;
+  },
+
+  fetchReport: async (month?: string) => {
+    const [report, months] = await Promise.all([
+      api.get<SpeedtestReport>(month ? `${API_ROUTES.SPEEDTEST_REPORT}?month=${month}` : API_ROUTES.SPEEDTEST_REPORT),
+      api.get<string[]>(`${API_ROUTES.SPEEDTEST_REPORT}/months`)
+    ]);
+    if (report.success && report.result) {
+      set({ report: report.result });
+    }
+    if (months.success && months.result) {
+      set({ reportMonths: months.result });
     }
   }
-}));
\ No newline at end of file
+}));
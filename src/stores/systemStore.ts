@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { api } from '../api/client';
 import { API_ROUTES } from '../utils/constants';
-import type { SystemInfo, RebootSchedule } from '../types/api';
+import type { SystemInfo } from '../types/api';
 
 interface TemperatureHistoryPoint {
   time: string;
@@ -12,21 +12,17 @@ interface TemperatureHistoryPoint {
 
 interface SystemState {
   info: SystemInfo | null;
-  schedule: RebootSchedule | null;
   temperatureHistory: TemperatureHistoryPoint[];
   isLoading: boolean;
   error: string | null;
 
   // Actions
   fetchSystemInfo: () => Promise<void>;
-  fetchSchedule: () => Promise<void>;
-  updateSchedule: (schedule: Partial<RebootSchedule>) => Promise<boolean>;
   reboot: () => Promise<boolean>;
 }
 
 export const useSystemStore = create<SystemState>((set, get) => ({
   info: null,
-  schedule: null,
   temperatureHistory: [],
   isLoading: false,
   error: null,
@@ -103,31 +99,6 @@ export const useSystemStore = create<SystemState>((set, get) => ({
     }
   },
 
-  fetchSchedule: async () => {
-    try {
-      const response = await api.get<RebootSchedule>(API_ROUTES.SYSTEM_REBOOT_SCHEDULE);
-      if (response.success && response.result) {
-        set({ schedule: response.result });
-      }
-    } catch (error) {
-      console.error('Failed to fetch schedule:', error);
-    }
-  },
-
-  updateSchedule: async (schedule: Partial<RebootSchedule>) => {
-    try {
-      const response = await api.post<RebootSchedule>(API_ROUTES.SYSTEM_REBOOT_SCHEDULE, schedule);
-      if (response.success && response.result) {
-        set({ schedule: response.result });
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('Failed to update schedule:', error);
-      return false;
-    }
-  },
-
   reboot: async () => {
     try {
       const response = await api.post(API_ROUTES.SYSTEM_REBOOT);
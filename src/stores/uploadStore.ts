@@ -0,0 +1,230 @@
+import { create } from 'zustand';
+import { api } from '../api/client';
+import { API_ROUTES } from '../utils/constants';
+import { useFsStore } from './fsStore';
+import type { UploadConflictMode, UploadSession } from '../types/api';
+
+// Size of each PUT, below the server limit (config.uploads.maxChunkSize)
+const CHUNK_SIZE = 2 * 1024 * 1024;
+// Retries of a chunk after a network or Freebox error, with a growing delay
+const MAX_RETRIES = 5;
+const RETRY_DELAY = 1000;
+
+export type UploadItemStatus = 'queued' | 'uploading' | 'conflict' | 'done' | 'skipped' | 'cancelled' | 'error';
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  // Destination directory, base64 encoded like the fsStore paths
+  dirname: string;
+  // Name on the Freebox (changes after a rename)
+  name: string;
+  size: number;
+  sent: number;
+  status: UploadItemStatus;
+  // Answer to a name conflict, chosen by the user
+  conflict: UploadConflictMode | null;
+  uploadId: string | null;
+  error: string | null;
+}
+
+interface UploadState {
+  items: UploadItem[];
+  // Answer applied to the next conflicts without asking ("appliquer aux suivants")
+  conflictMode: UploadConflictMode | null;
+
+  // Actions
+  enqueue: (files: File[], dirname: string) => void;
+  resolveConflict: (key: string, mode: UploadConflictMode, applyToNext?: boolean) => void;
+  cancel: (key: string) => Promise<void>;
+  retry: (key: string) => void;
+  clearFinished: () => void;
+}
+
+// In-flight chunk of each uploading item, aborted on cancel
+const controllers = new Map<string, AbortController>();
+let processing = false;
+let nextKey = 0;
+
+const FINISHED: UploadItemStatus[] = ['done', 'skipped', 'cancelled', 'error'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const useUploadStore = create<UploadState>((set, get) => {
+  const find = (key: string) => get().items.find(item => item.key === key);
+
+  const update = (key: string, changes: Partial<UploadItem>) => {
+    set({ items: get().items.map(item => (item.key === key ? { ...item, ...changes } : item)) });
+  };
+
+  // Uploads go one file at a time, in the order they were added
+  const processQueue = async () => {
+    if (processing) return;
+    processing = true;
+    try {
+      for (;;) {
+        const item = get().items.find(i => i.status === 'queued');
+        if (!item) break;
+        await upload(item.key);
+        refreshListing(item.dirname);
+      }
+    } finally {
+      processing = false;
+    }
+  };
+
+  // Show the new files once everything sent to the open folder is through
+  const refreshListing = (dirname: string) => {
+    const fs = useFsStore.getState();
+    const pending = get().items.some(i => i.dirname === dirname && (i.status === 'queued' || i.status === 'uploading'));
+    if (fs.currentPath === dirname && !pending) fs.listFiles();
+  };
+
+  const start = async (item: UploadItem): Promise<UploadSession | null> => {
+    const conflict = item.conflict ?? get().conflictMode ?? undefined;
+    const response = await api.post<UploadSession>(`${API_ROUTES.FS}/upload`, {
+      dirname: item.dirname,
+      name: item.name,
+      size: item.size,
+      conflict
+    });
+    if (response.success && response.result) return response.result;
+
+    if (response.error?.code === 'FILE_EXISTS' && !conflict) {
+      update(item.key, { status: 'conflict', error: response.error.message });
+    } else {
+      update(item.key, { status: 'error', error: response.error?.message || 'Impossible de démarrer l\'envoi' });
+    }
+    return null;
+  };
+
+  const upload = async (key: string) => {
+    const initial = find(key);
+    if (!initial) return;
+    update(key, { status: 'uploading', error: null });
+
+    let uploadId = initial.uploadId;
+    let sent = initial.sent;
+    if (!uploadId) {
+      const session = await start(initial);
+      if (!session) return;
+      if (find(key)?.status === 'cancelled') {
+        await api.delete(`${API_ROUTES.FS}/upload/${session.id}`);
+        return;
+      }
+      if (session.status !== 'uploading') {
+        update(key, { status: session.status === 'skipped' ? 'skipped' : 'done', name: session.name, sent: session.received });
+        return;
+      }
+      uploadId = session.id;
+      sent = session.received;
+      update(key, { uploadId, name: session.name, sent });
+    }
+
+    const { file } = initial;
+    let retries = 0;
+    while (sent < file.size) {
+      const controller = new AbortController();
+      controllers.set(key, controller);
+      const response = await api.putBinary<UploadSession>(
+        `${API_ROUTES.FS}/upload/${uploadId}?offset=${sent}`,
+        file.slice(sent, sent + CHUNK_SIZE),
+        controller.signal
+      );
+      controllers.delete(key);
+      if (find(key)?.status !== 'uploading') return;
+
+      if (response.success && response.result) {
+        retries = 0;
+        sent = response.result.received;
+        update(key, { sent });
+        if (response.result.status === 'done') break;
+        continue;
+      }
+
+      const code = response.error?.code;
+      if (code === 'UPLOAD_NOT_FOUND') {
+        update(key, { status: 'error', error: 'L\'envoi a expiré, relancez-le', uploadId: null, sent: 0 });
+        return;
+      }
+      const recoverable = code === 'NETWORK_ERROR' || code === 'OFFSET_MISMATCH' || code === 'UPLOAD_BUSY' || code === 'UPLOAD_FAILED';
+      if (!recoverable || retries >= MAX_RETRIES) {
+        update(key, { status: 'error', error: response.error?.message || 'Envoi interrompu' });
+        return;
+      }
+      if (code !== 'OFFSET_MISMATCH') await wait(RETRY_DELAY * 2 ** retries);
+      retries++;
+
+      // Continue from what the server actually forwarded to the Freebox
+      const status = await api.get<UploadSession>(`${API_ROUTES.FS}/upload/${uploadId}`);
+      if (status.success && status.result) {
+        sent = status.result.received;
+        update(key, { sent });
+      } else if (status.error?.code === 'UPLOAD_NOT_FOUND') {
+        update(key, { status: 'error', error: 'L\'envoi a expiré, relancez-le', uploadId: null, sent: 0 });
+        return;
+      }
+    }
+
+    if (find(key)?.status === 'uploading') update(key, { status: 'done', sent: file.size });
+  };
+
+  return {
+    items: [],
+    conflictMode: null,
+
+    enqueue: (files: File[], dirname: string) => {
+      const added = files.map<UploadItem>(file => ({
+        key: `upload-${++nextKey}`,
+        file,
+        dirname,
+        name: file.name,
+        size: file.size,
+        sent: 0,
+        status: 'queued',
+        conflict: null,
+        uploadId: null,
+        error: null
+      }));
+      set({ items: [...get().items, ...added] });
+      void processQueue();
+    },
+
+    resolveConflict: (key: string, mode: UploadConflictMode, applyToNext = false) => {
+      const waiting = get().items.filter(item => item.status === 'conflict' && (item.key === key || applyToNext));
+      set({
+        conflictMode: applyToNext ? mode : get().conflictMode,
+        items: get().items.map(item => (
+          waiting.includes(item) ? { ...item, status: 'queued', conflict: mode, error: null } : item
+        ))
+      });
+      void processQueue();
+    },
+
+    cancel: async (key: string) => {
+      const item = find(key);
+      if (!item || FINISHED.includes(item.status)) return;
+      update(key, { status: 'cancelled', error: null });
+      controllers.get(key)?.abort();
+      // The server asks the Freebox to remove the partial file
+      if (item.uploadId) await api.delete(`${API_ROUTES.FS}/upload/${item.uploadId}`);
+    },
+
+    retry: (key: string) => {
+      const item = find(key);
+      if (!item || (item.status !== 'error' && item.status !== 'cancelled')) return;
+      // A cancelled upload is gone on the server, start it over
+      const restart = item.status === 'cancelled' || !item.uploadId;
+      update(key, { status: 'queued', error: null, ...(restart ? { uploadId: null, sent: 0 } : {}) });
+      void processQueue();
+    },
+
+    clearFinished: () => {
+      set({
+        items: get().items.filter(item => !FINISHED.includes(item.status)),
+        // The conflict answer only lasts for one batch of files
+        conflictMode: get().items.some(item => !FINISHED.includes(item.status)) ? get().conflictMode : null
+      });
+    }
+  };
+});
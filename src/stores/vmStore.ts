@@ -23,6 +23,7 @@ interface VmState {
 
   // Actions
   fetchVms: () => Promise<void>;
+  setVms: (vms: VirtualMachine[]) => void;
   startVm: (id: string) => Promise<void>;
   stopVm: (id: string) => Promise<void>;
   restartVm: (id: string) => Promise<void>;
@@ -30,6 +31,19 @@ interface VmState {
   createVm: (params: CreateVmParams) => Promise<boolean>;
 }
 
+const mapVm = (vm: VirtualMachine): VM => ({
+  id: vm.id.toString(),
+  name: vm.name,
+  os: vm.os?.toUpperCase() || 'UNKNOWN',
+  status: vm.status as VM['status'], // running, stopped, starting, stopping
+  vcpus: vm.vcpus || 1,
+  cpuUsage: vm.cpu_usage || 0,
+  ramUsage: vm.memory_usage ? vm.memory_usage / (1024 * 1024 * 1024) : 0, // Convert to GB
+  ramTotal: vm.memory ? vm.memory / (1024 * 1024 * 1024) : 0, // Convert to GB
+  diskUsage: vm.disk_usage ? vm.disk_usage / (1024 * 1024 * 1024) : 0, // Convert to GB
+  diskTotal: vm.disk_size ? vm.disk_size / (1024 * 1024 * 1024) : 0 // Convert to GB
+});
+
 export const useVmStore = create<VmState>((set, get) => ({
   vms: [],
   isLoading: false,
@@ -47,20 +61,7 @@ export const useVmStore = create<VmState>((set, get) => ({
       const response = await api.get<VirtualMachine[]>(API_ROUTES.VM);
 
       if (response.success && response.result) {
-        const vms: VM[] = response.result.map((vm) => ({
-          id: vm.id.toString(),
-          name: vm.name,
-          os: vm.os?.toUpperCase() || 'UNKNOWN',
-          status: vm.status as VM['status'], // running, stopped, starting, stopping
-          vcpus: vm.vcpus || 1,
-          cpuUsage: vm.cpu_usage || 0,
-          ramUsage: vm.memory_usage ? vm.memory_usage / (1024 * 1024 * 1024) : 0, // Convert to GB
-          ramTotal: vm.memory ? vm.memory / (1024 * 1024 * 1024) : 0, // Convert to GB
-          diskUsage: vm.disk_usage ? vm.disk_usage / (1024 * 1024 * 1024) : 0, // Convert to GB
-          diskTotal: vm.disk_size ? vm.disk_size / (1024 * 1024 * 1024) : 0 // Convert to GB
-        }));
-
-        set({ vms, isLoading: false, hasInitialized: true });
+        set({ vms: response.result.map(mapVm), isLoading: false, hasInitialized: true });
       } else {
         set({ isLoading: false, hasInitialized: true, error: response.error?.message });
       }
@@ -69,6 +70,11 @@ export const useVmStore = create<VmState>((set, get) => ({
     }
   },
 
+  // VMs pushed on the "vm" WebSocket topic
+  setVms: (vms: VirtualMachine[]) => {
+    set({ vms: vms.map(mapVm), isLoading: false, hasInitialized: true, error: null });
+  },
+
   startVm: async (id: string) => {
     try {
       await api.post(`${API_ROUTES.VM}/${id}/start`);
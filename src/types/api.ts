@@ -1,3 +1,5 @@
+import type { LanHost, ParentalAccessMode } from '../../shared/freebox';
+
 // Generic API response type
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -31,78 +33,90 @@ export interface Permissions {
   home?: boolean;
 }
 
-export interface RegistrationStatus {
-  status: 'unknown' | 'pending' | 'timeout' | 'granted' | 'denied';
-  challenge?: string;
-}
-
-// System types
-export interface RebootSchedule {
-  enabled: boolean;
-  mapping: Record<number, string>; // Key: day (0-6), Value: "HH:MM"
+// Dashboard user account (local to the dashboard, not a Freebox account)
+export interface DashboardUser {
+  id: string;
+  username: string;
+  role: string;
+  createdAt: number;
+  lastLoginAt?: number;
+  // Resolved role, only present on the session user
+  admin?: boolean;
+  permissions?: DashboardRolePermissions;
+}
+
+// Dashboard roles (see server/types/roles.ts)
+export type DashboardPermission =
+  | 'settings'
+  | 'parental'
+  | 'downloader'
+  | 'explorer'
+  | 'calls'
+  | 'contacts'
+  | 'tv'
+  | 'vm';
+
+export type DashboardAccessLevel = 'none' | 'read' | 'write';
+
+export type DashboardRolePermissions = Record<DashboardPermission, DashboardAccessLevel>;
+
+export interface DashboardRole {
+  id: string;
+  name: string;
+  builtin: boolean;
+  admin: boolean;
+  permissions: DashboardRolePermissions;
 }
 
-// Sensor data format (API v8+)
-export interface SystemSensor {
-  id: string;      // e.g. "temp_cpu0", "temp_hdd", "t1", "cpu_ap"
-  name: string;    // e.g. "Température CPU 0", "Disque dur"
-  value: number;   // Temperature in °C
+export interface DashboardSessionStatus {
+  needsSetup: boolean;
+  authenticated: boolean;
+  user: DashboardUser | null;
 }
 
-// Fan data format (API v8+)
-export interface SystemFan {
-  id: string;      // e.g. "main", "secondary-fan"
-  name: string;    // e.g. "Ventilateur 1", "Ventilateur 2"
-  value: number;   // RPM
+// Freebox profile managed by the dashboard (see server/types/boxes.ts)
+export interface BoxProfile {
+  id: string;
+  name: string;
+  url: string;
+  createdAt: number;
+  isDefault: boolean;
+  isRegistered: boolean;
+  isLoggedIn: boolean;
+  modelName: string | null;
 }
 
-export interface SystemInfo {
-  firmware_version: string;
-  mac: string;
-  serial: string;
-  uptime: string;
-  uptime_val: number;
-  board_name: string;
-  // API v8+: sensors array for temperatures
-  sensors?: SystemSensor[];
-  // API v8+: fans array for fan speeds
-  fans?: SystemFan[];
-  // Temperature fields vary by model (legacy API < v8):
-  // Ultra v9: temp_cpu0, temp_cpu1, temp_cpu2, temp_cpu3 (4 CPU cores)
-  // Other models: temp_cpum, temp_sw, temp_cpub (legacy fields)
-  temp_cpu0?: number;      // CPU core 0 (Ultra)
-  temp_cpu1?: number;      // CPU core 1 (Ultra)
-  temp_cpu2?: number;      // CPU core 2 (Ultra)
-  temp_cpu3?: number;      // CPU core 3 (Ultra)
-  temp_cpum?: number;      // CPU main (Delta/Pop/Revolution)
-  temp_sw?: number;        // Switch (Delta/Pop/Revolution)
-  temp_cpub?: number;      // CPU box (Delta/Pop/Revolution)
-  fan_rpm?: number;        // Legacy fan RPM (now in fans array for v8+)
-  box_authenticated: boolean;
-  disk_status: string;
-  box_flavor?: string;
-  user_main_storage: string;
-  // Added from api_version endpoint
-  box_model_name?: string; // e.g. "Freebox v9 (r1)"
-  device_name?: string;
-  api_version?: string;
-}
-
-// Connection types
-export interface ConnectionStatus {
-  state: 'up' | 'down' | 'going_up' | 'going_down';
-  type: string;
-  media: string;
-  ipv4: string;
-  ipv6: string;
-  rate_down: number;
-  rate_up: number;
-  bandwidth_down: number;
-  bandwidth_up: number;
-  bytes_down: number;
-  bytes_up: number;
+export interface RegistrationStatus {
+  status: 'unknown' | 'pending' | 'timeout' | 'granted' | 'denied';
+  challenge?: string;
 }
 
+// Freebox resources: declared with their runtime schema in shared/freebox,
+// the server logs the responses that don't match
+export type {
+  SystemSensor,
+  SystemFan,
+  SystemInfo,
+  ConnectionStatus,
+  WifiBss,
+  LanInterface,
+  LanHostAccessPoint,
+  LanHost,
+  DownloadTask as Download,
+  DownloadStats,
+  FsTask,
+  VirtualMachine,
+  CallEntry,
+  ContactNumber,
+  Contact,
+  DhcpStaticLease,
+  ParentalAccessMode,
+  ParentalProfile,
+  NetworkControl,
+  NetworkControlRule
+} from '../../shared/freebox';
+
+// Monitoring types
 export interface RrdDataPoint {
   time: number;
   [key: string]: number;
@@ -114,6 +128,260 @@ export interface RrdResponse {
   data: RrdDataPoint[];
 }
 
+// Server-side metrics (see server/types/metrics.ts)
+export interface MetricsPoint {
+  time: number;
+  [metric: string]: number;
+}
+
+export interface MetricsQueryResult {
+  tier: 'raw' | '15m' | '1h';
+  step: number;
+  start: number;
+  end: number;
+  metrics: string[];
+  points: MetricsPoint[];
+}
+
+export interface UptimeDay {
+  date: string;
+  status: 'up' | 'partial' | 'unknown';
+  reboots: number;
+}
+
+// Alert types (server-side rules engine)
+export type AlertRuleType = 'wan_down' | 'metric_threshold' | 'new_device' | 'disk_usage' | 'download_error';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  severity: AlertSeverity;
+  metric?: string;
+  operator?: 'above' | 'below';
+  threshold?: number;
+  duration: number;    // minutes
+  hysteresis: number;
+  cooldown: number;    // minutes
+  channels: string[];
+}
+
+export interface AlertChannel {
+  id: string;
+  name: string;
+  type: string;
+  enabled: boolean;
+  settings: Record<string, string>;
+}
+
+export interface AlertChannelType {
+  type: string;
+  label: string;
+  settings: { key: string; label: string; required?: boolean; secret?: boolean }[];
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  state: 'firing' | 'resolved';
+  subject: string;
+  message: string;
+  value?: number;
+  timestamp: number;
+  delivered: string[];
+}
+
+// Webhook types
+export type FreeboxEventType = 'connection.state_changed' | 'system.rebooted' | 'call.missed' | 'download.completed' | 'lan.host_new';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret?: string;  // Only right after creation or regeneration
+  events: FreeboxEventType[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  eventId: string;
+  event: string;
+  url: string;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  duration?: number;
+  createdAt: number;
+  updatedAt: number;
+  nextRetryAt?: number;
+}
+
+// Speed test engine (see server/types/speedtest.ts)
+export interface SpeedtestTarget {
+  id: string;
+  name: string;
+  downloadUrl: string;
+  uploadUrl: string;
+  latencyUrl?: string;
+}
+
+export interface SpeedtestLatency {
+  min: number;      // ms
+  avg: number;
+  max: number;
+  jitter: number;
+  count: number;
+}
+
+export interface SpeedtestThroughput {
+  samples: number[];      // Mbps per second, warm-up included
+  warmupSamples: number;
+  average: number;        // Mbps, warm-up excluded
+  peak: number;
+  bytes: number;
+}
+
+export interface SpeedtestRun {
+  id: string;
+  targetId: string;
+  targetName: string;
+  trigger: 'manual' | 'scheduled';
+  status: 'running' | 'done' | 'failed';
+  phase: 'latency' | 'download' | 'upload' | 'done';
+  streams: number;
+  duration: number;
+  startedAt: number;
+  finishedAt?: number;
+  latency: {
+    idle: SpeedtestLatency | null;
+    download: SpeedtestLatency | null;
+    upload: SpeedtestLatency | null;
+  };
+  download: SpeedtestThroughput;
+  upload: SpeedtestThroughput;
+  error?: string;
+}
+
+export interface SpeedtestHistoryEntry {
+  id: string;
+  targetId: string;
+  targetName: string;
+  trigger: 'manual' | 'scheduled';
+  status: 'done' | 'failed';
+  startedAt: number;
+  finishedAt: number;
+  streams: number;
+  download: number | null;      // Mbps
+  upload: number | null;
+  downloadPeak: number | null;
+  uploadPeak: number | null;
+  latency: number | null;       // ms, idle
+  jitter: number | null;
+  loadedLatency: number | null; // ms, worst direction under load
+  error?: string;
+}
+
+export interface SpeedtestSchedule {
+  enabled: boolean;
+  expressions: string[];        // node-cron, server local time
+  targetId: string | null;
+}
+
+export interface SpeedtestThroughputSummary {
+  average: number;
+  median: number;
+  min: number;
+  max: number;
+  ratio: number;                // % of the advertised speed
+  belowThreshold: number;
+}
+
+export interface SpeedtestReport {
+  month: string;                // YYYY-MM
+  modelName: string;
+  advertised: { download: number; upload: number };
+  threshold: number;
+  tests: number;
+  failed: number;
+  download: SpeedtestThroughputSummary | null;
+  upload: SpeedtestThroughputSummary | null;
+  latency: { average: number; max: number } | null;
+  byHour: { hour: number; tests: number; download: number | null; upload: number | null }[];
+}
+
+// Network diagnostics (see server/types/diagnostics.ts)
+export interface DiagnosticPingResult {
+  host: string;
+  sent: number;
+  received: number;
+  packetLoss: number;
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  jitter: number | null;
+  times: number[];
+}
+
+export interface DiagnosticHop {
+  hop: number;
+  address: string | null;
+  sent: number;
+  received: number;
+  loss: number;
+  last: number | null;
+  min: number | null;
+  avg: number | null;
+  max: number | null;
+  jitter: number | null;
+}
+
+export interface DiagnosticRouteResult {
+  host: string;
+  rounds: number;
+  hops: DiagnosticHop[];
+}
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT' | 'NS' | 'PTR';
+
+export interface DnsResolverResult {
+  id: string;
+  name: string;
+  address: string | null;
+  status: 'pending' | 'ok' | 'error';
+  answers: string[];
+  time: number | null;
+  error?: string;
+}
+
+export interface DiagnosticDnsResult {
+  name: string;
+  type: DnsRecordType;
+  resolvers: DnsResolverResult[];
+}
+
+export interface PortCheckResult {
+  port: number;
+  protocol: 'tcp' | 'udp';
+  state: 'pending' | 'open' | 'closed' | 'filtered' | 'open_filtered';
+  time: number | null;
+  error?: string;
+}
+
+export interface DiagnosticPortsResult {
+  host: string;
+  ports: PortCheckResult[];
+}
+
 // WiFi types
 export interface WifiConfig {
   enabled: boolean;
@@ -138,23 +406,6 @@ export interface WifiAp {
   };
 }
 
-export interface WifiBss {
-  id: string;
-  phy_id: number;
-  status: {
-    state: string;
-    sta_count: number;
-    is_main_bss: boolean;
-  };
-  config: {
-    enabled: boolean;
-    use_default_config: boolean;
-    ssid: string;
-    hide_ssid: boolean;
-    encryption: string;
-  };
-}
-
 export interface WifiStation {
   id: string;
   mac: string;
@@ -171,105 +422,7 @@ export interface WifiStation {
   signal: number;
 }
 
-// LAN types
-export interface LanInterface {
-  name: string;
-  host_count: number;
-}
-
-export interface LanHostAccessPoint {
-  mac: string;
-  type: 'gateway' | 'repeater';
-  uid: string;
-  connectivity_type: 'wifi' | 'ethernet';
-  rx_bytes: number;
-  tx_bytes: number;
-  rx_rate: number;  // bytes/s
-  tx_rate: number;  // bytes/s
-  ethernet_information?: {
-    duplex: string;
-    speed: number;
-    max_port_speed: number;
-    link: string;
-  };
-  wifi_information?: {
-    band: string;
-    sess_duration: number;
-    phy_rx_rate: number;
-    phy_tx_rate: number;
-    ssid: string;
-    standard: string;
-    bssid: string;
-    signal: number;
-  };
-}
-
-export interface LanHost {
-  id: string;
-  primary_name: string;
-  host_type: string;
-  primary_name_manual: boolean;
-  l2ident: {
-    id: string;
-    type: string;
-  };
-  vendor_name: string;
-  persistent: boolean;
-  reachable: boolean;
-  last_time_reachable: number;
-  active: boolean;
-  last_activity: number;
-  first_activity: number;
-  names: { name: string; source: string }[];
-  l3connectivities: {
-    addr: string;
-    af: 'ipv4' | 'ipv6';
-    active: boolean;
-    reachable: boolean;
-    last_activity: number;
-    last_time_reachable: number;
-  }[];
-  interface?: string;
-  access_point?: LanHostAccessPoint;
-}
-
 // Download types
-export interface Download {
-  id: number;
-  type: 'bt' | 'http' | 'ftp' | 'nzb';
-  name: string;
-  status: 'queued' | 'starting' | 'downloading' | 'stopping' | 'stopped' | 'error' | 'done' | 'checking' | 'repairing' | 'extracting' | 'seeding' | 'retry';
-  io_priority: 'low' | 'normal' | 'high';
-  size: number;
-  queue_pos: number;
-  tx_bytes: number;
-  rx_bytes: number;
-  tx_rate: number;
-  rx_rate: number;
-  tx_pct: number;
-  rx_pct: number;
-  error: string;
-  created_ts: number;
-  eta: number;
-  download_dir: string;
-  stop_ratio: number;
-  archive_password: string;
-  info_hash: string;
-  piece_length: number;
-}
-
-export interface DownloadStats {
-  nb_tasks: number;
-  nb_tasks_stopped: number;
-  nb_tasks_active: number;
-  nb_tasks_done: number;
-  nb_tasks_error: number;
-  rx_rate: number;
-  tx_rate: number;
-  nb_rss: number;
-  nb_rss_items_unread: number;
-}
-
 export interface DownloadTracker {
   announce: string;
   is_enabled: boolean;
@@ -319,24 +472,6 @@ export interface DownloadBlacklistEntry {
   global: boolean;
 }
 
-// VM types
-export interface VirtualMachine {
-  id: number;
-  name: string;
-  os: string;
-  status: 'stopped' | 'starting' | 'running' | 'stopping';
-  vcpus: number;
-  memory: number;
-  disk_path: string;
-  disk_type: string;
-  disk_size?: number;      // Total disk size in bytes
-  enable_screen: boolean;
-  // Extended stats (may not always be available)
-  cpu_usage?: number;      // CPU usage percentage (0-100)
-  memory_usage?: number;   // Memory usage in bytes
-  disk_usage?: number;     // Disk usage in bytes
-}
-
 // TV Channel types
 export interface TvChannel {
   uuid: string;
@@ -409,42 +544,6 @@ export interface PvrConfig {
   storage_path: string;
 }
 
-// Call types
-export interface CallEntry {
-  id: number;
-  type: 'accepted' | 'incoming' | 'missed' | 'outgoing';
-  datetime: number;
-  number: string;
-  name?: string;
-  duration: number;
-  new: boolean;
-  contact_id?: number;
-}
-
-// Contact types
-export interface ContactNumber {
-  id?: number;
-  contact_id?: number;
-  type: 'home' | 'work' | 'mobile' | 'fax' | 'other' | string;
-  number: string;
-  is_default?: boolean;
-  is_own?: boolean;
-}
-
-export interface Contact {
-  id: number;
-  display_name: string;
-  first_name?: string;
-  last_name?: string;
-  company?: string;
-  birthday?: string;
-  notes?: string;
-  photo_url?: string;
-  last_update?: number;
-  // Numbers can be included when fetching contact details
-  numbers?: ContactNumber[];
-}
-
 // DHCP types
 export interface DhcpConfig {
   enabled: boolean;
@@ -457,11 +556,200 @@ export interface DhcpConfig {
   dns: string[];
 }
 
-export interface DhcpStaticLease {
+// Scheduled jobs types
+export type ScheduledAction =
+  | { type: 'reboot' }
+  | { type: 'wifi'; enabled: boolean }
+  | { type: 'wifi_bss'; bssId: string; enabled: boolean }
+  | { type: 'wifi_temp_disable'; duration: number }  // Seconds, 0 cancels
+  | { type: 'vm'; vmId: number; running: boolean }
+  | { type: 'downloads'; paused: boolean }
+  | { type: 'parental_pause'; profileId: number; mode: ParentalAccessMode; duration: number }  // Minutes, 0 clears
+  | { type: 'wol'; mac: string; interface?: string; password?: string };
+
+export type ScheduledActionType = ScheduledAction['type'];
+
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string }
+  | { type: 'once'; at: number };
+
+export interface JobRunResult {
+  at: number;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+export interface ScheduledJob {
   id: string;
-  mac: string;
+  name: string;
+  enabled: boolean;
+  trigger: ScheduleTrigger;
+  action: ScheduledAction;
+  catchUp: boolean;
+  createdAt: number;
+  nextRunAt: number | null;
+  lastRun: JobRunResult | null;
+}
+
+export interface JobRun extends JobRunResult {
+  id: string;
+  jobId: string;
+  jobName: string;
+  action: ScheduledActionType;
+  reason: 'schedule' | 'catch_up' | 'manual';
+  duration: number;
+}
+
+// Configuration backup types
+export interface BackupSectionInfo {
+  id: string;
+  label: string;
+}
+
+export interface BackupArchive {
+  format: 'freebox-dashboard-backup';
+  version: number;
+  createdAt: number;
+  box: { id: string; name: string; model: string | null; apiVersion: string | null };
+  sections: Record<string, unknown>;
+  errors: Record<string, string>;
+}
+
+export interface RestoreChange {
+  id: string;
+  section: string;
+  kind: 'create' | 'update' | 'delete';
+  key: string;
+  label: string;
+  fields: string[];
+  before: unknown;
+  after: unknown;
+  applicable: boolean;
+  note?: string;
+}
+
+export interface RestorePreview {
+  createdAt: number;
+  box: BackupArchive['box'];
+  changes: RestoreChange[];
+  skipped: Array<{ section: string; reason: string }>;
+}
+
+export interface RestoreResult {
+  id: string;
+  status: 'applied' | 'failed' | 'skipped';
+  error?: string;
+  note?: string;
+}
+
+// Configuration drift detection types
+export interface ConfigChangeEvent {
+  id: string;
+  detectedAt: number;
+  trigger: 'poll' | 'manual' | 'revert';
+  fromSnapshot: string;
+  toSnapshot: string;
+  firmware: { from: string | null; to: string | null } | null;
+  changes: RestoreChange[];
+  reverted: Record<string, number>;
+}
+
+export interface ConfigHistoryStatus {
+  enabled: boolean;
+  interval: number;
+  lastCheckAt: number | null;
+  lastError: string | null;
+  snapshots: number;
+  sections: BackupSectionInfo[];
+}
+
+// Audit log types
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  user: string | null;
   ip: string;
-  comment?: string;
-  hostname?: string;
-  host?: LanHost;
-}
\ No newline at end of file
+  boxId: string | null;
+  method: string;
+  route: string;
+  payload: unknown;
+  status: number;
+  success: boolean;
+  errorCode: string | null;
+  message: string | null;
+  duration: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  total: number;
+}
+
+// File upload types (see server/types/uploads.ts)
+export type UploadConflictMode = 'overwrite' | 'skip' | 'rename';
+
+export interface UploadSession {
+  id: string;
+  dirname: string;
+  path: string;
+  // Final file name (differs from the requested one after a rename)
+  name: string;
+  size: number;
+  // Bytes stored on the Freebox, the offset of the next chunk
+  received: number;
+  status: 'uploading' | 'done' | 'skipped' | 'cancelled' | 'failed';
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// File index types: recursive search and duplicates (see server/types/fileIndex.ts)
+export interface FileIndexStatus {
+  indexedAt: number | null;
+  refreshing: boolean;
+  files: number;
+  folders: number;
+  totalSize: number;
+  // Folders changed from the dashboard, listed again before the next search
+  pending: number;
+  lastError: string | null;
+}
+
+export interface FileSearchResult {
+  // Base64 paths, as in the Freebox API
+  path: string;
+  parent: string;
+  fullPath: string;
+  name: string;
+  type: 'file' | 'dir';
+  size: number;
+  modification: number;
+  mimetype?: string;
+}
+
+export interface FileSearchResponse {
+  entries: FileSearchResult[];
+  total: number;
+  index: FileIndexStatus;
+}
+
+export interface DuplicateGroup {
+  hash: string;
+  size: number;
+  files: FileSearchResult[];
+  reclaimable: number;
+}
+
+export interface DuplicateReport {
+  status: 'idle' | 'running' | 'done' | 'failed';
+  startedAt: number | null;
+  finishedAt: number | null;
+  path: string;
+  minSize: number;
+  candidates: number;
+  hashed: number;
+  failed: number;
+  groups: DuplicateGroup[];
+  reclaimable: number;
+  error: string | null;
+}
@@ -41,11 +41,24 @@ export const POLLING_INTERVALS = {
   devices: 10000,        // LAN devices
   downloads: 5000,       // Download progress
   wifi: 15000,           // WiFi status
-  vm: 10000              // VM status
+  vm: 10000,             // VM status
+  fsTasks: 2000,         // Copies, moves and archives on the Freebox storage
+  fileIndex: 2000        // Storage walk and duplicate scan in progress
 } as const;
 
 // API endpoints (relative to proxy)
 export const API_ROUTES = {
+  // Dashboard session & users
+  SESSION: '/api/session',
+  SESSION_SETUP: '/api/session/setup',
+  SESSION_LOGIN: '/api/session/login',
+  SESSION_LOGOUT: '/api/session/logout',
+  USERS: '/api/users',
+  ROLES: '/api/roles',
+
+  // Freebox profiles
+  BOXES: '/api/boxes',
+
   // Auth
   AUTH_REGISTER: '/api/auth/register',
   AUTH_STATUS: '/api/auth/status',
@@ -56,10 +69,12 @@ export const API_ROUTES = {
   AUTH_GET_URL: '/api/auth/url',
   AUTH_RESET: '/api/auth/reset',
 
+  // Home page widgets of users without the settings permission
+  STATUS: '/api/status',
+
   // System
   SYSTEM: '/api/system',
   SYSTEM_REBOOT: '/api/system/reboot',
-  SYSTEM_REBOOT_SCHEDULE: '/api/system/reboot/schedule',
 
   // Connection
   CONNECTION: '/api/connection',
@@ -67,6 +82,40 @@ export const API_ROUTES = {
   CONNECTION_HISTORY: '/api/connection/history',
   CONNECTION_TEMP_HISTORY: '/api/connection/temp-history',
 
+  // Metrics (server-side history)
+  METRICS: '/api/metrics',
+  METRICS_QUERY: '/api/metrics/query',
+  METRICS_UPTIME: '/api/metrics/uptime',
+
+  // Alerts
+  ALERTS_RULES: '/api/alerts/rules',
+  ALERTS_CHANNELS: '/api/alerts/channels',
+  ALERTS_CHANNEL_TYPES: '/api/alerts/channels/types',
+  ALERTS_HISTORY: '/api/alerts/history',
+  ALERTS_ACTIVE: '/api/alerts/active',
+
+  // Webhooks
+  WEBHOOKS: '/api/webhooks',
+  WEBHOOKS_EVENTS: '/api/webhooks/events',
+  WEBHOOKS_DELIVERIES: '/api/webhooks/deliveries',
+
+  // Scheduled jobs
+  SCHEDULER_JOBS: '/api/scheduler/jobs',
+  SCHEDULER_ACTIONS: '/api/scheduler/actions',
+  SCHEDULER_RUNS: '/api/scheduler/runs',
+
+  // Configuration backup
+  BACKUP_SECTIONS: '/api/backup/sections',
+  BACKUP_EXPORT: '/api/backup/export',
+  BACKUP_PREVIEW: '/api/backup/preview',
+  BACKUP_RESTORE: '/api/backup/restore',
+  CONFIG_HISTORY_STATUS: '/api/config-history/status',
+  CONFIG_HISTORY_EVENTS: '/api/config-history/events',
+  CONFIG_HISTORY_CHECK: '/api/config-history/check',
+  CONFIG_HISTORY_REVERT: '/api/config-history/revert',
+  AUDIT: '/api/audit',
+  AUDIT_EXPORT: '/api/audit/export',
+
   // WiFi
   WIFI_CONFIG: '/api/wifi/config',
   WIFI_APS: '/api/wifi/aps',
@@ -104,6 +153,11 @@ export const API_ROUTES = {
 
   // File System
   FS: '/api/fs',
+  FS_DOWNLOAD: '/api/fs/download',
+  FS_TASKS: '/api/fs/tasks',
+  FS_INDEX: '/api/fs/index',
+  FS_SEARCH: '/api/fs/search',
+  FS_DUPLICATES: '/api/fs/duplicates',
 
   // TV / PVR
   TV_CHANNELS: '/api/tv/channels',
@@ -135,6 +189,18 @@ export const API_ROUTES = {
   // Connection Logs
   CONNECTION_LOGS: '/api/connection/logs',
 
+  // Speed test
+  SPEEDTEST_BANDWIDTH: '/api/speedtest/bandwidth',
+  SPEEDTEST_PING: '/api/speedtest/ping',
+  SPEEDTEST_TARGETS: '/api/speedtest/targets',
+  SPEEDTEST_RUN: '/api/speedtest/run',
+  SPEEDTEST_HISTORY: '/api/speedtest/history',
+  SPEEDTEST_SCHEDULE: '/api/speedtest/schedule',
+  SPEEDTEST_REPORT: '/api/speedtest/report',
+
+  // Network diagnostics (progressive NDJSON responses)
+  DIAGNOSTICS: '/api/diagnostics',
+
   // Notifications
   NOTIFICATIONS: '/api/notifications'
 } as const;
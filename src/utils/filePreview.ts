@@ -0,0 +1,139 @@
+// File preview: which viewer a file opens in, and light syntax highlighting for text
+
+export type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'text' | 'none';
+
+export type TextLanguage = 'json' | 'log' | 'config' | 'markdown' | 'code' | 'plain';
+
+export type TokenKind = 'key' | 'string' | 'number' | 'keyword' | 'comment' | 'heading' | 'date' | 'error' | 'warning' | 'info' | 'plain';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+// Text files are read up to this size, the rest is left to the download
+export const TEXT_PREVIEW_MAX_BYTES = 512 * 1024;
+
+// Text formats the Freebox often reports as application/octet-stream
+const TEXT_EXTENSIONS: Record<string, TextLanguage> = {
+  txt: 'plain', nfo: 'plain', csv: 'plain', srt: 'plain', sub: 'plain',
+  html: 'plain', htm: 'plain', xhtml: 'plain', svg: 'plain',
+  log: 'log', out: 'log',
+  json: 'json', geojson: 'json',
+  md: 'markdown', markdown: 'markdown',
+  ini: 'config', conf: 'config', cfg: 'config', env: 'config', properties: 'config', toml: 'config', yml: 'config', yaml: 'config',
+  js: 'code', mjs: 'code', ts: 'code', tsx: 'code', jsx: 'code', py: 'code', sh: 'code', bash: 'code', c: 'code', h: 'code',
+  cpp: 'code', java: 'code', go: 'code', rs: 'code', php: 'code', rb: 'code', css: 'code', xml: 'code', sql: 'code'
+};
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'image/avif'];
+
+// Pages and SVG run scripts when a browser renders them: only their source is shown
+const MARKUP_TYPES = ['text/html', 'application/xhtml+xml', 'image/svg+xml'];
+const MARKUP_EXTENSIONS = ['html', 'htm', 'xhtml', 'svg'];
+
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Viewer for a file, from the mimetype returned by the Freebox
+ * (the extension only decides for text formats it doesn't know)
+ */
+export const getPreviewKind = (file: { name: string; type: string; mimetype?: string }): PreviewKind => {
+  if (file.type === 'dir') return 'none';
+  const mime = (file.mimetype || '').toLowerCase();
+  if (IMAGE_TYPES.includes(mime)) return 'image';
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime === 'application/pdf') return 'pdf';
+  if (mime.startsWith('text/') || MARKUP_TYPES.includes(mime) || /^application\/(json|xml|javascript|x-sh|x-yaml|toml)$/.test(mime)) return 'text';
+  return extensionOf(file.name) in TEXT_EXTENSIONS ? 'text' : 'none';
+};
+
+const isMarkup = (file: { name: string; mimetype?: string }): boolean =>
+  MARKUP_TYPES.includes((file.mimetype || '').toLowerCase()) || MARKUP_EXTENSIONS.includes(extensionOf(file.name));
+
+// Whether the file may also be opened by the browser itself, in a new tab
+export const canOpenInline = (file: { name: string; type: string; mimetype?: string }): boolean =>
+  getPreviewKind(file) !== 'none' && !isMarkup(file);
+
+export const getTextLanguage = (file: { name: string; mimetype?: string }): TextLanguage => {
+  if (isMarkup(file)) return 'plain';
+  const byExtension = TEXT_EXTENSIONS[extensionOf(file.name)];
+  if (byExtension) return byExtension;
+  if (file.mimetype === 'application/json') return 'json';
+  if (file.mimetype === 'text/markdown') return 'markdown';
+  return 'plain';
+};
+
+const STRING = /"(?:[^"\\]|\\.)*"/.source;
+const NUMBER = /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/.source;
+
+// Per language, tried in order at each position of a line
+const RULES: Record<TextLanguage, [string, TokenKind][]> = {
+  json: [
+    [`${STRING}(?=\\s*:)`, 'key'],
+    [STRING, 'string'],
+    [NUMBER, 'number'],
+    ['\\b(?:true|false|null)\\b', 'keyword']
+  ],
+  log: [
+    ['\\b\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?(?:Z|[+-]\\d{2}:?\\d{2})?|\\b[A-Z][a-z]{2} [ \\d]\\d \\d{2}:\\d{2}:\\d{2}\\b', 'date'],
+    ['\\b(?:ERROR|ERR|FATAL|CRIT(?:ICAL)?|PANIC|[Ee]rror|[Ff]atal)\\b', 'error'],
+    ['\\b(?:WARN(?:ING)?|[Ww]arn(?:ing)?)\\b', 'warning'],
+    ['\\b(?:INFO|NOTICE|DEBUG|TRACE)\\b', 'info'],
+    [STRING, 'string']
+  ],
+  config: [
+    ['^\\s*[#;].*$', 'comment'],
+    ['^\\s*\\[[^\\]]*\\]', 'heading'],
+    ['^\\s*-?\\s*[\\w.\\-]+(?=\\s*[=:])', 'key'],
+    [`${STRING}|'[^']*'`, 'string'],
+    [NUMBER, 'number'],
+    ['\\b(?:true|false|yes|no|on|off|null)\\b', 'keyword']
+  ],
+  markdown: [
+    ['^#{1,6} .*$', 'heading'],
+    ['`[^`]+`', 'string'],
+    ['^\\s*(?:[-*+]|\\d+\\.) ', 'keyword'],
+    ['\\[[^\\]]+\\]\\([^)]+\\)', 'key']
+  ],
+  code: [
+    ['\\/\\/.*$|#(?![0-9a-fA-F]{3,8}\\b).*$|\\/\\*.*?\\*\\/|<!--.*?-->|^\\s*\\*.*$', 'comment'],
+    [`${STRING}|'(?:[^'\\\\]|\\\\.)*'|\`(?:[^\`\\\\]|\\\\.)*\``, 'string'],
+    [NUMBER, 'number'],
+    ['\\b(?:const|let|var|function|return|if|else|elif|for|while|do|switch|case|break|continue|import|from|export|default|class|def|async|await|new|try|catch|except|finally|raise|throw|in|of|true|false|null|None|True|False|public|private|static|void|int|string|struct|fn|func|package|echo|then|fi|done|select|where|and|or|not)\\b', 'keyword']
+  ],
+  plain: []
+};
+
+const COMPILED = Object.fromEntries(
+  Object.entries(RULES).map(([language, rules]) => [
+    language,
+    rules.length ? new RegExp(rules.map(([source]) => `(${source})`).join('|'), 'g') : null
+  ])
+) as Record<TextLanguage, RegExp | null>;
+
+// Tokens of one line: the first rule matching at a position wins, the rest is plain text
+export const highlightLine = (line: string, language: TextLanguage): Token[] => {
+  const regex = COMPILED[language];
+  if (!regex || !line) return line ? [{ text: line, kind: 'plain' }] : [];
+
+  const tokens: Token[] = [];
+  let last = 0;
+  regex.lastIndex = 0;
+  for (let match = regex.exec(line); match; match = regex.exec(line)) {
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    if (match.index > last) tokens.push({ text: line.slice(last, match.index), kind: 'plain' });
+    const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+    tokens.push({ text: match[0], kind: RULES[language][group - 1][1] });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) tokens.push({ text: line.slice(last), kind: 'plain' });
+  return tokens;
+};
@@ -47,4 +47,10 @@ export const getPermissionErrorMessage = (permission: string, freeboxUrl?: strin
 export const getPermissionShortError = (permission: string): string => {
   const label = PERMISSION_LABELS[permission] || permission;
   return `Permission "${label}" requise`;
-};
\ No newline at end of file
+};
+
+// Message shown when the dashboard role (not the Freebox app) blocks an action
+export const getRolePermissionMessage = (permission: string): string => {
+  const label = PERMISSION_LABELS[permission] || permission;
+  return `Votre rôle ne permet pas de modifier "${label}". Contactez un administrateur du dashboard.`;
+};
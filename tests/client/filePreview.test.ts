@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canOpenInline, getPreviewKind, getTextLanguage } from '../../src/utils/filePreview';
+
+const file = (name: string, mimetype?: string) => ({ name, type: 'file', mimetype });
+
+describe('filePreview', () => {
+  it('picks the viewer from the mimetype, then the extension', () => {
+    assert.equal(getPreviewKind(file('photo.jpg', 'image/jpeg')), 'image');
+    assert.equal(getPreviewKind(file('film.mkv', 'video/x-matroska')), 'video');
+    assert.equal(getPreviewKind(file('facture.pdf', 'application/pdf')), 'pdf');
+    assert.equal(getPreviewKind(file('config.yml', 'application/octet-stream')), 'text');
+    assert.equal(getPreviewKind(file('disque.iso', 'application/octet-stream')), 'none');
+    assert.equal(getPreviewKind({ name: 'Photos', type: 'dir' }), 'none');
+  });
+
+  it('shows pages and SVG as source, never rendered', () => {
+    for (const markup of [file('page.html', 'text/html'), file('logo.svg', 'image/svg+xml'), file('logo.svg')]) {
+      assert.equal(getPreviewKind(markup), 'text');
+      assert.equal(getTextLanguage(markup), 'plain');
+      assert.equal(canOpenInline(markup), false);
+    }
+    assert.equal(canOpenInline(file('photo.png', 'image/png')), true);
+    assert.equal(canOpenInline(file('disque.iso', 'application/octet-stream')), false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { useFileSearchStore, searchParams, hasSearchFilters, EMPTY_FILTERS } from '../../src/stores/fileSearchStore';
+import type { FileIndexStatus, FileSearchResult } from '../../src/types/api';
+
+const index: FileIndexStatus = {
+  indexedAt: 1760000000000,
+  refreshing: false,
+  files: 120,
+  folders: 14,
+  totalSize: 5_000_000,
+  pending: 0,
+  lastError: null
+};
+
+const result = (name: string): FileSearchResult => ({
+  path: Buffer.from(`/Disque 1/${name}`).toString('base64'),
+  parent: Buffer.from('/Disque 1').toString('base64'),
+  fullPath: `/Disque 1/${name}`,
+  name,
+  type: 'file',
+  size: 1000,
+  modification: 1760000000
+});
+
+describe('fileSearchStore', () => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[] = [];
+  let answer: (url: string) => Promise<Response>;
+
+  before(() => {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requests.push(String(input));
+      return answer(String(input));
+    }) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    useFileSearchStore.getState().clearSearch();
+  });
+
+  it('builds the query of the search', () => {
+    assert.equal(hasSearchFilters(EMPTY_FILTERS), false);
+    assert.equal(hasSearchFilters({ ...EMPTY_FILTERS, minSize: 0 }), true);
+    assert.equal(
+      searchParams({ q: ' vacances 2025 ', ext: '.jpg, png  mkv', type: 'file', minSize: 1048576, from: 1750000000 }),
+      'q=vacances+2025&ext=jpg%2Cpng%2Cmkv&type=file&min_size=1048576&from=1750000000'
+    );
+  });
+
+  it('keeps the results of the latest search only', async () => {
+    let release: () => void = () => undefined;
+    answer = async url => {
+      if (url.includes('q=old')) await new Promise<void>(resolve => { release = resolve; });
+      const name = url.includes('q=old') ? 'old.txt' : 'new.txt';
+      return Response.json({ success: true, result: { entries: [result(name)], total: 1, index } });
+    };
+
+    const older = useFileSearchStore.getState().search({ ...EMPTY_FILTERS, q: 'old' });
+    await useFileSearchStore.getState().search({ ...EMPTY_FILTERS, q: 'new' });
+    release();
+    await older;
+
+    assert.deepEqual(useFileSearchStore.getState().results.map(r => r.name), ['new.txt']);
+    assert.equal(useFileSearchStore.getState().index?.files, 120);
+    assert.equal(useFileSearchStore.getState().isSearching, false);
+  });
+
+  it('reports server errors', async () => {
+    answer = async () => Response.json({ success: false, error: { code: 'INVALID_SEARCH', message: 'Paramètre min_size invalide' } }, { status: 400 });
+    await useFileSearchStore.getState().search({ ...EMPTY_FILTERS, q: 'x' });
+    assert.equal(useFileSearchStore.getState().error, 'Paramètre min_size invalide');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { useFsStore, fileDownloadUrl } from '../../src/stores/fsStore';
+import { useBoxStore } from '../../src/stores/boxStore';
+
+const PATH = Buffer.from('/Disque 1/logs/freebox.log').toString('base64');
+
+describe('fsStore.readTextFile', () => {
+  const originalFetch = globalThis.fetch;
+  const requests: { url: string; range: string | null }[] = [];
+  let answer: () => Promise<Response>;
+
+  before(() => {
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: String(input), range: new Headers(init?.headers).get('Range') });
+      return answer();
+    }) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    useBoxStore.setState({ currentBoxId: 'maison' });
+  });
+
+  it('builds links for the browser with the selected Freebox', () => {
+    assert.equal(
+      fileDownloadUrl([PATH], { inline: true }),
+      `/api/fs/download?path=${encodeURIComponent(PATH)}&inline=1&box=maison`
+    );
+  });
+
+  it('reads only the beginning of a large file', async () => {
+    answer = async () => new Response('2026-10-19 INFO boot\n', {
+      status: 206,
+      headers: { 'Content-Range': 'bytes 0-20/5000000' }
+    });
+
+    const content = await useFsStore.getState().readTextFile(PATH, 1024);
+
+    assert.deepEqual(requests, [{ url: fileDownloadUrl([PATH]), range: 'bytes=0-1023' }]);
+    assert.deepEqual(content, { text: '2026-10-19 INFO boot\n', truncated: true });
+  });
+
+  it('handles small, empty and unreadable files', async () => {
+    answer = async () => new Response('{"a":1}', { status: 206, headers: { 'Content-Range': 'bytes 0-6/7' } });
+    assert.deepEqual(await useFsStore.getState().readTextFile(PATH, 1024), { text: '{"a":1}', truncated: false });
+
+    answer = async () => new Response(null, { status: 416, headers: { 'Content-Range': 'bytes */0' } });
+    assert.deepEqual(await useFsStore.getState().readTextFile(PATH, 1024), { text: '', truncated: false });
+
+    answer = async () => Response.json({ success: false }, { status: 404 });
+    assert.equal(await useFsStore.getState().readTextFile(PATH, 1024), null);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { useFsTaskStore } from '../../src/stores/fsTaskStore';
+import { useFsStore } from '../../src/stores/fsStore';
+import type { FsTask } from '../../src/types/api';
+
+const task = (id: number, state: FsTask['state'], error = 'none'): FsTask => ({
+  id,
+  type: 'mv',
+  state,
+  error,
+  created_ts: 1760000000,
+  progress: state === 'done' ? 100 : 40,
+  eta: state === 'running' ? 12 : 0,
+  nfiles: 3,
+  nfiles_done: 1,
+  total_bytes: 3000,
+  total_bytes_done: 1200,
+  rate: state === 'running' ? 100 : 0
+});
+
+describe('fsTaskStore', () => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[] = [];
+
+  before(() => {
+    // Listing refreshes of the files page
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      requests.push(`${init?.method ?? 'GET'} ${String(input)}`);
+      return Response.json({ success: true, result: [] });
+    }) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    useFsTaskStore.setState({ tasks: [], watched: [], isOpen: false, error: null });
+    useFsStore.setState({ currentPath: '/' });
+  });
+
+  it('opens the drawer for a task still running and follows it', () => {
+    useFsTaskStore.getState().watch(task(4, 'running'));
+    assert.deepEqual(useFsTaskStore.getState().watched, [4]);
+    assert.equal(useFsTaskStore.getState().isOpen, true);
+
+    // A task done at once is only listed
+    useFsTaskStore.setState({ isOpen: false });
+    useFsTaskStore.getState().watch(task(5, 'done'));
+    assert.deepEqual(useFsTaskStore.getState().watched, [4]);
+    assert.equal(useFsTaskStore.getState().isOpen, false);
+  });
+
+  it('refreshes the listing when a followed task ends', () => {
+    useFsTaskStore.getState().watch(task(4, 'running'));
+    useFsTaskStore.setState({ isOpen: false });
+
+    useFsTaskStore.getState().applyTasks([task(4, 'running'), task(9, 'failed', 'disk_full')]);
+    assert.deepEqual(requests, []);
+    // Not started from this tab: its failure doesn't open the drawer
+    assert.equal(useFsTaskStore.getState().isOpen, false);
+
+    useFsTaskStore.getState().applyTasks([task(4, 'done')]);
+    assert.equal(requests.length, 1);
+    assert.match(requests[0], /^GET \/api\/fs\/list/);
+    assert.deepEqual(useFsTaskStore.getState().watched, []);
+  });
+
+  it('shows the failure of a followed task', () => {
+    useFsTaskStore.getState().watch(task(4, 'running'));
+    useFsTaskStore.setState({ isOpen: false });
+
+    useFsTaskStore.getState().applyTasks([task(4, 'failed', 'disk_full')]);
+    assert.equal(useFsTaskStore.getState().isOpen, true);
+    assert.equal(useFsTaskStore.getState().tasks[0].error, 'disk_full');
+  });
+});
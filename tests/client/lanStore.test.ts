@@ -0,0 +1,115 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { useLanStore } from '../../src/stores/lanStore';
+import type { LanHost, LanHostAccessPoint } from '../../src/types/api';
+
+const host = (id: string, overrides: Partial<LanHost> = {}): LanHost => ({
+  id,
+  primary_name: id,
+  host_type: 'other',
+  primary_name_manual: false,
+  l2ident: { id: '00:11:22:33:44:55', type: 'mac_address' },
+  vendor_name: '',
+  persistent: false,
+  reachable: true,
+  last_time_reachable: 0,
+  active: true,
+  last_activity: 0,
+  first_activity: 0,
+  names: [],
+  l3connectivities: [],
+  ...overrides
+});
+
+const accessPoint = (overrides: Partial<LanHostAccessPoint>): LanHostAccessPoint => ({
+  mac: 'F4:CA:E5:00:00:01',
+  type: 'gateway',
+  uid: 'gateway',
+  connectivity_type: 'ethernet',
+  rx_bytes: 0,
+  tx_bytes: 0,
+  rx_rate: 0,
+  tx_rate: 0,
+  ...overrides
+});
+
+describe('lanStore.setHosts', () => {
+  beforeEach(() => {
+    useLanStore.setState({ devices: [], isLoading: true, error: 'Erreur précédente' });
+  });
+
+  it('maps Freebox hosts to devices', () => {
+    useLanStore.getState().setHosts([
+      host('ether-iphone', {
+        primary_name: 'iPhone de Marie',
+        host_type: 'smartphone',
+        vendor_name: 'Apple',
+        l2ident: { id: 'AC:BC:32:00:00:01', type: 'mac_address' },
+        l3connectivities: [
+          { addr: 'fe80::1', af: 'ipv6', active: true, reachable: true, last_activity: 0, last_time_reachable: 0 },
+          { addr: '192.168.1.20', af: 'ipv4', active: false, reachable: false, last_activity: 0, last_time_reachable: 0 },
+          { addr: '192.168.1.21', af: 'ipv4', active: true, reachable: true, last_activity: 0, last_time_reachable: 0 }
+        ],
+        // bytes/s, shown in Mbit/s
+        access_point: accessPoint({ connectivity_type: 'wifi', rx_rate: 1_250_000, tx_rate: 156_250 })
+      })
+    ]);
+
+    const { devices, isLoading, error } = useLanStore.getState();
+    assert.equal(isLoading, false);
+    assert.equal(error, null);
+    assert.deepEqual(devices, [{
+      id: 'ether-iphone',
+      name: 'iPhone de Marie',
+      type: 'phone',
+      connection: 'wifi',
+      speedDown: 10,
+      speedUp: 1.3,
+      active: true,
+      mac: 'AC:BC:32:00:00:01',
+      ip: '192.168.1.21',
+      vendor: 'Apple'
+    }]);
+  });
+
+  it('maps host types and falls back on the vendor name', () => {
+    useLanStore.getState().setHosts([
+      host('a', { primary_name: 'Console', host_type: 'gaming_console' }),
+      host('b', { primary_name: 'Répéteur', host_type: 'networking_device' }),
+      host('c', { primary_name: '', vendor_name: 'Brother', host_type: 'printer' }),
+      host('d', { primary_name: '', host_type: 'frigo' })
+    ]);
+
+    const devices = useLanStore.getState().devices;
+    assert.deepEqual(devices.map(device => [device.name, device.type]), [
+      ['Brother', 'iot'],
+      ['Console', 'tv'],
+      ['Répéteur', 'repeater'],
+      ['Unknown Device', 'other']
+    ]);
+    // Without an access point the host is wired and has no speed
+    assert.equal(devices[0].connection, 'ethernet');
+    assert.equal(devices[0].speedDown, 0);
+  });
+
+  it('lists active devices first', () => {
+    useLanStore.getState().setHosts([
+      host('a', { primary_name: 'Ancien PC', active: false }),
+      host('b', { primary_name: 'Box TV', reachable: false }),
+      host('c', { primary_name: 'Portable', host_type: 'laptop' })
+    ]);
+
+    assert.deepEqual(useLanStore.getState().devices.map(device => [device.name, device.active]), [
+      ['Portable', true],
+      ['Ancien PC', false],
+      ['Box TV', false]
+    ]);
+  });
+
+  it('ignores the access point speed of inactive hosts', () => {
+    useLanStore.getState().setHosts([
+      host('a', { active: false, access_point: accessPoint({ rx_rate: 1_000_000, tx_rate: 1_000_000 }) })
+    ]);
+    assert.equal(useLanStore.getState().devices[0].speedDown, 0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { useUptimeStore } from '../../src/stores/uptimeStore';
+import type { UptimeDay } from '../../src/types/api';
+
+const HISTORY: UptimeDay[] = [
+  { date: '2026-10-17', status: 'up', reboots: 0 },
+  { date: '2026-10-18', status: 'partial', reboots: 1 },
+  { date: '2026-10-19', status: 'unknown', reboots: 0 }
+];
+
+describe('uptimeStore', () => {
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+  let answer: () => Promise<Response>;
+
+  before(() => {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      requested.push(String(input));
+      return answer();
+    }) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    requested.length = 0;
+    answer = async () => Response.json({ success: true, result: HISTORY });
+    useUptimeStore.setState({ history: [], currentUptime: null, lastFetch: null });
+  });
+
+  it('loads the server-side history', async () => {
+    await useUptimeStore.getState().fetchHistory();
+
+    assert.deepEqual(requested, ['/api/metrics/uptime?days=30']);
+    assert.deepEqual(useUptimeStore.getState().getHistoryForDisplay(), [
+      { date: '2026-10-17', status: 'up' },
+      { date: '2026-10-18', status: 'partial' },
+      { date: '2026-10-19', status: 'unknown' }
+    ]);
+  });
+
+  it('keeps the previous history when the request fails', async () => {
+    useUptimeStore.setState({ history: HISTORY });
+    answer = async () => {
+      throw new TypeError('fetch failed');
+    };
+
+    // The API client logs the failure
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      await useUptimeStore.getState().fetchHistory();
+    } finally {
+      console.error = originalError;
+    }
+    assert.deepEqual(useUptimeStore.getState().history, HISTORY);
+    assert.notEqual(useUptimeStore.getState().lastFetch, null);
+  });
+
+  it('records the live uptime and refreshes the history at most every 5 minutes', async () => {
+    const { recordUptime } = useUptimeStore.getState();
+
+    recordUptime(3600);
+    assert.equal(useUptimeStore.getState().currentUptime, 3600);
+    assert.equal(requested.length, 1);
+
+    recordUptime(3605);
+    assert.equal(useUptimeStore.getState().currentUptime, 3605);
+    assert.equal(requested.length, 1);
+
+    useUptimeStore.setState({ lastFetch: Date.now() - 6 * 60 * 1000 });
+    recordUptime(3965);
+    assert.equal(requested.length, 2);
+  });
+});
@@ -0,0 +1,102 @@
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { parser, generate, type Packet } from 'mqtt-packet';
+
+export interface TestBroker {
+  url: string;
+  // Topic filters subscribed by the connected clients
+  subscriptions: string[];
+  // Deliver a message to the subscribed clients, kept for later subscribers when retained
+  publish(topic: string, payload: string, options?: { retain?: boolean }): void;
+  close(): Promise<void>;
+}
+
+interface Client {
+  socket: net.Socket;
+  filters: string[];
+}
+
+// MQTT wildcards: "+" matches one level, "#" the remaining ones
+const matches = (filter: string, topic: string): boolean => {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length || (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i])) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+};
+
+/**
+ * Minimal in-process MQTT 3.1.1 broker for the tests: QoS 0 delivery,
+ * retained messages and wildcard subscriptions, no authentication.
+ * Messages published by the clients are stored when retained but not
+ * forwarded, the tests send the commands with `publish`.
+ */
+export async function startTestBroker(): Promise<TestBroker> {
+  const clients = new Set<Client>();
+  const retained = new Map<string, string>();
+
+  const send = (client: Client, packet: Packet) => {
+    if (!client.socket.destroyed) client.socket.write(generate(packet));
+  };
+
+  const deliver = (client: Client, topic: string, payload: string, retain: boolean) => {
+    send(client, { cmd: 'publish', topic, payload, qos: 0, dup: false, retain });
+  };
+
+  const server = net.createServer(socket => {
+    const client: Client = { socket, filters: [] };
+    clients.add(client);
+    const packets = parser();
+
+    packets.on('packet', (packet: Packet) => {
+      switch (packet.cmd) {
+        case 'connect':
+          send(client, { cmd: 'connack', returnCode: 0, sessionPresent: false });
+          break;
+        case 'subscribe':
+          send(client, { cmd: 'suback', messageId: packet.messageId, granted: packet.subscriptions.map(() => 0) });
+          for (const { topic: filter } of packet.subscriptions) {
+            client.filters.push(filter);
+            for (const [topic, payload] of retained) {
+              if (matches(filter, topic)) deliver(client, topic, payload, true);
+            }
+          }
+          break;
+        case 'publish':
+          if (packet.retain) retained.set(packet.topic, packet.payload.toString());
+          if (packet.qos === 1) send(client, { cmd: 'puback', messageId: packet.messageId });
+          break;
+        case 'pingreq':
+          send(client, { cmd: 'pingresp' });
+          break;
+        case 'disconnect':
+          socket.end();
+          break;
+      }
+    });
+    socket.on('data', data => packets.parse(data));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => clients.delete(client));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    get subscriptions() {
+      return [...clients].flatMap(client => client.filters);
+    },
+    publish(topic, payload, options = {}) {
+      if (options.retain) retained.set(topic, payload);
+      for (const client of clients) {
+        if (client.filters.some(filter => matches(filter, topic))) deliver(client, topic, payload, false);
+      }
+    },
+    async close() {
+      for (const client of clients) client.socket.destroy();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  };
+}
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { startMockFreebox, type MockFreeboxOptions, type StartedMockFreebox } from '../../server/mock/app.js';
+
+export interface ApiBody<T = unknown> {
+  success: boolean;
+  result?: T;
+  // Dashboard errors (errorHandler)
+  error?: { code: string; message: string };
+  // Freebox errors passed through as is
+  error_code?: string;
+  msg?: string;
+  missing_right?: string;
+}
+
+export interface TestResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  body: ApiBody<T>;
+  text: string;
+}
+
+export interface RequestOptions {
+  // Dashboard session cookie, the admin one by default, null for an anonymous request
+  cookie?: string | null;
+  headers?: Record<string, string>;
+}
+
+export interface TestServer {
+  url: string;
+  freebox: StartedMockFreebox;
+  dataDir: string;
+  adminCookie: string;
+  request<T = unknown>(method: string, route: string, body?: unknown, options?: RequestOptions): Promise<TestResponse<T>>;
+  get<T = unknown>(route: string, options?: RequestOptions): Promise<TestResponse<T>>;
+  post<T = unknown>(route: string, body?: unknown, options?: RequestOptions): Promise<TestResponse<T>>;
+  put<T = unknown>(route: string, body?: unknown, options?: RequestOptions): Promise<TestResponse<T>>;
+  del<T = unknown>(route: string, options?: RequestOptions): Promise<TestResponse<T>>;
+  // Create a dashboard account with a role and return its session cookie
+  createUser(username: string, role: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+export const ADMIN_PASSWORD = 'admin-password';
+
+let started = false;
+
+/**
+ * Boot the dashboard Express app (server/app.ts) against a mock Freebox
+ *
+ * Configuration is read from the environment when the server modules load,
+ * so this runs once per test file (node --test gives each file its own
+ * process): data lives in a temporary directory, FREEBOX_URL points at the
+ * mock, an admin account is created and the Freebox app is registered and
+ * logged in unless `freeboxLogin` is false.
+ * Server logs are muted, set TEST_LOGS=1 to see them.
+ */
+export async function startTestServer(options: MockFreeboxOptions & { freeboxLogin?: boolean } = {}): Promise<TestServer> {
+  if (started) throw new Error('startTestServer() can only run once per test file');
+  started = true;
+
+  if (!process.env.TEST_LOGS) {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'freebox-dashboard-test-'));
+  process.env.FREEBOX_TOKEN_FILE = path.join(dataDir, '.freebox_token');
+  process.env.NODE_ENV = 'test';
+
+  const freebox = await startMockFreebox({ grantDelay: 0, rebootDuration: 300, ...options });
+  process.env.FREEBOX_URL = freebox.url;
+
+  const { default: app } = await import('../../server/app.js');
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let adminCookie = '';
+
+  const request = async <T = unknown>(method: string, route: string, body?: unknown, requestOptions: RequestOptions = {}): Promise<TestResponse<T>> => {
+    const cookie = requestOptions.cookie === undefined ? adminCookie : requestOptions.cookie;
+    const response = await fetch(`${url}${route}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(cookie ? { Cookie: cookie } : {}),
+        ...requestOptions.headers
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    const text = await response.text();
+    let parsed: ApiBody<T>;
+    try {
+      parsed = JSON.parse(text) as ApiBody<T>;
+    } catch {
+      parsed = { success: false };
+    }
+    return { status: response.status, headers: response.headers, body: parsed, text };
+  };
+
+  const sessionCookie = (response: TestResponse): string => {
+    const header = response.headers.get('set-cookie');
+    if (!header) throw new Error(`No session cookie (HTTP ${response.status}: ${response.text})`);
+    return header.split(';')[0];
+  };
+
+  const setup = await request('POST', '/api/session/setup', { username: 'admin', password: ADMIN_PASSWORD }, { cookie: null });
+  adminCookie = sessionCookie(setup);
+
+  if (options.freeboxLogin !== false) {
+    const registration = await request<{ trackId: number }>('POST', '/api/auth/register');
+    await request('GET', `/api/auth/status/${registration.body.result?.trackId}`);
+    const login = await request('POST', '/api/auth/login');
+    if (!login.body.success) throw new Error(`Freebox login failed: ${login.text}`);
+  }
+
+  return {
+    url,
+    freebox,
+    dataDir,
+    get adminCookie() {
+      return adminCookie;
+    },
+    request,
+    get: (route, requestOptions) => request('GET', route, undefined, requestOptions),
+    post: (route, body, requestOptions) => request('POST', route, body ?? {}, requestOptions),
+    put: (route, body, requestOptions) => request('PUT', route, body ?? {}, requestOptions),
+    del: (route, requestOptions) => request('DELETE', route, undefined, requestOptions),
+    async createUser(username, role) {
+      const password = `${username}-password`;
+      const created = await request('POST', '/api/users', { username, password, role });
+      if (!created.body.success) throw new Error(`User creation failed: ${created.text}`);
+      return sessionCookie(await request('POST', '/api/session/login', { username, password }, { cookie: null }));
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      await freebox.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
@@ -0,0 +1,264 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'http';
+import { startTestServer, ADMIN_PASSWORD, type TestServer } from '../helpers/testServer.js';
+
+describe('dashboard session, Freebox registration, users, roles and boxes', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ freeboxLogin: false });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('/api/session', () => {
+    it('reports the current user', async () => {
+      const response = await server.get<{ needsSetup: boolean; authenticated: boolean; user: { username: string; admin: boolean } }>('/api/session');
+      assert.equal(response.body.result?.needsSetup, false);
+      assert.equal(response.body.result?.authenticated, true);
+      assert.equal(response.body.result?.user.username, 'admin');
+      assert.equal(response.body.result?.user.admin, true);
+    });
+
+    it('refuses a second setup', async () => {
+      const response = await server.post('/api/session/setup', { username: 'other', password: 'other-password' }, { cookie: null });
+      assert.equal(response.status, 409);
+      assert.equal(response.body.error?.code, 'ALREADY_CONFIGURED');
+    });
+
+    it('rejects wrong credentials and missing fields', async () => {
+      const wrong = await server.post('/api/session/login', { username: 'admin', password: 'nope-nope' }, { cookie: null });
+      assert.equal(wrong.status, 401);
+      assert.equal(wrong.body.error?.code, 'INVALID_CREDENTIALS');
+
+      const missing = await server.post('/api/session/login', { username: 'admin' }, { cookie: null });
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error?.code, 'MISSING_CREDENTIALS');
+    });
+
+    it('opens and closes a session', async () => {
+      const login = await server.post('/api/session/login', { username: 'admin', password: ADMIN_PASSWORD }, { cookie: null });
+      assert.equal(login.status, 200);
+      const cookie = (login.headers.get('set-cookie') ?? '').split(';')[0];
+      assert.ok(cookie);
+
+      assert.equal((await server.get('/api/users', { cookie })).status, 200);
+      await server.post('/api/session/logout', {}, { cookie });
+      assert.equal((await server.get('/api/users', { cookie })).status, 401);
+    });
+
+    it('requires a session on every other API route', async () => {
+      for (const route of ['/api/system', '/api/downloads', '/api/fs/list', '/api/users', '/api/metrics/uptime']) {
+        const response = await server.get(route, { cookie: null });
+        assert.equal(response.status, 401, route);
+        assert.equal(response.body.error?.code, 'UNAUTHENTICATED', route);
+      }
+    });
+
+    it('keeps the health check public', async () => {
+      const response = await server.get('/api/health', { cookie: null });
+      assert.equal(response.status, 200);
+    });
+  });
+
+  describe('/api/auth', () => {
+    it('reports an unregistered app', async () => {
+      const response = await server.get<{ isRegistered: boolean; isLoggedIn: boolean }>('/api/auth/check');
+      assert.equal(response.body.result?.isRegistered, false);
+      assert.equal(response.body.result?.isLoggedIn, false);
+
+      const login = await server.post('/api/auth/login');
+      assert.equal(login.status, 401);
+      assert.equal(login.body.error?.code, 'NOT_REGISTERED');
+    });
+
+    it('validates the track id', async () => {
+      const response = await server.get('/api/auth/status/abc');
+      assert.equal(response.status, 400);
+      assert.equal(response.body.error?.code, 'INVALID_TRACK_ID');
+    });
+
+    it('registers the app and opens a Freebox session', async () => {
+      const registration = await server.post<{ trackId: number }>('/api/auth/register');
+      assert.equal(registration.body.success, true);
+      const trackId = registration.body.result?.trackId;
+
+      const status = await server.get<{ status: string }>(`/api/auth/status/${trackId}`);
+      assert.equal(status.body.result?.status, 'granted');
+
+      const login = await server.post<{ permissions: Record<string, boolean>; capabilities: { model: string } }>('/api/auth/login');
+      assert.equal(login.body.success, true);
+      assert.equal(login.body.result?.permissions.settings, true);
+      assert.equal(login.body.result?.capabilities.model, 'ultra');
+
+      const check = await server.get<{ isRegistered: boolean; isLoggedIn: boolean }>('/api/auth/check');
+      assert.equal(check.body.result?.isRegistered, true);
+      assert.equal(check.body.result?.isLoggedIn, true);
+    });
+
+    it('returns and validates the Freebox URL', async () => {
+      const current = await server.get<{ url: string }>('/api/auth/url');
+      assert.equal(current.body.result?.url, server.freebox.url);
+
+      const missing = await server.post('/api/auth/set-url', {});
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error?.code, 'MISSING_URL');
+    });
+
+    it('logs out of the Freebox', async () => {
+      const logout = await server.post('/api/auth/logout');
+      assert.equal(logout.body.success, true);
+      const check = await server.get<{ isLoggedIn: boolean }>('/api/auth/check');
+      assert.equal(check.body.result?.isLoggedIn, false);
+
+      // Log back in for the rest of the file
+      assert.equal((await server.post('/api/auth/login')).body.success, true);
+    });
+  });
+
+  describe('/api/users and /api/roles', () => {
+    it('creates users and restricts non admins', async () => {
+      const cookie = await server.createUser('lecteur', 'readonly');
+
+      const users = await server.get<Array<{ username: string; role: string }>>('/api/users');
+      assert.deepEqual(users.body.result?.map(user => user.username).sort(), ['admin', 'lecteur']);
+
+      const forbidden = await server.get('/api/users', { cookie });
+      assert.equal(forbidden.status, 403);
+      assert.equal(forbidden.body.error?.code, 'FORBIDDEN_ROLE');
+
+      // Reads are allowed, mutations are not
+      assert.equal((await server.get('/api/system', { cookie })).status, 200);
+      const reboot = await server.post('/api/system/reboot', {}, { cookie });
+      assert.equal(reboot.status, 403);
+      assert.equal(reboot.body.error?.code, 'FORBIDDEN_ROLE');
+
+      // Webhook URLs and their delivery log hold tokens: not even listed
+      assert.equal((await server.get('/api/webhooks', { cookie })).status, 403);
+      assert.equal((await server.get('/api/webhooks/deliveries', { cookie })).status, 403);
+    });
+
+    it('validates new users', async () => {
+      const shortPassword = await server.post('/api/users', { username: 'court', password: '123' });
+      assert.equal(shortPassword.status, 400);
+      assert.equal(shortPassword.body.error?.code, 'INVALID_USER');
+    });
+
+    it('changes passwords and roles, refuses to delete oneself', async () => {
+      const users = await server.get<Array<{ id: string; username: string }>>('/api/users');
+      const admin = users.body.result?.find(user => user.username === 'admin');
+      const reader = users.body.result?.find(user => user.username === 'lecteur');
+      assert.ok(admin && reader);
+
+      assert.equal((await server.put(`/api/users/${reader.id}/role`, { role: 'family' })).body.success, true);
+      assert.equal((await server.put(`/api/users/${reader.id}/role`, { role: 'inconnu' })).body.error?.code, 'INVALID_ROLE');
+      assert.equal((await server.put(`/api/users/${reader.id}/password`, { password: 'nouveau-mot-de-passe' })).body.success, true);
+      assert.equal((await server.put('/api/users/missing/password', { password: 'nouveau-mot-de-passe' })).status, 404);
+
+      const self = await server.del(`/api/users/${admin.id}`);
+      assert.equal(self.status, 400);
+      assert.equal(self.body.error?.code, 'CANNOT_DELETE_SELF');
+      assert.equal((await server.del(`/api/users/${reader.id}`)).body.success, true);
+    });
+
+    it('manages custom roles', async () => {
+      const roles = await server.get<Array<{ id: string; builtin: boolean }>>('/api/roles');
+      assert.deepEqual(roles.body.result?.filter(role => role.builtin).map(role => role.id), ['admin', 'family', 'readonly']);
+
+      const created = await server.post<{ id: string }>('/api/roles', { name: 'Invités', permissions: { tv: 'write' } });
+      assert.equal(created.body.success, true);
+      const id = created.body.result?.id;
+      assert.equal((await server.put(`/api/roles/${id}`, { name: 'Invités TV', permissions: { tv: 'read' } })).body.success, true);
+      assert.equal((await server.del(`/api/roles/${id}`)).body.success, true);
+      assert.notEqual((await server.del('/api/roles/admin')).status, 200);
+    });
+
+    it('keeps the settings API away from roles without the settings permission', async () => {
+      const role = await server.post<{ id: string }>('/api/roles', { name: 'Télé seulement', permissions: { tv: 'write' } });
+      const cookie = await server.createUser('tele', role.body.result!.id);
+
+      for (const route of ['/api/wifi/config', '/api/wifi/full', '/api/system', '/api/lan/devices', '/api/connection', '/api/speedtest/ping']) {
+        const response = await server.get(route, { cookie });
+        assert.equal(response.status, 403, route);
+        assert.equal(response.body.error?.code, 'FORBIDDEN_ROLE', route);
+      }
+
+      // Home page widgets, without the WiFi key
+      const status = await server.get<{ connection: { state: string }; wifi: { bss: Array<{ config: Record<string, unknown> }> }; lan: unknown[] }>('/api/status', { cookie });
+      assert.equal(status.body.success, true);
+      assert.equal(status.body.result?.connection.state, 'up');
+      assert.ok((status.body.result?.lan.length ?? 0) > 0);
+      const bss = status.body.result?.wifi.bss[0];
+      assert.equal(bss?.config.ssid, 'Freebox-MOCK');
+      assert.equal('key' in (bss?.config ?? {}), false);
+
+      assert.equal((await server.get('/api/capabilities', { cookie })).status, 200);
+    });
+  });
+
+  describe('/api/boxes', () => {
+    it('lists the default box and manages extra profiles', async () => {
+      const boxes = await server.get<Array<{ id: string; url: string }>>('/api/boxes');
+      assert.equal(boxes.body.result?.[0].id, 'default');
+      assert.equal(boxes.body.result?.[0].url, server.freebox.url);
+
+      const created = await server.post<{ id: string }>('/api/boxes', { name: 'Résidence secondaire', url: 'http://192.0.2.10' });
+      assert.equal(created.body.success, true);
+      const id = created.body.result?.id;
+      assert.equal((await server.put(`/api/boxes/${id}`, { name: 'Maison de campagne' })).body.success, true);
+
+      // Requests are scoped to the box picked in the header
+      const unknown = await server.get('/api/system', { headers: { 'X-Freebox-Box': 'inconnue' } });
+      assert.equal(unknown.status, 404);
+      assert.equal(unknown.body.error?.code, 'BOX_NOT_FOUND');
+
+      assert.equal((await server.del(`/api/boxes/${id}`)).body.success, true);
+    });
+  });
+
+  describe('cross-origin requests', () => {
+    it('only grants CORS to the configured origins', async () => {
+      const foreign = await server.get('/api/session', { headers: { Origin: 'http://127.0.0.1:8080' } });
+      assert.equal(foreign.headers.get('access-control-allow-origin'), null);
+
+      // Vite dev server, outside of production
+      const vite = await server.get('/api/session', { headers: { Origin: 'http://localhost:5173' } });
+      assert.equal(vite.headers.get('access-control-allow-origin'), 'http://localhost:5173');
+      assert.equal(vite.headers.get('access-control-allow-credentials'), 'true');
+    });
+
+    it('rejects WebSocket upgrades from another origin', async () => {
+      const { isAllowedOrigin } = await import('../../server/middleware/auth.js');
+      const upgrade = (headers: Record<string, string>) => ({ headers }) as unknown as IncomingMessage;
+
+      assert.equal(isAllowedOrigin(upgrade({ host: '192.168.1.20:3001', origin: 'http://192.168.1.20:3001' })), true);
+      assert.equal(isAllowedOrigin(upgrade({ host: '192.168.1.20:3001', origin: 'http://localhost:5173' })), true);
+      // Same IP, another port: SameSite lets the cookie through
+      assert.equal(isAllowedOrigin(upgrade({ host: '192.168.1.20:3001', origin: 'http://192.168.1.20:8080' })), false);
+      assert.equal(isAllowedOrigin(upgrade({ host: '192.168.1.20:3001', origin: 'null' })), false);
+      // No trusted proxy: X-Forwarded-Host is ignored
+      assert.equal(isAllowedOrigin(upgrade({ host: 'localhost:3001', origin: 'https://evil.example', 'x-forwarded-host': 'evil.example' })), false);
+      // Not a browser
+      assert.equal(isAllowedOrigin(upgrade({ host: '192.168.1.20:3001' })), true);
+    });
+  });
+
+  // Last: the test client stays locked out
+  describe('login lockout', () => {
+    it('ignores X-Forwarded-For without a trusted proxy', async () => {
+      const login = (password: string, i: number) => server.post('/api/session/login', { username: 'admin', password }, {
+        cookie: null,
+        headers: { 'X-Forwarded-For': `203.0.113.${i}` }
+      });
+      for (let i = 0; i < 5; i++) {
+        assert.equal((await login('nope-nope', i)).status, 401);
+      }
+      const locked = await login(ADMIN_PASSWORD, 99);
+      assert.equal(locked.status, 429);
+      assert.equal(locked.body.error?.code, 'TOO_MANY_ATTEMPTS');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+
+type Json = Record<string, unknown>;
+
+describe('box status and network settings', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('/api/system', () => {
+    it('returns the normalized system info with the model name', async () => {
+      const response = await server.get<Json & { sensors: Array<{ id: string; value: number }>; fans: unknown[] }>('/api/system');
+      assert.equal(response.body.success, true);
+      assert.equal(response.body.result?.box_model_name, 'Freebox v9 (r1)');
+      assert.ok(response.body.result?.sensors.some(sensor => sensor.id === 'temp_cpu0'));
+      assert.equal(response.body.result?.fans.length, 1);
+    });
+
+    it('returns the raw api_version', async () => {
+      const response = await server.get<Json>('/api/system/version');
+      assert.equal(response.body.success, true);
+      assert.equal(response.body.result?.api_version, '15.0');
+    });
+  });
+
+  describe('/api/capabilities', () => {
+    it('detects the emulated model', async () => {
+      const capabilities = await server.get<{ model: string; hasVm: boolean }>('/api/capabilities');
+      assert.equal(capabilities.body.result?.model, 'ultra');
+
+      const features = await server.get<{ model: string }>('/api/capabilities/features');
+      assert.equal(features.body.result?.model, 'ultra');
+
+      const refreshed = await server.post<{ model: string }>('/api/capabilities/refresh');
+      assert.equal(refreshed.body.result?.model, 'ultra');
+    });
+  });
+
+  describe('/api/connection', () => {
+    it('returns the FTTH status, config and logs', async () => {
+      const status = await server.get<Json>('/api/connection');
+      assert.equal(status.body.result?.media, 'ftth');
+      assert.equal(status.body.result?.state, 'up');
+
+      assert.equal((await server.get('/api/connection/config')).body.success, true);
+      assert.equal((await server.get('/api/connection/ipv6')).body.success, true);
+      assert.ok(Array.isArray((await server.get('/api/connection/logs')).body.result));
+    });
+
+    it('returns RRD histories', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const net = await server.get<{ data: Json[] }>(`/api/connection/history?start=${now - 3600}&end=${now}`);
+      assert.ok((net.body.result?.data.length ?? 0) > 0);
+      assert.ok('rate_down' in (net.body.result?.data[0] ?? {}));
+
+      const temp = await server.get<{ data: Json[] }>('/api/connection/temp-history');
+      assert.ok('cpu0' in (temp.body.result?.data[0] ?? {}));
+    });
+
+    it('updates the connection config', async () => {
+      const response = await server.put<Json>('/api/connection/config', { ping: false });
+      assert.equal(response.body.result?.ping, false);
+    });
+  });
+
+  describe('/api/notifications', () => {
+    it('lists the box notifications', async () => {
+      const response = await server.get('/api/notifications');
+      assert.equal(response.body.success, true);
+      assert.ok(Array.isArray(response.body.result));
+    });
+  });
+
+  describe('/api/wifi', () => {
+    it('returns the config, access points and BSS', async () => {
+      assert.equal((await server.get<Json>('/api/wifi/config')).body.result?.enabled, true);
+
+      const aps = await server.get<Json[]>('/api/wifi/aps');
+      assert.equal(aps.body.result?.length, 3);
+
+      const stations = await server.get<Json[]>('/api/wifi/aps/1/stations');
+      assert.equal(stations.body.success, true);
+
+      const bss = await server.get<Array<{ id: string }>>('/api/wifi/bss');
+      assert.ok((bss.body.result?.length ?? 0) > 0);
+    });
+
+    it('aggregates the overview and stations', async () => {
+      const full = await server.get<Json>('/api/wifi/full');
+      assert.equal(full.body.success, true);
+      assert.ok(full.body.result && 'config' in full.body.result);
+      assert.equal((await server.get('/api/wifi/stations')).body.success, true);
+    });
+
+    it('toggles a BSS', async () => {
+      const bss = await server.get<Array<{ id: string }>>('/api/wifi/bss');
+      const id = encodeURIComponent(bss.body.result?.[0].id ?? '');
+      assert.equal((await server.put<{ config: Json }>(`/api/wifi/bss/${id}`, { enabled: false })).body.result?.config.enabled, false);
+      assert.equal((await server.put<{ config: Json }>(`/api/wifi/bss/${id}`, { enabled: true })).body.result?.config.enabled, true);
+    });
+
+    it('toggles WiFi and plans it', async () => {
+      assert.equal((await server.put<Json>('/api/wifi/config', { enabled: false })).body.result?.enabled, false);
+      assert.equal((await server.put<Json>('/api/wifi/config', { enabled: true })).body.result?.enabled, true);
+      assert.equal((await server.get('/api/wifi/planning')).body.success, true);
+      assert.equal((await server.put<Json>('/api/wifi/planning', { use_planning: true })).body.result?.use_planning, true);
+      assert.equal((await server.get('/api/wifi/mac-filter')).body.success, true);
+    });
+
+    it('runs WPS and temporary disabling', async () => {
+      assert.equal((await server.post('/api/wifi/wps/start')).body.success, true);
+      assert.equal((await server.get('/api/wifi/wps/status')).body.success, true);
+      assert.equal((await server.post('/api/wifi/wps/stop')).body.success, true);
+
+      const disabled = await server.post<{ state: string }>('/api/wifi/temp-disable', { duration: 600 });
+      assert.equal(disabled.body.result?.state, 'active');
+      assert.equal((await server.get<{ state: string }>('/api/wifi/temp-disable')).body.result?.state, 'active');
+      assert.equal((await server.del('/api/wifi/temp-disable')).body.success, true);
+      assert.equal((await server.get<{ state: string }>('/api/wifi/temp-disable')).body.result?.state, 'disabled');
+    });
+
+    it('manages guest keys and MLO', async () => {
+      assert.equal((await server.get('/api/wifi/guest/config')).body.success, true);
+      assert.equal((await server.put('/api/wifi/guest/config', { enabled: true })).body.success, true);
+      const created = await server.post<{ id: number }>('/api/wifi/guest/keys', { description: 'Invités', key: 'bienvenue1234', max_use_count: 0, duration: 3600, access_type: 'net_only' });
+      assert.equal(created.body.success, true);
+      assert.equal((await server.get<Json[]>('/api/wifi/guest/keys')).body.result?.length, 1);
+      assert.equal((await server.del(`/api/wifi/guest/keys/${created.body.result?.id}`)).body.success, true);
+
+      assert.equal((await server.get('/api/wifi/mlo/config')).body.success, true);
+      assert.equal((await server.put('/api/wifi/mlo/config', { enabled: true })).body.success, true);
+    });
+  });
+
+  describe('/api/lan', () => {
+    it('returns the config, interfaces and devices', async () => {
+      assert.equal((await server.get('/api/lan/config')).body.success, true);
+      const interfaces = await server.get<Array<{ name: string }>>('/api/lan/interfaces');
+      assert.ok(interfaces.body.result?.some(iface => iface.name === 'pub'));
+
+      const devices = await server.get<Array<{ primary_name: string }>>('/api/lan/devices');
+      assert.equal(devices.body.result?.length, 9);
+      const pub = await server.get<Json[]>('/api/lan/devices/pub');
+      assert.equal(pub.body.result?.length, 9);
+    });
+
+    it('sends wake on LAN', async () => {
+      const missing = await server.post('/api/lan/wol', { interface: 'pub' });
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error?.code, 'MISSING_PARAMS');
+
+      assert.equal((await server.post('/api/lan/wol', { interface: 'pub', mac: '90:B9:31:12:34:09' })).body.success, true);
+    });
+  });
+
+  describe('/api/dhcp', () => {
+    it('manages static leases keyed by MAC', async () => {
+      assert.equal((await server.get('/api/dhcp/config')).body.success, true);
+      assert.equal((await server.put<Json>('/api/dhcp/config', { sticky_assign: false })).body.result?.sticky_assign, false);
+
+      const leases = await server.get<Json[]>('/api/dhcp/static-leases');
+      assert.equal(leases.body.result?.length, 2);
+
+      const mac = '5C:CB:99:12:34:04';
+      const created = await server.post<{ id: string; ip: string }>('/api/dhcp/static-leases', { mac, ip: '192.168.1.60', comment: 'Téléphone' });
+      assert.equal(created.body.result?.id, mac);
+
+      const conflict = await server.post('/api/dhcp/static-leases', { mac, ip: '192.168.1.61' });
+      assert.equal(conflict.body.error_code, 'exist');
+
+      assert.equal((await server.get<{ ip: string }>(`/api/dhcp/static-leases/${mac}`)).body.result?.ip, '192.168.1.60');
+      assert.equal((await server.put<{ comment: string }>(`/api/dhcp/static-leases/${mac}`, { comment: 'Galaxy' })).body.result?.comment, 'Galaxy');
+      assert.equal((await server.del(`/api/dhcp/static-leases/${mac}`)).body.success, true);
+      assert.equal((await server.get(`/api/dhcp/static-leases/${mac}`)).body.error_code, 'noent');
+    });
+  });
+
+  describe('/api/settings', () => {
+    it('reads and writes DHCP, FTP, LAN and connection settings', async () => {
+      assert.equal((await server.get('/api/settings/dhcp')).body.success, true);
+      assert.equal((await server.get('/api/settings/dhcp/leases')).body.success, true);
+      assert.equal((await server.get<Json[]>('/api/settings/dhcp/static')).body.success, true);
+      assert.equal((await server.put<Json>('/api/settings/ftp', { allow_anonymous: true })).body.result?.allow_anonymous, true);
+      assert.equal((await server.get('/api/settings/lan')).body.success, true);
+      assert.equal((await server.get('/api/settings/connection')).body.success, true);
+      assert.equal((await server.get('/api/settings/connection/ipv6')).body.success, true);
+      assert.equal((await server.get('/api/settings/connection/ftth')).body.success, true);
+    });
+
+    it('starts and stops VPN servers', async () => {
+      const servers = await server.get<Array<{ name: string }>>('/api/settings/vpn/servers');
+      assert.ok(servers.body.result?.some(vpn => vpn.name === 'wireguard'));
+
+      assert.equal((await server.post<{ state: string }>('/api/settings/vpn/servers/wireguard/start')).body.result?.state, 'started');
+      assert.equal((await server.get<{ state: string }>('/api/settings/vpn/servers/wireguard')).body.result?.state, 'started');
+      assert.equal((await server.post<{ state: string }>('/api/settings/vpn/servers/wireguard/stop')).body.result?.state, 'stopped');
+      assert.equal((await server.get('/api/settings/vpn/servers/wireguard/config')).body.success, true);
+
+      const user = await server.post('/api/settings/vpn/users', { login: 'nomade', password: 'mot-de-passe' });
+      assert.equal(user.body.success, true);
+      assert.equal((await server.del('/api/settings/vpn/users/nomade')).body.success, true);
+      assert.equal((await server.get('/api/settings/vpn/connections')).body.success, true);
+      assert.equal((await server.get('/api/settings/vpn/client')).body.success, true);
+      assert.equal((await server.get('/api/settings/vpn/client/status')).body.success, true);
+    });
+
+    it('manages port forwarding and DMZ', async () => {
+      const created = await server.post<{ id: number }>('/api/settings/nat/redirections', {
+        lan_ip: '192.168.1.20', lan_port: 443, wan_port_start: 8443, wan_port_end: 8443, ip_proto: 'tcp', enabled: true, comment: 'NAS'
+      });
+      assert.equal(created.body.success, true);
+      const id = created.body.result?.id;
+      assert.equal((await server.put<{ enabled: boolean }>(`/api/settings/nat/redirections/${id}`, { enabled: false })).body.result?.enabled, false);
+      assert.equal((await server.get<Json[]>('/api/settings/nat/redirections')).body.result?.length, 1);
+      assert.equal((await server.del(`/api/settings/nat/redirections/${id}`)).body.success, true);
+
+      assert.equal((await server.put<Json>('/api/settings/nat/dmz', { enabled: true, ip: '192.168.1.20' })).body.result?.enabled, true);
+    });
+
+    it('returns switch, LCD and Freeplug status', async () => {
+      assert.equal((await server.get<Json[]>('/api/settings/switch')).body.result?.length, 4);
+      assert.equal((await server.get<Json[]>('/api/settings/switch/ports')).body.result?.length, 4);
+      assert.equal((await server.get('/api/settings/lcd')).body.success, true);
+      assert.equal((await server.put('/api/settings/lcd', { brightness: 50 })).body.success, true);
+      assert.equal((await server.get('/api/settings/freeplugs')).body.success, true);
+    });
+  });
+
+  describe('/api/system/reboot', () => {
+    // Last: the box drops every session
+    it('reboots the box', async () => {
+      assert.equal((await server.post('/api/system/reboot')).body.success, true);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+
+// Read by server/config.ts when startTestServer() imports the app
+process.env.PROMETHEUS_TOKEN = 'scrape-token';
+process.env.SPEEDTEST_ENDPOINT = 'true';
+
+type Json = Record<string, unknown>;
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('dashboard features', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('/api/metrics', () => {
+    it('reports the collector and validates queries', async () => {
+      const status = await server.get<{ running: boolean; tiers: unknown[] }>('/api/metrics');
+      assert.equal(status.body.success, true);
+      assert.ok((status.body.result?.tiers.length ?? 0) > 0);
+
+      const missing = await server.get('/api/metrics/query');
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error?.code, 'INVALID_QUERY');
+      assert.equal((await server.get('/api/metrics/query?metrics=rate_down&aggregate=median')).body.error?.code, 'INVALID_QUERY');
+      assert.equal((await server.get('/api/metrics/query?metrics=rate_down')).body.success, true);
+      assert.equal((await server.get<unknown[]>('/api/metrics/uptime?days=7')).body.success, true);
+    });
+  });
+
+  describe('/api/alerts', () => {
+    it('manages rules and validates them', async () => {
+      const invalid = await server.post('/api/alerts/rules', { name: 'Inconnue', type: 'meteo' });
+      assert.equal(invalid.status, 400);
+      assert.equal(invalid.body.error?.code, 'INVALID_RULE');
+
+      const created = await server.post<{ id: string; operator: string }>('/api/alerts/rules', {
+        name: 'CPU chaud',
+        type: 'metric_threshold',
+        metric: 'temp_cpu',
+        operator: 'above',
+        threshold: 80
+      });
+      assert.equal(created.body.success, true);
+      const id = created.body.result?.id;
+      assert.equal((await server.put<{ severity: string }>(`/api/alerts/rules/${id}`, { severity: 'critical' })).body.result?.severity, 'critical');
+      assert.equal((await server.put('/api/alerts/rules/inconnue', { severity: 'critical' })).status, 404);
+      assert.equal((await server.del(`/api/alerts/rules/${id}`)).body.success, true);
+
+      assert.equal((await server.get('/api/alerts/active')).body.success, true);
+      assert.equal((await server.get('/api/alerts/channels/types')).body.success, true);
+    });
+  });
+
+  describe('/api/webhooks', () => {
+    let receiver: http.Server;
+    const received: ReceivedWebhook[] = [];
+
+    before(async () => {
+      receiver = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.end('ok');
+        });
+      });
+      await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(async () => {
+      await new Promise<void>(resolve => receiver.close(() => resolve()));
+    });
+
+    it('validates webhooks', async () => {
+      const response = await server.post('/api/webhooks', { name: 'Mauvais', url: 'ftp://example.com' });
+      assert.equal(response.status, 400);
+      assert.equal(response.body.error?.code, 'INVALID_WEBHOOK');
+      assert.equal((await server.post('/api/webhooks', { name: 'Mauvais', url: 'https://example.com', events: ['inconnu'] })).status, 400);
+    });
+
+    it('sends a signed ping', async () => {
+      const url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+      const created = await server.post<{ id: string; secret: string }>('/api/webhooks', { name: 'Domotique', url, events: ['call.missed'] });
+      const { id, secret } = created.body.result ?? { id: '', secret: '' };
+      assert.equal(secret.length, 64);
+
+      // Listings leave the secret out
+      const listed = await server.get<Array<{ id: string; secret?: string }>>('/api/webhooks');
+      assert.ok(!listed.text.includes(secret));
+      assert.equal('secret' in (listed.body.result?.find(webhook => webhook.id === id) ?? {}), false);
+      const renamed = await server.put<{ secret?: string }>(`/api/webhooks/${id}`, { name: 'Domotique maison' });
+      assert.equal(renamed.body.result?.secret, undefined);
+
+      const delivery = await server.post<{ status: string; responseStatus: number }>(`/api/webhooks/${id}/test`);
+      assert.equal(delivery.body.result?.status, 'success');
+      assert.equal(delivery.body.result?.responseStatus, 200);
+
+      const [ping] = received;
+      assert.equal(ping.headers['x-freebox-event'], 'ping');
+      const expected = crypto.createHmac('sha256', secret).update(`${ping.headers['x-freebox-timestamp']}.${ping.body}`).digest('hex');
+      assert.equal(ping.headers['x-freebox-signature'], `sha256=${expected}`);
+
+      const deliveries = await server.get<unknown[]>(`/api/webhooks/deliveries?webhookId=${id}`);
+      assert.equal(deliveries.body.result?.length, 1);
+      assert.equal((await server.del(`/api/webhooks/${id}`)).body.success, true);
+      assert.equal((await server.post('/api/webhooks/inconnu/test')).status, 404);
+    });
+  });
+
+  describe('/api/scheduler', () => {
+    it('runs a job on the Freebox', async () => {
+      const invalid = await server.post('/api/scheduler/jobs', { name: 'Mauvaise', trigger: { type: 'cron', expression: 'tous les jours' }, action: { type: 'reboot' } });
+      assert.equal(invalid.status, 400);
+      assert.equal(invalid.body.error?.code, 'INVALID_JOB');
+
+      const created = await server.post<{ id: string }>('/api/scheduler/jobs', {
+        name: 'Domotique le matin',
+        trigger: { type: 'cron', expression: '0 7 * * *' },
+        action: { type: 'vm', vmId: 2, running: true }
+      });
+      assert.equal(created.body.success, true, created.text);
+      const id = created.body.result?.id;
+
+      const run = await server.post<{ status: string; reason: string }>(`/api/scheduler/jobs/${id}/run`);
+      assert.equal(run.body.result?.status, 'success', run.text);
+      assert.notEqual(server.freebox.mock.state.vms.find(vm => vm.id === 2)?.status, 'stopped');
+      assert.equal((await server.get<unknown[]>(`/api/scheduler/runs?jobId=${id}`)).body.result?.length, 1);
+
+      assert.equal((await server.put<{ enabled: boolean }>(`/api/scheduler/jobs/${id}`, { enabled: false })).body.result?.enabled, false);
+      assert.equal((await server.del(`/api/scheduler/jobs/${id}`)).body.success, true);
+      assert.equal((await server.post('/api/scheduler/jobs/inconnue/run')).status, 404);
+    });
+  });
+
+  describe('/api/backup', () => {
+    it('exports, previews and restores a configuration', async () => {
+      const exported = await server.get<never>('/api/backup/export');
+      assert.match(exported.headers.get('content-disposition') ?? '', /freebox-backup-default-/);
+      const archive = JSON.parse(exported.text) as Json;
+      assert.equal(archive.format, 'freebox-dashboard-backup');
+
+      assert.equal((await server.put('/api/settings/ftp', { allow_anonymous: true })).body.success, true);
+
+      const preview = await server.post<{ changes: Array<{ id: string; section: string; fields: string[] }> }>('/api/backup/preview', { archive, sections: ['ftp'] });
+      const change = preview.body.result?.changes.find(item => item.section === 'ftp');
+      assert.ok(change, preview.text);
+      assert.deepEqual(change.fields, ['allow_anonymous']);
+
+      const restored = await server.post<Array<{ status: string }>>('/api/backup/restore', { archive, changes: [change.id] });
+      assert.equal(restored.body.result?.[0].status, 'applied');
+      assert.equal((await server.get<{ allow_anonymous: boolean }>('/api/settings/ftp')).body.result?.allow_anonymous, false);
+
+      assert.equal((await server.post('/api/backup/preview', { archive: { format: 'autre' } })).body.error?.code, 'INVALID_BACKUP');
+      assert.equal((await server.post('/api/backup/restore', { archive, changes: [] })).body.error?.code, 'NO_CHANGES');
+    });
+  });
+
+  describe('/api/config-history', () => {
+    it('detects and reverts a change', async () => {
+      await server.post('/api/config-history/check');
+      assert.equal((await server.post('/api/config-history/check')).body.result, null);
+
+      await server.put('/api/settings/ftp', { allow_anonymous: true });
+      const event = await server.post<{ id: string; changes: Array<{ id: string; section: string }> }>('/api/config-history/check');
+      const change = event.body.result?.changes.find(item => item.section === 'ftp');
+      assert.ok(change, event.text);
+
+      const revert = await server.post('/api/config-history/revert', { eventId: event.body.result?.id, changeId: change.id });
+      assert.equal(revert.body.success, true, revert.text);
+      assert.equal((await server.get<{ allow_anonymous: boolean }>('/api/settings/ftp')).body.result?.allow_anonymous, false);
+      assert.equal((await server.post('/api/config-history/revert', { eventId: 'inconnu', changeId: 'x' })).status, 404);
+
+      assert.ok(((await server.get<unknown[]>('/api/config-history/events')).body.result?.length ?? 0) >= 1);
+      assert.equal((await server.get('/api/config-history/diff?from=a&to=b')).body.error?.code, 'SNAPSHOT_NOT_FOUND');
+    });
+  });
+
+  describe('/api/audit', () => {
+    it('records mutating requests and exports them', async () => {
+      await server.post('/api/contacts', { display_name: 'Audit' });
+
+      const entries = await server.get<{ entries: Array<{ user: string; method: string; route: string; success: boolean }>; total: number }>('/api/audit?q=contacts');
+      const entry = entries.body.result?.entries[0];
+      assert.equal(entry?.user, 'admin');
+      assert.equal(entry?.method, 'POST');
+      assert.equal(entry?.success, true);
+
+      assert.equal((await server.get('/api/audit?result=peut-etre')).body.error?.code, 'INVALID_FILTER');
+
+      const csv = await server.get('/api/audit/export?format=csv&q=contacts');
+      assert.match(csv.headers.get('content-type') ?? '', /text\/csv/);
+      assert.match(csv.text, /\/api\/contacts/);
+
+      // Read as a formula by spreadsheets
+      const cookie = await server.createUser('-moins', 'family');
+      await server.post('/api/contacts', { display_name: 'Formule' }, { cookie });
+      const formula = await server.get('/api/audit/export?format=csv&q=moins');
+      assert.match(formula.text, /,'-moins,/);
+    });
+
+    it('keeps anonymous requests to their route, status and IP', async () => {
+      const filler = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => [`champ${i}`, 'x'.repeat(200)]));
+      assert.equal((await server.post('/api/system/reboot', filler, { cookie: null })).status, 401);
+      await server.post('/api/session/login', { username: 'intrus', password: 'devine-moi', ...filler }, { cookie: null });
+
+      type Entry = { user: string | null; ip: string; status: number; payload: unknown; errorCode: string | null };
+      const find = async (q: string) => (await server.get<{ entries: Entry[] }>(`/api/audit?q=${q}`)).body.result?.entries[0];
+      const reboot = await find('reboot');
+      assert.equal(reboot?.user, null);
+      assert.equal(reboot?.status, 401);
+      assert.equal(reboot?.payload, null);
+      assert.equal(reboot?.errorCode, null);
+      assert.ok(reboot?.ip);
+      assert.deepEqual((await find('session/login'))?.payload, { body: { username: 'intrus' } });
+    });
+
+    it('caps the payloads it keeps', async () => {
+      const filler = Object.fromEntries(Array.from({ length: 2000 }, (_, i) => [`champ${i}`, { valeur: 'x'.repeat(200) }]));
+      await server.post('/api/diagnostics/ping', { host: 'pas un hôte', ...filler });
+
+      const entry = (await server.get<{ entries: Array<{ payload: unknown }> }>('/api/audit?q=diagnostics')).body.result?.entries[0];
+      assert.ok(JSON.stringify(entry?.payload).length < 9 * 1024);
+    });
+
+    it('is reserved to admins', async () => {
+      const cookie = await server.createUser('famille', 'family');
+      assert.equal((await server.get('/api/audit', { cookie })).status, 403);
+    });
+  });
+
+  describe('/api/mqtt and /api/diagnostics', () => {
+    it('reports a disabled MQTT bridge', async () => {
+      assert.equal((await server.get<{ enabled: boolean }>('/api/mqtt')).body.result?.enabled, false);
+    });
+
+    it('validates diagnostics input', async () => {
+      assert.equal((await server.post('/api/diagnostics/ping', { host: 'pas un hôte' })).body.error?.code, 'INVALID_HOST');
+      assert.equal((await server.post('/api/diagnostics/dns', { name: 'example.com', type: 'XYZ' })).body.error?.code, 'INVALID_RECORD_TYPE');
+      assert.equal((await server.post('/api/diagnostics/ports', { host: '127.0.0.1', ports: [] })).body.error?.code, 'INVALID_PORTS');
+    });
+
+    it('streams a port check as NDJSON', async () => {
+      const port = Number(new URL(server.url).port);
+      const response = await server.post('/api/diagnostics/ports', { host: '127.0.0.1', ports: [{ port, protocol: 'tcp' }] });
+      assert.match(response.headers.get('content-type') ?? '', /application\/x-ndjson/);
+
+      const events = response.text.trim().split('\n').map(line => JSON.parse(line) as { type: string; data: { ports: Array<{ state: string }> } });
+      const result = events[events.length - 1];
+      assert.equal(result.type, 'result');
+      assert.equal(result.data.ports[0].state, 'open');
+    });
+  });
+
+  describe('/api/speedtest', () => {
+    it('returns targets, history, schedule and report', async () => {
+      assert.ok(((await server.get<unknown[]>('/api/speedtest/targets')).body.result?.length ?? 0) > 0);
+      assert.equal((await server.get('/api/speedtest/history')).body.success, true);
+      assert.equal((await server.get('/api/speedtest/schedule')).body.success, true);
+      assert.equal((await server.get('/api/speedtest/report')).body.success, true);
+      assert.equal((await server.get('/api/speedtest/report?month=2024-13')).body.error?.code, 'INVALID_MONTH');
+      assert.equal((await server.put('/api/speedtest/schedule', { enabled: true, expressions: ['jamais'] })).body.error?.code, 'INVALID_SCHEDULE');
+    });
+
+    it('serves the self-hosted test endpoint without a session', async () => {
+      const download = await fetch(`${server.url}/speedtest/download?bytes=1000`);
+      assert.equal((await download.arrayBuffer()).byteLength, 1000);
+
+      const upload = await fetch(`${server.url}/speedtest/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: new Uint8Array(2048)
+      });
+      assert.equal(((await upload.json()) as { result: { bytes: number } }).result.bytes, 2048);
+    });
+  });
+
+  describe('/metrics', () => {
+    it('requires the scrape token', async () => {
+      const anonymous = await server.get('/metrics', { cookie: null });
+      assert.equal(anonymous.status, 401);
+      assert.equal(anonymous.headers.get('www-authenticate'), 'Bearer');
+    });
+
+    it('exposes OpenMetrics samples', async () => {
+      const response = await server.get('/metrics', { cookie: null, headers: { Authorization: 'Bearer scrape-token' } });
+      assert.equal(response.status, 200);
+      assert.match(response.text, /^freebox_up\{model="ultra"\} 1$/m);
+    });
+
+    it('exports the Freebox picked by ?box=', async () => {
+      const scrape = (box: string, token = 'scrape-token') => server.get(`/metrics?box=${box}`, {
+        cookie: null,
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      // Unknown boxes are not revealed without the token
+      assert.equal((await scrape('inconnue', 'nope')).status, 401);
+      assert.equal((await scrape('inconnue')).body.error?.code, 'BOX_NOT_FOUND');
+
+      const created = await server.post<{ id: string }>('/api/boxes', { name: 'Résidence secondaire', url: 'http://192.0.2.10' });
+      const id = created.body.result!.id;
+      try {
+        // No session opened on that box yet
+        assert.match((await scrape(id)).text, /^freebox_up\{model="unknown"\} 0$/m);
+
+        // The collected history, alerts, webhooks and MQTT only follow the default box
+        for (const route of ['/api/metrics/uptime', '/api/alerts/rules', '/api/webhooks', '/api/mqtt']) {
+          const response = await server.get(route, { headers: { 'X-Freebox-Box': id } });
+          assert.equal(response.status, 400, route);
+          assert.equal(response.body.error?.code, 'DEFAULT_BOX_ONLY', route);
+        }
+      } finally {
+        await server.del(`/api/boxes/${id}`);
+      }
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+
+// Freebox failures are passed through FreeboxApiService.request() to the browser
+describe('Freebox error paths', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('passes auth_required through when the Freebox session is gone', async () => {
+    server.freebox.mock.auth.closeAllSessions();
+
+    const response = await server.get('/api/downloads');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.success, false);
+    assert.equal(response.body.error_code, 'auth_required');
+
+    const check = await server.get<{ isLoggedIn: boolean }>('/api/auth/check');
+    assert.equal(check.body.result?.isLoggedIn, false);
+    assert.equal((await server.post('/api/auth/login')).body.success, true);
+    assert.equal((await server.get('/api/downloads')).body.success, true);
+  });
+
+  it('passes insufficient_rights through with the missing right', async () => {
+    const permissions = server.freebox.mock.auth.permissions;
+    permissions.downloader = false;
+    try {
+      const response = await server.get('/api/downloads');
+      assert.equal(response.body.success, false);
+      assert.equal(response.body.error_code, 'insufficient_rights');
+      assert.equal(response.body.missing_right, 'downloader');
+    } finally {
+      permissions.downloader = true;
+    }
+  });
+
+  it('explains insufficient_rights when starting WPS', async () => {
+    const permissions = server.freebox.mock.auth.permissions;
+    permissions.settings = false;
+    try {
+      const response = await server.post('/api/wifi/wps/start');
+      assert.equal(response.body.success, false);
+      assert.equal(response.body.error?.code, 'insufficient_rights');
+      assert.match(response.body.error?.message ?? '', /réenregistrez/);
+    } finally {
+      permissions.settings = true;
+    }
+  });
+
+  it('turns non-JSON answers into invalid_response', async () => {
+    // A rebooting box answers with a plain text 503
+    server.freebox.mock.state.reboot(60_000);
+    try {
+      const response = await server.get('/api/connection');
+      assert.equal(response.body.success, false);
+      assert.equal(response.body.error_code, 'invalid_response');
+      assert.match(response.body.msg ?? '', /503/);
+    } finally {
+      server.freebox.mock.state.rebootingUntil = 0;
+    }
+  });
+
+  it('turns network failures into request_failed', async () => {
+    // Nothing listens on the discard port
+    assert.equal((await server.post('/api/auth/set-url', { url: 'http://127.0.0.1:9' })).body.success, true);
+    try {
+      const response = await server.get('/api/calls');
+      assert.equal(response.body.success, false);
+      assert.equal(response.body.error_code, 'request_failed');
+    } finally {
+      await server.post('/api/auth/set-url', { url: server.freebox.url });
+    }
+    assert.equal((await server.get('/api/calls')).body.success, true);
+  });
+
+  it('passes Freebox validation errors through', async () => {
+    const response = await server.post('/api/dhcp/static-leases', { mac: 'pas-une-mac', ip: '192.168.1.50' });
+    assert.equal(response.body.success, false);
+    assert.ok(response.body.error_code || response.body.error?.code);
+  });
+
+  it('rejects invalid ids before calling the Freebox', async () => {
+    const response = await server.get('/api/downloads/abc');
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'INVALID_ID');
+  });
+});
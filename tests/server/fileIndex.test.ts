@@ -0,0 +1,146 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+import type { DuplicateReport, FileIndexStatus, FileSearchResponse } from '../../server/types/fileIndex.js';
+
+const b64 = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+const PHOTOS = '/Disque 1/Photos';
+const DOCS = '/Disque 1/Documents';
+
+describe('/api/fs/search and /api/fs/duplicates', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const state = () => server.freebox.mock.state;
+
+  const waitFor = async <T>(read: () => Promise<T>, done: (value: T) => boolean): Promise<T> => {
+    for (let i = 0; i < 100; i++) {
+      const value = await read();
+      if (done(value)) return value;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('Timed out');
+  };
+  const indexStatus = async () => (await server.get<FileIndexStatus>('/api/fs/index')).body.result!;
+  const waitIndexed = () => waitFor(indexStatus, status => status.indexedAt !== null && !status.refreshing);
+  const search = async (query: string) => (await server.get<FileSearchResponse>(`/api/fs/search?${query}`)).body.result!;
+  const paths = (response: FileSearchResponse) => response.entries.map(entry => entry.fullPath);
+
+  it('indexes the whole storage on first use and searches full paths', async () => {
+    const first = await search('q=vacances');
+    // Built in the background: nothing yet
+    assert.equal(first.index.indexedAt, null);
+
+    const status = await waitIndexed();
+    assert.ok(status.files >= 10, JSON.stringify(status));
+    assert.ok(status.folders >= 9);
+    assert.equal(status.lastError, null);
+
+    // Words anywhere in the path, accents and case ignored
+    assert.deepEqual(paths(await search('q=photos%202025%20VACANCES')), [
+      `${PHOTOS}/2025/vacances-001.jpg`,
+      `${PHOTOS}/2025/vacances-002.jpg`
+    ]);
+    assert.deepEqual(paths(await search('q=videos&type=dir')), ['/Disque 1/Vidéos', '/Disque 1/Vidéos/Films']);
+
+    const result = (await search('q=notes')).entries[0];
+    assert.equal(result.path, b64(`${DOCS}/notes.txt`));
+    assert.equal(result.parent, b64(DOCS));
+    assert.equal(result.name, 'notes.txt');
+  });
+
+  it('filters by extension, size, date and folder', async () => {
+    assert.deepEqual(paths(await search('ext=md,.TXT')), [`${DOCS}/notes.txt`, `${DOCS}/README.md`]);
+    assert.deepEqual(paths(await search(`min_size=${500 * 1024 * 1024}&max_size=${2 * 1024 * 1024 * 1024}`)), [
+      '/Disque 1/Téléchargements/debian-12.8.0-amd64-netinst.iso',
+      '/Disque 1/Vidéos/Films/big_buck_bunny_720p.mkv'
+    ]);
+    assert.deepEqual(paths(await search(`ext=jpg&max_size=4000000&path=${encodeURIComponent(b64(PHOTOS))}`)), [`${PHOTOS}/2025/vacances-002.jpg`]);
+
+    const old = Math.floor(Date.now() / 1000) - 30 * 86400;
+    state().fs.get(`${DOCS}/notes.txt`)!.modification = old;
+    await server.post('/api/fs/index/refresh', { path: b64(DOCS) });
+    await waitIndexed();
+    assert.deepEqual(paths(await search(`q=documents&type=file&to=${old + 1}`)), [`${DOCS}/notes.txt`]);
+    assert.ok(!paths(await search(`q=documents&type=file&from=${old + 1}`)).includes(`${DOCS}/notes.txt`));
+
+    const limited = await search('type=file&limit=2');
+    assert.equal(limited.entries.length, 2);
+    assert.ok(limited.total > 2);
+  });
+
+  it('keeps up with changes made through the dashboard, and others after a refresh', async () => {
+    assert.equal((await server.post('/api/fs/mkdir', { parent: b64(DOCS), dirname: 'Impôts' })).body.success, true);
+    assert.equal((await indexStatus()).pending, 1);
+    // Listed again before the search, no full walk
+    assert.deepEqual(paths(await search('q=impots')), [`${DOCS}/Impôts`]);
+    assert.equal((await indexStatus()).pending, 0);
+
+    // Written behind the dashboard's back
+    state().writeFile(`${DOCS}/Impôts/avis-2025.pdf`, undefined, 90_000);
+    assert.deepEqual(paths(await search('q=avis')), []);
+    await server.post('/api/fs/index/refresh', {});
+    await waitIndexed();
+    assert.deepEqual(paths(await search('q=avis')), [`${DOCS}/Impôts/avis-2025.pdf`]);
+
+    assert.equal((await server.post('/api/fs/remove', { files: [b64(`${DOCS}/Impôts`)] })).body.success, true);
+    assert.deepEqual(paths(await search('q=impots')), []);
+  });
+
+  it('groups duplicates by size then by Freebox digest', async () => {
+    const mock = state();
+    const addTask = mock.addTask.bind(mock);
+    let hashTasks = 0;
+    mock.addTask = (type, ...args) => {
+      if (type === 'hash') hashTasks++;
+      return addTask(type, ...args);
+    };
+
+    try {
+      const scan = async () => {
+        const started = await server.post<DuplicateReport>('/api/fs/duplicates', {});
+        assert.equal(started.body.result?.status, 'running', started.text);
+        return waitFor(async () => (await server.get<DuplicateReport>('/api/fs/duplicates')).body.result!, report => report.status !== 'running');
+      };
+
+      const report = await scan();
+      assert.equal(report.status, 'done', report.error ?? '');
+      assert.equal(report.groups.length, 1);
+      assert.deepEqual(report.groups[0].files.map(file => file.fullPath), [
+        `${PHOTOS}/2025/vacances-001.jpg`,
+        `${PHOTOS}/vacances-001 (copie).jpg`
+      ]);
+      assert.equal(report.reclaimable, 4_194_304);
+      assert.equal(hashTasks, 2);
+      // Hash tasks are removed once read
+      assert.ok(!mock.fsTasks.some(task => task.type === 'hash'));
+
+      // Same files: digests come from the cache
+      assert.equal((await scan()).groups.length, 1);
+      assert.equal(hashTasks, 2);
+
+      // Deleting a copy empties its group
+      assert.equal((await server.post('/api/fs/remove', { files: [b64(`${PHOTOS}/vacances-001 (copie).jpg`)] })).body.success, true);
+      const after = (await server.get<DuplicateReport>('/api/fs/duplicates')).body.result!;
+      assert.deepEqual(after.groups, []);
+      assert.equal(after.reclaimable, 0);
+    } finally {
+      mock.addTask = addTask;
+    }
+  });
+
+  it('validates requests', async () => {
+    assert.equal((await server.get('/api/fs/search?min_size=abc')).body.error?.code, 'INVALID_SEARCH');
+    assert.equal((await server.get('/api/fs/search?type=link')).body.error?.code, 'INVALID_SEARCH');
+    assert.equal((await server.get('/api/fs/search?q=a&q=b')).body.error?.code, 'INVALID_SEARCH');
+    assert.equal((await server.post('/api/fs/duplicates', { min_size: -1 })).body.error?.code, 'INVALID_SEARCH');
+    assert.equal((await server.post('/api/fs/index/refresh', { path: 42 })).body.error?.code, 'INVALID_PATH');
+  });
+});
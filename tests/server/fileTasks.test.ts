@@ -0,0 +1,99 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+import type { FsTask } from '../../shared/freebox/index.js';
+
+const b64 = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+const MOVIE = '/Disque 1/Vidéos/Films/big_buck_bunny_720p.mkv';
+const DOCS = '/Disque 1/Documents';
+
+describe('/api/fs/tasks', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const state = () => server.freebox.mock.state;
+  const tasks = async () => (await server.get<FsTask[]>('/api/fs/tasks')).body.result ?? [];
+
+  it('follows a large copy in the background, paused and resumed', async () => {
+    const copy = await server.post<FsTask>('/api/fs/copy', { files: [b64(MOVIE)], dst: b64(DOCS), mode: 'overwrite' });
+    const task = copy.body.result!;
+    // 1.4 GB at 100 MB/s: the files are there once the task ends
+    assert.equal(task.state, 'running', copy.text);
+    assert.ok(task.eta > 0);
+    assert.ok(!state().fs.has(`${DOCS}/big_buck_bunny_720p.mkv`));
+
+    const paused = await server.put<FsTask>(`/api/fs/tasks/${task.id}`, { state: 'paused' });
+    assert.equal(paused.body.result?.state, 'paused');
+    assert.equal(paused.body.result?.rate, 0);
+
+    state().fsTaskRate = 1e12;
+    try {
+      assert.equal((await server.put<FsTask>(`/api/fs/tasks/${task.id}`, { state: 'running' })).body.result?.state, 'running');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const done = (await tasks()).find(t => t.id === task.id);
+      assert.equal(done?.state, 'done');
+      assert.equal(done?.progress, 100);
+      assert.ok(state().fs.has(`${DOCS}/big_buck_bunny_720p.mkv`));
+    } finally {
+      state().fsTaskRate = 100 * 1024 * 1024;
+    }
+  });
+
+  it('cancels a running move', async () => {
+    const move = await server.post<FsTask>('/api/fs/move', { files: [b64(MOVIE)], dst: b64('/Disque 1/Téléchargements'), mode: 'overwrite' });
+    const task = move.body.result!;
+    assert.equal(task.state, 'running');
+
+    assert.equal((await server.del(`/api/fs/tasks/${task.id}`)).body.success, true);
+    assert.ok(!(await tasks()).some(t => t.id === task.id));
+    // Cancelled before its end: nothing moved
+    assert.ok(state().fs.has(MOVIE));
+    assert.ok(!state().fs.has('/Disque 1/Téléchargements/big_buck_bunny_720p.mkv'));
+  });
+
+  it('creates and extracts archives, and reports failed tasks', async () => {
+    const archive = await server.post<FsTask>('/api/fs/archive', {
+      files: [b64(`${DOCS}/notes.txt`), b64(`${DOCS}/README.md`)],
+      dirname: b64(DOCS),
+      name: 'documents.zip'
+    });
+    assert.equal(archive.body.result?.type, 'archive', archive.text);
+    assert.equal(archive.body.result?.state, 'done');
+    assert.ok(state().fs.has(`${DOCS}/documents.zip`));
+
+    state().mkdir('/Disque 1/Extraction');
+    const extract = () => server.post<FsTask>('/api/fs/extract', { src: b64(`${DOCS}/documents.zip`), dst: b64('/Disque 1/Extraction') });
+    assert.equal((await extract()).body.result?.state, 'done');
+    assert.ok(state().fs.has('/Disque 1/Extraction/notes.txt'));
+    assert.ok(state().fs.has('/Disque 1/Extraction/README.md'));
+
+    // Same files again without overwrite: the task fails with the Freebox error code
+    const again = (await extract()).body.result!;
+    assert.equal(again.state, 'failed');
+    assert.equal(again.error, 'file_exists');
+    assert.equal((await tasks()).find(t => t.id === again.id)?.state, 'failed');
+
+    const cleared = await server.del<{ removed: number }>('/api/fs/tasks');
+    assert.ok((cleared.body.result?.removed ?? 0) >= 3);
+    assert.ok((await tasks()).every(t => t.state !== 'done' && t.state !== 'failed'));
+  });
+
+  it('validates requests', async () => {
+    assert.equal((await server.put('/api/fs/tasks/1', { state: 'stopped' })).body.error?.code, 'INVALID_TASK_STATE');
+    assert.equal((await server.put('/api/fs/tasks/abc', { state: 'paused' })).body.error?.code, 'INVALID_TASK');
+    assert.equal((await server.post('/api/fs/archive', { files: [b64(`${DOCS}/notes.txt`)], dirname: b64(DOCS) })).body.error?.code, 'INVALID_ARCHIVE');
+    assert.equal((await server.post('/api/fs/extract', { src: b64(`${DOCS}/notes.txt`) })).body.error?.code, 'INVALID_EXTRACT');
+
+    // Refused by the Freebox, passed through
+    const format = await server.post('/api/fs/archive', { files: [b64(`${DOCS}/notes.txt`)], dirname: b64(DOCS), name: 'notes.rar' });
+    assert.equal(format.body.success, false);
+    assert.equal(format.body.error_code, 'invalid_request');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+import { startTestBroker, type TestBroker } from '../helpers/mqttBroker.js';
+
+describe('MQTT bridge commands', () => {
+  let server: TestServer;
+  let broker: TestBroker;
+  let bridge: { start(): void; stop(): Promise<void> };
+  const warnings: string[] = [];
+
+  const waitFor = async (done: () => boolean): Promise<void> => {
+    for (let i = 0; i < 100; i++) {
+      if (done()) return;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('Timed out');
+  };
+  const warned = (text: string) => warnings.filter(warning => warning.includes(text)).length;
+
+  before(async () => {
+    broker = await startTestBroker();
+    process.env.MQTT_URL = broker.url;
+    server = await startTestServer();
+    console.warn = (...args: unknown[]) => {
+      warnings.push(args.join(' '));
+    };
+
+    // Left on the broker by another client: must not reboot the box when the bridge connects
+    broker.publish('freebox/reboot/set', 'PRESS', { retain: true });
+    ({ mqttBridge: bridge } = await import('../../server/services/mqttBridge.js'));
+    bridge.start();
+    await waitFor(() => broker.subscriptions.length === 2);
+  });
+
+  after(async () => {
+    await bridge.stop();
+    await broker.close();
+    await server.close();
+  });
+
+  const state = () => server.freebox.mock.state;
+
+  it('ignores retained commands', async () => {
+    await waitFor(() => warned('Ignoring retained command freebox/reboot/set') === 1);
+    assert.equal(state().isRebooting(), false);
+  });
+
+  it('only switches WiFi on ON and OFF', async () => {
+    for (const payload of ['off', 'garbage', '']) {
+      broker.publish('freebox/wifi/set', payload);
+    }
+    await waitFor(() => warned('Rejected wifi') === 3);
+    assert.equal(state().wifiConfig.enabled, true);
+
+    broker.publish('freebox/wifi/set', 'OFF');
+    await waitFor(() => state().wifiConfig.enabled === false);
+    broker.publish('freebox/wifi/set', 'ON');
+    await waitFor(() => state().wifiConfig.enabled === true);
+  });
+
+  it('validates VM and temporary WiFi cut payloads', async () => {
+    broker.publish('freebox/vm/0/set', 'start');
+    broker.publish('freebox/wifi/temp_disable/set', '3600s');
+    await waitFor(() => warned('Rejected vm/0') === 1 && warned('Rejected wifi/temp_disable') === 1);
+  });
+
+  it('reboots on PRESS only', async () => {
+    broker.publish('freebox/reboot/set', 'yes');
+    await waitFor(() => warned('Rejected reboot') === 1);
+    assert.equal(state().isRebooting(), false);
+
+    broker.publish('freebox/reboot/set', 'PRESS');
+    await waitFor(() => state().isRebooting());
+  });
+});
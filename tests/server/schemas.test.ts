@@ -0,0 +1,95 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+import type { FreeboxApiService } from '../../server/services/freeboxApi.js';
+
+const MODELS = ['ultra', 'delta', 'pop', 'revolution', 'mini4k'];
+
+describe('Freebox response validation', () => {
+  let server: TestServer;
+  let freeboxApi: FreeboxApiService;
+  const warnings: string[] = [];
+
+  before(async () => {
+    server = await startTestServer();
+    ({ freeboxApi } = await import('../../server/services/freeboxApi.js'));
+    console.warn = (message: unknown) => {
+      warnings.push(String(message));
+    };
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // Every validated getter, against the current mock state
+  const fetchAll = async () => {
+    const interfaces = await freeboxApi.getLanBrowserInterfaces();
+    const hosts = await Promise.all((interfaces.result ?? []).map(iface => freeboxApi.getLanHosts(iface.name)));
+    const profiles = await freeboxApi.getProfiles();
+    await Promise.all([
+      freeboxApi.getApiVersion(),
+      freeboxApi.getSystemInfo(),
+      freeboxApi.getConnectionStatus(),
+      freeboxApi.getWifiBss(),
+      freeboxApi.getDhcpStaticLeases(),
+      freeboxApi.getDownloads(),
+      freeboxApi.getDownloadStats(),
+      freeboxApi.getDisks(),
+      freeboxApi.getFsTasks(),
+      freeboxApi.getCallLog(),
+      freeboxApi.getContacts(),
+      freeboxApi.getParentalFilters(),
+      freeboxApi.getNetworkControl(),
+      freeboxApi.getVms(),
+      freeboxApi.listFiles('/'),
+      freeboxApi.getRrdData('net'),
+      freeboxApi.getRrdData('temp'),
+      ...(profiles.result ?? []).map(profile => freeboxApi.getNetworkControlRules(profile.id))
+    ]);
+    return hosts;
+  };
+
+  it('accepts the responses of every emulated model', async () => {
+    for (const model of MODELS) {
+      server.freebox.mock.reset(model);
+      const hosts = await fetchAll();
+      assert.ok(hosts.some(response => (response.result?.length ?? 0) > 0), model);
+    }
+    assert.deepEqual(warnings, []);
+  });
+
+  it('logs a drifting field once with its path and still returns the data', async () => {
+    server.freebox.mock.reset('ultra');
+    const host = server.freebox.mock.state.hosts[0] as unknown as Record<string, unknown>;
+    host.l2ident = { id: 42, type: 'mac_address' };
+
+    const first = await freeboxApi.getLanHosts('pub');
+    await freeboxApi.getLanHosts('pub');
+
+    assert.equal(first.success, true);
+    assert.equal(first.result?.[0].l2ident.id, 42);
+    assert.deepEqual(warnings, [
+      '[FreeboxAPI] Unexpected response: GET /lan/browser/pub/ - result[0].l2ident.id: expected string, got number'
+    ]);
+  });
+
+  it('lists folder entries without "." and ".." unless asked', async () => {
+    server.freebox.mock.reset('ultra');
+    warnings.length = 0;
+    const folder = Buffer.from('/Disque 1').toString('base64');
+
+    const listing = await freeboxApi.listFiles(folder);
+    assert.equal(listing.success, true);
+    assert.ok(listing.result!.length > 0);
+    assert.ok(listing.result!.every(entry => entry.name !== '.' && entry.name !== '..'));
+
+    const explorer = await freeboxApi.listFiles(folder, { dotEntries: true });
+    assert.deepEqual(explorer.result!.slice(0, 2).map(entry => entry.name), ['.', '..']);
+
+    const missing = await freeboxApi.listFiles(Buffer.from('/Disque 1/absent').toString('base64'));
+    assert.equal(missing.success, false);
+    assert.equal(missing.result, undefined);
+    assert.deepEqual(warnings, []);
+  });
+});
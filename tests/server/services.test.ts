@@ -0,0 +1,153 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+
+type Json = Record<string, unknown>;
+
+interface Vm {
+  id: number;
+  name: string;
+  status: string;
+}
+
+describe('VMs, telephony, TV and parental control', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('/api/vm', () => {
+    it('lists VMs and distributions', async () => {
+      const vms = await server.get<Vm[]>('/api/vm');
+      assert.deepEqual(vms.body.result?.map(vm => vm.name), ['debian-services', 'home-assistant']);
+      assert.equal((await server.get<Vm>('/api/vm/1')).body.result?.status, 'running');
+    });
+
+    it('starts and stops a VM', async () => {
+      assert.equal((await server.post('/api/vm/2/start')).body.success, true);
+      assert.equal((await server.get<Vm>('/api/vm/2')).body.result?.status, 'starting');
+      await sleep(1700);
+      assert.equal((await server.get<Vm>('/api/vm/2')).body.result?.status, 'running');
+
+      assert.equal((await server.post('/api/vm/2/restart')).body.success, true);
+      await sleep(2200);
+      assert.equal((await server.post('/api/vm/2/stop')).body.success, true);
+      assert.equal((await server.get<Vm>('/api/vm/2')).body.result?.status, 'stopping');
+    });
+
+    it('creates, updates and deletes a VM', async () => {
+      const created = await server.post<Vm>('/api/vm', { name: 'tests', os: 'debian', vcpus: 1, memory: 512, disk_type: 'qcow2', disk_path: b64('/Disque 1/VMs/tests.qcow2') });
+      assert.equal(created.body.success, true, created.text);
+      const id = created.body.result?.id;
+      assert.equal((await server.put<Vm>(`/api/vm/${id}`, { name: 'tests-renommee' })).body.result?.name, 'tests-renommee');
+      assert.equal((await server.del(`/api/vm/${id}`)).body.success, true);
+    });
+
+    it('rejects invalid ids', async () => {
+      const response = await server.post('/api/vm/abc/start');
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe('/api/calls', () => {
+    it('lists, marks and deletes calls', async () => {
+      const calls = await server.get<Array<{ id: number; new: boolean }>>('/api/calls');
+      assert.equal(calls.body.result?.length, 14);
+      assert.ok(calls.body.result?.some(call => call.new));
+
+      assert.equal((await server.post('/api/calls/mark-read')).body.success, true);
+      assert.ok((await server.get<Array<{ new: boolean }>>('/api/calls')).body.result?.every(call => !call.new));
+
+      const first = calls.body.result?.[0].id;
+      assert.equal((await server.del(`/api/calls/${first}`)).body.success, true);
+      assert.equal((await server.get<unknown[]>('/api/calls')).body.result?.length, 13);
+
+      assert.equal((await server.del('/api/calls')).body.success, true);
+      assert.equal((await server.get<unknown[]>('/api/calls')).body.result?.length, 0);
+    });
+  });
+
+  describe('/api/contacts', () => {
+    it('manages contacts', async () => {
+      assert.equal((await server.get<unknown[]>('/api/contacts')).body.result?.length, 3);
+
+      const created = await server.post<{ id: number; display_name: string }>('/api/contacts', { display_name: 'Plombier', first_name: 'Jean' });
+      const id = created.body.result?.id;
+      assert.equal(created.body.result?.display_name, 'Plombier');
+      assert.equal((await server.get<{ first_name: string }>(`/api/contacts/${id}`)).body.result?.first_name, 'Jean');
+      assert.equal((await server.put<{ company: string }>(`/api/contacts/${id}`, { company: 'Dépannage 24/7' })).body.result?.company, 'Dépannage 24/7');
+      assert.equal((await server.del(`/api/contacts/${id}`)).body.success, true);
+      assert.equal((await server.get(`/api/contacts/${id}`)).body.error_code, 'noent');
+    });
+  });
+
+  describe('/api/tv', () => {
+    it('lists channels and bouquets', async () => {
+      assert.equal((await server.get<unknown[]>('/api/tv/channels')).body.result?.length, 6);
+      assert.equal((await server.get('/api/tv/bouquets')).body.success, true);
+    });
+
+    it('programs and removes recordings', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const created = await server.post<{ id: number }>('/api/tv/programmed', { channel_uuid: 'uuid-webtv-201', start: now + 3600, end: now + 7200, name: 'Journal' });
+      assert.equal(created.body.success, true);
+      assert.equal((await server.get<unknown[]>('/api/tv/programmed')).body.result?.length, 1);
+      assert.equal((await server.del(`/api/tv/programmed/${created.body.result?.id}`)).body.success, true);
+
+      assert.equal((await server.get('/api/tv/recordings')).body.success, true);
+      assert.equal((await server.get('/api/tv/pvr/config')).body.success, true);
+      assert.equal((await server.put<Json>('/api/tv/pvr/config', { margin_before: 120 })).body.result?.margin_before, 120);
+    });
+  });
+
+  describe('/api/parental', () => {
+    it('manages profiles and their network control', async () => {
+      assert.equal((await server.get<unknown[]>('/api/parental/profiles')).body.result?.length, 1);
+
+      const created = await server.post<{ id: number }>('/api/parental/profiles', { name: 'Enfants' });
+      const id = created.body.result?.id;
+      assert.equal((await server.get<{ name: string }>(`/api/parental/profiles/${id}`)).body.result?.name, 'Enfants');
+      assert.equal((await server.put<{ name: string }>(`/api/parental/profiles/${id}`, { name: 'Ados' })).body.result?.name, 'Ados');
+
+      assert.equal((await server.get<unknown[]>('/api/parental/network-control')).body.result?.length, 2);
+      const control = await server.put<{ current_mode: string }>(`/api/parental/network-control/${id}`, { override: true, override_mode: 'denied' });
+      assert.equal(control.body.result?.current_mode, 'denied');
+      assert.equal((await server.get(`/api/parental/network-control/${id}`)).body.success, true);
+
+      const rule = await server.post<{ id: number }>(`/api/parental/network-control/${id}/rules`, { name: 'Devoirs', start_time: 1020, end_time: 1140 });
+      const ruleId = rule.body.result?.id;
+      assert.equal((await server.get<unknown[]>(`/api/parental/network-control/${id}/rules`)).body.result?.length, 1);
+      assert.equal((await server.get<{ name: string }>(`/api/parental/network-control/${id}/rules/${ruleId}`)).body.result?.name, 'Devoirs');
+      assert.equal((await server.put<{ enabled: boolean }>(`/api/parental/network-control/${id}/rules/${ruleId}`, { enabled: false })).body.result?.enabled, false);
+      assert.equal((await server.del(`/api/parental/network-control/${id}/rules/${ruleId}`)).body.success, true);
+
+      assert.equal((await server.del(`/api/parental/profiles/${id}`)).body.success, true);
+    });
+
+    it('manages filters and their planning', async () => {
+      assert.equal((await server.get('/api/parental/config')).body.success, true);
+      assert.equal((await server.put<Json>('/api/parental/config', { default_filter_mode: 'denied' })).body.result?.default_filter_mode, 'denied');
+
+      const created = await server.post<{ id: number }>('/api/parental/filters', { desc: 'Console', macs: ['04:D9:F5:12:34:01'] });
+      const id = created.body.result?.id;
+      assert.equal((await server.get<unknown[]>('/api/parental/filters')).body.result?.length, 1);
+      assert.equal((await server.get<{ desc: string }>(`/api/parental/filters/${id}`)).body.result?.desc, 'Console');
+      assert.equal((await server.put<{ desc: string }>(`/api/parental/filters/${id}`, { desc: 'Console salon' })).body.result?.desc, 'Console salon');
+
+      const planning = await server.get<{ resolution: number }>(`/api/parental/filters/${id}/planning`);
+      assert.equal(planning.body.result?.resolution, 48);
+      assert.equal((await server.put(`/api/parental/filters/${id}/planning`, { resolution: 48 })).body.success, true);
+      assert.equal((await server.del(`/api/parental/filters/${id}`)).body.success, true);
+    });
+  });
+});
+
+function b64(p: string): string {
+  return Buffer.from(p, 'utf-8').toString('base64');
+}
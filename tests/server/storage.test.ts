@@ -0,0 +1,217 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from '../helpers/testServer.js';
+
+interface FileEntry {
+  name: string;
+  path: string;
+  type: 'dir' | 'file';
+  size: number;
+}
+
+interface Download {
+  id: number;
+  name: string;
+  status: string;
+  type: string;
+}
+
+const b64 = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+
+describe('downloads and files', () => {
+  let server: TestServer;
+
+  // Paths are base64 (Freebox format), URL-encoded like the browser does
+  const list = async (p?: string) => {
+    const response = await server.get<FileEntry[]>(`/api/fs/list${p ? `?path=${encodeURIComponent(b64(p))}` : ''}`);
+    assert.equal(response.body.success, true, response.text);
+    return (response.body.result ?? []).filter(entry => entry.name !== '.' && entry.name !== '..');
+  };
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('/api/downloads', () => {
+    it('lists the tasks and stats', async () => {
+      const downloads = await server.get<Download[]>('/api/downloads');
+      assert.equal(downloads.body.success, true);
+      assert.ok((downloads.body.result?.length ?? 0) > 0);
+
+      const stats = await server.get<{ nb_tasks: number }>('/api/downloads/stats');
+      assert.equal(stats.body.result?.nb_tasks, downloads.body.result?.length);
+    });
+
+    it('adds a download from a URL or a torrent file', async () => {
+      const missing = await server.post('/api/downloads', {});
+      assert.equal(missing.status, 400);
+      assert.equal(missing.body.error?.code, 'MISSING_URL_OR_FILE');
+
+      const byUrl = await server.post<{ id: number }>('/api/downloads', { url: 'https://cdimage.debian.org/debian-cd/debian-12.iso' });
+      assert.equal(byUrl.body.success, true);
+      const task = await server.get<Download>(`/api/downloads/${byUrl.body.result?.id}`);
+      assert.equal(task.body.result?.name, 'debian-12.iso');
+      assert.equal(task.body.result?.type, 'http');
+
+      const byFile = await server.post<{ id: number }>('/api/downloads', {
+        fileBase64: Buffer.from('d8:announce0:e').toString('base64'),
+        filename: 'ubuntu-24.04.torrent'
+      });
+      assert.equal(byFile.body.success, true);
+      const torrent = await server.get<Download>(`/api/downloads/${byFile.body.result?.id}`);
+      assert.equal(torrent.body.result?.name, 'ubuntu-24.04');
+      assert.equal(torrent.body.result?.type, 'bt');
+    });
+
+    it('returns task details', async () => {
+      const downloads = await server.get<Download[]>('/api/downloads');
+      const torrent = downloads.body.result?.find(download => download.type === 'bt');
+      assert.ok(torrent);
+
+      for (const detail of ['trackers', 'peers', 'files', 'pieces', 'blacklist', 'log']) {
+        const response = await server.get(`/api/downloads/${torrent.id}/${detail}`);
+        assert.equal(response.body.success, true, detail);
+      }
+      const files = await server.get<Array<{ id: string }>>(`/api/downloads/${torrent.id}/files`);
+      const fileId = files.body.result?.[0].id;
+      assert.equal((await server.put(`/api/downloads/${torrent.id}/files/${fileId}`, { priority: 'high' })).body.success, true);
+      assert.equal((await server.del(`/api/downloads/${torrent.id}/blacklist/empty`)).body.success, true);
+    });
+
+    it('pauses, resumes and deletes a task', async () => {
+      const added = await server.post<{ id: number }>('/api/downloads', { url: 'https://example.com/video.mkv' });
+      const id = added.body.result?.id;
+
+      assert.equal((await server.put<Download>(`/api/downloads/${id}`, { status: 'stopped' })).body.result?.status, 'stopped');
+      assert.equal((await server.put<Download>(`/api/downloads/${id}`, { status: 'downloading' })).body.result?.status, 'downloading');
+      assert.equal((await server.del(`/api/downloads/${id}?delete_files=true`)).body.success, true);
+      assert.equal((await server.get(`/api/downloads/${id}`)).body.error_code, 'noent');
+    });
+  });
+
+  describe('/api/fs', () => {
+    it('lists the root and the disk', async () => {
+      assert.deepEqual((await list()).map(entry => entry.name), ['Disque 1']);
+      const names = (await list('/Disque 1')).map(entry => entry.name);
+      assert.ok(names.includes('Documents'));
+      assert.ok(names.includes('Photos'));
+    });
+
+    it('returns file info', async () => {
+      const info = await server.get<FileEntry>(`/api/fs/info?path=${encodeURIComponent(b64('/Disque 1/Documents/notes.txt'))}`);
+      assert.equal(info.body.result?.type, 'file');
+      assert.equal(info.body.result?.name, 'notes.txt');
+
+      const missing = await server.get('/api/fs/info');
+      assert.equal(missing.status, 400);
+    });
+
+    it('creates, renames, copies, moves and removes', async () => {
+      const mkdir = await server.post('/api/fs/mkdir', { parent: encodeURIComponent(b64('/Disque 1')), dirname: 'Tests' });
+      assert.equal(mkdir.body.success, true);
+
+      const rename = await server.post('/api/fs/rename', { src: b64('/Disque 1/Tests'), dst: 'Essais' });
+      assert.equal(rename.body.success, true);
+
+      const copy = await server.post('/api/fs/copy', { files: [b64('/Disque 1/Documents/notes.txt')], dst: b64('/Disque 1/Essais'), mode: 'overwrite' });
+      assert.equal(copy.body.success, true);
+      assert.deepEqual((await list('/Disque 1/Essais')).map(entry => entry.name), ['notes.txt']);
+
+      const move = await server.post('/api/fs/move', { files: [b64('/Disque 1/Essais/notes.txt')], dst: b64('/Disque 1'), mode: 'overwrite' });
+      assert.equal(move.body.success, true);
+      assert.deepEqual(await list('/Disque 1/Essais'), []);
+
+      const remove = await server.post('/api/fs/remove', { files: [b64('/Disque 1/Essais'), b64('/Disque 1/notes.txt')] });
+      assert.equal(remove.body.success, true);
+      assert.ok(!(await list('/Disque 1')).some(entry => entry.name === 'Essais' || entry.name === 'notes.txt'));
+    });
+
+    it('reports missing paths', async () => {
+      const response = await server.get(`/api/fs/list?path=${encodeURIComponent(b64('/Disque 1/Inexistant'))}`);
+      assert.equal(response.body.success, false);
+      assert.equal(response.body.error_code, 'path_not_found');
+    });
+
+    it('returns disks and storage', async () => {
+      const disks = await server.get<Array<{ model: string }>>('/api/fs/disks');
+      assert.equal(disks.body.result?.length, 1);
+      assert.equal((await server.get('/api/fs/storage')).body.success, true);
+    });
+
+    it('manages share links', async () => {
+      const created = await server.post<{ token: string; fullurl: string }>('/api/fs/share', { path: b64('/Disque 1/Documents/README.md'), expire: 0 });
+      assert.equal(created.body.success, true);
+      const token = created.body.result?.token;
+      assert.match(created.body.result?.fullurl ?? '', /README\.md$/);
+
+      assert.equal((await server.get<Array<{ token: string }>>('/api/fs/share')).body.result?.length, 1);
+      assert.equal((await server.get<{ token: string }>(`/api/fs/share/${token}`)).body.result?.token, token);
+      assert.equal((await server.del(`/api/fs/share/${token}`)).body.success, true);
+      assert.equal((await server.get<unknown[]>('/api/fs/share')).body.result?.length, 0);
+    });
+
+    it('streams a file with range requests', async () => {
+      const file = `/api/fs/download?path=${encodeURIComponent(b64('/Disque 1/Documents/notes.txt'))}`;
+      const full = await server.get(file);
+      assert.equal(full.status, 200);
+      assert.match(full.headers.get('content-disposition') ?? '', /^attachment; filename="notes.txt"/);
+      assert.equal(full.text, 'Code du portail : 1234\nRendez-vous plombier jeudi 10h\n');
+
+      const part = await server.get(file, { headers: { Range: 'bytes=5-10' } });
+      assert.equal(part.status, 206);
+      assert.equal(part.headers.get('content-range'), 'bytes 5-10/54');
+      assert.equal(part.text, 'du por');
+      assert.equal((await server.get(file, { headers: { Range: 'bytes=100-' } })).status, 416);
+
+      assert.equal((await server.get('/api/fs/download')).body.error?.code, 'MISSING_PATH');
+      assert.equal((await server.get(`/api/fs/download?path=${encodeURIComponent(b64('/Disque 1/absent.txt'))}`)).status, 404);
+    });
+
+    it('never renders a file as a page of the dashboard', async () => {
+      const link = (p: string) => `/api/fs/download?path=${encodeURIComponent(b64(p))}&inline=1`;
+      server.freebox.mock.state.writeFile('/Disque 1/Téléchargements/page.html', Buffer.from('<script>fetch("/api/users")</script>'));
+      server.freebox.mock.state.writeFile('/Disque 1/Téléchargements/logo.svg', Buffer.from('<svg onload="alert(1)"/>'));
+
+      const html = await server.get(link('/Disque 1/Téléchargements/page.html'));
+      assert.equal(html.status, 200);
+      assert.equal(html.headers.get('content-type'), 'text/plain; charset=utf-8');
+      assert.equal(html.headers.get('x-content-type-options'), 'nosniff');
+      assert.equal(html.headers.get('content-security-policy'), 'sandbox');
+
+      const svg = await server.get(link('/Disque 1/Téléchargements/logo.svg'));
+      assert.match(svg.headers.get('content-disposition') ?? '', /^attachment;/);
+
+      const pdf = await server.get(link('/Disque 1/Documents/facture-2025-09.pdf'));
+      assert.equal(pdf.headers.get('content-type'), 'application/pdf');
+      assert.match(pdf.headers.get('content-disposition') ?? '', /^inline;/);
+      assert.equal(pdf.headers.get('content-security-policy'), null);
+    });
+
+    it('sends folders and selections as a zip', async () => {
+      const query = ['/Disque 1/Documents', '/Disque 1/Musique/playlist.mp3']
+        .map(p => `path=${encodeURIComponent(b64(p))}`).join('&');
+      const response = await fetch(`${server.url}/api/fs/download?${query}`, { headers: { Cookie: server.adminCookie } });
+      assert.equal(response.headers.get('content-type'), 'application/zip');
+      assert.equal(response.headers.get('x-content-type-options'), 'nosniff');
+      assert.match(response.headers.get('content-disposition') ?? '', /filename="Disque 1.zip"/);
+
+      const archive = Buffer.from(await response.arrayBuffer());
+      // End of central directory: entry count, then the file names of the central directory
+      const end = archive.length - 22;
+      assert.equal(archive.readUInt32LE(end), 0x06054b50);
+      const names: string[] = [];
+      for (let offset = archive.readUInt32LE(end + 16), i = 0; i < archive.readUInt16LE(end + 10); i++) {
+        const length = archive.readUInt16LE(offset + 28);
+        names.push(archive.toString('utf-8', offset + 46, offset + 46 + length));
+        offset += 46 + length + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+      }
+      assert.deepEqual(names, [
+        'Documents/', 'Documents/facture-2025-09.pdf', 'Documents/notes.txt', 'Documents/README.md', 'playlist.mp3'
+      ]);
+    });
+  });
+});
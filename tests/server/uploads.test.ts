@@ -0,0 +1,109 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type ApiBody, type TestServer } from '../helpers/testServer.js';
+
+interface UploadSession {
+  id: string;
+  name: string;
+  size: number;
+  received: number;
+  status: string;
+}
+
+const b64 = (p: string): string => Buffer.from(p, 'utf-8').toString('base64');
+const DIR = '/Disque 1/Documents';
+
+describe('/api/fs/upload', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const create = (name: string, size: number, conflict?: string) =>
+    server.post<UploadSession>('/api/fs/upload', { dirname: b64(DIR), name, size, conflict });
+
+  // Chunks are raw bytes, which the JSON request helper doesn't send
+  const putChunk = async (id: string, offset: number, chunk: Buffer) => {
+    const response = await fetch(`${server.url}/api/fs/upload/${id}?offset=${offset}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream', Cookie: server.adminCookie },
+      body: chunk
+    });
+    return { status: response.status, body: await response.json() as ApiBody<UploadSession> };
+  };
+
+  const stored = (name: string) => server.freebox.mock.state.fs.get(`${DIR}/${name}`);
+
+  it('sends a file in chunks to the Freebox upload socket', async () => {
+    const content = Buffer.from('0123456789'.repeat(100));
+    const started = await create('rapport.txt', content.length);
+    assert.equal(started.body.success, true, started.text);
+    const id = started.body.result!.id;
+
+    const first = await putChunk(id, 0, content.subarray(0, 600));
+    assert.equal(first.body.result?.received, 600);
+    assert.equal(first.body.result?.status, 'uploading');
+
+    // A chunk sent twice (lost response) is refused with the expected offset
+    const replay = await putChunk(id, 0, content.subarray(0, 600));
+    assert.equal(replay.status, 409);
+    assert.equal(replay.body.error?.code, 'OFFSET_MISMATCH');
+
+    const status = await server.get<UploadSession>(`/api/fs/upload/${id}`);
+    assert.equal(status.body.result?.received, 600);
+
+    const last = await putChunk(id, 600, content.subarray(600));
+    assert.equal(last.body.result?.status, 'done');
+    assert.deepEqual(stored('rapport.txt')?.content, content);
+    assert.equal((await server.get(`/api/fs/upload/${id}`)).status, 404);
+  });
+
+  it('asks what to do when the file exists, then overwrites, renames or skips', async () => {
+    const conflict = await create('notes.txt', 3);
+    assert.equal(conflict.status, 409);
+    assert.equal(conflict.body.error?.code, 'FILE_EXISTS');
+
+    const renamed = await create('notes.txt', 3, 'rename');
+    assert.equal(renamed.body.result?.name, 'notes (1).txt');
+    await putChunk(renamed.body.result!.id, 0, Buffer.from('abc'));
+    assert.equal(stored('notes (1).txt')?.content?.toString(), 'abc');
+
+    const overwrite = await create('notes.txt', 3, 'overwrite');
+    await putChunk(overwrite.body.result!.id, 0, Buffer.from('xyz'));
+    assert.equal(stored('notes.txt')?.content?.toString(), 'xyz');
+
+    const skipped = await create('notes.txt', 3, 'skip');
+    assert.equal(skipped.body.result?.status, 'skipped');
+    assert.equal(stored('notes.txt')?.content?.toString(), 'xyz');
+  });
+
+  it('creates empty files and refuses a missing folder', async () => {
+    const empty = await create('vide.txt', 0);
+    assert.equal(empty.body.result?.status, 'done');
+    assert.equal(stored('vide.txt')?.size, 0);
+
+    const missing = await server.post('/api/fs/upload', { dirname: b64('/Disque 1/Inconnu'), name: 'a.txt', size: 1 });
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error?.code, 'DIRECTORY_NOT_FOUND');
+  });
+
+  it('removes the partial file when cancelled', async () => {
+    const started = await create('gros.bin', 100);
+    const id = started.body.result!.id;
+    await putChunk(id, 0, Buffer.alloc(40));
+    assert.ok(stored('gros.bin'));
+
+    const cancelled = await server.del<UploadSession>(`/api/fs/upload/${id}`);
+    assert.equal(cancelled.body.result?.status, 'cancelled');
+    assert.equal(stored('gros.bin'), undefined);
+
+    const tooLong = await create('court.bin', 2);
+    const refused = await putChunk(tooLong.body.result!.id, 0, Buffer.alloc(3));
+    assert.equal(refused.body.error?.code, 'SIZE_EXCEEDED');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeSystemInfo, detectApiCapabilities } from '../../server/services/apiNormalizer.js';
+
+describe('normalizeSystemInfo', () => {
+  it('flattens the sensors and fans arrays of recent firmwares', () => {
+    const info = normalizeSystemInfo({
+      sensors: [
+        { id: 'temp_cpu0', name: 'Température CPU 0', value: 50 },
+        { id: 'temp_cpu1', name: 'Température CPU 1', value: 52 },
+        { id: 'temp_cpu2', name: 'Température CPU 2', value: 54 },
+        { id: 'temp_cpu3', name: 'Température CPU 3', value: 56 },
+        { id: 'temp_t9', name: 'Température Carte', value: 40 }
+      ],
+      fans: [{ id: 'fan0_speed', name: 'Ventilateur 1', value: 1800 }]
+    });
+
+    assert.equal(info.temp_cpu2, 54);
+    // Ultra has no temp_cpum: average of the four cores
+    assert.equal(info.temp_cpum, 53);
+    assert.deepEqual(info.sensors?.map(sensor => sensor.name), ['CPU 0', 'CPU 1', 'CPU 2', 'CPU 3', 'Carte']);
+    assert.equal(info.fan_rpm, 1800);
+  });
+
+  it('maps the short sensor ids to the legacy fields', () => {
+    const info = normalizeSystemInfo({
+      sensors: [
+        { id: 't1', name: 'Température CPU', value: 60 },
+        { id: 't2', name: 'Température CPU B', value: 55 },
+        { id: 't3', name: 'Température Switch', value: 45 }
+      ],
+      fans: [{ id: 'fan1', name: 'Ventilateur', value: 900 }]
+    });
+
+    assert.equal(info.temp_cpum, 60);
+    assert.equal(info.temp_cpub, 55);
+    assert.equal(info.temp_sw, 45);
+    // Without a known main fan the first one is used
+    assert.equal(info.fan_rpm, 900);
+    assert.equal(info.fans?.[0].name, 'Ventilateur 2');
+  });
+
+  it('builds the arrays from the flat fields of older firmwares', () => {
+    const info = normalizeSystemInfo({ temp_cpum: 61, temp_cpub: 57, temp_sw: 44, fan_rpm: 2100 });
+
+    assert.deepEqual(info.sensors, [
+      { id: 'temp_cpum', name: 'CPU', value: 61 },
+      { id: 'temp_cpub', name: 'CPU Box', value: 57 },
+      { id: 'temp_sw', name: 'Switch', value: 44 }
+    ]);
+    assert.deepEqual(info.fans, [{ id: 'fan_rpm', name: 'Ventilateur', value: 2100 }]);
+  });
+
+  it('leaves boxes without sensors untouched', () => {
+    const info = normalizeSystemInfo({ uptime_val: 42 });
+    assert.equal(info.sensors, undefined);
+    assert.equal(info.fans, undefined);
+    assert.equal(info.uptime_val, 42);
+  });
+});
+
+describe('detectApiCapabilities', () => {
+  it('enables the features of each API version', () => {
+    assert.deepEqual(detectApiCapabilities('v15'), { version: 'v15', hasSensorsArray: true, hasFansArray: true, supportsPagination: true });
+    assert.equal(detectApiCapabilities('v8').supportsPagination, false);
+    assert.equal(detectApiCapabilities('v8').hasSensorsArray, true);
+    assert.equal(detectApiCapabilities(undefined).version, 'v4');
+    assert.equal(detectApiCapabilities(undefined).hasSensorsArray, false);
+  });
+});
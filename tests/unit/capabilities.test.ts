@@ -0,0 +1,39 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectModelFromName, buildCapabilities } from '../../server/types/capabilities.js';
+
+describe('detectModelFromName', () => {
+  before(() => {
+    // Every detection is logged
+    console.log = () => {};
+  });
+
+  it('recognizes each model from its API name', () => {
+    assert.equal(detectModelFromName('Freebox Ultra'), 'ultra');
+    assert.equal(detectModelFromName('Freebox v9 (r1)'), 'ultra');
+    assert.equal(detectModelFromName('Freebox Pop'), 'pop');
+    assert.equal(detectModelFromName('Freebox v8 (r1)'), 'pop');
+    assert.equal(detectModelFromName('Freebox Delta'), 'delta');
+    assert.equal(detectModelFromName('Freebox v7 (r1)'), 'delta');
+    assert.equal(detectModelFromName('Freebox Révolution'), 'revolution');
+    assert.equal(detectModelFromName('fbxgw1r'), 'revolution');
+  });
+
+  it('treats the Mini 4K as a Revolution', () => {
+    assert.equal(detectModelFromName('Freebox Mini 4K'), 'revolution');
+    assert.equal(detectModelFromName('fbxgw7r'), 'revolution');
+  });
+
+  it('returns unknown for other names', () => {
+    assert.equal(detectModelFromName(''), 'unknown');
+    assert.equal(detectModelFromName('Routeur'), 'unknown');
+  });
+});
+
+describe('buildCapabilities', () => {
+  it('derives internal storage from the box flavor', () => {
+    assert.equal(buildCapabilities('delta', 'Freebox v7 (r1)', 'full').hasInternalStorage, true);
+    assert.equal(buildCapabilities('delta', 'Freebox v7 (r1)', 'light').hasInternalStorage, false);
+    assert.equal(buildCapabilities('pop', 'Freebox v8 (r1)', 'light').vmSupport, 'none');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePingTime, parseHopLine, validateHost, validateDnsName, validatePorts } from '../../server/services/diagnostics.js';
+
+describe('parsePingTime', () => {
+  it('reads Linux, macOS and Windows replies', () => {
+    assert.equal(parsePingTime('64 bytes from 1.1.1.1: icmp_seq=1 ttl=57 time=12.3 ms'), 12.3);
+    assert.equal(parsePingTime('64 bytes from 8.8.8.8: icmp_seq=0 ttl=117 time=9.812 ms'), 9.812);
+    assert.equal(parsePingTime('Reply from 192.168.1.254: bytes=32 time<1ms TTL=64'), 1);
+    assert.equal(parsePingTime('Réponse de 192.168.1.254 : octets=32 temps=4 ms TTL=64'), 4);
+    assert.equal(parsePingTime('64 octets de 1.1.1.1 : icmp_seq=1 ttl=57 temps=12,5 ms'), 12.5);
+  });
+
+  it('ignores the other lines', () => {
+    assert.equal(parsePingTime('PING 1.1.1.1 (1.1.1.1) 56(84) bytes of data.'), null);
+    assert.equal(parsePingTime('Request timed out.'), null);
+    assert.equal(parsePingTime('rtt min/avg/max/mdev = 9.812/12.301/14.001/1.204 ms'), null);
+  });
+});
+
+describe('parseHopLine', () => {
+  it('reads traceroute hops', () => {
+    assert.deepEqual(parseHopLine(' 1  192.168.1.254  0.512 ms  0.498 ms  0.477 ms'), {
+      hop: 1,
+      address: '192.168.1.254',
+      sent: 3,
+      times: [0.512, 0.498, 0.477]
+    });
+    assert.deepEqual(parseHopLine(' 3  * 10.0.0.2  6.012 ms *'), { hop: 3, address: '10.0.0.2', sent: 3, times: [6.012] });
+  });
+
+  it('reads tracert hops', () => {
+    assert.deepEqual(parseHopLine('  2    <1 ms    2 ms     *     10.0.0.1'), { hop: 2, address: '10.0.0.1', sent: 3, times: [1, 2] });
+  });
+
+  it('reports silent hops and skips headers', () => {
+    assert.deepEqual(parseHopLine(' 7  * * *'), { hop: 7, address: null, sent: 3, times: [] });
+    assert.equal(parseHopLine('traceroute to 1.1.1.1 (1.1.1.1), 30 hops max, 60 byte packets'), null);
+  });
+});
+
+describe('input validation', () => {
+  it('accepts IP addresses and host names only', () => {
+    assert.equal(validateHost(' mafreebox.freebox.fr '), 'mafreebox.freebox.fr');
+    assert.equal(validateHost('2a01:e0a::1'), '2a01:e0a::1');
+    assert.throws(() => validateHost('1.1.1.1; rm -rf /'));
+    assert.throws(() => validateHost('-c 100 example.com'));
+  });
+
+  it('expects an IP address for reverse lookups', () => {
+    assert.equal(validateDnsName('1.1.1.1', 'PTR'), '1.1.1.1');
+    assert.throws(() => validateDnsName('example.com', 'PTR'));
+  });
+
+  it('checks the port list', () => {
+    assert.deepEqual(validatePorts([{ port: 443 }, { port: '53', protocol: 'udp' }]), [
+      { port: 443, protocol: 'tcp' },
+      { port: 53, protocol: 'udp' }
+    ]);
+    assert.throws(() => validatePorts([]));
+    assert.throws(() => validatePorts([{ port: 70000 }]));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  array, boolean, nullable, number, object, oneOf, optional, string, validate, formatIssue,
+  ConnectionStatusSchema
+} from '../../shared/freebox/index.js';
+
+const HostSchema = object('Host', {
+  id: string(),
+  active: boolean(),
+  l2ident: object('L2Ident', { id: string(), type: string() }),
+  names: array(object('Name', { name: string() })),
+  interface: optional(string()),
+  last_seen: nullable(number())
+});
+
+const host = {
+  id: 'ether-a4:83:e7:12:34:02',
+  active: true,
+  l2ident: { id: 'A4:83:E7:12:34:02', type: 'mac_address' },
+  names: [{ name: 'MacBook-Pro', source: 'dhcp' }],
+  last_seen: null,
+  // Fields the schema doesn't list are accepted
+  vendor_name: 'Apple'
+};
+
+describe('Freebox response schemas', () => {
+  it('accepts a matching value', () => {
+    assert.deepEqual(validate(HostSchema, host), []);
+    assert.deepEqual(validate(array(HostSchema), [host, { ...host, interface: 'pub', last_seen: 12 }]), []);
+  });
+
+  it('reports each mismatch with its field path', () => {
+    const issues = validate(array(HostSchema), [host, { ...host, active: 'yes', l2ident: {}, names: [{ name: 3 }] }], 'result');
+    assert.deepEqual(issues.map(formatIssue), [
+      'result[1].active: expected boolean, got string',
+      'result[1].l2ident.id: expected string, got undefined',
+      'result[1].l2ident.type: expected string, got undefined',
+      'result[1].names[0].name: expected string, got number'
+    ]);
+  });
+
+  it('checks enumerations and rejects non finite numbers', () => {
+    const status = { state: 'rebooting', type: 'ethernet', media: 'ftth', ipv4: '', ipv6: '', rate_down: NaN };
+    const paths = validate(ConnectionStatusSchema, status).map(issue => `${issue.path} ${issue.received}`);
+    assert.ok(paths.includes("state 'rebooting'"));
+    assert.ok(paths.includes('rate_down number'));
+    assert.ok(paths.includes('bytes_up undefined'));
+    assert.deepEqual(validate(oneOf(['up', 'down']), 'up'), []);
+  });
+
+  it('names the root when the whole value is wrong', () => {
+    assert.equal(formatIssue(validate(array(HostSchema), { entries: [] })[0]), '(root): expected Host[], got object');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { UptimeDay } from '../../server/types/metrics.js';
+
+const DAY = 86400;
+const SAMPLE_INTERVAL = 300;
+
+describe('metricsCollector.getUptimeHistory', () => {
+  let dataDir: string;
+  let history: UptimeDay[];
+
+  before(async () => {
+    // The metrics store writes under the data directory, read from the environment at import
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'freebox-dashboard-uptime-'));
+    process.env.FREEBOX_TOKEN_FILE = path.join(dataDir, '.freebox_token');
+    const { metricsStore } = await import('../../server/services/metricsStore.js');
+    const { metricsCollector } = await import('../../server/services/metricsCollector.js');
+
+    const today = Math.floor(Date.now() / 1000 / DAY) * DAY;
+    const rebootAt = today - DAY / 2;
+
+    // Two days ago: up all day. Yesterday: reboot at noon. Nothing before, nothing today
+    let uptime = 10 * DAY;
+    for (let t = today - 2 * DAY; t < today; t += SAMPLE_INTERVAL) {
+      uptime = t === rebootAt ? 0 : uptime + SAMPLE_INTERVAL;
+      metricsStore.append(t, { uptime });
+    }
+    // A sample in the next bucket closes the last one of yesterday
+    metricsStore.append(today, { uptime: uptime + SAMPLE_INTERVAL });
+
+    history = metricsCollector.getUptimeHistory(4);
+  });
+
+  after(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('returns one entry per day, oldest first', () => {
+    const today = new Date().toISOString().split('T')[0];
+    assert.equal(history.length, 4);
+    assert.equal(history[3].date, today);
+  });
+
+  it('marks days without samples as unknown', () => {
+    assert.equal(history[0].status, 'unknown');
+    assert.equal(history[0].reboots, 0);
+  });
+
+  it('marks a day with a steadily growing uptime as up', () => {
+    assert.equal(history[1].status, 'up');
+    assert.equal(history[1].reboots, 0);
+  });
+
+  it('counts a reboot when the uptime drops', () => {
+    assert.equal(history[2].status, 'partial');
+    assert.equal(history[2].reboots, 1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { createZipStream, type ZipEntry } from '../../server/services/zipStream.js';
+
+const MODIFICATION = Date.UTC(2025, 5, 15, 12, 30) / 1000;
+
+const collect = async (entries: ZipEntry[]): Promise<Buffer> => {
+  async function* source() {
+    yield* entries;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of createZipStream(source())) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+// Central directory records: name, CRC, sizes as written and ZIP64 extra field id
+const centralDirectory = (archive: Buffer) => {
+  const end = archive.length - 22;
+  const records = [];
+  for (let offset = archive.readUInt32LE(end + 16), i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    records.push({
+      name: archive.toString('utf-8', offset + 46, offset + 46 + nameLength),
+      crc: archive.readUInt32LE(offset + 16),
+      size: archive.readUInt32LE(offset + 24),
+      extra: extraLength ? archive.readUInt16LE(offset + 46 + nameLength) : null
+    });
+    offset += 46 + nameLength + extraLength;
+  }
+  return records;
+};
+
+describe('zip stream', () => {
+  it('stores files with their CRC and size after the content', async () => {
+    const content = [Buffer.from('Bonjour '), Buffer.from('à tous\n')];
+    const archive = await collect([
+      { name: 'Dossier/', modification: MODIFICATION },
+      { name: 'Dossier/lettre.txt', modification: MODIFICATION, open: async () => content }
+    ]);
+
+    assert.equal(archive.readUInt32LE(0), 0x04034b50);
+    // Stored entries: the content is in the archive as is
+    assert.ok(archive.includes(Buffer.concat(content)));
+    assert.deepEqual(centralDirectory(archive), [
+      { name: 'Dossier/', crc: 0, size: 0, extra: null },
+      { name: 'Dossier/lettre.txt', crc: zlib.crc32(Buffer.concat(content)), size: 16, extra: null }
+    ]);
+  });
+
+  it('adds ZIP64 fields for files of 4 GiB and more', async () => {
+    const archive = await collect([
+      { name: 'disque.img', modification: MODIFICATION, size: 2 ** 32, open: async () => [Buffer.from('img')] }
+    ]);
+    const [record] = centralDirectory(archive);
+    assert.equal(record.size, 0xffffffff);
+    assert.equal(record.extra, 0x0001);
+  });
+
+  it('fails the archive when a file cannot be read', async () => {
+    await assert.rejects(collect([
+      { name: 'absent.txt', modification: MODIFICATION, open: async () => { throw new Error('HTTP 404'); } }
+    ]), /HTTP 404/);
+  });
+});